@@ -1,8 +1,19 @@
 import { RouterProvider } from 'react-router-dom';
 import { router } from './routes';
+import { SessionMonitor } from './features/auth/components';
+import { useAppSelector } from './store/hooks';
+import { selectIsAuthenticated } from './store/authSlice';
 
 function App() {
-  return <RouterProvider router={router} />;
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+
+  return (
+    <>
+      <RouterProvider router={router} />
+      {/* Idle timeout and cross-tab logout only apply to a signed-in session */}
+      {isAuthenticated && <SessionMonitor />}
+    </>
+  );
 }
 
 export default App;
@@ -0,0 +1,42 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAppSelector } from '../../store/hooks';
+import { selectIsAuthenticated } from '../../store/authSlice';
+
+/** Router location state used to send the user back after logging in */
+export interface RedirectLocationState {
+  from?: {
+    pathname: string;
+    search: string;
+    hash: string;
+  };
+}
+
+export interface ProtectedRouteProps {
+  /** Whether the wrapped routes need an active session (mirrors NavigationItem.requiresAuth) */
+  requiresAuth?: boolean;
+  /** Where unauthenticated users are sent */
+  redirectTo?: string;
+}
+
+/**
+ * Layout route that only renders its child routes for logged-in users.
+ * Unauthenticated visitors are redirected to the login page, carrying the
+ * originally requested URL in router state so login can send them back.
+ */
+export const ProtectedRoute = ({ requiresAuth = true, redirectTo = '/login' }: ProtectedRouteProps) => {
+  const location = useLocation();
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+
+  if (requiresAuth && !isAuthenticated) {
+    const state: RedirectLocationState = {
+      from: {
+        pathname: location.pathname,
+        search: location.search,
+        hash: location.hash,
+      },
+    };
+    return <Navigate to={redirectTo} replace state={state} />;
+  }
+
+  return <Outlet />;
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { configureStore } from '@reduxjs/toolkit';
+import { Provider } from 'react-redux';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom';
+import { ProtectedRoute, type RedirectLocationState } from '../ProtectedRoute';
+import { authSlice } from '../../../store/authSlice';
+
+/**
+ * Tests for ProtectedRoute
+ *
+ * - Authenticated users see the protected page
+ * - Unauthenticated users are redirected to login with the requested URL in state
+ * - requiresAuth={false} lets everyone through
+ */
+
+/** Renders the router state passed to the login page so tests can inspect it */
+const LoginProbe = () => {
+    const location = useLocation();
+    const from = (location.state as RedirectLocationState | null)?.from;
+    return <div data-testid="login-page">{from ? `${from.pathname}${from.search}` : 'no-redirect'}</div>;
+};
+
+const renderWithSession = (isAuthenticated: boolean, initialEntry: string, requiresAuth = true) => {
+    const store = configureStore({
+        reducer: { [authSlice.reducerPath]: authSlice.reducer },
+        preloadedState: { auth: { isAuthenticated } },
+    });
+
+    return render(
+        <Provider store={store}>
+            <MemoryRouter initialEntries={[initialEntry]}>
+                <Routes>
+                    <Route path="/login" element={<LoginProbe />} />
+                    <Route element={<ProtectedRoute requiresAuth={requiresAuth} />}>
+                        <Route path="/wallets/:walletId" element={<div data-testid="protected-page">Wallet</div>} />
+                    </Route>
+                </Routes>
+            </MemoryRouter>
+        </Provider>
+    );
+};
+
+describe('ProtectedRoute', () => {
+    it('should render the protected page for an authenticated user', () => {
+        renderWithSession(true, '/wallets/abc');
+        expect(screen.getByTestId('protected-page')).toBeInTheDocument();
+    });
+
+    it('should redirect to login and remember the requested URL', () => {
+        renderWithSession(false, '/wallets/abc?tab=history');
+        expect(screen.queryByTestId('protected-page')).not.toBeInTheDocument();
+        expect(screen.getByTestId('login-page')).toHaveTextContent('/wallets/abc?tab=history');
+    });
+
+    it('should render the page without a session when requiresAuth is false', () => {
+        renderWithSession(false, '/wallets/abc', false);
+        expect(screen.getByTestId('protected-page')).toBeInTheDocument();
+    });
+});
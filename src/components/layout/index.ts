@@ -1,2 +1,4 @@
 export { AuthLayout } from './AuthLayout';
 export type { AuthLayoutProps } from './AuthLayout';
+export { ProtectedRoute } from './ProtectedRoute';
+export type { ProtectedRouteProps, RedirectLocationState } from './ProtectedRoute';
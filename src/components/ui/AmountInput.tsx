@@ -1,4 +1,5 @@
 import { positiveNumberHandlers } from '../../utils/inputHelpers';
+import { DEFAULT_CURRENCY, getAmountPlaceholder, getAmountStep, getCurrencySymbol } from '../../utils/currency';
 
 interface AmountInputProps {
     value: string;
@@ -12,28 +13,36 @@ interface AmountInputProps {
     className?: string;
 }
 
+/**
+ * Large amount input with the currency symbol and an optional currency selector.
+ * Step and default placeholder follow the currency's minor units (e.g., no decimals for JPY).
+ * Without a selector, the currency code is shown as a static badge.
+ */
 export const AmountInput = ({
     value,
     onChange,
-    currency = 'SGD',
+    currency = DEFAULT_CURRENCY,
     onCurrencyChange,
-    currencies = ['SGD'],
-    placeholder = '0.00',
+    currencies = [DEFAULT_CURRENCY],
+    placeholder,
     showCurrencySelector = true,
     autoFocus = false,
     className = '',
 }: AmountInputProps) => {
+    const symbol = getCurrencySymbol(currency);
+
     return (
         <div className={`relative flex items-center group ${className}`}>
             <div className="absolute left-0 inset-y-0 flex items-center pl-4 pointer-events-none z-10">
-                <span className="text-[#90a4cb] text-2xl font-medium">$</span>
+                <span className="text-[#90a4cb] text-2xl font-medium">{symbol}</span>
             </div>
             <input
                 autoFocus={autoFocus}
                 autoComplete="off"
-                className="w-full bg-[#101623] text-white text-3xl font-bold py-4 pl-10 pr-24 rounded-xl border border-[#314368] focus:border-primary focus:ring-1 focus:ring-primary placeholder-[#314368] transition-all outline-none focus:outline-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                placeholder={placeholder}
+                className={`w-full bg-[#101623] text-white text-3xl font-bold py-4 ${symbol.length > 1 ? 'pl-16' : 'pl-10'} pr-24 rounded-xl border border-[#314368] focus:border-primary focus:ring-1 focus:ring-primary placeholder-[#314368] transition-all outline-none focus:outline-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none`}
+                placeholder={placeholder ?? getAmountPlaceholder(currency)}
                 type="number"
+                step={getAmountStep(currency)}
                 value={value}
                 onChange={(e) => onChange(e.target.value)}
                 {...positiveNumberHandlers}
@@ -53,6 +62,11 @@ export const AmountInput = ({
                     </select>
                 </div>
             )}
+            {showCurrencySelector && !onCurrencyChange && (
+                <div className="absolute right-2 inset-y-2 flex items-center px-3 rounded-lg bg-[#222f49] text-white text-sm font-medium pointer-events-none">
+                    {currency}
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,71 @@
+import { getPageItems, PAGE_ELLIPSIS } from '../../utils/pagination';
+
+export interface PaginationProps {
+    /** Current page (1-based) */
+    currentPage: number;
+    /** Total number of pages */
+    totalPages: number;
+    /** Callback with the requested page */
+    onPageChange: (page: number) => void;
+    /** Label for the previous-page button */
+    previousLabel?: string;
+    /** Label for the next-page button */
+    nextLabel?: string;
+    /** Pages shown either side of the current page */
+    siblingCount?: number;
+}
+
+/**
+ * Page navigator with previous/next buttons and numbered pages.
+ * Distant pages collapse into ellipses so the control stays compact.
+ */
+export const Pagination = ({
+    currentPage,
+    totalPages,
+    onPageChange,
+    previousLabel = 'Previous',
+    nextLabel = 'Next',
+    siblingCount = 1,
+}: PaginationProps) => {
+    const navButtonStyles = 'px-4 py-2 bg-[#161E2C] hover:bg-[#1e2a3c] disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-1 border border-slate-700';
+
+    return (
+        <nav className="flex items-center gap-2" aria-label="Pagination">
+            <button
+                onClick={() => onPageChange(currentPage - 1)}
+                disabled={currentPage <= 1}
+                className={navButtonStyles}
+            >
+                <span className="material-symbols-outlined text-[18px]">chevron_left</span>
+                <span className="hidden sm:inline">{previousLabel}</span>
+            </button>
+
+            {getPageItems(currentPage, totalPages, siblingCount).map((item, index) =>
+                item === PAGE_ELLIPSIS ? (
+                    <span key={`ellipsis-${index}`} className="px-2 text-slate-500 text-sm">…</span>
+                ) : (
+                    <button
+                        key={item}
+                        onClick={() => onPageChange(item)}
+                        aria-current={item === currentPage ? 'page' : undefined}
+                        className={`min-w-9 h-9 px-2 rounded-lg text-sm font-medium transition-colors border ${item === currentPage
+                            ? 'bg-blue-500 border-blue-500 text-white'
+                            : 'bg-[#161E2C] border-slate-700 text-slate-300 hover:bg-[#1e2a3c]'
+                            }`}
+                    >
+                        {item}
+                    </button>
+                )
+            )}
+
+            <button
+                onClick={() => onPageChange(currentPage + 1)}
+                disabled={currentPage >= totalPages}
+                className={navButtonStyles}
+            >
+                <span className="hidden sm:inline">{nextLabel}</span>
+                <span className="material-symbols-outlined text-[18px]">chevron_right</span>
+            </button>
+        </nav>
+    );
+};
@@ -26,3 +26,6 @@ export { ProcessingModal } from './ProcessingModal';
 export { ErrorModal } from './ErrorModal';
 
 export { Card } from './Card';
+
+export { Pagination } from './Pagination';
+export type { PaginationProps } from './Pagination';
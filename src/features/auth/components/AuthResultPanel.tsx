@@ -0,0 +1,33 @@
+import type { ReactNode } from 'react';
+
+interface AuthResultPanelProps {
+  /** Material Symbols icon name */
+  icon: string;
+  tone?: 'success' | 'warning' | 'info';
+  title: string;
+  message: string;
+  /** Actions shown under the message */
+  children?: ReactNode;
+}
+
+const toneClasses = {
+  success: 'bg-green-500/10 text-green-500',
+  warning: 'bg-amber-500/10 text-amber-400',
+  info: 'bg-blue-500/10 text-blue-500',
+};
+
+/**
+ * Outcome shown in place of an auth form (link sent, password reset, link expired, ...)
+ */
+export const AuthResultPanel = ({ icon, tone = 'info', title, message, children }: AuthResultPanelProps) => (
+  <div className="flex flex-col items-center gap-4 text-center">
+    <div className={`w-14 h-14 rounded-full flex items-center justify-center ${toneClasses[tone]}`}>
+      <span className="material-symbols-outlined text-3xl">{icon}</span>
+    </div>
+    <div className="flex flex-col gap-1">
+      <h2 className="text-lg font-semibold text-white">{title}</h2>
+      <p className="text-sm text-slate-400">{message}</p>
+    </div>
+    {children && <div className="w-full flex flex-col gap-3">{children}</div>}
+  </div>
+);
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { AuthLayout } from '../../../components/layout';
+import { DarkInput, Button, Alert } from '../../../components/ui';
+import { AUTH_TEXT } from '../constants';
+import { forgotPasswordSchema, type ForgotPasswordFormData } from '../../../schemas';
+import { useRequestPasswordResetMutation } from '../services/authApi';
+import { getAuthFlowError } from '../utils';
+import { AuthResultPanel } from './AuthResultPanel';
+
+export const ForgotPasswordForm = () => {
+  const navigate = useNavigate();
+  // Address the link was sent to; the same confirmation is shown whether or not it has an account
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [requestPasswordReset, { isLoading, error }] = useRequestPasswordResetMutation();
+
+  const errorInfo = error
+    ? getAuthFlowError(error, AUTH_TEXT.FORGOT_PASSWORD.ERROR_TITLE, AUTH_TEXT.FORGOT_PASSWORD.ERROR_MESSAGE)
+    : null;
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    mode: 'onBlur',
+    defaultValues: {
+      email: '',
+    },
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      await requestPasswordReset({ email: data.email }).unwrap();
+      setSentTo(data.email);
+    } catch (err) {
+      console.error('Password reset request failed:', err);
+    }
+  };
+
+  return (
+    <AuthLayout
+      title={AUTH_TEXT.FORGOT_PASSWORD.TITLE}
+      subtitle={AUTH_TEXT.FORGOT_PASSWORD.SUBTITLE}
+      variant="dark"
+      showLogoInCard={true}
+      copyright={AUTH_TEXT.COMMON.COPYRIGHT}
+      footer={
+        <button
+          onClick={() => navigate('/login')}
+          className="text-blue-500 hover:text-blue-400 text-sm font-medium transition-colors bg-transparent border-none cursor-pointer"
+        >
+          {AUTH_TEXT.FORGOT_PASSWORD.BACK_TO_LOGIN}
+        </button>
+      }
+    >
+      {sentTo ? (
+        <AuthResultPanel
+          icon="mark_email_read"
+          tone="success"
+          title={AUTH_TEXT.FORGOT_PASSWORD.SENT_TITLE}
+          message={AUTH_TEXT.FORGOT_PASSWORD.SENT_MESSAGE(sentTo)}
+        />
+      ) : (
+        <div className="flex flex-col gap-4">
+          {/* Error State */}
+          {errorInfo && (
+            <Alert
+              variant="error"
+              title={errorInfo.title}
+              message={errorInfo.message}
+            />
+          )}
+
+          {/* Form */}
+          <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-4">
+            <DarkInput
+              label={AUTH_TEXT.FORGOT_PASSWORD.EMAIL_LABEL}
+              type="email"
+              placeholder={AUTH_TEXT.FORGOT_PASSWORD.EMAIL_PLACEHOLDER}
+              leftIcon="mail"
+              error={errors.email?.message}
+              {...register('email')}
+            />
+
+            <Button type="submit" disabled={isLoading} leftIcon="send" fullWidth className="mt-2 rounded-xl shadow-lg shadow-blue-500/25 h-12">
+              {isLoading ? AUTH_TEXT.FORGOT_PASSWORD.LOADING_BUTTON : AUTH_TEXT.FORGOT_PASSWORD.SUBMIT_BUTTON}
+            </Button>
+          </form>
+        </div>
+      )}
+    </AuthLayout>
+  );
+};
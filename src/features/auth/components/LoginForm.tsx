@@ -1,12 +1,16 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { AuthLayout } from '../../../components/layout';
+import { AuthLayout, type RedirectLocationState } from '../../../components/layout';
 import { DarkInput, Button, Alert, Checkbox } from '../../../components/ui';
 import { AUTH_TEXT } from '../constants';
 import { loginSchema, type LoginFormData } from '../../../schemas';
 import { useLoginMutation } from '../services/authApi';
+import { LoginStatusEnum } from '../types';
+import { MfaChallenge } from './MfaChallenge';
+import { useAppSelector } from '../../../store/hooks';
+import { selectSessionEndReason, SessionEndReasonEnum, type SessionEndReason } from '../../../store/authSlice';
 
 /**
  * Extracts a user-friendly error message from RTK Query error
@@ -52,12 +56,48 @@ const getErrorMessage = (error: unknown): { title: string; message: string } =>
   };
 };
 
+/** Default page after login when no protected URL was requested */
+const DEFAULT_REDIRECT_PATH = '/dashboard';
+
+/**
+ * Resolves where to send the user after a successful login
+ * @param state - Router location state set by ProtectedRoute
+ * @returns The originally requested URL, or the dashboard
+ */
+const getRedirectPath = (state: unknown): string => {
+  const from = (state as RedirectLocationState | null)?.from;
+  if (!from?.pathname || from.pathname === '/login') {
+    return DEFAULT_REDIRECT_PATH;
+  }
+  return `${from.pathname}${from.search ?? ''}${from.hash ?? ''}`;
+};
+
+/**
+ * Explains why the user was signed out when they did not choose to
+ * @param reason - Reason recorded when the previous session ended
+ * @returns Notice title and message, or null after a manual sign out
+ */
+const getSessionEndNotice = (reason: SessionEndReason | null): { title: string; message: string } | null => {
+  switch (reason) {
+    case SessionEndReasonEnum.IDLE:
+      return { title: AUTH_TEXT.SESSION.IDLE_TITLE, message: AUTH_TEXT.SESSION.IDLE_MESSAGE };
+    case SessionEndReasonEnum.EXPIRED:
+      return { title: AUTH_TEXT.SESSION.EXPIRED_TITLE, message: AUTH_TEXT.SESSION.EXPIRED_MESSAGE };
+    default:
+      return null;
+  }
+};
+
 export const LoginForm = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const [showPassword, setShowPassword] = useState(false);
-  const [login, { isLoading, error }] = useLoginMutation();
+  // Set while a second factor is owed after the password was accepted
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [login, { isLoading, error, reset: resetLogin }] = useLoginMutation();
 
   const errorInfo = error ? getErrorMessage(error) : null;
+  const sessionEndNotice = getSessionEndNotice(useAppSelector(selectSessionEndReason));
 
   const {
     register,
@@ -76,18 +116,30 @@ export const LoginForm = () => {
 
   const onSubmit = async (data: LoginFormData) => {
     try {
-      await login({ email: data.email, password: data.password }).unwrap();
+      const result = await login({ email: data.email, password: data.password }).unwrap();
       reset();
-      navigate('/dashboard');
+      if (result.status === LoginStatusEnum.MFA_REQUIRED && result.mfaToken) {
+        setMfaToken(result.mfaToken);
+        return;
+      }
+      navigate(getRedirectPath(location.state));
     } catch (err) {
       console.error('Login failed:', err);
     }
   };
 
+  /**
+   * Abandons the two-factor step and shows the password form again
+   */
+  const handleMfaCancel = () => {
+    setMfaToken(null);
+    resetLogin();
+  };
+
   return (
     <AuthLayout
-      title={AUTH_TEXT.LOGIN.TITLE}
-      subtitle={AUTH_TEXT.LOGIN.SUBTITLE}
+      title={mfaToken ? AUTH_TEXT.MFA.TITLE : AUTH_TEXT.LOGIN.TITLE}
+      subtitle={mfaToken ? AUTH_TEXT.MFA.SUBTITLE : AUTH_TEXT.LOGIN.SUBTITLE}
       variant="dark"
       showLogoInCard={true}
       copyright={AUTH_TEXT.COMMON.COPYRIGHT}
@@ -103,59 +155,73 @@ export const LoginForm = () => {
         </p>
       }
     >
-      <div className="flex flex-col gap-4">
-        {/* Error State */}
-        {errorInfo && (
-          <Alert
-            variant="error"
-            title={errorInfo.title}
-            message={errorInfo.message}
-          />
-        )}
-
-        {/* Form */}
-        <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-4">
-          <DarkInput
-            label={AUTH_TEXT.LOGIN.EMAIL_LABEL}
-            type="email"
-            placeholder={AUTH_TEXT.LOGIN.EMAIL_PLACEHOLDER}
-            leftIcon="mail"
-            error={errors.email?.message}
-            {...register('email')}
-          />
-
-          <DarkInput
-            label={AUTH_TEXT.LOGIN.PASSWORD_LABEL}
-            type={showPassword ? 'text' : 'password'}
-            placeholder={AUTH_TEXT.LOGIN.PASSWORD_PLACEHOLDER}
-            leftIcon="lock"
-            rightIcon={showPassword ? 'visibility_off' : 'visibility'}
-            onRightIconClick={() => setShowPassword(!showPassword)}
-            error={errors.password?.message}
-            {...register('password')}
-          />
-
-          {/* Remember Me & Forgot Password */}
-          <div className="flex items-center justify-between mt-1">
-            <Checkbox
-              label={AUTH_TEXT.LOGIN.REMEMBER_ME}
-              variant="dark"
-              {...register('rememberMe')}
+      {mfaToken ? (
+        <MfaChallenge
+          mfaToken={mfaToken}
+          onVerified={() => navigate(getRedirectPath(location.state))}
+          onCancel={handleMfaCancel}
+        />
+      ) : (
+        <div className="flex flex-col gap-4">
+          {/* Error State */}
+          {errorInfo ? (
+            <Alert
+              variant="error"
+              title={errorInfo.title}
+              message={errorInfo.message}
+            />
+          ) : sessionEndNotice && (
+            <Alert
+              variant="warning"
+              title={sessionEndNotice.title}
+              message={sessionEndNotice.message}
+            />
+          )}
+
+          {/* Form */}
+          <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-4">
+            <DarkInput
+              label={AUTH_TEXT.LOGIN.EMAIL_LABEL}
+              type="email"
+              placeholder={AUTH_TEXT.LOGIN.EMAIL_PLACEHOLDER}
+              leftIcon="mail"
+              error={errors.email?.message}
+              {...register('email')}
+            />
+
+            <DarkInput
+              label={AUTH_TEXT.LOGIN.PASSWORD_LABEL}
+              type={showPassword ? 'text' : 'password'}
+              placeholder={AUTH_TEXT.LOGIN.PASSWORD_PLACEHOLDER}
+              leftIcon="lock"
+              rightIcon={showPassword ? 'visibility_off' : 'visibility'}
+              onRightIconClick={() => setShowPassword(!showPassword)}
+              error={errors.password?.message}
+              {...register('password')}
             />
-            <button
-              type="button"
-              onClick={() => {/* Handle forgot password */ }}
-              className="text-sm font-medium text-blue-500 hover:text-blue-400 transition-colors bg-transparent border-none cursor-pointer"
-            >
-              {AUTH_TEXT.LOGIN.FORGOT_PASSWORD}
-            </button>
-          </div>
-
-          <Button type="submit" disabled={isLoading} leftIcon="login" fullWidth className="mt-2 rounded-xl shadow-lg shadow-blue-500/25 h-12">
-            {isLoading ? AUTH_TEXT.LOGIN.LOADING_BUTTON : AUTH_TEXT.LOGIN.SUBMIT_BUTTON}
-          </Button>
-        </form>
-      </div>
+
+            {/* Remember Me & Forgot Password */}
+            <div className="flex items-center justify-between mt-1">
+              <Checkbox
+                label={AUTH_TEXT.LOGIN.REMEMBER_ME}
+                variant="dark"
+                {...register('rememberMe')}
+              />
+              <button
+                type="button"
+                onClick={() => navigate('/forgot-password')}
+                className="text-sm font-medium text-blue-500 hover:text-blue-400 transition-colors bg-transparent border-none cursor-pointer"
+              >
+                {AUTH_TEXT.LOGIN.FORGOT_PASSWORD}
+              </button>
+            </div>
+
+            <Button type="submit" disabled={isLoading} leftIcon="login" fullWidth className="mt-2 rounded-xl shadow-lg shadow-blue-500/25 h-12">
+              {isLoading ? AUTH_TEXT.LOGIN.LOADING_BUTTON : AUTH_TEXT.LOGIN.SUBMIT_BUTTON}
+            </Button>
+          </form>
+        </div>
+      )}
     </AuthLayout>
   );
 };
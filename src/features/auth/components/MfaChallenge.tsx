@@ -0,0 +1,54 @@
+import { Alert } from '../../../components/ui';
+import { AUTH_TEXT } from '../constants';
+import { MfaCodeForm } from './MfaCodeForm';
+import { useVerifyMfaLoginMutation } from '../services/authApi';
+import { getApiErrorMessage } from '../../../utils/apiError';
+
+interface MfaChallengeProps {
+  /** Token from the login response identifying the pending login */
+  mfaToken: string;
+  /** Called once the code is accepted and the session has started */
+  onVerified: () => void;
+  /** Returns to the email and password step */
+  onCancel: () => void;
+}
+
+/**
+ * Second login step shown when the backend answers mfa_required
+ * Accepts an authenticator code or a backup code
+ */
+export const MfaChallenge = ({ mfaToken, onVerified, onCancel }: MfaChallengeProps) => {
+  const [verifyMfaLogin, { isLoading, error }] = useVerifyMfaLoginMutation();
+
+  const handleVerify = async (code: string) => {
+    try {
+      await verifyMfaLogin({ mfaToken, code }).unwrap();
+      onVerified();
+    } catch (err) {
+      console.error('Two-factor verification failed:', err);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {error && (
+        <Alert
+          variant="error"
+          title={AUTH_TEXT.MFA.ERROR_TITLE}
+          message={getApiErrorMessage(error, AUTH_TEXT.MFA.ERROR_MESSAGE)}
+        />
+      )}
+
+      <MfaCodeForm
+        id="login-mfa-code"
+        allowBackupCode
+        submitLabel={AUTH_TEXT.MFA.VERIFY_BUTTON}
+        submittingLabel={AUTH_TEXT.MFA.VERIFYING_BUTTON}
+        isSubmitting={isLoading}
+        onSubmit={handleVerify}
+        onCancel={onCancel}
+        cancelLabel={AUTH_TEXT.MFA.BACK_TO_LOGIN}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { DarkInput, Button } from '../../../components/ui';
+import { AUTH_TEXT } from '../constants';
+import { createMfaCodeSchema, normalizeMfaCode, type MfaCodeFormData } from '../../../schemas';
+
+interface MfaCodeFormProps {
+  /** Input id, unique on the page */
+  id: string;
+  /** Accept a backup code as well as an authenticator code */
+  allowBackupCode?: boolean;
+  /** Input label; defaults to the generic code label */
+  label?: string;
+  submitLabel: string;
+  submittingLabel: string;
+  isSubmitting: boolean;
+  /** Called with the code normalised for the server */
+  onSubmit: (code: string) => void;
+  /** Shows a secondary button when provided */
+  onCancel?: () => void;
+  cancelLabel?: string;
+  variant?: 'default' | 'modal';
+}
+
+/**
+ * Single-field form for a two-factor code
+ * Shared by the login challenge, step-up verification and 2FA settings
+ */
+export const MfaCodeForm = ({
+  id,
+  allowBackupCode = false,
+  label = AUTH_TEXT.MFA.CODE_LABEL,
+  submitLabel,
+  submittingLabel,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+  cancelLabel = AUTH_TEXT.MFA.CANCEL,
+  variant = 'default',
+}: MfaCodeFormProps) => {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<MfaCodeFormData>({
+    resolver: zodResolver(createMfaCodeSchema(allowBackupCode)),
+    mode: 'onSubmit',
+    defaultValues: { code: '' },
+  });
+
+  return (
+    <form onSubmit={handleSubmit((data) => onSubmit(normalizeMfaCode(data.code)))} className="flex flex-col gap-4">
+      <DarkInput
+        id={id}
+        label={label}
+        placeholder={AUTH_TEXT.MFA.CODE_PLACEHOLDER}
+        leftIcon="pin"
+        autoComplete="one-time-code"
+        inputMode={allowBackupCode ? 'text' : 'numeric'}
+        autoFocus
+        variant={variant}
+        helperText={allowBackupCode ? AUTH_TEXT.MFA.BACKUP_CODE_HINT : undefined}
+        error={errors.code?.message}
+        {...register('code')}
+      />
+
+      <div className="flex flex-col gap-2">
+        <Button type="submit" disabled={isSubmitting} leftIcon="verified_user" fullWidth>
+          {isSubmitting ? submittingLabel : submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel} disabled={isSubmitting} fullWidth>
+            {cancelLabel}
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
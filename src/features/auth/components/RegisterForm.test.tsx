@@ -278,7 +278,7 @@ describe('RegisterForm', () => {
         /**
          * **Validates: Requirements 4.9**
          */
-        it('should submit form and navigate with valid data', async () => {
+        it('should submit form and ask the user to verify their email', async () => {
             const user = userEvent.setup();
             renderRegisterForm();
 
@@ -294,8 +294,9 @@ describe('RegisterForm', () => {
             await user.click(submitButton);
 
             await waitFor(() => {
-                expect(mockNavigate).toHaveBeenCalledWith('/dashboard');
+                expect(screen.getByText(/we sent a verification link to test@example.com/i)).toBeInTheDocument();
             });
+            expect(mockNavigate).not.toHaveBeenCalled();
         });
 
         it('should clear form after successful submission', async () => {
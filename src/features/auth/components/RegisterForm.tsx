@@ -7,10 +7,14 @@ import { DarkInput, Button, Alert } from '../../../components/ui';
 import { AUTH_TEXT } from '../constants';
 import { registerSchema, type RegisterFormData } from '../../../schemas';
 import { useRegisterMutation } from '../services/authApi';
+import { AuthResultPanel } from './AuthResultPanel';
+import { ResendVerificationForm } from './ResendVerificationForm';
 
 export const RegisterForm = () => {
   const navigate = useNavigate();
   const [showPassword, setShowPassword] = useState(false);
+  // Address the verification link was sent to once the account is created
+  const [registeredEmail, setRegisteredEmail] = useState<string | null>(null);
   const [registerUser, { isLoading, error }] = useRegisterMutation();
 
   const {
@@ -32,7 +36,7 @@ export const RegisterForm = () => {
     try {
       await registerUser(data).unwrap();
       reset();
-      navigate('/dashboard');
+      setRegisteredEmail(data.email);
     } catch (err) {
       console.error('Registration failed:', err);
     }
@@ -57,58 +61,69 @@ export const RegisterForm = () => {
         </p>
       }
     >
-      <div className="flex flex-col gap-4">
-        {/* Error State */}
-        {error && (
-          <Alert
-            variant="error"
-            title={AUTH_TEXT.REGISTER.ERROR_TITLE}
-            message={'message' in error ? (error as { message: string }).message : AUTH_TEXT.REGISTER.ERROR_MESSAGE}
-          />
-        )}
+      {registeredEmail ? (
+        <AuthResultPanel
+          icon="mark_email_unread"
+          tone="info"
+          title={AUTH_TEXT.VERIFY_EMAIL.CHECK_INBOX_TITLE}
+          message={AUTH_TEXT.VERIFY_EMAIL.CHECK_INBOX_MESSAGE(registeredEmail)}
+        >
+          <ResendVerificationForm email={registeredEmail} />
+        </AuthResultPanel>
+      ) : (
+        <div className="flex flex-col gap-4">
+          {/* Error State */}
+          {error && (
+            <Alert
+              variant="error"
+              title={AUTH_TEXT.REGISTER.ERROR_TITLE}
+              message={'message' in error ? (error as { message: string }).message : AUTH_TEXT.REGISTER.ERROR_MESSAGE}
+            />
+          )}
 
-        {/* Form */}
-        <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-4">
-          <DarkInput
-            label={AUTH_TEXT.REGISTER.USERNAME_LABEL}
-            type="text"
-            placeholder={AUTH_TEXT.REGISTER.USERNAME_PLACEHOLDER}
-            leftIcon="person"
-            autoComplete="off"
-            error={errors.username?.message}
-            {...register('username')}
-          />
+          {/* Form */}
+          <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-4">
+            <DarkInput
+              label={AUTH_TEXT.REGISTER.USERNAME_LABEL}
+              type="text"
+              placeholder={AUTH_TEXT.REGISTER.USERNAME_PLACEHOLDER}
+              leftIcon="person"
+              autoComplete="off"
+              error={errors.username?.message}
+              {...register('username')}
+            />
 
-          <DarkInput
-            label={AUTH_TEXT.REGISTER.EMAIL_LABEL}
-            type="email"
-            placeholder={AUTH_TEXT.REGISTER.EMAIL_PLACEHOLDER}
-            leftIcon="mail"
-            error={errors.email?.message}
-            {...register('email')}
-          />
+            <DarkInput
+              label={AUTH_TEXT.REGISTER.EMAIL_LABEL}
+              type="email"
+              placeholder={AUTH_TEXT.REGISTER.EMAIL_PLACEHOLDER}
+              leftIcon="mail"
+              error={errors.email?.message}
+              {...register('email')}
+            />
 
-          <DarkInput
-            label={AUTH_TEXT.REGISTER.PASSWORD_LABEL}
-            type={showPassword ? 'text' : 'password'}
-            placeholder={AUTH_TEXT.REGISTER.PASSWORD_PLACEHOLDER}
-            leftIcon="lock"
-            rightIcon={showPassword ? 'visibility_off' : 'visibility'}
-            onRightIconClick={() => setShowPassword(!showPassword)}
-            error={errors.password?.message}
-            {...register('password')}
-          />
+            <DarkInput
+              label={AUTH_TEXT.REGISTER.PASSWORD_LABEL}
+              type={showPassword ? 'text' : 'password'}
+              placeholder={AUTH_TEXT.REGISTER.PASSWORD_PLACEHOLDER}
+              leftIcon="lock"
+              rightIcon={showPassword ? 'visibility_off' : 'visibility'}
+              onRightIconClick={() => setShowPassword(!showPassword)}
+              error={errors.password?.message}
+              {...register('password')}
+            />
 
-          <Button
-            type="submit"
-            disabled={isLoading}
-            fullWidth
-            className="mt-2 rounded-xl shadow-lg shadow-blue-500/25 h-12"
-          >
-            {isLoading ? AUTH_TEXT.REGISTER.LOADING_BUTTON : AUTH_TEXT.REGISTER.SUBMIT_BUTTON}
-          </Button>
-        </form>
-      </div>
+            <Button
+              type="submit"
+              disabled={isLoading}
+              fullWidth
+              className="mt-2 rounded-xl shadow-lg shadow-blue-500/25 h-12"
+            >
+              {isLoading ? AUTH_TEXT.REGISTER.LOADING_BUTTON : AUTH_TEXT.REGISTER.SUBMIT_BUTTON}
+            </Button>
+          </form>
+        </div>
+      )}
     </AuthLayout>
   );
 };
@@ -0,0 +1,79 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { DarkInput, Button, Alert } from '../../../components/ui';
+import { AUTH_TEXT } from '../constants';
+import { forgotPasswordSchema, type ForgotPasswordFormData } from '../../../schemas';
+import { useResendVerificationEmailMutation } from '../services/authApi';
+import { getAuthFlowError } from '../utils';
+
+interface ResendVerificationFormProps {
+  /** Address to send to; when omitted the user types it in */
+  email?: string;
+}
+
+/**
+ * Sends a new email verification link
+ * Used after registration and when a verification link has expired
+ */
+export const ResendVerificationForm = ({ email }: ResendVerificationFormProps) => {
+  const [resendVerificationEmail, { isLoading, isSuccess, error }] = useResendVerificationEmailMutation();
+
+  const errorInfo = error
+    ? getAuthFlowError(error, AUTH_TEXT.VERIFY_EMAIL.ERROR_TITLE, AUTH_TEXT.VERIFY_EMAIL.ERROR_MESSAGE)
+    : null;
+
+  // Same single email field as the forgot password form
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    mode: 'onBlur',
+    defaultValues: {
+      email: email ?? '',
+    },
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      await resendVerificationEmail({ email: data.email }).unwrap();
+    } catch (err) {
+      console.error('Resending verification email failed:', err);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-4 text-left">
+      {isSuccess && (
+        <Alert
+          variant="success"
+          title={AUTH_TEXT.VERIFY_EMAIL.RESENT_TITLE}
+          message={AUTH_TEXT.VERIFY_EMAIL.RESENT_MESSAGE}
+        />
+      )}
+      {errorInfo && (
+        <Alert
+          variant="error"
+          title={errorInfo.title}
+          message={errorInfo.message}
+        />
+      )}
+
+      {!email && (
+        <DarkInput
+          label={AUTH_TEXT.VERIFY_EMAIL.EMAIL_LABEL}
+          type="email"
+          placeholder={AUTH_TEXT.VERIFY_EMAIL.EMAIL_PLACEHOLDER}
+          leftIcon="mail"
+          error={errors.email?.message}
+          {...register('email')}
+        />
+      )}
+
+      <Button type="submit" variant={email ? 'outline' : 'primary'} disabled={isLoading} leftIcon="forward_to_inbox" fullWidth>
+        {isLoading ? AUTH_TEXT.VERIFY_EMAIL.RESENDING_BUTTON : AUTH_TEXT.VERIFY_EMAIL.RESEND_BUTTON}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { AuthLayout } from '../../../components/layout';
+import { DarkInput, Button, Alert } from '../../../components/ui';
+import { AUTH_TEXT } from '../constants';
+import { resetPasswordSchema, type ResetPasswordFormData } from '../../../schemas';
+import { useResetPasswordMutation } from '../services/authApi';
+import { getAuthFlowError } from '../utils';
+import { isExpiredTokenError, isNotFoundError } from '../../../utils/apiError';
+import { AuthResultPanel } from './AuthResultPanel';
+
+export const ResetPasswordForm = () => {
+  const navigate = useNavigate();
+  const { token = '' } = useParams<{ token: string }>();
+  const [showPassword, setShowPassword] = useState(false);
+  const [resetPassword, { isLoading, isSuccess, error }] = useResetPasswordMutation();
+
+  const isExpired = isExpiredTokenError(error);
+  // A link the server does not recognise (mistyped or already used) cannot be retried either
+  const isInvalid = isNotFoundError(error);
+  const errorInfo = error && !isExpired && !isInvalid
+    ? getAuthFlowError(error, AUTH_TEXT.RESET_PASSWORD.ERROR_TITLE, AUTH_TEXT.RESET_PASSWORD.ERROR_MESSAGE)
+    : null;
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    mode: 'onBlur',
+    defaultValues: {
+      newPassword: '',
+      confirmPassword: '',
+    },
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    try {
+      await resetPassword({ token, newPassword: data.newPassword }).unwrap();
+    } catch (err) {
+      console.error('Password reset failed:', err);
+    }
+  };
+
+  const renderContent = () => {
+    if (isSuccess) {
+      return (
+        <AuthResultPanel
+          icon="check_circle"
+          tone="success"
+          title={AUTH_TEXT.RESET_PASSWORD.SUCCESS_TITLE}
+          message={AUTH_TEXT.RESET_PASSWORD.SUCCESS_MESSAGE}
+        >
+          <Button type="button" leftIcon="login" fullWidth onClick={() => navigate('/login')}>
+            {AUTH_TEXT.RESET_PASSWORD.SIGN_IN}
+          </Button>
+        </AuthResultPanel>
+      );
+    }
+
+    if (isExpired || isInvalid) {
+      return (
+        <AuthResultPanel
+          icon="link_off"
+          tone="warning"
+          title={isExpired ? AUTH_TEXT.RESET_PASSWORD.EXPIRED_TITLE : AUTH_TEXT.RESET_PASSWORD.INVALID_TITLE}
+          message={isExpired ? AUTH_TEXT.RESET_PASSWORD.EXPIRED_MESSAGE : AUTH_TEXT.RESET_PASSWORD.INVALID_MESSAGE}
+        >
+          <Button type="button" leftIcon="refresh" fullWidth onClick={() => navigate('/forgot-password')}>
+            {AUTH_TEXT.RESET_PASSWORD.REQUEST_NEW_LINK}
+          </Button>
+        </AuthResultPanel>
+      );
+    }
+
+    return (
+      <div className="flex flex-col gap-4">
+        {/* Error State */}
+        {errorInfo && (
+          <Alert
+            variant="error"
+            title={errorInfo.title}
+            message={errorInfo.message}
+          />
+        )}
+
+        {/* Form */}
+        <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-4">
+          <DarkInput
+            label={AUTH_TEXT.RESET_PASSWORD.NEW_PASSWORD_LABEL}
+            type={showPassword ? 'text' : 'password'}
+            placeholder={AUTH_TEXT.RESET_PASSWORD.PASSWORD_PLACEHOLDER}
+            leftIcon="lock"
+            rightIcon={showPassword ? 'visibility_off' : 'visibility'}
+            onRightIconClick={() => setShowPassword(!showPassword)}
+            autoComplete="new-password"
+            error={errors.newPassword?.message}
+            {...register('newPassword')}
+          />
+
+          <DarkInput
+            label={AUTH_TEXT.RESET_PASSWORD.CONFIRM_PASSWORD_LABEL}
+            type={showPassword ? 'text' : 'password'}
+            placeholder={AUTH_TEXT.RESET_PASSWORD.PASSWORD_PLACEHOLDER}
+            leftIcon="lock"
+            autoComplete="new-password"
+            error={errors.confirmPassword?.message}
+            {...register('confirmPassword')}
+          />
+
+          <Button type="submit" disabled={isLoading} leftIcon="lock_reset" fullWidth className="mt-2 rounded-xl shadow-lg shadow-blue-500/25 h-12">
+            {isLoading ? AUTH_TEXT.RESET_PASSWORD.LOADING_BUTTON : AUTH_TEXT.RESET_PASSWORD.SUBMIT_BUTTON}
+          </Button>
+        </form>
+      </div>
+    );
+  };
+
+  return (
+    <AuthLayout
+      title={AUTH_TEXT.RESET_PASSWORD.TITLE}
+      subtitle={AUTH_TEXT.RESET_PASSWORD.SUBTITLE}
+      variant="dark"
+      showLogoInCard={true}
+      copyright={AUTH_TEXT.COMMON.COPYRIGHT}
+      footer={
+        <button
+          onClick={() => navigate('/login')}
+          className="text-blue-500 hover:text-blue-400 text-sm font-medium transition-colors bg-transparent border-none cursor-pointer"
+        >
+          {AUTH_TEXT.FORGOT_PASSWORD.BACK_TO_LOGIN}
+        </button>
+      }
+    >
+      {renderContent()}
+    </AuthLayout>
+  );
+};
@@ -0,0 +1,44 @@
+import { useCallback, useEffect } from 'react';
+import { SessionTimeoutModal } from './SessionTimeoutModal';
+import { useIdleTimeout } from '../hooks/useIdleTimeout';
+import { useLogoutMutation } from '../services/authApi';
+import { useAppDispatch } from '../../../store/hooks';
+import { endSession } from '../../../store/api';
+import { SessionEndReasonEnum } from '../../../store/authSlice';
+import { subscribeToSessionMessages, SessionMessageTypeEnum } from '../../../store/sessionChannel';
+
+/**
+ * Watches a signed-in session: warns before the idle timeout, signs out when it passes
+ * and follows logouts made in other tabs. Render it only while authenticated.
+ */
+export const SessionMonitor = () => {
+  const dispatch = useAppDispatch();
+  const [logout, { isLoading: isSigningOut }] = useLogoutMutation();
+
+  const handleTimeout = useCallback(() => {
+    logout(SessionEndReasonEnum.IDLE);
+  }, [logout]);
+
+  const { isWarning, secondsRemaining, stayActive } = useIdleTimeout({ onTimeout: handleTimeout });
+
+  // Another tab already signed out on the server, so only the local session is left to end
+  useEffect(
+    () =>
+      subscribeToSessionMessages((message) => {
+        if (message.type === SessionMessageTypeEnum.LOGGED_OUT) {
+          endSession(dispatch, message.reason, { broadcast: false });
+        }
+      }),
+    [dispatch]
+  );
+
+  return (
+    <SessionTimeoutModal
+      isOpen={isWarning}
+      secondsRemaining={secondsRemaining}
+      onStaySignedIn={stayActive}
+      onSignOut={() => logout(SessionEndReasonEnum.SIGNED_OUT)}
+      isSigningOut={isSigningOut}
+    />
+  );
+};
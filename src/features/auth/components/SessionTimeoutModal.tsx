@@ -0,0 +1,44 @@
+import { Modal, ModalHeader, ModalBody, ModalFooter, Button } from '../../../components/ui';
+import { AUTH_TEXT } from '../constants';
+
+interface SessionTimeoutModalProps {
+  isOpen: boolean;
+  /** Whole seconds until the session ends */
+  secondsRemaining: number;
+  onStaySignedIn: () => void;
+  onSignOut: () => void;
+  isSigningOut?: boolean;
+}
+
+/**
+ * Warns that the session is about to end for inactivity, counting down to the logout
+ * Has no close button and ignores backdrop clicks, so staying signed in is a deliberate choice
+ */
+export const SessionTimeoutModal = ({
+  isOpen,
+  secondsRemaining,
+  onStaySignedIn,
+  onSignOut,
+  isSigningOut = false,
+}: SessionTimeoutModalProps) => (
+  <Modal isOpen={isOpen} maxWidth="sm" closeOnBackdropClick={false}>
+    <ModalHeader
+      icon="timer"
+      title={AUTH_TEXT.SESSION.TIMEOUT_TITLE}
+      subtitle={AUTH_TEXT.SESSION.TIMEOUT_SUBTITLE}
+    />
+    <ModalBody>
+      <p className="text-sm text-slate-300" role="timer" aria-live="polite">
+        {AUTH_TEXT.SESSION.TIMEOUT_MESSAGE(secondsRemaining)}
+      </p>
+    </ModalBody>
+    <ModalFooter className="flex items-center justify-between gap-3">
+      <Button type="button" variant="ghost" onClick={onSignOut} disabled={isSigningOut}>
+        {isSigningOut ? AUTH_TEXT.SESSION.SIGNING_OUT : AUTH_TEXT.SESSION.SIGN_OUT}
+      </Button>
+      <Button type="button" onClick={onStaySignedIn} disabled={isSigningOut}>
+        {AUTH_TEXT.SESSION.STAY_SIGNED_IN}
+      </Button>
+    </ModalFooter>
+  </Modal>
+);
@@ -0,0 +1,68 @@
+import { Modal, ModalHeader, ModalBody, Alert } from '../../../components/ui';
+import { AUTH_TEXT } from '../constants';
+import { MfaCodeForm } from './MfaCodeForm';
+import { useVerifyStepUpMutation } from '../services/authApi';
+import { getApiErrorMessage } from '../../../utils/apiError';
+
+interface StepUpModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Formatted amount of the action being confirmed */
+  amountLabel: string;
+  /** Called with the step-up token once the code is accepted */
+  onVerified: (stepUpToken: string) => void;
+}
+
+/**
+ * Asks for a two-factor code before a high-value action
+ */
+export const StepUpModal = ({ isOpen, ...props }: StepUpModalProps) => {
+  if (!isOpen) return null;
+
+  // Mounted only while open so every attempt starts with an empty code
+  return <StepUpForm {...props} />;
+};
+
+const StepUpForm = ({ onClose, amountLabel, onVerified }: Omit<StepUpModalProps, 'isOpen'>) => {
+  const [verifyStepUp, { isLoading, error }] = useVerifyStepUpMutation();
+
+  const handleVerify = async (code: string) => {
+    try {
+      const result = await verifyStepUp({ code }).unwrap();
+      onVerified(result.stepUpToken);
+    } catch (err) {
+      console.error('Step-up verification failed:', err);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} maxWidth="sm">
+      <ModalHeader
+        icon="shield_lock"
+        title={AUTH_TEXT.MFA.STEP_UP_TITLE}
+        subtitle={AUTH_TEXT.MFA.STEP_UP_SUBTITLE}
+        onClose={onClose}
+      />
+      <ModalBody>
+        <p className="text-sm text-slate-300">{AUTH_TEXT.MFA.STEP_UP_DESCRIPTION(amountLabel)}</p>
+        {error && (
+          <Alert
+            variant="error"
+            title={AUTH_TEXT.MFA.ERROR_TITLE}
+            message={getApiErrorMessage(error, AUTH_TEXT.MFA.ERROR_MESSAGE)}
+          />
+        )}
+        <MfaCodeForm
+          id="step-up-code"
+          allowBackupCode
+          submitLabel={AUTH_TEXT.MFA.VERIFY_BUTTON}
+          submittingLabel={AUTH_TEXT.MFA.VERIFYING_BUTTON}
+          isSubmitting={isLoading}
+          onSubmit={handleVerify}
+          onCancel={onClose}
+          variant="modal"
+        />
+      </ModalBody>
+    </Modal>
+  );
+};
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { AuthLayout } from '../../../components/layout';
+import { Button, Alert } from '../../../components/ui';
+import { AUTH_TEXT } from '../constants';
+import { useVerifyEmailMutation } from '../services/authApi';
+import { getAuthFlowError } from '../utils';
+import { isExpiredTokenError, isNotFoundError } from '../../../utils/apiError';
+import { AuthResultPanel } from './AuthResultPanel';
+import { ResendVerificationForm } from './ResendVerificationForm';
+
+/** Outcome of verifying a link's token */
+interface VerifyResult {
+  token: string;
+  status: 'verified' | 'expired' | 'invalid' | 'failed';
+  error?: unknown;
+}
+
+/**
+ * Landing page of the emailed verification link
+ * Verifies the token straight away; expired or unknown links can request a new one
+ */
+export const VerifyEmail = () => {
+  const navigate = useNavigate();
+  const { token = '' } = useParams<{ token: string }>();
+  const [verifyEmail] = useVerifyEmailMutation();
+  const [result, setResult] = useState<VerifyResult | null>(null);
+  const requestedTokenRef = useRef<string | null>(null);
+
+  /**
+   * Sends the token to the server and records the outcome
+   * @param linkToken - Token from the link
+   */
+  const verify = useCallback((linkToken: string) => {
+    requestedTokenRef.current = linkToken;
+    verifyEmail({ token: linkToken })
+      .unwrap()
+      .then(() => setResult({ token: linkToken, status: 'verified' }))
+      .catch((err: unknown) => setResult({
+        token: linkToken,
+        status: isExpiredTokenError(err) ? 'expired' : isNotFoundError(err) ? 'invalid' : 'failed',
+        error: err,
+      }));
+  }, [verifyEmail]);
+
+  // Tokens are single use, so each one is sent once even if the effect runs again
+  useEffect(() => {
+    if (requestedTokenRef.current !== token) verify(token);
+  }, [token, verify]);
+
+  const current = result?.token === token ? result : null;
+
+  /**
+   * Tries the same link again after a rate limit or server error
+   */
+  const handleRetry = () => {
+    setResult(null);
+    verify(token);
+  };
+
+  const renderContent = () => {
+    if (!current) {
+      return (
+        <div className="flex flex-col items-center gap-3 py-6 text-slate-400">
+          <span className="material-symbols-outlined text-4xl animate-spin">progress_activity</span>
+          <p className="text-sm">{AUTH_TEXT.VERIFY_EMAIL.VERIFYING}</p>
+        </div>
+      );
+    }
+
+    if (current.status === 'verified') {
+      return (
+        <AuthResultPanel
+          icon="verified"
+          tone="success"
+          title={AUTH_TEXT.VERIFY_EMAIL.SUCCESS_TITLE}
+          message={AUTH_TEXT.VERIFY_EMAIL.SUCCESS_MESSAGE}
+        >
+          <Button type="button" leftIcon="login" fullWidth onClick={() => navigate('/login')}>
+            {AUTH_TEXT.VERIFY_EMAIL.SIGN_IN}
+          </Button>
+        </AuthResultPanel>
+      );
+    }
+
+    if (current.status === 'expired' || current.status === 'invalid') {
+      const isExpired = current.status === 'expired';
+      return (
+        <AuthResultPanel
+          icon="link_off"
+          tone="warning"
+          title={isExpired ? AUTH_TEXT.VERIFY_EMAIL.EXPIRED_TITLE : AUTH_TEXT.VERIFY_EMAIL.INVALID_TITLE}
+          message={isExpired ? AUTH_TEXT.VERIFY_EMAIL.EXPIRED_MESSAGE : AUTH_TEXT.VERIFY_EMAIL.INVALID_MESSAGE}
+        >
+          <ResendVerificationForm />
+        </AuthResultPanel>
+      );
+    }
+
+    const errorInfo = getAuthFlowError(current.error, AUTH_TEXT.VERIFY_EMAIL.VERIFY_FAILED_TITLE, AUTH_TEXT.VERIFY_EMAIL.ERROR_MESSAGE);
+    return (
+      <div className="flex flex-col gap-4">
+        <Alert variant="error" title={errorInfo.title} message={errorInfo.message} />
+        <Button type="button" leftIcon="refresh" fullWidth onClick={handleRetry}>
+          {AUTH_TEXT.VERIFY_EMAIL.TRY_AGAIN}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <AuthLayout
+      title={AUTH_TEXT.VERIFY_EMAIL.TITLE}
+      subtitle={AUTH_TEXT.VERIFY_EMAIL.SUBTITLE}
+      variant="dark"
+      showLogoInCard={true}
+      copyright={AUTH_TEXT.COMMON.COPYRIGHT}
+    >
+      {renderContent()}
+    </AuthLayout>
+  );
+};
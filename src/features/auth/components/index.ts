@@ -1,2 +1,12 @@
 export { LoginForm } from './LoginForm';
 export { RegisterForm } from './RegisterForm';
+export { ForgotPasswordForm } from './ForgotPasswordForm';
+export { ResetPasswordForm } from './ResetPasswordForm';
+export { VerifyEmail } from './VerifyEmail';
+export { ResendVerificationForm } from './ResendVerificationForm';
+export { AuthResultPanel } from './AuthResultPanel';
+export { MfaCodeForm } from './MfaCodeForm';
+export { MfaChallenge } from './MfaChallenge';
+export { StepUpModal } from './StepUpModal';
+export { SessionMonitor } from './SessionMonitor';
+export { SessionTimeoutModal } from './SessionTimeoutModal';
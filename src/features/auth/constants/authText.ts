@@ -40,6 +40,107 @@ export const AUTH_TEXT = {
     FOOTER_LINK: 'Log in',
   },
 
+  // Forgot Password Page
+  FORGOT_PASSWORD: {
+    TITLE: 'Forgot your password?',
+    SUBTITLE: 'Enter your email and we\'ll send you a reset link',
+    EMAIL_LABEL: 'Email',
+    EMAIL_PLACEHOLDER: 'name@example.com',
+    SUBMIT_BUTTON: 'Send Reset Link',
+    LOADING_BUTTON: 'Sending...',
+    SENT_TITLE: 'Check your email',
+    SENT_MESSAGE: (email: string) => `If an account uses ${email}, a reset link is on its way. It only works for a limited time.`,
+    ERROR_TITLE: 'Could not send reset link',
+    ERROR_MESSAGE: 'Something went wrong. Please try again.',
+    BACK_TO_LOGIN: 'Back to sign in',
+  },
+
+  // Reset Password Page
+  RESET_PASSWORD: {
+    TITLE: 'Choose a new password',
+    SUBTITLE: 'Use at least 8 characters with upper and lower case letters and a number',
+    NEW_PASSWORD_LABEL: 'New Password',
+    CONFIRM_PASSWORD_LABEL: 'Confirm New Password',
+    PASSWORD_PLACEHOLDER: '••••••••',
+    SUBMIT_BUTTON: 'Reset Password',
+    LOADING_BUTTON: 'Resetting...',
+    SUCCESS_TITLE: 'Password reset',
+    SUCCESS_MESSAGE: 'Your password has been changed. Sign in with your new password.',
+    EXPIRED_TITLE: 'This link has expired',
+    EXPIRED_MESSAGE: 'Reset links only work for a limited time. Request a new one to continue.',
+    INVALID_TITLE: 'This link is not valid',
+    INVALID_MESSAGE: 'It may have been used already. Request a new one to continue.',
+    REQUEST_NEW_LINK: 'Request a New Link',
+    SIGN_IN: 'Sign In',
+    ERROR_TITLE: 'Could not reset password',
+    ERROR_MESSAGE: 'Something went wrong. Please try again.',
+  },
+
+  // Email Verification
+  VERIFY_EMAIL: {
+    TITLE: 'Verify your email',
+    SUBTITLE: 'Confirm your address to finish setting up your account',
+    VERIFYING: 'Verifying your email...',
+    SUCCESS_TITLE: 'Email verified',
+    SUCCESS_MESSAGE: 'Your email address is confirmed. You can now sign in.',
+    EXPIRED_TITLE: 'This link has expired',
+    EXPIRED_MESSAGE: 'Verification links only work for a limited time. Enter your email to get a new one.',
+    INVALID_TITLE: 'This link is not valid',
+    INVALID_MESSAGE: 'It may have been used already. Enter your email to get a new one.',
+    CHECK_INBOX_TITLE: 'Check your inbox',
+    CHECK_INBOX_MESSAGE: (email: string) => `We sent a verification link to ${email}. Open it to activate your account.`,
+    EMAIL_LABEL: 'Email',
+    EMAIL_PLACEHOLDER: 'name@example.com',
+    RESEND_BUTTON: 'Resend Verification Email',
+    RESENDING_BUTTON: 'Sending...',
+    RESENT_TITLE: 'Verification email sent',
+    RESENT_MESSAGE: 'A new link is on its way. Earlier links no longer work.',
+    ERROR_TITLE: 'Could not send verification email',
+    ERROR_MESSAGE: 'Something went wrong. Please try again.',
+    VERIFY_FAILED_TITLE: 'Could not verify email',
+    TRY_AGAIN: 'Try Again',
+    SIGN_IN: 'Sign In',
+  },
+
+  // Errors shared by the emailed-link flows
+  ERRORS: {
+    RATE_LIMITED_TITLE: 'Too many attempts',
+    RATE_LIMITED_MESSAGE: 'Please wait a few minutes before trying again.',
+  },
+
+  // Two-factor authentication
+  MFA: {
+    TITLE: 'Two-factor authentication',
+    SUBTITLE: 'Enter the code from your authenticator app to finish signing in',
+    CODE_LABEL: 'Authentication code',
+    CODE_PLACEHOLDER: '123 456',
+    BACKUP_CODE_HINT: 'Lost your phone? Enter one of your backup codes instead.',
+    VERIFY_BUTTON: 'Verify',
+    VERIFYING_BUTTON: 'Verifying...',
+    BACK_TO_LOGIN: 'Back to sign in',
+    ERROR_TITLE: 'Verification failed',
+    ERROR_MESSAGE: 'That code did not work. Check your app and try again.',
+    STEP_UP_TITLE: 'Confirm it\'s you',
+    STEP_UP_SUBTITLE: 'Large transfers need your authentication code',
+    STEP_UP_DESCRIPTION: (amount: string) => `Enter your code to send ${amount}.`,
+    CANCEL: 'Cancel',
+  },
+
+  // Idle timeout and session expiry
+  SESSION: {
+    TIMEOUT_TITLE: 'Are you still there?',
+    TIMEOUT_SUBTITLE: 'Your session is about to end',
+    TIMEOUT_MESSAGE: (seconds: number) =>
+      `For your security, you will be signed out in ${seconds} ${seconds === 1 ? 'second' : 'seconds'} because of inactivity.`,
+    STAY_SIGNED_IN: 'Stay Signed In',
+    SIGN_OUT: 'Sign Out',
+    SIGNING_OUT: 'Signing out...',
+    IDLE_TITLE: 'Signed out for inactivity',
+    IDLE_MESSAGE: 'You were inactive for a while, so we signed you out to protect your account.',
+    EXPIRED_TITLE: 'Session expired',
+    EXPIRED_MESSAGE: 'Your session has expired. Please sign in again to continue.',
+  },
+
   // Common
   COMMON: {
     COPYRIGHT: '© 2024 ApexPay Inc. All rights reserved.',
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { postSessionMessage, subscribeToSessionMessages, SessionMessageTypeEnum } from '../../../store/sessionChannel';
+import {
+    getIdleStatus,
+    ACTIVITY_BROADCAST_INTERVAL_MS,
+    IDLE_TIMEOUT_MS,
+    IDLE_WARNING_MS,
+} from '../utils/idleTimeout';
+
+/** Browser events that count as the user being active */
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart', 'wheel'] as const;
+
+/** How often the countdown re-renders */
+const IDLE_TICK_MS = 1000;
+
+interface UseIdleTimeoutOptions {
+    /** Called once the timeout passes with no activity in any tab */
+    onTimeout: () => void;
+    timeoutMs?: number;
+    warningMs?: number;
+}
+
+/**
+ * Tracks user activity across all tabs and reports when the session has been idle too long
+ * Activity is shared over the session channel, so a tab in the background does not
+ * sign out a user who is busy in another one. Once the warning shows, only
+ * {@link stayActive} (or activity in another tab) restarts the timer.
+ *
+ * @param options - Timeout callback and optional durations
+ * @returns Whether to warn, the seconds left and a function that keeps the session alive
+ */
+export const useIdleTimeout = ({
+    onTimeout,
+    timeoutMs = IDLE_TIMEOUT_MS,
+    warningMs = IDLE_WARNING_MS,
+}: UseIdleTimeoutOptions) => {
+    const [lastActivityAt, setLastActivityAt] = useState(() => Date.now());
+    const [now, setNow] = useState(() => Date.now());
+    // Mirrors lastActivityAt for event handlers, which must not re-subscribe on every update
+    const lastActivityRef = useRef(lastActivityAt);
+    const lastBroadcastRef = useRef(0);
+
+    /**
+     * Restarts the idle timer, updating state at most once per tick
+     * @param at - Epoch milliseconds of the activity
+     */
+    const recordActivity = useCallback((at: number) => {
+        if (at - lastActivityRef.current < IDLE_TICK_MS) return;
+        lastActivityRef.current = at;
+        setLastActivityAt(at);
+        setNow(at);
+    }, []);
+
+    /**
+     * Tells the other tabs about activity in this one
+     * @param at - Epoch milliseconds of the activity
+     */
+    const broadcastActivity = useCallback((at: number) => {
+        lastBroadcastRef.current = at;
+        postSessionMessage({ type: SessionMessageTypeEnum.ACTIVITY, at });
+    }, []);
+
+    useEffect(() => {
+        const handleActivity = () => {
+            const at = Date.now();
+            const status = getIdleStatus(lastActivityRef.current, at, timeoutMs, warningMs);
+            // Once the warning is up, moving the mouse is not enough to stay signed in
+            if (status.isWarning || status.isExpired) return;
+
+            recordActivity(at);
+            if (at - lastBroadcastRef.current >= ACTIVITY_BROADCAST_INTERVAL_MS) {
+                broadcastActivity(at);
+            }
+        };
+
+        ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+        return () => {
+            ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+        };
+    }, [timeoutMs, warningMs, recordActivity, broadcastActivity]);
+
+    useEffect(
+        () =>
+            subscribeToSessionMessages((message) => {
+                if (message.type === SessionMessageTypeEnum.ACTIVITY) {
+                    recordActivity(message.at);
+                }
+            }),
+        [recordActivity]
+    );
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), IDLE_TICK_MS);
+        return () => clearInterval(interval);
+    }, []);
+
+    const { isWarning, isExpired, secondsRemaining } = getIdleStatus(lastActivityAt, now, timeoutMs, warningMs);
+
+    useEffect(() => {
+        if (isExpired) onTimeout();
+    }, [isExpired, onTimeout]);
+
+    /**
+     * Dismisses the warning and restarts the timer in every tab
+     */
+    const stayActive = useCallback(() => {
+        const at = Date.now();
+        recordActivity(at);
+        broadcastActivity(at);
+    }, [recordActivity, broadcastActivity]);
+
+    return { isWarning, secondsRemaining, stayActive };
+};
@@ -1,5 +1,21 @@
-import { publicApi, protectedApi } from '../../../store/api';
-import type { LoginRequest, LoginResponse, RegisterRequest, RegisterResponse, LogoutResponse } from '../types';
+import { publicApi, protectedApi, endSession } from '../../../store/api';
+import { sessionStarted, SessionEndReasonEnum, type SessionEndReason } from '../../../store/authSlice';
+import { LoginStatusEnum } from '../types';
+import type {
+    LoginRequest,
+    LoginResponse,
+    VerifyMfaLoginRequest,
+    StepUpRequest,
+    StepUpResponse,
+    RegisterRequest,
+    RegisterResponse,
+    LogoutResponse,
+    ForgotPasswordRequest,
+    ResetPasswordRequest,
+    VerifyEmailRequest,
+    ResendVerificationRequest,
+    AuthMessageResponse,
+} from '../types';
 
 // Inject auth endpoints into the PUBLIC API (no auth required)
 export const authApi = publicApi.injectEndpoints({
@@ -10,8 +26,43 @@ export const authApi = publicApi.injectEndpoints({
                 method: 'POST',
                 body: credentials,
             }),
+            // Mark the session active once the backend has set the auth cookies.
+            // When a two-factor code is still owed, the session starts after verifyMfaLogin instead.
+            async onQueryStarted(_credentials, { dispatch, queryFulfilled }) {
+                try {
+                    const { data } = await queryFulfilled;
+                    if (data.status !== LoginStatusEnum.MFA_REQUIRED) {
+                        dispatch(sessionStarted());
+                    }
+                } catch {
+                    // Login failed - session state stays unchanged
+                }
+            },
         }),
 
+        /**
+         * Completes a login that returned mfa_required
+         * The backend sets the auth cookies once the code is accepted
+         */
+        verifyMfaLogin: builder.mutation<LoginResponse, VerifyMfaLoginRequest>({
+            query: (body) => ({
+                url: '/auth/mfa/verify',
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(_request, { dispatch, queryFulfilled }) {
+                try {
+                    await queryFulfilled;
+                    dispatch(sessionStarted());
+                } catch {
+                    // Wrong or expired code - the user stays on the challenge
+                }
+            },
+        }),
+
+        /**
+         * Creates an account; the backend emails a link to verify the address
+         */
         register: builder.mutation<RegisterResponse, RegisterRequest>({
             query: (userData) => ({
                 url: '/auth/register',
@@ -19,23 +70,103 @@ export const authApi = publicApi.injectEndpoints({
                 body: userData,
             }),
         }),
+
+        /**
+         * Emails a password reset link
+         * Succeeds whether or not an account uses the address, so accounts cannot be discovered
+         */
+        requestPasswordReset: builder.mutation<AuthMessageResponse, ForgotPasswordRequest>({
+            query: (body) => ({
+                url: '/auth/password/forgot',
+                method: 'POST',
+                body,
+            }),
+        }),
+
+        /**
+         * Sets a new password from a reset link
+         * Fails with 410 when the link has expired
+         */
+        resetPassword: builder.mutation<AuthMessageResponse, ResetPasswordRequest>({
+            query: (body) => ({
+                url: '/auth/password/reset',
+                method: 'POST',
+                body,
+            }),
+        }),
+
+        /**
+         * Confirms the email address from a verification link
+         * Fails with 410 when the link has expired
+         */
+        verifyEmail: builder.mutation<AuthMessageResponse, VerifyEmailRequest>({
+            query: (body) => ({
+                url: '/auth/email/verify',
+                method: 'POST',
+                body,
+            }),
+        }),
+
+        /**
+         * Emails a new verification link, replacing any earlier one
+         */
+        resendVerificationEmail: builder.mutation<AuthMessageResponse, ResendVerificationRequest>({
+            query: (body) => ({
+                url: '/auth/email/resend',
+                method: 'POST',
+                body,
+            }),
+        }),
     }),
 });
 
 // Inject logout into PROTECTED API (requires auth)
 export const authProtectedApi = protectedApi.injectEndpoints({
     endpoints: (builder) => ({
-        logout: builder.mutation<LogoutResponse, void>({
+        /**
+         * Signs out on the server, then ends the session in every tab
+         * Takes the reason to show on the login page; defaults to a manual sign out
+         */
+        logout: builder.mutation<LogoutResponse, SessionEndReason | void>({
             query: () => ({
                 url: '/auth/logout',
                 method: 'POST',
             }),
-            // Invalidate all cached data on logout
-            invalidatesTags: ['User', 'Wallet', 'Transaction'],
+            // Clear the session and every cached protected query, even if the request fails,
+            // so the next user of this browser never sees stale account data
+            async onQueryStarted(reason, { dispatch, queryFulfilled }) {
+                try {
+                    await queryFulfilled;
+                } catch {
+                    // Server-side logout failed - still end the local session
+                } finally {
+                    endSession(dispatch, reason ?? SessionEndReasonEnum.SIGNED_OUT);
+                }
+            },
+        }),
+
+        /**
+         * Verifies a two-factor code before a high-value action
+         * @returns A short-lived token to send with that action
+         */
+        verifyStepUp: builder.mutation<StepUpResponse, StepUpRequest>({
+            query: (body) => ({
+                url: '/auth/mfa/step-up',
+                method: 'POST',
+                body,
+            }),
         }),
     }),
 });
 
 // Export auto-generated hooks
-export const { useLoginMutation, useRegisterMutation } = authApi;
-export const { useLogoutMutation } = authProtectedApi;
+export const {
+    useLoginMutation,
+    useVerifyMfaLoginMutation,
+    useRegisterMutation,
+    useRequestPasswordResetMutation,
+    useResetPasswordMutation,
+    useVerifyEmailMutation,
+    useResendVerificationEmailMutation,
+} = authApi;
+export const { useLogoutMutation, useVerifyStepUpMutation } = authProtectedApi;
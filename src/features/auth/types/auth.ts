@@ -1,9 +1,56 @@
+/** Outcome of a login attempt (as const object for verbatimModuleSyntax compatibility) */
+export const LoginStatusEnum = {
+    /** Session cookies are set */
+    AUTHENTICATED: 'authenticated',
+    /** Password accepted; a two-factor code must be verified before the session starts */
+    MFA_REQUIRED: 'mfa_required',
+} as const;
+
+export type LoginStatusEnum = (typeof LoginStatusEnum)[keyof typeof LoginStatusEnum];
+
 /** Payload for user login */
 export interface LoginRequest {
     email: string;
     password: string;
 }
 
+/** Payload for completing a login with a two-factor code */
+export interface VerifyMfaLoginRequest {
+    /** Token from the login response identifying the pending login */
+    mfaToken: string;
+    /** Authenticator app code or backup code */
+    code: string;
+}
+
+/** Payload for confirming a high-value action with a two-factor code */
+export interface StepUpRequest {
+    /** Authenticator app code or backup code */
+    code: string;
+}
+
+/** Payload for requesting a password reset link */
+export interface ForgotPasswordRequest {
+    email: string;
+}
+
+/** Payload for setting a new password from a reset link */
+export interface ResetPasswordRequest {
+    /** Token from the emailed reset link */
+    token: string;
+    newPassword: string;
+}
+
+/** Payload for confirming an email address from a verification link */
+export interface VerifyEmailRequest {
+    /** Token from the emailed verification link */
+    token: string;
+}
+
+/** Payload for sending a new verification link */
+export interface ResendVerificationRequest {
+    email: string;
+}
+
 /** Payload for user registration */
 export interface RegisterRequest {
     email: string;
@@ -16,6 +63,18 @@ export interface RegisterRequest {
 /** Response from login endpoint */
 export interface LoginResponse {
     message: string;
+    /** Omitted by servers without two-factor support, meaning authenticated */
+    status?: LoginStatusEnum;
+    /** Short-lived token for the two-factor challenge; only with mfa_required */
+    mfaToken?: string;
+}
+
+/** Response after a successful step-up verification */
+export interface StepUpResponse {
+    /** Proof of the verification, sent with the action it was requested for */
+    stepUpToken: string;
+    /** ISO 8601 timestamp after which the token is no longer accepted */
+    expiresAt: string;
 }
 
 /** Response from register endpoint */
@@ -23,6 +82,11 @@ export interface RegisterResponse {
     message: string;
 }
 
+/** Response from the password reset, email verification and resend endpoints */
+export interface AuthMessageResponse {
+    message: string;
+}
+
 /** Response from logout endpoint */
 export interface LogoutResponse {
     message: string;
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { getIdleStatus, IDLE_TIMEOUT_MS, IDLE_WARNING_MS } from '../idleTimeout';
+
+/**
+ * Property-based tests for the idle timeout
+ *
+ * **Validates: Idle auto-logout**
+ * - The warning shows only during the last stretch before the timeout
+ * - The session expires exactly when the timeout has passed
+ * - The countdown never goes below zero and never exceeds the time left
+ */
+
+const lastActivityArbitrary = fc.integer({ min: 0, max: 2_000_000_000_000 });
+
+describe('Idle Timeout Property Tests', () => {
+    it('should warn only inside the warning window and expire once the timeout passes', () => {
+        fc.assert(
+            fc.property(lastActivityArbitrary, fc.integer({ min: 0, max: 2 * IDLE_TIMEOUT_MS }), (lastActivityAt, idleMs) => {
+                const status = getIdleStatus(lastActivityAt, lastActivityAt + idleMs);
+
+                expect(status.isExpired).toBe(idleMs >= IDLE_TIMEOUT_MS);
+                expect(status.isWarning).toBe(idleMs >= IDLE_TIMEOUT_MS - IDLE_WARNING_MS && idleMs < IDLE_TIMEOUT_MS);
+                expect(status.isWarning && status.isExpired).toBe(false);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should count down whole seconds to the timeout', () => {
+        fc.assert(
+            fc.property(lastActivityArbitrary, fc.integer({ min: 0, max: 2 * IDLE_TIMEOUT_MS }), (lastActivityAt, idleMs) => {
+                const { secondsRemaining } = getIdleStatus(lastActivityAt, lastActivityAt + idleMs);
+                const remainingMs = IDLE_TIMEOUT_MS - idleMs;
+
+                expect(secondsRemaining).toBeGreaterThanOrEqual(0);
+                if (remainingMs > 0) {
+                    expect(secondsRemaining * 1000).toBeGreaterThanOrEqual(remainingMs);
+                    expect((secondsRemaining - 1) * 1000).toBeLessThan(remainingMs);
+                } else {
+                    expect(secondsRemaining).toBe(0);
+                }
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should honour custom durations', () => {
+        expect(getIdleStatus(0, 4_000, 10_000, 5_000)).toEqual({ isWarning: false, isExpired: false, secondsRemaining: 6 });
+        expect(getIdleStatus(0, 5_000, 10_000, 5_000)).toEqual({ isWarning: true, isExpired: false, secondsRemaining: 5 });
+        expect(getIdleStatus(0, 10_000, 10_000, 5_000)).toEqual({ isWarning: false, isExpired: true, secondsRemaining: 0 });
+    });
+});
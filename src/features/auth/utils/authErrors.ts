@@ -0,0 +1,21 @@
+import { AUTH_TEXT } from '../constants';
+import { getApiErrorMessage, isRateLimitedError } from '../../../utils/apiError';
+
+/** Title and message for an error alert */
+export interface AuthErrorInfo {
+    title: string;
+    message: string;
+}
+
+/**
+ * Describes an error from the emailed-link flows
+ * Rate limiting gets its own wording, since trying again straight away will not help
+ * @param error - Error from the mutation
+ * @param title - Alert title for other errors
+ * @param fallback - Message when the server sent none
+ * @returns Title and message for the alert
+ */
+export const getAuthFlowError = (error: unknown, title: string, fallback: string): AuthErrorInfo =>
+    isRateLimitedError(error)
+        ? { title: AUTH_TEXT.ERRORS.RATE_LIMITED_TITLE, message: AUTH_TEXT.ERRORS.RATE_LIMITED_MESSAGE }
+        : { title, message: getApiErrorMessage(error, fallback) };
@@ -0,0 +1,40 @@
+/** Inactivity after which the session ends - 15 minutes */
+export const IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** How long before the timeout the warning appears - 1 minute */
+export const IDLE_WARNING_MS = 60 * 1000;
+
+/** Minimum gap between activity messages sent to the other tabs */
+export const ACTIVITY_BROADCAST_INTERVAL_MS = 15 * 1000;
+
+/** Where the session stands in the idle countdown */
+export interface IdleStatus {
+    /** Whether the warning should be showing */
+    isWarning: boolean;
+    /** Whether the session should end now */
+    isExpired: boolean;
+    /** Whole seconds until the session ends, 0 once expired */
+    secondsRemaining: number;
+}
+
+/**
+ * Works out the idle state from the last activity seen in any tab
+ * @param lastActivityAt - Epoch milliseconds of the last activity
+ * @param now - Current epoch milliseconds
+ * @param timeoutMs - Inactivity that ends the session
+ * @param warningMs - How long before the end the warning appears
+ * @returns Warning and expiry flags with the seconds left
+ */
+export const getIdleStatus = (
+    lastActivityAt: number,
+    now: number,
+    timeoutMs: number = IDLE_TIMEOUT_MS,
+    warningMs: number = IDLE_WARNING_MS
+): IdleStatus => {
+    const remainingMs = lastActivityAt + timeoutMs - now;
+    return {
+        isWarning: remainingMs > 0 && remainingMs <= warningMs,
+        isExpired: remainingMs <= 0,
+        secondsRemaining: Math.max(0, Math.ceil(remainingMs / 1000)),
+    };
+};
@@ -0,0 +1,8 @@
+export { getAuthFlowError, type AuthErrorInfo } from './authErrors';
+export {
+    getIdleStatus,
+    IDLE_TIMEOUT_MS,
+    IDLE_WARNING_MS,
+    ACTIVITY_BROADCAST_INTERVAL_MS,
+    type IdleStatus,
+} from './idleTimeout';
@@ -0,0 +1,336 @@
+import { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Alert, Button, Checkbox, DarkInput, Modal, ModalBody, ModalFooter, ModalHeader } from '../../../components/ui';
+import {
+    bankAccountSchema,
+    BANK_ACCOUNT_TYPES,
+    createCardSchema,
+    parseCardExpiry,
+    type BankAccountFormData,
+    type BankAccountFormInput,
+    type CardFormData,
+    type CardFormInput,
+} from '../../../schemas';
+import { useAddPaymentMethodMutation } from '../services/paymentMethodApi';
+import { tokenizePaymentDetails } from '../services/paymentTokenizer';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import { PaymentMethodsText } from '../constants';
+import { PaymentMethodType, type TokenizePaymentMethodRequest } from '../types';
+
+/** Form element IDs so the shared footer button can submit the active tab */
+const CARD_FORM_ID = 'add-card-form';
+const BANK_FORM_ID = 'add-bank-account-form';
+
+interface AddPaymentMethodModalProps {
+    /** Whether the modal is open */
+    isOpen: boolean;
+    /** Callback when modal is closed */
+    onClose: () => void;
+}
+
+/** Options saved alongside the token */
+interface SaveOptions {
+    displayName: string;
+    setAsDefault: boolean;
+}
+
+interface MethodFormProps {
+    /** Tokenizes and saves the entered details */
+    onSubmit: (request: TokenizePaymentMethodRequest, options: SaveOptions) => void;
+}
+
+/**
+ * Card details form
+ */
+const CardForm = ({ onSubmit }: MethodFormProps) => {
+    // Expiry is checked against the month the form was opened in
+    const cardSchema = useMemo(() => createCardSchema(), []);
+    const {
+        register,
+        handleSubmit,
+        formState: { errors },
+    } = useForm<CardFormInput, unknown, CardFormData>({
+        resolver: zodResolver(cardSchema),
+        mode: 'onBlur',
+        defaultValues: {
+            cardholderName: '',
+            cardNumber: '',
+            expiry: '',
+            cvc: '',
+            displayName: '',
+            setAsDefault: false,
+        },
+    });
+
+    const submit = (data: CardFormData) => {
+        // Schema validation guarantees the expiry parses
+        const expiry = parseCardExpiry(data.expiry) ?? { month: 0, year: 0 };
+        onSubmit(
+            {
+                type: PaymentMethodType.CARD,
+                card: {
+                    cardholderName: data.cardholderName,
+                    number: data.cardNumber,
+                    expiryMonth: expiry.month,
+                    expiryYear: expiry.year,
+                    cvc: data.cvc,
+                },
+            },
+            { displayName: data.displayName, setAsDefault: data.setAsDefault }
+        );
+    };
+
+    return (
+        <form id={CARD_FORM_ID} onSubmit={handleSubmit(submit)} className="flex flex-col gap-4">
+            <DarkInput
+                id="card-holder-name"
+                variant="modal"
+                label={PaymentMethodsText.CARDHOLDER_NAME_LABEL}
+                placeholder={PaymentMethodsText.CARDHOLDER_NAME_PLACEHOLDER}
+                autoComplete="cc-name"
+                error={errors.cardholderName?.message}
+                {...register('cardholderName')}
+            />
+            <DarkInput
+                id="card-number"
+                variant="modal"
+                label={PaymentMethodsText.CARD_NUMBER_LABEL}
+                placeholder={PaymentMethodsText.CARD_NUMBER_PLACEHOLDER}
+                leftIcon="credit_card"
+                inputMode="numeric"
+                autoComplete="cc-number"
+                error={errors.cardNumber?.message}
+                {...register('cardNumber')}
+            />
+            <div className="grid grid-cols-2 gap-4">
+                <DarkInput
+                    id="card-expiry"
+                    variant="modal"
+                    label={PaymentMethodsText.EXPIRY_LABEL}
+                    placeholder={PaymentMethodsText.EXPIRY_PLACEHOLDER}
+                    autoComplete="cc-exp"
+                    error={errors.expiry?.message}
+                    {...register('expiry')}
+                />
+                <DarkInput
+                    id="card-cvc"
+                    variant="modal"
+                    label={PaymentMethodsText.CVC_LABEL}
+                    placeholder={PaymentMethodsText.CVC_PLACEHOLDER}
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="cc-csc"
+                    error={errors.cvc?.message}
+                    {...register('cvc')}
+                />
+            </div>
+            <DarkInput
+                id="card-nickname"
+                variant="modal"
+                label={PaymentMethodsText.NICKNAME_LABEL}
+                placeholder={PaymentMethodsText.NICKNAME_PLACEHOLDER}
+                error={errors.displayName?.message}
+                {...register('displayName')}
+            />
+            <Checkbox variant="dark" label={PaymentMethodsText.SET_AS_DEFAULT_LABEL} {...register('setAsDefault')} />
+        </form>
+    );
+};
+
+/**
+ * Bank account details form
+ */
+const BankAccountForm = ({ onSubmit }: MethodFormProps) => {
+    const {
+        register,
+        handleSubmit,
+        formState: { errors },
+    } = useForm<BankAccountFormInput, unknown, BankAccountFormData>({
+        resolver: zodResolver(bankAccountSchema),
+        mode: 'onBlur',
+        defaultValues: {
+            accountHolderName: '',
+            bankName: '',
+            accountNumber: '',
+            accountType: BANK_ACCOUNT_TYPES[0],
+            displayName: '',
+            setAsDefault: false,
+        },
+    });
+
+    const submit = (data: BankAccountFormData) => {
+        onSubmit(
+            {
+                type: PaymentMethodType.BANK_ACCOUNT,
+                bankAccount: {
+                    accountHolderName: data.accountHolderName,
+                    bankName: data.bankName,
+                    accountNumber: data.accountNumber,
+                    accountType: data.accountType,
+                },
+            },
+            { displayName: data.displayName, setAsDefault: data.setAsDefault }
+        );
+    };
+
+    return (
+        <form id={BANK_FORM_ID} onSubmit={handleSubmit(submit)} className="flex flex-col gap-4">
+            <DarkInput
+                id="bank-account-holder"
+                variant="modal"
+                label={PaymentMethodsText.ACCOUNT_HOLDER_LABEL}
+                placeholder={PaymentMethodsText.ACCOUNT_HOLDER_PLACEHOLDER}
+                autoComplete="name"
+                error={errors.accountHolderName?.message}
+                {...register('accountHolderName')}
+            />
+            <DarkInput
+                id="bank-name"
+                variant="modal"
+                label={PaymentMethodsText.BANK_NAME_LABEL}
+                placeholder={PaymentMethodsText.BANK_NAME_PLACEHOLDER}
+                leftIcon="account_balance"
+                error={errors.bankName?.message}
+                {...register('bankName')}
+            />
+            <div className="grid grid-cols-2 gap-4">
+                <DarkInput
+                    id="bank-account-number"
+                    variant="modal"
+                    label={PaymentMethodsText.ACCOUNT_NUMBER_LABEL}
+                    placeholder={PaymentMethodsText.ACCOUNT_NUMBER_PLACEHOLDER}
+                    inputMode="numeric"
+                    error={errors.accountNumber?.message}
+                    {...register('accountNumber')}
+                />
+                <div className="flex flex-col gap-1.5">
+                    <label htmlFor="bank-account-type" className="text-[#90a4cb] text-sm font-medium leading-normal ml-1">
+                        {PaymentMethodsText.ACCOUNT_TYPE_LABEL}
+                    </label>
+                    <select
+                        id="bank-account-type"
+                        className="w-full h-12 px-4 bg-[#101723]/60 border border-[#304669]/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-primary/20"
+                        {...register('accountType')}
+                    >
+                        {BANK_ACCOUNT_TYPES.map((accountType) => (
+                            <option key={accountType} value={accountType} className="bg-slate-800">
+                                {accountType}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+            <DarkInput
+                id="bank-nickname"
+                variant="modal"
+                label={PaymentMethodsText.NICKNAME_LABEL}
+                placeholder={PaymentMethodsText.NICKNAME_PLACEHOLDER}
+                error={errors.displayName?.message}
+                {...register('displayName')}
+            />
+            <Checkbox variant="dark" label={PaymentMethodsText.SET_AS_DEFAULT_LABEL} {...register('setAsDefault')} />
+            <p className="text-xs text-[#90a4cb]">{PaymentMethodsText.BANK_VERIFICATION_NOTE}</p>
+        </form>
+    );
+};
+
+/**
+ * Modal for adding a card or bank account
+ * Raw details are tokenized directly with the provider; only the token is sent to our API
+ */
+export const AddPaymentMethodModal = ({ isOpen, onClose }: AddPaymentMethodModalProps) => {
+    const [activeType, setActiveType] = useState<PaymentMethodType>(PaymentMethodType.CARD);
+    const [error, setError] = useState<string | null>(null);
+
+    const [isTokenizing, setIsTokenizing] = useState(false);
+    const [addPaymentMethod, { isLoading: isAdding }] = useAddPaymentMethodMutation();
+    const isSubmitting = isTokenizing || isAdding;
+
+    /**
+     * Resets the modal state when it closes
+     */
+    const handleClose = () => {
+        setActiveType(PaymentMethodType.CARD);
+        setError(null);
+        onClose();
+    };
+
+    const handleSubmit = async (request: TokenizePaymentMethodRequest, options: SaveOptions) => {
+        setError(null);
+        setIsTokenizing(true);
+        try {
+            const { token } = await tokenizePaymentDetails(request).finally(() => setIsTokenizing(false));
+            await addPaymentMethod({
+                token,
+                displayName: options.displayName || undefined,
+                setAsDefault: options.setAsDefault,
+            }).unwrap();
+            handleClose();
+        } catch (err) {
+            setError(getApiErrorMessage(err, PaymentMethodsText.DEFAULT_ERROR));
+        }
+    };
+
+    const tabs = [
+        { type: PaymentMethodType.CARD, label: PaymentMethodsText.CARD_TAB, icon: 'credit_card' },
+        { type: PaymentMethodType.BANK_ACCOUNT, label: PaymentMethodsText.BANK_TAB, icon: 'account_balance' },
+    ];
+
+    return (
+        <Modal isOpen={isOpen} onClose={handleClose} maxWidth="md">
+            <ModalHeader
+                icon="add_card"
+                title={PaymentMethodsText.ADD_TITLE}
+                subtitle={PaymentMethodsText.ADD_SUBTITLE}
+                onClose={handleClose}
+            />
+            <ModalBody>
+                <div role="tablist" className="grid grid-cols-2 gap-2 p-1 bg-[#101723]/60 rounded-xl">
+                    {tabs.map((tab) => (
+                        <button
+                            key={tab.type}
+                            type="button"
+                            role="tab"
+                            aria-selected={activeType === tab.type}
+                            onClick={() => {
+                                setActiveType(tab.type);
+                                setError(null);
+                            }}
+                            className={`flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-semibold transition-colors ${activeType === tab.type ? 'bg-blue-500 text-white' : 'text-[#90a4cb] hover:text-white'}`}
+                        >
+                            <span className="material-symbols-outlined text-[18px]">{tab.icon}</span>
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
+
+                {error && (
+                    <Alert
+                        variant="error"
+                        title={PaymentMethodsText.ADD_FAILED}
+                        message={error}
+                        onDismiss={() => setError(null)}
+                    />
+                )}
+
+                {activeType === PaymentMethodType.CARD
+                    ? <CardForm onSubmit={handleSubmit} />
+                    : <BankAccountForm onSubmit={handleSubmit} />}
+            </ModalBody>
+            <ModalFooter className="flex items-center justify-between gap-3">
+                <Button type="button" variant="ghost" onClick={handleClose}>
+                    {PaymentMethodsText.CANCEL}
+                </Button>
+                <Button
+                    type="submit"
+                    form={activeType === PaymentMethodType.CARD ? CARD_FORM_ID : BANK_FORM_ID}
+                    disabled={isSubmitting}
+                    leftIcon={isSubmitting ? 'progress_activity' : 'add_circle'}
+                >
+                    {isSubmitting ? PaymentMethodsText.ADDING : PaymentMethodsText.ADD_SUBMIT}
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+};
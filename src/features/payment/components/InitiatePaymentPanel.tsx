@@ -71,6 +71,9 @@ export const InitiatePaymentPanel = ({
                         unfold_more
                     </span>
                 </div>
+                {wallets.length === 0 && (
+                    <p className="text-amber-400 text-xs">{PaymentDevToolsText.NO_SGD_WALLETS}</p>
+                )}
                 {selectedWallet && (
                     <p className="text-slate-400 text-xs">
                         {PaymentDevToolsText.AVAILABLE_BALANCE_PREFIX} <span className="text-white">${selectedWallet.balance.toLocaleString('en-US', { minimumFractionDigits: 2 })}</span>
@@ -0,0 +1,108 @@
+import { Button } from '../../../components/ui';
+import { PaymentMethodsText } from '../constants';
+import { CardExpiryStatus, PaymentMethodType, type PaymentMethodResponse } from '../types';
+import { formatCardExpiry, getCardExpiryStatus, getPaymentMethodName, isPendingVerification } from '../utils';
+
+interface PaymentMethodListItemProps {
+    /** The saved payment method */
+    method: PaymentMethodResponse;
+    /** Callback to make this method the default */
+    onSetDefault: (method: PaymentMethodResponse) => void;
+    /** Callback to open micro-deposit verification */
+    onVerify: (method: PaymentMethodResponse) => void;
+    /** Callback to request removal (confirmation is handled by the parent) */
+    onRemove: (method: PaymentMethodResponse) => void;
+    /** Whether a default change is in flight for any method */
+    isSettingDefault?: boolean;
+}
+
+/**
+ * A single saved card or bank account with its status and actions
+ */
+export const PaymentMethodListItem = ({
+    method,
+    onSetDefault,
+    onVerify,
+    onRemove,
+    isSettingDefault = false,
+}: PaymentMethodListItemProps) => {
+    const isCard = method.type === PaymentMethodType.CARD;
+    const expiryStatus = getCardExpiryStatus(method);
+    const isPending = isPendingVerification(method);
+    const isExpired = expiryStatus === CardExpiryStatus.EXPIRED;
+    const expiry = method.expiryMonth && method.expiryYear
+        ? formatCardExpiry(method.expiryMonth, method.expiryYear)
+        : '';
+
+    const details = isCard
+        ? expiry && (isExpired ? PaymentMethodsText.EXPIRED(expiry) : PaymentMethodsText.EXPIRES(expiry))
+        : method.accountType ?? '';
+
+    // Expired and unverified methods cannot be charged, so they cannot be the default
+    const canSetDefault = !method.isDefault && !isExpired && !isPending;
+
+    return (
+        <li className="flex flex-col gap-3 p-4 bg-[#161E2C] border border-slate-700 rounded-xl">
+            <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3 min-w-0">
+                    <div className={`size-10 rounded-lg flex items-center justify-center shrink-0 ${isExpired ? 'bg-red-500/10 text-red-400' : 'bg-blue-500/10 text-blue-500'}`}>
+                        <span className="material-symbols-outlined">{isCard ? 'credit_card' : 'account_balance'}</span>
+                    </div>
+                    <div className="flex flex-col min-w-0">
+                        <div className="flex items-center gap-2">
+                            <p className="text-sm font-semibold text-white truncate">{getPaymentMethodName(method)}</p>
+                            {method.isDefault && (
+                                <span className="px-2 py-0.5 rounded-full bg-blue-500/10 text-blue-400 text-[10px] font-bold uppercase tracking-wider">
+                                    {PaymentMethodsText.DEFAULT_BADGE}
+                                </span>
+                            )}
+                            {isPending && (
+                                <span className="px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-500 text-[10px] font-bold uppercase tracking-wider">
+                                    {PaymentMethodsText.PENDING_VERIFICATION}
+                                </span>
+                            )}
+                        </div>
+                        {details && (
+                            <p className={`text-xs ${isExpired ? 'text-red-400' : 'text-slate-400'}`}>{details}</p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-2 shrink-0">
+                    {isPending && (
+                        <Button variant="secondary" size="sm" onClick={() => onVerify(method)}>
+                            {PaymentMethodsText.VERIFY}
+                        </Button>
+                    )}
+                    {canSetDefault && (
+                        <Button variant="ghost" size="sm" disabled={isSettingDefault} onClick={() => onSetDefault(method)}>
+                            {PaymentMethodsText.SET_DEFAULT}
+                        </Button>
+                    )}
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        leftIcon="delete"
+                        aria-label={`${PaymentMethodsText.REMOVE} ${getPaymentMethodName(method)}`}
+                        onClick={() => onRemove(method)}
+                    >
+                        {PaymentMethodsText.REMOVE}
+                    </Button>
+                </div>
+            </div>
+
+            {expiryStatus === CardExpiryStatus.EXPIRED && (
+                <p className="flex items-center gap-2 text-xs text-red-400">
+                    <span className="material-symbols-outlined text-[16px]">error</span>
+                    {PaymentMethodsText.EXPIRED_WARNING}
+                </p>
+            )}
+            {expiryStatus === CardExpiryStatus.EXPIRING_SOON && (
+                <p className="flex items-center gap-2 text-xs text-amber-500">
+                    <span className="material-symbols-outlined text-[16px]">warning</span>
+                    {PaymentMethodsText.EXPIRING_SOON_WARNING}
+                </p>
+            )}
+        </li>
+    );
+};
@@ -14,6 +14,8 @@ interface PaymentMethodsPanelProps {
     customMethods?: MockPaymentMethod[];
     /** Callback to add custom provider */
     onAddCustomProvider?: () => void;
+    /** Callback to open the scenario runner for every mock token */
+    onRunScenarios?: () => void;
 }
 
 /**
@@ -40,6 +42,7 @@ export const PaymentMethodsPanel = ({
     isLoadingRealMethods = false,
     customMethods = [],
     onAddCustomProvider,
+    onRunScenarios,
 }: PaymentMethodsPanelProps) => {
     const allMockMethods = [...DEFAULT_MOCK_PAYMENT_METHODS, ...customMethods];
 
@@ -101,9 +104,20 @@ export const PaymentMethodsPanel = ({
 
                 {/* Mock Tokens Section */}
                 <div className="flex flex-col gap-1">
-                    <span className="text-slate-400 text-xs font-medium tracking-wider">
-                        {PaymentDevToolsText.MOCK_TOKENS_LABEL}
-                    </span>
+                    <div className="flex items-center justify-between gap-2">
+                        <span className="text-slate-400 text-xs font-medium tracking-wider">
+                            {PaymentDevToolsText.MOCK_TOKENS_LABEL}
+                        </span>
+                        {onRunScenarios && (
+                            <button
+                                onClick={onRunScenarios}
+                                className="flex items-center gap-1 text-blue-400 hover:text-blue-300 text-xs font-semibold transition-colors"
+                            >
+                                <span className="material-symbols-outlined text-sm">science</span>
+                                {PaymentDevToolsText.RUN_SCENARIOS_BUTTON}
+                            </button>
+                        )}
+                    </div>
                     <div className="flex flex-col gap-0.5">
                         {allMockMethods.map((method) => {
                             const badge = getTokenBadge(method.tokenType);
@@ -1,29 +1,39 @@
 import { PaymentDevToolsText } from '../constants';
 import { PaymentStatusEnum } from '../types';
-import type { PaymentStatusEnum as PaymentStatusEnumType, PaymentState } from '../types';
+import type { PaymentStatusEnum as PaymentStatusEnumType, PaymentState, PaymentTimeline } from '../types';
+import { formatTimelineTimestamp, isTerminalPaymentStatus } from '../utils';
 
 interface ProcessStatusPanelProps {
     paymentId: string | null;
     status: PaymentStatusEnumType | null;
     paymentState: PaymentState | null;
-    initiatedAt: string | null;
+    /** When each step was reached, from the server's timestamps */
+    timeline: PaymentTimeline;
+    /** Shown under the settled step once part of the payment has been refunded */
+    refundSummary?: string;
     onCheckStatus: () => void;
     onVoid: () => void;
+    onRefund: () => void;
     isCheckingStatus: boolean;
+    isVoiding: boolean;
+    /** Whether the payment has not settled yet, so it can still be voided */
+    canVoid: boolean;
+    /** Whether the payment succeeded and is not fully refunded */
+    canRefund: boolean;
 }
 
 /**
  * Returns status step configuration based on current status
  */
-const getStatusSteps = (status: PaymentStatusEnumType | null, initiatedAt: string | null) => {
-    const isTerminalStatus = status === PaymentStatusEnum.SUCCESS || status === PaymentStatusEnum.FAILED || status === PaymentStatusEnum.REFUNDED;
+const getStatusSteps = (status: PaymentStatusEnumType | null, timeline: PaymentTimeline, refundSummary?: string) => {
+    const isTerminalStatus = isTerminalPaymentStatus(status);
     const isSuccessfulStatus = status === PaymentStatusEnum.SUCCESS || status === PaymentStatusEnum.REFUNDED;
 
     const steps = [
         {
             id: 'initiated',
             label: PaymentDevToolsText.STATUS_INITIATED,
-            sublabel: initiatedAt || '',
+            sublabel: formatTimelineTimestamp(timeline.initiatedAt),
             isComplete: status !== null,
             isCurrent: status === PaymentStatusEnum.INITIATED,
             icon: 'check_circle',
@@ -31,7 +41,9 @@ const getStatusSteps = (status: PaymentStatusEnumType | null, initiatedAt: strin
         {
             id: 'pending',
             label: PaymentDevToolsText.STATUS_PENDING,
-            sublabel: status === PaymentStatusEnum.PENDING ? PaymentDevToolsText.AWAITING_PROVIDER_RESPONSE : '',
+            sublabel: status === PaymentStatusEnum.PENDING
+                ? PaymentDevToolsText.AWAITING_PROVIDER_RESPONSE_SINCE(formatTimelineTimestamp(timeline.pendingAt))
+                : formatTimelineTimestamp(timeline.pendingAt),
             isComplete: isTerminalStatus,
             isCurrent: status === PaymentStatusEnum.PENDING,
             icon: 'pending',
@@ -39,10 +51,12 @@ const getStatusSteps = (status: PaymentStatusEnumType | null, initiatedAt: strin
         {
             id: 'settled',
             label: PaymentDevToolsText.STATUS_SETTLED,
-            sublabel: status === null ? PaymentDevToolsText.OUTCOME_NOT_DETERMINED : '',
+            sublabel: isTerminalStatus
+                ? [formatTimelineTimestamp(timeline.settledAt), refundSummary].filter(Boolean).join(' · ')
+                : PaymentDevToolsText.OUTCOME_NOT_DETERMINED,
             isComplete: isSuccessfulStatus,
             isCurrent: isTerminalStatus,
-            icon: status === PaymentStatusEnum.FAILED ? 'cancel' : 'check_circle',
+            icon: status === PaymentStatusEnum.FAILED || status === PaymentStatusEnum.VOIDED ? 'cancel' : 'check_circle',
         },
     ];
     return steps;
@@ -55,12 +69,17 @@ export const ProcessStatusPanel = ({
     paymentId,
     status,
     paymentState,
-    initiatedAt,
+    timeline,
+    refundSummary,
     onCheckStatus,
     onVoid,
+    onRefund,
     isCheckingStatus,
+    isVoiding,
+    canVoid,
+    canRefund,
 }: ProcessStatusPanelProps) => {
-    const steps = getStatusSteps(status, initiatedAt);
+    const steps = getStatusSteps(status, timeline, refundSummary);
 
     return (
         <div className="bg-[#0d1117] border border-slate-700/50 rounded-xl p-4 flex flex-col gap-4 h-full">
@@ -187,13 +206,22 @@ export const ProcessStatusPanel = ({
                 >
                     {isCheckingStatus ? PaymentDevToolsText.CHECKING_STATUS_BUTTON : PaymentDevToolsText.CHECK_STATUS_BUTTON}
                 </button>
-                <button
-                    onClick={onVoid}
-                    disabled={!paymentId || status === PaymentStatusEnum.SUCCESS || status === PaymentStatusEnum.REFUNDED}
-                    className="bg-red-500 hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors text-sm"
-                >
-                    {PaymentDevToolsText.VOID_BUTTON}
-                </button>
+                {canRefund ? (
+                    <button
+                        onClick={onRefund}
+                        className="bg-orange-500 hover:bg-orange-600 text-white font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+                    >
+                        {PaymentDevToolsText.REFUND_BUTTON}
+                    </button>
+                ) : (
+                    <button
+                        onClick={onVoid}
+                        disabled={!paymentId || !canVoid || isVoiding}
+                        className="bg-red-500 hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors text-sm"
+                    >
+                        {isVoiding ? PaymentDevToolsText.VOIDING_BUTTON : PaymentDevToolsText.VOID_BUTTON}
+                    </button>
+                )}
             </div>
         </div>
     );
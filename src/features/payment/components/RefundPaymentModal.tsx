@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Alert, Button, DarkInput, Modal, ModalBody, ModalFooter, ModalHeader } from '../../../components/ui';
+import { createRefundSchema, type RefundFormData } from '../../../schemas';
+import { useRefundPaymentMutation } from '../services/paymentApi';
+import { useIdempotencyKey } from '../../wallet/hooks/useIdempotencyKey';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import { compareMoney, parseMoney, toDecimalString, toMajorUnits, type Money } from '../../../utils/money';
+import { PaymentDevToolsText } from '../constants';
+import type { RefundPaymentResponse } from '../types';
+
+interface RefundPaymentModalProps {
+    isOpen: boolean;
+    paymentId: string;
+    /** Amount not yet refunded */
+    refundable: Money;
+    onClose: () => void;
+    /** Called with the updated payment and the amount just refunded once the refund is accepted */
+    onRefunded: (response: RefundPaymentResponse, amount: Money) => void;
+    /** Called with the error message when the refund is rejected */
+    onFailed: (message: string) => void;
+}
+
+/**
+ * Modal for refunding a settled payment in full or in part
+ */
+export const RefundPaymentModal = ({ isOpen, ...props }: RefundPaymentModalProps) => {
+    if (!isOpen) return null;
+
+    // Mounted only while open so the amount starts at the current refundable remainder
+    return <RefundPaymentForm {...props} />;
+};
+
+const RefundPaymentForm = ({
+    paymentId,
+    refundable,
+    onClose,
+    onRefunded,
+    onFailed,
+}: Omit<RefundPaymentModalProps, 'isOpen'>) => {
+    const [error, setError] = useState<string | null>(null);
+    const [refundPayment, { isLoading }] = useRefundPaymentMutation();
+    const { getKey: getIdempotencyKey, reset: resetIdempotencyKey } = useIdempotencyKey();
+
+    const {
+        register,
+        handleSubmit,
+        setValue,
+        formState: { errors },
+    } = useForm<RefundFormData>({
+        resolver: zodResolver(createRefundSchema(toMajorUnits(refundable), refundable.currency)),
+        mode: 'onBlur',
+        defaultValues: { amount: toDecimalString(refundable) },
+    });
+
+    const onSubmit = async (data: RefundFormData) => {
+        const amount = parseMoney(data.amount, refundable.currency);
+        if (!amount) return;
+        setError(null);
+
+        // Refunding the whole remainder is sent as a full refund, so rounding can never leave a unit behind
+        const isFullRefund = compareMoney(amount, refundable) === 0;
+        const request = { paymentId, amount: isFullRefund ? undefined : toMajorUnits(amount) };
+        try {
+            // Retrying the same refund reuses its key, so it is only applied once
+            const response = await refundPayment({
+                ...request,
+                idempotencyKey: getIdempotencyKey(request),
+            }).unwrap();
+            resetIdempotencyKey();
+            onRefunded(response, amount);
+            onClose();
+        } catch (err) {
+            const message = getApiErrorMessage(err, PaymentDevToolsText.REFUND_DEFAULT_ERROR);
+            setError(message);
+            onFailed(message);
+        }
+    };
+
+    return (
+        <Modal isOpen onClose={onClose} maxWidth="sm">
+            <ModalHeader
+                icon="currency_exchange"
+                title={PaymentDevToolsText.REFUND_TITLE}
+                subtitle={PaymentDevToolsText.REFUND_SUBTITLE(paymentId)}
+                onClose={onClose}
+            />
+            <ModalBody>
+                {error && (
+                    <Alert
+                        variant="error"
+                        title={PaymentDevToolsText.REFUND_FAILED}
+                        message={error}
+                        onDismiss={() => setError(null)}
+                    />
+                )}
+                <form id="refund-payment-form" onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-3">
+                    <DarkInput
+                        id="refund-amount"
+                        variant="modal"
+                        label={PaymentDevToolsText.REFUND_AMOUNT_LABEL}
+                        placeholder={PaymentDevToolsText.AMOUNT_PLACEHOLDER}
+                        inputMode="decimal"
+                        helperText={PaymentDevToolsText.REFUNDABLE_HINT(toDecimalString(refundable), refundable.currency)}
+                        error={errors.amount?.message}
+                        {...register('amount')}
+                    />
+                    <button
+                        type="button"
+                        onClick={() => setValue('amount', toDecimalString(refundable), { shouldValidate: true })}
+                        className="self-start text-xs font-semibold text-primary hover:text-blue-400 transition-colors"
+                    >
+                        {PaymentDevToolsText.REFUND_FULL_AMOUNT}
+                    </button>
+                </form>
+            </ModalBody>
+            <ModalFooter className="flex items-center justify-between gap-3">
+                <Button type="button" variant="ghost" onClick={onClose}>
+                    {PaymentDevToolsText.REFUND_CANCEL}
+                </Button>
+                <Button type="submit" form="refund-payment-form" disabled={isLoading}>
+                    {isLoading ? PaymentDevToolsText.REFUNDING : PaymentDevToolsText.REFUND_SUBMIT}
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+};
@@ -0,0 +1,59 @@
+import { Alert, Button, Modal, ModalBody, ModalFooter, ModalHeader } from '../../../components/ui';
+import { PaymentMethodsText } from '../constants';
+import type { PaymentMethodResponse } from '../types';
+import { getPaymentMethodName } from '../utils';
+
+interface RemovePaymentMethodModalProps {
+    /** Payment method pending removal, or null when closed */
+    method: PaymentMethodResponse | null;
+    /** Callback when the user cancels */
+    onClose: () => void;
+    /** Callback when the user confirms removal */
+    onConfirm: (method: PaymentMethodResponse) => void;
+    /** Loading state for the delete request */
+    isRemoving?: boolean;
+    /** Error from the last delete attempt */
+    error?: string | null;
+}
+
+/**
+ * Confirmation dialog shown before a payment method is deleted
+ */
+export const RemovePaymentMethodModal = ({
+    method,
+    onClose,
+    onConfirm,
+    isRemoving = false,
+    error = null,
+}: RemovePaymentMethodModalProps) => (
+    <Modal isOpen={method !== null} onClose={onClose} maxWidth="sm">
+        <ModalHeader icon="delete" title={PaymentMethodsText.REMOVE_TITLE} onClose={onClose} />
+        {method && (
+            <ModalBody className="gap-4">
+                {error && <Alert variant="error" title={PaymentMethodsText.REMOVE_FAILED} message={error} />}
+                <p className="text-sm text-slate-300">
+                    {PaymentMethodsText.REMOVE_MESSAGE(getPaymentMethodName(method))}
+                </p>
+                {method.isDefault && (
+                    <p className="text-xs text-amber-500">{PaymentMethodsText.REMOVE_DEFAULT_NOTE}</p>
+                )}
+            </ModalBody>
+        )}
+        <ModalFooter className="flex items-center justify-between gap-3">
+            <Button type="button" variant="ghost" onClick={onClose}>
+                {PaymentMethodsText.CANCEL}
+            </Button>
+            <button
+                type="button"
+                disabled={isRemoving}
+                onClick={() => method && onConfirm(method)}
+                className="bg-red-500 hover:bg-red-600 px-6 py-3 rounded-xl text-white text-sm font-semibold flex items-center gap-2 shadow-lg shadow-red-500/20 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                <span className="material-symbols-outlined text-[18px]">
+                    {isRemoving ? 'progress_activity' : 'delete'}
+                </span>
+                {isRemoving ? PaymentMethodsText.REMOVING : PaymentMethodsText.REMOVE_CONFIRM}
+            </button>
+        </ModalFooter>
+    </Modal>
+);
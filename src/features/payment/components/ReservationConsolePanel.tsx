@@ -0,0 +1,403 @@
+import { useEffect, useState } from 'react';
+import { Pagination } from '../../../components/ui';
+import { PaymentDevToolsText, PROVIDER_NAME, TRANSACTION_ID_PREFIX } from '../constants';
+import { formatHoldAge, validateHoldAmount } from '../utils';
+import {
+    useCancelReservationMutation,
+    useConfirmReservationMutation,
+    useGetTransactionHistoryQuery,
+    useReserveFundsMutation,
+} from '../../wallet/services/walletApi';
+import { TransactionTypeEnum, WalletTransactionStatusEnum } from '../../wallet/types';
+import type { GetWalletResponse } from '../../wallet/types';
+import type { DebugLogEntry } from '../types';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import { parseMoney, toDecimalString, toMajorUnits, toMoney } from '../../../utils/money';
+
+interface ReservationConsolePanelProps {
+    wallets: GetWalletResponse[];
+    /** Adds an entry to the Debug Panel */
+    onLog: (log: Omit<DebugLogEntry, 'id' | 'timestamp'>) => void;
+}
+
+/** How often hold ages re-render */
+const HOLD_AGE_TICK_MS = 1000;
+
+/**
+ * Generates a payment reference for a new hold
+ */
+const generateHoldReference = () => `${PaymentDevToolsText.HOLD_REFERENCE_PREFIX}${Math.random().toString(36).substring(2, 15)}`;
+
+/**
+ * Generates a mock provider transaction ID for capturing a hold
+ */
+const generateProviderTransactionId = () => `${TRANSACTION_ID_PREFIX}${Math.random().toString(36).substring(2, 15)}`;
+
+/**
+ * Panel 5: Reservation Console - Place, confirm and cancel wallet holds
+ * Active holds are the wallet's pending RESERVE transactions, listed a page at
+ * a time; the list refreshes whenever a reservation call invalidates the
+ * transaction cache.
+ */
+export const ReservationConsolePanel = ({ wallets, onLog }: ReservationConsolePanelProps) => {
+    const [selectedWalletId, setSelectedWalletId] = useState<string | null>(null);
+    const [amount, setAmount] = useState('25.00');
+    const [amountError, setAmountError] = useState<string | null>(null);
+    const [holdReference, setHoldReference] = useState(generateHoldReference);
+    // Hold being captured and the provider transaction ID to send with it
+    const [confirming, setConfirming] = useState<{ holdId: string; providerTransactionId: string } | null>(null);
+    // Wallet balance reported by the last reservation call
+    const [lastResult, setLastResult] = useState<{ step: string; remainingBalance: number } | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+    const [holdsPageNumber, setHoldsPageNumber] = useState(1);
+
+    // Wallets load after the panel mounts, so default to the first one until the user picks
+    const wallet = wallets.find((w) => w.walletId === selectedWalletId) ?? wallets[0];
+    const walletId = wallet?.walletId ?? '';
+
+    const [reserveFunds, { isLoading: isReserving }] = useReserveFundsMutation();
+    const [confirmReservation, { isLoading: isConfirming }] = useConfirmReservationMutation();
+    const [cancelReservation, { isLoading: isCancelling }] = useCancelReservationMutation();
+
+    const { data: holdsPage, isLoading: isLoadingHolds } = useGetTransactionHistoryQuery(
+        {
+            walletId,
+            transactionType: TransactionTypeEnum.RESERVE,
+            status: WalletTransactionStatusEnum.PENDING,
+            offset: holdsPageNumber,
+        },
+        { skip: !walletId }
+    );
+    const holds = holdsPage?.items ?? [];
+    const hasHolds = holds.length > 0;
+    const holdsPageCount = holdsPage ? Math.ceil(holdsPage.totalCount / holdsPage.pageSize) : 1;
+
+    // Keep hold ages current while any are listed
+    useEffect(() => {
+        if (!hasHolds) return;
+        const interval = setInterval(() => setNow(Date.now()), HOLD_AGE_TICK_MS);
+        return () => clearInterval(interval);
+    }, [hasHolds]);
+
+    /**
+     * Switches wallet and clears results that belonged to the previous one
+     * @param nextWalletId - Selected wallet
+     */
+    const handleWalletChange = (nextWalletId: string) => {
+        setSelectedWalletId(nextWalletId);
+        setHoldsPageNumber(1);
+        setConfirming(null);
+        setLastResult(null);
+        setAmountError(null);
+    };
+
+    /**
+     * Steps back a page once the last hold on it has been captured or released
+     */
+    const handleHoldResolved = () => {
+        if (holds.length === 1 && holdsPageNumber > 1) {
+            setHoldsPageNumber(holdsPageNumber - 1);
+        }
+    };
+
+    /**
+     * Places a hold on the selected wallet via API
+     */
+    const handlePlaceHold = async () => {
+        if (!wallet) return;
+
+        const error = validateHoldAmount(amount, wallet.balance, wallet.currency);
+        setAmountError(error);
+        const holdAmount = parseMoney(amount, wallet.currency);
+        if (error || !holdAmount) return;
+
+        onLog({
+            type: 'POST',
+            title: PaymentDevToolsText.API_RESERVE_ENDPOINT(walletId),
+            details: PaymentDevToolsText.LOG_PLACING_HOLD(toDecimalString(holdAmount), wallet.currency),
+        });
+
+        try {
+            const response = await reserveFunds({
+                walletId,
+                body: {
+                    amount: toMajorUnits(holdAmount),
+                    currency: wallet.currency,
+                    paymentId: holdReference,
+                },
+            }).unwrap();
+
+            onLog({
+                type: 'WALLET_RESERVE',
+                title: PaymentDevToolsText.LOG_HOLD_PLACED(response.walletTransactionId),
+                subDetails: [
+                    { label: PaymentDevToolsText.LOG_DETAIL_AMOUNT, value: toDecimalString(toMoney(response.amountReserved, wallet.currency)), isAmount: true },
+                    { label: PaymentDevToolsText.LOG_DETAIL_REMAINING_BALANCE, value: `${toDecimalString(toMoney(response.remainingBalance, wallet.currency))} ${wallet.currency}` },
+                ],
+            });
+            setLastResult({ step: PaymentDevToolsText.STEP_RESERVE, remainingBalance: response.remainingBalance });
+            setHoldReference(generateHoldReference());
+        } catch (err) {
+            console.error('Failed to place hold:', err);
+            onLog({
+                type: 'POST',
+                title: `${PaymentDevToolsText.API_RESERVE_ENDPOINT(walletId)} - FAILED`,
+                details: getApiErrorMessage(err, PaymentDevToolsText.LOG_FAILED_TO_PLACE_HOLD),
+            });
+        }
+    };
+
+    /**
+     * Captures a hold with the provider transaction ID being entered
+     */
+    const handleConfirmHold = async () => {
+        if (!wallet || !confirming) return;
+        const { holdId, providerTransactionId } = confirming;
+
+        onLog({
+            type: 'POST',
+            title: PaymentDevToolsText.API_CONFIRM_RESERVATION_ENDPOINT(walletId),
+            details: PaymentDevToolsText.LOG_CONFIRMING_HOLD(providerTransactionId),
+        });
+
+        try {
+            const response = await confirmReservation({
+                walletId,
+                body: {
+                    walletTransactionId: holdId,
+                    providerTransactionId: providerTransactionId.trim(),
+                    externalProvider: PROVIDER_NAME,
+                },
+            }).unwrap();
+
+            onLog({
+                type: 'WALLET_CONFIRM',
+                title: PaymentDevToolsText.LOG_HOLD_CONFIRMED(holdId),
+                subDetails: [
+                    { label: PaymentDevToolsText.LOG_DETAIL_REMAINING_BALANCE, value: `${toDecimalString(toMoney(response.remainingBalance, wallet.currency))} ${wallet.currency}` },
+                ],
+            });
+            setLastResult({ step: PaymentDevToolsText.STEP_CONFIRM, remainingBalance: response.remainingBalance });
+            setConfirming(null);
+            handleHoldResolved();
+        } catch (err) {
+            console.error('Failed to confirm hold:', err);
+            onLog({
+                type: 'POST',
+                title: `${PaymentDevToolsText.API_CONFIRM_RESERVATION_ENDPOINT(walletId)} - FAILED`,
+                details: getApiErrorMessage(err, PaymentDevToolsText.LOG_FAILED_TO_CONFIRM_HOLD),
+            });
+        }
+    };
+
+    /**
+     * Releases a hold via API
+     * @param holdId - Wallet transaction ID of the hold
+     */
+    const handleCancelHold = async (holdId: string) => {
+        if (!wallet) return;
+
+        onLog({
+            type: 'POST',
+            title: PaymentDevToolsText.API_CANCEL_RESERVATION_ENDPOINT(walletId),
+            details: PaymentDevToolsText.LOG_CANCELLING_HOLD,
+        });
+
+        try {
+            const response = await cancelReservation({
+                walletId,
+                body: { walletTransactionId: holdId },
+            }).unwrap();
+
+            onLog({
+                type: 'WALLET_CONFIRM',
+                title: PaymentDevToolsText.LOG_HOLD_CANCELLED(holdId),
+                subDetails: [
+                    { label: PaymentDevToolsText.LOG_DETAIL_REMAINING_BALANCE, value: `${toDecimalString(toMoney(response.remainingBalance, wallet.currency))} ${wallet.currency}` },
+                ],
+            });
+            setLastResult({ step: PaymentDevToolsText.STEP_CANCEL, remainingBalance: response.remainingBalance });
+            if (confirming?.holdId === holdId) setConfirming(null);
+            handleHoldResolved();
+        } catch (err) {
+            console.error('Failed to cancel hold:', err);
+            onLog({
+                type: 'POST',
+                title: `${PaymentDevToolsText.API_CANCEL_RESERVATION_ENDPOINT(walletId)} - FAILED`,
+                details: getApiErrorMessage(err, PaymentDevToolsText.LOG_FAILED_TO_CANCEL_HOLD),
+            });
+        }
+    };
+
+    return (
+        <div className="bg-[#0d1117] border border-slate-700/50 rounded-xl p-4 flex flex-col gap-3">
+            {/* Panel Header */}
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <span className="text-blue-400 font-mono text-sm">5</span>
+                    <h3 className="text-white font-semibold text-sm">{PaymentDevToolsText.PANEL5_TITLE}</h3>
+                </div>
+                {wallet && lastResult && (
+                    <span className="text-slate-400 text-xs">
+                        {PaymentDevToolsText.REMAINING_BALANCE_LABEL}{' '}
+                        <span className="text-white font-mono">
+                            {toDecimalString(toMoney(lastResult.remainingBalance, wallet.currency))} {wallet.currency}
+                        </span>{' '}
+                        {PaymentDevToolsText.REMAINING_BALANCE_AFTER(lastResult.step)}
+                    </span>
+                )}
+            </div>
+
+            {/* Hold Form */}
+            <div className="grid grid-cols-2 gap-3">
+                <div className="col-span-2 flex flex-col gap-1">
+                    <label className="text-slate-400 text-xs font-medium tracking-wider">
+                        {PaymentDevToolsText.HOLD_WALLET_LABEL}
+                    </label>
+                    <select
+                        value={walletId}
+                        onChange={(e) => handleWalletChange(e.target.value)}
+                        className="w-full bg-[#161b22] border border-slate-700 rounded-lg px-3 py-2 text-white text-sm cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                    >
+                        {wallets.map((w) => (
+                            <option key={w.walletId} value={w.walletId}>
+                                {w.name} ({w.currency} {toDecimalString(toMoney(w.balance, w.currency))})
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex flex-col gap-1">
+                    <label className="text-slate-400 text-xs font-medium tracking-wider">
+                        {PaymentDevToolsText.HOLD_AMOUNT_LABEL}
+                    </label>
+                    <input
+                        type="text"
+                        inputMode="decimal"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        placeholder={PaymentDevToolsText.AMOUNT_PLACEHOLDER}
+                        className="w-full bg-[#161b22] border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                    />
+                </div>
+                <div className="flex flex-col gap-1">
+                    <label className="text-slate-400 text-xs font-medium tracking-wider">
+                        {PaymentDevToolsText.HOLD_REFERENCE_LABEL}
+                    </label>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="text"
+                            value={holdReference}
+                            readOnly
+                            className="flex-1 min-w-0 bg-[#161b22] border border-slate-700 rounded-lg px-3 py-2 text-slate-400 font-mono text-xs focus:outline-none"
+                        />
+                        <button
+                            onClick={() => setHoldReference(generateHoldReference())}
+                            className="p-2 bg-[#161b22] border border-slate-700 rounded-lg text-slate-400 hover:text-white hover:border-slate-600 transition-colors"
+                            aria-label={PaymentDevToolsText.REFRESH_HOLD_REFERENCE_LABEL}
+                        >
+                            <span className="material-symbols-outlined text-lg">refresh</span>
+                        </button>
+                    </div>
+                </div>
+            </div>
+            {amountError && <p className="text-red-400 text-xs">{amountError}</p>}
+
+            <button
+                onClick={handlePlaceHold}
+                disabled={!wallet || isReserving}
+                className="w-full bg-orange-600 hover:bg-orange-700 disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-medium py-2 px-3 rounded-lg flex items-center justify-center gap-2 transition-colors text-sm"
+            >
+                <span className="material-symbols-outlined text-lg">lock</span>
+                {isReserving ? PaymentDevToolsText.PLACING_HOLD_BUTTON : PaymentDevToolsText.PLACE_HOLD_BUTTON}
+            </button>
+
+            {/* Active Holds */}
+            <div className="flex flex-col gap-2">
+                <span className="text-slate-400 text-xs font-medium tracking-wider">
+                    {PaymentDevToolsText.ACTIVE_HOLDS_LABEL}
+                </span>
+                <div className="flex flex-col gap-2 max-h-48 overflow-auto pr-1">
+                    {isLoadingHolds ? (
+                        <span className="text-slate-500 text-xs">{PaymentDevToolsText.LOADING_HOLDS}</span>
+                    ) : !hasHolds ? (
+                        <span className="text-slate-500 text-xs">{PaymentDevToolsText.NO_ACTIVE_HOLDS}</span>
+                    ) : (
+                        holds.map((hold) => (
+                            <div key={hold.transactionId} className="bg-[#161b22] border border-slate-700 rounded-lg p-2 flex flex-col gap-2">
+                                <div className="flex items-center justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <p className="text-white text-sm font-mono">
+                                            {toDecimalString(toMoney(Math.abs(hold.amount), hold.currency))} {hold.currency}
+                                        </p>
+                                        <p className="text-slate-500 text-xs font-mono truncate">
+                                            {hold.transactionId} · {PaymentDevToolsText.HOLD_AGE(formatHoldAge(hold.createdAt, now))}
+                                        </p>
+                                    </div>
+                                    {confirming?.holdId !== hold.transactionId && (
+                                        <div className="flex gap-2 flex-shrink-0">
+                                            <button
+                                                onClick={() => setConfirming({ holdId: hold.transactionId, providerTransactionId: generateProviderTransactionId() })}
+                                                disabled={isConfirming || isCancelling}
+                                                className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-xs font-medium py-1 px-2 rounded transition-colors"
+                                            >
+                                                {PaymentDevToolsText.CONFIRM_HOLD_BUTTON}
+                                            </button>
+                                            <button
+                                                onClick={() => handleCancelHold(hold.transactionId)}
+                                                disabled={isConfirming || isCancelling}
+                                                className="bg-red-500 hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed text-white text-xs font-medium py-1 px-2 rounded transition-colors"
+                                            >
+                                                {PaymentDevToolsText.CANCEL_HOLD_BUTTON}
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+
+                                {/* Capture form */}
+                                {confirming?.holdId === hold.transactionId && (
+                                    <div className="flex flex-col gap-1">
+                                        <label className="text-slate-400 text-xs font-medium tracking-wider">
+                                            {PaymentDevToolsText.PROVIDER_TRANSACTION_ID_LABEL}
+                                        </label>
+                                        <div className="flex items-center gap-2">
+                                            <input
+                                                type="text"
+                                                value={confirming.providerTransactionId}
+                                                onChange={(e) => setConfirming({ ...confirming, providerTransactionId: e.target.value })}
+                                                className="flex-1 min-w-0 bg-[#0d1117] border border-slate-700 rounded-lg px-2 py-1 text-white font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                                            />
+                                            <button
+                                                onClick={handleConfirmHold}
+                                                disabled={isConfirming || !confirming.providerTransactionId.trim()}
+                                                className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-xs font-medium py-1 px-2 rounded transition-colors"
+                                            >
+                                                {PaymentDevToolsText.SUBMIT_CONFIRM_HOLD_BUTTON}
+                                            </button>
+                                            <button
+                                                onClick={() => setConfirming(null)}
+                                                className="text-slate-400 hover:text-white text-xs font-medium py-1 px-2 transition-colors"
+                                            >
+                                                {PaymentDevToolsText.BACK_BUTTON}
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        ))
+                    )}
+                </div>
+                {holdsPageCount > 1 && (
+                    <Pagination
+                        currentPage={holdsPageNumber}
+                        totalPages={holdsPageCount}
+                        onPageChange={(page) => {
+                            setHoldsPageNumber(page);
+                            setConfirming(null);
+                        }}
+                        siblingCount={0}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
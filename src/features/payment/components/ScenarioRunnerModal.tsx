@@ -0,0 +1,150 @@
+import { Button, Modal, ModalBody, ModalFooter, ModalHeader } from '../../../components/ui';
+import { useScenarioRunner } from '../hooks/useScenarioRunner';
+import { MOCK_TOKEN_SCENARIOS, PaymentDevToolsText } from '../constants';
+import { buildScenarioReport, buildScenarioReportFilename, summarizeScenarioRun } from '../utils';
+import { downloadFile, EXPORT_MIME_TYPES } from '../../wallet/utils/transactionExport';
+import { ExportFormat } from '../../wallet/types';
+import { toDecimalString, type Money } from '../../../utils/money';
+import type { DebugLogEntry, ScenarioResult } from '../types';
+
+interface ScenarioRunnerModalProps {
+    isOpen: boolean;
+    /** Source wallet selected in Initiate Payment; empty when there is none */
+    walletId: string;
+    /** Amount of each scenario's payment */
+    amount: Money;
+    onClose: () => void;
+    /** Adds an entry to the Debug Panel */
+    onLog: (log: Omit<DebugLogEntry, 'id' | 'timestamp'>) => void;
+}
+
+/**
+ * Returns the matrix cell color for a status, green when it matches the expectation
+ */
+const getStatusColor = (matches: boolean) => (matches ? 'text-emerald-400' : 'text-red-400');
+
+/**
+ * Modal that runs every mock token scenario and shows a pass/fail matrix
+ */
+export const ScenarioRunnerModal = ({ isOpen, ...props }: ScenarioRunnerModalProps) => {
+    if (!isOpen) return null;
+
+    // Mounted only while open so each opening starts from an empty matrix
+    return <ScenarioRunnerContent {...props} />;
+};
+
+const ScenarioRunnerContent = ({ walletId, amount, onClose, onLog }: Omit<ScenarioRunnerModalProps, 'isOpen'>) => {
+    const { run, stop, results, runInfo, runningToken, isRunning, isStopping } = useScenarioRunner({ walletId, amount, onLog });
+    const summary = summarizeScenarioRun(results);
+    const resultsByToken = new Map<string, ScenarioResult>(results.map((result) => [result.token, result]));
+
+    const handleClose = () => {
+        stop();
+        onClose();
+    };
+
+    const handleExport = () => {
+        if (!runInfo) return;
+        downloadFile(buildScenarioReport(results, runInfo), buildScenarioReportFilename(), EXPORT_MIME_TYPES[ExportFormat.JSON]);
+    };
+
+    return (
+        <Modal isOpen onClose={isRunning ? undefined : handleClose} maxWidth="xl">
+            <ModalHeader
+                icon="science"
+                title={PaymentDevToolsText.SCENARIOS_TITLE}
+                subtitle={PaymentDevToolsText.SCENARIOS_SUBTITLE(toDecimalString(amount), amount.currency)}
+                onClose={handleClose}
+            />
+            <ModalBody className="max-h-[60vh] overflow-auto">
+                {!walletId && (
+                    <p className="text-amber-400 text-sm">{PaymentDevToolsText.SCENARIOS_NO_WALLET}</p>
+                )}
+                <table className="w-full text-left text-xs">
+                    <thead>
+                        <tr className="text-slate-400 tracking-wider">
+                            <th className="py-2 pr-3 font-medium">{PaymentDevToolsText.SCENARIOS_COLUMN_TOKEN}</th>
+                            <th className="py-2 pr-3 font-medium">{PaymentDevToolsText.SCENARIOS_COLUMN_EXPECTED}</th>
+                            <th className="py-2 pr-3 font-medium">{PaymentDevToolsText.SCENARIOS_COLUMN_ACTUAL}</th>
+                            <th className="py-2 pr-3 font-medium">{PaymentDevToolsText.SCENARIOS_COLUMN_MESSAGE}</th>
+                            <th className="py-2 pr-3 font-medium text-right">{PaymentDevToolsText.SCENARIOS_COLUMN_TIME}</th>
+                            <th className="py-2 font-medium text-right">{PaymentDevToolsText.SCENARIOS_COLUMN_RESULT}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-700/50">
+                        {MOCK_TOKEN_SCENARIOS.map((scenario) => {
+                            const result = resultsByToken.get(scenario.token);
+                            const isCurrent = runningToken === scenario.token;
+
+                            return (
+                                <tr key={scenario.token} className={isCurrent ? 'bg-blue-500/10' : undefined}>
+                                    <td className="py-2 pr-3">
+                                        <div className="text-white font-medium">{scenario.displayName}</div>
+                                        <div className="text-slate-500 font-mono">{scenario.token}</div>
+                                    </td>
+                                    <td className="py-2 pr-3">
+                                        <div className="text-slate-300 font-mono">{scenario.expectedStatus}</div>
+                                        <div className="text-slate-500">
+                                            {scenario.expectedMessages.length > 0
+                                                ? scenario.expectedMessages.join(' / ')
+                                                : PaymentDevToolsText.SCENARIO_ANY_MESSAGE}
+                                        </div>
+                                    </td>
+                                    <td className="py-2 pr-3 font-mono">
+                                        {result ? (
+                                            <span className={getStatusColor(result.statusMatches)}>{result.status ?? '-'}</span>
+                                        ) : (
+                                            <span className="text-slate-500">-</span>
+                                        )}
+                                    </td>
+                                    <td className="py-2 pr-3 max-w-[220px]">
+                                        {result ? (
+                                            <span className={result.error ? 'text-red-400' : getStatusColor(result.messageMatches)}>
+                                                {result.error ?? result.message ?? '-'}
+                                            </span>
+                                        ) : (
+                                            <span className="text-slate-500">-</span>
+                                        )}
+                                    </td>
+                                    <td className="py-2 pr-3 text-right text-slate-400 font-mono">
+                                        {result ? `${result.durationMs}ms` : '-'}
+                                    </td>
+                                    <td className="py-2 text-right font-semibold">
+                                        {result ? (
+                                            <span className={result.passed ? 'text-emerald-400' : 'text-red-400'}>
+                                                {result.passed ? PaymentDevToolsText.SCENARIO_PASS : PaymentDevToolsText.SCENARIO_FAIL}
+                                            </span>
+                                        ) : isCurrent ? (
+                                            <span className="text-blue-400">{PaymentDevToolsText.SCENARIO_RUNNING}</span>
+                                        ) : (
+                                            <span className="text-slate-500">{PaymentDevToolsText.SCENARIO_NOT_RUN}</span>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </ModalBody>
+            <ModalFooter className="flex items-center justify-between gap-3">
+                <span className="text-slate-400 text-xs">
+                    {results.length > 0 && PaymentDevToolsText.SCENARIOS_SUMMARY(summary.passed, summary.failed, MOCK_TOKEN_SCENARIOS.length)}
+                </span>
+                <div className="flex items-center gap-3">
+                    <Button type="button" variant="ghost" onClick={handleExport} disabled={!runInfo || isRunning}>
+                        {PaymentDevToolsText.EXPORT_SCENARIOS_REPORT}
+                    </Button>
+                    {isRunning ? (
+                        <Button type="button" variant="ghost" onClick={stop} disabled={isStopping}>
+                            {isStopping ? PaymentDevToolsText.STOPPING_SCENARIOS : PaymentDevToolsText.STOP_SCENARIOS}
+                        </Button>
+                    ) : (
+                        <Button type="button" onClick={run} disabled={!walletId}>
+                            {runInfo ? PaymentDevToolsText.RERUN_SCENARIOS : PaymentDevToolsText.RUN_SCENARIOS_SUBMIT}
+                        </Button>
+                    )}
+                </div>
+            </ModalFooter>
+        </Modal>
+    );
+};
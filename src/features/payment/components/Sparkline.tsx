@@ -0,0 +1,28 @@
+interface SparklineProps {
+    /** Values oldest first */
+    values: number[];
+    /** Tailwind background class for the bars */
+    colorClass: string;
+    /** Accessible description of the series */
+    label: string;
+}
+
+/**
+ * Tiny bar chart of recent values for the stats bar
+ * Bars are scaled to the largest value; zero values show as a faint baseline
+ */
+export const Sparkline = ({ values, colorClass, label }: SparklineProps) => {
+    const maxValue = Math.max(0, ...values);
+
+    return (
+        <div className="h-6 flex items-end gap-px" role="img" aria-label={label}>
+            {values.map((value, index) => (
+                <div
+                    key={index}
+                    className={`flex-1 rounded-[1px] ${value > 0 ? colorClass : 'bg-slate-700/50'}`}
+                    style={{ height: `${maxValue > 0 && value > 0 ? Math.max((value / maxValue) * 100, 10) : 8}%` }}
+                />
+            ))}
+        </div>
+    );
+};
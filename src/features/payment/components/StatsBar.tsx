@@ -1,54 +1,120 @@
-import { PaymentDevToolsText, DEFAULT_STATS } from '../constants';
-import type { DevToolsStats } from '../types';
+import { useEffect, useState } from 'react';
+import { Sparkline } from './Sparkline';
+import { PaymentDevToolsText, DEVTOOLS_REGION, ERROR_RATE_THRESHOLDS, LATENCY_THRESHOLDS_MS } from '../constants';
+import {
+    formatErrorRate,
+    formatLatency,
+    formatRequestRate,
+    formatStatusCounts,
+    getThresholdColor,
+} from '../utils';
+import { useAppSelector } from '../../../store/hooks';
+import {
+    getErrorRate,
+    getLatencyPercentiles,
+    getMetricsSeries,
+    getRequestsPerHour,
+    getTopCounts,
+    selectMetrics,
+    METRICS_BUCKET_MS,
+} from '../../../store/metricsSlice';
 
-interface StatsBarProps {
-    stats?: DevToolsStats;
-}
+/** Failed statuses listed under the error rate */
+const TOP_ERROR_STATUSES = 2;
 
 /**
- * Bottom stats bar showing latency, API requests, error rate, and region
+ * Bottom stats bar showing live latency, request rate, error rate and token refreshes
+ * collected from every API request, with a sparkline of the last few minutes
  */
-export const StatsBar = ({ stats = DEFAULT_STATS }: StatsBarProps) => {
+export const StatsBar = () => {
+    const metrics = useAppSelector(selectMetrics);
+    // Advance the sparklines and hourly rate while no requests are being made
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), METRICS_BUCKET_MS);
+        return () => clearInterval(interval);
+    }, []);
+
+    const hasRequests = metrics.totalRequests > 0;
+    const latency = getLatencyPercentiles(metrics.latencySamples);
+    const errorRate = getErrorRate(metrics);
+    const series = getMetricsSeries(metrics.history, now);
+    const [topEndpoint] = getTopCounts(metrics.requestsByEndpoint, 1);
+    const topErrors = getTopCounts(metrics.errorsByStatus, TOP_ERROR_STATUSES);
+
     return (
-        <div className="grid grid-cols-4 gap-3 flex-shrink-0">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 flex-shrink-0">
             {/* Latency */}
-            <div className="bg-[#0d1117] border border-slate-700/50 rounded-xl p-3">
-                <div className="text-slate-400 text-xs font-medium tracking-wider mb-0.5">
+            <div className="bg-[#0d1117] border border-slate-700/50 rounded-xl p-3 flex flex-col gap-1">
+                <div className="text-slate-400 text-xs font-medium tracking-wider">
                     {PaymentDevToolsText.LATENCY_LABEL}
                 </div>
-                <div className="text-xl font-bold text-emerald-400 font-mono">
-                    {stats.latency}<span className="text-xs text-slate-400 ml-1">ms</span>
+                <div className={`text-xl font-bold font-mono ${latency.p50 === null ? 'text-slate-500' : getThresholdColor(latency.p50, LATENCY_THRESHOLDS_MS)}`}>
+                    {latency.p50 === null ? '-' : Math.round(latency.p50)}
+                    <span className="text-xs text-slate-400 ml-1">{PaymentDevToolsText.LATENCY_UNIT} p50</span>
                 </div>
+                <div className="text-slate-500 text-xs font-mono truncate">
+                    {PaymentDevToolsText.LATENCY_PERCENTILES(formatLatency(latency.p95), formatLatency(latency.p99))}
+                </div>
+                <Sparkline values={series.latency} colorClass="bg-emerald-500/70" label={PaymentDevToolsText.LATENCY_LABEL} />
             </div>
 
             {/* API Requests */}
-            <div className="bg-[#0d1117] border border-slate-700/50 rounded-xl p-3">
-                <div className="text-slate-400 text-xs font-medium tracking-wider mb-0.5">
+            <div className="bg-[#0d1117] border border-slate-700/50 rounded-xl p-3 flex flex-col gap-1">
+                <div className="text-slate-400 text-xs font-medium tracking-wider">
                     {PaymentDevToolsText.API_REQUESTS_LABEL}
                 </div>
                 <div className="text-xl font-bold text-white font-mono">
-                    {stats.apiRequests}<span className="text-xs text-slate-400 ml-1">/hr</span>
+                    {formatRequestRate(getRequestsPerHour(metrics, now))}
+                    <span className="text-xs text-slate-400 ml-1">{PaymentDevToolsText.API_REQUESTS_UNIT}</span>
+                </div>
+                <div className="text-slate-500 text-xs font-mono truncate" title={topEndpoint?.[0]}>
+                    {topEndpoint
+                        ? PaymentDevToolsText.TOP_ENDPOINT(topEndpoint[0], topEndpoint[1])
+                        : PaymentDevToolsText.NO_REQUESTS_YET}
                 </div>
+                <Sparkline values={series.requests} colorClass="bg-blue-500/70" label={PaymentDevToolsText.API_REQUESTS_LABEL} />
             </div>
 
             {/* Error Rate */}
-            <div className="bg-[#0d1117] border border-slate-700/50 rounded-xl p-3">
-                <div className="text-slate-400 text-xs font-medium tracking-wider mb-0.5">
+            <div className="bg-[#0d1117] border border-slate-700/50 rounded-xl p-3 flex flex-col gap-1">
+                <div className="text-slate-400 text-xs font-medium tracking-wider">
                     {PaymentDevToolsText.ERROR_RATE_LABEL}
                 </div>
-                <div className="text-xl font-bold text-emerald-400 font-mono">
-                    {stats.errorRate}
+                <div className={`text-xl font-bold font-mono ${hasRequests ? getThresholdColor(errorRate, ERROR_RATE_THRESHOLDS) : 'text-slate-500'}`}>
+                    {hasRequests ? formatErrorRate(errorRate) : '-'}
+                </div>
+                <div className="text-slate-500 text-xs font-mono truncate">
+                    {topErrors.length > 0
+                        ? PaymentDevToolsText.ERRORS_BY_STATUS(formatStatusCounts(topErrors))
+                        : PaymentDevToolsText.NO_ERRORS}
+                </div>
+                <Sparkline values={series.errors} colorClass="bg-red-500/70" label={PaymentDevToolsText.ERROR_RATE_LABEL} />
+            </div>
+
+            {/* Token Refreshes */}
+            <div className="bg-[#0d1117] border border-slate-700/50 rounded-xl p-3 flex flex-col gap-1">
+                <div className="text-slate-400 text-xs font-medium tracking-wider">
+                    {PaymentDevToolsText.TOKEN_REFRESHES_LABEL}
+                </div>
+                <div className={`text-xl font-bold font-mono ${metrics.tokenRefreshFailures > 0 ? 'text-amber-400' : 'text-white'}`}>
+                    {metrics.tokenRefreshes}
+                </div>
+                <div className="text-slate-500 text-xs font-mono truncate">
+                    {PaymentDevToolsText.REFRESH_SUMMARY(metrics.tokenRefreshFailures, metrics.retriedRequests)}
                 </div>
             </div>
 
             {/* Region */}
-            <div className="bg-[#0d1117] border border-slate-700/50 rounded-xl p-3">
-                <div className="text-slate-400 text-xs font-medium tracking-wider mb-0.5">
+            <div className="bg-[#0d1117] border border-slate-700/50 rounded-xl p-3 flex flex-col gap-1">
+                <div className="text-slate-400 text-xs font-medium tracking-wider">
                     {PaymentDevToolsText.REGION_LABEL}
                 </div>
                 <div className="text-xl font-bold text-white font-mono tracking-wider">
-                    {stats.region}
+                    {DEVTOOLS_REGION}
                 </div>
+                <div className="text-slate-500 text-xs">{PaymentDevToolsText.REGION_SUBTITLE}</div>
             </div>
         </div>
     );
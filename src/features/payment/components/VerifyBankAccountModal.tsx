@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Alert, Button, DarkInput, Modal, ModalBody, ModalFooter, ModalHeader } from '../../../components/ui';
+import { verifyBankAccountSchema, type VerifyBankAccountFormData } from '../../../schemas';
+import { useVerifyPaymentMethodMutation } from '../services/paymentMethodApi';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import { PaymentMethodsText } from '../constants';
+import type { PaymentMethodResponse } from '../types';
+import { getPaymentMethodName } from '../utils';
+
+interface VerifyBankAccountModalProps {
+    /** Bank account being verified, or null when closed */
+    method: PaymentMethodResponse | null;
+    /** Callback when modal is closed */
+    onClose: () => void;
+}
+
+/**
+ * Modal for confirming a bank account with its two micro-deposit amounts
+ */
+export const VerifyBankAccountModal = ({ method, onClose }: VerifyBankAccountModalProps) => {
+    const [error, setError] = useState<string | null>(null);
+    const [verifyPaymentMethod, { isLoading }] = useVerifyPaymentMethodMutation();
+
+    const {
+        register,
+        handleSubmit,
+        reset,
+        formState: { errors },
+    } = useForm<VerifyBankAccountFormData>({
+        resolver: zodResolver(verifyBankAccountSchema),
+        mode: 'onBlur',
+        defaultValues: { firstAmount: '', secondAmount: '' },
+    });
+
+    /**
+     * Resets the form when the modal closes
+     */
+    const handleClose = () => {
+        reset();
+        setError(null);
+        onClose();
+    };
+
+    const onSubmit = async (data: VerifyBankAccountFormData) => {
+        if (!method) return;
+        setError(null);
+        try {
+            await verifyPaymentMethod({
+                paymentMethodId: method.id,
+                amounts: [Number(data.firstAmount), Number(data.secondAmount)],
+            }).unwrap();
+            handleClose();
+        } catch (err) {
+            setError(getApiErrorMessage(err, PaymentMethodsText.DEFAULT_ERROR));
+        }
+    };
+
+    return (
+        <Modal isOpen={method !== null} onClose={handleClose} maxWidth="sm">
+            <ModalHeader
+                icon="verified"
+                title={PaymentMethodsText.VERIFY_TITLE}
+                subtitle={method ? PaymentMethodsText.VERIFY_SUBTITLE(getPaymentMethodName(method)) : undefined}
+                onClose={handleClose}
+            />
+            <ModalBody>
+                {error && (
+                    <Alert
+                        variant="error"
+                        title={PaymentMethodsText.VERIFY_FAILED}
+                        message={error}
+                        onDismiss={() => setError(null)}
+                    />
+                )}
+                <form id="verify-bank-account-form" onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-2 gap-4">
+                    <DarkInput
+                        id="verify-first-amount"
+                        variant="modal"
+                        label={PaymentMethodsText.FIRST_AMOUNT_LABEL}
+                        placeholder={PaymentMethodsText.AMOUNT_PLACEHOLDER}
+                        inputMode="decimal"
+                        error={errors.firstAmount?.message}
+                        {...register('firstAmount')}
+                    />
+                    <DarkInput
+                        id="verify-second-amount"
+                        variant="modal"
+                        label={PaymentMethodsText.SECOND_AMOUNT_LABEL}
+                        placeholder={PaymentMethodsText.AMOUNT_PLACEHOLDER}
+                        inputMode="decimal"
+                        error={errors.secondAmount?.message}
+                        {...register('secondAmount')}
+                    />
+                </form>
+            </ModalBody>
+            <ModalFooter className="flex items-center justify-between gap-3">
+                <Button type="button" variant="ghost" onClick={handleClose}>
+                    {PaymentMethodsText.CANCEL}
+                </Button>
+                <Button type="submit" form="verify-bank-account-form" disabled={isLoading}>
+                    {isLoading ? PaymentMethodsText.VERIFYING : PaymentMethodsText.VERIFY_SUBMIT}
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+};
@@ -2,4 +2,11 @@ export { InitiatePaymentPanel } from './InitiatePaymentPanel';
 export { PaymentMethodsPanel } from './PaymentMethodsPanel';
 export { ProcessStatusPanel } from './ProcessStatusPanel';
 export { DebugPanel } from './DebugPanel';
+export { ReservationConsolePanel } from './ReservationConsolePanel';
+export { ScenarioRunnerModal } from './ScenarioRunnerModal';
 export { StatsBar } from './StatsBar';
+export { PaymentMethodListItem } from './PaymentMethodListItem';
+export { AddPaymentMethodModal } from './AddPaymentMethodModal';
+export { VerifyBankAccountModal } from './VerifyBankAccountModal';
+export { RemovePaymentMethodModal } from './RemovePaymentMethodModal';
+export { RefundPaymentModal } from './RefundPaymentModal';
@@ -1,4 +1,5 @@
-import type { MockPaymentMethod, DevToolsStats } from '../types';
+import { PaymentStatusEnum } from '../types';
+import type { MockPaymentMethod, MockTokenScenario } from '../types';
 
 // ============================================
 // Mock Provider Constants
@@ -65,15 +66,103 @@ export const DEFAULT_MOCK_PAYMENT_METHODS: MockPaymentMethod[] = [
 ];
 
 // ============================================
-// Default Stats
+// Mock Token Scenarios
 // ============================================
 
-export const DEFAULT_STATS: DevToolsStats = {
-    latency: 24,
-    apiRequests: '1.2k',
-    errorRate: '0.04%',
-    region: 'SG',
-};
+/**
+ * Every mock token with its expected outcome, in the order the scenario runner runs them
+ * Payment method IDs follow the mock provider's `mock_<token name>` convention
+ */
+export const MOCK_TOKEN_SCENARIOS: MockTokenScenario[] = [
+    {
+        token: MockTokens.VISA_SUCCESS,
+        paymentMethodId: 'mock_visa_success',
+        displayName: 'Visa (Success)',
+        expectedStatus: PaymentStatusEnum.SUCCESS,
+        expectedMessages: [],
+    },
+    {
+        token: MockTokens.CARD_DECLINED,
+        paymentMethodId: 'mock_card_declined',
+        displayName: 'Card Declined',
+        expectedStatus: PaymentStatusEnum.FAILED,
+        expectedMessages: [MockMessages.CARD_DECLINED, MockMessages.CARD_DECLINED_BY_BANK],
+    },
+    {
+        token: MockTokens.INSUFFICIENT_FUNDS,
+        paymentMethodId: 'mock_insufficient_funds',
+        displayName: 'Insufficient Funds',
+        expectedStatus: PaymentStatusEnum.FAILED,
+        expectedMessages: [MockMessages.INSUFFICIENT_FUNDS, MockMessages.INSUFFICIENT_FUNDS_SHORT],
+    },
+    {
+        token: MockTokens.EXPIRED_CARD,
+        paymentMethodId: 'mock_expired_card',
+        displayName: 'Expired Card',
+        expectedStatus: PaymentStatusEnum.FAILED,
+        expectedMessages: [MockMessages.CARD_EXPIRED],
+    },
+    {
+        token: MockTokens.INVALID_CARD,
+        paymentMethodId: 'mock_invalid_card',
+        displayName: 'Invalid Card',
+        expectedStatus: PaymentStatusEnum.FAILED,
+        expectedMessages: [MockMessages.INVALID_CARD],
+    },
+    {
+        token: MockTokens.FRAUD_SUSPECTED,
+        paymentMethodId: 'mock_fraud_suspected',
+        displayName: 'Fraud Suspected',
+        expectedStatus: PaymentStatusEnum.FAILED,
+        expectedMessages: [MockMessages.FRAUD_SUSPECTED],
+    },
+    {
+        token: MockTokens.NETWORK_ERROR,
+        paymentMethodId: 'mock_network_error',
+        displayName: 'Network Error',
+        expectedStatus: PaymentStatusEnum.FAILED,
+        expectedMessages: [MockMessages.NETWORK_TIMEOUT, MockMessages.NETWORK_TIMEOUT_SHORT],
+    },
+    {
+        token: MockTokens.PROVIDER_UNAVAILABLE,
+        paymentMethodId: 'mock_provider_unavailable',
+        displayName: 'Provider Unavailable',
+        expectedStatus: PaymentStatusEnum.FAILED,
+        expectedMessages: [MockMessages.PROVIDER_UNAVAILABLE, MockMessages.SERVICE_UNAVAILABLE],
+    },
+    {
+        token: MockTokens.RATE_LIMITED,
+        paymentMethodId: 'mock_rate_limited',
+        displayName: 'Rate Limited',
+        expectedStatus: PaymentStatusEnum.FAILED,
+        expectedMessages: [MockMessages.RATE_LIMITED],
+    },
+    {
+        token: MockTokens.SLOW_RESPONSE,
+        paymentMethodId: 'mock_slow_response',
+        displayName: 'Slow Response',
+        expectedStatus: PaymentStatusEnum.SUCCESS,
+        expectedMessages: [],
+    },
+    {
+        token: MockTokens.PENDING,
+        paymentMethodId: 'mock_pending',
+        displayName: 'Bank Transfer (Delayed)',
+        expectedStatus: PaymentStatusEnum.PENDING,
+        expectedMessages: [],
+    },
+];
+
+// ============================================
+// Stats
+// ============================================
+
+/** Region the sandbox API is served from */
+export const DEVTOOLS_REGION = 'SG';
+
+/** Latency (p50, ms) and error rate (%) at which the stats turn amber, then red */
+export const LATENCY_THRESHOLDS_MS = { WARNING: 300, CRITICAL: 1000 } as const;
+export const ERROR_RATE_THRESHOLDS = { WARNING: 1, CRITICAL: 5 } as const;
 
 // ============================================
 // UI Text Constants
@@ -87,6 +176,7 @@ export const PaymentDevToolsText = {
     // Panel 1
     PANEL1_TITLE: 'Initiate Payment',
     SOURCE_WALLET_LABEL: 'SOURCE WALLET',
+    NO_SGD_WALLETS: 'Payments are made in SGD. Add an SGD wallet to pay from.',
     AMOUNT_LABEL: 'AMOUNT',
     AMOUNT_PLACEHOLDER: '0.00',
     CURRENCY_LABEL: 'CURRENCY',
@@ -107,6 +197,7 @@ export const PaymentDevToolsText = {
     NO_SAVED_METHODS: 'No saved payment methods',
     DEFAULT_BADGE: 'DEFAULT',
     ADD_CUSTOM_PROVIDER: '+ Add Custom Mock Provider',
+    RUN_SCENARIOS_BUTTON: 'Run All',
     SUCCESS_MOCK: 'SUCCESS MOCK',
     ERROR_MOCK: 'ERROR MOCK',
     PENDING_MOCK: 'PENDING MOCK',
@@ -120,13 +211,79 @@ export const PaymentDevToolsText = {
     CURRENT_STATE: 'CURRENT STATE',
     OUTCOME_NOT_DETERMINED: 'Outcome not yet determined',
     AWAITING_PROVIDER_RESPONSE: 'Awaiting provider response...',
+    AWAITING_PROVIDER_RESPONSE_SINCE: (since: string) =>
+        since ? `Awaiting provider response since ${since}` : 'Awaiting provider response...',
     RAW_JSON_TITLE: 'RAW PAYMENT STATE (JSON)',
     NO_PAYMENT_STATE: 'No payment state available',
     CHECK_STATUS_BUTTON: 'CHECK STATUS',
     CHECKING_STATUS_BUTTON: 'Checking...',
     VOID_BUTTON: 'VOID',
+    VOIDING_BUTTON: 'Voiding...',
+    REFUND_BUTTON: 'REFUND',
+    STATUS_VOIDED: 'VOIDED',
+    REFUNDED_SO_FAR: (refunded: string, total: string, currency: string) => `Refunded ${refunded} of ${total} ${currency}`,
+
+    // Refund modal
+    REFUND_TITLE: 'Refund Payment',
+    REFUND_SUBTITLE: (paymentId: string) => `PID: ${paymentId}`,
+    REFUND_AMOUNT_LABEL: 'Refund amount',
+    REFUNDABLE_HINT: (amount: string, currency: string) => `Up to ${amount} ${currency} can still be refunded`,
+    REFUND_FULL_AMOUNT: 'Refund Full Amount',
+    REFUND_SUBMIT: 'Issue Refund',
+    REFUNDING: 'Refunding...',
+    REFUND_CANCEL: 'Cancel',
+    REFUND_FAILED: 'Refund failed',
+    REFUND_DEFAULT_ERROR: 'The refund could not be issued. Please try again.',
     COPY_JSON_LABEL: 'Copy JSON',
 
+    // Panel 5
+    PANEL5_TITLE: 'Reservation Console',
+    HOLD_WALLET_LABEL: 'WALLET',
+    HOLD_AMOUNT_LABEL: 'HOLD AMOUNT',
+    HOLD_REFERENCE_LABEL: 'PAYMENT REFERENCE',
+    REFRESH_HOLD_REFERENCE_LABEL: 'Refresh payment reference',
+    PLACE_HOLD_BUTTON: 'Place Hold',
+    PLACING_HOLD_BUTTON: 'Placing...',
+    ACTIVE_HOLDS_LABEL: 'ACTIVE HOLDS',
+    LOADING_HOLDS: 'Loading holds...',
+    NO_ACTIVE_HOLDS: 'No active holds on this wallet',
+    HOLD_AGE: (age: string) => `held ${age}`,
+    CONFIRM_HOLD_BUTTON: 'Confirm',
+    CANCEL_HOLD_BUTTON: 'Cancel',
+    PROVIDER_TRANSACTION_ID_LABEL: 'PROVIDER TRANSACTION ID',
+    SUBMIT_CONFIRM_HOLD_BUTTON: 'Capture',
+    BACK_BUTTON: 'Back',
+    REMAINING_BALANCE_LABEL: 'REMAINING BALANCE',
+    REMAINING_BALANCE_AFTER: (step: string) => `after ${step}`,
+    STEP_RESERVE: 'reserve',
+    STEP_CONFIRM: 'confirm',
+    STEP_CANCEL: 'cancel',
+    HOLD_AMOUNT_INVALID: 'Enter an amount greater than 0',
+    HOLD_AMOUNT_EXCEEDS_BALANCE: 'Amount exceeds the available balance',
+
+    // Scenario runner
+    SCENARIOS_TITLE: 'Mock Token Scenarios',
+    SCENARIOS_SUBTITLE: (amount: string, currency: string) =>
+        `Runs initiate → process → status for every mock token with ${amount} ${currency} from the source wallet`,
+    SCENARIOS_COLUMN_TOKEN: 'TOKEN',
+    SCENARIOS_COLUMN_EXPECTED: 'EXPECTED',
+    SCENARIOS_COLUMN_ACTUAL: 'ACTUAL',
+    SCENARIOS_COLUMN_MESSAGE: 'MESSAGE',
+    SCENARIOS_COLUMN_TIME: 'TIME',
+    SCENARIOS_COLUMN_RESULT: 'RESULT',
+    SCENARIO_NOT_RUN: 'Not run',
+    SCENARIO_RUNNING: 'Running...',
+    SCENARIO_PASS: 'PASS',
+    SCENARIO_FAIL: 'FAIL',
+    SCENARIO_ANY_MESSAGE: 'any message',
+    SCENARIOS_SUMMARY: (passed: number, failed: number, total: number) => `${passed} passed, ${failed} failed of ${total}`,
+    SCENARIOS_NO_WALLET: 'Select a source wallet in Initiate Payment to run scenarios',
+    RUN_SCENARIOS_SUBMIT: 'Run Scenarios',
+    RERUN_SCENARIOS: 'Run Again',
+    STOP_SCENARIOS: 'Stop',
+    STOPPING_SCENARIOS: 'Stopping...',
+    EXPORT_SCENARIOS_REPORT: 'Export JSON',
+
     // Panel 4
     PANEL4_TITLE: 'Debug Panel',
     LIVE_LOGS: 'Live Logs',
@@ -140,6 +297,14 @@ export const PaymentDevToolsText = {
     API_REQUESTS_UNIT: '/hr',
     ERROR_RATE_LABEL: 'ERROR RATE',
     REGION_LABEL: 'REGION',
+    TOKEN_REFRESHES_LABEL: 'TOKEN REFRESHES',
+    NO_REQUESTS_YET: 'No requests yet',
+    LATENCY_PERCENTILES: (p95: string, p99: string) => `p95 ${p95} · p99 ${p99}`,
+    TOP_ENDPOINT: (endpoint: string, count: number) => `Top: ${endpoint} ×${count}`,
+    ERRORS_BY_STATUS: (statuses: string) => `Errors: ${statuses}`,
+    NO_ERRORS: 'No failed requests',
+    REFRESH_SUMMARY: (failed: number, retried: number) => `${failed} failed · ${retried} retried`,
+    REGION_SUBTITLE: 'Sandbox',
 
     // Loading states
     LOADING_WALLETS: 'Loading wallets...',
@@ -152,23 +317,146 @@ export const PaymentDevToolsText = {
     LOG_PAYMENT_FAILED: 'Payment failed',
     LOG_PAYMENT_DECLINED: 'Payment was declined',
     LOG_PAYMENT_VOIDED: (paymentId: string) => `Payment ${paymentId} voided`,
+    LOG_VOIDING_PAYMENT: 'Voiding payment and releasing the wallet reservation',
+    LOG_FAILED_TO_VOID: 'Failed to void payment',
+    LOG_PAYMENT_REFUNDED: 'Payment refunded in full',
+    LOG_PAYMENT_PARTIALLY_REFUNDED: 'Payment partially refunded',
+    LOG_FAILED_TO_REFUND: 'Failed to refund payment',
+    LOG_PLACING_HOLD: (amount: string, currency: string) => `Placing a hold of ${amount} ${currency}`,
+    LOG_HOLD_PLACED: (holdId: string) => `Hold placed [${holdId}]`,
+    LOG_CONFIRMING_HOLD: (providerTransactionId: string) => `Capturing hold with provider transaction ${providerTransactionId}`,
+    LOG_HOLD_CONFIRMED: (holdId: string) => `Hold captured [${holdId}]`,
+    LOG_CANCELLING_HOLD: 'Releasing held funds',
+    LOG_HOLD_CANCELLED: (holdId: string) => `Hold released [${holdId}]`,
+    LOG_FAILED_TO_PLACE_HOLD: 'Failed to place hold',
+    LOG_FAILED_TO_CONFIRM_HOLD: 'Failed to confirm hold',
+    LOG_FAILED_TO_CANCEL_HOLD: 'Failed to cancel hold',
     LOG_STATUS_QUERIED: (status: string) => `Status queried: ${status}`,
+    LOG_STALE_STATUS_IGNORED: (paymentId: string) => `Ignored late status for earlier payment ${paymentId}`,
+    LOG_MANUAL_STATUS_CHECK: 'Manual status check',
+    LOG_AUTO_STATUS_CHECK: (attempt: number, maxAttempts: number) => `Automatic status check ${attempt}/${maxAttempts}`,
+    LOG_NEXT_POLL: (seconds: number) => `Payment still pending, checking again in ${seconds}s`,
+    LOG_POLLING_STOPPED: (attempts: number) => `Stopped polling after ${attempts} checks`,
+    LOG_POLLING_STOPPED_DETAILS: 'Use CHECK STATUS to query the provider again',
+    LOG_FAILED_TO_CHECK_STATUS: 'Failed to check payment status',
     LOG_PROCESSING_WITH_METHOD: (methodId: string) => `Processing with payment method: ${methodId.substring(0, 20)}...`,
     LOG_FAILED_TO_INITIATE: 'Failed to initiate payment',
     LOG_FAILED_TO_PROCESS: 'Failed to process payment',
+    LOG_SCENARIO_STARTED: (token: string) => `Scenario ${token} started`,
+    LOG_SCENARIO_PASSED: (token: string) => `Scenario ${token} passed`,
+    LOG_SCENARIO_FAILED: (token: string) => `Scenario ${token} failed`,
+    LOG_SCENARIO_RUN_FINISHED: (passed: number, total: number) => `Scenario run finished: ${passed}/${total} passed`,
+    LOG_DETAIL_EXPECTED: 'Expected:',
+    LOG_DETAIL_ACTUAL: 'Actual:',
+    LOG_DETAIL_MESSAGE: 'Message:',
+    SCENARIO_ERROR_INITIATE: (message: string) => `Initiate failed: ${message}`,
+    SCENARIO_ERROR_STATUS: (message: string) => `Status check failed: ${message}`,
 
     // Debug log detail labels
     LOG_DETAIL_AMOUNT: 'Amount:',
     LOG_DETAIL_STATUS: 'Status:',
     LOG_DETAIL_NEW_BALANCE: 'New Balance:',
+    LOG_DETAIL_UPDATED_AT: 'Updated:',
+    LOG_DETAIL_REFUNDED: 'Refunded:',
+    LOG_DETAIL_REFUNDABLE: 'Still Refundable:',
+    LOG_DETAIL_REMAINING_BALANCE: 'Remaining Balance:',
 
     // API endpoints (for debug logging)
     API_PAYMENT_ENDPOINT: '/v1/payment',
-    API_STATUS_ENDPOINT: '/v1/STATUS',
-    API_VOID_ENDPOINT: '/v1/void',
+    API_STATUS_ENDPOINT: (paymentId: string) => `/v1/payment/${paymentId}/status`,
+    API_STATUS_FAILED_ENDPOINT: (paymentId: string) => `/v1/payment/${paymentId}/status - FAILED`,
+    API_VOID_ENDPOINT: (paymentId: string) => `/v1/payment/${paymentId}/void`,
+    API_VOID_FAILED_ENDPOINT: (paymentId: string) => `/v1/payment/${paymentId}/void - FAILED`,
+    API_REFUND_ENDPOINT: (paymentId: string) => `/v1/payment/${paymentId}/refund`,
+    API_REFUND_FAILED_ENDPOINT: (paymentId: string) => `/v1/payment/${paymentId}/refund - FAILED`,
+    API_RESERVE_ENDPOINT: (walletId: string) => `/v1/wallet/${walletId}/reserve`,
+    API_CONFIRM_RESERVATION_ENDPOINT: (walletId: string) => `/v1/wallet/${walletId}/confirm`,
+    API_CANCEL_RESERVATION_ENDPOINT: (walletId: string) => `/v1/wallet/${walletId}/cancel`,
     API_PROCESS_ENDPOINT: (paymentId: string) => `/v1/payment/${paymentId}/process`,
     API_PROCESS_FAILED_ENDPOINT: (paymentId: string) => `/v1/payment/${paymentId}/process - FAILED`,
 
     // Request ID prefix
     REQUEST_ID_PREFIX: 'req_live_',
+    HOLD_REFERENCE_PREFIX: 'pay_hold_',
+} as const;
+
+// ============================================
+// Payment Methods Page Text
+// ============================================
+
+export const PaymentMethodsText = {
+    PAGE_TITLE: 'Cards & Bank Accounts',
+    PAGE_DESCRIPTION: 'Manage the cards and bank accounts you use to top up your wallets.',
+    ADD_METHOD_BUTTON: 'Add Payment Method',
+    DEFAULT_ERROR: 'Something went wrong. Please try again.',
+    TOKENIZE_FAILED: 'Your payment details could not be verified. Check them and try again.',
+    LOAD_ERROR: 'Could not load your payment methods.',
+    RETRY: 'Retry',
+
+    // Sections
+    CARDS_SECTION: 'Cards',
+    BANK_ACCOUNTS_SECTION: 'Bank Accounts',
+    NO_CARDS: 'No cards saved yet.',
+    NO_BANK_ACCOUNTS: 'No bank accounts saved yet.',
+
+    // List item
+    DEFAULT_BADGE: 'Default',
+    CARD_NAME: (brand: string | null, last4: string) => `${brand || 'Card'} •••• ${last4}`,
+    BANK_NAME: (bankName: string | null, last4: string) => `${bankName || 'Bank account'} •••• ${last4}`,
+    EXPIRES: (expiry: string) => `Expires ${expiry}`,
+    EXPIRED: (expiry: string) => `Expired ${expiry}`,
+    EXPIRED_WARNING: 'This card has expired. Add a new card to keep topping up.',
+    EXPIRING_SOON_WARNING: 'This card expires soon. Add a replacement before it stops working.',
+    PENDING_VERIFICATION: 'Pending verification',
+    SET_DEFAULT: 'Set as default',
+    VERIFY: 'Verify',
+    REMOVE: 'Remove',
+
+    // Add modal
+    ADD_TITLE: 'Add Payment Method',
+    ADD_SUBTITLE: 'Details are tokenized by our payment provider and never stored by ApexPay.',
+    CARD_TAB: 'Card',
+    BANK_TAB: 'Bank Account',
+    CARDHOLDER_NAME_LABEL: 'Cardholder Name',
+    CARDHOLDER_NAME_PLACEHOLDER: 'Jane Tan',
+    CARD_NUMBER_LABEL: 'Card Number',
+    CARD_NUMBER_PLACEHOLDER: '4242 4242 4242 4242',
+    EXPIRY_LABEL: 'Expiry',
+    EXPIRY_PLACEHOLDER: 'MM/YY',
+    CVC_LABEL: 'CVC',
+    CVC_PLACEHOLDER: '123',
+    ACCOUNT_HOLDER_LABEL: 'Account Holder Name',
+    ACCOUNT_HOLDER_PLACEHOLDER: 'Jane Tan',
+    BANK_NAME_LABEL: 'Bank Name',
+    BANK_NAME_PLACEHOLDER: 'DBS Bank',
+    ACCOUNT_NUMBER_LABEL: 'Account Number',
+    ACCOUNT_NUMBER_PLACEHOLDER: '123-456789-0',
+    ACCOUNT_TYPE_LABEL: 'Account Type',
+    NICKNAME_LABEL: 'Nickname (optional)',
+    NICKNAME_PLACEHOLDER: 'e.g. Travel card',
+    SET_AS_DEFAULT_LABEL: 'Make this my default payment method',
+    BANK_VERIFICATION_NOTE: 'We will send two small deposits to this account within 1-2 business days to verify it.',
+    CANCEL: 'Cancel',
+    ADD_SUBMIT: 'Add Method',
+    ADDING: 'Adding...',
+    ADD_FAILED: 'Could not add payment method',
+
+    // Verify modal
+    VERIFY_TITLE: 'Verify Bank Account',
+    VERIFY_SUBTITLE: (name: string) => `Enter the two deposit amounts sent to ${name}.`,
+    FIRST_AMOUNT_LABEL: 'First Deposit',
+    SECOND_AMOUNT_LABEL: 'Second Deposit',
+    AMOUNT_PLACEHOLDER: '0.00',
+    VERIFY_SUBMIT: 'Verify Account',
+    VERIFYING: 'Verifying...',
+    VERIFY_FAILED: 'Verification failed',
+
+    // Remove confirmation
+    REMOVE_TITLE: 'Remove Payment Method',
+    REMOVE_MESSAGE: (name: string) => `Remove ${name}? You will need to add it again to use it for top-ups.`,
+    REMOVE_DEFAULT_NOTE: 'This is your default payment method. Your most recently used method will become the new default.',
+    REMOVE_CONFIRM: 'Remove',
+    REMOVING: 'Removing...',
+    REMOVE_FAILED: 'Could not remove payment method',
+    SET_DEFAULT_FAILED: 'Could not change default payment method',
 } as const;
@@ -0,0 +1,154 @@
+import { useCallback, useRef, useState } from 'react';
+import {
+    useInitiatePaymentMutation,
+    useProcessPaymentMutation,
+    useLazyCheckPaymentStatusQuery,
+} from '../services/paymentApi';
+import { MOCK_TOKEN_SCENARIOS, PaymentDevToolsText } from '../constants';
+import { evaluateScenario, summarizeScenarioRun, type ScenarioRunInfo } from '../utils';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import { toDecimalString, toMajorUnits, type Money } from '../../../utils/money';
+import type { CurrencyEnum } from '../../wallet/types';
+import type { DebugLogEntry, MockTokenScenario, PaymentResponse, ScenarioOutcome, ScenarioResult } from '../types';
+
+interface ScenarioRunnerOptions {
+    /** Wallet each scenario's payment is charged to */
+    walletId: string;
+    /** Amount of each payment */
+    amount: Money;
+    /** Adds an entry to the Debug Panel */
+    onLog: (log: Omit<DebugLogEntry, 'id' | 'timestamp'>) => void;
+}
+
+/**
+ * Runs every mock token through initiate → process → status, one scenario at a time
+ * so tokens such as rate limiting cannot affect the scenarios after them
+ * @returns Run trigger, results so far and run state
+ */
+export const useScenarioRunner = ({ walletId, amount, onLog }: ScenarioRunnerOptions) => {
+    const [initiatePayment] = useInitiatePaymentMutation();
+    const [processPayment] = useProcessPaymentMutation();
+    const [checkPaymentStatus] = useLazyCheckPaymentStatusQuery();
+
+    const [results, setResults] = useState<ScenarioResult[]>([]);
+    const [runningToken, setRunningToken] = useState<string | null>(null);
+    const [isStopping, setIsStopping] = useState(false);
+    const [runInfo, setRunInfo] = useState<ScenarioRunInfo | null>(null);
+    const stopRequestedRef = useRef(false);
+
+    /**
+     * Runs one scenario to the end, or until a request it cannot continue without fails
+     * @param scenario - Token and expected outcome
+     * @returns What the API returned
+     */
+    const runScenario = useCallback(async (scenario: MockTokenScenario): Promise<ScenarioOutcome> => {
+        let paymentId: string;
+        try {
+            const initiated = await initiatePayment({
+                amount: toMajorUnits(amount),
+                walletId,
+                currency: amount.currency as CurrencyEnum,
+                clientRequestId: `${PaymentDevToolsText.REQUEST_ID_PREFIX}${Math.random().toString(36).substring(2, 15)}`,
+            }).unwrap();
+            paymentId = initiated.paymentId;
+        } catch (err) {
+            const message = getApiErrorMessage(err, PaymentDevToolsText.LOG_FAILED_TO_INITIATE);
+            return { paymentId: null, status: null, message: null, error: PaymentDevToolsText.SCENARIO_ERROR_INITIATE(message) };
+        }
+
+        // Some providers reject declines outright; the status check still reports the outcome
+        let processed: PaymentResponse | null = null;
+        let processError: string | null = null;
+        try {
+            processed = await processPayment({ paymentId, paymentMethodId: scenario.paymentMethodId }).unwrap();
+        } catch (err) {
+            processError = getApiErrorMessage(err, PaymentDevToolsText.LOG_FAILED_TO_PROCESS);
+        }
+
+        try {
+            const checked = await checkPaymentStatus(paymentId).unwrap();
+            return {
+                paymentId,
+                status: checked.status,
+                message: checked.message || processed?.message || processError,
+                error: null,
+            };
+        } catch (err) {
+            const message = getApiErrorMessage(err, PaymentDevToolsText.LOG_FAILED_TO_CHECK_STATUS);
+            return {
+                paymentId,
+                status: processed?.status ?? null,
+                message: processed?.message ?? processError,
+                error: PaymentDevToolsText.SCENARIO_ERROR_STATUS(message),
+            };
+        }
+    }, [initiatePayment, processPayment, checkPaymentStatus, walletId, amount]);
+
+    /**
+     * Runs every scenario in order, replacing the previous run's results
+     */
+    const run = useCallback(async () => {
+        stopRequestedRef.current = false;
+        setIsStopping(false);
+        setResults([]);
+        setRunInfo(null);
+
+        const startedAt = new Date().toISOString();
+        const completed: ScenarioResult[] = [];
+
+        for (const scenario of MOCK_TOKEN_SCENARIOS) {
+            if (stopRequestedRef.current) break;
+            setRunningToken(scenario.token);
+            onLog({
+                type: 'POST',
+                title: PaymentDevToolsText.LOG_SCENARIO_STARTED(scenario.token),
+                details: PaymentDevToolsText.LOG_PROCESSING_WITH_METHOD(scenario.paymentMethodId),
+            });
+
+            const start = Date.now();
+            const outcome = await runScenario(scenario);
+            const result = evaluateScenario(scenario, outcome, Date.now() - start);
+            completed.push(result);
+            setResults([...completed]);
+
+            onLog({
+                type: result.passed ? 'WALLET_CONFIRM' : 'WEBHOOK_SENT',
+                title: result.passed
+                    ? PaymentDevToolsText.LOG_SCENARIO_PASSED(scenario.token)
+                    : PaymentDevToolsText.LOG_SCENARIO_FAILED(scenario.token),
+                details: result.error ?? undefined,
+                subDetails: [
+                    { label: PaymentDevToolsText.LOG_DETAIL_EXPECTED, value: result.expectedStatus },
+                    { label: PaymentDevToolsText.LOG_DETAIL_ACTUAL, value: result.status ?? '-', status: result.status?.toLowerCase() },
+                    { label: PaymentDevToolsText.LOG_DETAIL_MESSAGE, value: result.message ?? '-' },
+                ],
+            });
+        }
+
+        const summary = summarizeScenarioRun(completed);
+        onLog({
+            type: 'RETRY_POLICY',
+            title: PaymentDevToolsText.LOG_SCENARIO_RUN_FINISHED(summary.passed, summary.total),
+        });
+
+        setRunInfo({
+            startedAt,
+            finishedAt: new Date().toISOString(),
+            walletId,
+            amount: toDecimalString(amount),
+            currency: amount.currency,
+        });
+        setRunningToken(null);
+        setIsStopping(false);
+    }, [runScenario, onLog, walletId, amount]);
+
+    /**
+     * Stops the run after the scenario in progress finishes
+     */
+    const stop = useCallback(() => {
+        stopRequestedRef.current = true;
+        setIsStopping(true);
+    }, []);
+
+    return { run, stop, results, runInfo, runningToken, isRunning: runningToken !== null, isStopping };
+};
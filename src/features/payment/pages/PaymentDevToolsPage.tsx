@@ -1,18 +1,39 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { InitiatePaymentPanel } from '../components/InitiatePaymentPanel';
 import { PaymentMethodsPanel } from '../components/PaymentMethodsPanel';
 import { ProcessStatusPanel } from '../components/ProcessStatusPanel';
 import { DebugPanel } from '../components/DebugPanel';
+import { RefundPaymentModal } from '../components/RefundPaymentModal';
+import { ReservationConsolePanel } from '../components/ReservationConsolePanel';
+import { ScenarioRunnerModal } from '../components/ScenarioRunnerModal';
 import { StatsBar } from '../components/StatsBar';
 import { Sidebar } from '../../wallet/components/Sidebar';
 import { MobileHeader } from '../../wallet/components/MobileHeader';
 import { useGetWalletQuery } from '../../wallet/services/walletApi';
-import { useInitiatePaymentMutation, useProcessPaymentMutation } from '../services/paymentApi';
+import {
+    useInitiatePaymentMutation,
+    useProcessPaymentMutation,
+    useLazyCheckPaymentStatusQuery,
+    useVoidPaymentMutation,
+} from '../services/paymentApi';
 import { useGetPaymentMethodsQuery } from '../services/paymentMethodApi';
 import { DEFAULT_MOCK_PAYMENT_METHODS, PaymentDevToolsText } from '../constants';
 import { CurrencyEnum } from '../../wallet/types';
+import { addMoney, subtractMoney, toDecimalString, toMajorUnits, toMoney, type Money } from '../../../utils/money';
+import { getApiErrorMessage } from '../../../utils/apiError';
 import { PaymentStatusEnum } from '../types';
-import type { PaymentStatusEnum as PaymentStatusEnumType, PaymentState, DebugLogEntry } from '../types';
+import type { PaymentStatusEnum as PaymentStatusEnumType, PaymentState, PaymentTimeline, RefundPaymentResponse, DebugLogEntry } from '../types';
+import {
+    EMPTY_PAYMENT_TIMELINE,
+    PAYMENT_POLL_MAX_ATTEMPTS,
+    canRefundPayment,
+    canVoidPayment,
+    formatTimelineTimestamp,
+    getRefundableAmount,
+    getPaymentPollDelay,
+    isTerminalPaymentStatus,
+    updatePaymentTimeline,
+} from '../utils';
 
 /**
  * Generates a random request ID for idempotency
@@ -27,13 +48,6 @@ const getTimestamp = () => {
     return `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}:${now.getSeconds().toString().padStart(2, '0')}.${now.getMilliseconds().toString().padStart(2, '0').substring(0, 2)}`;
 };
 
-/**
- * Gets current datetime in ISO format for display
- */
-const getISODateTime = () => {
-    return new Date().toISOString().replace('T', ' ').substring(0, 19) + ' UTC';
-};
-
 /**
  * Payment DevTools Page - Payment testing interface
  */
@@ -42,6 +56,11 @@ export const PaymentDevToolsPage = () => {
 
     // Fetch user's wallets from API
     const { data: wallets = [], isLoading: isLoadingWallets } = useGetWalletQuery();
+    // Payments here are made in SGD, so only SGD wallets can pay; balance math then stays in one currency
+    const paymentWallets = useMemo(
+        () => wallets.filter((wallet) => wallet.currency === CurrencyEnum.SGD),
+        [wallets]
+    );
 
     // Initiate payment mutation
     const [initiatePayment, { isLoading: isInitiating }] = useInitiatePaymentMutation();
@@ -49,6 +68,12 @@ export const PaymentDevToolsPage = () => {
     // Process payment mutation
     const [processPayment, { isLoading: isProcessingPayment }] = useProcessPaymentMutation();
 
+    // Status check query, triggered by CHECK STATUS and by polling
+    const [checkPaymentStatus, { isFetching: isCheckingStatus }] = useLazyCheckPaymentStatusQuery();
+
+    // Void mutation (refunds are sent from RefundPaymentModal)
+    const [voidPayment, { isLoading: isVoiding }] = useVoidPaymentMutation();
+
     // Fetch real payment methods
     const { data: realPaymentMethods = [], isLoading: isLoadingPaymentMethods } = useGetPaymentMethodsQuery();
 
@@ -59,10 +84,10 @@ export const PaymentDevToolsPage = () => {
 
     // Set default selected wallet when wallets are loaded
     useEffect(() => {
-        if (wallets.length > 0 && !selectedWalletId) {
-            setSelectedWalletId(wallets[0].walletId);
+        if (paymentWallets.length > 0 && !selectedWalletId) {
+            setSelectedWalletId(paymentWallets[0].walletId);
         }
-    }, [wallets, selectedWalletId]);
+    }, [paymentWallets, selectedWalletId]);
 
     // Panel 2 state - default to first real payment method if available, otherwise first mock
     const [selectedMethodId, setSelectedMethodId] = useState<string>('');
@@ -81,13 +106,21 @@ export const PaymentDevToolsPage = () => {
 
     // Panel 3 state
     const [paymentId, setPaymentId] = useState<string | null>(null);
+    // Payment shown now, read when a status check returns so a late answer for an earlier payment is dropped
+    const paymentIdRef = useRef<string | null>(null);
     const [status, setStatus] = useState<PaymentStatusEnumType | null>(null);
     const [paymentState, setPaymentState] = useState<PaymentState | null>(null);
-    const [initiatedAt, setInitiatedAt] = useState<string | null>(null);
+    const [timeline, setTimeline] = useState<PaymentTimeline>(EMPTY_PAYMENT_TIMELINE);
+    const [paymentAmount, setPaymentAmount] = useState<Money | null>(null);
+    // Total refunded so far in major units, as reported by the backend
+    const [refundedAmount, setRefundedAmount] = useState(0);
+    const [isRefundOpen, setIsRefundOpen] = useState(false);
+    const [isScenarioRunnerOpen, setIsScenarioRunnerOpen] = useState(false);
 
     // Processing states
     const [isPaymentInitiated, setIsPaymentInitiated] = useState(false);
-    const [isCheckingStatus, setIsCheckingStatus] = useState(false);
+    // Automatic checks made so far while polling a pending payment; null when not polling
+    const [pollAttempt, setPollAttempt] = useState<number | null>(null);
 
     // Debug logs
     const [logs, setLogs] = useState<DebugLogEntry[]>([]);
@@ -100,18 +133,51 @@ export const PaymentDevToolsPage = () => {
         setLogs(prev => [...prev, { ...log, id: `log_${Date.now()}_${Math.random()}` }]);
     }, []);
 
+    /**
+     * Adds a log entry from a panel that does its own API calls, stamped with the current time
+     */
+    const addPanelLog = useCallback((log: Omit<DebugLogEntry, 'id' | 'timestamp'>) => {
+        addLog({ ...log, timestamp: getTimestamp() });
+    }, [addLog]);
+
+    /**
+     * Schedules the next automatic status check of a pending payment, waiting longer after
+     * each one, and gives up after PAYMENT_POLL_MAX_ATTEMPTS checks
+     * @param attempt - Automatic checks made so far
+     */
+    const scheduleNextPoll = useCallback((attempt: number) => {
+        if (attempt >= PAYMENT_POLL_MAX_ATTEMPTS) {
+            addLog({
+                timestamp: getTimestamp(),
+                type: 'RETRY_POLICY',
+                title: PaymentDevToolsText.LOG_POLLING_STOPPED(attempt),
+                details: PaymentDevToolsText.LOG_POLLING_STOPPED_DETAILS,
+            });
+            setPollAttempt(null);
+            return;
+        }
+
+        addLog({
+            timestamp: getTimestamp(),
+            type: 'RETRY_POLICY',
+            title: PaymentDevToolsText.LOG_NEXT_POLL(getPaymentPollDelay(attempt) / 1000),
+        });
+        setPollAttempt(attempt);
+    }, [addLog]);
+
     /**
      * Handles creating a payment intent via API
      */
     const handleCreateIntent = useCallback(async () => {
-        const amountNum = parseFloat(amount) || 0;
+        const amountMoney = toMoney(parseFloat(amount) || 0, CurrencyEnum.SGD);
+        const amountNum = toMajorUnits(amountMoney);
 
         // Log the API request
         addLog({
             timestamp: getTimestamp(),
             type: 'POST',
             title: PaymentDevToolsText.API_PAYMENT_ENDPOINT,
-            details: PaymentDevToolsText.LOG_INITIATING_PAYMENT(amountNum.toFixed(2), PaymentDevToolsText.CURRENCY_SGD),
+            details: PaymentDevToolsText.LOG_INITIATING_PAYMENT(toDecimalString(amountMoney), PaymentDevToolsText.CURRENCY_SGD),
         });
 
         try {
@@ -128,20 +194,24 @@ export const PaymentDevToolsPage = () => {
                 type: 'WALLET_RESERVE',
                 title: PaymentDevToolsText.LOG_PAYMENT_INITIATED(response.paymentId),
                 subDetails: [
-                    { label: PaymentDevToolsText.LOG_DETAIL_AMOUNT, value: `${amountNum.toFixed(2)}` },
+                    { label: PaymentDevToolsText.LOG_DETAIL_AMOUNT, value: toDecimalString(amountMoney) },
                     { label: PaymentDevToolsText.LOG_DETAIL_STATUS, value: PaymentDevToolsText.STATUS_INITIATED, status: 'success' },
                 ],
             });
 
             // Update state with response data
+            paymentIdRef.current = response.paymentId;
             setPaymentId(response.paymentId);
             setStatus(PaymentStatusEnum.INITIATED);
-            setInitiatedAt(getISODateTime());
+            setTimeline({ ...EMPTY_PAYMENT_TIMELINE, initiatedAt: new Date().toISOString() });
+            setPaymentAmount(amountMoney);
+            setRefundedAmount(0);
+            setPollAttempt(null);
             setIsPaymentInitiated(true);
             setPaymentState({
                 id: response.paymentId,
                 status: 'initiated',
-                amount: amountNum * 100,
+                amount: amountMoney.minor,
                 currency: PaymentDevToolsText.CURRENCY_SGD,
                 metadata: {
                     test_mode: false,
@@ -194,18 +264,19 @@ export const PaymentDevToolsPage = () => {
             console.log('[DEBUG] Are they equal?:', response.status === PaymentStatusEnum.SUCCESS);
 
             // Find selected wallet to calculate new balance
-            const selectedWallet = wallets.find(w => w.walletId === selectedWalletId);
-            const previousBalance = selectedWallet?.balance ?? 0;
+            const selectedWallet = paymentWallets.find(w => w.walletId === selectedWalletId);
+            const previousBalance = toMoney(selectedWallet?.balance ?? 0, selectedWallet?.currency ?? CurrencyEnum.SGD);
             // Use response amount if available, otherwise fall back to the input amount
-            const paymentAmount = response.amount ?? parseFloat(amount) ?? 0;
-            const newBalance = previousBalance - paymentAmount;
+            const chargedAmount = toMoney(response.amount ?? (parseFloat(amount) || 0), CurrencyEnum.SGD);
+            // Subtract in minor units to avoid float drift (e.g., 0.3 - 0.1)
+            const newBalance = subtractMoney(previousBalance, chargedAmount);
 
             console.log('[DEBUG] Wallet calculation:', {
                 selectedWallet,
                 previousBalance,
                 newBalance,
                 responseAmount: response.amount,
-                fallbackAmount: paymentAmount,
+                fallbackAmount: chargedAmount,
             });
 
             // Log based on response status
@@ -216,8 +287,8 @@ export const PaymentDevToolsPage = () => {
                     type: 'WALLET_CONFIRM',
                     title: PaymentDevToolsText.LOG_PAYMENT_COMPLETED,
                     subDetails: [
-                        { label: PaymentDevToolsText.LOG_DETAIL_AMOUNT, value: `${paymentAmount.toFixed(2)}`, isAmount: true },
-                        { label: PaymentDevToolsText.LOG_DETAIL_NEW_BALANCE, value: `${newBalance.toFixed(2)} ${PaymentDevToolsText.CURRENCY_SGD}` },
+                        { label: PaymentDevToolsText.LOG_DETAIL_AMOUNT, value: toDecimalString(chargedAmount), isAmount: true },
+                        { label: PaymentDevToolsText.LOG_DETAIL_NEW_BALANCE, value: `${toDecimalString(newBalance)} ${PaymentDevToolsText.CURRENCY_SGD}` },
                         { label: PaymentDevToolsText.LOG_DETAIL_STATUS, value: PaymentStatusEnum.SUCCESS, status: 'success' },
                     ],
                 });
@@ -244,6 +315,13 @@ export const PaymentDevToolsPage = () => {
             // Update state with response data
             console.log('[DEBUG] Updating state with status:', response.status);
             setStatus(response.status);
+            setTimeline(prev => updatePaymentTimeline(prev, response));
+            setPaymentAmount(chargedAmount);
+            if (response.status === PaymentStatusEnum.PENDING) {
+                scheduleNextPoll(0);
+            } else {
+                setPollAttempt(null);
+            }
             setPaymentState(prev => prev ? {
                 ...prev,
                 status: response.status.toLowerCase(),
@@ -264,38 +342,175 @@ export const PaymentDevToolsPage = () => {
                 status: 'failed',
             } : null);
         }
-    }, [paymentId, selectedMethodId, processPayment, addLog, wallets, selectedWalletId, amount]);
+    }, [paymentId, selectedMethodId, processPayment, addLog, paymentWallets, selectedWalletId, amount, scheduleNextPoll]);
+
+    /**
+     * Queries the provider for the payment's current status and records the result
+     * Automatic checks keep polling while the payment is pending, including after a failed request
+     * @param attempt - Number of this automatic check, or null for CHECK STATUS
+     */
+    const checkStatus = useCallback(async (attempt: number | null) => {
+        if (!paymentId) return;
+
+        addLog({
+            timestamp: getTimestamp(),
+            type: 'GET',
+            title: PaymentDevToolsText.API_STATUS_ENDPOINT(paymentId),
+            details: attempt === null
+                ? PaymentDevToolsText.LOG_MANUAL_STATUS_CHECK
+                : PaymentDevToolsText.LOG_AUTO_STATUS_CHECK(attempt, PAYMENT_POLL_MAX_ATTEMPTS),
+        });
+
+        try {
+            const response = await checkPaymentStatus(paymentId).unwrap();
+
+            // Another payment was started while this check was in flight
+            if (response.paymentId !== paymentIdRef.current) {
+                addLog({
+                    timestamp: getTimestamp(),
+                    type: 'GET',
+                    title: PaymentDevToolsText.LOG_STALE_STATUS_IGNORED(response.paymentId),
+                });
+                return;
+            }
+
+            addLog({
+                timestamp: getTimestamp(),
+                type: 'PROVIDER_MOCK',
+                title: PaymentDevToolsText.LOG_STATUS_QUERIED(response.status),
+                subDetails: [
+                    { label: PaymentDevToolsText.LOG_DETAIL_STATUS, value: response.status, status: response.status.toLowerCase() },
+                    { label: PaymentDevToolsText.LOG_DETAIL_UPDATED_AT, value: formatTimelineTimestamp(response.updatedAt) },
+                ],
+            });
+
+            setStatus(response.status);
+            setTimeline(prev => updatePaymentTimeline(prev, response));
+            setRefundedAmount(prev => response.refundedAmount ?? prev);
+            setPaymentState(prev => prev ? {
+                ...prev,
+                status: response.status.toLowerCase(),
+            } : null);
+
+            if (isTerminalPaymentStatus(response.status)) {
+                setPollAttempt(null);
+            } else if (attempt !== null) {
+                scheduleNextPoll(attempt);
+            }
+        } catch (error) {
+            console.error('Failed to check payment status:', error);
+            addLog({
+                timestamp: getTimestamp(),
+                type: 'GET',
+                title: PaymentDevToolsText.API_STATUS_FAILED_ENDPOINT(paymentId),
+                details: getApiErrorMessage(error, PaymentDevToolsText.LOG_FAILED_TO_CHECK_STATUS),
+            });
+            if (attempt !== null && paymentId === paymentIdRef.current) {
+                scheduleNextPoll(attempt);
+            }
+        }
+    }, [paymentId, checkPaymentStatus, addLog, scheduleNextPoll]);
+
+    // Poll pending payments, waiting longer before each check
+    useEffect(() => {
+        if (pollAttempt === null) return;
+        const timer = setTimeout(() => {
+            checkStatus(pollAttempt + 1);
+        }, getPaymentPollDelay(pollAttempt));
+        return () => clearTimeout(timer);
+    }, [pollAttempt, checkStatus]);
 
     /**
      * Handles checking payment status
      */
     const handleCheckStatus = useCallback(() => {
-        setIsCheckingStatus(true);
+        checkStatus(null);
+    }, [checkStatus]);
+
+    /**
+     * Handles voiding an unsettled payment via API, which releases the wallet reservation
+     */
+    const handleVoid = useCallback(async () => {
+        if (!paymentId) return;
 
         addLog({
             timestamp: getTimestamp(),
-            type: 'GET',
-            title: PaymentDevToolsText.API_STATUS_ENDPOINT,
-            details: PaymentDevToolsText.LOG_STATUS_QUERIED(String(status)),
+            type: 'POST',
+            title: PaymentDevToolsText.API_VOID_ENDPOINT(paymentId),
+            details: PaymentDevToolsText.LOG_VOIDING_PAYMENT,
         });
 
-        setTimeout(() => {
-            setIsCheckingStatus(false);
-        }, 500);
-    }, [status, addLog]);
+        try {
+            const response = await voidPayment(paymentId).unwrap();
+
+            addLog({
+                timestamp: getTimestamp(),
+                type: 'WALLET_CONFIRM',
+                title: PaymentDevToolsText.LOG_PAYMENT_VOIDED(paymentId),
+                subDetails: [
+                    { label: PaymentDevToolsText.LOG_DETAIL_STATUS, value: response.status, status: response.status.toLowerCase() },
+                ],
+            });
+
+            setPollAttempt(null);
+            setStatus(response.status);
+            setTimeline(prev => updatePaymentTimeline(prev, response));
+            setPaymentState(prev => prev ? { ...prev, status: response.status.toLowerCase() } : null);
+        } catch (error) {
+            console.error('Failed to void payment:', error);
+            addLog({
+                timestamp: getTimestamp(),
+                type: 'POST',
+                title: PaymentDevToolsText.API_VOID_FAILED_ENDPOINT(paymentId),
+                details: getApiErrorMessage(error, PaymentDevToolsText.LOG_FAILED_TO_VOID),
+            });
+        }
+    }, [paymentId, voidPayment, addLog]);
 
     /**
-     * Handles voiding the payment
+     * Records an accepted refund from RefundPaymentModal
+     * Backends that omit refundedAmount get the running total from the amounts refunded here;
+     * a replayed refund returned nothing new, so it is not added again
+     * @param response - Payment after the refund
+     * @param amount - Amount this refund returned
      */
-    const handleVoid = useCallback(() => {
-        setStatus(PaymentStatusEnum.REFUNDED);
-        setPaymentState(prev => prev ? { ...prev, status: 'refunded' } : null);
+    const handleRefunded = useCallback((response: RefundPaymentResponse, amount: Money) => {
+        if (!paymentId || !paymentAmount) return;
+        const refunded = response.refundedAmount ?? (response.replayed
+            ? refundedAmount
+            : toMajorUnits(addMoney(toMoney(refundedAmount, paymentAmount.currency), amount)));
+        const refundable = getRefundableAmount(toMajorUnits(paymentAmount), refunded, paymentAmount.currency);
+
+        addLog({
+            timestamp: getTimestamp(),
+            type: 'WALLET_CONFIRM',
+            title: response.status === PaymentStatusEnum.REFUNDED
+                ? PaymentDevToolsText.LOG_PAYMENT_REFUNDED
+                : PaymentDevToolsText.LOG_PAYMENT_PARTIALLY_REFUNDED,
+            details: PaymentDevToolsText.API_REFUND_ENDPOINT(paymentId),
+            subDetails: [
+                { label: PaymentDevToolsText.LOG_DETAIL_REFUNDED, value: toDecimalString(toMoney(refunded, paymentAmount.currency)), isAmount: true },
+                { label: PaymentDevToolsText.LOG_DETAIL_REFUNDABLE, value: `${toDecimalString(refundable)} ${refundable.currency}` },
+                { label: PaymentDevToolsText.LOG_DETAIL_STATUS, value: response.status, status: response.status.toLowerCase() },
+            ],
+        });
+
+        setRefundedAmount(refunded);
+        setStatus(response.status);
+        setPaymentState(prev => prev ? { ...prev, status: response.status.toLowerCase() } : null);
+    }, [paymentId, paymentAmount, refundedAmount, addLog]);
 
+    /**
+     * Logs a refund rejected by the backend
+     * @param message - Error message shown in the modal
+     */
+    const handleRefundFailed = useCallback((message: string) => {
+        if (!paymentId) return;
         addLog({
             timestamp: getTimestamp(),
             type: 'POST',
-            title: PaymentDevToolsText.API_VOID_ENDPOINT,
-            details: PaymentDevToolsText.LOG_PAYMENT_VOIDED(paymentId || ''),
+            title: PaymentDevToolsText.API_REFUND_FAILED_ENDPOINT(paymentId),
+            details: message || PaymentDevToolsText.LOG_FAILED_TO_REFUND,
         });
     }, [paymentId, addLog]);
 
@@ -306,6 +521,10 @@ export const PaymentDevToolsPage = () => {
         setClientRequestId(generateRequestId());
     }, []);
 
+    const refundable = paymentAmount
+        ? getRefundableAmount(toMajorUnits(paymentAmount), refundedAmount, paymentAmount.currency)
+        : null;
+
     // Show loading state while fetching wallets
     if (isLoadingWallets) {
         return (
@@ -339,7 +558,7 @@ export const PaymentDevToolsPage = () => {
                         {/* Left Column: Panel 1 & 2 */}
                         <div className="lg:col-span-3 flex flex-col gap-4 min-h-0">
                             <InitiatePaymentPanel
-                                wallets={wallets}
+                                wallets={paymentWallets}
                                 selectedWalletId={selectedWalletId}
                                 onWalletChange={setSelectedWalletId}
                                 amount={amount}
@@ -350,7 +569,7 @@ export const PaymentDevToolsPage = () => {
                                 onProcessPayment={handleProcessPayment}
                                 isPaymentInitiated={isPaymentInitiated}
                                 isProcessing={isProcessingPayment}
-                                isPaymentComplete={status === PaymentStatusEnum.SUCCESS || status === PaymentStatusEnum.FAILED || status === PaymentStatusEnum.REFUNDED}
+                                isPaymentComplete={isTerminalPaymentStatus(status)}
                                 isInitiating={isInitiating}
                             />
                             <PaymentMethodsPanel
@@ -358,20 +577,35 @@ export const PaymentDevToolsPage = () => {
                                 onMethodChange={setSelectedMethodId}
                                 realPaymentMethods={realPaymentMethods}
                                 isLoadingRealMethods={isLoadingPaymentMethods}
+                                onRunScenarios={() => setIsScenarioRunnerOpen(true)}
                             />
                         </div>
 
-                        {/* Middle Column: Panel 3 */}
-                        <div className="lg:col-span-5 min-h-0">
-                            <ProcessStatusPanel
-                                paymentId={paymentId}
-                                status={status}
-                                paymentState={paymentState}
-                                initiatedAt={initiatedAt}
-                                onCheckStatus={handleCheckStatus}
-                                onVoid={handleVoid}
-                                isCheckingStatus={isCheckingStatus}
-                            />
+                        {/* Middle Column: Panel 3 & 5 */}
+                        <div className="lg:col-span-5 flex flex-col gap-4 min-h-0 overflow-auto">
+                            <div className="flex-1 min-h-[420px]">
+                                <ProcessStatusPanel
+                                    paymentId={paymentId}
+                                    status={status}
+                                    paymentState={paymentState}
+                                    timeline={timeline}
+                                    refundSummary={paymentAmount && refundedAmount > 0
+                                        ? PaymentDevToolsText.REFUNDED_SO_FAR(
+                                            toDecimalString(toMoney(refundedAmount, paymentAmount.currency)),
+                                            toDecimalString(paymentAmount),
+                                            paymentAmount.currency
+                                        )
+                                        : undefined}
+                                    onCheckStatus={handleCheckStatus}
+                                    onVoid={handleVoid}
+                                    onRefund={() => setIsRefundOpen(true)}
+                                    isCheckingStatus={isCheckingStatus}
+                                    isVoiding={isVoiding}
+                                    canVoid={canVoidPayment(status)}
+                                    canRefund={refundable !== null && canRefundPayment(status, refundable)}
+                                />
+                            </div>
+                            <ReservationConsolePanel wallets={wallets} onLog={addPanelLog} />
                         </div>
 
                         {/* Right Column: Panel 4 */}
@@ -388,6 +622,25 @@ export const PaymentDevToolsPage = () => {
                     <StatsBar />
                 </div>
             </main>
+
+            <ScenarioRunnerModal
+                isOpen={isScenarioRunnerOpen}
+                walletId={selectedWalletId}
+                amount={toMoney(parseFloat(amount) || 0, CurrencyEnum.SGD)}
+                onClose={() => setIsScenarioRunnerOpen(false)}
+                onLog={addPanelLog}
+            />
+
+            {paymentId && refundable && (
+                <RefundPaymentModal
+                    isOpen={isRefundOpen}
+                    paymentId={paymentId}
+                    refundable={refundable}
+                    onClose={() => setIsRefundOpen(false)}
+                    onRefunded={handleRefunded}
+                    onFailed={handleRefundFailed}
+                />
+            )}
         </div>
     );
 };
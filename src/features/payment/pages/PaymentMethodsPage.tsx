@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { Sidebar, MobileHeader } from '../../wallet/components';
+import { Alert, Button, LoadingSkeleton } from '../../../components/ui';
+import {
+    AddPaymentMethodModal,
+    PaymentMethodListItem,
+    RemovePaymentMethodModal,
+    VerifyBankAccountModal,
+} from '../components';
+import {
+    useDeletePaymentMethodMutation,
+    useGetPaymentMethodsQuery,
+    useSetDefaultPaymentMethodMutation,
+} from '../services/paymentMethodApi';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import { PaymentMethodsText } from '../constants';
+import { PaymentMethodType, type PaymentMethodResponse } from '../types';
+
+/**
+ * Payment Methods Page
+ * Lists saved cards and bank accounts and lets the user add, verify,
+ * set the default and remove them.
+ */
+export const PaymentMethodsPage = () => {
+    const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+    const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+    const [methodToVerify, setMethodToVerify] = useState<PaymentMethodResponse | null>(null);
+    const [methodToRemove, setMethodToRemove] = useState<PaymentMethodResponse | null>(null);
+    const [removeError, setRemoveError] = useState<string | null>(null);
+    const [defaultError, setDefaultError] = useState<string | null>(null);
+
+    // RTK Query hooks
+    const { data: paymentMethods, isLoading, isError, refetch } = useGetPaymentMethodsQuery();
+    const [setDefaultPaymentMethod, { isLoading: isSettingDefault }] = useSetDefaultPaymentMethodMutation();
+    const [deletePaymentMethod, { isLoading: isRemoving }] = useDeletePaymentMethodMutation();
+
+    const cards = paymentMethods?.filter((method) => method.type === PaymentMethodType.CARD) ?? [];
+    const bankAccounts = paymentMethods?.filter((method) => method.type === PaymentMethodType.BANK_ACCOUNT) ?? [];
+
+    /**
+     * Makes a payment method the default
+     * @param method - The payment method to make default
+     */
+    const handleSetDefault = async (method: PaymentMethodResponse) => {
+        setDefaultError(null);
+        try {
+            await setDefaultPaymentMethod(method.id).unwrap();
+        } catch (err) {
+            setDefaultError(getApiErrorMessage(err, PaymentMethodsText.DEFAULT_ERROR));
+        }
+    };
+
+    /**
+     * Opens the removal confirmation for a payment method
+     * @param method - The payment method to remove
+     */
+    const handleRemoveRequest = (method: PaymentMethodResponse) => {
+        setRemoveError(null);
+        setMethodToRemove(method);
+    };
+
+    /**
+     * Deletes the confirmed payment method
+     * @param method - The payment method to remove
+     */
+    const handleRemoveConfirm = async (method: PaymentMethodResponse) => {
+        setRemoveError(null);
+        try {
+            await deletePaymentMethod(method.id).unwrap();
+            setMethodToRemove(null);
+        } catch (err) {
+            setRemoveError(getApiErrorMessage(err, PaymentMethodsText.DEFAULT_ERROR));
+        }
+    };
+
+    /**
+     * Renders one section of the list
+     * @param title - Section heading
+     * @param methods - Payment methods in the section
+     * @param emptyText - Text shown when the section is empty
+     */
+    const renderSection = (title: string, methods: PaymentMethodResponse[], emptyText: string) => (
+        <section className="flex flex-col gap-3">
+            <h2 className="text-sm font-semibold uppercase tracking-wider text-slate-400">{title}</h2>
+            {methods.length === 0 ? (
+                <p className="p-4 text-sm text-slate-400 bg-[#161E2C] border border-dashed border-slate-700 rounded-xl">
+                    {emptyText}
+                </p>
+            ) : (
+                <ul className="flex flex-col gap-3">
+                    {methods.map((method) => (
+                        <PaymentMethodListItem
+                            key={method.id}
+                            method={method}
+                            onSetDefault={handleSetDefault}
+                            onVerify={setMethodToVerify}
+                            onRemove={handleRemoveRequest}
+                            isSettingDefault={isSettingDefault}
+                        />
+                    ))}
+                </ul>
+            )}
+        </section>
+    );
+
+    return (
+        <div className="flex h-screen w-full overflow-hidden">
+            {/* Sidebar */}
+            <Sidebar
+                isOpen={isSidebarOpen}
+                onClose={() => setIsSidebarOpen(false)}
+                currentPath="/cards"
+            />
+
+            {/* Main Content */}
+            <main className="flex-1 flex flex-col h-full overflow-y-auto bg-[#0a0f1a]">
+                {/* Mobile Header */}
+                <MobileHeader onMenuClick={() => setIsSidebarOpen(true)} />
+
+                {/* Page Content */}
+                <div className="container mx-auto max-w-4xl px-4 md:px-8 py-8 flex flex-col gap-6">
+                    {/* Header */}
+                    <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+                        <div className="flex flex-col gap-1">
+                            <h1 className="text-2xl font-bold text-white">{PaymentMethodsText.PAGE_TITLE}</h1>
+                            <p className="text-sm text-slate-400">{PaymentMethodsText.PAGE_DESCRIPTION}</p>
+                        </div>
+                        <Button leftIcon="add_card" onClick={() => setIsAddModalOpen(true)}>
+                            {PaymentMethodsText.ADD_METHOD_BUTTON}
+                        </Button>
+                    </div>
+
+                    {defaultError && (
+                        <Alert
+                            variant="error"
+                            title={PaymentMethodsText.SET_DEFAULT_FAILED}
+                            message={defaultError}
+                            onDismiss={() => setDefaultError(null)}
+                        />
+                    )}
+
+                    {isLoading ? (
+                        <LoadingSkeleton variant="card" height="96px" count={3} gap="12px" />
+                    ) : isError ? (
+                        <div className="flex flex-col items-start gap-3">
+                            <Alert variant="error" title={PaymentMethodsText.LOAD_ERROR} />
+                            <Button variant="secondary" size="sm" leftIcon="refresh" onClick={() => refetch()}>
+                                {PaymentMethodsText.RETRY}
+                            </Button>
+                        </div>
+                    ) : (
+                        <>
+                            {renderSection(PaymentMethodsText.CARDS_SECTION, cards, PaymentMethodsText.NO_CARDS)}
+                            {renderSection(PaymentMethodsText.BANK_ACCOUNTS_SECTION, bankAccounts, PaymentMethodsText.NO_BANK_ACCOUNTS)}
+                        </>
+                    )}
+                </div>
+            </main>
+
+            {/* Modals */}
+            <AddPaymentMethodModal isOpen={isAddModalOpen} onClose={() => setIsAddModalOpen(false)} />
+            <VerifyBankAccountModal method={methodToVerify} onClose={() => setMethodToVerify(null)} />
+            <RemovePaymentMethodModal
+                method={methodToRemove}
+                onClose={() => setMethodToRemove(null)}
+                onConfirm={handleRemoveConfirm}
+                isRemoving={isRemoving}
+                error={removeError}
+            />
+        </div>
+    );
+};
@@ -1 +1,2 @@
 export { PaymentDevToolsPage } from './PaymentDevToolsPage';
+export { PaymentMethodsPage } from './PaymentMethodsPage';
@@ -4,7 +4,10 @@ import type {
     InitiatePaymentResponse,
     ProcessPaymentRequest,
     PaymentResponse,
+    RefundPaymentRequest,
+    RefundPaymentResponse,
 } from '../types';
+import { isReplayedResponse } from '../../../utils/idempotency';
 
 /** Base path for payment API endpoints */
 const PAYMENT_BASE_PATH = '/payment';
@@ -63,6 +66,46 @@ export const paymentApi = protectedApi.injectEndpoints({
         checkPaymentStatus: builder.query<PaymentResponse, string>({
             query: (paymentId) => `${PAYMENT_BASE_PATH}/${paymentId}/status`,
         }),
+
+        /**
+         * Voids a payment that has not settled yet (INITIATED or PENDING).
+         * Cancels the wallet reservation, so the funds become available again.
+         * Wallet and transaction tags are not scoped per wallet, so invalidating
+         * them refreshes every wallet the payment touched.
+         * @param paymentId - The ID of the payment to void
+         * @returns Response with the VOIDED status
+         */
+        voidPayment: builder.mutation<PaymentResponse, string>({
+            query: (paymentId) => ({
+                url: `${PAYMENT_BASE_PATH}/${paymentId}/void`,
+                method: 'POST',
+            }),
+            invalidatesTags: ['Wallet', 'Transaction'],
+        }),
+
+        /**
+         * Refunds a settled payment in full or in part.
+         * Partial refunds keep the SUCCESS status and add to refundedAmount;
+         * the payment becomes REFUNDED once nothing is left to refund.
+         * Retrying with the same idempotency key returns the original refund, marked as replayed, instead of refunding again.
+         * @param paymentId - The ID of the payment to refund
+         * @param amount - Amount to refund; omitted for a full refund
+         * @param idempotencyKey - Key of this submission
+         * @returns Response with the updated status and refundedAmount
+         */
+        refundPayment: builder.mutation<RefundPaymentResponse, RefundPaymentRequest>({
+            query: ({ paymentId, amount, idempotencyKey }) => ({
+                url: `${PAYMENT_BASE_PATH}/${paymentId}/refund`,
+                method: 'POST',
+                body: amount === undefined ? {} : { amount },
+                idempotencyKey,
+            }),
+            transformResponse: (response: PaymentResponse, meta) => ({
+                ...response,
+                replayed: isReplayedResponse(meta?.response),
+            }),
+            invalidatesTags: ['Wallet', 'Transaction'],
+        }),
     }),
 });
 
@@ -72,4 +115,6 @@ export const {
     useProcessPaymentMutation,
     useCheckPaymentStatusQuery,
     useLazyCheckPaymentStatusQuery,
+    useVoidPaymentMutation,
+    useRefundPaymentMutation,
 } = paymentApi;
@@ -1,5 +1,9 @@
 import { protectedApi, CACHE_DURATIONS } from '../../../store/api';
-import type { PaymentMethodResponse } from '../types';
+import type {
+    PaymentMethodResponse,
+    AddPaymentMethodRequest,
+    VerifyPaymentMethodRequest,
+} from '../types';
 
 /** Base path for payment method API endpoints */
 const PAYMENT_METHOD_BASE_PATH = '/payment-methods';
@@ -25,6 +29,47 @@ export const paymentMethodApi = protectedApi.injectEndpoints({
             keepUnusedDataFor: CACHE_DURATIONS.STABLE,
         }),
 
+        /**
+         * Saves a payment method tokenized with the provider (see tokenizePaymentDetails).
+         * Only the token is sent; raw card and bank details never reach this API.
+         * Bank accounts are saved pending micro-deposit verification.
+         * @param body - Provider token, optional nickname and default flag
+         */
+        addPaymentMethod: builder.mutation<PaymentMethodResponse, AddPaymentMethodRequest>({
+            query: (body) => ({
+                url: PAYMENT_METHOD_BASE_PATH,
+                method: 'POST',
+                body,
+            }),
+            invalidatesTags: ['PaymentMethod'],
+        }),
+
+        /**
+         * Confirms a bank account with the two micro-deposit amounts.
+         * @param paymentMethodId - The bank account to verify
+         * @param amounts - The two deposit amounts
+         */
+        verifyPaymentMethod: builder.mutation<PaymentMethodResponse, VerifyPaymentMethodRequest>({
+            query: ({ paymentMethodId, amounts }) => ({
+                url: `${PAYMENT_METHOD_BASE_PATH}/${paymentMethodId}/verify`,
+                method: 'POST',
+                body: { amounts },
+            }),
+            invalidatesTags: ['PaymentMethod'],
+        }),
+
+        /**
+         * Makes a payment method the default, clearing the flag on the previous default.
+         * @param paymentMethodId - The payment method to make default
+         */
+        setDefaultPaymentMethod: builder.mutation<PaymentMethodResponse, string>({
+            query: (paymentMethodId) => ({
+                url: `${PAYMENT_METHOD_BASE_PATH}/${paymentMethodId}/default`,
+                method: 'PUT',
+            }),
+            invalidatesTags: ['PaymentMethod'],
+        }),
+
         /**
          * Deletes a payment method for the authenticated user.
          * @param paymentMethodId - The ID of the payment method to delete
@@ -42,5 +87,8 @@ export const paymentMethodApi = protectedApi.injectEndpoints({
 // Export auto-generated hooks
 export const {
     useGetPaymentMethodsQuery,
+    useAddPaymentMethodMutation,
+    useVerifyPaymentMethodMutation,
+    useSetDefaultPaymentMethodMutation,
     useDeletePaymentMethodMutation,
 } = paymentMethodApi;
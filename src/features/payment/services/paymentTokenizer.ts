@@ -0,0 +1,35 @@
+import { PaymentMethodsText } from '../constants';
+import type { TokenizePaymentMethodRequest, TokenizePaymentMethodResponse } from '../types';
+
+/** Provider's public tokenization endpoint; raw details go straight there and never reach our API */
+const TOKENIZATION_URL = import.meta.env.VITE_PAYMENT_TOKENIZATION_URL;
+
+/** Publishable key that identifies the app to the provider; safe to ship to the browser */
+const PUBLISHABLE_KEY = import.meta.env.VITE_PAYMENT_PUBLISHABLE_KEY;
+
+/**
+ * Exchanges raw card or bank account details for a single-use provider token.
+ * Called with plain fetch rather than through RTK Query, so the details are never
+ * kept in the Redux store (mutation args stay there until the hook unmounts).
+ * @param details - Card or bank account details
+ * @returns The provider token to save with addPaymentMethod
+ * @throws Error with the provider's message, or a generic one, when tokenization fails
+ */
+export const tokenizePaymentDetails = async (
+    details: TokenizePaymentMethodRequest
+): Promise<TokenizePaymentMethodResponse> => {
+    const response = await fetch(TOKENIZATION_URL, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${PUBLISHABLE_KEY}`,
+        },
+        body: JSON.stringify(details),
+    });
+
+    const data = await response.json().catch(() => null) as { token?: string; message?: string } | null;
+    if (!response.ok || !data?.token) {
+        throw new Error(data?.message ?? PaymentMethodsText.TOKENIZE_FAILED);
+    }
+    return { token: data.token };
+};
@@ -12,6 +12,27 @@ export const PaymentMethodType = {
 
 export type PaymentMethodType = (typeof PaymentMethodType)[keyof typeof PaymentMethodType];
 
+/** Payment method verification status enum */
+export const PaymentMethodVerificationStatus = {
+    /** Bank account awaiting micro-deposit confirmation */
+    PENDING: 'PENDING',
+    /** Usable for payments */
+    VERIFIED: 'VERIFIED',
+} as const;
+
+export type PaymentMethodVerificationStatus =
+    (typeof PaymentMethodVerificationStatus)[keyof typeof PaymentMethodVerificationStatus];
+
+/** Expiry state of a saved card, relative to today */
+export const CardExpiryStatus = {
+    VALID: 'VALID',
+    /** Expires at the end of this month or next month */
+    EXPIRING_SOON: 'EXPIRING_SOON',
+    EXPIRED: 'EXPIRED',
+} as const;
+
+export type CardExpiryStatus = (typeof CardExpiryStatus)[keyof typeof CardExpiryStatus];
+
 // ============================================
 // Payment API Types
 // ============================================
@@ -74,6 +95,27 @@ export interface PaymentResponse {
     createdAt: string;
     /** Timestamp when the payment was last updated */
     updatedAt: string;
+    /** Total refunded so far, in major units; absent when nothing has been refunded */
+    refundedAmount?: number;
+}
+
+/** Payment after a refund */
+export interface RefundPaymentResponse extends PaymentResponse {
+    /** Set when the server returned an earlier refund with the same idempotency key */
+    replayed?: boolean;
+}
+
+/**
+ * Request to refund a settled payment.
+ * The refunded amount goes back to the wallet the payment was charged to.
+ */
+export interface RefundPaymentRequest {
+    /** The ID of the payment to refund */
+    paymentId: string;
+    /** Amount to refund in major units; omit to refund everything not yet refunded */
+    amount?: number;
+    /** Key of this submission, reused on retries; sent as a header and generated when omitted */
+    idempotencyKey?: string;
 }
 
 /** Response from GET /api/v1/payment-methods */
@@ -100,6 +142,57 @@ export interface PaymentMethodResponse {
     lastUsedAt: string | null;
     /** Whether this is the default payment method */
     isDefault: boolean;
+    /** Verification state - only sent for BANK_ACCOUNT type; absent means verified */
+    verificationStatus?: PaymentMethodVerificationStatus;
+}
+
+/** Raw card details sent to the tokenization endpoint */
+export interface CardDetails {
+    cardholderName: string;
+    /** Card number without spaces */
+    number: string;
+    expiryMonth: number;
+    expiryYear: number;
+    cvc: string;
+}
+
+/** Raw bank account details sent to the tokenization endpoint */
+export interface BankAccountDetails {
+    accountHolderName: string;
+    bankName: string;
+    accountNumber: string;
+    accountType: string;
+}
+
+/**
+ * Raw payment details sent straight to the provider for tokenization.
+ * They are never sent to our API; everything else uses the returned token.
+ */
+export type TokenizePaymentMethodRequest =
+    | { type: typeof PaymentMethodType.CARD; card: CardDetails }
+    | { type: typeof PaymentMethodType.BANK_ACCOUNT; bankAccount: BankAccountDetails };
+
+/** Token returned by the provider's tokenization endpoint */
+export interface TokenizePaymentMethodResponse {
+    /** Single-use provider token */
+    token: string;
+}
+
+/** Request to save a tokenized payment method */
+export interface AddPaymentMethodRequest {
+    /** Token returned by the tokenization endpoint */
+    token: string;
+    /** Optional nickname shown in payment method lists */
+    displayName?: string;
+    /** Whether to make the new method the default */
+    setAsDefault: boolean;
+}
+
+/** Request to verify a bank account with the two micro-deposit amounts */
+export interface VerifyPaymentMethodRequest {
+    paymentMethodId: string;
+    /** The two deposit amounts, in major units */
+    amounts: [number, number];
 }
 
 // ============================================
@@ -116,8 +209,10 @@ export const PaymentStatusEnum = {
     PENDING: 'PENDING',
     /** Payment failed (provider declined, insufficient funds, etc.) */
     FAILED: 'FAILED',
-    /** Payment was successfully refunded */
+    /** Payment was successfully refunded in full */
     REFUNDED: 'REFUNDED',
+    /** Payment was cancelled before it settled and the reserved funds released */
+    VOIDED: 'VOIDED',
 } as const;
 
 export type PaymentStatusEnum = (typeof PaymentStatusEnum)[keyof typeof PaymentStatusEnum];
@@ -134,6 +229,43 @@ export interface MockPaymentMethod {
     last4?: string;
 }
 
+/**
+ * A mock token and the outcome the mock provider is expected to produce for it
+ * when run through initiate → process → status
+ */
+export interface MockTokenScenario {
+    token: string;
+    /** Mock payment method the provider resolves to the token */
+    paymentMethodId: string;
+    displayName: string;
+    /** Status the payment should end in */
+    expectedStatus: PaymentStatusEnum;
+    /** The payment message should contain one of these; empty skips the message check */
+    expectedMessages: readonly string[];
+}
+
+/** What actually happened when a scenario ran */
+export interface ScenarioOutcome {
+    paymentId: string | null;
+    /** Status after the final status check; null when the flow could not finish */
+    status: PaymentStatusEnum | null;
+    message: string | null;
+    /** Why the flow could not finish */
+    error: string | null;
+}
+
+/** A scenario outcome compared against its expectations */
+export interface ScenarioResult extends ScenarioOutcome {
+    token: string;
+    paymentMethodId: string;
+    expectedStatus: PaymentStatusEnum;
+    expectedMessages: readonly string[];
+    durationMs: number;
+    statusMatches: boolean;
+    messageMatches: boolean;
+    passed: boolean;
+}
+
 /** Debug log entry */
 export interface DebugLogEntry {
     id: string;
@@ -150,6 +282,15 @@ export interface DebugLogEntry {
     }[];
 }
 
+/** When the payment reached each step of the status timeline, as ISO 8601 timestamps */
+export interface PaymentTimeline {
+    initiatedAt: string | null;
+    /** First time the payment was seen PENDING */
+    pendingAt: string | null;
+    /** First time the payment was seen in a terminal status */
+    settledAt: string | null;
+}
+
 /** Payment state for raw JSON display */
 export interface PaymentState {
     id: string;
@@ -161,11 +302,3 @@ export interface PaymentState {
         sdk_version: string;
     };
 }
-
-/** Stats for bottom bar */
-export interface DevToolsStats {
-    latency: number;
-    apiRequests: string;
-    errorRate: string;
-    region: string;
-}
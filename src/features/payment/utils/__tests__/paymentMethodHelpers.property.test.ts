@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { getCardExpiryStatus, isPendingVerification, formatCardExpiry } from '../paymentMethodHelpers';
+import { CardExpiryStatus, PaymentMethodType, type PaymentMethodResponse } from '../../types';
+
+/**
+ * Property-based tests for payment method helpers
+ *
+ * **Validates: Payment methods page**
+ * - Cards are valid through the end of their expiry month
+ * - Cards are flagged as expiring soon in their last two months
+ * - Only unverified bank accounts are pending verification
+ */
+
+const createMethod = (overrides: Partial<PaymentMethodResponse> = {}): PaymentMethodResponse => ({
+    id: 'pm_1',
+    type: PaymentMethodType.CARD,
+    displayName: 'Visa',
+    last4: '4242',
+    brand: 'Visa',
+    expiryMonth: 12,
+    expiryYear: 2030,
+    bankName: null,
+    accountType: null,
+    lastUsedAt: null,
+    isDefault: false,
+    ...overrides,
+});
+
+describe('Payment Method Helpers Property Tests', () => {
+    describe('getCardExpiryStatus', () => {
+        it('should classify cards by whole months remaining', () => {
+            fc.assert(
+                fc.property(
+                    fc.integer({ min: 2000, max: 2100 }),
+                    fc.integer({ min: 0, max: 11 }),
+                    fc.integer({ min: 1, max: 28 }),
+                    fc.integer({ min: -24, max: 24 }),
+                    (year, monthIndex, day, offset) => {
+                        const now = new Date(year, monthIndex, day);
+                        const expiry = new Date(year, monthIndex + offset, 1);
+                        const status = getCardExpiryStatus(
+                            createMethod({ expiryMonth: expiry.getMonth() + 1, expiryYear: expiry.getFullYear() }),
+                            now
+                        );
+                        const expected = offset < 0
+                            ? CardExpiryStatus.EXPIRED
+                            : offset <= 1 ? CardExpiryStatus.EXPIRING_SOON : CardExpiryStatus.VALID;
+                        expect(status).toBe(expected);
+                    }
+                ),
+                { numRuns: 200 }
+            );
+        });
+
+        it('should treat a card as valid on the last day of its expiry month', () => {
+            const method = createMethod({ expiryMonth: 2, expiryYear: 2028 });
+            expect(getCardExpiryStatus(method, new Date(2028, 1, 29, 23, 59))).toBe(CardExpiryStatus.EXPIRING_SOON);
+            expect(getCardExpiryStatus(method, new Date(2028, 2, 1))).toBe(CardExpiryStatus.EXPIRED);
+        });
+
+        it('should return null for bank accounts and cards without an expiry', () => {
+            expect(getCardExpiryStatus(createMethod({ type: PaymentMethodType.BANK_ACCOUNT }))).toBeNull();
+            expect(getCardExpiryStatus(createMethod({ expiryMonth: null, expiryYear: null }))).toBeNull();
+        });
+    });
+
+    describe('isPendingVerification', () => {
+        it('should only flag bank accounts with a pending status', () => {
+            const bank = { type: PaymentMethodType.BANK_ACCOUNT, brand: null, expiryMonth: null, expiryYear: null };
+            expect(isPendingVerification(createMethod({ ...bank, verificationStatus: 'PENDING' }))).toBe(true);
+            expect(isPendingVerification(createMethod({ ...bank, verificationStatus: 'VERIFIED' }))).toBe(false);
+            expect(isPendingVerification(createMethod(bank))).toBe(false);
+            expect(isPendingVerification(createMethod({ verificationStatus: 'PENDING' }))).toBe(false);
+        });
+    });
+
+    describe('formatCardExpiry', () => {
+        it('should always produce MM/YY', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 1, max: 12 }), fc.integer({ min: 2000, max: 2099 }), (month, year) => {
+                    const formatted = formatCardExpiry(month, year);
+                    expect(formatted).toMatch(/^\d{2}\/\d{2}$/);
+                    expect(Number(formatted.slice(0, 2))).toBe(month);
+                    expect(Number(formatted.slice(3))).toBe(year % 100);
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+    EMPTY_PAYMENT_TIMELINE,
+    PAYMENT_POLL_INITIAL_DELAY_MS,
+    PAYMENT_POLL_MAX_DELAY_MS,
+    formatTimelineTimestamp,
+    getPaymentPollDelay,
+    isTerminalPaymentStatus,
+    updatePaymentTimeline,
+} from '../paymentPolling';
+import { PaymentStatusEnum } from '../../types';
+
+/**
+ * Property-based tests for payment status polling
+ *
+ * **Validates: Payment status polling in Payment DevTools**
+ * - Poll delays double from the initial delay and never exceed the cap
+ * - Only SUCCESS, FAILED, REFUNDED and VOIDED stop polling
+ * - The timeline keeps the first server timestamp seen for each step
+ */
+
+const statusArbitrary = fc.constantFrom(...Object.values(PaymentStatusEnum));
+
+const timestampArbitrary = fc
+    .date({ min: new Date('2020-01-01T00:00:00Z'), max: new Date('2030-12-31T23:59:59Z'), noInvalidDate: true })
+    .map((date) => date.toISOString());
+
+describe('Payment Polling Property Tests', () => {
+    describe('getPaymentPollDelay', () => {
+        it('should never wait less than the initial delay or more than the cap', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 0, max: 1_000 }), (attempt) => {
+                    const delay = getPaymentPollDelay(attempt);
+                    expect(delay).toBeGreaterThanOrEqual(PAYMENT_POLL_INITIAL_DELAY_MS);
+                    expect(delay).toBeLessThanOrEqual(PAYMENT_POLL_MAX_DELAY_MS);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should double the delay until it reaches the cap', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 0, max: 50 }), (attempt) => {
+                    const delay = getPaymentPollDelay(attempt);
+                    const next = getPaymentPollDelay(attempt + 1);
+                    expect(next).toBe(Math.min(delay * 2, PAYMENT_POLL_MAX_DELAY_MS));
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should start at the initial delay', () => {
+            expect(getPaymentPollDelay(0)).toBe(PAYMENT_POLL_INITIAL_DELAY_MS);
+        });
+    });
+
+    describe('isTerminalPaymentStatus', () => {
+        it('should treat only settled payments as terminal', () => {
+            expect(isTerminalPaymentStatus(PaymentStatusEnum.SUCCESS)).toBe(true);
+            expect(isTerminalPaymentStatus(PaymentStatusEnum.FAILED)).toBe(true);
+            expect(isTerminalPaymentStatus(PaymentStatusEnum.REFUNDED)).toBe(true);
+            expect(isTerminalPaymentStatus(PaymentStatusEnum.VOIDED)).toBe(true);
+            expect(isTerminalPaymentStatus(PaymentStatusEnum.PENDING)).toBe(false);
+            expect(isTerminalPaymentStatus(PaymentStatusEnum.INITIATED)).toBe(false);
+            expect(isTerminalPaymentStatus(null)).toBe(false);
+        });
+    });
+
+    describe('updatePaymentTimeline', () => {
+        it('should keep the first timestamp seen for each step across any sequence of responses', () => {
+            fc.assert(
+                fc.property(
+                    timestampArbitrary,
+                    fc.array(fc.tuple(statusArbitrary, timestampArbitrary), { minLength: 1, maxLength: 10 }),
+                    (createdAt, responses) => {
+                        const timeline = responses.reduce(
+                            (current, [status, updatedAt]) => updatePaymentTimeline(current, { status, createdAt, updatedAt }),
+                            EMPTY_PAYMENT_TIMELINE
+                        );
+
+                        const firstPending = responses.find(([status]) => status === PaymentStatusEnum.PENDING);
+                        const firstSettled = responses.find(([status]) => isTerminalPaymentStatus(status));
+
+                        expect(timeline.initiatedAt).toBe(createdAt);
+                        expect(timeline.pendingAt).toBe(firstPending?.[1] ?? null);
+                        expect(timeline.settledAt).toBe(firstSettled?.[1] ?? null);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should keep the client initiation time when the server sends no creation time', () => {
+            const timeline = { ...EMPTY_PAYMENT_TIMELINE, initiatedAt: '2024-06-24T10:00:00.000Z' };
+            const updated = updatePaymentTimeline(timeline, {
+                status: PaymentStatusEnum.PENDING,
+                createdAt: '',
+                updatedAt: '2024-06-24T10:00:05.000Z',
+            });
+            expect(updated.initiatedAt).toBe('2024-06-24T10:00:00.000Z');
+            expect(updated.pendingAt).toBe('2024-06-24T10:00:05.000Z');
+        });
+    });
+
+    describe('formatTimelineTimestamp', () => {
+        it('should format timestamps in UTC to the second', () => {
+            expect(formatTimelineTimestamp('2024-06-24T14:05:09.123Z')).toBe('2024-06-24 14:05:09 UTC');
+        });
+
+        it('should return an empty string for missing or unparseable timestamps', () => {
+            expect(formatTimelineTimestamp(null)).toBe('');
+            expect(formatTimelineTimestamp('not a date')).toBe('');
+        });
+    });
+});
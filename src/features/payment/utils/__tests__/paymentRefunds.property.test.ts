@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { canRefundPayment, canVoidPayment, getRefundableAmount } from '../paymentRefunds';
+import { toMajorUnits, type Money } from '../../../../utils/money';
+import { CurrencyEnum } from '../../../wallet/types';
+import { PaymentStatusEnum } from '../../types';
+
+/**
+ * Property-based tests for voiding and refunding payments
+ *
+ * **Validates: Payment void and refund**
+ * - The refundable amount is the payment minus what was refunded, never negative
+ * - Only unsettled payments can be voided
+ * - Only successful payments with something left can be refunded
+ */
+
+const currencyArbitrary = fc.constantFrom(...Object.values(CurrencyEnum));
+const statusArbitrary = fc.constantFrom(...Object.values(PaymentStatusEnum));
+
+describe('Payment Refund Property Tests', () => {
+    it('should leave exactly the unrefunded part of the payment, never below zero', () => {
+        fc.assert(
+            fc.property(
+                currencyArbitrary,
+                fc.integer({ min: 0, max: 10_000_000 }),
+                fc.integer({ min: 0, max: 10_000_000 }),
+                (currency, amountMinor, refundedMinor) => {
+                    const amount = toMajorUnits({ minor: amountMinor, currency });
+                    const refunded = toMajorUnits({ minor: refundedMinor, currency });
+                    const refundable = getRefundableAmount(amount, refunded, currency);
+
+                    expect(refundable).toEqual({ minor: Math.max(0, amountMinor - refundedMinor), currency });
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should only allow voiding before the payment settles', () => {
+        fc.assert(
+            fc.property(statusArbitrary, (status) => {
+                const isUnsettled = status === PaymentStatusEnum.INITIATED || status === PaymentStatusEnum.PENDING;
+                expect(canVoidPayment(status)).toBe(isUnsettled);
+            }),
+            { numRuns: 50 }
+        );
+        expect(canVoidPayment(null)).toBe(false);
+    });
+
+    it('should only allow refunds of successful payments with an amount left', () => {
+        fc.assert(
+            fc.property(statusArbitrary, fc.integer({ min: 0, max: 1_000 }), (status, minor) => {
+                const refundable: Money = { minor, currency: CurrencyEnum.SGD };
+                expect(canRefundPayment(status, refundable)).toBe(status === PaymentStatusEnum.SUCCESS && minor > 0);
+            }),
+            { numRuns: 100 }
+        );
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { formatErrorRate, formatLatency, formatRequestRate, formatStatusCounts, getThresholdColor } from '../requestMetrics';
+import { ERROR_RATE_THRESHOLDS } from '../../constants';
+
+/**
+ * Property-based tests for the stats bar formatting
+ *
+ * **Validates: Live request metrics**
+ * - Latencies, rates and error rates format compactly
+ * - Stat colors follow the warning and critical thresholds
+ */
+
+describe('Request Metrics Property Tests', () => {
+    it('should format latency in milliseconds below a second and seconds above', () => {
+        expect(formatLatency(null)).toBe('-');
+        expect(formatLatency(84.6)).toBe('85ms');
+        expect(formatLatency(1400)).toBe('1.4s');
+    });
+
+    it('should format request rates compactly', () => {
+        expect(formatRequestRate(0)).toBe('0');
+        expect(formatRequestRate(849.6)).toBe('850');
+        expect(formatRequestRate(1200)).toBe('1.2k');
+        expect(formatRequestRate(12_400)).toBe('12k');
+    });
+
+    it('should format error rates with at most two decimals', () => {
+        expect(formatErrorRate(0)).toBe('0%');
+        expect(formatErrorRate(0.04)).toBe('0.04%');
+        expect(formatErrorRate(100 / 3)).toBe('33.33%');
+        fc.assert(
+            fc.property(fc.double({ min: 0, max: 100, noNaN: true }), (percent) => {
+                const decimals = formatErrorRate(percent).replace('%', '').split('.')[1] ?? '';
+                expect(decimals.length).toBeLessThanOrEqual(2);
+            })
+        );
+    });
+
+    it('should list failed statuses in the given order', () => {
+        expect(formatStatusCounts([['401', 3], ['FETCH_ERROR', 1]])).toBe('401 ×3 · FETCH_ERROR ×1');
+        expect(formatStatusCounts([])).toBe('');
+    });
+
+    it('should turn amber at the warning threshold and red at the critical one', () => {
+        fc.assert(
+            fc.property(fc.double({ min: 0, max: 100, noNaN: true }), (value) => {
+                const expected = value >= ERROR_RATE_THRESHOLDS.CRITICAL
+                    ? 'text-red-400'
+                    : value >= ERROR_RATE_THRESHOLDS.WARNING ? 'text-amber-400' : 'text-emerald-400';
+                expect(getThresholdColor(value, ERROR_RATE_THRESHOLDS)).toBe(expected);
+            })
+        );
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { formatHoldAge, validateHoldAmount } from '../reservations';
+import { PaymentDevToolsText } from '../../constants';
+import { toDecimalString, toMajorUnits } from '../../../../utils/money';
+import { CurrencyEnum } from '../../../wallet/types';
+
+/**
+ * Property-based tests for the reservation console helpers
+ *
+ * **Validates: Reservation lifecycle console**
+ * - Hold ages show their two largest units and never go negative
+ * - Holds must be positive and fit within the wallet balance
+ */
+
+const currencyArbitrary = fc.constantFrom(...Object.values(CurrencyEnum));
+const createdAt = '2024-06-24T12:00:00.000Z';
+const createdAtMs = Date.parse(createdAt);
+
+describe('Reservation Property Tests', () => {
+    it('should show the two largest units of the hold age', () => {
+        expect(formatHoldAge(createdAt, createdAtMs + 45_000)).toBe('45s');
+        expect(formatHoldAge(createdAt, createdAtMs + 192_000)).toBe('3m 12s');
+        expect(formatHoldAge(createdAt, createdAtMs + 7_500_000)).toBe('2h 5m');
+        expect(formatHoldAge(createdAt, createdAtMs + 97_200_000)).toBe('1d 3h');
+    });
+
+    it('should show 0s for holds placed in the future or with unreadable timestamps', () => {
+        fc.assert(
+            fc.property(fc.integer({ min: 1, max: 1_000_000_000 }), (aheadMs) => {
+                expect(formatHoldAge(createdAt, createdAtMs - aheadMs)).toBe('0s');
+            })
+        );
+        expect(formatHoldAge('not a date', createdAtMs)).toBe('0s');
+    });
+
+    it('should accept any positive hold up to the balance and reject anything above it', () => {
+        fc.assert(
+            fc.property(
+                currencyArbitrary,
+                fc.integer({ min: 1, max: 10_000_000 }),
+                fc.integer({ min: 0, max: 10_000_000 }),
+                (currency, balanceMinor, holdMinor) => {
+                    const balance = toMajorUnits({ minor: balanceMinor, currency });
+                    const value = toDecimalString({ minor: holdMinor, currency });
+                    const expected = holdMinor === 0
+                        ? PaymentDevToolsText.HOLD_AMOUNT_INVALID
+                        : holdMinor > balanceMinor
+                            ? PaymentDevToolsText.HOLD_AMOUNT_EXCEEDS_BALANCE
+                            : null;
+
+                    expect(validateHoldAmount(value, balance, currency)).toBe(expected);
+                }
+            )
+        );
+    });
+
+    it('should reject amounts that are not valid money in the wallet currency', () => {
+        expect(validateHoldAmount('', 100, 'USD')).toBe(PaymentDevToolsText.HOLD_AMOUNT_INVALID);
+        expect(validateHoldAmount('abc', 100, 'USD')).toBe(PaymentDevToolsText.HOLD_AMOUNT_INVALID);
+        expect(validateHoldAmount('-5', 100, 'USD')).toBe(PaymentDevToolsText.HOLD_AMOUNT_INVALID);
+        expect(validateHoldAmount('1.234', 100, 'USD')).toBe(PaymentDevToolsText.HOLD_AMOUNT_INVALID);
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+    buildScenarioReport,
+    buildScenarioReportFilename,
+    evaluateScenario,
+    matchesExpectedMessage,
+    summarizeScenarioRun,
+} from '../scenarioRunner';
+import { MOCK_TOKEN_SCENARIOS, MockTokens } from '../../constants';
+import { PaymentStatusEnum } from '../../types';
+import type { ScenarioOutcome } from '../../types';
+
+/**
+ * Property-based tests for the mock token scenario runner
+ *
+ * **Validates: Mock token scenario runner**
+ * - Every mock token has exactly one scenario
+ * - A scenario passes only when the flow finished with the expected status and message
+ * - Reports count every result and survive a JSON round trip
+ */
+
+const statusArbitrary = fc.constantFrom(...Object.values(PaymentStatusEnum));
+const scenarioArbitrary = fc.constantFrom(...MOCK_TOKEN_SCENARIOS);
+const outcomeArbitrary: fc.Arbitrary<ScenarioOutcome> = fc.record({
+    paymentId: fc.option(fc.string({ minLength: 1 }), { nil: null }),
+    status: fc.option(statusArbitrary, { nil: null }),
+    message: fc.option(fc.string(), { nil: null }),
+    error: fc.option(fc.string({ minLength: 1 }), { nil: null }),
+});
+
+describe('Scenario Runner Property Tests', () => {
+    it('should have one scenario for every mock token', () => {
+        const tokens = MOCK_TOKEN_SCENARIOS.map((scenario) => scenario.token);
+        expect(new Set(tokens).size).toBe(tokens.length);
+        expect([...tokens].sort()).toEqual([...Object.values(MockTokens)].sort());
+    });
+
+    it('should accept messages that contain an expected message in any case', () => {
+        fc.assert(
+            fc.property(fc.string(), fc.string({ minLength: 1 }), fc.string(), (prefix, expected, suffix) => {
+                expect(matchesExpectedMessage(`${prefix}${expected.toUpperCase()}${suffix}`, [expected])).toBe(true);
+            })
+        );
+        expect(matchesExpectedMessage(null, [])).toBe(true);
+        expect(matchesExpectedMessage(null, ['Card has expired'])).toBe(false);
+        expect(matchesExpectedMessage('Card number is invalid', ['Card has expired'])).toBe(false);
+    });
+
+    it('should pass only when the flow finished with the expected status and message', () => {
+        fc.assert(
+            fc.property(scenarioArbitrary, outcomeArbitrary, fc.nat(), (scenario, outcome, durationMs) => {
+                const result = evaluateScenario(scenario, outcome, durationMs);
+
+                expect(result.statusMatches).toBe(outcome.error === null && outcome.status === scenario.expectedStatus);
+                expect(result.passed).toBe(
+                    outcome.error === null &&
+                    outcome.status === scenario.expectedStatus &&
+                    matchesExpectedMessage(outcome.message, scenario.expectedMessages)
+                );
+                expect(result.token).toBe(scenario.token);
+                expect(result.durationMs).toBe(durationMs);
+            })
+        );
+    });
+
+    it('should pass the expected outcome of every scenario', () => {
+        MOCK_TOKEN_SCENARIOS.forEach((scenario) => {
+            const result = evaluateScenario(scenario, {
+                paymentId: 'pay_1',
+                status: scenario.expectedStatus,
+                message: scenario.expectedMessages[0] ?? null,
+                error: null,
+            }, 120);
+            expect(result.passed).toBe(true);
+        });
+    });
+
+    it('should count every result in the report summary', () => {
+        fc.assert(
+            fc.property(fc.array(fc.tuple(scenarioArbitrary, outcomeArbitrary), { maxLength: 20 }), (runs) => {
+                const results = runs.map(([scenario, outcome]) => evaluateScenario(scenario, outcome, 0));
+                const summary = summarizeScenarioRun(results);
+                const report = JSON.parse(buildScenarioReport(results, {
+                    startedAt: '2024-06-24T10:00:00.000Z',
+                    finishedAt: '2024-06-24T10:00:05.000Z',
+                    walletId: 'wallet_1',
+                    amount: '100.00',
+                    currency: 'SGD',
+                }));
+
+                expect(summary.passed + summary.failed).toBe(results.length);
+                expect(summary.passed).toBe(results.filter((result) => result.passed).length);
+                expect(report.summary).toEqual(summary);
+                expect(report.scenarios).toEqual(JSON.parse(JSON.stringify(results)));
+                expect(report.walletId).toBe('wallet_1');
+            })
+        );
+    });
+
+    it('should name the report after the run date', () => {
+        expect(buildScenarioReportFilename(new Date(2024, 5, 24))).toBe('apexpay-mock-scenarios-2024-06-24.json');
+    });
+});
@@ -0,0 +1,33 @@
+export {
+    getCardExpiryStatus,
+    isPendingVerification,
+    formatCardExpiry,
+    getPaymentMethodName,
+} from './paymentMethodHelpers';
+export {
+    PAYMENT_POLL_INITIAL_DELAY_MS,
+    PAYMENT_POLL_MAX_DELAY_MS,
+    PAYMENT_POLL_MAX_ATTEMPTS,
+    EMPTY_PAYMENT_TIMELINE,
+    isTerminalPaymentStatus,
+    getPaymentPollDelay,
+    updatePaymentTimeline,
+    formatTimelineTimestamp,
+} from './paymentPolling';
+export { getRefundableAmount, canVoidPayment, canRefundPayment } from './paymentRefunds';
+export { formatHoldAge, validateHoldAmount } from './reservations';
+export {
+    matchesExpectedMessage,
+    evaluateScenario,
+    summarizeScenarioRun,
+    buildScenarioReport,
+    buildScenarioReportFilename,
+} from './scenarioRunner';
+export type { ScenarioRunInfo, ScenarioRunSummary } from './scenarioRunner';
+export {
+    formatLatency,
+    formatRequestRate,
+    formatErrorRate,
+    formatStatusCounts,
+    getThresholdColor,
+} from './requestMetrics';
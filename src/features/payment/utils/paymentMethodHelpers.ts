@@ -0,0 +1,60 @@
+import { PaymentMethodsText } from '../constants';
+import {
+    CardExpiryStatus,
+    PaymentMethodType,
+    PaymentMethodVerificationStatus,
+    type PaymentMethodResponse,
+} from '../types';
+
+/**
+ * Works out whether a saved card has expired or is about to
+ * Cards are valid until the last day of their expiry month, and count as
+ * expiring soon during that month and the month before
+ *
+ * @param method - Saved payment method
+ * @param now - Reference date (defaults to today)
+ * @returns Expiry status, or null for bank accounts and cards without an expiry
+ */
+export function getCardExpiryStatus(
+    method: PaymentMethodResponse,
+    now: Date = new Date()
+): CardExpiryStatus | null {
+    if (method.type !== PaymentMethodType.CARD || !method.expiryMonth || !method.expiryYear) {
+        return null;
+    }
+
+    const monthsLeft = (method.expiryYear * 12 + method.expiryMonth) - (now.getFullYear() * 12 + now.getMonth() + 1);
+    if (monthsLeft < 0) return CardExpiryStatus.EXPIRED;
+    if (monthsLeft <= 1) return CardExpiryStatus.EXPIRING_SOON;
+    return CardExpiryStatus.VALID;
+}
+
+/**
+ * Checks whether a bank account is still waiting for micro-deposit verification
+ * @param method - Saved payment method
+ */
+export function isPendingVerification(method: PaymentMethodResponse): boolean {
+    return method.type === PaymentMethodType.BANK_ACCOUNT
+        && method.verificationStatus === PaymentMethodVerificationStatus.PENDING;
+}
+
+/**
+ * Formats a card expiry as MM/YY
+ * @param expiryMonth - Month (1-12)
+ * @param expiryYear - Four-digit year
+ */
+export function formatCardExpiry(expiryMonth: number, expiryYear: number): string {
+    return `${String(expiryMonth).padStart(2, '0')}/${String(expiryYear).slice(-2)}`;
+}
+
+/**
+ * Returns the display name for a card or bank account
+ * A user-chosen nickname wins over the generated brand/bank name
+ * @param method - Saved payment method
+ */
+export function getPaymentMethodName(method: PaymentMethodResponse): string {
+    const generated = method.type === PaymentMethodType.CARD
+        ? PaymentMethodsText.CARD_NAME(method.brand, method.last4)
+        : PaymentMethodsText.BANK_NAME(method.bankName, method.last4);
+    return method.displayName || generated;
+}
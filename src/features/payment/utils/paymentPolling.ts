@@ -0,0 +1,75 @@
+import { PaymentStatusEnum, type PaymentResponse, type PaymentTimeline } from '../types';
+
+/** Wait before the first automatic status check of a pending payment */
+export const PAYMENT_POLL_INITIAL_DELAY_MS = 1000;
+
+/** Longest wait between two status checks */
+export const PAYMENT_POLL_MAX_DELAY_MS = 30_000;
+
+/** Automatic checks made before polling gives up and leaves it to CHECK STATUS */
+export const PAYMENT_POLL_MAX_ATTEMPTS = 10;
+
+/** Timeline of a payment with no recorded steps */
+export const EMPTY_PAYMENT_TIMELINE: PaymentTimeline = {
+    initiatedAt: null,
+    pendingAt: null,
+    settledAt: null,
+};
+
+/**
+ * Checks whether a payment status is final, so there is nothing left to poll for
+ * @param status - Payment status
+ */
+export function isTerminalPaymentStatus(status: PaymentStatusEnum | null): boolean {
+    return status === PaymentStatusEnum.SUCCESS
+        || status === PaymentStatusEnum.FAILED
+        || status === PaymentStatusEnum.REFUNDED
+        || status === PaymentStatusEnum.VOIDED;
+}
+
+/**
+ * Works out how long to wait before an automatic status check
+ * The wait doubles after every check, up to {@link PAYMENT_POLL_MAX_DELAY_MS}
+ *
+ * @param attempt - Number of automatic checks already made
+ * @returns Delay in milliseconds
+ */
+export function getPaymentPollDelay(attempt: number): number {
+    const delay = PAYMENT_POLL_INITIAL_DELAY_MS * 2 ** Math.max(0, attempt);
+    return Math.min(delay, PAYMENT_POLL_MAX_DELAY_MS);
+}
+
+/**
+ * Records the server's timestamps for the step a payment response reports
+ * The creation time replaces the client's initiation time, and each later step
+ * keeps the first updatedAt it was seen with
+ *
+ * @param timeline - Timeline so far
+ * @param response - Response from processing or a status check
+ * @returns Updated timeline
+ */
+export function updatePaymentTimeline(
+    timeline: PaymentTimeline,
+    response: Pick<PaymentResponse, 'status' | 'createdAt' | 'updatedAt'>
+): PaymentTimeline {
+    const next = { ...timeline, initiatedAt: response.createdAt || timeline.initiatedAt };
+
+    if (response.status === PaymentStatusEnum.PENDING) {
+        next.pendingAt = timeline.pendingAt ?? response.updatedAt;
+    } else if (isTerminalPaymentStatus(response.status)) {
+        next.settledAt = timeline.settledAt ?? response.updatedAt;
+    }
+    return next;
+}
+
+/**
+ * Formats a timeline timestamp for display
+ * @param value - ISO 8601 timestamp
+ * @returns Text such as "2024-06-24 14:05:09 UTC", or an empty string if unparseable
+ */
+export function formatTimelineTimestamp(value: string | null): string {
+    if (!value) return '';
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return '';
+    return `${date.toISOString().replace('T', ' ').substring(0, 19)} UTC`;
+}
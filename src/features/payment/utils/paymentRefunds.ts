@@ -0,0 +1,31 @@
+import { compareMoney, subtractMoney, toMoney, zeroMoney, type Money } from '../../../utils/money';
+import { PaymentStatusEnum } from '../types';
+
+/**
+ * Works out how much of a payment can still be refunded
+ * @param amount - Payment amount in major units
+ * @param refundedAmount - Amount already refunded in major units
+ * @param currency - ISO 4217 code of the payment
+ * @returns The remainder, never below zero
+ */
+export function getRefundableAmount(amount: number, refundedAmount: number, currency: string): Money {
+    const remaining = subtractMoney(toMoney(amount, currency), toMoney(refundedAmount, currency));
+    return compareMoney(remaining, zeroMoney(currency)) > 0 ? remaining : zeroMoney(currency);
+}
+
+/**
+ * Checks whether a payment can be voided, which is only possible before it settles
+ * @param status - Payment status
+ */
+export function canVoidPayment(status: PaymentStatusEnum | null): boolean {
+    return status === PaymentStatusEnum.INITIATED || status === PaymentStatusEnum.PENDING;
+}
+
+/**
+ * Checks whether a payment can be refunded: it succeeded and something is left to refund
+ * @param status - Payment status
+ * @param refundable - Amount still refundable, from {@link getRefundableAmount}
+ */
+export function canRefundPayment(status: PaymentStatusEnum | null, refundable: Money): boolean {
+    return status === PaymentStatusEnum.SUCCESS && refundable.minor > 0;
+}
@@ -0,0 +1,51 @@
+/**
+ * Formats a latency for the stats bar
+ * @param ms - Duration in milliseconds, or null before any request
+ * @returns Duration such as "85ms" or "1.4s"; "-" without a value
+ */
+export function formatLatency(ms: number | null): string {
+    if (ms === null) return '-';
+    return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Formats a request rate compactly
+ * @param perHour - Requests per hour
+ * @returns Rate such as "850", "1.2k" or "12k"
+ */
+export function formatRequestRate(perHour: number): string {
+    const rounded = Math.round(perHour);
+    if (rounded < 1000) return rounded.toString();
+    const thousands = rounded / 1000;
+    return `${thousands < 10 ? Number(thousands.toFixed(1)) : Math.round(thousands)}k`;
+}
+
+/**
+ * Formats an error rate with up to two decimals
+ * @param percent - Percentage between 0 and 100
+ * @returns Rate such as "0%", "0.04%" or "12.5%"
+ */
+export function formatErrorRate(percent: number): string {
+    return `${Number(percent.toFixed(2))}%`;
+}
+
+/**
+ * Formats failed request counts by status
+ * @param counts - Status and count pairs, highest first
+ * @returns Summary such as "401 ×3 · 500 ×1"
+ */
+export function formatStatusCounts(counts: [string, number][]): string {
+    return counts.map(([status, count]) => `${status} ×${count}`).join(' · ');
+}
+
+/**
+ * Picks the stat color for a value, green below the warning threshold
+ * @param value - Value to color
+ * @param thresholds - Values at which the stat turns amber, then red
+ * @returns Tailwind text color class
+ */
+export function getThresholdColor(value: number, thresholds: { WARNING: number; CRITICAL: number }): string {
+    if (value >= thresholds.CRITICAL) return 'text-red-400';
+    if (value >= thresholds.WARNING) return 'text-amber-400';
+    return 'text-emerald-400';
+}
@@ -0,0 +1,41 @@
+import { PaymentDevToolsText } from '../constants';
+import { compareMoney, parseMoney, toMoney } from '../../../utils/money';
+
+/**
+ * Formats how long a hold has been active, using its two largest units
+ * @param createdAt - ISO 8601 timestamp the hold was placed
+ * @param now - Current epoch milliseconds
+ * @returns Age such as "45s", "3m 12s", "2h 5m" or "1d 3h"; "0s" for future or unparseable timestamps
+ */
+export function formatHoldAge(createdAt: string, now: number): string {
+    const elapsed = now - Date.parse(createdAt);
+    const totalSeconds = Number.isFinite(elapsed) ? Math.max(0, Math.floor(elapsed / 1000)) : 0;
+
+    const days = Math.floor(totalSeconds / 86_400);
+    const hours = Math.floor((totalSeconds % 86_400) / 3_600);
+    const minutes = Math.floor((totalSeconds % 3_600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m ${seconds}s`;
+    return `${seconds}s`;
+}
+
+/**
+ * Checks a hold amount against the wallet it is placed on
+ * @param value - Amount as typed
+ * @param balance - Wallet balance in major units
+ * @param currency - Wallet currency
+ * @returns Error message, or null when the hold can be placed
+ */
+export function validateHoldAmount(value: string, balance: number, currency: string): string | null {
+    const amount = parseMoney(value, currency);
+    if (!amount || amount.minor <= 0) {
+        return PaymentDevToolsText.HOLD_AMOUNT_INVALID;
+    }
+    if (compareMoney(amount, toMoney(balance, currency)) > 0) {
+        return PaymentDevToolsText.HOLD_AMOUNT_EXCEEDS_BALANCE;
+    }
+    return null;
+}
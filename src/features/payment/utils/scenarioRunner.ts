@@ -0,0 +1,86 @@
+import { toDateString } from '../../wallet/utils/analytics';
+import type { MockTokenScenario, ScenarioOutcome, ScenarioResult } from '../types';
+
+/** Settings a scenario run was made with, recorded in its report */
+export interface ScenarioRunInfo {
+    startedAt: string;
+    finishedAt: string;
+    walletId: string;
+    /** Amount of each payment in major units, as a decimal string */
+    amount: string;
+    currency: string;
+}
+
+/** Pass/fail counts for a run */
+export interface ScenarioRunSummary {
+    total: number;
+    passed: number;
+    failed: number;
+}
+
+/**
+ * Checks a payment message against a scenario's expected messages, ignoring case
+ * Providers may wrap the message, so containing an expected message is enough
+ * @param message - Message returned for the payment
+ * @param expectedMessages - Accepted messages; empty accepts anything
+ * @returns True if the message is acceptable
+ */
+export function matchesExpectedMessage(message: string | null, expectedMessages: readonly string[]): boolean {
+    if (expectedMessages.length === 0) return true;
+    if (!message) return false;
+    const actual = message.toLowerCase();
+    return expectedMessages.some((expected) => actual.includes(expected.toLowerCase()));
+}
+
+/**
+ * Compares what happened in a scenario with what its token should produce
+ * A scenario whose flow could not finish always fails
+ * @param scenario - Token and expected outcome
+ * @param outcome - What the API returned
+ * @param durationMs - Time the scenario took
+ * @returns Result for the pass/fail matrix and report
+ */
+export function evaluateScenario(scenario: MockTokenScenario, outcome: ScenarioOutcome, durationMs: number): ScenarioResult {
+    const statusMatches = outcome.error === null && outcome.status === scenario.expectedStatus;
+    const messageMatches = outcome.error === null && matchesExpectedMessage(outcome.message, scenario.expectedMessages);
+
+    return {
+        ...outcome,
+        token: scenario.token,
+        paymentMethodId: scenario.paymentMethodId,
+        expectedStatus: scenario.expectedStatus,
+        expectedMessages: scenario.expectedMessages,
+        durationMs,
+        statusMatches,
+        messageMatches,
+        passed: statusMatches && messageMatches,
+    };
+}
+
+/**
+ * Counts passed and failed scenarios
+ * @param results - Results of the scenarios that ran
+ */
+export function summarizeScenarioRun(results: ScenarioResult[]): ScenarioRunSummary {
+    const passed = results.filter((result) => result.passed).length;
+    return { total: results.length, passed, failed: results.length - passed };
+}
+
+/**
+ * Builds the downloadable JSON report of a run, for tracking regressions between runs
+ * @param results - Results of the scenarios that ran
+ * @param run - Settings the run was made with
+ * @returns Pretty-printed JSON
+ */
+export function buildScenarioReport(results: ScenarioResult[], run: ScenarioRunInfo): string {
+    return JSON.stringify({ ...run, summary: summarizeScenarioRun(results), scenarios: results }, null, 2);
+}
+
+/**
+ * Builds the report filename
+ * @param date - Run date
+ * @returns Filename such as "apexpay-mock-scenarios-2024-06-24.json"
+ */
+export function buildScenarioReportFilename(date: Date = new Date()): string {
+    return `apexpay-mock-scenarios-${toDateString(date)}.json`;
+}
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { Button } from '../../../components/ui';
+import { BACKUP_CODE_LENGTH } from '../../../schemas';
+import { downloadFile } from '../../wallet/utils/transactionExport';
+import { SETTINGS_TEXT } from '../constants';
+
+interface BackupCodesListProps {
+    /** Newly generated backup codes */
+    codes: string[];
+    /** Called once the user has saved the codes */
+    onDone: () => void;
+}
+
+/**
+ * Splits a backup code in half for readability (e.g., "AB12C-DE34F")
+ * @param code - Backup code as returned by the server
+ */
+const formatBackupCode = (code: string): string =>
+    code.length === BACKUP_CODE_LENGTH ? `${code.slice(0, BACKUP_CODE_LENGTH / 2)}-${code.slice(BACKUP_CODE_LENGTH / 2)}` : code;
+
+/**
+ * One-time display of new backup codes, with copy and download
+ */
+export const BackupCodesList = ({ codes, onDone }: BackupCodesListProps) => {
+    const [isCopied, setIsCopied] = useState(false);
+    const content = codes.map(formatBackupCode).join('\n');
+
+    /**
+     * Copies every code to the clipboard, one per line
+     */
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(content);
+            setIsCopied(true);
+            setTimeout(() => setIsCopied(false), 2000);
+        } catch (error) {
+            console.error('Failed to copy backup codes:', error);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-col gap-1">
+                <h4 className="text-sm font-semibold text-white">{SETTINGS_TEXT.TWO_FACTOR.BACKUP_CODES_TITLE}</h4>
+                <p className="text-sm text-slate-400">{SETTINGS_TEXT.TWO_FACTOR.BACKUP_CODES_DESCRIPTION}</p>
+            </div>
+
+            <ul className="grid grid-cols-2 gap-2 p-4 bg-slate-800/50 rounded-lg border border-slate-700 font-mono text-sm text-white">
+                {codes.map((code) => (
+                    <li key={code}>{formatBackupCode(code)}</li>
+                ))}
+            </ul>
+
+            <div className="flex flex-wrap gap-2">
+                <Button type="button" variant="outline" size="sm" leftIcon={isCopied ? 'check' : 'content_copy'} onClick={handleCopy}>
+                    {isCopied ? SETTINGS_TEXT.TWO_FACTOR.COPIED : SETTINGS_TEXT.TWO_FACTOR.COPY_CODES}
+                </Button>
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    leftIcon="download"
+                    onClick={() => downloadFile(content, SETTINGS_TEXT.TWO_FACTOR.BACKUP_CODES_FILENAME, 'text/plain;charset=utf-8')}
+                >
+                    {SETTINGS_TEXT.TWO_FACTOR.DOWNLOAD_CODES}
+                </Button>
+                <Button type="button" size="sm" className="ml-auto" onClick={onDone}>
+                    {SETTINGS_TEXT.TWO_FACTOR.SAVED_CODES}
+                </Button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Alert, Button, DarkInput } from '../../../components/ui';
+import { changePasswordSchema, type ChangePasswordFormData } from '../../../schemas';
+import { useChangePasswordMutation } from '../services/userApi';
+import { SETTINGS_TEXT } from '../constants';
+import { getApiErrorMessage } from '../../../utils/apiError';
+
+/** Result banner shown after a change attempt */
+interface ChangeStatus {
+    variant: 'success' | 'error';
+    title: string;
+    message?: string;
+}
+
+/**
+ * Change password form
+ * Applies the registration strength rules to the new password
+ */
+export const ChangePasswordForm = () => {
+    const [status, setStatus] = useState<ChangeStatus | null>(null);
+    const [showPasswords, setShowPasswords] = useState(false);
+    const [changePassword, { isLoading }] = useChangePasswordMutation();
+
+    const {
+        register,
+        handleSubmit,
+        reset,
+        formState: { errors },
+    } = useForm<ChangePasswordFormData>({
+        resolver: zodResolver(changePasswordSchema),
+        mode: 'onBlur',
+        defaultValues: {
+            currentPassword: '',
+            newPassword: '',
+            confirmPassword: '',
+        },
+    });
+
+    const onSubmit = async (data: ChangePasswordFormData) => {
+        setStatus(null);
+        try {
+            const result = await changePassword({
+                currentPassword: data.currentPassword,
+                newPassword: data.newPassword,
+            }).unwrap();
+            reset();
+            setStatus({ variant: 'success', title: SETTINGS_TEXT.PASSWORD.SUCCESS_TITLE, message: result.message });
+        } catch (err) {
+            setStatus({ variant: 'error', title: SETTINGS_TEXT.PASSWORD.ERROR_TITLE, message: getApiErrorMessage(err, SETTINGS_TEXT.DEFAULT_ERROR) });
+        }
+    };
+
+    const passwordType = showPasswords ? 'text' : 'password';
+    const visibilityIcon = showPasswords ? 'visibility_off' : 'visibility';
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-col gap-1">
+                <h3 className="text-base font-semibold text-white">{SETTINGS_TEXT.PASSWORD.TITLE}</h3>
+                <p className="text-sm text-slate-400">{SETTINGS_TEXT.PASSWORD.DESCRIPTION}</p>
+            </div>
+
+            {status && (
+                <Alert
+                    variant={status.variant}
+                    title={status.title}
+                    message={status.message}
+                    onDismiss={() => setStatus(null)}
+                />
+            )}
+
+            <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-4">
+                <DarkInput
+                    id="settings-current-password"
+                    label={SETTINGS_TEXT.PASSWORD.CURRENT_LABEL}
+                    type={passwordType}
+                    placeholder={SETTINGS_TEXT.PASSWORD.PLACEHOLDER}
+                    leftIcon="lock"
+                    rightIcon={visibilityIcon}
+                    onRightIconClick={() => setShowPasswords(!showPasswords)}
+                    autoComplete="current-password"
+                    error={errors.currentPassword?.message}
+                    {...register('currentPassword')}
+                />
+
+                <DarkInput
+                    id="settings-new-password"
+                    label={SETTINGS_TEXT.PASSWORD.NEW_LABEL}
+                    type={passwordType}
+                    placeholder={SETTINGS_TEXT.PASSWORD.PLACEHOLDER}
+                    leftIcon="lock_reset"
+                    autoComplete="new-password"
+                    error={errors.newPassword?.message}
+                    {...register('newPassword')}
+                />
+
+                <DarkInput
+                    id="settings-confirm-password"
+                    label={SETTINGS_TEXT.PASSWORD.CONFIRM_LABEL}
+                    type={passwordType}
+                    placeholder={SETTINGS_TEXT.PASSWORD.PLACEHOLDER}
+                    leftIcon="lock_reset"
+                    autoComplete="new-password"
+                    error={errors.confirmPassword?.message}
+                    {...register('confirmPassword')}
+                />
+
+                <Button type="submit" disabled={isLoading} className="self-end">
+                    {isLoading ? SETTINGS_TEXT.PASSWORD.SUBMITTING : SETTINGS_TEXT.PASSWORD.SUBMIT}
+                </Button>
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,29 @@
+import { getAvatarColor, getInitials } from '../utils';
+
+/** Avatar sizes */
+const sizeClasses = {
+    sm: 'w-8 h-8 text-xs',
+    md: 'h-10 w-10 text-sm',
+};
+
+interface ContactAvatarProps {
+    /** Contact ID, used to pick a stable colour */
+    contactId: string;
+    /** Contact username, used for the initials */
+    username: string;
+    /** Avatar size */
+    size?: keyof typeof sizeClasses;
+}
+
+/**
+ * Initials avatar for a contact
+ * The colour is derived from the contact ID so it stays the same across renders and pages
+ */
+export const ContactAvatar = ({ contactId, username, size = 'md' }: ContactAvatarProps) => (
+    <div
+        className={`${sizeClasses[size]} rounded-full ${getAvatarColor(contactId)} flex items-center justify-center text-white font-bold shrink-0`}
+        aria-hidden="true"
+    >
+        {getInitials(username)}
+    </div>
+);
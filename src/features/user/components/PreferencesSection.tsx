@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Alert, Button, Card, LoadingSkeleton } from '../../../components/ui';
+import { useGetPreferencesQuery, useUpdatePreferencesMutation } from '../services/userApi';
+import { useGetWalletQuery } from '../../wallet/services/walletApi';
+import { CurrencyEnum } from '../../wallet/types';
+import { DEFAULT_CURRENCY } from '../../../utils/currency';
+import { DateFormatEnum, NumberFormatEnum, type UserPreferences } from '../types';
+import { SETTINGS_TEXT } from '../constants';
+import { getApiErrorMessage } from '../../../utils/apiError';
+
+/** Sample value used to preview each number format */
+const NUMBER_FORMAT_SAMPLE = 1234.56;
+
+/** Preferences as edited in the form; an empty wallet ID means "first wallet" */
+interface PreferencesFormData extends Omit<UserPreferences, 'defaultWalletId'> {
+    defaultWalletId: string;
+}
+
+/** Result banner shown after a save attempt */
+interface SaveStatus {
+    variant: 'success' | 'error';
+    title: string;
+    message?: string;
+}
+
+/**
+ * Renders the sample number in the given format
+ * @param locale - Locale that produces the format
+ */
+const previewNumberFormat = (locale: NumberFormatEnum): string =>
+    new Intl.NumberFormat(locale, { minimumFractionDigits: 2 }).format(NUMBER_FORMAT_SAMPLE);
+
+/**
+ * Preferences settings section
+ * Edits the default wallet and currency, which preselect options in money flows,
+ * and the number and date formats, which are only stored for now
+ */
+export const PreferencesSection = () => {
+    const [status, setStatus] = useState<SaveStatus | null>(null);
+    const { data: preferences, isLoading } = useGetPreferencesQuery();
+    const { data: wallets } = useGetWalletQuery();
+    const [updatePreferences, { isLoading: isSaving }] = useUpdatePreferencesMutation();
+
+    const {
+        register,
+        handleSubmit,
+        formState: { isDirty },
+    } = useForm<PreferencesFormData>({
+        defaultValues: {
+            defaultWalletId: '',
+            defaultCurrency: DEFAULT_CURRENCY,
+            numberFormat: NumberFormatEnum.COMMA_DOT,
+            dateFormat: DateFormatEnum.MEDIUM,
+        },
+        values: preferences ? { ...preferences, defaultWalletId: preferences.defaultWalletId ?? '' } : undefined,
+    });
+
+    const onSubmit = async (data: PreferencesFormData) => {
+        setStatus(null);
+        try {
+            await updatePreferences({ ...data, defaultWalletId: data.defaultWalletId || null }).unwrap();
+            setStatus({ variant: 'success', title: SETTINGS_TEXT.PREFERENCES.SUCCESS_TITLE });
+        } catch (err) {
+            setStatus({ variant: 'error', title: SETTINGS_TEXT.PREFERENCES.ERROR_TITLE, message: getApiErrorMessage(err, SETTINGS_TEXT.DEFAULT_ERROR) });
+        }
+    };
+
+    const selectStyles = 'w-full px-4 py-3 bg-[#0f1623] border border-transparent rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50';
+    const labelStyles = 'text-sm font-medium text-slate-300 ml-1';
+
+    return (
+        <Card className="flex flex-col gap-5">
+            <div className="flex flex-col gap-1">
+                <h2 className="text-lg font-bold text-white">{SETTINGS_TEXT.PREFERENCES.TITLE}</h2>
+                <p className="text-sm text-slate-400">{SETTINGS_TEXT.PREFERENCES.DESCRIPTION}</p>
+            </div>
+
+            {status && (
+                <Alert
+                    variant={status.variant}
+                    title={status.title}
+                    message={status.message}
+                    onDismiss={() => setStatus(null)}
+                />
+            )}
+
+            {isLoading ? (
+                <LoadingSkeleton variant="card" height="240px" />
+            ) : (
+                <form onSubmit={handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="flex flex-col gap-1.5">
+                        <label htmlFor="settings-default-wallet" className={labelStyles}>
+                            {SETTINGS_TEXT.PREFERENCES.DEFAULT_WALLET_LABEL}
+                        </label>
+                        <select id="settings-default-wallet" className={selectStyles} {...register('defaultWalletId')}>
+                            <option value="">{SETTINGS_TEXT.PREFERENCES.FIRST_WALLET}</option>
+                            {wallets?.map((wallet) => (
+                                <option key={wallet.walletId} value={wallet.walletId}>
+                                    {SETTINGS_TEXT.PREFERENCES.WALLET_OPTION(wallet.name, wallet.currency)}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="flex flex-col gap-1.5">
+                        <label htmlFor="settings-default-currency" className={labelStyles}>
+                            {SETTINGS_TEXT.PREFERENCES.DEFAULT_CURRENCY_LABEL}
+                        </label>
+                        <select id="settings-default-currency" className={selectStyles} {...register('defaultCurrency')}>
+                            {Object.values(CurrencyEnum).map((currency) => (
+                                <option key={currency} value={currency}>{currency}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="flex flex-col gap-1.5">
+                        <label htmlFor="settings-number-format" className={labelStyles}>
+                            {SETTINGS_TEXT.PREFERENCES.NUMBER_FORMAT_LABEL}
+                        </label>
+                        <select id="settings-number-format" className={selectStyles} {...register('numberFormat')}>
+                            {Object.values(NumberFormatEnum).map((format) => (
+                                <option key={format} value={format}>{previewNumberFormat(format)}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-slate-500 ml-1">{SETTINGS_TEXT.PREFERENCES.STORED_ONLY_HINT}</p>
+                    </div>
+
+                    <div className="flex flex-col gap-1.5">
+                        <label htmlFor="settings-date-format" className={labelStyles}>
+                            {SETTINGS_TEXT.PREFERENCES.DATE_FORMAT_LABEL}
+                        </label>
+                        <select id="settings-date-format" className={selectStyles} {...register('dateFormat')}>
+                            {Object.values(DateFormatEnum).map((format) => (
+                                <option key={format} value={format}>{format}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-slate-500 ml-1">{SETTINGS_TEXT.PREFERENCES.STORED_ONLY_HINT}</p>
+                    </div>
+
+                    <Button type="submit" disabled={isSaving || !isDirty} className="md:col-span-2 justify-self-end">
+                        {isSaving ? SETTINGS_TEXT.SAVING : SETTINGS_TEXT.SAVE}
+                    </Button>
+                </form>
+            )}
+        </Card>
+    );
+};
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Alert, Button, Card, DarkInput } from '../../../components/ui';
+import { profileSchema, type ProfileFormData } from '../../../schemas';
+import { useGetUserDetailsQuery, useUpdateProfileMutation } from '../services/userApi';
+import { SETTINGS_TEXT } from '../constants';
+import { getApiErrorMessage } from '../../../utils/apiError';
+
+/** Result banner shown after a save attempt */
+interface SaveStatus {
+    variant: 'success' | 'error';
+    title: string;
+    message?: string;
+}
+
+/**
+ * Profile settings section
+ * Edits the username and email, prefilled from the current user's details
+ */
+export const ProfileSection = () => {
+    const [status, setStatus] = useState<SaveStatus | null>(null);
+    const { data: user } = useGetUserDetailsQuery();
+    const [updateProfile, { isLoading }] = useUpdateProfileMutation();
+
+    const {
+        register,
+        handleSubmit,
+        formState: { errors, isDirty },
+    } = useForm<ProfileFormData>({
+        resolver: zodResolver(profileSchema),
+        mode: 'onBlur',
+        defaultValues: { username: '', email: '' },
+        // Keep the form in sync with the server copy until the user edits it
+        values: user ? { username: user.username, email: user.email ?? '' } : undefined,
+        resetOptions: { keepDirtyValues: true },
+    });
+
+    const onSubmit = async (data: ProfileFormData) => {
+        setStatus(null);
+        try {
+            await updateProfile(data).unwrap();
+            setStatus({ variant: 'success', title: SETTINGS_TEXT.PROFILE.SUCCESS_TITLE });
+        } catch (err) {
+            setStatus({ variant: 'error', title: SETTINGS_TEXT.PROFILE.ERROR_TITLE, message: getApiErrorMessage(err, SETTINGS_TEXT.DEFAULT_ERROR) });
+        }
+    };
+
+    return (
+        <Card className="flex flex-col gap-5">
+            <div className="flex flex-col gap-1">
+                <h2 className="text-lg font-bold text-white">{SETTINGS_TEXT.PROFILE.TITLE}</h2>
+                <p className="text-sm text-slate-400">{SETTINGS_TEXT.PROFILE.DESCRIPTION}</p>
+            </div>
+
+            {status && (
+                <Alert
+                    variant={status.variant}
+                    title={status.title}
+                    message={status.message}
+                    onDismiss={() => setStatus(null)}
+                />
+            )}
+
+            <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-4">
+                <DarkInput
+                    id="settings-username"
+                    label={SETTINGS_TEXT.PROFILE.USERNAME_LABEL}
+                    type="text"
+                    placeholder={SETTINGS_TEXT.PROFILE.USERNAME_PLACEHOLDER}
+                    leftIcon="person"
+                    autoComplete="username"
+                    error={errors.username?.message}
+                    {...register('username')}
+                />
+
+                <DarkInput
+                    id="settings-email"
+                    label={SETTINGS_TEXT.PROFILE.EMAIL_LABEL}
+                    type="email"
+                    placeholder={SETTINGS_TEXT.PROFILE.EMAIL_PLACEHOLDER}
+                    leftIcon="mail"
+                    autoComplete="email"
+                    error={errors.email?.message}
+                    {...register('email')}
+                />
+
+                <Button type="submit" disabled={isLoading || !isDirty} className="self-end">
+                    {isLoading ? SETTINGS_TEXT.SAVING : SETTINGS_TEXT.SAVE}
+                </Button>
+            </form>
+        </Card>
+    );
+};
@@ -0,0 +1,18 @@
+import { Card } from '../../../components/ui';
+import { ChangePasswordForm } from './ChangePasswordForm';
+import { SessionList } from './SessionList';
+import { TwoFactorSection } from './TwoFactorSection';
+
+/**
+ * Security settings section
+ * Groups the password change form, two-factor authentication and the active sessions list
+ */
+export const SecuritySection = () => (
+    <Card className="flex flex-col gap-6">
+        <ChangePasswordForm />
+        <div className="border-t border-slate-700" />
+        <TwoFactorSection />
+        <div className="border-t border-slate-700" />
+        <SessionList />
+    </Card>
+);
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Alert, Button, LoadingSkeleton } from '../../../components/ui';
+import { useGetSessionsQuery, useRevokeSessionMutation } from '../services/userApi';
+import { formatDateTime } from '../../wallet/utils/formatters';
+import { SETTINGS_TEXT } from '../constants';
+import { getApiErrorMessage } from '../../../utils/apiError';
+
+/**
+ * Active sessions list
+ * Shows every signed-in device, with the current one first and not revocable
+ */
+export const SessionList = () => {
+    const [revokeError, setRevokeError] = useState<string | null>(null);
+    const { data, isLoading, isError } = useGetSessionsQuery();
+    const [revokeSession, { isLoading: isRevoking, originalArgs: revokingId }] = useRevokeSessionMutation();
+
+    const sessions = [...(data?.sessions ?? [])].sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent));
+    const hasOtherSessions = sessions.some((session) => !session.isCurrent);
+
+    /**
+     * Signs out a session; the list refetches via tag invalidation
+     * @param sessionId - The session to revoke
+     */
+    const handleRevoke = async (sessionId: string) => {
+        setRevokeError(null);
+        try {
+            await revokeSession(sessionId).unwrap();
+        } catch (err) {
+            setRevokeError(getApiErrorMessage(err, SETTINGS_TEXT.DEFAULT_ERROR));
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-col gap-1">
+                <h3 className="text-base font-semibold text-white">{SETTINGS_TEXT.SESSIONS.TITLE}</h3>
+                <p className="text-sm text-slate-400">{SETTINGS_TEXT.SESSIONS.DESCRIPTION}</p>
+            </div>
+
+            {revokeError && (
+                <Alert
+                    variant="error"
+                    title={SETTINGS_TEXT.SESSIONS.ERROR_TITLE}
+                    message={revokeError}
+                    onDismiss={() => setRevokeError(null)}
+                />
+            )}
+
+            {isLoading ? (
+                <LoadingSkeleton variant="card" height="120px" />
+            ) : isError ? (
+                <p className="text-sm text-red-400">{SETTINGS_TEXT.SESSIONS.LOAD_ERROR}</p>
+            ) : (
+                <ul className="flex flex-col divide-y divide-slate-700">
+                    {sessions.map((session) => (
+                        <li key={session.sessionId} className="flex items-center justify-between gap-4 py-3">
+                            <div className="flex items-center gap-3 min-w-0">
+                                <span className="material-symbols-outlined text-slate-400">devices</span>
+                                <div className="flex flex-col min-w-0">
+                                    <p className="text-sm font-medium text-white truncate">
+                                        {session.deviceName}
+                                        {session.isCurrent && (
+                                            <span className="ml-2 text-xs text-green-500">{SETTINGS_TEXT.SESSIONS.CURRENT}</span>
+                                        )}
+                                    </p>
+                                    <p className="text-xs text-slate-400 truncate">
+                                        {[session.ipAddress, session.location].filter(Boolean).join(' · ')}
+                                        {' · '}
+                                        {SETTINGS_TEXT.SESSIONS.LAST_ACTIVE(formatDateTime(session.lastActiveAt))}
+                                    </p>
+                                </div>
+                            </div>
+                            {!session.isCurrent && (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={isRevoking}
+                                    onClick={() => handleRevoke(session.sessionId)}
+                                >
+                                    {isRevoking && revokingId === session.sessionId
+                                        ? SETTINGS_TEXT.SESSIONS.REVOKING
+                                        : SETTINGS_TEXT.SESSIONS.REVOKE}
+                                </Button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {!isLoading && !isError && !hasOtherSessions && (
+                <p className="text-sm text-slate-400">{SETTINGS_TEXT.SESSIONS.EMPTY}</p>
+            )}
+        </div>
+    );
+};
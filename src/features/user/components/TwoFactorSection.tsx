@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Alert, Button, LoadingSkeleton } from '../../../components/ui';
+import { MfaCodeForm } from '../../auth/components/MfaCodeForm';
+import { TwoFactorSetup } from './TwoFactorSetup';
+import { BackupCodesList } from './BackupCodesList';
+import {
+    useGetMfaStatusQuery,
+    useStartMfaSetupMutation,
+    useDisableMfaMutation,
+    useRegenerateBackupCodesMutation,
+} from '../services/userApi';
+import { formatDate } from '../../wallet/utils/formatters';
+import { SETTINGS_TEXT } from '../constants';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import type { MfaSetupResponse } from '../types';
+
+/** Result banner shown after a change */
+interface ChangeStatus {
+    variant: 'success' | 'error';
+    title: string;
+    message?: string;
+}
+
+/** Change that is waiting for a confirmation code */
+type PendingAction = 'disable' | 'regenerate';
+
+/**
+ * Two-factor authentication settings
+ * Turns 2FA on with an authenticator app, shows backup codes once, and turns it off again
+ */
+export const TwoFactorSection = () => {
+    const [status, setStatus] = useState<ChangeStatus | null>(null);
+    const [setup, setSetup] = useState<MfaSetupResponse | null>(null);
+    const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+    const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+
+    const { data: mfaStatus, isLoading, isError } = useGetMfaStatusQuery();
+    const [startMfaSetup, { isLoading: isStarting }] = useStartMfaSetupMutation();
+    const [disableMfa, { isLoading: isDisabling }] = useDisableMfaMutation();
+    const [regenerateBackupCodes, { isLoading: isRegenerating }] = useRegenerateBackupCodesMutation();
+
+    /**
+     * Shows a failed change in the banner
+     * @param err - Error from the mutation
+     */
+    const showError = (err: unknown) => {
+        setStatus({ variant: 'error', title: SETTINGS_TEXT.TWO_FACTOR.ERROR_TITLE, message: getApiErrorMessage(err, SETTINGS_TEXT.DEFAULT_ERROR) });
+    };
+
+    /**
+     * Starts enrollment with a new secret
+     */
+    const handleTurnOn = async () => {
+        setStatus(null);
+        try {
+            setSetup(await startMfaSetup().unwrap());
+        } catch (err) {
+            showError(err);
+        }
+    };
+
+    /**
+     * Shows the first backup codes once enrollment is confirmed
+     * @param codes - Backup codes from enableMfa
+     */
+    const handleEnabled = (codes: string[]) => {
+        setSetup(null);
+        setBackupCodes(codes);
+        setStatus({ variant: 'success', title: SETTINGS_TEXT.TWO_FACTOR.ENABLED_TITLE });
+    };
+
+    /**
+     * Applies the pending change once its code is entered
+     * @param code - Authenticator code, or a backup code when turning 2FA off
+     */
+    const handleConfirm = async (code: string) => {
+        setStatus(null);
+        try {
+            if (pendingAction === 'disable') {
+                await disableMfa({ code }).unwrap();
+                setStatus({ variant: 'success', title: SETTINGS_TEXT.TWO_FACTOR.DISABLED_TITLE });
+            } else {
+                const result = await regenerateBackupCodes({ code }).unwrap();
+                setBackupCodes(result.backupCodes);
+            }
+            setPendingAction(null);
+        } catch (err) {
+            showError(err);
+        }
+    };
+
+    const renderContent = () => {
+        if (isLoading) return <LoadingSkeleton variant="card" height="80px" />;
+        if (isError || !mfaStatus) return <p className="text-sm text-red-400">{SETTINGS_TEXT.TWO_FACTOR.LOAD_ERROR}</p>;
+        if (setup) return <TwoFactorSetup setup={setup} onEnabled={handleEnabled} onCancel={() => setSetup(null)} />;
+        if (backupCodes) return <BackupCodesList codes={backupCodes} onDone={() => setBackupCodes(null)} />;
+
+        if (pendingAction) {
+            return (
+                <div className="flex flex-col gap-3">
+                    <p className="text-sm text-slate-300">
+                        {pendingAction === 'disable'
+                            ? SETTINGS_TEXT.TWO_FACTOR.DISABLE_PROMPT
+                            : SETTINGS_TEXT.TWO_FACTOR.REGENERATE_PROMPT}
+                    </p>
+                    <MfaCodeForm
+                        id="settings-mfa-confirm-code"
+                        allowBackupCode={pendingAction === 'disable'}
+                        submitLabel={pendingAction === 'disable' ? SETTINGS_TEXT.TWO_FACTOR.TURN_OFF : SETTINGS_TEXT.TWO_FACTOR.NEW_BACKUP_CODES}
+                        submittingLabel={pendingAction === 'disable' ? SETTINGS_TEXT.TWO_FACTOR.TURNING_OFF : SETTINGS_TEXT.TWO_FACTOR.GENERATING}
+                        isSubmitting={isDisabling || isRegenerating}
+                        onSubmit={handleConfirm}
+                        onCancel={() => setPendingAction(null)}
+                        cancelLabel={SETTINGS_TEXT.TWO_FACTOR.CANCEL}
+                    />
+                </div>
+            );
+        }
+
+        return (
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                    <span className={`material-symbols-outlined ${mfaStatus.enabled ? 'text-green-500' : 'text-slate-500'}`}>
+                        {mfaStatus.enabled ? 'verified_user' : 'gpp_maybe'}
+                    </span>
+                    <div className="flex flex-col">
+                        <p className="text-sm font-medium text-white">
+                            {mfaStatus.enabled ? SETTINGS_TEXT.TWO_FACTOR.ENABLED : SETTINGS_TEXT.TWO_FACTOR.DISABLED}
+                        </p>
+                        {mfaStatus.enabled && (
+                            <p className="text-xs text-slate-400">
+                                {mfaStatus.enabledAt && `${SETTINGS_TEXT.TWO_FACTOR.ENABLED_SINCE(formatDate(mfaStatus.enabledAt))} · `}
+                                {SETTINGS_TEXT.TWO_FACTOR.BACKUP_CODES_LEFT(mfaStatus.backupCodesRemaining)}
+                            </p>
+                        )}
+                    </div>
+                </div>
+
+                {mfaStatus.enabled ? (
+                    <div className="flex gap-2">
+                        <Button type="button" variant="outline" size="sm" leftIcon="key" onClick={() => setPendingAction('regenerate')}>
+                            {SETTINGS_TEXT.TWO_FACTOR.NEW_BACKUP_CODES}
+                        </Button>
+                        <Button type="button" variant="ghost" size="sm" onClick={() => setPendingAction('disable')}>
+                            {SETTINGS_TEXT.TWO_FACTOR.TURN_OFF}
+                        </Button>
+                    </div>
+                ) : (
+                    <Button type="button" size="sm" leftIcon="shield_lock" onClick={handleTurnOn} disabled={isStarting}>
+                        {isStarting ? SETTINGS_TEXT.TWO_FACTOR.STARTING : SETTINGS_TEXT.TWO_FACTOR.TURN_ON}
+                    </Button>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-col gap-1">
+                <h3 className="text-base font-semibold text-white">{SETTINGS_TEXT.TWO_FACTOR.TITLE}</h3>
+                <p className="text-sm text-slate-400">{SETTINGS_TEXT.TWO_FACTOR.DESCRIPTION}</p>
+            </div>
+
+            {status && (
+                <Alert
+                    variant={status.variant}
+                    title={status.title}
+                    message={status.message}
+                    onDismiss={() => setStatus(null)}
+                />
+            )}
+
+            {renderContent()}
+        </div>
+    );
+};
@@ -0,0 +1,83 @@
+import { Alert, Button } from '../../../components/ui';
+import { MfaCodeForm } from '../../auth/components/MfaCodeForm';
+import { useEnableMfaMutation } from '../services/userApi';
+import { SETTINGS_TEXT } from '../constants';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import type { MfaSetupResponse } from '../types';
+
+interface TwoFactorSetupProps {
+    /** Secret and QR code from startMfaSetup */
+    setup: MfaSetupResponse;
+    /** Called with the first backup codes once 2FA is on */
+    onEnabled: (backupCodes: string[]) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Authenticator enrollment: scan the QR code (or type the key), then confirm a code
+ */
+export const TwoFactorSetup = ({ setup, onEnabled, onCancel }: TwoFactorSetupProps) => {
+    const [enableMfa, { isLoading, error }] = useEnableMfaMutation();
+
+    /**
+     * Turns 2FA on with a code from the newly added app
+     * @param code - Authenticator code
+     */
+    const handleConfirm = async (code: string) => {
+        try {
+            const result = await enableMfa({ code }).unwrap();
+            onEnabled(result.backupCodes);
+        } catch (err) {
+            console.error('Failed to enable two-factor authentication:', err);
+        }
+    };
+
+    // Group the key in fours so it is easier to type
+    const groupedSecret = setup.secret.match(/.{1,4}/g)?.join(' ') ?? setup.secret;
+
+    return (
+        <div className="flex flex-col gap-4">
+            {error && (
+                <Alert
+                    variant="error"
+                    title={SETTINGS_TEXT.TWO_FACTOR.ERROR_TITLE}
+                    message={getApiErrorMessage(error, SETTINGS_TEXT.DEFAULT_ERROR)}
+                />
+            )}
+
+            <p className="text-sm text-slate-300">{SETTINGS_TEXT.TWO_FACTOR.SCAN_STEP}</p>
+            <img
+                src={setup.qrCode}
+                alt={SETTINGS_TEXT.TWO_FACTOR.QR_ALT}
+                className="size-44 rounded-xl bg-white p-2"
+            />
+
+            <div className="flex flex-col gap-2">
+                <span className="text-xs font-medium text-slate-400">{SETTINGS_TEXT.TWO_FACTOR.MANUAL_KEY_LABEL}</span>
+                <div className="flex items-center gap-2 p-2.5 bg-slate-800/50 rounded-lg border border-slate-700">
+                    <span className="font-mono text-xs text-slate-300 break-all flex-1">{groupedSecret}</span>
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        leftIcon="content_copy"
+                        onClick={() => navigator.clipboard.writeText(setup.secret).catch((err) => console.error('Failed to copy key:', err))}
+                    >
+                        {SETTINGS_TEXT.TWO_FACTOR.COPY_KEY}
+                    </Button>
+                </div>
+            </div>
+
+            <p className="text-sm text-slate-300">{SETTINGS_TEXT.TWO_FACTOR.CODE_STEP}</p>
+            <MfaCodeForm
+                id="settings-mfa-setup-code"
+                submitLabel={SETTINGS_TEXT.TWO_FACTOR.CONFIRM}
+                submittingLabel={SETTINGS_TEXT.TWO_FACTOR.CONFIRMING}
+                isSubmitting={isLoading}
+                onSubmit={handleConfirm}
+                onCancel={onCancel}
+                cancelLabel={SETTINGS_TEXT.TWO_FACTOR.CANCEL}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,9 @@
+export { ProfileSection } from './ProfileSection';
+export { SecuritySection } from './SecuritySection';
+export { ChangePasswordForm } from './ChangePasswordForm';
+export { SessionList } from './SessionList';
+export { TwoFactorSection } from './TwoFactorSection';
+export { TwoFactorSetup } from './TwoFactorSetup';
+export { BackupCodesList } from './BackupCodesList';
+export { PreferencesSection } from './PreferencesSection';
+export { ContactAvatar } from './ContactAvatar';
@@ -0,0 +1 @@
+export { SETTINGS_TEXT } from './text';
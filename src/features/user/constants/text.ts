@@ -0,0 +1,98 @@
+/**
+ * Settings Page Text Constants
+ * Centralized text content for the user settings page
+ */
+
+export const SETTINGS_TEXT = {
+    PAGE_TITLE: 'Settings',
+    PAGE_DESCRIPTION: 'Manage your profile, security and display preferences.',
+    DEFAULT_ERROR: 'Something went wrong. Please try again.',
+    SAVE: 'Save Changes',
+    SAVING: 'Saving...',
+
+    PROFILE: {
+        TITLE: 'Profile',
+        DESCRIPTION: 'Your username and the email address you sign in with.',
+        USERNAME_LABEL: 'Username',
+        USERNAME_PLACEHOLDER: 'johndoe',
+        EMAIL_LABEL: 'Email Address',
+        EMAIL_PLACEHOLDER: 'john@apexpay.com',
+        SUCCESS_TITLE: 'Profile updated',
+        ERROR_TITLE: 'Could not update profile',
+    },
+
+    PASSWORD: {
+        TITLE: 'Change Password',
+        DESCRIPTION: 'Changing your password signs you out of all other sessions.',
+        CURRENT_LABEL: 'Current Password',
+        NEW_LABEL: 'New Password',
+        CONFIRM_LABEL: 'Confirm New Password',
+        PLACEHOLDER: '••••••••',
+        SUBMIT: 'Update Password',
+        SUBMITTING: 'Updating...',
+        SUCCESS_TITLE: 'Password changed',
+        ERROR_TITLE: 'Could not change password',
+    },
+
+    TWO_FACTOR: {
+        TITLE: 'Two-Factor Authentication',
+        DESCRIPTION: 'Ask for a code from an authenticator app when signing in and before large transfers.',
+        ENABLED: 'On',
+        DISABLED: 'Off',
+        ENABLED_SINCE: (date: string) => `Turned on ${date}`,
+        BACKUP_CODES_LEFT: (count: number) => `${count} backup ${count === 1 ? 'code' : 'codes'} left`,
+        TURN_ON: 'Turn On',
+        STARTING: 'Starting...',
+        TURN_OFF: 'Turn Off',
+        TURNING_OFF: 'Turning off...',
+        NEW_BACKUP_CODES: 'New Backup Codes',
+        GENERATING: 'Generating...',
+        CANCEL: 'Cancel',
+        SCAN_STEP: 'Scan this QR code with your authenticator app.',
+        QR_ALT: 'QR code for your authenticator app',
+        MANUAL_KEY_LABEL: 'Or enter this key manually',
+        COPY_KEY: 'Copy key',
+        CODE_STEP: 'Enter the 6-digit code the app shows to finish.',
+        CONFIRM: 'Confirm',
+        CONFIRMING: 'Confirming...',
+        DISABLE_PROMPT: 'Enter a code from your app or a backup code to turn off two-factor authentication.',
+        REGENERATE_PROMPT: 'Enter a code from your app. Your current backup codes will stop working.',
+        BACKUP_CODES_TITLE: 'Save your backup codes',
+        BACKUP_CODES_DESCRIPTION: 'Each code signs you in once if you lose your phone. They will not be shown again.',
+        COPY_CODES: 'Copy',
+        COPIED: 'Copied',
+        DOWNLOAD_CODES: 'Download',
+        BACKUP_CODES_FILENAME: 'apexpay-backup-codes.txt',
+        SAVED_CODES: 'I\'ve Saved These Codes',
+        ENABLED_TITLE: 'Two-factor authentication is on',
+        DISABLED_TITLE: 'Two-factor authentication is off',
+        ERROR_TITLE: 'Could not update two-factor authentication',
+        LOAD_ERROR: 'Could not load two-factor settings.',
+    },
+
+    SESSIONS: {
+        TITLE: 'Active Sessions',
+        DESCRIPTION: 'Devices currently signed in to your account.',
+        CURRENT: 'This device',
+        LAST_ACTIVE: (when: string) => `Last active ${when}`,
+        REVOKE: 'Sign out',
+        REVOKING: 'Signing out...',
+        EMPTY: 'No other active sessions.',
+        LOAD_ERROR: 'Could not load sessions.',
+        ERROR_TITLE: 'Could not sign out session',
+    },
+
+    PREFERENCES: {
+        TITLE: 'Preferences',
+        DESCRIPTION: 'Defaults used when topping up, scheduling transfers and adding wallets.',
+        DEFAULT_WALLET_LABEL: 'Default Wallet',
+        FIRST_WALLET: 'First wallet',
+        DEFAULT_CURRENCY_LABEL: 'Default Currency',
+        NUMBER_FORMAT_LABEL: 'Number Format',
+        DATE_FORMAT_LABEL: 'Date Format',
+        STORED_ONLY_HINT: 'Saved to your account only. Amounts and dates in the app do not use it yet.',
+        WALLET_OPTION: (name: string, currency: string) => `${name} (${currency})`,
+        SUCCESS_TITLE: 'Preferences saved',
+        ERROR_TITLE: 'Could not save preferences',
+    },
+} as const;
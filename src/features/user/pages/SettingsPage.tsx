@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import { Sidebar, MobileHeader } from '../../wallet/components';
+import { ProfileSection, SecuritySection, PreferencesSection } from '../components';
+import { SETTINGS_TEXT } from '../constants';
+
+/**
+ * Settings Page
+ * Profile, security (password and sessions) and preference settings for the current user
+ */
+export const SettingsPage = () => {
+    const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+
+    return (
+        <div className="flex h-screen w-full overflow-hidden">
+            {/* Sidebar */}
+            <Sidebar
+                isOpen={isSidebarOpen}
+                onClose={() => setIsSidebarOpen(false)}
+                currentPath="/settings"
+            />
+
+            {/* Main Content */}
+            <main className="flex-1 flex flex-col h-full overflow-y-auto bg-[#0a0f1a]">
+                {/* Mobile Header */}
+                <MobileHeader onMenuClick={() => setIsSidebarOpen(true)} />
+
+                {/* Page Content */}
+                <div className="container mx-auto max-w-3xl px-4 md:px-8 py-8 flex flex-col gap-6">
+                    {/* Header */}
+                    <div className="flex flex-col gap-1">
+                        <h1 className="text-2xl font-bold text-white">{SETTINGS_TEXT.PAGE_TITLE}</h1>
+                        <p className="text-sm text-slate-400">{SETTINGS_TEXT.PAGE_DESCRIPTION}</p>
+                    </div>
+
+                    <ProfileSection />
+                    <SecuritySection />
+                    <PreferencesSection />
+                </div>
+            </main>
+        </div>
+    );
+};
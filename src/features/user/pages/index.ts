@@ -0,0 +1 @@
+export { SettingsPage } from './SettingsPage';
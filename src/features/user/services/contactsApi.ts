@@ -4,6 +4,8 @@ import type {
     AddContactResponse,
     GetContactsResponse,
     DeleteContactResponse,
+    UpdateContactFavoriteRequest,
+    ContactDto,
 } from '../types';
 
 /** Base path for contacts API endpoints */
@@ -33,6 +35,20 @@ export const contactsApi = protectedApi.injectEndpoints({
             providesTags: ['Contact'],
         }),
 
+        /**
+         * Marks or unmarks a contact as a favourite
+         * @param contactId - The UUID of the contact to update
+         * @param isFavorite - Whether the contact should be pinned
+         */
+        updateContactFavorite: builder.mutation<ContactDto, UpdateContactFavoriteRequest>({
+            query: ({ contactId, isFavorite }) => ({
+                url: `${CONTACTS_BASE_PATH}/${contactId}/favorite`,
+                method: 'PUT',
+                body: { isFavorite },
+            }),
+            invalidatesTags: ['Contact'],
+        }),
+
         /**
          * Deletes a contact by ID
          * @param contactId - The UUID of the contact to delete
@@ -51,5 +67,6 @@ export const contactsApi = protectedApi.injectEndpoints({
 export const {
     useAddContactMutation,
     useGetContactsQuery,
+    useUpdateContactFavoriteMutation,
     useDeleteContactMutation,
 } = contactsApi;
@@ -1,9 +1,29 @@
 import { protectedApi } from '../../../store/api';
-import type { GetUserDetailsResponse } from '../types';
+import type {
+    GetUserDetailsResponse,
+    UpdateProfileRequest,
+    UpdateProfileResponse,
+    ChangePasswordRequest,
+    ChangePasswordResponse,
+    GetSessionsResponse,
+    RevokeSessionResponse,
+    UserPreferences,
+    UpdatePreferencesRequest,
+    MfaStatus,
+    MfaSetupResponse,
+    MfaCodeRequest,
+    BackupCodesResponse,
+    DisableMfaResponse,
+} from '../types';
 
 /** Base path for user API endpoints */
 const USER_BASE_PATH = '/user';
 
+/** User tag entries for the sub-resources that change independently of the profile */
+const SESSIONS_TAG = { type: 'User', id: 'SESSIONS' } as const;
+const PREFERENCES_TAG = { type: 'User', id: 'PREFERENCES' } as const;
+const MFA_TAG = { type: 'User', id: 'MFA' } as const;
+
 // Inject user endpoints into the PROTECTED API (requires auth)
 export const userApi = protectedApi.injectEndpoints({
     endpoints: (builder) => ({
@@ -15,8 +35,146 @@ export const userApi = protectedApi.injectEndpoints({
             query: () => `${USER_BASE_PATH}/me`,
             providesTags: ['User'],
         }),
+
+        /**
+         * Updates the current user's username and email
+         * Invalidates every User entry since the name appears across the app
+         */
+        updateProfile: builder.mutation<UpdateProfileResponse, UpdateProfileRequest>({
+            query: (body) => ({
+                url: `${USER_BASE_PATH}/me`,
+                method: 'PATCH',
+                body,
+            }),
+            invalidatesTags: ['User'],
+        }),
+
+        /**
+         * Changes the current user's password
+         * The backend signs out other sessions, so the session list is refetched
+         */
+        changePassword: builder.mutation<ChangePasswordResponse, ChangePasswordRequest>({
+            query: (body) => ({
+                url: `${USER_BASE_PATH}/me/password`,
+                method: 'POST',
+                body,
+            }),
+            invalidatesTags: [SESSIONS_TAG],
+        }),
+
+        /**
+         * Gets the devices and browsers currently signed in to the account
+         */
+        getSessions: builder.query<GetSessionsResponse, void>({
+            query: () => `${USER_BASE_PATH}/sessions`,
+            providesTags: [SESSIONS_TAG],
+        }),
+
+        /**
+         * Signs out a single session
+         * @param sessionId - The session to revoke
+         */
+        revokeSession: builder.mutation<RevokeSessionResponse, string>({
+            query: (sessionId) => ({
+                url: `${USER_BASE_PATH}/sessions/${sessionId}`,
+                method: 'DELETE',
+            }),
+            invalidatesTags: [SESSIONS_TAG],
+        }),
+
+        /**
+         * Gets the current user's display and default-selection preferences
+         */
+        getPreferences: builder.query<UserPreferences, void>({
+            query: () => `${USER_BASE_PATH}/preferences`,
+            providesTags: [PREFERENCES_TAG],
+        }),
+
+        /**
+         * Updates one or more preferences
+         * @param body - Only the preferences being changed
+         */
+        updatePreferences: builder.mutation<UserPreferences, UpdatePreferencesRequest>({
+            query: (body) => ({
+                url: `${USER_BASE_PATH}/preferences`,
+                method: 'PATCH',
+                body,
+            }),
+            invalidatesTags: [PREFERENCES_TAG],
+        }),
+
+        /**
+         * Gets whether two-factor authentication is on and how many backup codes are left
+         */
+        getMfaStatus: builder.query<MfaStatus, void>({
+            query: () => `${USER_BASE_PATH}/mfa`,
+            providesTags: [MFA_TAG],
+        }),
+
+        /**
+         * Starts authenticator enrollment with a new secret
+         * 2FA stays off until enableMfa confirms a code from the app
+         */
+        startMfaSetup: builder.mutation<MfaSetupResponse, void>({
+            query: () => ({
+                url: `${USER_BASE_PATH}/mfa/setup`,
+                method: 'POST',
+            }),
+        }),
+
+        /**
+         * Turns 2FA on once the authenticator app produces a valid code
+         * @returns The first set of backup codes
+         */
+        enableMfa: builder.mutation<BackupCodesResponse, MfaCodeRequest>({
+            query: (body) => ({
+                url: `${USER_BASE_PATH}/mfa/enable`,
+                method: 'POST',
+                body,
+            }),
+            invalidatesTags: [MFA_TAG],
+        }),
+
+        /**
+         * Turns 2FA off
+         * @param code - Authenticator or backup code
+         */
+        disableMfa: builder.mutation<DisableMfaResponse, MfaCodeRequest>({
+            query: (body) => ({
+                url: `${USER_BASE_PATH}/mfa/disable`,
+                method: 'POST',
+                body,
+            }),
+            invalidatesTags: [MFA_TAG],
+        }),
+
+        /**
+         * Replaces every backup code with a new set
+         * @param code - Authenticator code
+         */
+        regenerateBackupCodes: builder.mutation<BackupCodesResponse, MfaCodeRequest>({
+            query: (body) => ({
+                url: `${USER_BASE_PATH}/mfa/backup-codes`,
+                method: 'POST',
+                body,
+            }),
+            invalidatesTags: [MFA_TAG],
+        }),
     }),
 });
 
 // Export auto-generated hooks
-export const { useGetUserDetailsQuery } = userApi;
+export const {
+    useGetUserDetailsQuery,
+    useUpdateProfileMutation,
+    useChangePasswordMutation,
+    useGetSessionsQuery,
+    useRevokeSessionMutation,
+    useGetPreferencesQuery,
+    useUpdatePreferencesMutation,
+    useGetMfaStatusQuery,
+    useStartMfaSetupMutation,
+    useEnableMfaMutation,
+    useDisableMfaMutation,
+    useRegenerateBackupCodesMutation,
+} = userApi;
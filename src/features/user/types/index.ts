@@ -1,3 +1,60 @@
+import type { CurrencyEnum } from '../../wallet/types';
+
+// ============================================
+// Enums (as const objects for verbatimModuleSyntax compatibility)
+// ============================================
+
+/** Date display formats a user can choose */
+export const DateFormatEnum = {
+    /** e.g., Jun 24, 2024 */
+    MEDIUM: 'MMM D, YYYY',
+    /** e.g., 24/06/2024 */
+    DAY_FIRST: 'DD/MM/YYYY',
+    /** e.g., 06/24/2024 */
+    MONTH_FIRST: 'MM/DD/YYYY',
+    /** e.g., 2024-06-24 */
+    ISO: 'YYYY-MM-DD',
+} as const;
+
+export type DateFormatEnum = (typeof DateFormatEnum)[keyof typeof DateFormatEnum];
+
+/** Number display formats a user can choose, keyed by the locale that produces them */
+export const NumberFormatEnum = {
+    /** e.g., 1,234.56 */
+    COMMA_DOT: 'en-US',
+    /** e.g., 1.234,56 */
+    DOT_COMMA: 'de-DE',
+    /** e.g., 1 234,56 */
+    SPACE_COMMA: 'fr-FR',
+} as const;
+
+export type NumberFormatEnum = (typeof NumberFormatEnum)[keyof typeof NumberFormatEnum];
+
+// ============================================
+// API Request Types
+// ============================================
+
+/** Request to update the user's profile */
+export interface UpdateProfileRequest {
+    username: string;
+    email: string;
+}
+
+/** Request to change the user's password */
+export interface ChangePasswordRequest {
+    currentPassword: string;
+    newPassword: string;
+}
+
+/** Request carrying a two-factor code to confirm an MFA settings change */
+export interface MfaCodeRequest {
+    /** Authenticator app code, or a backup code where accepted */
+    code: string;
+}
+
+/** Request to update preferences (only the fields being changed) */
+export type UpdatePreferencesRequest = Partial<UserPreferences>;
+
 // ============================================
 // API Response Types
 // ============================================
@@ -6,6 +63,82 @@
 export interface GetUserDetailsResponse {
     userId: string;
     username: string;
+    email?: string;
+}
+
+/** Response after updating the profile */
+export type UpdateProfileResponse = GetUserDetailsResponse;
+
+/** Response after changing the password */
+export interface ChangePasswordResponse {
+    message: string;
+}
+
+/** Two-factor authentication status of the account */
+export interface MfaStatus {
+    enabled: boolean;
+    /** ISO 8601 timestamp of when 2FA was turned on, or null when off */
+    enabledAt: string | null;
+    /** Unused backup codes left */
+    backupCodesRemaining: number;
+}
+
+/** Authenticator enrollment started by the user */
+export interface MfaSetupResponse {
+    /** Base32 secret for entering the key manually */
+    secret: string;
+    /** otpauth:// URI encoded in the QR code */
+    otpauthUrl: string;
+    /** PNG data URL of a QR code encoding the otpauth URI */
+    qrCode: string;
+}
+
+/** One-time backup codes; only ever returned when they are generated */
+export interface BackupCodesResponse {
+    backupCodes: string[];
+}
+
+/** Response after turning 2FA off */
+export interface DisableMfaResponse {
+    message: string;
+}
+
+/** A device or browser signed in to the user's account */
+export interface UserSession {
+    sessionId: string;
+    /** Device or browser description (e.g., "Chrome on macOS") */
+    deviceName: string;
+    ipAddress: string;
+    /** Approximate location derived from the IP address */
+    location?: string;
+    /** ISO 8601 timestamp of the session's last request */
+    lastActiveAt: string;
+    /** ISO 8601 timestamp of sign-in */
+    createdAt: string;
+    /** Whether this is the session making the request */
+    isCurrent: boolean;
+}
+
+/** Response for the active sessions list */
+export interface GetSessionsResponse {
+    sessions: UserSession[];
+}
+
+/** Response after revoking a session */
+export interface RevokeSessionResponse {
+    message: string;
+}
+
+/** Display and default-selection preferences */
+export interface UserPreferences {
+    /** Wallet preselected when topping up without a wallet and when starting a scheduled transfer, or null for the first wallet */
+    defaultWalletId: string | null;
+    /** Currency preselected when creating a wallet */
+    defaultCurrency: CurrencyEnum;
+    /** Stored only; amounts are not reformatted with it yet */
+    numberFormat: NumberFormatEnum;
+    /** Stored only; dates are not reformatted with it yet */
+    dateFormat: DateFormatEnum;
 }
 
 // ============================================
@@ -17,6 +150,10 @@ export interface ContactDto {
     contactId: string;
     username: string;
     email: string;
+    /** Whether the user pinned this contact to the top of their list */
+    isFavorite?: boolean;
+    /** When the user last sent this contact money (ISO 8601), or null if never */
+    lastPaidAt?: string | null;
 }
 
 /** Request to add a new contact */
@@ -40,3 +177,19 @@ export interface GetContactsResponse {
 export interface DeleteContactResponse {
     message: string;
 }
+
+/** Request to mark or unmark a contact as a favourite */
+export interface UpdateContactFavoriteRequest {
+    contactId: string;
+    isFavorite: boolean;
+}
+
+/** Contacts grouped for display: pinned, recently paid, then everyone else */
+export interface ContactSections {
+    /** Favourite contacts, alphabetical */
+    favorites: ContactDto[];
+    /** Non-favourite contacts the user has paid, most recent first */
+    recent: ContactDto[];
+    /** Remaining contacts, alphabetical */
+    others: ContactDto[];
+}
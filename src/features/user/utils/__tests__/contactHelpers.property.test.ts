@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { getInitials, filterContacts, sortContacts, getContactSections } from '../contactHelpers';
+import type { ContactDto } from '../../types';
+
+/**
+ * Property-based tests for contact helpers
+ *
+ * **Validates: Contacts management**
+ * - Initials are at most two uppercase characters taken from the username
+ * - Favourites come first, then recently paid contacts, then everyone else
+ * - Every contact lands in exactly one section
+ */
+
+const contactArbitrary: fc.Arbitrary<ContactDto> = fc.record({
+    contactId: fc.uuid(),
+    username: fc.stringMatching(/^[a-z][a-z0-9_]{0,15}$/),
+    email: fc.emailAddress(),
+    isFavorite: fc.boolean(),
+    lastPaidAt: fc.option(
+        fc.integer({ min: Date.UTC(2020, 0, 1), max: Date.UTC(2030, 0, 1) }).map((ms) => new Date(ms).toISOString()),
+        { nil: null }
+    ),
+});
+
+const contactsArbitrary = fc.uniqueArray(contactArbitrary, { selector: (contact) => contact.contactId, maxLength: 20 });
+
+describe('Contact Helpers Property Tests', () => {
+    describe('getInitials', () => {
+        it('should return at most two uppercase initials', () => {
+            fc.assert(
+                fc.property(fc.string({ minLength: 1 }), (name) => {
+                    const initials = getInitials(name);
+                    expect(initials.length).toBeLessThanOrEqual(2);
+                    expect(initials).toBe(initials.toUpperCase());
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should use the first and last word of multi-word usernames', () => {
+            expect(getInitials('jane_doe')).toBe('JD');
+            expect(getInitials('Mary Ann Smith')).toBe('MS');
+            expect(getInitials('alex')).toBe('AL');
+            expect(getInitials('   ')).toBe('??');
+        });
+    });
+
+    describe('filterContacts', () => {
+        it('should match username or email ignoring case', () => {
+            fc.assert(
+                fc.property(contactsArbitrary, fc.string({ maxLength: 3 }), (contacts, query) => {
+                    const result = filterContacts(contacts, query);
+                    const normalized = query.trim().toLowerCase();
+                    result.forEach((contact) => {
+                        expect(
+                            contact.username.toLowerCase().includes(normalized)
+                            || contact.email.toLowerCase().includes(normalized)
+                        ).toBe(true);
+                    });
+                    if (!normalized) expect(result).toEqual(contacts);
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('sortContacts', () => {
+        it('should put favourites first and order the rest by last payment', () => {
+            fc.assert(
+                fc.property(contactsArbitrary, (contacts) => {
+                    const sorted = sortContacts(contacts);
+                    expect(sorted).toHaveLength(contacts.length);
+                    for (let i = 1; i < sorted.length; i++) {
+                        const previous = sorted[i - 1];
+                        const current = sorted[i];
+                        expect(Number(Boolean(previous.isFavorite))).toBeGreaterThanOrEqual(Number(Boolean(current.isFavorite)));
+                        if (previous.isFavorite === current.isFavorite) {
+                            const previousPaid = previous.lastPaidAt ? Date.parse(previous.lastPaidAt) : 0;
+                            const currentPaid = current.lastPaidAt ? Date.parse(current.lastPaidAt) : 0;
+                            expect(previousPaid).toBeGreaterThanOrEqual(currentPaid);
+                        }
+                    }
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('getContactSections', () => {
+        it('should place every contact in exactly one section', () => {
+            fc.assert(
+                fc.property(contactsArbitrary, fc.integer({ min: 0, max: 10 }), (contacts, limit) => {
+                    const { favorites, recent, others } = getContactSections(contacts, limit);
+                    const ids = [...favorites, ...recent, ...others].map((contact) => contact.contactId);
+                    expect(ids).toHaveLength(contacts.length);
+                    expect(new Set(ids)).toEqual(new Set(contacts.map((contact) => contact.contactId)));
+                    expect(recent.length).toBeLessThanOrEqual(limit);
+                    expect(favorites.every((contact) => contact.isFavorite)).toBe(true);
+                    expect(recent.every((contact) => !contact.isFavorite && contact.lastPaidAt)).toBe(true);
+                    expect(others.every((contact) => !contact.isFavorite)).toBe(true);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should list recently paid contacts most recent first', () => {
+            const { recent } = getContactSections([
+                { contactId: '1', username: 'older', email: 'a@x.io', lastPaidAt: '2024-01-01T00:00:00Z' },
+                { contactId: '2', username: 'newer', email: 'b@x.io', lastPaidAt: '2024-06-01T00:00:00Z' },
+                { contactId: '3', username: 'never', email: 'c@x.io', lastPaidAt: null },
+            ]);
+            expect(recent.map((contact) => contact.contactId)).toEqual(['2', '1']);
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import type { ContactDto, ContactSections } from '../types';
+
+/** Avatar color options for contacts */
+const AVATAR_COLORS = [
+    'bg-indigo-600',
+    'bg-blue-600',
+    'bg-emerald-600',
+    'bg-pink-600',
+    'bg-orange-600',
+    'bg-purple-600',
+    'bg-teal-600',
+    'bg-rose-600',
+];
+
+/** Number of recently paid contacts shown above the full list */
+export const RECENT_CONTACTS_LIMIT = 5;
+
+/**
+ * Generates initials from a username
+ * Words are split on spaces, underscores, dots and hyphens (e.g., "jane_doe" -> "JD")
+ * @param name - Username to extract initials from
+ * @returns Up to two uppercase initials, or '??' for an empty name
+ */
+export const getInitials = (name: string): string => {
+    const parts = name.trim().split(/[\s._-]+/).filter(Boolean);
+    if (parts.length === 0) return '??';
+    if (parts.length === 1) return parts[0].substring(0, 2).toUpperCase();
+    return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
+};
+
+/**
+ * Generates a consistent avatar color based on contact ID
+ * @param id - Contact ID to generate color for
+ * @returns Tailwind background color class
+ */
+export const getAvatarColor = (id: string): string => {
+    const hash = id.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
+    return AVATAR_COLORS[hash % AVATAR_COLORS.length];
+};
+
+/**
+ * Filters contacts by a case-insensitive match on username or email
+ * @param contacts - Contacts to filter
+ * @param query - Search text; blank matches everyone
+ * @returns Matching contacts in their original order
+ */
+export const filterContacts = (contacts: ContactDto[], query: string): ContactDto[] => {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) return contacts;
+    return contacts.filter((contact) =>
+        contact.username.toLowerCase().includes(normalized) ||
+        contact.email.toLowerCase().includes(normalized)
+    );
+};
+
+/**
+ * Compares contacts alphabetically by username
+ */
+const byUsername = (a: ContactDto, b: ContactDto): number =>
+    a.username.localeCompare(b.username, undefined, { sensitivity: 'base' });
+
+/**
+ * Compares contacts by last payment, most recent first; never-paid contacts sort last
+ */
+const byLastPaid = (a: ContactDto, b: ContactDto): number =>
+    (b.lastPaidAt ? Date.parse(b.lastPaidAt) : 0) - (a.lastPaidAt ? Date.parse(a.lastPaidAt) : 0);
+
+/**
+ * Orders contacts for pickers: favourites, then most recently paid, then alphabetical
+ * @param contacts - Contacts to order (not mutated)
+ * @returns New array in display order
+ */
+export const sortContacts = (contacts: ContactDto[]): ContactDto[] =>
+    [...contacts].sort((a, b) =>
+        Number(Boolean(b.isFavorite)) - Number(Boolean(a.isFavorite))
+        || byLastPaid(a, b)
+        || byUsername(a, b)
+    );
+
+/**
+ * Splits contacts into favourites, recently paid and everyone else
+ * Each contact appears in exactly one section
+ * @param contacts - Contacts to group
+ * @param recentLimit - Maximum number of recently paid contacts
+ * @returns Contact sections in display order
+ */
+export const getContactSections = (
+    contacts: ContactDto[],
+    recentLimit: number = RECENT_CONTACTS_LIMIT
+): ContactSections => {
+    const favorites = contacts.filter((contact) => contact.isFavorite).sort(byUsername);
+    const recent = contacts
+        .filter((contact) => !contact.isFavorite && contact.lastPaidAt)
+        .sort(byLastPaid)
+        .slice(0, recentLimit);
+    const recentIds = new Set(recent.map((contact) => contact.contactId));
+    const others = contacts
+        .filter((contact) => !contact.isFavorite && !recentIds.has(contact.contactId))
+        .sort(byUsername);
+
+    return { favorites, recent, others };
+};
@@ -0,0 +1,8 @@
+export {
+    RECENT_CONTACTS_LIMIT,
+    getInitials,
+    getAvatarColor,
+    filterContacts,
+    sortContacts,
+    getContactSections,
+} from './contactHelpers';
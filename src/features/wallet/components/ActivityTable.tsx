@@ -105,7 +105,7 @@ export const ActivityTable = ({ activities, isLoading }: ActivityTableProps) =>
                                     <td className="px-6 py-4 whitespace-nowrap">
                                         <span className={`font-bold text-sm ${amountColor}`}>
                                             {amountPrefix}
-                                            {formatCurrency(Math.abs(activity.amount), 'USD')}
+                                            {formatCurrency(Math.abs(activity.amount), activity.currency)}
                                         </span>
                                     </td>
                                     <td className="px-6 py-4 whitespace-nowrap text-right">
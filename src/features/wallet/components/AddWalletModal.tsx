@@ -3,6 +3,15 @@ import { Modal } from '../../../components/ui/Modal';
 import type { CreateWalletFormData } from '../types';
 import { ADD_WALLET_MODAL_TEXT, CURRENCY_OPTIONS } from '../constants/text';
 import { positiveNumberHandlers } from '../../../utils/inputHelpers';
+import { DEFAULT_CURRENCY, getAmountPlaceholder, getAmountStep, getCurrencySymbol } from '../../../utils/currency';
+import { useGetPreferencesQuery } from '../../user/services/userApi';
+
+/** Blank form; an empty currency means the user's default currency */
+const EMPTY_FORM: CreateWalletFormData = {
+    name: '',
+    currency: '',
+    initialBalance: 0,
+};
 
 interface AddWalletModalProps {
     /** Whether the modal is open */
@@ -25,21 +34,15 @@ export const AddWalletModal = ({
     onCreateWallet,
     isCreating = false,
 }: AddWalletModalProps) => {
-    const [formData, setFormData] = useState<CreateWalletFormData>({
-        name: '',
-        currency: 'SGD',
-        initialBalance: 0,
-    });
+    const [formData, setFormData] = useState<CreateWalletFormData>(EMPTY_FORM);
+    const { data: preferences } = useGetPreferencesQuery();
+    const currency = formData.currency || (preferences?.defaultCurrency ?? DEFAULT_CURRENCY);
 
     /**
      * Resets form state when modal closes
      */
     const handleClose = () => {
-        setFormData({
-            name: '',
-            currency: 'SGD',
-            initialBalance: 0,
-        });
+        setFormData(EMPTY_FORM);
         onClose();
     };
 
@@ -65,7 +68,7 @@ export const AddWalletModal = ({
      */
     const handleCreateWallet = () => {
         if (isFormValid()) {
-            onCreateWallet(formData);
+            onCreateWallet({ ...formData, currency });
         }
     };
 
@@ -129,7 +132,7 @@ export const AddWalletModal = ({
                         <div className="relative">
                             <select
                                 id="currency"
-                                value={formData.currency}
+                                value={currency}
                                 onChange={(e) => handleInputChange('currency', e.target.value)}
                                 className="bg-white/5 border border-white/10 text-white rounded-xl focus:ring-blue-500 focus:border-blue-500 block w-full p-3 pr-10 appearance-none"
                             >
@@ -159,13 +162,13 @@ export const AddWalletModal = ({
                         </label>
                         <div className="relative">
                             <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
-                                <span className="text-slate-400 font-medium">$</span>
+                                <span className="text-slate-400 font-medium">{getCurrencySymbol(currency)}</span>
                             </div>
                             <input
                                 id="initial-balance"
                                 type="number"
                                 min="0"
-                                step="0.01"
+                                step={getAmountStep(currency)}
                                 value={formData.initialBalance || ''}
                                 onChange={(e) =>
                                     handleInputChange(
@@ -174,7 +177,7 @@ export const AddWalletModal = ({
                                     )
                                 }
                                 {...positiveNumberHandlers}
-                                placeholder={ADD_WALLET_MODAL_TEXT.INITIAL_BALANCE_PLACEHOLDER}
+                                placeholder={getAmountPlaceholder(currency)}
                                 className="bg-white/5 border border-white/10 text-white rounded-xl focus:ring-blue-500 focus:border-blue-500 block w-full p-3 pl-8 placeholder:text-slate-500 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
                             />
                         </div>
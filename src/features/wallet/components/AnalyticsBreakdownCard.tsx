@@ -0,0 +1,64 @@
+import { Card } from '../../../components/ui/Card';
+import { ANALYTICS_TEXT } from '../constants/text';
+import { formatCurrency } from '../utils/formatters';
+import { getShareOfTotal } from '../utils/analytics';
+import type { AnalyticsBreakdownRow } from '../types';
+
+interface AnalyticsBreakdownCardProps {
+    /** Card heading */
+    title: string;
+    /** Rows to display; sorted largest first by the card */
+    rows: AnalyticsBreakdownRow[];
+    /** Currency code */
+    currency: string;
+}
+
+/**
+ * Breakdown of an amount across categories, wallets or counterparties
+ * Each row shows its amount, transaction count and share of the total
+ */
+export const AnalyticsBreakdownCard = ({ title, rows, currency }: AnalyticsBreakdownCardProps) => {
+    const visibleRows = rows.filter((row) => row.amount > 0).sort((a, b) => b.amount - a.amount);
+    const total = visibleRows.reduce((sum, row) => sum + row.amount, 0);
+
+    return (
+        <Card variant="dark" className="flex flex-col gap-4">
+            <h3 className="text-white text-base font-bold">{title}</h3>
+
+            {visibleRows.length === 0 ? (
+                <p className="text-sm text-slate-400">{ANALYTICS_TEXT.NO_ACTIVITY}</p>
+            ) : (
+                <ul className="flex flex-col gap-4">
+                    {visibleRows.map((row) => {
+                        const share = getShareOfTotal(row.amount, total);
+
+                        return (
+                            <li key={row.id} className="flex flex-col gap-2">
+                                <div className="flex items-center justify-between gap-3">
+                                    <div className="flex items-center gap-3 min-w-0">
+                                        <div className="icon-badge icon-badge-sm bg-slate-700/60">
+                                            <span className="material-symbols-outlined text-slate-300 text-lg">{row.icon}</span>
+                                        </div>
+                                        <div className="flex flex-col min-w-0">
+                                            <span className="text-slate-200 text-sm font-medium truncate">{row.label}</span>
+                                            <span className="text-slate-500 text-xs">
+                                                {ANALYTICS_TEXT.TRANSACTION_COUNT(row.transactionCount)}
+                                            </span>
+                                        </div>
+                                    </div>
+                                    <div className="flex flex-col items-end shrink-0">
+                                        <span className="text-white text-sm font-semibold">{formatCurrency(row.amount, currency)}</span>
+                                        <span className="text-slate-500 text-xs">{ANALYTICS_TEXT.SHARE(share)}</span>
+                                    </div>
+                                </div>
+                                <div className="h-1.5 w-full bg-slate-800 rounded-full overflow-hidden">
+                                    <div className="h-full bg-blue-500 rounded-full" style={{ width: `${share}%` }} />
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </Card>
+    );
+};
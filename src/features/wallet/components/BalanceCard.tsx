@@ -1,11 +1,14 @@
 import { formatCurrency } from '../utils/formatters';
 import { BALANCE_CARD_TEXT } from '../constants/text';
 import { Card } from '../../../components/ui/Card';
+import { formatMoneyValue, type Money } from '../../../utils/money';
 
 export interface BalanceCardProps {
     title: string;
     amount: number;
     currency: string;
+    /** Totals in other currencies, listed under the amount since they cannot be added to it */
+    otherTotals?: Money[];
     changePercent?: number;
     isLocked?: boolean;
     variant: 'available' | 'reserved';
@@ -15,6 +18,7 @@ export const BalanceCard = ({
     title,
     amount,
     currency,
+    otherTotals = [],
     changePercent,
     isLocked,
     variant,
@@ -71,6 +75,11 @@ export const BalanceCard = ({
                 <span className="text-4xl font-bold text-white tracking-tight">
                     {formattedAmount}
                 </span>
+                {otherTotals.length > 0 && (
+                    <span className="text-sm font-medium text-slate-400">
+                        {otherTotals.map((total) => `+ ${formatMoneyValue(total)}`).join(' · ')}
+                    </span>
+                )}
             </div>
         </Card>
     );
@@ -1,37 +1,44 @@
 import { useState } from 'react';
 import { WALLET_DETAILS_TEXT } from '../constants/text';
 import { formatCurrency } from '../utils/formatters';
-
-type TimePeriod = 'DAY' | 'WEEK' | 'MONTH' | 'YEAR';
+import { formatBalanceAxisLabel, formatBalanceTooltipDate, getAxisLabelIndices } from '../utils/balanceHistory';
+import { useGetBalanceHistoryQuery } from '../services/walletApi';
+import { BalanceHistoryPeriodEnum } from '../types';
+import { LoadingSkeleton } from '../../../components/ui/LoadingSkeleton';
 
 interface BalanceTrendsChartProps {
-    /** Current balance to display on tooltip */
-    currentBalance: number;
+    /** Wallet to chart */
+    walletId: string;
     /** Currency code */
     currency: string;
-    /** Chart data - array of values for each bar */
-    data?: number[];
 }
 
-/** Default mock data for the chart */
-const DEFAULT_DATA = [40, 55, 45, 70, 60, 85, 75];
-
 /**
  * Balance trends chart with time period selector
- * Displays a bar chart showing balance history over time
+ * Displays the wallet's closing balance per bucket for the selected period.
+ * Hovering a bar shows its date and balance; otherwise the latest bucket is shown.
  */
-export const BalanceTrendsChart = ({
-    currentBalance,
-    currency,
-    data = DEFAULT_DATA,
-}: BalanceTrendsChartProps) => {
-    const [selectedPeriod, setSelectedPeriod] = useState<TimePeriod>('WEEK');
+export const BalanceTrendsChart = ({ walletId, currency }: BalanceTrendsChartProps) => {
+    const [selectedPeriod, setSelectedPeriod] = useState<BalanceHistoryPeriodEnum>(BalanceHistoryPeriodEnum.WEEK);
+    const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+
+    const { data, isLoading, isError } = useGetBalanceHistoryQuery({ walletId, period: selectedPeriod });
 
-    const periods: TimePeriod[] = ['DAY', 'WEEK', 'MONTH', 'YEAR'];
-    const maxValue = Math.max(...data);
+    const periods = Object.values(BalanceHistoryPeriodEnum);
+    const points = data?.points ?? [];
+    const maxValue = Math.max(0, ...points.map((point) => point.balance));
+    const activeIndex = hoveredIndex !== null && hoveredIndex < points.length ? hoveredIndex : points.length - 1;
+    const activePoint = points[activeIndex];
+    const axisLabelIndices = getAxisLabelIndices(points.length);
 
-    // Find the index of the highest bar for tooltip positioning
-    const highestIndex = data.indexOf(maxValue);
+    /**
+     * Switches period and clears the hovered bar, which may not exist in the new series
+     * @param period - Newly selected period
+     */
+    const handlePeriodChange = (period: BalanceHistoryPeriodEnum) => {
+        setSelectedPeriod(period);
+        setHoveredIndex(null);
+    };
 
     return (
         <section className="bg-[#161E2C] border border-slate-800 rounded-2xl p-5">
@@ -43,7 +50,8 @@ export const BalanceTrendsChart = ({
                     {periods.map((period) => (
                         <button
                             key={period}
-                            onClick={() => setSelectedPeriod(period)}
+                            onClick={() => handlePeriodChange(period)}
+                            aria-pressed={selectedPeriod === period}
                             className={`px-2.5 py-1 text-[11px] font-semibold rounded-md transition-all ${selectedPeriod === period
                                     ? 'bg-slate-700 text-white'
                                     : 'text-slate-500 hover:text-slate-300'
@@ -55,57 +63,84 @@ export const BalanceTrendsChart = ({
                 </div>
             </div>
 
-            {/* Chart Area */}
-            <div className="h-48 relative flex items-end justify-between gap-1 mt-4">
-                {/* Grid lines */}
-                <div className="absolute inset-0 flex flex-col justify-between pointer-events-none">
-                    {[0, 1, 2, 3].map((i) => (
-                        <div
-                            key={i}
-                            className="border-b border-slate-800 w-full h-0"
-                        />
-                    ))}
+            {isLoading ? (
+                <LoadingSkeleton variant="rectangle" height="192px" />
+            ) : isError || points.length === 0 ? (
+                <div className="h-48 flex items-center justify-center text-sm text-slate-500">
+                    {isError ? WALLET_DETAILS_TEXT.BALANCE_HISTORY_ERROR : WALLET_DETAILS_TEXT.NO_BALANCE_HISTORY}
                 </div>
+            ) : (
+                <>
+                    {/* Chart Area */}
+                    <div className="h-48 relative mt-4" onMouseLeave={() => setHoveredIndex(null)}>
+                        {/* Grid lines */}
+                        <div className="absolute inset-0 flex flex-col justify-between pointer-events-none">
+                            {[0, 1, 2, 3].map((i) => (
+                                <div
+                                    key={i}
+                                    className="border-b border-slate-800 w-full h-0"
+                                />
+                            ))}
+                        </div>
 
-                {/* Bars */}
-                <div className="absolute inset-0 flex items-end justify-between px-4">
-                    {data.map((value, index) => {
-                        const heightPercent = maxValue > 0 ? (value / maxValue) * 100 : 0;
-                        const isHighest = index === highestIndex;
+                        {/* Bars */}
+                        <div className="absolute inset-0 flex items-end justify-between px-4">
+                            {points.map((point, index) => {
+                                const heightPercent = maxValue > 0 ? (point.balance / maxValue) * 100 : 0;
+                                const isActive = index === activeIndex;
 
-                        return (
-                            <div
-                                key={index}
-                                className={`w-1 rounded-t-full transition-all duration-300 ${isHighest
-                                        ? 'bg-blue-500 shadow-[0_-8px_16px_rgba(59,130,246,0.3)]'
-                                        : 'bg-blue-500/20'
-                                    } ${isHighest ? 'ring-2 ring-blue-500' : ''}`}
-                                style={{ height: `${heightPercent}%` }}
-                            />
-                        );
-                    })}
-                </div>
+                                return (
+                                    <div
+                                        key={point.timestamp}
+                                        className="flex-1 h-full flex items-end justify-center cursor-pointer"
+                                        onMouseEnter={() => setHoveredIndex(index)}
+                                        aria-label={`${formatBalanceTooltipDate(point.timestamp, selectedPeriod)}: ${formatCurrency(point.balance, currency)}`}
+                                    >
+                                        <div
+                                            className={`w-1 rounded-t-full transition-all duration-300 ${isActive
+                                                    ? 'bg-blue-500 shadow-[0_-8px_16px_rgba(59,130,246,0.3)] ring-2 ring-blue-500'
+                                                    : 'bg-blue-500/20'
+                                                }`}
+                                            style={{ height: `${heightPercent}%` }}
+                                        />
+                                    </div>
+                                );
+                            })}
+                        </div>
 
-                {/* Tooltip on highest bar */}
-                <div
-                    className="absolute bg-slate-900 text-white px-2.5 py-1.5 rounded-lg text-xs font-mono shadow-xl z-20"
-                    style={{
-                        left: `${((highestIndex + 0.5) / data.length) * 100}%`,
-                        bottom: `${(data[highestIndex] / maxValue) * 100 + 8}%`,
-                        transform: 'translateX(-50%)',
-                    }}
-                >
-                    {formatCurrency(currentBalance, currency)}
-                    <div className="absolute -bottom-1 left-1/2 -translate-x-1/2 w-2 h-2 bg-slate-900 rotate-45" />
-                </div>
-            </div>
+                        {/* Tooltip on the active bar */}
+                        {activePoint && (
+                            <div
+                                className="absolute bg-slate-900 text-white px-2.5 py-1.5 rounded-lg text-xs font-mono shadow-xl z-20 pointer-events-none whitespace-nowrap"
+                                style={{
+                                    left: `${((activeIndex + 0.5) / points.length) * 100}%`,
+                                    bottom: `${(maxValue > 0 ? (activePoint.balance / maxValue) * 100 : 0) + 8}%`,
+                                    transform: 'translateX(-50%)',
+                                }}
+                            >
+                                <div className="text-slate-400 text-[10px]">
+                                    {formatBalanceTooltipDate(activePoint.timestamp, selectedPeriod)}
+                                </div>
+                                {formatCurrency(activePoint.balance, currency)}
+                                <div className="absolute -bottom-1 left-1/2 -translate-x-1/2 w-2 h-2 bg-slate-900 rotate-45" />
+                            </div>
+                        )}
+                    </div>
 
-            {/* X-axis labels */}
-            <div className="flex justify-between mt-3 px-4 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
-                {WALLET_DETAILS_TEXT.DAYS_OF_WEEK.map((day) => (
-                    <span key={day}>{day}</span>
-                ))}
-            </div>
+                    {/* X-axis labels */}
+                    <div className="relative h-4 mt-3 mx-4 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                        {axisLabelIndices.map((index) => (
+                            <span
+                                key={index}
+                                className="absolute -translate-x-1/2 whitespace-nowrap"
+                                style={{ left: `${((index + 0.5) / points.length) * 100}%` }}
+                            >
+                                {formatBalanceAxisLabel(points[index].timestamp, selectedPeriod)}
+                            </span>
+                        ))}
+                    </div>
+                </>
+            )}
         </section>
     );
 };
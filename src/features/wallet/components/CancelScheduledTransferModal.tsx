@@ -0,0 +1,55 @@
+import { Alert, Button, Modal, ModalBody, ModalFooter, ModalHeader } from '../../../components/ui';
+import { SCHEDULED_TRANSFERS_TEXT } from '../constants/text';
+import type { ScheduledTransfer } from '../types';
+
+interface CancelScheduledTransferModalProps {
+    /** Schedule pending cancellation, or null when closed */
+    schedule: ScheduledTransfer | null;
+    /** Callback when the user keeps the schedule */
+    onClose: () => void;
+    /** Callback when the user confirms cancellation */
+    onConfirm: (schedule: ScheduledTransfer) => void;
+    /** Loading state for the cancel request */
+    isCancelling?: boolean;
+    /** Error from the last cancel attempt */
+    error?: string | null;
+}
+
+/**
+ * Confirmation dialog shown before a scheduled transfer is cancelled
+ */
+export const CancelScheduledTransferModal = ({
+    schedule,
+    onClose,
+    onConfirm,
+    isCancelling = false,
+    error = null,
+}: CancelScheduledTransferModalProps) => (
+    <Modal isOpen={schedule !== null} onClose={onClose} maxWidth="sm">
+        <ModalHeader icon="event_busy" title={SCHEDULED_TRANSFERS_TEXT.CANCEL_TITLE} onClose={onClose} />
+        {schedule && (
+            <ModalBody className="gap-4">
+                {error && <Alert variant="error" title={SCHEDULED_TRANSFERS_TEXT.CANCEL_FAILED} message={error} />}
+                <p className="text-sm text-slate-300">
+                    {SCHEDULED_TRANSFERS_TEXT.CANCEL_MESSAGE(schedule.recipientEmail)}
+                </p>
+            </ModalBody>
+        )}
+        <ModalFooter className="flex items-center justify-between gap-3">
+            <Button type="button" variant="ghost" onClick={onClose}>
+                {SCHEDULED_TRANSFERS_TEXT.KEEP_SCHEDULE}
+            </Button>
+            <button
+                type="button"
+                disabled={isCancelling}
+                onClick={() => schedule && onConfirm(schedule)}
+                className="bg-red-500 hover:bg-red-600 px-6 py-3 rounded-xl text-white text-sm font-semibold flex items-center gap-2 shadow-lg shadow-red-500/20 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                <span className="material-symbols-outlined text-[18px]">
+                    {isCancelling ? 'progress_activity' : 'event_busy'}
+                </span>
+                {isCancelling ? SCHEDULED_TRANSFERS_TEXT.CANCELLING : SCHEDULED_TRANSFERS_TEXT.CONFIRM_CANCEL}
+            </button>
+        </ModalFooter>
+    </Modal>
+);
@@ -0,0 +1,77 @@
+import { ANALYTICS_TEXT } from '../constants/text';
+import { formatCurrency } from '../utils/formatters';
+import { formatMonthLabel } from '../utils/analytics';
+import type { MonthlyCashFlow } from '../types';
+
+interface CashFlowChartProps {
+    /** One entry per month, oldest first */
+    data: MonthlyCashFlow[];
+    /** Currency code */
+    currency: string;
+}
+
+/**
+ * Income vs spending chart
+ * Displays paired bars per month, scaled to the largest amount in the period
+ */
+export const CashFlowChart = ({ data, currency }: CashFlowChartProps) => {
+    const maxValue = Math.max(0, ...data.flatMap((entry) => [entry.income, entry.spending]));
+
+    return (
+        <section className="bg-[#161E2C] border border-slate-800 rounded-2xl p-5">
+            <div className="flex items-center justify-between mb-6">
+                <h3 className="font-bold text-base text-white">{ANALYTICS_TEXT.CASH_FLOW_TITLE}</h3>
+                <div className="flex items-center gap-4 text-xs text-slate-400">
+                    <span className="flex items-center gap-1.5">
+                        <span className="size-2 rounded-full bg-emerald-500" />
+                        {ANALYTICS_TEXT.INCOME}
+                    </span>
+                    <span className="flex items-center gap-1.5">
+                        <span className="size-2 rounded-full bg-red-500" />
+                        {ANALYTICS_TEXT.SPENDING}
+                    </span>
+                </div>
+            </div>
+
+            {/* Chart Area */}
+            <div className="h-48 relative mt-4">
+                {/* Grid lines */}
+                <div className="absolute inset-0 flex flex-col justify-between pointer-events-none">
+                    {[0, 1, 2, 3].map((i) => (
+                        <div key={i} className="border-b border-slate-800 w-full h-0" />
+                    ))}
+                </div>
+
+                {/* Bars */}
+                <div className="absolute inset-0 flex items-end justify-between gap-2 px-2">
+                    {data.map((entry) => {
+                        const incomePercent = maxValue > 0 ? (entry.income / maxValue) * 100 : 0;
+                        const spendingPercent = maxValue > 0 ? (entry.spending / maxValue) * 100 : 0;
+
+                        return (
+                            <div key={entry.month} className="flex-1 h-full flex items-end justify-center gap-1">
+                                <div
+                                    className="w-2 max-w-3 flex-1 rounded-t-sm bg-emerald-500/80 transition-all duration-300"
+                                    style={{ height: `${incomePercent}%` }}
+                                    title={`${ANALYTICS_TEXT.INCOME}: ${formatCurrency(entry.income, currency)}`}
+                                />
+                                <div
+                                    className="w-2 max-w-3 flex-1 rounded-t-sm bg-red-500/80 transition-all duration-300"
+                                    style={{ height: `${spendingPercent}%` }}
+                                    title={`${ANALYTICS_TEXT.SPENDING}: ${formatCurrency(entry.spending, currency)}`}
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {/* X-axis labels */}
+            <div className="flex justify-between gap-2 mt-3 px-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                {data.map((entry) => (
+                    <span key={entry.month} className="flex-1 text-center">{formatMonthLabel(entry.month)}</span>
+                ))}
+            </div>
+        </section>
+    );
+};
@@ -1,126 +1,253 @@
 import { useState } from 'react';
-
-interface Contact {
-    id: string;
-    name: string;
-    handle: string;
-    email?: string;
-    phone?: string;
-    avatar?: string;
-    initials?: string;
-    avatarColor?: string;
-}
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+    useAddContactMutation,
+    useDeleteContactMutation,
+    useGetContactsQuery,
+    useUpdateContactFavoriteMutation,
+} from '../../user/services/contactsApi';
+import { ContactAvatar } from '../../user/components/ContactAvatar';
+import { filterContacts, getContactSections } from '../../user/utils';
+import type { ContactDto } from '../../user/types';
+import type { WalletSummary } from '../types';
+import { createAddContactSchema, type AddContactFormData } from '../../../schemas';
+import { CONTACTS_MODAL_TEXT } from '../constants/text';
+import { getApiErrorMessage } from '../../../utils/apiError';
 
 interface ContactsModalProps {
+    /** Whether the modal is open */
     isOpen: boolean;
+    /** Callback when modal is closed */
     onClose: () => void;
-    onSelectContact?: (contact: Contact) => void;
+    /** Callback when a contact is picked; the modal closes afterwards */
+    onSelectContact?: (contact: ContactDto) => void;
+    /** The user's wallets, offered when adding a contact */
+    wallets: WalletSummary[];
+    /** Wallet preselected when adding a contact */
+    defaultWalletId?: string;
 }
 
-export const ContactsModal = ({ isOpen, onClose, onSelectContact }: ContactsModalProps) => {
+/**
+ * Contacts manager
+ * Lists, searches, adds, favourites and deletes the user's contacts.
+ * Favourites and recently paid contacts are listed above everyone else.
+ */
+export const ContactsModal = ({
+    isOpen,
+    onClose,
+    onSelectContact,
+    wallets,
+    defaultWalletId,
+}: ContactsModalProps) => {
     const [searchQuery, setSearchQuery] = useState('');
+    const [isAdding, setIsAdding] = useState(false);
+    const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
-    const allContacts: Contact[] = [
-        {
-            id: '1',
-            name: 'Aaron Blake',
-            handle: '@aaronblake',
-            email: 'aaron.b@example.com',
-            initials: 'AB',
-            avatarColor: 'bg-indigo-600',
-        },
-        {
-            id: '2',
-            name: 'Alice Moore',
-            handle: '@alicem',
-            email: 'alice.moore@studio.io',
-            initials: 'AM',
-            avatarColor: 'bg-blue-600',
-        },
-        {
-            id: '3',
-            name: 'David Chen',
-            handle: '@david_c',
-            email: 'david.chen@tech.io',
-            avatar: 'https://lh3.googleusercontent.com/aida-public/AB6AXuAzJeOl3dyfgW4tRv9hWshmh0Ji-a9N7FL9i_-o5qt44SH_1vxaTo22CF_AFuuxlduoONbyuD225vNn6A0XbPj7EQsh3IPzmW5eNaCjq-jJ7h00_MB12oXstSHvTkD8LQqqO_ypsDhu-iU2sZTDVv7IT7U6fOhKjBFsdHCPUq6YTvJwcBX683YUl2dC3fHbh3NHCcngUF2RTnudSReefOugCX59XMBdFFZU7xEKSH0E4m0LblDOTcrszDkmFmHl9gULp8cwPib3hg',
-        },
-        {
-            id: '4',
-            name: 'Jessica Lee',
-            handle: '@jesslee',
-            email: 'jessica.l@design.co',
-            avatar: 'https://lh3.googleusercontent.com/aida-public/AB6AXuAhRHPRnNlZcsxOH4LQeR8R0i0-u7lvK-hB9YGIEREYjR8M5p4lw2P7xUUu6gM9Zlxh9MVNrPGP6hpZ-CxuThFHwJbb7D6nrjqfnVMPLd6TF5MAWmOJ0bg1TqIjFyZq_vagGigV0xWH1BHzHZGUcshoPDgf50XavXcMFrk2UMXgzdImLmkWbobZwriH23dS8Kc-5KXgkfZQ3K83gUSH3t5doUDqGT1PuMH6Kv12_7SjA0RtvQ-ly-5caNmcGOTsfS86hWHtM4xo5Q',
-        },
-        {
-            id: '5',
-            name: 'Mike Taylor',
-            handle: '@miket',
-            email: 'mike.taylor@biz.net',
-            avatar: 'https://lh3.googleusercontent.com/aida-public/AB6AXuDXHiNcZjvPQjsqx5WapClV4DoSK2l52B_0u7BEu_YUD5do6upg0CICOV_miCsbfOCat7OmPwvp6f1QhoftA7n1lAdZNYzjiO8k-Ena9zs-tB86hhu3Lr-4GyqTLw42s0K5fq_HWrUC6gxt4r2yPx87_hCuRT25BX_e4dkU5uaG_-QS6XiJj6NsFBk85ggHS1L9hPTLEuAfh4M_YXDChxtLFVAR9uTv0VtoQBWDSAxPD-uiR4-IcVT4f8bOW-i1ZGDH7PuUGY5aFQ',
-        },
-        {
-            id: '6',
-            name: 'Maria West',
-            handle: '@maria_w',
-            phone: '+1 (555) 987-6543',
-            initials: 'MW',
-            avatarColor: 'bg-purple-600',
-        },
-        {
-            id: '7',
-            name: 'Sarah Connor',
-            handle: '@sarahc',
-            email: 'sarah.connor@sky.net',
-            avatar: 'https://lh3.googleusercontent.com/aida-public/AB6AXuBpYFkk4Ak5iCuwKmOldO-35B7EveBbFxbyGvHauD7ZGZBVWCNDElP41MF4cxbrHnIdNwjFRXnEVACvNOzbmrHUPD3e673XK7jehpr7oIaMo8RTFRldwyw4eGM9LIzmWImJI0OJfC6JqAzdjNBvO7olnDV_KQ70ThbBanXPHA3zfAEkmHIF1RYi7zst-Yaw8Hijdb5mcAHtCpZFolzy3y0HZ6HCD7gwJM54W2LMgmByHmkO6fxVvLdOPznJ2VqQSQ-GHWTmI84T5A',
+    const { data, isLoading, isError, refetch } = useGetContactsQuery(undefined, { skip: !isOpen });
+    const [addContact, { isLoading: isSaving }] = useAddContactMutation();
+    const [deleteContact, { isLoading: isDeleting }] = useDeleteContactMutation();
+    const [updateContactFavorite] = useUpdateContactFavoriteMutation();
+
+    const contacts = data?.contacts ?? [];
+    const filteredContacts = filterContacts(contacts, searchQuery);
+    const sections = getContactSections(filteredContacts);
+
+    const {
+        register,
+        handleSubmit,
+        reset,
+        formState: { errors },
+    } = useForm<AddContactFormData>({
+        resolver: zodResolver(createAddContactSchema(contacts.map((contact) => contact.email))),
+        defaultValues: {
+            contactEmail: '',
+            walletId: defaultWalletId ?? wallets[0]?.id ?? '',
         },
-    ];
-
-    const filteredContacts = allContacts.filter((contact) => {
-        const query = searchQuery.toLowerCase();
-        return (
-            contact.name.toLowerCase().includes(query) ||
-            contact.handle.toLowerCase().includes(query) ||
-            contact.email?.toLowerCase().includes(query) ||
-            contact.phone?.toLowerCase().includes(query)
-        );
     });
 
-    const groupedContacts = filteredContacts.reduce((acc, contact) => {
-        const firstLetter = contact.name[0].toUpperCase();
-        if (!acc[firstLetter]) {
-            acc[firstLetter] = [];
+    /**
+     * Closes the modal and clears search, add form and pending actions
+     */
+    const handleClose = () => {
+        setSearchQuery('');
+        setIsAdding(false);
+        setPendingDeleteId(null);
+        setErrorMessage(null);
+        reset();
+        onClose();
+    };
+
+    /**
+     * Picks a contact and closes the modal
+     * @param contact - The selected contact
+     */
+    const handleContactClick = (contact: ContactDto) => {
+        onSelectContact?.(contact);
+        handleClose();
+    };
+
+    /**
+     * Opens the add form with the default wallet preselected
+     */
+    const handleStartAdding = () => {
+        reset({ contactEmail: '', walletId: defaultWalletId ?? wallets[0]?.id ?? '' });
+        setErrorMessage(null);
+        setIsAdding(true);
+    };
+
+    /**
+     * Adds a contact; the list refetches via tag invalidation
+     * @param formData - Validated email and wallet
+     */
+    const onSubmitAdd = async (formData: AddContactFormData) => {
+        setErrorMessage(null);
+        try {
+            await addContact(formData).unwrap();
+            setIsAdding(false);
+            reset();
+        } catch (err) {
+            setErrorMessage(getApiErrorMessage(err, CONTACTS_MODAL_TEXT.DEFAULT_ERROR));
         }
-        acc[firstLetter].push(contact);
-        return acc;
-    }, {} as Record<string, Contact[]>);
+    };
 
-    const handleContactClick = (contact: Contact) => {
-        if (onSelectContact) {
-            onSelectContact(contact);
+    /**
+     * Toggles a contact's favourite flag
+     * @param contact - The contact to update
+     */
+    const handleToggleFavorite = async (contact: ContactDto) => {
+        setErrorMessage(null);
+        try {
+            await updateContactFavorite({ contactId: contact.contactId, isFavorite: !contact.isFavorite }).unwrap();
+        } catch (err) {
+            setErrorMessage(getApiErrorMessage(err, CONTACTS_MODAL_TEXT.DEFAULT_ERROR));
+        }
+    };
+
+    /**
+     * Deletes a contact after inline confirmation
+     * @param contactId - The contact to delete
+     */
+    const handleConfirmDelete = async (contactId: string) => {
+        setErrorMessage(null);
+        try {
+            await deleteContact(contactId).unwrap();
+            setPendingDeleteId(null);
+        } catch (err) {
+            setErrorMessage(getApiErrorMessage(err, CONTACTS_MODAL_TEXT.DEFAULT_ERROR));
         }
-        onClose();
     };
 
     if (!isOpen) return null;
 
     const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
         if (e.target === e.currentTarget) {
-            onClose();
+            handleClose();
         }
     };
 
+    /**
+     * Renders one contact row with select, favourite and delete actions
+     * @param contact - The contact to render
+     */
+    const renderContact = (contact: ContactDto) => (
+        <div
+            key={contact.contactId}
+            className="flex items-center gap-1 rounded-xl hover:bg-[#304669]/30 hover:border-[#304669] border border-transparent transition-all group"
+        >
+            <button
+                type="button"
+                onClick={() => handleContactClick(contact)}
+                className="flex-1 min-w-0 flex items-center gap-3 p-3 text-left"
+            >
+                <ContactAvatar contactId={contact.contactId} username={contact.username} />
+                <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-white group-hover:text-primary transition-colors truncate">
+                        {contact.username}
+                    </p>
+                    <p className="text-xs text-[#8fa6cc] truncate">{contact.email}</p>
+                </div>
+            </button>
+
+            {pendingDeleteId === contact.contactId ? (
+                <div className="flex items-center gap-2 pr-3 text-xs">
+                    <span className="text-[#8fa6cc]">{CONTACTS_MODAL_TEXT.CONFIRM_DELETE}</span>
+                    <button
+                        type="button"
+                        onClick={() => handleConfirmDelete(contact.contactId)}
+                        disabled={isDeleting}
+                        className="text-red-400 font-semibold hover:text-red-300 disabled:opacity-50"
+                    >
+                        {CONTACTS_MODAL_TEXT.CONFIRM}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setPendingDeleteId(null)}
+                        className="text-[#8fa6cc] hover:text-white"
+                    >
+                        {CONTACTS_MODAL_TEXT.CANCEL}
+                    </button>
+                </div>
+            ) : (
+                <div className="flex items-center pr-2">
+                    <button
+                        type="button"
+                        onClick={() => handleToggleFavorite(contact)}
+                        aria-label={contact.isFavorite
+                            ? CONTACTS_MODAL_TEXT.REMOVE_FAVORITE(contact.username)
+                            : CONTACTS_MODAL_TEXT.ADD_FAVORITE(contact.username)}
+                        aria-pressed={Boolean(contact.isFavorite)}
+                        className={`p-1.5 rounded-lg hover:bg-[#304669]/50 transition-colors ${contact.isFavorite ? 'text-amber-400' : 'text-[#8fa6cc] hover:text-white'}`}
+                    >
+                        <span
+                            className="material-symbols-outlined text-[20px]"
+                            style={contact.isFavorite ? { fontVariationSettings: "'FILL' 1" } : undefined}
+                        >
+                            star
+                        </span>
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setPendingDeleteId(contact.contactId)}
+                        aria-label={CONTACTS_MODAL_TEXT.DELETE_CONTACT(contact.username)}
+                        className="p-1.5 rounded-lg text-[#8fa6cc] hover:text-red-400 hover:bg-[#304669]/50 transition-colors"
+                    >
+                        <span className="material-symbols-outlined text-[20px]">delete</span>
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+
+    /**
+     * Renders a titled group of contacts, or nothing when it is empty
+     * @param title - Section heading
+     * @param sectionContacts - Contacts in the section
+     */
+    const renderSection = (title: string, sectionContacts: ContactDto[]) =>
+        sectionContacts.length > 0 && (
+            <div>
+                <h4 className="text-xs font-bold text-primary mb-3 uppercase tracking-wider px-2">
+                    {title}
+                </h4>
+                <div className="space-y-1">{sectionContacts.map(renderContact)}</div>
+            </div>
+        );
+
     return (
         <div
-            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+            className="fixed inset-0 z-50 flex items-center justify-center bg-[#0f172a]/80 backdrop-blur-sm p-4"
             onClick={handleBackdropClick}
         >
             <div className="relative w-full max-w-lg bg-[#2d3748] rounded-xl shadow-2xl flex flex-col max-h-[85vh] overflow-hidden border border-[#304669]">
                 {/* Header */}
                 <div className="flex items-center justify-between border-b border-[#304669]/50 p-5 bg-[#101723]/40">
-                    <h3 className="text-lg font-bold text-white">All Contacts</h3>
+                    <h3 className="text-lg font-bold text-white">{CONTACTS_MODAL_TEXT.TITLE}</h3>
                     <button
-                        onClick={onClose}
+                        onClick={handleClose}
                         className="text-[#8fa6cc] hover:text-white transition-colors p-1 rounded-lg hover:bg-[#304669]/50"
+                        aria-label={CONTACTS_MODAL_TEXT.CLOSE}
                     >
                         <span className="material-symbols-outlined">close</span>
                     </button>
@@ -133,74 +260,116 @@ export const ContactsModal = ({ isOpen, onClose, onSelectContact }: ContactsModa
                         </span>
                         <input
                             className="w-full bg-[#0b1019]/60 border border-[#304669] rounded-xl py-3 pl-12 pr-4 text-sm text-white placeholder-[#506385] focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-all"
-                            placeholder="Search by name, email, or handle..."
+                            placeholder={CONTACTS_MODAL_TEXT.SEARCH_PLACEHOLDER}
                             type="text"
                             value={searchQuery}
                             onChange={(e) => setSearchQuery(e.target.value)}
                         />
                     </div>
+                    {errorMessage && (
+                        <p className="text-red-400 text-xs mt-2 px-1">{errorMessage}</p>
+                    )}
                 </div>
 
                 <div className="flex-1 overflow-y-auto p-5 pt-2 space-y-6 custom-scrollbar">
-                    {Object.keys(groupedContacts)
-                        .sort()
-                        .map((letter) => (
-                            <div key={letter}>
-                                <h4 className="text-xs font-bold text-primary mb-3 uppercase tracking-wider px-2">
-                                    {letter}
-                                </h4>
-                                <div className="space-y-1">
-                                    {groupedContacts[letter].map((contact) => (
-                                        <button
-                                            key={contact.id}
-                                            onClick={() => handleContactClick(contact)}
-                                            className="w-full flex items-center gap-3 p-3 rounded-xl hover:bg-[#304669]/30 hover:border-[#304669] border border-transparent transition-all group text-left"
-                                        >
-                                            {contact.avatar ? (
-                                                <div
-                                                    className="h-10 w-10 rounded-full bg-cover bg-center shrink-0 border border-[#304669]"
-                                                    style={{ backgroundImage: `url('${contact.avatar}')` }}
-                                                />
-                                            ) : (
-                                                <div
-                                                    className={`h-10 w-10 rounded-full ${contact.avatarColor} flex items-center justify-center text-white text-sm font-bold shrink-0 border border-opacity-30`}
-                                                >
-                                                    {contact.initials}
-                                                </div>
-                                            )}
-                                            <div className="flex-1 min-w-0">
-                                                <p className="text-sm font-medium text-white group-hover:text-primary transition-colors">
-                                                    {contact.name}
-                                                </p>
-                                                <p className="text-xs text-[#8fa6cc] truncate">
-                                                    {contact.handle} • {contact.email || contact.phone}
-                                                </p>
-                                            </div>
-                                        </button>
-                                    ))}
-                                </div>
-                            </div>
-                        ))}
-
-                    {filteredContacts.length === 0 && (
+                    {isLoading ? (
+                        <p className="py-12 text-center text-[#8fa6cc] text-sm">{CONTACTS_MODAL_TEXT.LOADING}</p>
+                    ) : isError ? (
+                        <div className="py-12 text-center">
+                            <p className="text-red-400 text-sm mb-2">{CONTACTS_MODAL_TEXT.LOAD_ERROR}</p>
+                            <button onClick={refetch} className="text-primary text-sm font-medium hover:underline">
+                                {CONTACTS_MODAL_TEXT.TRY_AGAIN}
+                            </button>
+                        </div>
+                    ) : filteredContacts.length === 0 ? (
                         <div className="flex flex-col items-center justify-center py-12 text-center">
                             <span className="material-symbols-outlined text-[#8fa6cc] text-[48px] mb-3">
                                 person_search
                             </span>
-                            <p className="text-white font-medium">No contacts found</p>
-                            <p className="text-[#8fa6cc] text-sm mt-1">Try a different search term</p>
+                            <p className="text-white font-medium">
+                                {contacts.length === 0 ? CONTACTS_MODAL_TEXT.NO_CONTACTS : CONTACTS_MODAL_TEXT.NO_RESULTS}
+                            </p>
+                            <p className="text-[#8fa6cc] text-sm mt-1">
+                                {contacts.length === 0 ? CONTACTS_MODAL_TEXT.NO_CONTACTS_HINT : CONTACTS_MODAL_TEXT.NO_RESULTS_HINT}
+                            </p>
                         </div>
+                    ) : (
+                        <>
+                            {renderSection(CONTACTS_MODAL_TEXT.FAVORITES, sections.favorites)}
+                            {renderSection(CONTACTS_MODAL_TEXT.RECENTLY_PAID, sections.recent)}
+                            {renderSection(CONTACTS_MODAL_TEXT.ALL_CONTACTS, sections.others)}
+                        </>
                     )}
                 </div>
 
-                {/* Footer */}
+                {/* Footer - Add Contact */}
                 <div className="p-5 border-t border-[#304669]/50 bg-[#101723]/60 backdrop-blur-md">
-                    <button className="w-full py-3 rounded-xl bg-[#223149] hover:bg-primary text-white text-sm font-semibold transition-all flex items-center justify-center gap-2 group">
-                        <span className="material-symbols-outlined text-[20px] group-hover:scale-110 transition-transform">
-                            person_add
-                        </span>
-                        Add New Contact
-                    </button>
+                    {isAdding ? (
+                        <form onSubmit={handleSubmit(onSubmitAdd)} className="space-y-3" noValidate>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                <div className="space-y-1">
+                                    <label htmlFor="contact-email" className="text-xs font-medium text-[#8fa6cc]">
+                                        {CONTACTS_MODAL_TEXT.EMAIL_LABEL}
+                                    </label>
+                                    <input
+                                        id="contact-email"
+                                        type="email"
+                                        placeholder={CONTACTS_MODAL_TEXT.EMAIL_PLACEHOLDER}
+                                        className={`w-full bg-[#0b1019]/60 border ${errors.contactEmail ? 'border-red-500' : 'border-[#304669]'} rounded-xl py-2.5 px-3 text-sm text-white placeholder-[#506385] focus:outline-none focus:border-primary`}
+                                        {...register('contactEmail')}
+                                    />
+                                    {errors.contactEmail && (
+                                        <p className="text-red-400 text-xs">{errors.contactEmail.message}</p>
+                                    )}
+                                </div>
+                                <div className="space-y-1">
+                                    <label htmlFor="contact-wallet" className="text-xs font-medium text-[#8fa6cc]">
+                                        {CONTACTS_MODAL_TEXT.WALLET_LABEL}
+                                    </label>
+                                    <select
+                                        id="contact-wallet"
+                                        className={`w-full bg-[#0b1019]/60 border ${errors.walletId ? 'border-red-500' : 'border-[#304669]'} rounded-xl py-2.5 px-3 text-sm text-white focus:outline-none focus:border-primary`}
+                                        {...register('walletId')}
+                                    >
+                                        {wallets.map((wallet) => (
+                                            <option key={wallet.id} value={wallet.id}>
+                                                {wallet.name} ({wallet.currency})
+                                            </option>
+                                        ))}
+                                    </select>
+                                    {errors.walletId && (
+                                        <p className="text-red-400 text-xs">{errors.walletId.message}</p>
+                                    )}
+                                </div>
+                            </div>
+                            <div className="flex gap-3">
+                                <button
+                                    type="button"
+                                    onClick={() => setIsAdding(false)}
+                                    className="flex-1 py-2.5 rounded-xl bg-[#223149] hover:bg-[#304669] text-white text-sm font-semibold transition-all"
+                                >
+                                    {CONTACTS_MODAL_TEXT.CANCEL}
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={isSaving}
+                                    className="flex-1 py-2.5 rounded-xl bg-primary hover:bg-primary/90 disabled:opacity-50 text-white text-sm font-semibold transition-all"
+                                >
+                                    {isSaving ? CONTACTS_MODAL_TEXT.SAVING : CONTACTS_MODAL_TEXT.SAVE_CONTACT}
+                                </button>
+                            </div>
+                        </form>
+                    ) : (
+                        <button
+                            onClick={handleStartAdding}
+                            className="w-full py-3 rounded-xl bg-[#223149] hover:bg-primary text-white text-sm font-semibold transition-all flex items-center justify-center gap-2 group"
+                        >
+                            <span className="material-symbols-outlined text-[20px] group-hover:scale-110 transition-transform">
+                                person_add
+                            </span>
+                            {CONTACTS_MODAL_TEXT.ADD_CONTACT}
+                        </button>
+                    )}
                 </div>
             </div>
 
@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { Button } from '../../../components/ui';
+import { PAYMENT_REQUESTS_TEXT } from '../constants/text';
+
+interface CopyPayLinkButtonProps {
+    /** Pay link to copy */
+    link: string;
+}
+
+/**
+ * Copies a payment request's pay link, briefly confirming the copy
+ */
+export const CopyPayLinkButton = ({ link }: CopyPayLinkButtonProps) => {
+    const [isCopied, setIsCopied] = useState(false);
+
+    /**
+     * Copies the link to the clipboard
+     */
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(link);
+            setIsCopied(true);
+            setTimeout(() => setIsCopied(false), 2000);
+        } catch (error) {
+            console.error('Failed to copy pay link:', error);
+        }
+    };
+
+    return (
+        <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            leftIcon={isCopied ? 'check' : 'content_copy'}
+            onClick={handleCopy}
+        >
+            {isCopied ? PAYMENT_REQUESTS_TEXT.LINK_COPIED : PAYMENT_REQUESTS_TEXT.COPY_LINK}
+        </Button>
+    );
+};
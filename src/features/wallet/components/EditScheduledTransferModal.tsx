@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Modal, ModalHeader, ModalBody, ModalFooter, Alert } from '../../../components/ui';
+import { ScheduleFields } from './ScheduleFields';
+import { SCHEDULED_TRANSFERS_TEXT } from '../constants/text';
+import { createEditScheduleSchema, type EditScheduleFormData } from '../../../schemas';
+import { positiveNumberHandlers } from '../../../utils/inputHelpers';
+import { getAmountPlaceholder, getAmountStep } from '../../../utils/currency';
+import { parseMoney, toDecimalString, toMajorUnits, toMoney, zeroMoney } from '../../../utils/money';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import { useUpdateScheduledTransferMutation } from '../services/scheduledTransferApi';
+import { toDateString } from '../utils/analytics';
+import { addDays, formatRunDate, toTransferSchedule } from '../utils/scheduledTransfers';
+import type { ScheduledTransfer } from '../types';
+
+interface EditScheduledTransferModalProps {
+    /** Schedule being edited; the modal is open while set */
+    schedule: ScheduledTransfer | null;
+    /** Balance of the payer wallet, which caps the amount */
+    availableBalance: number;
+    /** Callback when the modal is closed or the schedule is saved */
+    onClose: () => void;
+}
+
+/**
+ * Modal for editing the amount, note and timing of a scheduled transfer
+ * The payer wallet and recipient cannot change; cancel and reschedule instead
+ */
+export const EditScheduledTransferModal = ({ schedule, availableBalance, onClose }: EditScheduledTransferModalProps) => {
+    if (!schedule) return null;
+
+    // Keyed so the form is rebuilt from each schedule's values
+    return (
+        <EditScheduleForm
+            key={schedule.scheduleId}
+            schedule={schedule}
+            availableBalance={availableBalance}
+            onClose={onClose}
+        />
+    );
+};
+
+interface EditScheduleFormProps {
+    schedule: ScheduledTransfer;
+    availableBalance: number;
+    onClose: () => void;
+}
+
+const EditScheduleForm = ({ schedule, availableBalance, onClose }: EditScheduleFormProps) => {
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [updateScheduledTransfer, { isLoading: isSaving }] = useUpdateScheduledTransferMutation();
+
+    const currency = schedule.currency;
+    const today = toDateString(new Date());
+
+    const {
+        register,
+        handleSubmit,
+        watch,
+        formState: { errors },
+    } = useForm<EditScheduleFormData>({
+        resolver: zodResolver(createEditScheduleSchema(availableBalance, currency, today, schedule.startDate)),
+        defaultValues: {
+            amount: toDecimalString(toMoney(schedule.amount, currency)),
+            note: schedule.note ?? '',
+            // The saved start date anchors every run (e.g. monthly on the 31st), so it is sent back unchanged
+            startDate: schedule.startDate,
+            recurrence: schedule.recurrence,
+            intervalDays: schedule.intervalDays?.toString() ?? '',
+            endDate: schedule.endDate ?? '',
+        },
+        mode: 'onBlur',
+    });
+
+    const recurrence = watch('recurrence');
+    const startDate = watch('startDate');
+
+    /**
+     * Saves the schedule and closes the modal
+     */
+    const onSubmit = async (data: EditScheduleFormData) => {
+        setErrorMessage(null);
+        try {
+            await updateScheduledTransfer({
+                scheduleId: schedule.scheduleId,
+                amount: toMajorUnits(parseMoney(data.amount, currency) ?? zeroMoney(currency)),
+                note: data.note || undefined,
+                ...toTransferSchedule(data),
+            }).unwrap();
+            onClose();
+        } catch (error) {
+            setErrorMessage(getApiErrorMessage(error, SCHEDULED_TRANSFERS_TEXT.DEFAULT_ERROR));
+        }
+    };
+
+    return (
+        <Modal isOpen onClose={onClose} maxWidth="md">
+            <ModalHeader
+                icon="edit_calendar"
+                title={SCHEDULED_TRANSFERS_TEXT.EDIT_TITLE}
+                subtitle={SCHEDULED_TRANSFERS_TEXT.TO(schedule.recipientEmail)}
+                onClose={onClose}
+            />
+
+            <form onSubmit={handleSubmit(onSubmit)}>
+                <ModalBody>
+                    {errorMessage && (
+                        <Alert
+                            variant="error"
+                            title={SCHEDULED_TRANSFERS_TEXT.UPDATE_FAILED}
+                            message={errorMessage}
+                            onDismiss={() => setErrorMessage(null)}
+                        />
+                    )}
+
+                    <div className="space-y-2">
+                        <label htmlFor="schedule-amount" className="text-sm font-medium text-slate-400 ml-1">
+                            {`${SCHEDULED_TRANSFERS_TEXT.AMOUNT_LABEL} (${currency})`}
+                        </label>
+                        <input
+                            id="schedule-amount"
+                            type="number"
+                            step={getAmountStep(currency)}
+                            min="0"
+                            placeholder={getAmountPlaceholder(currency)}
+                            {...positiveNumberHandlers}
+                            className={`w-full bg-white/5 border ${errors.amount ? 'border-red-500' : 'border-white/10 focus:border-blue-500'
+                                } focus:ring-1 focus:ring-blue-500 rounded-xl py-3 px-4 text-white font-bold placeholder:text-slate-500 transition-all outline-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none`}
+                            {...register('amount')}
+                        />
+                        {errors.amount && <p className="text-red-400 text-xs ml-1">{errors.amount.message}</p>}
+                    </div>
+
+                    <ScheduleFields
+                        fields={{
+                            startDate: register('startDate'),
+                            recurrence: register('recurrence'),
+                            intervalDays: register('intervalDays'),
+                            endDate: register('endDate'),
+                        }}
+                        recurrence={recurrence}
+                        errors={{
+                            startDate: errors.startDate?.message,
+                            intervalDays: errors.intervalDays?.message,
+                            endDate: errors.endDate?.message,
+                        }}
+                        minDate={startDate === schedule.startDate ? undefined : addDays(today, 1)}
+                    />
+                    {schedule.nextRunDate && (
+                        <p className="text-slate-400 text-xs ml-1">
+                            {SCHEDULED_TRANSFERS_TEXT.NEXT_RUN(formatRunDate(schedule.nextRunDate))}
+                        </p>
+                    )}
+
+                    <div className="space-y-2">
+                        <label htmlFor="schedule-note" className="text-sm font-medium text-slate-400 ml-1">
+                            {SCHEDULED_TRANSFERS_TEXT.NOTE_LABEL}
+                        </label>
+                        <input
+                            id="schedule-note"
+                            type="text"
+                            className={`w-full bg-white/5 border ${errors.note ? 'border-red-500' : 'border-white/10 focus:border-blue-500'
+                                } focus:ring-1 focus:ring-blue-500 rounded-xl py-3 px-4 text-white placeholder:text-slate-500 transition-all outline-none`}
+                            {...register('note')}
+                        />
+                        {errors.note && <p className="text-red-400 text-xs ml-1">{errors.note.message}</p>}
+                    </div>
+                </ModalBody>
+
+                <ModalFooter className="flex gap-3">
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        disabled={isSaving}
+                        className="flex-1 h-12 bg-white/5 hover:bg-white/10 text-white font-semibold rounded-xl transition-all border border-white/10 disabled:opacity-50"
+                    >
+                        {SCHEDULED_TRANSFERS_TEXT.CLOSE}
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={isSaving}
+                        className="flex-1 h-12 bg-primary hover:bg-[#2563eb] text-white font-semibold rounded-xl transition-all shadow-lg shadow-primary/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isSaving ? SCHEDULED_TRANSFERS_TEXT.SAVING : SCHEDULED_TRANSFERS_TEXT.SAVE}
+                    </button>
+                </ModalFooter>
+            </form>
+        </Modal>
+    );
+};
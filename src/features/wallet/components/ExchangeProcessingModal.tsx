@@ -0,0 +1,77 @@
+import { ProcessingModal } from '../../../components/ui/ProcessingModal';
+import { EXCHANGE_TEXT, ICONS, MODAL_TEXT } from '../constants/text';
+
+interface ExchangeProcessingModalProps {
+    /** Whether the modal is open */
+    isOpen: boolean;
+    /** Amount being sold */
+    amount: string;
+    /** Source currency code */
+    currency: string;
+    /** Source wallet display name */
+    sourceWalletName: string;
+    /** Destination wallet display name */
+    destinationWalletName: string;
+    /** Formatted exchange rate (e.g., "1 SGD = 0.74 USD") */
+    rate: string;
+    /** Callback when processing animation completes */
+    onComplete: () => void;
+}
+
+/**
+ * Processing modal for currency exchange between two of the user's wallets.
+ * Shows the flow from the source wallet to the destination wallet at the quoted rate.
+ */
+export const ExchangeProcessingModal = ({
+    isOpen,
+    amount,
+    currency,
+    sourceWalletName,
+    destinationWalletName,
+    rate,
+    onComplete,
+}: ExchangeProcessingModalProps) => {
+    const timelineSteps = [
+        {
+            title: 'Locking Quoted Rate',
+            description: 'Phase 1: Quote Validated',
+            duration: '80ms',
+            status: 'completed' as const,
+        },
+        {
+            title: 'Debiting Source Wallet',
+            description: 'Phase 2: Settlement in progress',
+            duration: '60ms',
+            status: 'completed' as const,
+        },
+        {
+            title: 'Crediting Destination Wallet',
+            description: 'Phase 3: Commit Pending',
+            duration: 'PENDING',
+            status: 'in-progress' as const,
+        },
+    ];
+
+    return (
+        <ProcessingModal
+            isOpen={isOpen}
+            title={EXCHANGE_TEXT.PROCESSING_TITLE}
+            heading={EXCHANGE_TEXT.PROCESSING_HEADING}
+            subtitle={EXCHANGE_TEXT.PROCESSING_SUBTITLE}
+            amount={amount}
+            currency={currency}
+            sourceIcon={ICONS.ACCOUNT_BALANCE_WALLET}
+            sourceLabel={sourceWalletName}
+            destinationIcon={ICONS.CURRENCY_EXCHANGE}
+            destinationLabel={destinationWalletName}
+            secondaryInfo={rate}
+            secondaryInfoLabel={EXCHANGE_TEXT.RATE_INFO_LABEL}
+            secondaryInfoIcon={ICONS.CURRENCY_EXCHANGE}
+            phaseName={EXCHANGE_TEXT.PROCESSING_PHASE}
+            progressSubtext={EXCHANGE_TEXT.PROCESSING_SUBTEXT}
+            transactionId={MODAL_TEXT.TXID_PREFIX}
+            timelineSteps={timelineSteps}
+            onComplete={onComplete}
+        />
+    );
+};
@@ -0,0 +1,71 @@
+import { SuccessModal } from '../../../components/ui/SuccessModal';
+import { EXCHANGE_TEXT, MODAL_TEXT, ICONS } from '../constants/text';
+import { formatCurrency, formatExchangeRate, formatTransactionDateTime } from '../utils/formatters';
+import { toDecimalString, toMoney } from '../../../utils/money';
+import type { ExchangeResponse } from '../types';
+
+interface ExchangeSuccessModalProps {
+    isOpen: boolean;
+    /** Result of the executed exchange */
+    result: ExchangeResponse | null;
+    /** Name of the wallet that received the funds */
+    destinationWalletName: string;
+    onClose: () => void;
+}
+
+/**
+ * Modal displayed after a successful currency exchange.
+ * Uses the reusable SuccessModal component with the credited amount as the headline.
+ */
+export const ExchangeSuccessModal = ({
+    isOpen,
+    result,
+    destinationWalletName,
+    onClose,
+}: ExchangeSuccessModalProps) => {
+    const transactionDetails = result
+        ? [
+            {
+                label: EXCHANGE_TEXT.DEBITED,
+                value: `${formatCurrency(result.sourceAmount, result.sourceCurrency)} ${result.sourceCurrency}`,
+            },
+            {
+                label: EXCHANGE_TEXT.RATE_LABEL,
+                value: formatExchangeRate(result.rate, result.sourceCurrency, result.destinationCurrency),
+                icon: ICONS.CURRENCY_EXCHANGE,
+            },
+            {
+                label: EXCHANGE_TEXT.SOURCE_REFERENCE,
+                value: result.sourceTransactionReference,
+                copyable: true,
+            },
+            {
+                label: EXCHANGE_TEXT.DESTINATION_REFERENCE,
+                value: result.destinationTransactionReference,
+                copyable: true,
+            },
+            {
+                label: MODAL_TEXT.TIMESTAMP,
+                value: formatTransactionDateTime(result.timestamp),
+            },
+        ]
+        : [];
+
+    return (
+        <SuccessModal
+            isOpen={isOpen}
+            onClose={onClose}
+            title={EXCHANGE_TEXT.EXCHANGE_SUCCESSFUL}
+            subtitle={EXCHANGE_TEXT.EXCHANGE_COMPLETED}
+            amount={result ? toDecimalString(toMoney(result.destinationAmount, result.destinationCurrency)) : '0'}
+            currency={result?.destinationCurrency ?? ''}
+            recipient={{ name: destinationWalletName }}
+            details={transactionDetails}
+            primaryAction={{
+                label: MODAL_TEXT.DONE,
+                onClick: onClose,
+            }}
+            footerText={MODAL_TEXT.ENCRYPTED_TRANSACTION}
+        />
+    );
+};
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Modal, ModalHeader, ModalBody, ModalFooter, Alert } from '../../../components/ui';
+import { EXPORT_TEXT, ICONS } from '../constants/text';
+import { ExportFormat } from '../types';
+import type { TransactionHistoryFilters } from '../types';
+import { useTransactionExport } from '../hooks/useTransactionExport';
+
+interface ExportTransactionsModalProps {
+    /** Whether the modal is open */
+    isOpen: boolean;
+    /** Callback when modal is closed */
+    onClose: () => void;
+    /** Active wallet filter - exports all wallets when omitted */
+    walletId?: string;
+    /** Display name of the filtered wallet */
+    walletName?: string;
+    /** Active history filters to apply; the date range seeds the date inputs */
+    filters?: TransactionHistoryFilters;
+}
+
+/** Format options in display order */
+const FORMAT_OPTIONS: ExportFormat[] = [
+    ExportFormat.CSV,
+    ExportFormat.JSON,
+    ExportFormat.OFX,
+    ExportFormat.QIF,
+];
+
+/**
+ * Modal for exporting transaction history to CSV, JSON, OFX or QIF.
+ * Fetches every page matching the active filters and date range, then downloads the file.
+ */
+export const ExportTransactionsModal = ({
+    isOpen,
+    onClose,
+    walletId,
+    walletName,
+    filters = {},
+}: ExportTransactionsModalProps) => {
+    const [format, setFormat] = useState<ExportFormat>(ExportFormat.CSV);
+    const [startDate, setStartDate] = useState(filters.startDate ?? '');
+    const [endDate, setEndDate] = useState(filters.endDate ?? '');
+    const [exportedCount, setExportedCount] = useState<number | null>(null);
+    const { exportTransactions, isExporting, fetchedCount, isTruncated, error, clearError } = useTransactionExport();
+
+    const isRangeInvalid = Boolean(startDate && endDate && startDate > endDate);
+
+    /**
+     * Handles closing the modal and clearing transient state
+     */
+    const handleClose = () => {
+        if (isExporting) return;
+        clearError();
+        setExportedCount(null);
+        onClose();
+    };
+
+    /**
+     * Runs the export with the selected options
+     */
+    const handleExport = async () => {
+        if (isRangeInvalid) return;
+        setExportedCount(null);
+
+        const count = await exportTransactions({
+            ...filters,
+            format,
+            walletId,
+            scopeLabel: walletName ?? EXPORT_TEXT.ALL_WALLETS_SLUG,
+            startDate: startDate || undefined,
+            endDate: endDate || undefined,
+        });
+
+        if (count !== null) {
+            setExportedCount(count);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={handleClose} maxWidth="md">
+            <ModalHeader
+                icon={ICONS.DOWNLOAD}
+                title={EXPORT_TEXT.TITLE}
+                subtitle={EXPORT_TEXT.SUBTITLE}
+                onClose={handleClose}
+            />
+
+            <ModalBody>
+                {error && (
+                    <Alert
+                        variant="error"
+                        title={EXPORT_TEXT.EXPORT_FAILED_TITLE}
+                        message={error}
+                        onDismiss={clearError}
+                    />
+                )}
+
+                {exportedCount !== null && (isTruncated ? (
+                    <Alert
+                        variant="warning"
+                        title={EXPORT_TEXT.TRUNCATED_TITLE}
+                        message={EXPORT_TEXT.TRUNCATED_MESSAGE(exportedCount)}
+                    />
+                ) : (
+                    <Alert variant="success" title={EXPORT_TEXT.EXPORTED_COUNT(exportedCount)} />
+                ))}
+
+                {/* Scope */}
+                <div className="flex items-center justify-between text-sm">
+                    <span className="text-[#90a4cb]">{EXPORT_TEXT.SCOPE_LABEL}</span>
+                    <span className="text-white font-medium">{walletName ?? EXPORT_TEXT.ALL_WALLETS}</span>
+                </div>
+
+                {/* Format Selection */}
+                <div className="flex flex-col gap-3">
+                    <label className="text-sm font-medium text-[#90a4cb] ml-1">{EXPORT_TEXT.FORMAT_LABEL}</label>
+                    <div className="grid grid-cols-2 gap-3">
+                        {FORMAT_OPTIONS.map((option) => (
+                            <label
+                                key={option}
+                                className={`flex flex-col p-3 rounded-xl border-2 cursor-pointer transition-all ${format === option
+                                    ? 'border-primary bg-primary/5'
+                                    : 'border-[#314368] bg-[#101623] hover:border-[#4b5563]'
+                                    }`}
+                            >
+                                <input
+                                    className="sr-only"
+                                    type="radio"
+                                    name="export_format"
+                                    value={option}
+                                    checked={format === option}
+                                    onChange={() => setFormat(option)}
+                                />
+                                <span className="text-white font-semibold text-sm">{EXPORT_TEXT.FORMATS[option].label}</span>
+                                <span className="text-[#90a4cb] text-xs">{EXPORT_TEXT.FORMATS[option].description}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Date Range */}
+                <div className="flex flex-col gap-3">
+                    <label className="text-sm font-medium text-[#90a4cb] ml-1">{EXPORT_TEXT.DATE_RANGE_LABEL}</label>
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="flex flex-col gap-1 text-xs text-[#90a4cb]">
+                            {EXPORT_TEXT.FROM_LABEL}
+                            <input
+                                type="date"
+                                value={startDate}
+                                max={endDate || undefined}
+                                onChange={(e) => setStartDate(e.target.value)}
+                                className="bg-[#101623] text-white text-sm rounded-lg border border-[#314368] px-3 py-2 outline-none focus:border-primary"
+                            />
+                        </label>
+                        <label className="flex flex-col gap-1 text-xs text-[#90a4cb]">
+                            {EXPORT_TEXT.TO_LABEL}
+                            <input
+                                type="date"
+                                value={endDate}
+                                min={startDate || undefined}
+                                onChange={(e) => setEndDate(e.target.value)}
+                                className="bg-[#101623] text-white text-sm rounded-lg border border-[#314368] px-3 py-2 outline-none focus:border-primary"
+                            />
+                        </label>
+                    </div>
+                    {isRangeInvalid && (
+                        <p className="text-red-500 text-xs ml-1">{EXPORT_TEXT.INVALID_RANGE}</p>
+                    )}
+                </div>
+
+                {isExporting && (
+                    <p className="text-sm text-[#90a4cb] flex items-center gap-2">
+                        <span className="material-symbols-outlined animate-spin text-[18px]">{ICONS.PROGRESS_ACTIVITY}</span>
+                        {EXPORT_TEXT.FETCHED_COUNT(fetchedCount)}
+                    </p>
+                )}
+            </ModalBody>
+
+            <ModalFooter className="flex gap-3">
+                <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={isExporting}
+                    className="flex-1 h-12 bg-white/5 hover:bg-white/10 text-white font-semibold rounded-xl transition-all border border-white/10 disabled:opacity-50"
+                >
+                    {EXPORT_TEXT.CANCEL}
+                </button>
+                <button
+                    type="button"
+                    onClick={handleExport}
+                    disabled={isExporting || isRangeInvalid}
+                    className="flex-1 h-12 bg-primary hover:bg-[#2563eb] text-white font-semibold rounded-xl transition-all shadow-lg shadow-primary/20 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <span className="material-symbols-outlined text-[18px]">{ICONS.DOWNLOAD}</span>
+                    {isExporting ? EXPORT_TEXT.EXPORTING : EXPORT_TEXT.EXPORT_BUTTON}
+                </button>
+            </ModalFooter>
+        </Modal>
+    );
+};
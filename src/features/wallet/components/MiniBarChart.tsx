@@ -49,11 +49,11 @@ const colorClasses: Record<WalletColorVariant, string[]> = {
 
 /**
  * Mini bar chart component for wallet cards
- * Displays a simple bar chart visualization
+ * Displays a simple bar chart visualization; bars with a label show it as a tooltip
  */
 export const MiniBarChart = ({ data, colorVariant }: MiniBarChartProps) => {
     const colors = colorClasses[colorVariant];
-    const maxValue = Math.max(...data.map((d) => d.value));
+    const maxValue = Math.max(0, ...data.map((d) => d.value));
 
     return (
         <div className="mt-2 h-16 flex items-end gap-1 px-1">
@@ -65,6 +65,7 @@ export const MiniBarChart = ({ data, colorVariant }: MiniBarChartProps) => {
                     <div
                         key={index}
                         className={`flex-1 rounded-sm ${colorClass}`}
+                        title={point.label}
                         style={{ height: `${Math.max(heightPercent, 10)}%` }}
                     />
                 );
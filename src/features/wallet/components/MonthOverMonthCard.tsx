@@ -0,0 +1,75 @@
+import { Card } from '../../../components/ui/Card';
+import { ANALYTICS_TEXT } from '../constants/text';
+import { formatCurrency } from '../utils/formatters';
+import { formatMonthLabel } from '../utils/analytics';
+import type { MonthOverMonthComparison } from '../types';
+
+interface MonthOverMonthCardProps {
+    /** Current month compared with the previous one */
+    comparison: MonthOverMonthComparison;
+    /** Currency code */
+    currency: string;
+}
+
+/**
+ * Renders a percentage change badge
+ * Rising income and falling spending are shown as good (green)
+ * @param change - Percentage change, or null when not comparable
+ * @param higherIsBetter - Whether an increase is favourable
+ */
+const ChangeBadge = ({ change, higherIsBetter }: { change: number | null; higherIsBetter: boolean }) => {
+    if (change === null) {
+        return <span className="text-xs text-slate-500">{ANALYTICS_TEXT.CHANGE_NOT_AVAILABLE}</span>;
+    }
+
+    const isGood = change === 0 || (change > 0) === higherIsBetter;
+    return (
+        <span className={`flex items-center gap-0.5 text-xs font-semibold ${isGood ? 'text-emerald-400' : 'text-red-400'}`}>
+            <span className="material-symbols-outlined text-[16px]">
+                {change >= 0 ? 'trending_up' : 'trending_down'}
+            </span>
+            {ANALYTICS_TEXT.PERCENT_CHANGE(change)}
+        </span>
+    );
+};
+
+/**
+ * Compares this month's income and spending with last month's
+ */
+export const MonthOverMonthCard = ({ comparison, currency }: MonthOverMonthCardProps) => {
+    const { current, previous, incomeChange, spendingChange } = comparison;
+
+    const rows = [
+        { label: ANALYTICS_TEXT.INCOME, current: current.income, previous: previous.income, change: incomeChange, higherIsBetter: true },
+        { label: ANALYTICS_TEXT.SPENDING, current: current.spending, previous: previous.spending, change: spendingChange, higherIsBetter: false },
+    ];
+
+    return (
+        <Card variant="dark" className="flex flex-col gap-4">
+            <div className="flex items-start justify-between">
+                <div>
+                    <h3 className="text-white text-base font-bold">{ANALYTICS_TEXT.MONTH_OVER_MONTH_TITLE}</h3>
+                    <p className="text-slate-400 text-sm">
+                        {formatMonthLabel(current.month)} / {formatMonthLabel(previous.month)}
+                    </p>
+                </div>
+                <span className="material-symbols-outlined text-slate-400 text-2xl">compare_arrows</span>
+            </div>
+
+            <div className="flex flex-col gap-3">
+                {rows.map((row) => (
+                    <div key={row.label} className="flex items-center justify-between gap-4">
+                        <div className="flex flex-col">
+                            <span className="text-slate-300 text-sm font-medium">{row.label}</span>
+                            <span className="text-slate-500 text-xs">{formatCurrency(row.previous, currency)}</span>
+                        </div>
+                        <div className="flex flex-col items-end">
+                            <span className="text-white font-semibold">{formatCurrency(row.current, currency)}</span>
+                            <ChangeBadge change={row.change} higherIsBetter={row.higherIsBetter} />
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </Card>
+    );
+};
@@ -1,12 +1,10 @@
 import { WALLETS_TEXT } from '../constants/text';
-import { formatCurrency } from '../utils/formatters';
 import { Card } from '../../../components/ui/Card';
+import { formatMoneyValue, type Money } from '../../../utils/money';
 
 interface NetWorthCardProps {
-    /** Total net worth amount */
-    totalNetWorth: number;
-    /** Currency code */
-    currency: string;
+    /** Net worth per currency; the first is shown largest and the rest are listed under it */
+    totals: Money[];
     /** Monthly growth percentage */
     monthlyGrowth: number;
     /** Number of active currencies/assets */
@@ -18,12 +16,12 @@ interface NetWorthCardProps {
  * Displays total net worth with growth and asset metrics
  */
 export const NetWorthCard = ({
-    totalNetWorth,
-    currency,
+    totals,
     monthlyGrowth,
     activeCurrencies,
 }: NetWorthCardProps) => {
     const isPositiveGrowth = monthlyGrowth >= 0;
+    const [primaryTotal, ...otherTotals] = totals;
 
     return (
         <Card variant="glass" className="flex flex-col md:flex-row items-center justify-between gap-8 border-l-4 border-l-blue-500">
@@ -37,8 +35,13 @@ export const NetWorthCard = ({
                         {WALLETS_TEXT.TOTAL_NET_WORTH}
                     </span>
                     <span className="text-4xl font-black text-white">
-                        {formatCurrency(totalNetWorth, currency)}
+                        {formatMoneyValue(primaryTotal)}
                     </span>
+                    {otherTotals.length > 0 && (
+                        <span className="text-sm font-semibold text-slate-400">
+                            {otherTotals.map((total) => `+ ${formatMoneyValue(total)}`).join(' · ')}
+                        </span>
+                    )}
                 </div>
             </div>
 
@@ -0,0 +1,100 @@
+import { Button, StatusBadge } from '../../../components/ui';
+import type { StatusVariant } from '../../../components/ui/StatusBadge';
+import { CopyPayLinkButton } from './CopyPayLinkButton';
+import { PAYMENT_REQUESTS_TEXT } from '../constants/text';
+import { formatCurrency, formatDate } from '../utils/formatters';
+import { getPaymentRequestStatus } from '../utils/paymentRequests';
+import { PaymentRequestStatusEnum, type PaymentRequest } from '../types';
+
+/** Badge colour for each request status */
+const STATUS_VARIANTS: Record<PaymentRequestStatusEnum, StatusVariant> = {
+    PENDING: 'pending',
+    PAID: 'success',
+    EXPIRED: 'cancelled',
+    DECLINED: 'failed',
+};
+
+interface PaymentRequestListItemProps {
+    /** The payment request */
+    request: PaymentRequest;
+    /** Whether the user created the request (sent) or is asked to pay it (received) */
+    direction: 'sent' | 'received';
+    /** Shareable pay link for the request */
+    payLink: string;
+    /** Current time, for expiry */
+    now: Date;
+    /** Callback to pay a received request */
+    onPay: (request: PaymentRequest) => void;
+    /** Callback to decline a received request */
+    onDecline: (request: PaymentRequest) => void;
+    /** Whether a decline is in flight for any request */
+    isDeclining?: boolean;
+}
+
+/**
+ * A single payment request with its status and actions
+ * Pending sent requests can be shared again; pending received ones can be paid or declined
+ */
+export const PaymentRequestListItem = ({
+    request,
+    direction,
+    payLink,
+    now,
+    onPay,
+    onDecline,
+    isDeclining = false,
+}: PaymentRequestListItemProps) => {
+    const status = getPaymentRequestStatus(request, now);
+    const isPending = status === PaymentRequestStatusEnum.PENDING;
+
+    const counterparty = direction === 'received'
+        ? PAYMENT_REQUESTS_TEXT.FROM(request.requesterName)
+        : request.payerEmail
+            ? PAYMENT_REQUESTS_TEXT.TO(request.payerEmail)
+            : PAYMENT_REQUESTS_TEXT.ANYONE_WITH_LINK;
+
+    const timing = request.paidAt
+        ? PAYMENT_REQUESTS_TEXT.PAID_ON(formatDate(request.paidAt))
+        : PAYMENT_REQUESTS_TEXT.EXPIRES(formatDate(request.expiresAt));
+
+    return (
+        <li className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 bg-[#161E2C] border border-slate-700 rounded-xl">
+            <div className="flex items-center gap-3 min-w-0">
+                <div className="size-10 rounded-lg flex items-center justify-center shrink-0 bg-blue-500/10 text-blue-500">
+                    <span className="material-symbols-outlined">
+                        {direction === 'received' ? 'call_received' : 'call_made'}
+                    </span>
+                </div>
+                <div className="flex flex-col min-w-0">
+                    <div className="flex items-center gap-2">
+                        <p className="text-sm font-semibold text-white truncate">{counterparty}</p>
+                        <StatusBadge
+                            variant={STATUS_VARIANTS[status]}
+                            label={PAYMENT_REQUESTS_TEXT.STATUSES[status]}
+                            size="sm"
+                        />
+                    </div>
+                    {request.note && <p className="text-xs text-slate-400 truncate">{request.note}</p>}
+                    <p className="text-xs text-slate-500">{timing}</p>
+                </div>
+            </div>
+
+            <div className="flex items-center gap-2 shrink-0">
+                <p className="text-base font-bold text-white mr-2">
+                    {formatCurrency(request.amount, request.currency)}
+                </p>
+                {isPending && direction === 'sent' && <CopyPayLinkButton link={payLink} />}
+                {isPending && direction === 'received' && (
+                    <>
+                        <Button variant="ghost" size="sm" disabled={isDeclining} onClick={() => onDecline(request)}>
+                            {PAYMENT_REQUESTS_TEXT.DECLINE}
+                        </Button>
+                        <Button size="sm" leftIcon="send" onClick={() => onPay(request)}>
+                            {PAYMENT_REQUESTS_TEXT.PAY}
+                        </Button>
+                    </>
+                )}
+            </div>
+        </li>
+    );
+};
@@ -0,0 +1,315 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Modal, ModalHeader, ModalBody, ModalFooter, Alert } from '../../../components/ui';
+import { ContactsModal } from './ContactsModal';
+import { CopyPayLinkButton } from './CopyPayLinkButton';
+import { PAYMENT_REQUESTS_TEXT } from '../constants/text';
+import { createPaymentRequestSchema, PAYMENT_REQUEST_EXPIRY_DAYS, type PaymentRequestFormData } from '../../../schemas';
+import { positiveNumberHandlers } from '../../../utils/inputHelpers';
+import { DEFAULT_CURRENCY, formatMoney, getAmountPlaceholder, getAmountStep } from '../../../utils/currency';
+import { parseMoney, toMajorUnits, zeroMoney } from '../../../utils/money';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import { useGetUserDetailsQuery } from '../../user/services/userApi';
+import { useCreatePaymentRequestMutation } from '../services/paymentRequestApi';
+import { getExpiresAt, getPayLink } from '../utils/paymentRequests';
+import type { CurrencyEnum, PaymentRequest, WalletSummary } from '../types';
+
+interface RequestMoneyModalProps {
+    /** Whether the modal is open */
+    isOpen: boolean;
+    /** Callback when modal is closed */
+    onClose: () => void;
+    /** The user's wallets; the request is paid into one of them */
+    wallets: WalletSummary[];
+    /** Wallet selected when the modal opens */
+    defaultWalletId?: string;
+}
+
+/** Input styles matching the transfer form */
+const inputClass = (hasError: boolean) =>
+    `w-full bg-white/5 border ${hasError ? 'border-red-500' : 'border-white/10 focus:border-blue-500'} focus:ring-1 focus:ring-blue-500 rounded-xl py-3 px-4 text-white placeholder:text-slate-500 transition-all outline-none`;
+
+/**
+ * Modal for requesting money from a contact or as a shareable pay link
+ * Once created, shows the pay link and QR code to share
+ */
+export const RequestMoneyModal = ({ isOpen, onClose, wallets, defaultWalletId }: RequestMoneyModalProps) => {
+    if (!isOpen) return null;
+
+    // Mounted only while open so every request starts from a clean form
+    return <RequestMoneyForm onClose={onClose} wallets={wallets} defaultWalletId={defaultWalletId} />;
+};
+
+const RequestMoneyForm = ({ onClose, wallets, defaultWalletId }: Omit<RequestMoneyModalProps, 'isOpen'>) => {
+    const [createdRequest, setCreatedRequest] = useState<PaymentRequest | null>(null);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [isContactsModalOpen, setIsContactsModalOpen] = useState(false);
+
+    const { data: user } = useGetUserDetailsQuery();
+    const [createPaymentRequest, { isLoading: isCreating }] = useCreatePaymentRequestMutation();
+
+    const initialWalletId = defaultWalletId ?? wallets[0]?.id ?? '';
+    const [walletId, setWalletId] = useState(initialWalletId);
+    const currency = wallets.find((wallet) => wallet.id === walletId)?.currency ?? DEFAULT_CURRENCY;
+
+    const {
+        register,
+        handleSubmit,
+        watch,
+        setValue,
+        formState: { errors },
+    } = useForm<PaymentRequestFormData>({
+        resolver: zodResolver(createPaymentRequestSchema(currency, user?.email)),
+        defaultValues: {
+            walletId: initialWalletId,
+            shareAsLink: false,
+            payerEmail: '',
+            amount: '',
+            note: '',
+            expiresInDays: '7',
+        },
+        mode: 'onBlur',
+    });
+
+    const shareAsLink = watch('shareAsLink');
+
+    /**
+     * Creates the request and switches to the share view
+     */
+    const onSubmit = async (data: PaymentRequestFormData) => {
+        setErrorMessage(null);
+        try {
+            const request = await createPaymentRequest({
+                walletId: data.walletId,
+                amount: toMajorUnits(parseMoney(data.amount, currency) ?? zeroMoney(currency)),
+                currency: currency as CurrencyEnum,
+                note: data.note || undefined,
+                expiresAt: getExpiresAt(new Date(), Number(data.expiresInDays)),
+                payerEmail: data.shareAsLink ? undefined : data.payerEmail,
+            }).unwrap();
+            setCreatedRequest(request);
+        } catch (error) {
+            setErrorMessage(getApiErrorMessage(error, PAYMENT_REQUESTS_TEXT.DEFAULT_ERROR));
+        }
+    };
+
+    if (createdRequest) {
+        const payLink = getPayLink(createdRequest.requestId, window.location.origin);
+
+        return (
+            <Modal isOpen onClose={onClose} maxWidth="md">
+                <ModalHeader
+                    icon="check_circle"
+                    title={PAYMENT_REQUESTS_TEXT.CREATED_TITLE}
+                    subtitle={formatMoney(createdRequest.amount, createdRequest.currency)}
+                    onClose={onClose}
+                />
+                <ModalBody className="items-center text-center">
+                    <p className="text-sm text-slate-300">
+                        {createdRequest.payerEmail
+                            ? PAYMENT_REQUESTS_TEXT.CREATED_SENT(createdRequest.payerEmail)
+                            : PAYMENT_REQUESTS_TEXT.CREATED_LINK}
+                    </p>
+                    <img
+                        src={createdRequest.qrCode}
+                        alt={PAYMENT_REQUESTS_TEXT.QR_ALT}
+                        className="size-48 rounded-xl bg-white p-2"
+                    />
+                    <div className="w-full flex flex-col gap-2 text-left">
+                        <span className="text-sm font-medium text-slate-400 ml-1">{PAYMENT_REQUESTS_TEXT.PAY_LINK_LABEL}</span>
+                        <div className="flex items-center gap-2 p-2.5 bg-slate-800/50 rounded-lg border border-slate-700">
+                            <span className="font-mono text-xs text-slate-300 truncate flex-1" title={payLink}>
+                                {payLink}
+                            </span>
+                            <CopyPayLinkButton link={payLink} />
+                        </div>
+                    </div>
+                </ModalBody>
+                <ModalFooter>
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="w-full h-12 bg-primary hover:bg-[#2563eb] text-white font-semibold rounded-xl transition-all shadow-lg shadow-primary/20"
+                    >
+                        {PAYMENT_REQUESTS_TEXT.DONE}
+                    </button>
+                </ModalFooter>
+            </Modal>
+        );
+    }
+
+    const walletField = register('walletId');
+
+    return (
+        <>
+            <Modal isOpen onClose={onClose} maxWidth="md">
+                <ModalHeader
+                    icon="request_quote"
+                    title={PAYMENT_REQUESTS_TEXT.MODAL_TITLE}
+                    subtitle={PAYMENT_REQUESTS_TEXT.MODAL_SUBTITLE}
+                    onClose={onClose}
+                />
+
+                <form onSubmit={handleSubmit(onSubmit)}>
+                    <ModalBody>
+                        {errorMessage && (
+                            <Alert
+                                variant="error"
+                                title={PAYMENT_REQUESTS_TEXT.CREATE_FAILED}
+                                message={errorMessage}
+                                onDismiss={() => setErrorMessage(null)}
+                            />
+                        )}
+
+                        {/* Receiving Wallet */}
+                        <div className="space-y-2">
+                            <label htmlFor="request-wallet" className="text-sm font-medium text-slate-400 ml-1">
+                                {PAYMENT_REQUESTS_TEXT.WALLET_LABEL}
+                            </label>
+                            <select
+                                id="request-wallet"
+                                className={inputClass(Boolean(errors.walletId))}
+                                {...walletField}
+                                onChange={(event) => {
+                                    walletField.onChange(event);
+                                    setWalletId(event.target.value);
+                                }}
+                            >
+                                {wallets.map((wallet) => (
+                                    <option key={wallet.id} value={wallet.id} className="bg-slate-800">
+                                        {`${wallet.name} (${wallet.currency})`}
+                                    </option>
+                                ))}
+                            </select>
+                            {errors.walletId && <p className="text-red-400 text-xs ml-1">{errors.walletId.message}</p>}
+                        </div>
+
+                        {/* Contact or Link */}
+                        <div className="grid grid-cols-2 gap-2 p-1 bg-white/5 rounded-xl">
+                            {[false, true].map((asLink) => (
+                                <button
+                                    key={String(asLink)}
+                                    type="button"
+                                    onClick={() => setValue('shareAsLink', asLink)}
+                                    aria-pressed={shareAsLink === asLink}
+                                    className={`py-2 rounded-lg text-sm font-semibold transition-all ${shareAsLink === asLink
+                                        ? 'bg-blue-500 text-white'
+                                        : 'text-slate-400 hover:text-white'
+                                        }`}
+                                >
+                                    {asLink ? PAYMENT_REQUESTS_TEXT.SHARE_LINK : PAYMENT_REQUESTS_TEXT.FROM_CONTACT}
+                                </button>
+                            ))}
+                        </div>
+
+                        {!shareAsLink && (
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <label htmlFor="request-payer" className="text-sm font-medium text-slate-400 ml-1">
+                                        {PAYMENT_REQUESTS_TEXT.PAYER_LABEL}
+                                    </label>
+                                    <button
+                                        type="button"
+                                        onClick={() => setIsContactsModalOpen(true)}
+                                        className="text-blue-500 text-xs font-medium hover:underline flex items-center gap-1"
+                                    >
+                                        <span className="material-symbols-outlined text-sm">contacts</span>
+                                        {PAYMENT_REQUESTS_TEXT.SELECT_FROM_CONTACTS}
+                                    </button>
+                                </div>
+                                <input
+                                    id="request-payer"
+                                    type="email"
+                                    placeholder={PAYMENT_REQUESTS_TEXT.PAYER_PLACEHOLDER}
+                                    autoComplete="off"
+                                    className={inputClass(Boolean(errors.payerEmail))}
+                                    {...register('payerEmail')}
+                                />
+                                {errors.payerEmail && <p className="text-red-400 text-xs ml-1">{errors.payerEmail.message}</p>}
+                            </div>
+                        )}
+
+                        {/* Amount and Expiry */}
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <label htmlFor="request-amount" className="text-sm font-medium text-slate-400 ml-1">
+                                    {`${PAYMENT_REQUESTS_TEXT.AMOUNT_LABEL} (${currency})`}
+                                </label>
+                                <input
+                                    id="request-amount"
+                                    type="number"
+                                    step={getAmountStep(currency)}
+                                    min="0"
+                                    placeholder={getAmountPlaceholder(currency)}
+                                    {...positiveNumberHandlers}
+                                    className={`${inputClass(Boolean(errors.amount))} font-bold [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none`}
+                                    {...register('amount')}
+                                />
+                                {errors.amount && <p className="text-red-400 text-xs ml-1">{errors.amount.message}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <label htmlFor="request-expiry" className="text-sm font-medium text-slate-400 ml-1">
+                                    {PAYMENT_REQUESTS_TEXT.EXPIRY_LABEL}
+                                </label>
+                                <select id="request-expiry" className={inputClass(false)} {...register('expiresInDays')}>
+                                    {PAYMENT_REQUEST_EXPIRY_DAYS.map((days) => (
+                                        <option key={days} value={days} className="bg-slate-800">
+                                            {PAYMENT_REQUESTS_TEXT.EXPIRY_OPTIONS[days]}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
+                        {/* Note */}
+                        <div className="space-y-2">
+                            <label htmlFor="request-note" className="text-sm font-medium text-slate-400 ml-1">
+                                {PAYMENT_REQUESTS_TEXT.NOTE_LABEL}
+                            </label>
+                            <input
+                                id="request-note"
+                                type="text"
+                                placeholder={PAYMENT_REQUESTS_TEXT.NOTE_PLACEHOLDER}
+                                className={inputClass(Boolean(errors.note))}
+                                {...register('note')}
+                            />
+                            {errors.note && <p className="text-red-400 text-xs ml-1">{errors.note.message}</p>}
+                        </div>
+                    </ModalBody>
+
+                    <ModalFooter className="flex gap-3">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            disabled={isCreating}
+                            className="flex-1 h-12 bg-white/5 hover:bg-white/10 text-white font-semibold rounded-xl transition-all border border-white/10 disabled:opacity-50"
+                        >
+                            {PAYMENT_REQUESTS_TEXT.CANCEL}
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isCreating || wallets.length === 0}
+                            className="flex-1 h-12 bg-primary hover:bg-[#2563eb] text-white font-semibold rounded-xl transition-all shadow-lg shadow-primary/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isCreating
+                                ? PAYMENT_REQUESTS_TEXT.CREATING
+                                : shareAsLink
+                                    ? PAYMENT_REQUESTS_TEXT.CREATE_LINK
+                                    : PAYMENT_REQUESTS_TEXT.SEND_REQUEST}
+                        </button>
+                    </ModalFooter>
+                </form>
+            </Modal>
+
+            {/* Contacts Manager - picking a contact fills in the payer */}
+            <ContactsModal
+                isOpen={isContactsModalOpen}
+                onClose={() => setIsContactsModalOpen(false)}
+                onSelectContact={(contact) => setValue('payerEmail', contact.email, { shouldValidate: true })}
+                wallets={wallets}
+                defaultWalletId={walletId}
+            />
+        </>
+    );
+};
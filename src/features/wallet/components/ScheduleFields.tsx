@@ -0,0 +1,102 @@
+import type { UseFormRegisterReturn } from 'react-hook-form';
+import { TRANSFER_RECURRENCES, MAX_INTERVAL_DAYS } from '../../../schemas';
+import { SCHEDULED_TRANSFERS_TEXT } from '../constants/text';
+
+/** Schedule field names */
+type ScheduleFieldName = 'startDate' | 'recurrence' | 'intervalDays' | 'endDate';
+
+interface ScheduleFieldsProps {
+    /** Registered inputs from the parent form */
+    fields: Record<ScheduleFieldName, UseFormRegisterReturn>;
+    /** Currently selected recurrence; controls which fields are shown */
+    recurrence: (typeof TRANSFER_RECURRENCES)[number];
+    /** Validation messages by field */
+    errors: Partial<Record<ScheduleFieldName, string>>;
+    /** Earliest selectable date (YYYY-MM-DD); omit to allow a date that has already passed */
+    minDate?: string;
+    /** Label for the date field */
+    startDateLabel?: string;
+}
+
+/** Input styles matching the transfer form */
+const inputClass = (hasError: boolean) =>
+    `w-full bg-white/5 border ${hasError ? 'border-red-500' : 'border-white/10 focus:border-blue-500'} focus:ring-1 focus:ring-blue-500 rounded-xl py-3 px-4 text-white transition-all outline-none [color-scheme:dark]`;
+
+/**
+ * Date, recurrence, interval and end date inputs for scheduled transfers
+ * Shared by the transfer modal and the edit schedule modal, which own the form state
+ */
+export const ScheduleFields = ({
+    fields,
+    recurrence,
+    errors,
+    minDate,
+    startDateLabel = SCHEDULED_TRANSFERS_TEXT.START_DATE_LABEL,
+}: ScheduleFieldsProps) => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+            <label htmlFor="schedule-start-date" className="text-sm font-medium text-slate-400 ml-1">
+                {startDateLabel}
+            </label>
+            <input
+                id="schedule-start-date"
+                type="date"
+                min={minDate}
+                className={inputClass(Boolean(errors.startDate))}
+                {...fields.startDate}
+            />
+            {errors.startDate && <p className="text-red-400 text-xs ml-1">{errors.startDate}</p>}
+        </div>
+
+        <div className="space-y-2">
+            <label htmlFor="schedule-recurrence" className="text-sm font-medium text-slate-400 ml-1">
+                {SCHEDULED_TRANSFERS_TEXT.RECURRENCE_LABEL}
+            </label>
+            <select
+                id="schedule-recurrence"
+                className={inputClass(false)}
+                {...fields.recurrence}
+            >
+                {TRANSFER_RECURRENCES.map((option) => (
+                    <option key={option} value={option} className="bg-slate-800">
+                        {SCHEDULED_TRANSFERS_TEXT.RECURRENCES[option]}
+                    </option>
+                ))}
+            </select>
+        </div>
+
+        {recurrence === 'CUSTOM' && (
+            <div className="space-y-2">
+                <label htmlFor="schedule-interval" className="text-sm font-medium text-slate-400 ml-1">
+                    {SCHEDULED_TRANSFERS_TEXT.INTERVAL_LABEL}
+                </label>
+                <input
+                    id="schedule-interval"
+                    type="number"
+                    min={1}
+                    max={MAX_INTERVAL_DAYS}
+                    step={1}
+                    className={inputClass(Boolean(errors.intervalDays))}
+                    {...fields.intervalDays}
+                />
+                {errors.intervalDays && <p className="text-red-400 text-xs ml-1">{errors.intervalDays}</p>}
+            </div>
+        )}
+
+        {recurrence !== 'NONE' && (
+            <div className="space-y-2">
+                <label htmlFor="schedule-end-date" className="text-sm font-medium text-slate-400 ml-1">
+                    {SCHEDULED_TRANSFERS_TEXT.END_DATE_LABEL}
+                </label>
+                <input
+                    id="schedule-end-date"
+                    type="date"
+                    min={minDate}
+                    className={inputClass(Boolean(errors.endDate))}
+                    {...fields.endDate}
+                />
+                {errors.endDate && <p className="text-red-400 text-xs ml-1">{errors.endDate}</p>}
+            </div>
+        )}
+    </div>
+);
@@ -0,0 +1,104 @@
+import { Button, StatusBadge } from '../../../components/ui';
+import type { StatusVariant } from '../../../components/ui/StatusBadge';
+import { SCHEDULED_TRANSFERS_TEXT } from '../constants/text';
+import { formatCurrency, formatDate } from '../utils/formatters';
+import { formatRecurrence, formatRunDate, isScheduleEditable } from '../utils/scheduledTransfers';
+import { ScheduledTransferStatusEnum, type ScheduledTransfer } from '../types';
+
+/** Badge colour for each schedule status */
+const STATUS_VARIANTS: Record<ScheduledTransferStatusEnum, StatusVariant> = {
+    ACTIVE: 'success',
+    PAUSED: 'pending',
+    COMPLETED: 'info',
+    CANCELLED: 'cancelled',
+};
+
+interface ScheduledTransferListItemProps {
+    /** The scheduled transfer */
+    schedule: ScheduledTransfer;
+    /** Callback to pause an active schedule */
+    onPause: (schedule: ScheduledTransfer) => void;
+    /** Callback to resume a paused schedule */
+    onResume: (schedule: ScheduledTransfer) => void;
+    /** Callback to open the edit modal */
+    onEdit: (schedule: ScheduledTransfer) => void;
+    /** Callback to request cancellation (confirmation is handled by the parent) */
+    onCancel: (schedule: ScheduledTransfer) => void;
+    /** Whether a pause or resume is in flight for any schedule */
+    isUpdating?: boolean;
+}
+
+/**
+ * A single scheduled transfer with its timing, status and actions
+ * Completed and cancelled schedules are shown for history without actions
+ */
+export const ScheduledTransferListItem = ({
+    schedule,
+    onPause,
+    onResume,
+    onEdit,
+    onCancel,
+    isUpdating = false,
+}: ScheduledTransferListItemProps) => {
+    const isPaused = schedule.status === ScheduledTransferStatusEnum.PAUSED;
+
+    const timing = [
+        formatRecurrence(schedule),
+        schedule.nextRunDate && SCHEDULED_TRANSFERS_TEXT.NEXT_RUN(formatRunDate(schedule.nextRunDate)),
+        schedule.endDate && SCHEDULED_TRANSFERS_TEXT.ENDS(formatRunDate(schedule.endDate)),
+        schedule.lastRunAt && SCHEDULED_TRANSFERS_TEXT.LAST_RUN(formatDate(schedule.lastRunAt)),
+    ].filter(Boolean).join(' • ');
+
+    return (
+        <li className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 bg-[#161E2C] border border-slate-700 rounded-xl">
+            <div className="flex items-center gap-3 min-w-0">
+                <div className="size-10 rounded-lg flex items-center justify-center shrink-0 bg-blue-500/10 text-blue-500">
+                    <span className="material-symbols-outlined">
+                        {schedule.recurrence === 'NONE' ? 'event' : 'event_repeat'}
+                    </span>
+                </div>
+                <div className="flex flex-col min-w-0">
+                    <div className="flex items-center gap-2">
+                        <p className="text-sm font-semibold text-white truncate">
+                            {SCHEDULED_TRANSFERS_TEXT.TO(schedule.recipientEmail)}
+                        </p>
+                        <StatusBadge
+                            variant={STATUS_VARIANTS[schedule.status]}
+                            label={SCHEDULED_TRANSFERS_TEXT.STATUSES[schedule.status]}
+                            size="sm"
+                        />
+                    </div>
+                    <p className="text-xs text-slate-400 truncate">
+                        {SCHEDULED_TRANSFERS_TEXT.FROM_WALLET(schedule.walletName)}
+                    </p>
+                    <p className="text-xs text-slate-500">{timing}</p>
+                </div>
+            </div>
+
+            <div className="flex items-center gap-2 shrink-0">
+                <p className="text-base font-bold text-white mr-2">
+                    {formatCurrency(schedule.amount, schedule.currency)}
+                </p>
+                {isScheduleEditable(schedule) && (
+                    <>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            leftIcon={isPaused ? 'play_arrow' : 'pause'}
+                            disabled={isUpdating}
+                            onClick={() => (isPaused ? onResume(schedule) : onPause(schedule))}
+                        >
+                            {isPaused ? SCHEDULED_TRANSFERS_TEXT.RESUME : SCHEDULED_TRANSFERS_TEXT.PAUSE}
+                        </Button>
+                        <Button variant="ghost" size="sm" leftIcon="edit" onClick={() => onEdit(schedule)}>
+                            {SCHEDULED_TRANSFERS_TEXT.EDIT}
+                        </Button>
+                        <Button variant="ghost" size="sm" leftIcon="close" onClick={() => onCancel(schedule)}>
+                            {SCHEDULED_TRANSFERS_TEXT.CANCEL_SCHEDULE}
+                        </Button>
+                    </>
+                )}
+            </div>
+        </li>
+    );
+};
@@ -1,5 +1,7 @@
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useLogoutMutation } from '../../auth/services/authApi';
+import { useAppSelector } from '../../../store/hooks';
+import { selectIsAuthenticated, SessionEndReasonEnum } from '../../../store/authSlice';
 import { APP_NAME, APP_TAGLINE, NAVIGATION_TEXT } from '../constants/text';
 import type { NavigationItem } from '../types';
 
@@ -24,6 +26,41 @@ const navigationItems: NavigationItem[] = [
         path: '/wallets',
         requiresAuth: true,
     },
+    {
+        id: 'exchange',
+        label: NAVIGATION_TEXT.EXCHANGE,
+        icon: 'currency_exchange',
+        path: '/dashboard/exchange',
+        requiresAuth: true,
+    },
+    {
+        id: 'scheduled',
+        label: NAVIGATION_TEXT.SCHEDULED,
+        icon: 'event_repeat',
+        path: '/transfers/scheduled',
+        requiresAuth: true,
+    },
+    {
+        id: 'bulk',
+        label: NAVIGATION_TEXT.BULK,
+        icon: 'upload_file',
+        path: '/transfers/bulk',
+        requiresAuth: true,
+    },
+    {
+        id: 'requests',
+        label: NAVIGATION_TEXT.REQUESTS,
+        icon: 'request_quote',
+        path: '/requests',
+        requiresAuth: true,
+    },
+    {
+        id: 'cards',
+        label: NAVIGATION_TEXT.CARDS,
+        icon: 'credit_card',
+        path: '/cards',
+        requiresAuth: true,
+    },
     {
         id: 'payment',
         label: NAVIGATION_TEXT.PAYMENT,
@@ -58,13 +95,19 @@ export const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
     const location = useLocation();
     const navigate = useNavigate();
     const [logout, { isLoading: isLoggingOut }] = useLogoutMutation();
+    const isAuthenticated = useAppSelector(selectIsAuthenticated);
+
+    // Hide links to protected pages once the session has ended
+    const visibleItems = navigationItems.filter((item) => !item.requiresAuth || isAuthenticated);
 
     /**
      * Handles user sign out by calling logout API and redirecting to login
+     * The logout endpoint ends the session in every tab, clearing the auth slice and
+     * protected cache on both success and failure
      */
     const handleSignOut = async () => {
         try {
-            await logout().unwrap();
+            await logout(SessionEndReasonEnum.SIGNED_OUT).unwrap();
             navigate('/login');
         } catch (error) {
             console.error('Logout failed:', error);
@@ -116,7 +159,7 @@ export const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
 
                         {/* Navigation Links */}
                         <nav className="flex flex-col gap-2">
-                            {navigationItems.map((item) => {
+                            {visibleItems.map((item) => {
                                 const isActive = location.pathname === item.path;
                                 return (
                                     <Link
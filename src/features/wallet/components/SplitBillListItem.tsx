@@ -0,0 +1,47 @@
+import { SPLIT_BILLS_TEXT } from '../constants/text';
+import { formatCurrency, formatDate } from '../utils/formatters';
+import { getPaidCount } from '../utils/splitBills';
+import type { SplitBill } from '../types';
+
+interface SplitBillListItemProps {
+    /** The split bill */
+    split: SplitBill;
+    /** Callback to open the split's details */
+    onSelect: (split: SplitBill) => void;
+}
+
+/**
+ * A split bill with how many participants have paid
+ */
+export const SplitBillListItem = ({ split, onSelect }: SplitBillListItemProps) => {
+    const paidCount = getPaidCount(split);
+    const isSettled = paidCount === split.participants.length;
+
+    return (
+        <li>
+            <button
+                type="button"
+                onClick={() => onSelect(split)}
+                className="w-full flex items-center justify-between gap-4 p-4 bg-[#161E2C] border border-slate-700 hover:border-slate-500 rounded-xl text-left transition-colors"
+            >
+                <div className="flex items-center gap-3 min-w-0">
+                    <div className="size-10 rounded-lg flex items-center justify-center shrink-0 bg-blue-500/10 text-blue-500">
+                        <span className="material-symbols-outlined">call_split</span>
+                    </div>
+                    <div className="flex flex-col min-w-0">
+                        <p className="text-sm font-semibold text-white truncate">{split.title}</p>
+                        <p className={`text-xs ${isSettled ? 'text-emerald-400' : 'text-slate-400'}`}>
+                            {SPLIT_BILLS_TEXT.PAID_COUNT(paidCount, split.participants.length)}
+                        </p>
+                        <p className="text-xs text-slate-500">{SPLIT_BILLS_TEXT.CREATED_ON(formatDate(split.createdAt))}</p>
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-2 shrink-0">
+                    <p className="text-base font-bold text-white">{formatCurrency(split.totalAmount, split.currency)}</p>
+                    <span className="material-symbols-outlined text-slate-500">chevron_right</span>
+                </div>
+            </button>
+        </li>
+    );
+};
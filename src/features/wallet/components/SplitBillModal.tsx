@@ -0,0 +1,360 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Modal, ModalHeader, ModalBody, ModalFooter, Alert, Checkbox } from '../../../components/ui';
+import { ContactAvatar } from '../../user/components/ContactAvatar';
+import { sortContacts } from '../../user/utils';
+import { useGetContactsQuery } from '../../user/services/contactsApi';
+import { PAYMENT_REQUESTS_TEXT, SPLIT_BILLS_TEXT } from '../constants/text';
+import {
+    createSplitBillSchema,
+    MAX_SPLIT_PARTICIPANTS,
+    PAYMENT_REQUEST_EXPIRY_DAYS,
+    type SplitBillFormData,
+} from '../../../schemas';
+import { positiveNumberHandlers } from '../../../utils/inputHelpers';
+import { DEFAULT_CURRENCY, getAmountPlaceholder, getAmountStep } from '../../../utils/currency';
+import { formatMoneyValue, parseMoney, toMajorUnits } from '../../../utils/money';
+import { splitTotal, SPLIT_METHODS } from '../../../utils/splitBill';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import { useCreateSplitBillMutation } from '../services/splitBillApi';
+import { getExpiresAt } from '../utils/paymentRequests';
+import { SPLIT_DETAILS_PATH } from '../utils/splitBills';
+import type { ContactDto } from '../../user/types';
+import type { CurrencyEnum, WalletSummary } from '../types';
+
+interface SplitBillModalProps {
+    /** Whether the modal is open */
+    isOpen: boolean;
+    /** Callback when modal is closed */
+    onClose: () => void;
+    /** The user's wallets; the shares are paid into one of them */
+    wallets: WalletSummary[];
+}
+
+/** Input styles matching the transfer form */
+const inputClass = (hasError: boolean) =>
+    `w-full bg-white/5 border ${hasError ? 'border-red-500' : 'border-white/10 focus:border-blue-500'} focus:ring-1 focus:ring-blue-500 rounded-xl py-3 px-4 text-white placeholder:text-slate-500 transition-all outline-none`;
+
+/** Hides the browser's number spinners */
+const noSpinnerClass = '[appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none';
+
+/**
+ * Modal for splitting a bill between contacts
+ * Sends a payment request for each participant's share, then opens the split's details
+ */
+export const SplitBillModal = ({ isOpen, onClose, wallets }: SplitBillModalProps) => {
+    if (!isOpen) return null;
+
+    // Mounted only while open so every split starts from a clean form
+    return <SplitBillForm onClose={onClose} wallets={wallets} />;
+};
+
+const SplitBillForm = ({ onClose, wallets }: Omit<SplitBillModalProps, 'isOpen'>) => {
+    const navigate = useNavigate();
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+    const { data: contactsData, isLoading: isLoadingContacts, isError: isContactsError } = useGetContactsQuery();
+    const [createSplitBill, { isLoading: isCreating }] = useCreateSplitBillMutation();
+
+    const initialWalletId = wallets[0]?.id ?? '';
+    const [walletId, setWalletId] = useState(initialWalletId);
+    const currency = wallets.find((wallet) => wallet.id === walletId)?.currency ?? DEFAULT_CURRENCY;
+
+    const {
+        register,
+        handleSubmit,
+        watch,
+        setValue,
+        getValues,
+        formState: { errors, isSubmitted },
+    } = useForm<SplitBillFormData>({
+        resolver: zodResolver(createSplitBillSchema(currency)),
+        defaultValues: {
+            title: '',
+            walletId: initialWalletId,
+            totalAmount: '',
+            method: 'EQUAL',
+            includeSelf: true,
+            participants: [],
+            expiresInDays: '7',
+        },
+        mode: 'onBlur',
+    });
+
+    const [totalAmount, method, includeSelf, participants] = watch(['totalAmount', 'method', 'includeSelf', 'participants']);
+    const contacts = sortContacts(contactsData?.contacts ?? []);
+
+    // Live preview of everyone's share; null until the inputs split the total
+    const total = parseMoney(totalAmount, currency);
+    const preview = total && total.minor > 0
+        ? splitTotal(total, method, participants.map((participant) => participant.value), includeSelf)
+        : null;
+
+    /**
+     * Adds a contact to the split, or removes them if already picked
+     * @param contact - The contact to toggle
+     */
+    const toggleContact = (contact: ContactDto) => {
+        const current = getValues('participants');
+        const next = current.some((participant) => participant.contactId === contact.contactId)
+            ? current.filter((participant) => participant.contactId !== contact.contactId)
+            : [...current, { contactId: contact.contactId, name: contact.username, email: contact.email, value: '' }];
+        setValue('participants', next, { shouldValidate: isSubmitted });
+    };
+
+    /**
+     * Creates the split and opens its details
+     */
+    const onSubmit = async (data: SplitBillFormData) => {
+        const billTotal = parseMoney(data.totalAmount, currency);
+        const split = billTotal
+            ? splitTotal(billTotal, data.method, data.participants.map((participant) => participant.value), data.includeSelf)
+            : null;
+        if (!billTotal || !split) return;
+
+        setErrorMessage(null);
+        try {
+            const created = await createSplitBill({
+                walletId: data.walletId,
+                title: data.title,
+                totalAmount: toMajorUnits(billTotal),
+                currency: currency as CurrencyEnum,
+                method: data.method,
+                shares: data.participants.map((participant, index) => ({
+                    email: participant.email,
+                    amount: toMajorUnits(split.shares[index]),
+                })),
+                expiresAt: getExpiresAt(new Date(), Number(data.expiresInDays)),
+            }).unwrap();
+            onClose();
+            navigate(`${SPLIT_DETAILS_PATH}/${created.splitId}`);
+        } catch (error) {
+            setErrorMessage(getApiErrorMessage(error, SPLIT_BILLS_TEXT.DEFAULT_ERROR));
+        }
+    };
+
+    const walletField = register('walletId');
+
+    return (
+        <Modal isOpen onClose={onClose} maxWidth="lg">
+            <ModalHeader
+                icon="call_split"
+                title={SPLIT_BILLS_TEXT.MODAL_TITLE}
+                subtitle={SPLIT_BILLS_TEXT.MODAL_SUBTITLE}
+                onClose={onClose}
+            />
+
+            <form onSubmit={handleSubmit(onSubmit)}>
+                <ModalBody>
+                    {errorMessage && (
+                        <Alert
+                            variant="error"
+                            title={SPLIT_BILLS_TEXT.CREATE_FAILED}
+                            message={errorMessage}
+                            onDismiss={() => setErrorMessage(null)}
+                        />
+                    )}
+
+                    {/* Title */}
+                    <div className="space-y-2">
+                        <label htmlFor="split-title" className="text-sm font-medium text-slate-400 ml-1">
+                            {SPLIT_BILLS_TEXT.TITLE_LABEL}
+                        </label>
+                        <input
+                            id="split-title"
+                            type="text"
+                            placeholder={SPLIT_BILLS_TEXT.TITLE_PLACEHOLDER}
+                            className={inputClass(Boolean(errors.title))}
+                            {...register('title')}
+                        />
+                        {errors.title && <p className="text-red-400 text-xs ml-1">{errors.title.message}</p>}
+                    </div>
+
+                    {/* Receiving Wallet */}
+                    <div className="space-y-2">
+                        <label htmlFor="split-wallet" className="text-sm font-medium text-slate-400 ml-1">
+                            {SPLIT_BILLS_TEXT.WALLET_LABEL}
+                        </label>
+                        <select
+                            id="split-wallet"
+                            className={inputClass(Boolean(errors.walletId))}
+                            {...walletField}
+                            onChange={(event) => {
+                                walletField.onChange(event);
+                                setWalletId(event.target.value);
+                            }}
+                        >
+                            {wallets.map((wallet) => (
+                                <option key={wallet.id} value={wallet.id} className="bg-slate-800">
+                                    {`${wallet.name} (${wallet.currency})`}
+                                </option>
+                            ))}
+                        </select>
+                        {errors.walletId && <p className="text-red-400 text-xs ml-1">{errors.walletId.message}</p>}
+                    </div>
+
+                    {/* Total and Expiry */}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <label htmlFor="split-total" className="text-sm font-medium text-slate-400 ml-1">
+                                {`${SPLIT_BILLS_TEXT.TOTAL_LABEL} (${currency})`}
+                            </label>
+                            <input
+                                id="split-total"
+                                type="number"
+                                step={getAmountStep(currency)}
+                                min="0"
+                                placeholder={getAmountPlaceholder(currency)}
+                                {...positiveNumberHandlers}
+                                className={`${inputClass(Boolean(errors.totalAmount))} font-bold ${noSpinnerClass}`}
+                                {...register('totalAmount')}
+                            />
+                            {errors.totalAmount && <p className="text-red-400 text-xs ml-1">{errors.totalAmount.message}</p>}
+                        </div>
+                        <div className="space-y-2">
+                            <label htmlFor="split-expiry" className="text-sm font-medium text-slate-400 ml-1">
+                                {SPLIT_BILLS_TEXT.EXPIRY_LABEL}
+                            </label>
+                            <select id="split-expiry" className={inputClass(false)} {...register('expiresInDays')}>
+                                {PAYMENT_REQUEST_EXPIRY_DAYS.map((days) => (
+                                    <option key={days} value={days} className="bg-slate-800">
+                                        {PAYMENT_REQUESTS_TEXT.EXPIRY_OPTIONS[days]}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {/* Contact Picker */}
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-slate-400 ml-1">{SPLIT_BILLS_TEXT.PARTICIPANTS_LABEL}</span>
+                            <span className="text-xs text-slate-500">{SPLIT_BILLS_TEXT.SELECTED_COUNT(participants.length)}</span>
+                        </div>
+                        {isLoadingContacts ? (
+                            <p className="text-sm text-slate-400">{SPLIT_BILLS_TEXT.LOADING_CONTACTS}</p>
+                        ) : isContactsError ? (
+                            <p className="text-sm text-red-400">{SPLIT_BILLS_TEXT.CONTACTS_ERROR}</p>
+                        ) : contacts.length === 0 ? (
+                            <p className="text-sm text-slate-400">{SPLIT_BILLS_TEXT.NO_CONTACTS}</p>
+                        ) : (
+                            <ul className="max-h-48 overflow-y-auto flex flex-col gap-1 p-1 bg-white/5 rounded-xl">
+                                {contacts.map((contact) => {
+                                    const isSelected = participants.some((participant) => participant.contactId === contact.contactId);
+                                    return (
+                                        <li key={contact.contactId}>
+                                            <button
+                                                type="button"
+                                                onClick={() => toggleContact(contact)}
+                                                aria-pressed={isSelected}
+                                                disabled={!isSelected && participants.length >= MAX_SPLIT_PARTICIPANTS}
+                                                className={`w-full flex items-center gap-3 p-2 rounded-lg text-left transition-all disabled:opacity-50 ${isSelected ? 'bg-blue-500/20' : 'hover:bg-white/5'}`}
+                                            >
+                                                <ContactAvatar contactId={contact.contactId} username={contact.username} size="sm" />
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-sm font-medium text-white truncate">{contact.username}</p>
+                                                    <p className="text-xs text-slate-400 truncate">{contact.email}</p>
+                                                </div>
+                                                <span className={`material-symbols-outlined text-lg ${isSelected ? 'text-blue-400' : 'text-slate-600'}`}>
+                                                    {isSelected ? 'check_circle' : 'radio_button_unchecked'}
+                                                </span>
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                        {errors.participants?.message && (
+                            <p className="text-red-400 text-xs ml-1">{errors.participants.message}</p>
+                        )}
+                    </div>
+
+                    {/* Split Method */}
+                    <div className="space-y-2">
+                        <span className="text-sm font-medium text-slate-400 ml-1">{SPLIT_BILLS_TEXT.METHOD_LABEL}</span>
+                        <div className="grid grid-cols-3 gap-2 p-1 bg-white/5 rounded-xl">
+                            {SPLIT_METHODS.map((splitMethod) => (
+                                <button
+                                    key={splitMethod}
+                                    type="button"
+                                    onClick={() => setValue('method', splitMethod, { shouldValidate: isSubmitted })}
+                                    aria-pressed={method === splitMethod}
+                                    className={`py-2 rounded-lg text-sm font-semibold transition-all ${method === splitMethod
+                                        ? 'bg-blue-500 text-white'
+                                        : 'text-slate-400 hover:text-white'
+                                        }`}
+                                >
+                                    {SPLIT_BILLS_TEXT.METHODS[splitMethod]}
+                                </button>
+                            ))}
+                        </div>
+                        <Checkbox variant="dark" label={SPLIT_BILLS_TEXT.INCLUDE_SELF} {...register('includeSelf')} />
+                    </div>
+
+                    {/* Shares */}
+                    {participants.length > 0 && (
+                        <ul className="flex flex-col divide-y divide-slate-700/50">
+                            {participants.map((participant, index) => {
+                                const valueError = errors.participants?.[index]?.value?.message;
+                                return (
+                                    <li key={participant.contactId} className="flex flex-col gap-1 py-2">
+                                        <div className="flex items-center gap-3">
+                                            <p className="flex-1 min-w-0 text-sm text-white truncate">{participant.name}</p>
+                                            {method !== 'EQUAL' && (
+                                                <input
+                                                    type="number"
+                                                    step={method === 'PERCENTAGE' ? '0.01' : getAmountStep(currency)}
+                                                    min="0"
+                                                    placeholder={method === 'PERCENTAGE'
+                                                        ? SPLIT_BILLS_TEXT.PERCENT_PLACEHOLDER
+                                                        : getAmountPlaceholder(currency)}
+                                                    aria-label={SPLIT_BILLS_TEXT.SHARE_LABEL(participant.name)}
+                                                    {...positiveNumberHandlers}
+                                                    className={`w-28 bg-white/5 border ${valueError ? 'border-red-500' : 'border-white/10 focus:border-blue-500'} rounded-lg py-2 px-3 text-sm text-white text-right outline-none ${noSpinnerClass}`}
+                                                    {...register(`participants.${index}.value`)}
+                                                />
+                                            )}
+                                            <span className="w-24 text-right text-sm font-semibold text-white">
+                                                {preview ? formatMoneyValue(preview.shares[index]) : '—'}
+                                            </span>
+                                        </div>
+                                        {valueError && <p className="text-red-400 text-xs text-right">{valueError}</p>}
+                                    </li>
+                                );
+                            })}
+                            {includeSelf && (
+                                <li className="flex items-center gap-3 py-2">
+                                    <p className="flex-1 text-sm text-slate-400">{SPLIT_BILLS_TEXT.YOU}</p>
+                                    <span className="w-24 text-right text-sm font-semibold text-slate-400">
+                                        {preview ? formatMoneyValue(preview.ownShare) : '—'}
+                                    </span>
+                                </li>
+                            )}
+                        </ul>
+                    )}
+                    {errors.method && <p className="text-red-400 text-xs ml-1">{errors.method.message}</p>}
+                </ModalBody>
+
+                <ModalFooter className="flex gap-3">
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        disabled={isCreating}
+                        className="flex-1 h-12 bg-white/5 hover:bg-white/10 text-white font-semibold rounded-xl transition-all border border-white/10 disabled:opacity-50"
+                    >
+                        {SPLIT_BILLS_TEXT.CANCEL}
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={isCreating || wallets.length === 0 || participants.length === 0}
+                        className="flex-1 h-12 bg-primary hover:bg-[#2563eb] text-white font-semibold rounded-xl transition-all shadow-lg shadow-primary/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isCreating ? SPLIT_BILLS_TEXT.SENDING : SPLIT_BILLS_TEXT.SEND_REQUESTS(participants.length)}
+                    </button>
+                </ModalFooter>
+            </form>
+        </Modal>
+    );
+};
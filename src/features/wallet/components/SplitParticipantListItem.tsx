@@ -0,0 +1,77 @@
+import { Button, StatusBadge } from '../../../components/ui';
+import type { StatusVariant } from '../../../components/ui/StatusBadge';
+import { PAYMENT_REQUESTS_TEXT, SPLIT_BILLS_TEXT } from '../constants/text';
+import { formatCurrency, formatDate, formatDateTime } from '../utils/formatters';
+import { canRemindParticipant, getParticipantStatus } from '../utils/splitBills';
+import { PaymentRequestStatusEnum, type SplitBill, type SplitBillParticipant } from '../types';
+
+/** Badge colour for each share status */
+const STATUS_VARIANTS: Record<PaymentRequestStatusEnum, StatusVariant> = {
+    PENDING: 'pending',
+    PAID: 'success',
+    EXPIRED: 'cancelled',
+    DECLINED: 'failed',
+};
+
+interface SplitParticipantListItemProps {
+    /** The split the participant belongs to */
+    split: SplitBill;
+    /** The participant */
+    participant: SplitBillParticipant;
+    /** Current time, for expiry and the reminder cooldown */
+    now: Date;
+    /** Callback to remind the participant */
+    onRemind: (participant: SplitBillParticipant) => void;
+    /** Whether a reminder to this participant is in flight */
+    isReminding?: boolean;
+}
+
+/**
+ * A split bill participant with their share, payment status and a reminder action
+ */
+export const SplitParticipantListItem = ({
+    split,
+    participant,
+    now,
+    onRemind,
+    isReminding = false,
+}: SplitParticipantListItemProps) => {
+    const status = getParticipantStatus(split, participant, now);
+
+    const timing = participant.paidAt
+        ? SPLIT_BILLS_TEXT.PAID_ON(formatDate(participant.paidAt))
+        : participant.lastRemindedAt
+            ? SPLIT_BILLS_TEXT.REMINDED_ON(formatDateTime(participant.lastRemindedAt))
+            : participant.email;
+
+    return (
+        <li className="flex items-center justify-between gap-4 py-3">
+            <div className="flex flex-col min-w-0">
+                <div className="flex items-center gap-2">
+                    <p className="text-sm font-semibold text-white truncate">{participant.name}</p>
+                    <StatusBadge
+                        variant={STATUS_VARIANTS[status]}
+                        label={PAYMENT_REQUESTS_TEXT.STATUSES[status]}
+                        size="sm"
+                    />
+                </div>
+                <p className="text-xs text-slate-500 truncate">{timing}</p>
+            </div>
+
+            <div className="flex items-center gap-3 shrink-0">
+                <p className="text-sm font-bold text-white">{formatCurrency(participant.amount, split.currency)}</p>
+                {status === PaymentRequestStatusEnum.PENDING && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        leftIcon="notifications"
+                        disabled={isReminding || !canRemindParticipant(split, participant, now)}
+                        onClick={() => onRemind(participant)}
+                    >
+                        {isReminding ? SPLIT_BILLS_TEXT.REMINDING : SPLIT_BILLS_TEXT.REMIND}
+                    </Button>
+                )}
+            </div>
+        </li>
+    );
+};
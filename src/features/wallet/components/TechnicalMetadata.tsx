@@ -1,50 +1,62 @@
 import { useState } from 'react';
 import { WALLET_DETAILS_TEXT, DYNAMIC_TEXT } from '../constants/text';
+import { WalletStatusEnum } from '../types';
 import { formatDate } from '../utils/formatters';
 
 interface TechnicalMetadataProps {
-    /** Ledger address (truncated for display) */
-    ledgerAddress: string;
+    /** Wallet ID (truncated for display) */
+    walletId: string;
     /** Wallet creation date (ISO string) */
     creationDate: string;
-    /** Wallet type label */
-    walletType: string;
-    /** Whether 2FA is enabled */
+    /** Wallet currency code */
+    currency: string;
+    /** Wallet lifecycle status */
+    status: WalletStatusEnum;
+    /** Whether this is the user's default wallet */
+    isDefault: boolean;
+    /** Whether the account has two-factor authentication on */
     is2FAEnabled: boolean;
-    /** Whether cold storage is enabled */
-    isColdStorage: boolean;
 }
 
+/** Badge icon and colour for each wallet status */
+const statusBadges: Record<WalletStatusEnum, { icon: string; iconClass: string }> = {
+    [WalletStatusEnum.ACTIVE]: { icon: 'check_circle', iconClass: 'text-green-500' },
+    [WalletStatusEnum.FROZEN]: { icon: 'ac_unit', iconClass: 'text-blue-400' },
+    [WalletStatusEnum.CLOSED]: { icon: 'block', iconClass: 'text-red-500' },
+};
+
 /**
  * Technical metadata section showing wallet details
- * Includes ledger address with copy functionality
+ * Includes wallet ID with copy functionality
  */
 export const TechnicalMetadata = ({
-    ledgerAddress,
+    walletId,
     creationDate,
-    walletType,
+    currency,
+    status,
+    isDefault,
     is2FAEnabled,
-    isColdStorage,
 }: TechnicalMetadataProps) => {
     const [isCopied, setIsCopied] = useState(false);
+    const statusBadge = statusBadges[status];
 
     /**
-     * Copies ledger address to clipboard
+     * Copies wallet ID to clipboard
      */
-    const handleCopyAddress = async () => {
+    const handleCopyId = async () => {
         try {
-            await navigator.clipboard.writeText(ledgerAddress);
+            await navigator.clipboard.writeText(walletId);
             setIsCopied(true);
             setTimeout(() => setIsCopied(false), 2000);
         } catch (error) {
-            console.error('Failed to copy address:', error);
+            console.error('Failed to copy wallet ID:', error);
         }
     };
 
     /**
-     * Truncates address for display
+     * Truncates wallet ID for display
      */
-    const truncatedAddress = DYNAMIC_TEXT.TRUNCATED_ADDRESS(ledgerAddress);
+    const truncatedId = DYNAMIC_TEXT.TRUNCATED_ADDRESS(walletId);
 
     return (
         <section className="bg-[#161E2C] border border-slate-800 rounded-2xl p-5">
@@ -53,19 +65,19 @@ export const TechnicalMetadata = ({
             </h3>
 
             <div className="space-y-4">
-                {/* Ledger Address */}
+                {/* Wallet ID */}
                 <div>
                     <label className="text-[10px] font-semibold text-slate-500 uppercase tracking-widest mb-1.5 block">
-                        {WALLET_DETAILS_TEXT.LEDGER_ADDRESS}
+                        {WALLET_DETAILS_TEXT.WALLET_ID}
                     </label>
                     <div className="flex items-center gap-2 p-2.5 bg-slate-800/50 rounded-lg border border-slate-700 font-mono text-xs">
-                        <span className="text-slate-400 truncate">
-                            {truncatedAddress}
+                        <span className="text-slate-400 truncate" title={walletId}>
+                            {truncatedId}
                         </span>
                         <button
-                            onClick={handleCopyAddress}
+                            onClick={handleCopyId}
                             className="ml-auto p-1 hover:bg-slate-700 rounded transition-colors flex-shrink-0"
-                            aria-label="Copy ledger address"
+                            aria-label="Copy wallet ID"
                         >
                             <span className="material-symbols-outlined text-sm text-slate-400">
                                 {isCopied ? 'check' : 'content_copy'}
@@ -74,7 +86,7 @@ export const TechnicalMetadata = ({
                     </div>
                 </div>
 
-                {/* Creation Date & Wallet Type */}
+                {/* Creation Date & Currency */}
                 <div className="grid grid-cols-2 gap-3">
                     <div>
                         <label className="text-[10px] font-semibold text-slate-500 uppercase tracking-widest mb-1 block">
@@ -86,35 +98,41 @@ export const TechnicalMetadata = ({
                     </div>
                     <div>
                         <label className="text-[10px] font-semibold text-slate-500 uppercase tracking-widest mb-1 block">
-                            {WALLET_DETAILS_TEXT.WALLET_TYPE}
+                            {WALLET_DETAILS_TEXT.CURRENCY}
                         </label>
                         <div className="font-medium text-sm text-white flex items-center gap-1.5">
                             <span className="w-1.5 h-1.5 bg-blue-500 rounded-full" />
-                            {walletType}
+                            {currency}
                         </div>
                     </div>
                 </div>
 
-                {/* Security Features */}
+                {/* Status Flags */}
                 <div className="pt-3 border-t border-slate-800">
                     <label className="text-[10px] font-semibold text-slate-500 uppercase tracking-widest mb-2 block">
-                        {WALLET_DETAILS_TEXT.SECURITY_FEATURES}
+                        {WALLET_DETAILS_TEXT.WALLET_FLAGS}
                     </label>
                     <div className="flex flex-wrap gap-2">
-                        {is2FAEnabled && (
+                        <span className="px-2.5 py-1 bg-slate-800 rounded-md text-[11px] font-medium text-slate-300 flex items-center gap-1.5">
+                            <span className={`material-symbols-outlined text-xs ${statusBadge.iconClass}`}>
+                                {statusBadge.icon}
+                            </span>
+                            {WALLET_DETAILS_TEXT.STATUS_LABELS[status]}
+                        </span>
+                        {isDefault && (
                             <span className="px-2.5 py-1 bg-slate-800 rounded-md text-[11px] font-medium text-slate-300 flex items-center gap-1.5">
                                 <span className="material-symbols-outlined text-xs text-green-500">
-                                    verified_user
+                                    star
                                 </span>
-                                {WALLET_DETAILS_TEXT.TWO_FA_ENABLED}
+                                {WALLET_DETAILS_TEXT.DEFAULT_WALLET}
                             </span>
                         )}
-                        {isColdStorage && (
+                        {is2FAEnabled && (
                             <span className="px-2.5 py-1 bg-slate-800 rounded-md text-[11px] font-medium text-slate-300 flex items-center gap-1.5">
                                 <span className="material-symbols-outlined text-xs text-green-500">
-                                    lock
+                                    verified_user
                                 </span>
-                                {WALLET_DETAILS_TEXT.COLD_STORAGE}
+                                {WALLET_DETAILS_TEXT.TWO_FA_ENABLED}
                             </span>
                         )}
                     </div>
@@ -49,6 +49,10 @@ vi.mock('../services/walletApi', () => ({
     useTopUpWalletMutation: () => [mockTopUpWalletMutation, { isLoading: false }],
 }));
 
+vi.mock('../../user/services/userApi', () => ({
+    useGetPreferencesQuery: () => ({ data: undefined }),
+}));
+
 // Custom generators
 const validAmountArbitrary = fc
     .float({ min: Math.fround(0.01), max: Math.fround(10000), noNaN: true })
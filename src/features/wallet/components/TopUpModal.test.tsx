@@ -7,6 +7,7 @@ import { TopUpModal } from './TopUpModal';
 const mockGetWalletQuery = vi.fn();
 const mockGetPaymentMethodsQuery = vi.fn();
 const mockTopUpWalletMutation = vi.fn();
+const mockGetPreferencesQuery = vi.fn();
 
 vi.mock('../services/walletApi', () => ({
     useGetWalletQuery: () => mockGetWalletQuery(),
@@ -17,6 +18,10 @@ vi.mock('../../payment/services/paymentMethodApi', () => ({
     useGetPaymentMethodsQuery: () => mockGetPaymentMethodsQuery(),
 }));
 
+vi.mock('../../user/services/userApi', () => ({
+    useGetPreferencesQuery: () => mockGetPreferencesQuery(),
+}));
+
 // Mock the processing and success modals
 vi.mock('./TopUpProcessingModal', () => ({
     TopUpProcessingModal: ({ isOpen, onComplete }: { isOpen: boolean; onComplete: () => void }) => {
@@ -90,6 +95,7 @@ describe('TopUpModal', () => {
         vi.clearAllMocks();
         // Setup default mock returns
         mockGetWalletQuery.mockReturnValue({ data: mockWallets });
+        mockGetPreferencesQuery.mockReturnValue({ data: undefined });
         mockGetPaymentMethodsQuery.mockReturnValue({
             data: mockPaymentMethods,
             isLoading: false,
@@ -345,6 +351,36 @@ describe('TopUpModal', () => {
             });
         });
 
+        it('should top up the preferred wallet when no wallet is given', async () => {
+            mockGetWalletQuery.mockReturnValue({
+                data: [...mockWallets, { walletId: 'wallet-2', name: 'Travel Wallet', balance: 500, currency: 'SGD' }],
+            });
+            mockGetPreferencesQuery.mockReturnValue({ data: { defaultWalletId: 'wallet-2' } });
+            mockTopUpWalletMutation.mockReturnValue({
+                unwrap: () => Promise.resolve({
+                    message: 'Success',
+                    transactionId: 'txn-123',
+                    amount: 100,
+                    newBalance: 600,
+                    createdAt: new Date().toISOString(),
+                }),
+            });
+
+            const user = userEvent.setup();
+            render(<TopUpModal isOpen={true} onClose={mockOnClose} />);
+
+            await waitFor(() => {
+                expect(screen.getByText(/visa ending in 4242/i)).toBeInTheDocument();
+            });
+
+            await user.type(screen.getByPlaceholderText('0.00'), '100');
+            await user.click(screen.getByRole('button', { name: /review transaction/i }));
+
+            await waitFor(() => {
+                expect(mockTopUpWalletMutation).toHaveBeenCalledWith(expect.objectContaining({ walletId: 'wallet-2' }));
+            });
+        });
+
         it('should show processing modal after valid submission', async () => {
             mockTopUpWalletMutation.mockReturnValue({
                 unwrap: () => Promise.resolve({
@@ -3,14 +3,17 @@ import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { TopUpProcessingModal } from './TopUpProcessingModal';
 import { TopUpSuccessModal } from './TopUpSuccessModal';
-import { MODAL_TEXT, CURRENCIES, ICONS, TOP_UP_QUICK_AMOUNTS, PAYMENT_METHODS_TEXT, ERROR_MODAL_TEXT } from '../constants/text';
+import { MODAL_TEXT, ICONS, TOP_UP_QUICK_AMOUNTS, PAYMENT_METHODS_TEXT, ERROR_MODAL_TEXT } from '../constants/text';
 import { AmountInput, Modal, ModalHeader, ModalBody, ModalFooter, LoadingSkeleton, ErrorModal } from '../../../components/ui';
-import { topUpSchema, type TopUpFormData } from '../../../schemas';
+import { createTopUpSchema, type TopUpFormData } from '../../../schemas';
 import { useTopUpWalletMutation, useGetWalletQuery } from '../services/walletApi';
+import { useIdempotencyKey } from '../hooks/useIdempotencyKey';
 import { useGetPaymentMethodsQuery } from '../../payment/services/paymentMethodApi';
+import { useGetPreferencesQuery } from '../../user/services/userApi';
 import { PaymentMethodType } from '../../payment/types';
-import type { CurrencyEnum } from '../types';
-import { formatTransactionDateTime } from '../utils/formatters';
+import { formatCurrency, formatTransactionDateTime } from '../utils/formatters';
+import { DEFAULT_CURRENCY } from '../../../utils/currency';
+import { addMoney, parseMoney, toMajorUnits, toMoney, zeroMoney } from '../../../utils/money';
 
 /** Minimum time (ms) to show the processing modal for better UX */
 const MIN_PROCESSING_TIME_MS = 2000;
@@ -18,7 +21,7 @@ const MIN_PROCESSING_TIME_MS = 2000;
 interface TopUpModalProps {
     isOpen: boolean;
     onClose: () => void;
-    /** Optional wallet ID to top up - if not provided, uses first wallet */
+    /** Optional wallet ID to top up - if not provided, uses the default wallet from preferences, then the first wallet */
     walletId?: string;
 }
 
@@ -30,6 +33,7 @@ export const TopUpModal = ({ isOpen, onClose, walletId }: TopUpModalProps) => {
     const [newBalance, setNewBalance] = useState(0);
     const [transactionId, setTransactionId] = useState('');
     const [timestamp, setTimestamp] = useState('');
+    const [isReplayed, setIsReplayed] = useState(false);
 
     // Track completion conditions for hybrid approach
     const [isApiComplete, setIsApiComplete] = useState(false);
@@ -38,12 +42,18 @@ export const TopUpModal = ({ isOpen, onClose, walletId }: TopUpModalProps) => {
     // RTK Query hooks
     const { data: wallets } = useGetWalletQuery();
     const { data: paymentMethodsData, isLoading: isLoadingPaymentMethods } = useGetPaymentMethodsQuery();
+    const { data: preferences } = useGetPreferencesQuery();
     const [topUpWallet] = useTopUpWalletMutation();
+    const { getKey: getIdempotencyKey, reset: resetIdempotencyKey } = useIdempotencyKey();
 
-    // Get the target wallet (provided walletId or first wallet)
+    // Get the target wallet (provided walletId, else the preferred wallet, else the first wallet)
     const targetWallet = walletId
         ? wallets?.find(w => w.walletId === walletId)
-        : wallets?.[0];
+        : wallets?.find(w => w.walletId === preferences?.defaultWalletId) ?? wallets?.[0];
+
+    // Top-ups are always made in the target wallet's currency
+    const walletCurrency = targetWallet?.currency ?? DEFAULT_CURRENCY;
+    const topUpSchema = useMemo(() => createTopUpSchema(walletCurrency), [walletCurrency]);
 
     /**
      * Maps API payment methods to the UI format
@@ -84,7 +94,7 @@ export const TopUpModal = ({ isOpen, onClose, walletId }: TopUpModalProps) => {
         resolver: zodResolver(topUpSchema),
         defaultValues: {
             amount: '',
-            currency: CURRENCIES.SGD,
+            currency: walletCurrency,
             paymentMethodId: '',
         },
         mode: 'onBlur',
@@ -98,12 +108,18 @@ export const TopUpModal = ({ isOpen, onClose, walletId }: TopUpModalProps) => {
     useEffect(() => {
         if (!isOpen) {
             reset();
+            resetIdempotencyKey();
             setIsApiComplete(false);
             setIsMinTimeElapsed(false);
             setShowError(false);
             setErrorMessage('');
         }
-    }, [isOpen, reset]);
+    }, [isOpen, reset, resetIdempotencyKey]);
+
+    // Keep the form currency in sync with the wallet (wallets load asynchronously)
+    useEffect(() => {
+        setValue('currency', walletCurrency);
+    }, [isOpen, walletCurrency, setValue]);
 
     // Set default payment method when modal opens and data is available
     useEffect(() => {
@@ -149,16 +165,30 @@ export const TopUpModal = ({ isOpen, onClose, walletId }: TopUpModalProps) => {
             setIsMinTimeElapsed(true);
         }, MIN_PROCESSING_TIME_MS);
 
+        // Schema validation guarantees the amount parses in the wallet currency
+        const amount = parseMoney(data.amount, targetWallet.currency) ?? zeroMoney(targetWallet.currency);
+
+        const request = {
+            amount: toMajorUnits(amount),
+            walletId: targetWallet.walletId,
+            currency: targetWallet.currency,
+            paymentMethodId: data.paymentMethodId
+        };
+
         try {
+            // Retrying the same top-up reuses its key, so the card is only charged once
             const response = await topUpWallet({
-                amount: parseFloat(data.amount),
-                walletId: targetWallet.walletId,
-                currency: data.currency as CurrencyEnum,
-                paymentMethodId: data.paymentMethodId
+                ...request,
+                idempotencyKey: getIdempotencyKey(request),
             }).unwrap();
-
-            // Calculate new balance for success modal
-            setNewBalance(targetWallet.balance + parseFloat(data.amount));
+            resetIdempotencyKey();
+
+            setIsReplayed(response.replayed ?? false);
+            // A replayed top-up is already in the wallet balance, so use the server's figure;
+            // otherwise calculate it in minor units to avoid float drift
+            setNewBalance(response.replayed
+                ? response.newBalance
+                : toMajorUnits(addMoney(toMoney(targetWallet.balance, targetWallet.currency), amount)));
             // Store transaction ID from response
             setTransactionId(response.transactionId || '');
             // Store timestamp from response using centralized formatter
@@ -242,10 +272,7 @@ export const TopUpModal = ({ isOpen, onClose, walletId }: TopUpModalProps) => {
                                         autoFocus
                                         value={field.value}
                                         onChange={field.onChange}
-                                        currency={currency}
-                                        onCurrencyChange={(val) => setValue('currency', val)}
-                                        currencies={[CURRENCIES.SGD, CURRENCIES.USD, CURRENCIES.EUR, CURRENCIES.GBP]}
-                                        placeholder={MODAL_TEXT.AMOUNT_PLACEHOLDER}
+                                        currency={walletCurrency}
                                     />
                                 )}
                             />
@@ -255,27 +282,16 @@ export const TopUpModal = ({ isOpen, onClose, walletId }: TopUpModalProps) => {
 
                             {/* Quick Amount Buttons */}
                             <div className="flex gap-2 mt-2">
-                                <button
-                                    type="button"
-                                    onClick={() => handleQuickAmount(10)}
-                                    className="px-4 py-2 bg-[#222f49] hover:bg-[#314368] text-white text-sm font-medium rounded-lg transition-colors"
-                                >
-                                    {TOP_UP_QUICK_AMOUNTS.TEN}
-                                </button>
-                                <button
-                                    type="button"
-                                    onClick={() => handleQuickAmount(50)}
-                                    className="px-4 py-2 bg-[#222f49] hover:bg-[#314368] text-white text-sm font-medium rounded-lg transition-colors"
-                                >
-                                    {TOP_UP_QUICK_AMOUNTS.FIFTY}
-                                </button>
-                                <button
-                                    type="button"
-                                    onClick={() => handleQuickAmount(100)}
-                                    className="px-4 py-2 bg-[#222f49] hover:bg-[#314368] text-white text-sm font-medium rounded-lg transition-colors"
-                                >
-                                    {TOP_UP_QUICK_AMOUNTS.HUNDRED}
-                                </button>
+                                {TOP_UP_QUICK_AMOUNTS.map((quickAmount) => (
+                                    <button
+                                        key={quickAmount}
+                                        type="button"
+                                        onClick={() => handleQuickAmount(quickAmount)}
+                                        className="px-4 py-2 bg-[#222f49] hover:bg-[#314368] text-white text-sm font-medium rounded-lg transition-colors"
+                                    >
+                                        +{formatCurrency(quickAmount, walletCurrency)}
+                                    </button>
+                                ))}
                             </div>
                         </div>
 
@@ -386,6 +402,7 @@ export const TopUpModal = ({ isOpen, onClose, walletId }: TopUpModalProps) => {
                 paymentMethod={paymentMethodDisplay}
                 transactionId={transactionId || 'N/A'}
                 timestamp={timestamp}
+                isReplayed={isReplayed}
                 onClose={handleSuccessClose}
             />
 
@@ -398,7 +415,7 @@ export const TopUpModal = ({ isOpen, onClose, walletId }: TopUpModalProps) => {
                 details={[
                     {
                         label: ERROR_MODAL_TEXT.AMOUNT_LABEL,
-                        value: `$${amount || '0.00'}`,
+                        value: formatCurrency(parseFloat(amount) || 0, currency),
                         currency: currency,
                         icon: ICONS.ACCOUNT_BALANCE_WALLET,
                     },
@@ -1,5 +1,6 @@
 import { SuccessModal } from '../../../components/ui/SuccessModal';
 import { MODAL_TEXT, ICONS } from '../constants/text';
+import { formatCurrency } from '../utils/formatters';
 
 interface TopUpSuccessModalProps {
     isOpen: boolean;
@@ -9,6 +10,8 @@ interface TopUpSuccessModalProps {
     paymentMethod: string;
     transactionId: string;
     timestamp: string;
+    /** True if the server recognised the request as a retry of an earlier top-up */
+    isReplayed?: boolean;
     onClose: () => void;
 }
 
@@ -24,6 +27,7 @@ export const TopUpSuccessModal = ({
     paymentMethod,
     transactionId,
     timestamp,
+    isReplayed = false,
     onClose,
 }: TopUpSuccessModalProps) => {
     /**
@@ -40,7 +44,7 @@ export const TopUpSuccessModal = ({
     const transactionDetails = [
         {
             label: MODAL_TEXT.TOP_UP_AMOUNT,
-            value: `+ $${amount} ${currency}`,
+            value: `+ ${formatCurrency(parseFloat(amount) || 0, currency)} ${currency}`,
         },
         {
             label: MODAL_TEXT.TRANSACTION_ID,
@@ -63,7 +67,7 @@ export const TopUpSuccessModal = ({
             isOpen={isOpen}
             onClose={onClose}
             title={MODAL_TEXT.FUNDS_ADDED}
-            subtitle={MODAL_TEXT.WALLET_TOPPED_UP}
+            subtitle={isReplayed ? MODAL_TEXT.TOP_UP_ALREADY_PROCESSED : MODAL_TEXT.WALLET_TOPPED_UP}
             amount={amount}
             currency={currency}
             balanceLabel={MODAL_TEXT.UPDATED_BALANCE}
@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState } from 'react';
+import type { TransactionHistoryFilters } from '../types';
+import { ReferenceTypeEnum, TransactionTypeEnum, WalletTransactionStatusEnum } from '../types';
+import { HISTORY_TEXT, HISTORY_FILTER_TEXT, ICONS } from '../constants/text';
+import { getReferenceTypeLabel, getWalletTransactionStatusConfig } from '../utils/transactionHelpers';
+import { getInvalidHistoryRange, hasActiveFilters } from '../utils/transactionHistoryParams';
+import { preventNegativeInput } from '../../../utils/inputHelpers';
+
+/** Delay before typed text is applied as a filter */
+const TEXT_FILTER_DEBOUNCE_MS = 400;
+
+interface TransactionFilterBarProps {
+    /** Filters currently applied (from the URL) */
+    filters: TransactionHistoryFilters;
+    /** Callback with the filters that changed */
+    onChange: (changes: Partial<TransactionHistoryFilters>) => void;
+    /** Callback to reset every filter except the wallet */
+    onClear: () => void;
+}
+
+/**
+ * Keeps a local draft of a text filter and applies it after the user stops typing.
+ * The draft follows the applied value when it changes elsewhere (e.g., "Clear filters").
+ * @param applied - Value currently applied
+ * @param apply - Applies a new value
+ * @param normalize - Maps a draft to the form it takes once applied
+ * @returns Draft value and setter
+ */
+const useDebouncedDraft = (
+    applied: string,
+    apply: (value: string) => void,
+    normalize: (value: string) => string = (value) => value.trim()
+) => {
+    const [draft, setDraft] = useState(applied);
+    const [previousApplied, setPreviousApplied] = useState(applied);
+    const applyRef = useRef(apply);
+
+    if (applied !== previousApplied) {
+        setPreviousApplied(applied);
+        if (applied !== normalize(draft)) setDraft(applied);
+    }
+
+    useEffect(() => {
+        applyRef.current = apply;
+    }, [apply]);
+
+    const normalizedDraft = normalize(draft);
+    useEffect(() => {
+        if (normalizedDraft === applied) return;
+        const timer = setTimeout(() => applyRef.current(normalizedDraft), TEXT_FILTER_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [normalizedDraft, applied]);
+
+    return [draft, setDraft] as const;
+};
+
+/**
+ * Converts an amount input value into a filter value
+ * @param value - Raw input value
+ */
+const toAmount = (value: string): number | undefined =>
+    value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Number(value);
+
+/**
+ * Normalises an amount draft to how it reads back from the URL (e.g., "10.50" -> "10.5")
+ * @param value - Raw input value
+ */
+const normalizeAmount = (value: string): string => toAmount(value)?.toString() ?? '';
+
+/**
+ * Filter controls for the transaction history page.
+ * Every filter is applied server-side; text and amount inputs are debounced.
+ */
+export const TransactionFilterBar = ({ filters, onChange, onClear }: TransactionFilterBarProps) => {
+    const [query, setQuery] = useDebouncedDraft(filters.query ?? '', (value) =>
+        onChange({ query: value || undefined })
+    );
+    const [minAmount, setMinAmount] = useDebouncedDraft(
+        filters.minAmount?.toString() ?? '',
+        (value) => onChange({ minAmount: toAmount(value) }),
+        normalizeAmount
+    );
+    const [maxAmount, setMaxAmount] = useDebouncedDraft(
+        filters.maxAmount?.toString() ?? '',
+        (value) => onChange({ maxAmount: toAmount(value) }),
+        normalizeAmount
+    );
+
+    const invalidRange = getInvalidHistoryRange(filters);
+    const inputStyles = 'w-full px-3 py-2.5 bg-[#161E2C] border border-slate-700 rounded-lg text-white text-sm placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+    const labelStyles = 'flex flex-col gap-1 text-xs font-medium text-slate-400';
+
+    return (
+        <div className="flex flex-col gap-4">
+            {/* Search Bar */}
+            <div className="relative">
+                <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-[20px]">
+                    {ICONS.SEARCH}
+                </span>
+                <input
+                    type="text"
+                    placeholder={HISTORY_TEXT.SEARCH_PLACEHOLDER}
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    className="w-full pl-10 pr-4 py-2.5 bg-[#161E2C] border border-slate-700 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+            </div>
+
+            {/* Filters */}
+            <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-3">
+                <label className={labelStyles}>
+                    {HISTORY_FILTER_TEXT.TYPE_LABEL}
+                    <select
+                        value={filters.transactionType ?? ''}
+                        onChange={(e) => onChange({ transactionType: (e.target.value || undefined) as TransactionTypeEnum | undefined })}
+                        className={inputStyles}
+                    >
+                        <option value="">{HISTORY_FILTER_TEXT.ALL_OPTION}</option>
+                        {Object.values(TransactionTypeEnum).map((type) => (
+                            <option key={type} value={type}>{HISTORY_FILTER_TEXT.TRANSACTION_TYPES[type]}</option>
+                        ))}
+                    </select>
+                </label>
+
+                <label className={labelStyles}>
+                    {HISTORY_FILTER_TEXT.CATEGORY_LABEL}
+                    <select
+                        value={filters.referenceType ?? ''}
+                        onChange={(e) => onChange({ referenceType: (e.target.value || undefined) as ReferenceTypeEnum | undefined })}
+                        className={inputStyles}
+                    >
+                        <option value="">{HISTORY_FILTER_TEXT.ALL_OPTION}</option>
+                        {Object.values(ReferenceTypeEnum).map((type) => (
+                            <option key={type} value={type}>{getReferenceTypeLabel(type)}</option>
+                        ))}
+                    </select>
+                </label>
+
+                <label className={labelStyles}>
+                    {HISTORY_FILTER_TEXT.STATUS_LABEL}
+                    <select
+                        value={filters.status ?? ''}
+                        onChange={(e) => onChange({ status: (e.target.value || undefined) as WalletTransactionStatusEnum | undefined })}
+                        className={inputStyles}
+                    >
+                        <option value="">{HISTORY_FILTER_TEXT.ALL_OPTION}</option>
+                        {Object.values(WalletTransactionStatusEnum).map((status) => (
+                            <option key={status} value={status}>{getWalletTransactionStatusConfig(status).label}</option>
+                        ))}
+                    </select>
+                </label>
+
+                <label className={labelStyles}>
+                    {HISTORY_FILTER_TEXT.FROM_LABEL}
+                    <input
+                        type="date"
+                        value={filters.startDate ?? ''}
+                        max={filters.endDate}
+                        onChange={(e) => onChange({ startDate: e.target.value || undefined })}
+                        className={inputStyles}
+                    />
+                </label>
+
+                <label className={labelStyles}>
+                    {HISTORY_FILTER_TEXT.TO_LABEL}
+                    <input
+                        type="date"
+                        value={filters.endDate ?? ''}
+                        min={filters.startDate}
+                        onChange={(e) => onChange({ endDate: e.target.value || undefined })}
+                        className={inputStyles}
+                    />
+                </label>
+
+                <label className={labelStyles}>
+                    {HISTORY_FILTER_TEXT.MIN_AMOUNT_LABEL}
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={minAmount}
+                        onKeyDown={preventNegativeInput}
+                        onChange={(e) => setMinAmount(e.target.value)}
+                        className={inputStyles}
+                    />
+                </label>
+
+                <label className={labelStyles}>
+                    {HISTORY_FILTER_TEXT.MAX_AMOUNT_LABEL}
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={maxAmount}
+                        onKeyDown={preventNegativeInput}
+                        onChange={(e) => setMaxAmount(e.target.value)}
+                        className={inputStyles}
+                    />
+                </label>
+            </div>
+
+            {(invalidRange || hasActiveFilters(filters)) && (
+                <div className="flex items-center justify-between gap-4">
+                    <p className="text-red-500 text-xs">
+                        {invalidRange === 'date' && HISTORY_FILTER_TEXT.INVALID_DATE_RANGE}
+                        {invalidRange === 'amount' && HISTORY_FILTER_TEXT.INVALID_AMOUNT_RANGE}
+                    </p>
+                    <button
+                        onClick={onClear}
+                        className="text-sm text-slate-400 hover:text-blue-500 transition-colors flex items-center gap-1"
+                    >
+                        <span className="material-symbols-outlined text-[16px]">{ICONS.CLOSE}</span>
+                        {HISTORY_FILTER_TEXT.CLEAR_FILTERS}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
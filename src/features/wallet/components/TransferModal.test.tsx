@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TransferModal } from './TransferModal';
+import type { CreateScheduledTransferRequest, WalletSummary } from '../types';
+
+// Mock RTK Query hooks
+const mockTransferMutation = vi.fn();
+const mockCreateScheduledTransferMutation = vi.fn();
+const mockGetMfaStatusQuery = vi.fn();
+
+vi.mock('../services/walletApi', () => ({
+    useTransferMutation: () => [mockTransferMutation],
+}));
+
+vi.mock('../services/scheduledTransferApi', () => ({
+    useCreateScheduledTransferMutation: () => [mockCreateScheduledTransferMutation, { isLoading: false }],
+}));
+
+vi.mock('../../user/services/contactsApi', () => ({
+    useGetContactsQuery: () => ({ data: { contacts: [] }, isLoading: false }),
+}));
+
+vi.mock('../../user/services/userApi', () => ({
+    useGetMfaStatusQuery: () => mockGetMfaStatusQuery(),
+}));
+
+vi.mock('./ContactsModal', () => ({
+    ContactsModal: () => null,
+}));
+
+vi.mock('react-router-dom', () => ({
+    useNavigate: () => vi.fn(),
+}));
+
+// Accepts any code, so the tests only cover when the code is asked for and where the token goes
+vi.mock('../../auth/components/StepUpModal', () => ({
+    StepUpModal: ({ isOpen, onVerified }: { isOpen: boolean; onVerified: (stepUpToken: string) => void }) =>
+        isOpen ? <button onClick={() => onVerified('step-up-token')}>Verify code</button> : null,
+}));
+
+/** Mock source wallet with room for transfers above the SGD step-up threshold */
+const mockWallet: WalletSummary = {
+    id: 'wallet-1',
+    name: 'Personal Wallet',
+    balance: 5000,
+    currency: 'SGD',
+    icon: 'account_balance_wallet',
+    colorVariant: 'blue',
+};
+
+/**
+ * Fills in a transfer scheduled for the default date, tomorrow
+ * @param amount - Amount to schedule
+ */
+const fillScheduledTransfer = async (amount: string) => {
+    const user = userEvent.setup();
+    render(<TransferModal isOpen onClose={vi.fn()} sourceWallet={mockWallet} wallets={[mockWallet]} />);
+
+    await user.type(screen.getByPlaceholderText('e.g. user@apexpay.net or #882910'), 'friend@example.com');
+    await user.type(screen.getByPlaceholderText('0.00'), amount);
+    await user.click(screen.getByLabelText('Schedule for later'));
+    await user.click(screen.getByRole('button', { name: /schedule transfer/i }));
+    return user;
+};
+
+describe('TransferModal', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockGetMfaStatusQuery.mockReturnValue({ data: { enabled: true, enabledAt: null, backupCodesRemaining: 10 } });
+        mockCreateScheduledTransferMutation.mockImplementation((body: CreateScheduledTransferRequest) => ({
+            unwrap: () => Promise.resolve({
+                ...body,
+                scheduleId: 'schedule-1',
+                status: 'ACTIVE',
+                walletName: mockWallet.name,
+                nextRunDate: body.startDate,
+                lastRunAt: null,
+                createdAt: new Date().toISOString(),
+            }),
+        }));
+    });
+
+    describe('Scheduled Transfers', () => {
+        it('should ask for a two-factor code before scheduling an amount above the threshold', async () => {
+            const user = await fillScheduledTransfer('1500');
+
+            const verifyButton = await screen.findByRole('button', { name: 'Verify code' });
+            expect(mockCreateScheduledTransferMutation).not.toHaveBeenCalled();
+
+            await user.click(verifyButton);
+
+            await waitFor(() => {
+                expect(mockCreateScheduledTransferMutation).toHaveBeenCalledWith(
+                    expect.objectContaining({ amount: 1500, stepUpToken: 'step-up-token' })
+                );
+            });
+            expect(mockTransferMutation).not.toHaveBeenCalled();
+        });
+
+        it('should schedule an amount within the threshold without a code', async () => {
+            await fillScheduledTransfer('200');
+
+            await waitFor(() => {
+                expect(mockCreateScheduledTransferMutation).toHaveBeenCalledWith(
+                    expect.objectContaining({ amount: 200, stepUpToken: undefined })
+                );
+            });
+            expect(screen.queryByRole('button', { name: 'Verify code' })).not.toBeInTheDocument();
+        });
+
+        it('should not schedule while the two-factor settings are unknown', async () => {
+            mockGetMfaStatusQuery.mockReturnValue({ data: undefined, isError: true });
+            await fillScheduledTransfer('1500');
+
+            expect(screen.getByRole('button', { name: /schedule transfer/i })).toBeDisabled();
+            expect(mockCreateScheduledTransferMutation).not.toHaveBeenCalled();
+        });
+    });
+});
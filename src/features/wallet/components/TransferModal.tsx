@@ -1,51 +1,33 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
+import { useNavigate } from 'react-router-dom';
 import { Modal } from '../../../components/ui/Modal';
 import { Alert } from '../../../components/ui/Alert';
+import { Checkbox } from '../../../components/ui/Checkbox';
+import { SuccessModal } from '../../../components/ui/SuccessModal';
 import { TransferProcessingModal } from './TransferProcessingModal';
 import { TransferSuccessModal } from './TransferSuccessModal';
-import { TRANSFER_MODAL_TEXT, CURRENCY_OPTIONS } from '../constants/text';
-import { createTransferSchema, type TransferFormData } from '../../../schemas';
+import { ContactsModal } from './ContactsModal';
+import { ScheduleFields } from './ScheduleFields';
+import { TRANSFER_MODAL_TEXT, SCHEDULED_TRANSFERS_TEXT } from '../constants/text';
+import { createScheduledTransferSchema, type ScheduledTransferFormData } from '../../../schemas';
 import { positiveNumberHandlers } from '../../../utils/inputHelpers';
+import { DEFAULT_CURRENCY, formatMoney, getAmountPlaceholder, getAmountStep } from '../../../utils/currency';
+import { parseMoney, toMajorUnits, zeroMoney } from '../../../utils/money';
 import { useGetContactsQuery } from '../../user/services/contactsApi';
+import { ContactAvatar } from '../../user/components/ContactAvatar';
+import { filterContacts, sortContacts } from '../../user/utils';
 import { useTransferMutation } from '../services/walletApi';
-import type { WalletSummary, TransferResponse } from '../types';
-import { CurrencyEnum } from '../types';
-
-/** Avatar color options for contacts */
-const AVATAR_COLORS = [
-    'bg-indigo-600',
-    'bg-blue-600',
-    'bg-emerald-600',
-    'bg-pink-600',
-    'bg-orange-600',
-    'bg-purple-600',
-    'bg-teal-600',
-    'bg-rose-600',
-];
-
-/**
- * Generates initials from a name
- * @param name - Full name to extract initials from
- * @returns Two-letter initials
- */
-const getInitials = (name: string): string => {
-    const parts = name.trim().split(' ').filter(Boolean);
-    if (parts.length === 0) return '??';
-    if (parts.length === 1) return parts[0].substring(0, 2).toUpperCase();
-    return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
-};
-
-/**
- * Generates a consistent avatar color based on contact ID
- * @param id - Contact ID to generate color for
- * @returns Tailwind background color class
- */
-const getAvatarColor = (id: string): string => {
-    const hash = id.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-    return AVATAR_COLORS[hash % AVATAR_COLORS.length];
-};
+import { useCreateScheduledTransferMutation } from '../services/scheduledTransferApi';
+import { useIdempotencyKey } from '../hooks/useIdempotencyKey';
+import { useGetMfaStatusQuery } from '../../user/services/userApi';
+import { StepUpModal } from '../../auth/components/StepUpModal';
+import { requiresStepUp } from '../utils/stepUp';
+import { toDateString } from '../utils/analytics';
+import { addDays, formatRecurrence, formatRunDate, toTransferSchedule } from '../utils/scheduledTransfers';
+import type { WalletSummary, TransferResponse, ScheduledTransfer } from '../types';
+import type { CurrencyEnum } from '../types';
 
 interface TransferModalProps {
     /** Whether the modal is open */
@@ -60,9 +42,25 @@ interface TransferModalProps {
     onWalletChange?: (walletId: string) => void;
 }
 
+/**
+ * Builds empty form values; a scheduled transfer defaults to tomorrow
+ * @param today - Today's local date (YYYY-MM-DD)
+ */
+const getEmptyForm = (today: string): ScheduledTransferFormData => ({
+    recipient: '',
+    amount: '',
+    note: '',
+    isScheduled: false,
+    startDate: addDays(today, 1),
+    recurrence: 'NONE',
+    intervalDays: '',
+    endDate: '',
+});
+
 /**
  * Modal component for initiating fund transfers
- * Allows users to transfer funds from their wallet to another recipient
+ * Allows users to transfer funds from their wallet to another recipient,
+ * now or on a future date with optional recurrence
  */
 export const TransferModal = ({
     isOpen,
@@ -75,8 +73,12 @@ export const TransferModal = ({
     const [showSuccess, setShowSuccess] = useState(false);
     const [isWalletDropdownOpen, setIsWalletDropdownOpen] = useState(false);
     const [isContactsDropdownOpen, setIsContactsDropdownOpen] = useState(false);
+    const [isContactsModalOpen, setIsContactsModalOpen] = useState(false);
     const [transferResult, setTransferResult] = useState<TransferResponse | null>(null);
+    const [scheduledTransfer, setScheduledTransfer] = useState<ScheduledTransfer | null>(null);
     const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    // Transfer waiting for a two-factor code because it is above the step-up threshold
+    const [pendingStepUp, setPendingStepUp] = useState<ScheduledTransferFormData | null>(null);
 
     // Track completion conditions for hybrid approach (min time + API complete)
     const [isApiComplete, setIsApiComplete] = useState(false);
@@ -93,9 +95,16 @@ export const TransferModal = ({
 
     // Transfer mutation
     const [transfer] = useTransferMutation();
+    const { getKey: getIdempotencyKey, reset: resetIdempotencyKey } = useIdempotencyKey();
+    const [createScheduledTransfer, { isLoading: isScheduling }] = useCreateScheduledTransferMutation();
+    const { data: mfaStatus, isError: isMfaStatusError } = useGetMfaStatusQuery();
+
+    const navigate = useNavigate();
 
     const availableBalance = sourceWallet?.balance ?? 0;
-    const transferSchema = createTransferSchema(availableBalance);
+    const sourceCurrency = sourceWallet?.currency ?? DEFAULT_CURRENCY;
+    const today = toDateString(new Date());
+    const transferSchema = createScheduledTransferSchema(availableBalance, sourceCurrency, today);
 
     const {
         register,
@@ -103,44 +112,41 @@ export const TransferModal = ({
         watch,
         reset,
         formState: { errors },
-    } = useForm<TransferFormData>({
+    } = useForm<ScheduledTransferFormData>({
         resolver: zodResolver(transferSchema),
-        defaultValues: {
-            recipient: '',
-            amount: '',
-            note: '',
-        },
+        defaultValues: getEmptyForm(today),
         mode: 'onBlur',
     });
 
     const recipient = watch('recipient');
     const amount = watch('amount');
+    const isScheduled = watch('isScheduled');
+    const recurrence = watch('recurrence');
 
-    /** Filtered contacts based on recipient input value */
-    const filteredContacts = useMemo(() => {
-        const query = (recipient || '').toLowerCase();
-        return contacts.filter((contact) =>
-            contact.username.toLowerCase().includes(query) ||
-            contact.email.toLowerCase().includes(query)
-        );
-    }, [contacts, recipient]);
+    // Transfers wait for the MFA status so step-up is never skipped because it is unknown
+    const isMfaStatusPending = !mfaStatus;
+
+    /** Contacts matching the recipient input, favourites and recently paid first */
+    const filteredContacts = useMemo(
+        () => sortContacts(filterContacts(contacts, recipient || '')),
+        [contacts, recipient]
+    );
 
     // Reset form when modal opens (ensures clean state on re-open)
     useEffect(() => {
         if (isOpen) {
-            reset({
-                recipient: '',
-                amount: '',
-                note: '',
-            });
+            reset(getEmptyForm(toDateString(new Date())));
+            resetIdempotencyKey();
             setIsWalletDropdownOpen(false);
             setIsContactsDropdownOpen(false);
             setErrorMessage(null);
             setTransferResult(null);
+            setScheduledTransfer(null);
+            setPendingStepUp(null);
             setIsApiComplete(false);
             setIsMinTimeElapsed(false);
         }
-    }, [isOpen, reset]);
+    }, [isOpen, reset, resetIdempotencyKey]);
 
     // Transition to success when both API and minimum time are complete
     useEffect(() => {
@@ -173,15 +179,48 @@ export const TransferModal = ({
         reset();
         setIsWalletDropdownOpen(false);
         setIsContactsDropdownOpen(false);
+        setIsContactsModalOpen(false);
         setErrorMessage(null);
         setTransferResult(null);
+        setScheduledTransfer(null);
+        setPendingStepUp(null);
         onClose();
     };
 
     /**
-     * Handles form submission
+     * Creates a scheduled transfer instead of sending now
+     * No funds move yet, so the processing animation is skipped
+     * @param data - Validated form values
+     * @param stepUpToken - Proof of a two-factor check, for amounts above the step-up threshold
      */
-    const onSubmit = async (data: TransferFormData) => {
+    const scheduleTransfer = async (data: ScheduledTransferFormData, stepUpToken?: string) => {
+        if (!sourceWallet) return;
+
+        setErrorMessage(null);
+        try {
+            const result = await createScheduledTransfer({
+                payerWalletId: sourceWallet.id,
+                recipientEmail: data.recipient,
+                amount: toMajorUnits(parseMoney(data.amount, sourceCurrency) ?? zeroMoney(sourceCurrency)),
+                currency: sourceCurrency as CurrencyEnum,
+                note: data.note || undefined,
+                stepUpToken,
+                ...toTransferSchedule(data),
+            }).unwrap();
+            setScheduledTransfer(result);
+        } catch (error) {
+            setErrorMessage(
+                (error as { data?: { message?: string } })?.data?.message ?? TRANSFER_MODAL_TEXT.SCHEDULE_FAILED
+            );
+        }
+    };
+
+    /**
+     * Sends the transfer now
+     * @param data - Validated form values
+     * @param stepUpToken - Proof of a two-factor check, for amounts above the step-up threshold
+     */
+    const sendTransfer = async (data: ScheduledTransferFormData, stepUpToken?: string) => {
         if (!sourceWallet) return;
 
         setErrorMessage(null);
@@ -194,13 +233,21 @@ export const TransferModal = ({
             setIsMinTimeElapsed(true);
         }, MIN_PROCESSING_TIME_MS);
 
+        const request = {
+            payerWalletId: sourceWallet.id,
+            recipientEmail: data.recipient,
+            amount: toMajorUnits(parseMoney(data.amount, sourceCurrency) ?? zeroMoney(sourceCurrency)),
+            currency: sourceCurrency as CurrencyEnum,
+        };
+
         try {
+            // Resubmitting the same transfer reuses its key, so it is only sent once
             const result = await transfer({
-                payerWalletId: sourceWallet.id,
-                recipientEmail: data.recipient,
-                amount: parseFloat(data.amount),
-                currency: CurrencyEnum.SGD,
+                ...request,
+                stepUpToken,
+                idempotencyKey: getIdempotencyKey(request),
             }).unwrap();
+            resetIdempotencyKey();
 
             setTransferResult(result);
             // Mark API as complete - will transition to success when min time also elapses
@@ -216,6 +263,37 @@ export const TransferModal = ({
         }
     };
 
+    /**
+     * Handles form submission
+     * Transfers above the step-up threshold, sent now or scheduled, wait for a two-factor code first
+     */
+    const onSubmit = async (data: ScheduledTransferFormData) => {
+        if (!sourceWallet || !mfaStatus) return;
+
+        const transferAmount = parseMoney(data.amount, sourceCurrency) ?? zeroMoney(sourceCurrency);
+        if (requiresStepUp(transferAmount, mfaStatus.enabled)) {
+            setErrorMessage(null);
+            setPendingStepUp(data);
+            return;
+        }
+        await (data.isScheduled ? scheduleTransfer(data) : sendTransfer(data));
+    };
+
+    /**
+     * Sends or schedules the transfer that was waiting for step-up verification
+     * @param stepUpToken - Token from the accepted code
+     */
+    const handleStepUpVerified = (stepUpToken: string) => {
+        const data = pendingStepUp;
+        setPendingStepUp(null);
+        if (!data) return;
+        if (data.isScheduled) {
+            scheduleTransfer(data, stepUpToken);
+        } else {
+            sendTransfer(data, stepUpToken);
+        }
+    };
+
     /**
      * Handles processing completion
      * Kept for backwards compatibility with TransferProcessingModal
@@ -232,6 +310,14 @@ export const TransferModal = ({
         handleClose();
     };
 
+    /**
+     * Closes the scheduled confirmation and opens the schedule list
+     */
+    const handleViewSchedules = () => {
+        handleClose();
+        navigate('/transfers/scheduled');
+    };
+
     /**
      * Handles wallet selection from dropdown
      */
@@ -249,17 +335,6 @@ export const TransferModal = ({
         setIsContactsDropdownOpen(false);
     };
 
-    /**
-     * Formats currency amount for display
-     */
-    const formatCurrency = (value: number, currency: string): string => {
-        return new Intl.NumberFormat('en-US', {
-            style: 'currency',
-            currency: currency,
-            minimumFractionDigits: 2,
-        }).format(value);
-    };
-
     return (
         <>
             <Modal isOpen={isOpen} onClose={handleClose} maxWidth="md">
@@ -296,6 +371,13 @@ export const TransferModal = ({
                             onDismiss={() => setErrorMessage(null)}
                         />
                     )}
+                    {isMfaStatusError && (
+                        <Alert
+                            variant="error"
+                            title={TRANSFER_MODAL_TEXT.MFA_STATUS_ERROR_TITLE}
+                            message={TRANSFER_MODAL_TEXT.MFA_STATUS_ERROR}
+                        />
+                    )}
 
                     <form id="transfer-form" onSubmit={handleSubmit(onSubmit)} className="space-y-6">
                         {/* Source Wallet Selector */}
@@ -321,7 +403,7 @@ export const TransferModal = ({
                                             </p>
                                             <p className="text-xs text-blue-500/80 font-medium">
                                                 {sourceWallet
-                                                    ? `${formatCurrency(sourceWallet.balance, sourceWallet.currency)} ${TRANSFER_MODAL_TEXT.AVAILABLE_SUFFIX}`
+                                                    ? `${formatMoney(sourceWallet.balance, sourceWallet.currency)} ${TRANSFER_MODAL_TEXT.AVAILABLE_SUFFIX}`
                                                     : TRANSFER_MODAL_TEXT.NO_WALLET_SELECTED}
                                             </p>
                                         </div>
@@ -357,7 +439,7 @@ export const TransferModal = ({
                                                 <div className="flex-1">
                                                     <p className="text-white font-medium">{wallet.name}</p>
                                                     <p className="text-xs text-slate-400">
-                                                        {formatCurrency(wallet.balance, wallet.currency)}
+                                                        {formatMoney(wallet.balance, wallet.currency)}
                                                     </p>
                                                 </div>
                                                 {wallet.id === sourceWallet?.id && (
@@ -372,9 +454,22 @@ export const TransferModal = ({
 
                         {/* Recipient Field - Search Dropdown */}
                         <div className="space-y-2" ref={contactsDropdownRef}>
-                            <label className="text-sm font-medium text-slate-400 ml-1">
-                                {TRANSFER_MODAL_TEXT.RECIPIENT_LABEL}
-                            </label>
+                            <div className="flex items-center justify-between">
+                                <label className="text-sm font-medium text-slate-400 ml-1">
+                                    {TRANSFER_MODAL_TEXT.RECIPIENT_LABEL}
+                                </label>
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setIsContactsDropdownOpen(false);
+                                        setIsContactsModalOpen(true);
+                                    }}
+                                    className="text-blue-500 text-xs font-medium hover:underline flex items-center gap-1"
+                                >
+                                    <span className="material-symbols-outlined text-sm">contacts</span>
+                                    {TRANSFER_MODAL_TEXT.SELECT_FROM_CONTACTS}
+                                </button>
+                            </div>
                             <div className="relative">
                                 <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
                                     <span className="material-symbols-outlined text-slate-400 text-lg">
@@ -407,9 +502,7 @@ export const TransferModal = ({
                                                         onClick={() => handleContactSelect(contact)}
                                                         className="w-full p-3 flex items-center gap-3 hover:bg-slate-700/50 transition-colors text-left"
                                                     >
-                                                        <div className={`w-8 h-8 rounded-full ${getAvatarColor(contact.contactId)} flex items-center justify-center text-white text-xs font-bold shrink-0`}>
-                                                            {getInitials(contact.username)}
-                                                        </div>
+                                                        <ContactAvatar contactId={contact.contactId} username={contact.username} size="sm" />
                                                         <div className="flex-1 min-w-0">
                                                             <p className="text-sm font-medium text-white truncate">{contact.username}</p>
                                                             <p className="text-xs text-slate-400 truncate">{contact.email}</p>
@@ -438,9 +531,9 @@ export const TransferModal = ({
                                 </label>
                                 <input
                                     type="number"
-                                    step="0.01"
+                                    step={getAmountStep(sourceCurrency)}
                                     min="0"
-                                    placeholder={TRANSFER_MODAL_TEXT.AMOUNT_PLACEHOLDER}
+                                    placeholder={getAmountPlaceholder(sourceCurrency)}
                                     {...positiveNumberHandlers}
                                     className={`w-full bg-white/5 border ${errors.amount ? 'border-red-500' : 'border-white/10 focus:border-blue-500'
                                         } focus:ring-1 focus:ring-blue-500 rounded-xl py-3 px-4 text-white text-xl font-bold placeholder:text-slate-500 transition-all outline-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none`}
@@ -459,11 +552,9 @@ export const TransferModal = ({
                                         disabled
                                         className="w-full bg-white/5 border border-white/10 rounded-xl py-[15px] px-4 text-white transition-all outline-none appearance-none disabled:opacity-70"
                                     >
-                                        {CURRENCY_OPTIONS.map((option) => (
-                                            <option key={option.value} value={option.value} className="bg-slate-800">
-                                                {option.value}
-                                            </option>
-                                        ))}
+                                        <option value={sourceCurrency} className="bg-slate-800">
+                                            {sourceCurrency}
+                                        </option>
                                     </select>
                                     <div className="absolute inset-y-0 right-0 pr-4 flex items-center pointer-events-none text-slate-400">
                                         <span className="material-symbols-outlined">expand_more</span>
@@ -471,6 +562,32 @@ export const TransferModal = ({
                                 </div>
                             </div>
                         </div>
+
+                        {/* Schedule for later */}
+                        <div className="space-y-4">
+                            <Checkbox
+                                variant="dark"
+                                label={TRANSFER_MODAL_TEXT.SCHEDULE_TOGGLE}
+                                {...register('isScheduled')}
+                            />
+                            {isScheduled && (
+                                <ScheduleFields
+                                    fields={{
+                                        startDate: register('startDate'),
+                                        recurrence: register('recurrence'),
+                                        intervalDays: register('intervalDays'),
+                                        endDate: register('endDate'),
+                                    }}
+                                    recurrence={recurrence}
+                                    errors={{
+                                        startDate: errors.startDate?.message,
+                                        intervalDays: errors.intervalDays?.message,
+                                        endDate: errors.endDate?.message,
+                                    }}
+                                    minDate={addDays(today, 1)}
+                                />
+                            )}
+                        </div>
                     </form>
                 </div>
 
@@ -479,11 +596,17 @@ export const TransferModal = ({
                     <button
                         type="submit"
                         form="transfer-form"
-                        disabled={!sourceWallet}
+                        disabled={!sourceWallet || isScheduling || isMfaStatusPending}
                         className="flex-1 bg-blue-500 hover:bg-blue-600 text-white font-bold py-3 px-6 rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg shadow-blue-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                        {TRANSFER_MODAL_TEXT.CONFIRM_TRANSFER}
-                        <span className="material-symbols-outlined text-lg">arrow_forward</span>
+                        {isScheduling
+                            ? TRANSFER_MODAL_TEXT.SCHEDULING
+                            : isScheduled
+                                ? TRANSFER_MODAL_TEXT.SCHEDULE_TRANSFER
+                                : TRANSFER_MODAL_TEXT.CONFIRM_TRANSFER}
+                        <span className="material-symbols-outlined text-lg">
+                            {isScheduled ? 'event_repeat' : 'arrow_forward'}
+                        </span>
                     </button>
                     <button
                         type="button"
@@ -507,7 +630,7 @@ export const TransferModal = ({
             <TransferProcessingModal
                 isOpen={isProcessing}
                 amount={amount || '0.00'}
-                currency={sourceWallet?.currency ?? 'SGD'}
+                currency={sourceCurrency}
                 recipient={recipient || 'Recipient'}
                 onComplete={handleProcessingComplete}
             />
@@ -516,13 +639,57 @@ export const TransferModal = ({
             <TransferSuccessModal
                 isOpen={showSuccess}
                 amount={transferResult?.amount?.toString() ?? '0.00'}
-                currency={sourceWallet?.currency ?? 'SGD'}
+                currency={sourceCurrency}
                 recipient={transferResult?.recipientName ?? recipient ?? 'Recipient'}
                 transactionReference={transferResult?.payerTransactionReference ?? ''}
                 timestamp={transferResult?.timestamp ?? new Date().toISOString()}
                 paymentMethod={transferResult?.paymentMethod ?? ''}
+                isReplayed={transferResult?.replayed ?? false}
                 onClose={handleSuccessClose}
             />
+
+            {/* Step-up Verification */}
+            <StepUpModal
+                isOpen={pendingStepUp !== null}
+                onClose={() => setPendingStepUp(null)}
+                amountLabel={formatMoney(
+                    toMajorUnits(parseMoney(pendingStepUp?.amount ?? '', sourceCurrency) ?? zeroMoney(sourceCurrency)),
+                    sourceCurrency
+                )}
+                onVerified={handleStepUpVerified}
+            />
+
+            {/* Scheduled Confirmation */}
+            {scheduledTransfer && (
+                <SuccessModal
+                    isOpen
+                    onClose={handleClose}
+                    title={SCHEDULED_TRANSFERS_TEXT.SCHEDULED_TITLE}
+                    subtitle={SCHEDULED_TRANSFERS_TEXT.SCHEDULED_SUBTITLE}
+                    amount={scheduledTransfer.amount.toString()}
+                    currency={scheduledTransfer.currency}
+                    recipient={{ name: scheduledTransfer.recipientEmail }}
+                    details={[
+                        { label: SCHEDULED_TRANSFERS_TEXT.FIRST_RUN, value: formatRunDate(scheduledTransfer.startDate), icon: 'event' },
+                        { label: SCHEDULED_TRANSFERS_TEXT.REPEATS, value: formatRecurrence(scheduledTransfer), icon: 'repeat' },
+                    ]}
+                    primaryAction={{ label: SCHEDULED_TRANSFERS_TEXT.DONE, onClick: handleClose }}
+                    secondaryAction={{
+                        label: SCHEDULED_TRANSFERS_TEXT.VIEW_SCHEDULES,
+                        icon: 'event_repeat',
+                        onClick: handleViewSchedules,
+                    }}
+                />
+            )}
+
+            {/* Contacts Manager - picking a contact prefills the recipient */}
+            <ContactsModal
+                isOpen={isOpen && isContactsModalOpen}
+                onClose={() => setIsContactsModalOpen(false)}
+                onSelectContact={handleContactSelect}
+                wallets={wallets}
+                defaultWalletId={sourceWallet?.id}
+            />
         </>
     );
 };
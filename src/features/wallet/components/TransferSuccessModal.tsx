@@ -11,6 +11,8 @@ interface TransferSuccessModalProps {
     transactionReference: string;
     timestamp: string;
     paymentMethod: string;
+    /** True if the server recognised the request as a retry of an earlier transfer */
+    isReplayed?: boolean;
     onClose: () => void;
 }
 
@@ -27,6 +29,7 @@ export const TransferSuccessModal = ({
     transactionReference,
     timestamp,
     paymentMethod,
+    isReplayed = false,
     onClose,
 }: TransferSuccessModalProps) => {
     // Build transaction details array for SuccessModal
@@ -56,7 +59,7 @@ export const TransferSuccessModal = ({
             isOpen={isOpen}
             onClose={onClose}
             title={MODAL_TEXT.TRANSFER_SUCCESSFUL}
-            subtitle={MODAL_TEXT.TRANSACTION_COMPLETED}
+            subtitle={isReplayed ? MODAL_TEXT.TRANSFER_ALREADY_PROCESSED : MODAL_TEXT.TRANSACTION_COMPLETED}
             amount={amount}
             currency={currency}
             recipient={{
@@ -0,0 +1,65 @@
+import { useNavigate } from 'react-router-dom';
+import { Card } from '../../../components/ui/Card';
+import { LoadingSkeleton } from '../../../components/ui/LoadingSkeleton';
+import { SCHEDULED_TRANSFERS_TEXT } from '../constants/text';
+import { useGetScheduledTransfersQuery } from '../services/scheduledTransferApi';
+import { toDateString } from '../utils/analytics';
+import { formatCurrency } from '../utils/formatters';
+import { formatRunDate, getUpcomingRuns } from '../utils/scheduledTransfers';
+
+/**
+ * Dashboard card listing the next scheduled transfer runs across all schedules
+ * Renders nothing if the schedules cannot be loaded, so the dashboard is not blocked
+ */
+export const UpcomingTransfersCard = () => {
+    const navigate = useNavigate();
+    const { data, isLoading, isError } = useGetScheduledTransfersQuery();
+
+    if (isError) return null;
+
+    const runs = getUpcomingRuns(data?.schedules ?? [], toDateString(new Date()));
+
+    return (
+        <Card variant="dark" className="flex flex-col gap-4">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <h3 className="text-white text-lg font-semibold">{SCHEDULED_TRANSFERS_TEXT.UPCOMING_TITLE}</h3>
+                <button
+                    type="button"
+                    onClick={() => navigate('/transfers/scheduled')}
+                    className="text-sm font-medium text-blue-400 hover:text-blue-300 flex items-center gap-1 transition-colors"
+                >
+                    {SCHEDULED_TRANSFERS_TEXT.VIEW_ALL}
+                    <span className="material-symbols-outlined text-[16px]">arrow_forward</span>
+                </button>
+            </div>
+
+            {isLoading ? (
+                <LoadingSkeleton variant="text" count={3} gap="12px" />
+            ) : runs.length === 0 ? (
+                <p className="text-sm text-slate-400">{SCHEDULED_TRANSFERS_TEXT.UPCOMING_EMPTY}</p>
+            ) : (
+                <ul className="flex flex-col divide-y divide-slate-700/50">
+                    {runs.map((run) => (
+                        <li key={`${run.scheduleId}-${run.runDate}`} className="flex items-center justify-between gap-4 py-3">
+                            <div className="flex items-center gap-3 min-w-0">
+                                <div className="icon-badge icon-badge-sm bg-blue-500/20">
+                                    <span className="material-symbols-outlined text-blue-400 text-lg">event</span>
+                                </div>
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-white truncate">{run.recipientEmail}</p>
+                                    <p className="text-xs text-slate-400 truncate">
+                                        {`${formatRunDate(run.runDate)} • ${SCHEDULED_TRANSFERS_TEXT.FROM_WALLET(run.walletName)}`}
+                                    </p>
+                                </div>
+                            </div>
+                            <span className="text-sm font-semibold text-white shrink-0">
+                                {formatCurrency(run.amount, run.currency)}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </Card>
+    );
+};
@@ -1,9 +1,11 @@
 import { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { WalletSummary } from '../types';
+import { BalanceHistoryPeriodEnum, type WalletSummary } from '../types';
 import { MiniBarChart } from './MiniBarChart';
 import { WALLETS_TEXT, WALLET_CARD_TEXT } from '../constants/text';
 import { formatCurrency } from '../utils/formatters';
+import { toBalanceChartData } from '../utils/balanceHistory';
+import { useGetBalanceHistoryQuery } from '../services/walletApi';
 import { DropdownMenu, type DropdownMenuItem } from '../../../components/ui/DropdownMenu';
 import { Card } from '../../../components/ui/Card';
 
@@ -28,11 +30,24 @@ const iconColorClasses = {
 
 /**
  * Wallet card component displaying wallet info with mini chart
+ * The chart shows the wallet's balance history over the past week
  * Includes dropdown menu for edit and view details actions
  */
 export const WalletCard = ({ wallet, onEditName, onTopUp, onTransfer }: WalletCardProps) => {
     const navigate = useNavigate();
 
+    const { data: balanceHistory } = useGetBalanceHistoryQuery({
+        walletId: wallet.id,
+        period: BalanceHistoryPeriodEnum.WEEK,
+    });
+
+    const chartData = useMemo(
+        () => balanceHistory
+            ? toBalanceChartData(balanceHistory.points, balanceHistory.currency, BalanceHistoryPeriodEnum.WEEK)
+            : [],
+        [balanceHistory]
+    );
+
     /**
      * Builds the dropdown menu items for wallet actions
      */
@@ -105,7 +120,7 @@ export const WalletCard = ({ wallet, onEditName, onTopUp, onTransfer }: WalletCa
             </div>
 
             {/* Mini Chart */}
-            <MiniBarChart data={wallet.chartData} colorVariant={wallet.colorVariant} />
+            <MiniBarChart data={chartData} colorVariant={wallet.colorVariant} />
         </Card>
     );
 };
@@ -1,61 +1,45 @@
 import { Link } from 'react-router-dom';
+import { Pagination } from '../../../components/ui';
 import { WALLET_DETAILS_TEXT, WALLET_TRANSACTION_TABLE_TEXT } from '../constants/text';
+import { TransactionTypeEnum, type TransactionHistoryItem } from '../types';
 import { formatCurrency, formatDate } from '../utils/formatters';
-
-/** Transaction status type */
-type TransactionStatus = 'completed' | 'processing' | 'failed';
-
-/** Transaction item for the details page */
-interface WalletTransaction {
-    id: string;
-    description: string;
-    category: string;
-    icon: string;
-    date: string;
-    status: TransactionStatus;
-    amount: number;
-    isCredit: boolean;
-}
+import { getReferenceTypeIcon, getReferenceTypeLabel, getWalletTransactionStatusConfig } from '../utils/transactionHelpers';
 
 interface WalletDetailsTransactionTableProps {
-    /** Array of transactions to display */
-    transactions: WalletTransaction[];
+    /** Current page of the wallet's transactions */
+    transactions: TransactionHistoryItem[];
     /** Currency code */
     currency: string;
     /** Wallet ID for "View All" link */
     walletId?: string;
     /** Whether data is loading */
     isLoading?: boolean;
+    /** Whether the page failed to load */
+    isError?: boolean;
+    /** Callback to retry after an error */
+    onRetry?: () => void;
+    /** Current page (1-based) */
+    currentPage?: number;
+    /** Total number of pages */
+    totalPages?: number;
+    /** Callback with the requested page */
+    onPageChange?: (page: number) => void;
 }
 
-/** Status badge styles by status type */
-const statusStyles: Record<TransactionStatus, { bg: string; text: string; label: string }> = {
-    completed: {
-        bg: 'bg-green-500/10',
-        text: 'text-green-500',
-        label: WALLET_TRANSACTION_TABLE_TEXT.STATUS_COMPLETED,
-    },
-    processing: {
-        bg: 'bg-blue-500/10',
-        text: 'text-blue-500',
-        label: WALLET_TRANSACTION_TABLE_TEXT.STATUS_PROCESSING,
-    },
-    failed: {
-        bg: 'bg-red-500/10',
-        text: 'text-red-500',
-        label: WALLET_TRANSACTION_TABLE_TEXT.STATUS_FAILED,
-    },
-};
-
 /**
  * Transaction table for wallet details page
- * Shows recent transactions with status badges
+ * Shows one page of the wallet's history with status badges and pagination
  */
 export const WalletDetailsTransactionTable = ({
     transactions,
     currency,
     walletId,
     isLoading = false,
+    isError = false,
+    onRetry,
+    currentPage = 1,
+    totalPages = 1,
+    onPageChange,
 }: WalletDetailsTransactionTableProps) => {
     // Build the "View All" link with optional walletId filter
     const viewAllLink = walletId ? `/history?walletId=${walletId}` : '/history';
@@ -76,7 +60,7 @@ export const WalletDetailsTransactionTable = ({
         <section>
             <div className="flex items-center justify-between mb-3">
                 <h3 className="font-bold text-base text-white">
-                    {WALLET_DETAILS_TEXT.RECENT_TRANSACTIONS}
+                    {WALLET_DETAILS_TEXT.TRANSACTIONS}
                 </h3>
                 <Link
                     to={viewAllLink}
@@ -97,7 +81,22 @@ export const WalletDetailsTransactionTable = ({
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-800">
-                        {transactions.length === 0 ? (
+                        {isError ? (
+                            <tr>
+                                <td
+                                    colSpan={4}
+                                    className="px-5 py-10 text-center text-sm"
+                                >
+                                    <p className="text-red-400 mb-2">{WALLET_TRANSACTION_TABLE_TEXT.LOAD_ERROR}</p>
+                                    <button
+                                        onClick={onRetry}
+                                        className="text-blue-500 font-medium hover:underline"
+                                    >
+                                        {WALLET_TRANSACTION_TABLE_TEXT.TRY_AGAIN}
+                                    </button>
+                                </td>
+                            </tr>
+                        ) : transactions.length === 0 ? (
                             <tr>
                                 <td
                                     colSpan={4}
@@ -108,17 +107,18 @@ export const WalletDetailsTransactionTable = ({
                             </tr>
                         ) : (
                             transactions.map((transaction) => {
-                                const status = statusStyles[transaction.status];
+                                const status = getWalletTransactionStatusConfig(transaction.status);
+                                const isCredit = transaction.transactionType === TransactionTypeEnum.CREDIT;
                                 return (
                                     <tr
-                                        key={transaction.id}
+                                        key={transaction.transactionId}
                                         className="hover:bg-slate-800/50 transition-colors"
                                     >
                                         <td className="px-5 py-3">
                                             <div className="flex items-center gap-3">
                                                 <div className="w-9 h-9 rounded-full bg-slate-800 flex items-center justify-center">
                                                     <span className="material-symbols-outlined text-slate-400 text-lg">
-                                                        {transaction.icon}
+                                                        {getReferenceTypeIcon(transaction.referenceType)}
                                                     </span>
                                                 </div>
                                                 <div>
@@ -126,28 +126,28 @@ export const WalletDetailsTransactionTable = ({
                                                         {transaction.description}
                                                     </div>
                                                     <div className="text-[11px] text-slate-500">
-                                                        {transaction.category}
+                                                        {getReferenceTypeLabel(transaction.referenceType)}
                                                     </div>
                                                 </div>
                                             </div>
                                         </td>
                                         <td className="px-5 py-3 text-sm text-slate-400">
-                                            {formatDate(transaction.date)}
+                                            {formatDate(transaction.createdAt)}
                                         </td>
                                         <td className="px-5 py-3">
                                             <span
-                                                className={`px-2 py-0.5 text-[10px] font-bold uppercase tracking-wide ${status.bg} ${status.text} rounded-full`}
+                                                className={`px-2 py-0.5 text-[10px] font-bold uppercase tracking-wide ${status.bgColor} ${status.textColor} rounded-full`}
                                             >
                                                 {status.label}
                                             </span>
                                         </td>
                                         <td
-                                            className={`px-5 py-3 text-sm font-bold text-right ${transaction.isCredit
+                                            className={`px-5 py-3 text-sm font-bold text-right ${isCredit
                                                 ? 'text-green-500'
                                                 : 'text-white'
                                                 }`}
                                         >
-                                            {transaction.isCredit ? '+' : '-'}
+                                            {isCredit ? '+' : '-'}
                                             {formatCurrency(Math.abs(transaction.amount), currency)}
                                         </td>
                                     </tr>
@@ -157,8 +157,19 @@ export const WalletDetailsTransactionTable = ({
                     </tbody>
                 </table>
             </div>
+
+            {/* Pagination */}
+            {onPageChange && !isError && totalPages > 1 && (
+                <div className="flex justify-end mt-4">
+                    <Pagination
+                        currentPage={currentPage}
+                        totalPages={totalPages}
+                        onPageChange={onPageChange}
+                        previousLabel={WALLET_TRANSACTION_TABLE_TEXT.PREVIOUS}
+                        nextLabel={WALLET_TRANSACTION_TABLE_TEXT.NEXT}
+                    />
+                </div>
+            )}
         </section>
     );
 };
-
-export type { WalletTransaction, TransactionStatus };
@@ -1,5 +1,6 @@
 import { WALLET_DETAILS_TEXT } from '../constants/text';
 import { formatCurrency } from '../utils/formatters';
+import { subtractMoney, toMajorUnits, toMoney } from '../../../utils/money';
 
 interface OverviewItem {
     label: string;
@@ -14,8 +15,6 @@ interface WalletOverviewPanelProps {
     totalIncome: number;
     /** Total spent amount */
     totalSpent: number;
-    /** APY growth percentage */
-    apyGrowth: string;
     /** Currency code */
     currency: string;
     /** Callback when View Full Report is clicked */
@@ -23,15 +22,16 @@ interface WalletOverviewPanelProps {
 }
 
 /**
- * Overview panel showing income, spending, and APY stats
+ * Overview panel showing income, spending, and net flow stats
  */
 export const WalletOverviewPanel = ({
     totalIncome,
     totalSpent,
-    apyGrowth,
     currency,
     onViewReport,
 }: WalletOverviewPanelProps) => {
+    const netFlow = toMajorUnits(subtractMoney(toMoney(totalIncome, currency), toMoney(totalSpent, currency)));
+
     const items: OverviewItem[] = [
         {
             label: WALLET_DETAILS_TEXT.TOTAL_INCOME,
@@ -48,9 +48,9 @@ export const WalletOverviewPanel = ({
             iconTextClass: 'text-red-500',
         },
         {
-            label: WALLET_DETAILS_TEXT.APY_GROWTH,
-            value: apyGrowth,
-            icon: 'percent',
+            label: WALLET_DETAILS_TEXT.NET_FLOW,
+            value: formatCurrency(netFlow, currency),
+            icon: 'balance',
             iconBgClass: 'bg-blue-500/10',
             iconTextClass: 'text-blue-500',
         },
@@ -23,3 +23,21 @@ export { TechnicalMetadata } from './TechnicalMetadata';
 export { PortfolioInsights } from './PortfolioInsights';
 export { WalletDetailsTransactionTable } from './WalletDetailsTransactionTable';
 export { MonthlySummaryCard } from './MonthlySummaryCard';
+export { ExportTransactionsModal } from './ExportTransactionsModal';
+export { TransactionFilterBar } from './TransactionFilterBar';
+export { ExchangeProcessingModal } from './ExchangeProcessingModal';
+export { ExchangeSuccessModal } from './ExchangeSuccessModal';
+export { CashFlowChart } from './CashFlowChart';
+export { AnalyticsBreakdownCard } from './AnalyticsBreakdownCard';
+export { MonthOverMonthCard } from './MonthOverMonthCard';
+export { ScheduleFields } from './ScheduleFields';
+export { ScheduledTransferListItem } from './ScheduledTransferListItem';
+export { EditScheduledTransferModal } from './EditScheduledTransferModal';
+export { CancelScheduledTransferModal } from './CancelScheduledTransferModal';
+export { UpcomingTransfersCard } from './UpcomingTransfersCard';
+export { CopyPayLinkButton } from './CopyPayLinkButton';
+export { RequestMoneyModal } from './RequestMoneyModal';
+export { PaymentRequestListItem } from './PaymentRequestListItem';
+export { SplitBillModal } from './SplitBillModal';
+export { SplitBillListItem } from './SplitBillListItem';
+export { SplitParticipantListItem } from './SplitParticipantListItem';
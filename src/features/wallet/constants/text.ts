@@ -1,3 +1,5 @@
+import { CurrencyEnum } from '../types';
+
 // App branding
 export const APP_NAME = 'ApexPay';
 export const APP_TAGLINE = 'Wallet Dashboard';
@@ -62,10 +64,11 @@ export const TRANSFER_TEXT = {
 // Transaction History
 export const HISTORY_TEXT = {
     PAGE_TITLE: 'Transaction History',
-    EXPORT_CSV: 'Export CSV',
+    EXPORT: 'Export',
     NEW_TRANSACTION: 'New Transaction',
     SEARCH_PLACEHOLDER: 'Search by ID or description...',
     NO_TRANSACTIONS: 'No transactions found',
+    NO_MATCHING_TRANSACTIONS: 'No transactions match these filters',
     SHOWING: 'Showing',
     TO: 'to',
     OF: 'of',
@@ -131,7 +134,6 @@ export const MODAL_TEXT = {
     TOP_UP_TITLE: 'Top Up Balance',
     TOP_UP_SUBTITLE: 'Add funds to your secure wallet',
     ENTER_AMOUNT: 'Enter Amount',
-    AMOUNT_PLACEHOLDER: '0.00',
     PAYMENT_METHOD: 'Payment Method',
     ADD_NEW: 'Add New',
     TRANSACTION_REFERENCE: 'Transaction Reference',
@@ -153,6 +155,7 @@ export const MODAL_TEXT = {
     // Top Up Success
     FUNDS_ADDED: 'Funds Added Successfully',
     WALLET_TOPPED_UP: 'Your wallet has been topped up.',
+    TOP_UP_ALREADY_PROCESSED: 'This top-up had already gone through. You were not charged again.',
     UPDATED_BALANCE: 'Updated Balance',
     TOP_UP_AMOUNT: 'Top Up Amount',
     TRANSACTION_ID: 'Transaction ID',
@@ -174,6 +177,7 @@ export const MODAL_TEXT = {
     // Transfer Success
     TRANSFER_SUCCESSFUL: 'Transfer Successful',
     TRANSACTION_COMPLETED: 'Transaction completed securely',
+    TRANSFER_ALREADY_PROCESSED: 'This transfer had already gone through. Nothing was sent twice.',
     SENT_TO: 'Sent to',
     TRANSACTION_HASH: 'Transaction Hash',
     TIMESTAMP: 'Timestamp',
@@ -229,12 +233,17 @@ export const PROCESSING_STEPS = {
 } as const;
 
 // Currency options
-export const CURRENCIES = {
-    SGD: 'SGD',
-    USD: 'USD',
-    EUR: 'EUR',
-    GBP: 'GBP',
-} as const;
+export const CURRENCIES = CurrencyEnum;
+
+/** Display names for supported currencies */
+export const CURRENCY_NAMES: Record<CurrencyEnum, string> = {
+    SGD: 'Singapore Dollar',
+    USD: 'US Dollar',
+    EUR: 'Euro',
+    GBP: 'British Pound',
+    JPY: 'Japanese Yen',
+    AUD: 'Australian Dollar',
+};
 
 // Transfer Processing Steps
 export const TRANSFER_PROCESSING_STEPS = [
@@ -371,25 +380,30 @@ export const WALLETS_TEXT = {
 // Wallet Details Page
 export const WALLET_DETAILS_TEXT = {
     BREADCRUMB_WALLETS: 'Wallets',
-    EXPORT_CSV: 'Export CSV',
+    EXPORT: 'Export',
     TOP_UP: 'Top Up',
-    ACTIVE: 'Active',
+    STATUS_LABELS: {
+        ACTIVE: 'Active',
+        FROZEN: 'Frozen',
+        CLOSED: 'Closed',
+    },
     CURRENT_BALANCE: 'Current Balance',
+    BALANCE_CHANGE: (percent: number) => `${percent > 0 ? '+' : ''}${percent}% this month`,
     OVERVIEW: 'Overview',
     TOTAL_INCOME: 'Total Income',
     TOTAL_SPENT: 'Total Spent',
-    APY_GROWTH: 'APY Growth',
+    NET_FLOW: 'Net Flow',
     VIEW_FULL_REPORT: 'View Full Report',
     BALANCE_TRENDS: 'Balance Trends',
-    RECENT_TRANSACTIONS: 'Recent Transactions',
+    TRANSACTIONS: 'Transactions',
     VIEW_ALL: 'View All',
     TECHNICAL_METADATA: 'Technical Metadata',
-    LEDGER_ADDRESS: 'Ledger Address',
+    WALLET_ID: 'Wallet ID',
     CREATION_DATE: 'Creation Date',
-    WALLET_TYPE: 'Wallet Type',
-    SECURITY_FEATURES: 'Security Features',
+    CURRENCY: 'Currency',
+    WALLET_FLAGS: 'Status',
+    DEFAULT_WALLET: 'Default Wallet',
     TWO_FA_ENABLED: '2FA Enabled',
-    COLD_STORAGE: 'Cold Storage',
     PORTFOLIO_INSIGHTS: 'Portfolio Insights',
     REVIEW_OPTIMIZER: 'Review Optimizer',
     TIME_PERIODS: {
@@ -398,7 +412,8 @@ export const WALLET_DETAILS_TEXT = {
         MONTH: '1M',
         YEAR: '1Y',
     },
-    DAYS_OF_WEEK: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+    NO_BALANCE_HISTORY: 'No balance history for this period yet',
+    BALANCE_HISTORY_ERROR: 'Failed to load balance history',
 } as const;
 
 // Activity Table Headers
@@ -419,15 +434,15 @@ export const ADD_WALLET_MODAL_TEXT = {
     CURRENCY_LABEL: 'Currency Type',
     PURPOSE_LABEL: 'Wallet Purpose',
     INITIAL_BALANCE_LABEL: 'Initial Balance',
-    INITIAL_BALANCE_PLACEHOLDER: '0.00',
     CANCEL: 'Cancel',
     CREATE_WALLET: 'Create Wallet',
 } as const;
 
 // Currency options for wallet creation
-export const CURRENCY_OPTIONS = [
-    { value: 'SGD', label: 'SGD - Singapore Dollar' },
-] as const;
+export const CURRENCY_OPTIONS = Object.values(CurrencyEnum).map((currency) => ({
+    value: currency,
+    label: `${currency} - ${CURRENCY_NAMES[currency]}`,
+}));
 
 // Transfer Modal
 export const TRANSFER_MODAL_TEXT = {
@@ -438,7 +453,6 @@ export const TRANSFER_MODAL_TEXT = {
     RECIPIENT_PLACEHOLDER: 'e.g. user@apexpay.net or #882910',
     SELECT_FROM_CONTACTS: 'Select from Contacts',
     AMOUNT_LABEL: 'Amount',
-    AMOUNT_PLACEHOLDER: '0.00',
     CURRENCY_LABEL: 'Currency',
     CLIENT_REQUEST_ID: 'Client Request ID',
     CONFIRM_TRANSFER: 'Confirm Transfer',
@@ -451,6 +465,313 @@ export const TRANSFER_MODAL_TEXT = {
     LOADING_CONTACTS: 'Loading contacts...',
     NO_CONTACTS_FOUND: 'No contacts found',
     AVAILABLE_SUFFIX: 'available',
+    SCHEDULE_TOGGLE: 'Schedule for later',
+    SCHEDULE_TRANSFER: 'Schedule Transfer',
+    SCHEDULING: 'Scheduling...',
+    SCHEDULE_FAILED: 'Could not schedule transfer. Please try again.',
+    MFA_STATUS_ERROR_TITLE: 'Security check unavailable',
+    MFA_STATUS_ERROR: 'We could not confirm your two-factor settings, so transfers are paused. Close this window and try again.',
+} as const;
+
+// Scheduled Transfers
+export const SCHEDULED_TRANSFERS_TEXT = {
+    PAGE_TITLE: 'Scheduled Transfers',
+    PAGE_DESCRIPTION: 'Future-dated and recurring payments from your wallets.',
+    NEW_TRANSFER: 'New Transfer',
+    LOADING: 'Loading scheduled transfers...',
+    LOAD_ERROR: 'Could not load scheduled transfers. Please try again.',
+    RETRY: 'Retry',
+    NO_SCHEDULES: 'No scheduled transfers yet',
+    NO_SCHEDULES_HINT: 'Turn on "Schedule for later" when sending a transfer to pay someone on a future date or on repeat.',
+    DEFAULT_ERROR: 'Something went wrong. Please try again.',
+
+    // Schedule fields
+    START_DATE_LABEL: 'Transfer date',
+    AMOUNT_LABEL: 'Amount',
+    RECURRENCE_LABEL: 'Repeat',
+    INTERVAL_LABEL: 'Every (days)',
+    END_DATE_LABEL: 'End date (optional)',
+    NOTE_LABEL: 'Note (optional)',
+    RECURRENCES: {
+        NONE: 'Once',
+        WEEKLY: 'Weekly',
+        MONTHLY: 'Monthly',
+        CUSTOM: 'Custom',
+    },
+    EVERY_N_DAYS: (days: number) => `Every ${days} ${days === 1 ? 'day' : 'days'}`,
+
+    // List
+    TO: (recipient: string) => `To ${recipient}`,
+    FROM_WALLET: (walletName: string) => `From ${walletName}`,
+    NEXT_RUN: (date: string) => `Next: ${date}`,
+    ENDS: (date: string) => `Ends ${date}`,
+    LAST_RUN: (date: string) => `Last ran ${date}`,
+    STATUSES: {
+        ACTIVE: 'Active',
+        PAUSED: 'Paused',
+        COMPLETED: 'Completed',
+        CANCELLED: 'Cancelled',
+    },
+    PAUSE: 'Pause',
+    RESUME: 'Resume',
+    EDIT: 'Edit',
+    CANCEL_SCHEDULE: 'Cancel',
+
+    // Edit modal
+    EDIT_TITLE: 'Edit Scheduled Transfer',
+    SAVE: 'Save Changes',
+    SAVING: 'Saving...',
+    CLOSE: 'Close',
+    UPDATE_FAILED: 'Update Failed',
+
+    // Cancel confirmation
+    CANCEL_TITLE: 'Cancel Scheduled Transfer',
+    CANCEL_MESSAGE: (recipient: string) =>
+        `Future transfers to ${recipient} will stop. Transfers that already ran are not affected.`,
+    CONFIRM_CANCEL: 'Cancel Schedule',
+    KEEP_SCHEDULE: 'Keep Schedule',
+    CANCELLING: 'Cancelling...',
+    CANCEL_FAILED: 'Cancel Failed',
+
+    // Success modal
+    SCHEDULED_TITLE: 'Transfer Scheduled',
+    SCHEDULED_SUBTITLE: 'We will send it automatically on the scheduled date',
+    FIRST_RUN: 'First transfer',
+    REPEATS: 'Repeats',
+    DONE: 'Done',
+    VIEW_SCHEDULES: 'View Scheduled Transfers',
+
+    // Dashboard card
+    UPCOMING_TITLE: 'Upcoming Transfers',
+    UPCOMING_EMPTY: 'No upcoming transfers',
+    VIEW_ALL: 'View All',
+} as const;
+
+// Payment Requests
+export const PAYMENT_REQUESTS_TEXT = {
+    PAGE_TITLE: 'Payment Requests',
+    PAGE_DESCRIPTION: 'Ask for money from a contact or share a pay link.',
+    REQUEST_MONEY: 'Request Money',
+    LOADING: 'Loading payment requests...',
+    LOAD_ERROR: 'Could not load payment requests. Please try again.',
+    RETRY: 'Retry',
+    DEFAULT_ERROR: 'Something went wrong. Please try again.',
+    TABS: {
+        SENT: 'Sent',
+        RECEIVED: 'Received',
+    },
+    NO_SENT: 'You have not requested money yet',
+    NO_RECEIVED: 'No one has requested money from you',
+    STATUSES: {
+        PENDING: 'Pending',
+        PAID: 'Paid',
+        EXPIRED: 'Expired',
+        DECLINED: 'Declined',
+    },
+
+    // List
+    FROM: (name: string) => `From ${name}`,
+    TO: (email: string) => `To ${email}`,
+    ANYONE_WITH_LINK: 'Anyone with the link',
+    EXPIRES: (date: string) => `Expires ${date}`,
+    PAID_ON: (date: string) => `Paid ${date}`,
+    PAY: 'Pay',
+    DECLINE: 'Decline',
+    DECLINING: 'Declining...',
+    DECLINE_FAILED: 'Decline Failed',
+    COPY_LINK: 'Copy Link',
+    LINK_COPIED: 'Copied!',
+
+    // Request modal
+    MODAL_TITLE: 'Request Money',
+    MODAL_SUBTITLE: 'Get paid into one of your wallets',
+    WALLET_LABEL: 'Receive into',
+    FROM_CONTACT: 'From a contact',
+    SHARE_LINK: 'Share a link',
+    PAYER_LABEL: 'Payer email',
+    PAYER_PLACEHOLDER: 'e.g. user@apexpay.net',
+    SELECT_FROM_CONTACTS: 'Select from Contacts',
+    AMOUNT_LABEL: 'Amount',
+    NOTE_LABEL: 'Note (optional)',
+    NOTE_PLACEHOLDER: 'What is it for?',
+    EXPIRY_LABEL: 'Expires after',
+    EXPIRY_OPTIONS: {
+        '1': '1 day',
+        '7': '7 days',
+        '30': '30 days',
+    },
+    SEND_REQUEST: 'Send Request',
+    CREATE_LINK: 'Create Link',
+    CREATING: 'Creating...',
+    CREATE_FAILED: 'Request Failed',
+    CANCEL: 'Cancel',
+    CLOSE: 'Close',
+    DONE: 'Done',
+    CREATED_TITLE: 'Request Created',
+    CREATED_SENT: (email: string) => `We let ${email} know. You can also share the link below.`,
+    CREATED_LINK: 'Share this link or QR code with whoever is paying.',
+    QR_ALT: 'QR code for the pay link',
+    PAY_LINK_LABEL: 'Pay link',
+
+    // Pay page
+    PAY_TITLE: 'Pay Request',
+    REQUESTED_BY: (name: string) => `${name} is requesting`,
+    PAY_FROM: 'Pay from',
+    NO_MATCHING_WALLET: (currency: string) => `You need a ${currency} wallet to pay this request.`,
+    INSUFFICIENT_BALANCE: 'This wallet does not have enough balance.',
+    PAY_NOW: (amount: string) => `Pay ${amount}`,
+    PAYING: 'Paying...',
+    PAY_FAILED: 'Payment Failed',
+    MFA_STATUS_ERROR_TITLE: 'Security check unavailable',
+    MFA_STATUS_ERROR: 'We could not confirm your two-factor settings, so paying is paused. Reload the page and try again.',
+    OWN_REQUEST: 'This is your request. Share the link with whoever is paying.',
+    NOT_PAYABLE: {
+        PAID: 'This request has already been paid.',
+        EXPIRED: 'This request has expired.',
+        DECLINED: 'This request was declined.',
+    },
+    NOT_FOUND: 'Request not found',
+    NOT_FOUND_DESCRIPTION: 'This pay link is invalid or was sent to someone else.',
+    BACK_TO_REQUESTS: 'Back to Requests',
+} as const;
+
+// Bulk Transfers
+export const BULK_TRANSFER_TEXT = {
+    PAGE_TITLE: 'Bulk Transfers',
+    PAGE_DESCRIPTION: 'Pay many people at once from a CSV file.',
+    DOWNLOAD_TEMPLATE: 'Download Template',
+    TEMPLATE_FILENAME: 'apexpay-bulk-transfer-template.csv',
+    DEFAULT_ERROR: 'Something went wrong. Please try again.',
+
+    // Upload
+    WALLET_LABEL: 'Pay from',
+    FILE_LABEL: 'Transfers file',
+    FILE_HINT: 'CSV with email, amount, currency and an optional note column.',
+    CHOOSE_FILE: 'Choose CSV',
+    READ_FAILED: 'Could Not Read File',
+    NO_WALLETS: 'Create a wallet before sending transfers.',
+
+    // Preview
+    ROWS: 'Rows',
+    VALID: 'Valid',
+    INVALID: 'Invalid',
+    TOTAL: 'Total',
+    BALANCE_AFTER: 'Balance after',
+    FIX_ROWS: (count: number) => `Fix ${count} invalid ${count === 1 ? 'row' : 'rows'} and upload the file again.`,
+    EXCEEDS_BALANCE: (balance: string) => `The transfers add up to more than the wallet balance of ${balance}.`,
+    COLUMNS: {
+        ROW: 'Row',
+        EMAIL: 'Email',
+        AMOUNT: 'Amount',
+        NOTE: 'Note',
+        STATUS: 'Status',
+    },
+    READY: 'Ready',
+    CLEAR: 'Clear',
+    SEND: (count: number) => `Send ${count} ${count === 1 ? 'Transfer' : 'Transfers'}`,
+    MFA_STATUS_ERROR_TITLE: 'Security check unavailable',
+    MFA_STATUS_ERROR: 'We could not confirm your two-factor settings, so sending is paused. Reload the page and try again.',
+
+    // Results
+    STATUSES: {
+        QUEUED: 'Queued',
+        SENDING: 'Sending',
+        SUCCESS: 'Sent',
+        FAILED: 'Failed',
+    },
+    PROGRESS: (done: number, total: number) => `${done} of ${total} processed`,
+    RESULT_COUNTS: (sent: number, failed: number) => `${sent} sent, ${failed} failed`,
+    DOWNLOAD_REPORT: 'Download Report',
+    RETRY_FAILED: (count: number) => `Retry ${count} Failed`,
+    NEW_BATCH: 'New Batch',
+} as const;
+
+// Split Bills
+export const SPLIT_BILLS_TEXT = {
+    SPLIT_BILL: 'Split a Bill',
+    TAB: 'Splits',
+    NO_SPLITS: 'You have not split a bill yet',
+    PAID_COUNT: (paid: number, total: number) => `${paid} of ${total} paid`,
+    CREATED_ON: (date: string) => `Created ${date}`,
+    DEFAULT_ERROR: 'Something went wrong. Please try again.',
+
+    // Split modal
+    MODAL_TITLE: 'Split a Bill',
+    MODAL_SUBTITLE: 'Request everyone\'s share in one go',
+    TITLE_LABEL: 'What is it for?',
+    TITLE_PLACEHOLDER: 'e.g. Dinner at Lau Pa Sat',
+    WALLET_LABEL: 'Receive into',
+    TOTAL_LABEL: 'Total',
+    EXPIRY_LABEL: 'Requests expire after',
+    PARTICIPANTS_LABEL: 'Split with',
+    SELECTED_COUNT: (count: number) => `${count} selected`,
+    LOADING_CONTACTS: 'Loading contacts...',
+    CONTACTS_ERROR: 'Could not load your contacts.',
+    NO_CONTACTS: 'Add contacts to split bills with them.',
+    METHOD_LABEL: 'Split',
+    METHODS: {
+        EQUAL: 'Equally',
+        PERCENTAGE: 'By %',
+        CUSTOM: 'By amount',
+    },
+    INCLUDE_SELF: 'Include my share',
+    YOU: 'You',
+    PERCENT_PLACEHOLDER: '%',
+    SHARE_LABEL: (name: string) => `Share for ${name}`,
+    CANCEL: 'Cancel',
+    SEND_REQUESTS: (count: number) => `Send ${count} ${count === 1 ? 'Request' : 'Requests'}`,
+    SENDING: 'Sending...',
+    CREATE_FAILED: 'Split Failed',
+
+    // Details page
+    DETAILS_TITLE: 'Split Details',
+    LOADING: 'Loading split...',
+    LOAD_ERROR: 'Could not load this split. Please try again.',
+    RETRY: 'Retry',
+    NOT_FOUND: 'Split not found',
+    BACK_TO_REQUESTS: 'Back to Requests',
+    COLLECTED: (collected: string, total: string) => `${collected} of ${total} collected`,
+    SPLIT_METHOD: {
+        EQUAL: 'Split equally',
+        PERCENTAGE: 'Split by percentage',
+        CUSTOM: 'Split by amount',
+    },
+    PAID_ON: (date: string) => `Paid ${date}`,
+    REMINDED_ON: (date: string) => `Reminded ${date}`,
+    REMIND: 'Remind',
+    REMINDING: 'Sending...',
+    REMIND_FAILED: 'Reminder Failed',
+    REMINDER_SENT: (name: string) => `Reminder sent to ${name}`,
+} as const;
+
+// Contacts Modal
+export const CONTACTS_MODAL_TEXT = {
+    TITLE: 'All Contacts',
+    CLOSE: 'Close',
+    SEARCH_PLACEHOLDER: 'Search by name or email...',
+    LOADING: 'Loading contacts...',
+    LOAD_ERROR: 'Failed to load contacts',
+    TRY_AGAIN: 'Try again',
+    FAVORITES: 'Favourites',
+    RECENTLY_PAID: 'Recently Paid',
+    ALL_CONTACTS: 'All Contacts',
+    NO_CONTACTS: 'No contacts yet',
+    NO_CONTACTS_HINT: 'Add someone to pay them in one tap',
+    NO_RESULTS: 'No contacts found',
+    NO_RESULTS_HINT: 'Try a different search term',
+    ADD_FAVORITE: (name: string) => `Add ${name} to favourites`,
+    REMOVE_FAVORITE: (name: string) => `Remove ${name} from favourites`,
+    DELETE_CONTACT: (name: string) => `Delete ${name}`,
+    CONFIRM_DELETE: 'Delete?',
+    CONFIRM: 'Delete',
+    CANCEL: 'Cancel',
+    ADD_CONTACT: 'Add New Contact',
+    EMAIL_LABEL: 'Email',
+    EMAIL_PLACEHOLDER: 'friend@example.com',
+    WALLET_LABEL: 'Wallet',
+    SAVE_CONTACT: 'Save Contact',
+    SAVING: 'Saving...',
+    DEFAULT_ERROR: 'Something went wrong. Please try again.',
 } as const;
 
 // Wallet Card
@@ -475,6 +796,11 @@ export const BALANCE_CARD_TEXT = {
 export const NAVIGATION_TEXT = {
     DASHBOARD: 'Dashboard',
     WALLETS: 'Wallets',
+    EXCHANGE: 'Exchange',
+    SCHEDULED: 'Scheduled',
+    BULK: 'Bulk Transfers',
+    REQUESTS: 'Requests',
+    CARDS: 'Cards & Banks',
     PAYMENT: 'Payment',
     HISTORY: 'History',
     ANALYTICS: 'Analytics',
@@ -495,11 +821,7 @@ export const EDIT_WALLET_MODAL_TEXT = {
 } as const;
 
 // Top Up Modal - Quick Amounts
-export const TOP_UP_QUICK_AMOUNTS = {
-    TEN: '+$10.00',
-    FIFTY: '+$50.00',
-    HUNDRED: '+$100.00',
-} as const;
+export const TOP_UP_QUICK_AMOUNTS = [10, 50, 100] as const;
 
 // Payment Methods
 export const PAYMENT_METHODS_TEXT = {
@@ -530,9 +852,10 @@ export const WALLET_TRANSACTION_TABLE_TEXT = {
     STATUS: 'Status',
     AMOUNT: 'Amount',
     NO_TRANSACTIONS: 'No transactions yet',
-    STATUS_COMPLETED: 'COMPLETED',
-    STATUS_PROCESSING: 'PROCESSING',
-    STATUS_FAILED: 'FAILED',
+    LOAD_ERROR: 'Failed to load transactions',
+    TRY_AGAIN: 'Try again',
+    PREVIOUS: 'Previous',
+    NEXT: 'Next',
 } as const;
 
 // Wallets Page
@@ -544,6 +867,9 @@ export const WALLETS_PAGE_TEXT = {
 export const WALLET_DETAILS_PAGE_TEXT = {
     LOADING: 'Loading wallet details...',
     NOT_FOUND: 'Wallet not found',
+    NOT_FOUND_DESCRIPTION: "This wallet doesn't exist or isn't one of yours.",
+    LOAD_ERROR: 'Could not load this wallet. Please try again.',
+    RETRY: 'Retry',
     BACK_TO_WALLETS: 'Back to Wallets',
 } as const;
 
@@ -556,6 +882,134 @@ export const TRANSACTION_HISTORY_TEXT = {
     FAILED_TO_LOAD: 'Failed to load transactions',
     TRY_AGAIN: 'Try again',
     WALLET_HEADER: 'Wallet',
+    CLEAR_WALLET_FILTER: 'Clear wallet filter',
+} as const;
+
+// Transaction History Filters
+export const HISTORY_FILTER_TEXT = {
+    TYPE_LABEL: 'Type',
+    CATEGORY_LABEL: 'Category',
+    STATUS_LABEL: 'Status',
+    FROM_LABEL: 'From',
+    TO_LABEL: 'To',
+    MIN_AMOUNT_LABEL: 'Min amount',
+    MAX_AMOUNT_LABEL: 'Max amount',
+    ALL_OPTION: 'All',
+    CLEAR_FILTERS: 'Clear filters',
+    INVALID_DATE_RANGE: 'Start date must be on or before end date',
+    INVALID_AMOUNT_RANGE: 'Min amount must not exceed max amount',
+    TRANSACTION_TYPES: {
+        CREDIT: 'Credit',
+        DEBIT: 'Debit',
+        RESERVE: 'Reserved',
+    },
+} as const;
+
+// Transaction Export Modal
+export const EXPORT_TEXT = {
+    TITLE: 'Export Transactions',
+    SUBTITLE: 'Download your history for reconciliation',
+    FORMAT_LABEL: 'File Format',
+    DATE_RANGE_LABEL: 'Date Range (optional)',
+    FROM_LABEL: 'From',
+    TO_LABEL: 'To',
+    SCOPE_LABEL: 'Wallet',
+    ALL_WALLETS: 'All wallets',
+    ALL_WALLETS_SLUG: 'all-wallets',
+    EXPORT_BUTTON: 'Export',
+    EXPORTING: 'Exporting...',
+    CANCEL: 'Cancel',
+    EXPORT_FAILED_TITLE: 'Export Failed',
+    EXPORT_FAILED_MESSAGE: 'Failed to export transactions. Please try again.',
+    INVALID_RANGE: 'Start date must be on or before end date',
+    FETCHED_COUNT: (count: number) => `Fetched ${count} transactions...`,
+    EXPORTED_COUNT: (count: number) => `Exported ${count} transactions`,
+    TRUNCATED_TITLE: 'Export incomplete',
+    TRUNCATED_MESSAGE: (count: number) => `Only ${count} transactions were exported because the history could not be read to the end. Narrow the date range and export again to get the rest.`,
+    FORMATS: {
+        csv: { label: 'CSV', description: 'Spreadsheets (Excel, Google Sheets)' },
+        json: { label: 'JSON', description: 'Raw data for scripts and tools' },
+        ofx: { label: 'OFX', description: 'Accounting software (Xero, QuickBooks)' },
+        qif: { label: 'QIF', description: 'Legacy finance apps (Quicken)' },
+    },
+} as const;
+
+// Currency Exchange Page
+export const EXCHANGE_TEXT = {
+    PAGE_TITLE: 'Currency Exchange',
+    PAGE_DESCRIPTION: 'Move funds between your wallets in different currencies.',
+    FROM_LABEL: 'From',
+    TO_LABEL: 'To',
+    AMOUNT_LABEL: 'Amount to exchange',
+    SELECT_WALLET: 'Select wallet',
+    WALLET_OPTION: (name: string, currency: string) => `${name} (${currency})`,
+    AVAILABLE: (balance: string) => `${balance} available`,
+    NO_DESTINATION_WALLETS: 'You need a wallet in another currency to exchange into.',
+    ADD_WALLET: 'Add a wallet',
+    GET_QUOTE: 'Get Quote',
+    GETTING_QUOTE: 'Getting quote...',
+    REFRESH_QUOTE: 'Refresh Quote',
+    QUOTE_TITLE: 'Your Quote',
+    QUOTE_PLACEHOLDER: 'Choose your wallets and an amount, then get a quote to see the live rate.',
+    RATE_LABEL: 'Exchange rate',
+    FEE_LABEL: 'Fee',
+    YOU_SEND: 'You send',
+    YOU_RECEIVE: 'You receive',
+    QUOTE_EXPIRES_IN: (countdown: string) => `Quote expires in ${countdown}`,
+    QUOTE_EXPIRED: 'This quote has expired. Refresh it to see the latest rate.',
+    CONFIRM_EXCHANGE: 'Confirm Exchange',
+    QUOTE_FAILED: 'Could not get a quote',
+    EXCHANGE_FAILED: 'Exchange Failed',
+    DEFAULT_ERROR: 'Something went wrong. Please try again.',
+    SWAP_WALLETS: 'Swap wallets',
+
+    // Processing / success modals
+    PROCESSING_TITLE: 'Processing Exchange',
+    PROCESSING_HEADING: 'Exchanging Currency...',
+    PROCESSING_SUBTITLE: 'Debiting and crediting your wallets atomically at the quoted rate.',
+    PROCESSING_PHASE: 'Phase 2: Settlement',
+    PROCESSING_SUBTEXT: 'Applying locked rate...',
+    RATE_INFO_LABEL: 'Rate',
+    EXCHANGE_SUCCESSFUL: 'Exchange Successful',
+    EXCHANGE_COMPLETED: 'Funds have been moved between your wallets',
+    DEBITED: 'Debited',
+    SOURCE_REFERENCE: 'Debit Reference',
+    DESTINATION_REFERENCE: 'Credit Reference',
+} as const;
+
+// Analytics Page
+export const ANALYTICS_TEXT = {
+    PAGE_TITLE: 'Analytics',
+    PAGE_DESCRIPTION: 'Where your money comes from and where it goes.',
+    CONVERTED_NOTE: (currency: string) => `All amounts in ${currency}, converted at each transaction's rate.`,
+    PERIODS: {
+        '3M': '3 Months',
+        '6M': '6 Months',
+        '12M': '12 Months',
+    },
+    LOAD_ERROR: 'Could not load analytics. Please try again.',
+    RETRY: 'Retry',
+    NO_ACTIVITY: 'No activity in this period.',
+
+    // Totals
+    INCOME: 'Income',
+    SPENDING: 'Spending',
+    NET: 'Net',
+
+    // Cash flow chart
+    CASH_FLOW_TITLE: 'Income vs Spending',
+
+    // Month over month
+    MONTH_OVER_MONTH_TITLE: 'This Month vs Last Month',
+    CHANGE_NOT_AVAILABLE: 'No activity last month',
+    PERCENT_CHANGE: (percent: number) => `${percent > 0 ? '+' : ''}${percent}%`,
+
+    // Breakdowns
+    BY_CATEGORY_TITLE: 'Spending by Category',
+    BY_WALLET_TITLE: 'Spending by Wallet',
+    TOP_COUNTERPARTIES_TITLE: 'Top Counterparties',
+    TRANSACTION_COUNT: (count: number) => `${count} ${count === 1 ? 'transaction' : 'transactions'}`,
+    SHARE: (percent: number) => `${percent}%`,
 } as const;
 
 // Portfolio Insights
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+
+/** How often the countdown re-renders */
+const COUNTDOWN_TICK_MS = 1000;
+
+/**
+ * Counts down to a deadline, re-rendering once per second while it is set
+ * @param deadline - ISO 8601 timestamp to count down to, or undefined when idle
+ * @returns Whole seconds remaining (0 once the deadline has passed, when idle or if it is unparseable)
+ */
+export const useCountdown = (deadline: string | undefined): number => {
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        if (!deadline) return;
+        const tick = () => setNow(Date.now());
+        // Refresh immediately so a new deadline is not measured against a stale clock
+        const initialTick = setTimeout(tick, 0);
+        const interval = setInterval(tick, COUNTDOWN_TICK_MS);
+        return () => {
+            clearTimeout(initialTick);
+            clearInterval(interval);
+        };
+    }, [deadline]);
+
+    const remainingMs = deadline ? Date.parse(deadline) - now : NaN;
+    return Number.isFinite(remainingMs) ? Math.max(0, Math.ceil(remainingMs / 1000)) : 0;
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useIdempotencyKey } from './useIdempotencyKey';
+import { IDEMPOTENT_REPLAYED_HEADER, isReplayedResponse } from '../../../utils/idempotency';
+
+const payload = { recipientEmail: 'friend@example.com', amount: 25, currency: 'SGD' };
+
+describe('useIdempotencyKey', () => {
+    it('should reuse the key when the same payload is submitted again', () => {
+        const { result } = renderHook(() => useIdempotencyKey());
+
+        const first = result.current.getKey(payload);
+        expect(result.current.getKey({ ...payload })).toBe(first);
+    });
+
+    it('should keep the key across re-renders', () => {
+        const { result, rerender } = renderHook(() => useIdempotencyKey());
+
+        const first = result.current.getKey(payload);
+        rerender();
+        expect(result.current.getKey(payload)).toBe(first);
+    });
+
+    it('should create a new key when the payload changes', () => {
+        const { result } = renderHook(() => useIdempotencyKey());
+
+        const first = result.current.getKey(payload);
+        expect(result.current.getKey({ ...payload, amount: 26 })).not.toBe(first);
+    });
+
+    it('should create a new key after reset', () => {
+        const { result } = renderHook(() => useIdempotencyKey());
+
+        const first = result.current.getKey(payload);
+        result.current.reset();
+        expect(result.current.getKey(payload)).not.toBe(first);
+    });
+});
+
+describe('isReplayedResponse', () => {
+    it('should read the replayed header', () => {
+        expect(isReplayedResponse(new Response(null, { headers: { [IDEMPOTENT_REPLAYED_HEADER]: 'true' } }))).toBe(true);
+        expect(isReplayedResponse(new Response(null, { headers: { [IDEMPOTENT_REPLAYED_HEADER]: 'false' } }))).toBe(false);
+        expect(isReplayedResponse(new Response(null))).toBe(false);
+        expect(isReplayedResponse(undefined)).toBe(false);
+    });
+});
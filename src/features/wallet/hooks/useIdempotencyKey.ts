@@ -0,0 +1,34 @@
+import { useCallback, useRef } from 'react';
+import { createIdempotencyKey } from '../../../utils/idempotency';
+
+/** The submission a key was handed out for */
+interface PendingSubmission {
+    /** Serialised payload of the submission */
+    payload: string;
+    key: string;
+}
+
+/**
+ * Keeps one idempotency key per form submission
+ * Submitting the same payload again, as a retry or double click does, reuses the key
+ * so the server applies it once; a changed payload is a new submission and gets a new key.
+ * Call reset once the submission has succeeded so sending it again is treated as new.
+ * @returns getKey, which returns the key for a payload, and reset
+ */
+export const useIdempotencyKey = () => {
+    const pendingRef = useRef<PendingSubmission | null>(null);
+
+    const getKey = useCallback((payload: object): string => {
+        const serialised = JSON.stringify(payload);
+        if (pendingRef.current?.payload !== serialised) {
+            pendingRef.current = { payload: serialised, key: createIdempotencyKey() };
+        }
+        return pendingRef.current.key;
+    }, []);
+
+    const reset = useCallback(() => {
+        pendingRef.current = null;
+    }, []);
+
+    return { getKey, reset };
+};
@@ -0,0 +1,84 @@
+import { useCallback, useState } from 'react';
+import { useAppDispatch } from '../../../store/hooks';
+import { walletApi } from '../services/walletApi';
+import type { ExportFormat, TransactionHistoryFilters } from '../types';
+import { EXPORT_TEXT } from '../constants/text';
+import {
+    buildExport,
+    buildExportFilename,
+    collectTransactionPages,
+    downloadFile,
+    isWithinDateRange,
+    EXPORT_MIME_TYPES,
+} from '../utils/transactionExport';
+
+/**
+ * Options for a single export run
+ * Filters match the transaction history page; an omitted walletId exports every wallet
+ */
+export interface TransactionExportOptions extends TransactionHistoryFilters {
+    format: ExportFormat;
+    /** Label used in the filename (wallet name or "all-wallets") */
+    scopeLabel: string;
+}
+
+/**
+ * Pages through the transaction history endpoint and downloads the
+ * result as CSV, JSON, OFX or QIF. All file generation happens in the browser.
+ * @returns Export trigger plus progress/error state
+ */
+export const useTransactionExport = () => {
+    const dispatch = useAppDispatch();
+    const [isExporting, setIsExporting] = useState(false);
+    const [fetchedCount, setFetchedCount] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const [isTruncated, setIsTruncated] = useState(false);
+
+    /**
+     * Fetches every page matching the filters, flagging the export when paging had to stop early
+     * Pages are requested without cache subscriptions so an export does not keep data alive
+     */
+    const fetchAllPages = useCallback(async (filters: TransactionHistoryFilters) => {
+        const { items, isTruncated: wasTruncated } = await collectTransactionPages(
+            (page) => dispatch(
+                walletApi.endpoints.getTransactionHistory.initiate(
+                    { ...filters, offset: page },
+                    { subscribe: false }
+                )
+            ).unwrap(),
+            setFetchedCount
+        );
+        setIsTruncated(wasTruncated);
+
+        // Guard against backends that ignore the date params
+        return items.filter((item) => isWithinDateRange(item, filters.startDate, filters.endDate));
+    }, [dispatch]);
+
+    /**
+     * Runs an export and triggers the file download
+     * @param options - Format, filename scope and history filters
+     * @returns Number of exported transactions, or null if the export failed; isTruncated tells whether rows were left out
+     */
+    const exportTransactions = useCallback(async ({ format, scopeLabel, ...filters }: TransactionExportOptions) => {
+        setIsExporting(true);
+        setFetchedCount(0);
+        setError(null);
+        setIsTruncated(false);
+
+        try {
+            const items = await fetchAllPages(filters);
+            const content = buildExport(format, items);
+            downloadFile(content, buildExportFilename(format, scopeLabel), EXPORT_MIME_TYPES[format]);
+            return items.length;
+        } catch (err) {
+            console.error('Transaction export failed:', err);
+            const message = (err as { data?: { message?: string } })?.data?.message;
+            setError(message ?? EXPORT_TEXT.EXPORT_FAILED_MESSAGE);
+            return null;
+        } finally {
+            setIsExporting(false);
+        }
+    }, [fetchAllPages]);
+
+    return { exportTransactions, isExporting, fetchedCount, isTruncated, error, clearError: () => setError(null) };
+};
@@ -0,0 +1,215 @@
+import { useMemo, useState } from 'react';
+import { Sidebar, MobileHeader, CashFlowChart, AnalyticsBreakdownCard, MonthOverMonthCard, MiniBarChart } from '../components';
+import { Button, Card, LoadingSkeleton } from '../../../components/ui';
+import { useGetSpendingAnalyticsQuery } from '../services/analyticsApi';
+import { useGetPreferencesQuery } from '../../user/services/userApi';
+import { ANALYTICS_TEXT } from '../constants';
+import { AnalyticsPeriodEnum, type AnalyticsBreakdownRow, type WalletColorVariant } from '../types';
+import { fillMonthlySeries, getAnalyticsPeriodRange, getMonthOverMonth, getNetCashFlow } from '../utils/analytics';
+import { formatCurrency } from '../utils/formatters';
+import { DEFAULT_CURRENCY } from '../../../utils/currency';
+import { toMajorUnits } from '../../../utils/money';
+import { getReferenceTypeIcon, getReferenceTypeLabel } from '../utils/transactionHelpers';
+
+/** A headline total with its monthly trend */
+interface PeriodTotal {
+    label: string;
+    amount: number;
+    /** Monthly values for the mini chart, oldest first */
+    series: number[];
+    colorVariant: WalletColorVariant;
+    /** Text color class for the amount */
+    color: string;
+}
+
+/**
+ * Analytics Page
+ * Income vs spending over a selectable period, broken down by category,
+ * wallet and counterparty, with a month-over-month comparison.
+ */
+export const AnalyticsPage = () => {
+    const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+    const [period, setPeriod] = useState<AnalyticsPeriodEnum>(AnalyticsPeriodEnum.SIX_MONTHS);
+
+    // Every amount is converted into one base currency, so wallets in different currencies can be added up
+    const { data: preferences, isLoading: isLoadingPreferences } = useGetPreferencesQuery();
+    const baseCurrency = preferences?.defaultCurrency ?? DEFAULT_CURRENCY;
+
+    // Recomputed per period and currency only, so the cache key stays stable across renders
+    const params = useMemo(
+        () => ({ ...getAnalyticsPeriodRange(period), currency: baseCurrency }),
+        [period, baseCurrency]
+    );
+    const {
+        data: analytics,
+        isLoading: isLoadingAnalytics,
+        isFetching,
+        isError,
+        refetch,
+    } = useGetSpendingAnalyticsQuery(params, { skip: isLoadingPreferences });
+    const isLoading = isLoadingPreferences || isLoadingAnalytics;
+
+    const monthlySeries = useMemo(
+        () => fillMonthlySeries(analytics?.monthly ?? [], period),
+        [analytics, period]
+    );
+    const comparison = getMonthOverMonth(monthlySeries);
+    const currency = analytics?.currency;
+
+    const categoryRows: AnalyticsBreakdownRow[] = analytics?.byReferenceType.map((entry) => ({
+        id: entry.referenceType,
+        label: getReferenceTypeLabel(entry.referenceType),
+        icon: getReferenceTypeIcon(entry.referenceType),
+        amount: entry.spending,
+        transactionCount: entry.transactionCount,
+    })) ?? [];
+
+    const walletRows: AnalyticsBreakdownRow[] = analytics?.byWallet.map((entry) => ({
+        id: entry.walletId,
+        label: entry.walletName,
+        icon: 'account_balance_wallet',
+        amount: entry.spending,
+        transactionCount: entry.transactionCount,
+    })) ?? [];
+
+    const counterpartyRows: AnalyticsBreakdownRow[] = analytics?.topCounterparties.map((entry) => ({
+        id: entry.name,
+        label: entry.name,
+        icon: 'person',
+        amount: entry.spending,
+        transactionCount: entry.transactionCount,
+    })) ?? [];
+
+    const net = analytics && currency ? getNetCashFlow(analytics.income, analytics.spending, currency) : null;
+
+    const totals: PeriodTotal[] = analytics && currency && net
+        ? [
+            {
+                label: ANALYTICS_TEXT.INCOME,
+                amount: analytics.income,
+                series: monthlySeries.map((entry) => entry.income),
+                colorVariant: 'emerald',
+                color: 'text-emerald-400',
+            },
+            {
+                label: ANALYTICS_TEXT.SPENDING,
+                amount: analytics.spending,
+                series: monthlySeries.map((entry) => entry.spending),
+                colorVariant: 'orange',
+                color: 'text-red-400',
+            },
+            {
+                label: ANALYTICS_TEXT.NET,
+                amount: toMajorUnits(net),
+                series: monthlySeries.map((entry) =>
+                    Math.max(0, toMajorUnits(getNetCashFlow(entry.income, entry.spending, currency)))
+                ),
+                colorVariant: 'blue',
+                color: net.minor >= 0 ? 'text-white' : 'text-red-400',
+            },
+        ]
+        : [];
+
+    return (
+        <div className="flex h-screen w-full overflow-hidden">
+            {/* Sidebar */}
+            <Sidebar
+                isOpen={isSidebarOpen}
+                onClose={() => setIsSidebarOpen(false)}
+                currentPath="/analytics"
+            />
+
+            {/* Main Content */}
+            <main className="flex-1 flex flex-col h-full overflow-y-auto bg-[#0a0f1a]">
+                {/* Mobile Header */}
+                <MobileHeader onMenuClick={() => setIsSidebarOpen(true)} />
+
+                {/* Page Content */}
+                <div className="container mx-auto max-w-6xl px-4 md:px-8 py-8 flex flex-col gap-6">
+                    {/* Header */}
+                    <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+                        <div className="flex flex-col gap-1">
+                            <h1 className="text-2xl font-bold text-white">{ANALYTICS_TEXT.PAGE_TITLE}</h1>
+                            <p className="text-sm text-slate-400">{ANALYTICS_TEXT.PAGE_DESCRIPTION}</p>
+                            <p className="text-xs text-slate-500">{ANALYTICS_TEXT.CONVERTED_NOTE(baseCurrency)}</p>
+                        </div>
+                        <div className="flex bg-slate-800 p-0.5 rounded-lg self-start sm:self-auto">
+                            {Object.values(AnalyticsPeriodEnum).map((option) => (
+                                <button
+                                    key={option}
+                                    onClick={() => setPeriod(option)}
+                                    aria-pressed={period === option}
+                                    className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-all ${period === option
+                                        ? 'bg-slate-700 text-white'
+                                        : 'text-slate-500 hover:text-slate-300'
+                                        }`}
+                                >
+                                    {ANALYTICS_TEXT.PERIODS[option]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {isLoading ? (
+                        <div className="flex flex-col gap-6">
+                            <LoadingSkeleton variant="card" height="120px" />
+                            <LoadingSkeleton variant="card" height="280px" />
+                        </div>
+                    ) : isError || !analytics || !currency ? (
+                        <Card variant="dark" className="flex flex-col items-start gap-3">
+                            <p className="text-sm text-red-400">{ANALYTICS_TEXT.LOAD_ERROR}</p>
+                            <Button variant="secondary" size="sm" leftIcon="refresh" onClick={() => refetch()}>
+                                {ANALYTICS_TEXT.RETRY}
+                            </Button>
+                        </Card>
+                    ) : (
+                        <div className={`flex flex-col gap-6 transition-opacity ${isFetching ? 'opacity-60' : ''}`}>
+                            {/* Totals */}
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                {totals.map((total) => (
+                                    <Card key={total.label} variant="dark" className="flex flex-col gap-2">
+                                        <span className="text-slate-400 text-sm font-medium">{total.label}</span>
+                                        <span className={`text-2xl font-bold ${total.color}`}>
+                                            {total.amount < 0 ? '- ' : ''}{formatCurrency(total.amount, currency)}
+                                        </span>
+                                        <MiniBarChart
+                                            data={total.series.map((value) => ({ value }))}
+                                            colorVariant={total.colorVariant}
+                                        />
+                                    </Card>
+                                ))}
+                            </div>
+
+                            {/* Cash flow and month over month */}
+                            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                                <div className="lg:col-span-2">
+                                    <CashFlowChart data={monthlySeries} currency={currency} />
+                                </div>
+                                {comparison && <MonthOverMonthCard comparison={comparison} currency={currency} />}
+                            </div>
+
+                            {/* Breakdowns */}
+                            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                                <AnalyticsBreakdownCard
+                                    title={ANALYTICS_TEXT.BY_CATEGORY_TITLE}
+                                    rows={categoryRows}
+                                    currency={currency}
+                                />
+                                <AnalyticsBreakdownCard
+                                    title={ANALYTICS_TEXT.BY_WALLET_TITLE}
+                                    rows={walletRows}
+                                    currency={currency}
+                                />
+                                <AnalyticsBreakdownCard
+                                    title={ANALYTICS_TEXT.TOP_COUNTERPARTIES_TITLE}
+                                    rows={counterpartyRows}
+                                    currency={currency}
+                                />
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+};
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BulkTransferPage } from './BulkTransferPage';
+import type { TransferRequest } from '../types';
+
+// Mock RTK Query hooks
+const mockTransferMutation = vi.fn();
+const mockGetMfaStatusQuery = vi.fn();
+
+vi.mock('../services/walletApi', () => ({
+    useGetWalletQuery: () => ({
+        data: [{ walletId: 'wallet-1', name: 'Personal Wallet', balance: 5000, currency: 'SGD' }],
+    }),
+    useTransferMutation: () => [mockTransferMutation],
+}));
+
+vi.mock('../../user/services/userApi', () => ({
+    useGetMfaStatusQuery: () => mockGetMfaStatusQuery(),
+}));
+
+// Mock layout components that are not relevant to sending
+vi.mock('../components', () => ({
+    MobileHeader: () => null,
+    Sidebar: () => null,
+}));
+
+// Accepts any code, so the tests only cover when the code is asked for and where the token goes
+vi.mock('../../auth/components/StepUpModal', () => ({
+    StepUpModal: ({ isOpen, onVerified }: { isOpen: boolean; onVerified: (stepUpToken: string) => void }) =>
+        isOpen ? <button onClick={() => onVerified('step-up-token')}>Verify code</button> : null,
+}));
+
+/**
+ * Uploads a CSV with one SGD transfer per amount
+ * @param amounts - Amount of each row
+ */
+const uploadRows = async (amounts: string[]) => {
+    const user = userEvent.setup();
+    const { container } = render(<BulkTransferPage />);
+
+    const csv = ['email,amount,currency', ...amounts.map((amount, index) => `friend${index}@example.com,${amount},SGD`)]
+        .join('\n');
+    const file = new File([csv], 'transfers.csv', { type: 'text/csv' });
+    // jsdom files cannot be read with text()
+    Object.defineProperty(file, 'text', { value: () => Promise.resolve(csv) });
+    await user.upload(container.querySelector('input[type="file"]') as HTMLInputElement, file);
+    return user;
+};
+
+describe('BulkTransferPage', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockGetMfaStatusQuery.mockReturnValue({ data: { enabled: true, enabledAt: null, backupCodesRemaining: 10 } });
+        mockTransferMutation.mockImplementation((request: TransferRequest) => ({
+            unwrap: () => Promise.resolve({ payerTransactionReference: `ref-${request.recipientEmail}` }),
+        }));
+    });
+
+    describe('Step-up Verification', () => {
+        it('should ask for a code when rows below the threshold add up to more than it', async () => {
+            const user = await uploadRows(['600.00', '600.00']);
+
+            await user.click(await screen.findByRole('button', { name: /Send 2 Transfers/ }));
+            const verifyButton = await screen.findByRole('button', { name: 'Verify code' });
+            expect(mockTransferMutation).not.toHaveBeenCalled();
+
+            await user.click(verifyButton);
+
+            await waitFor(() => expect(mockTransferMutation).toHaveBeenCalledTimes(2));
+            mockTransferMutation.mock.calls.forEach(([request]) => {
+                expect(request).toEqual(expect.objectContaining({ stepUpToken: 'step-up-token' }));
+            });
+        });
+
+        it('should send nothing when the code is not entered', async () => {
+            const user = await uploadRows(['1500.00']);
+
+            await user.click(await screen.findByRole('button', { name: /Send 1 Transfer/ }));
+            expect(await screen.findByRole('button', { name: 'Verify code' })).toBeInTheDocument();
+            expect(mockTransferMutation).not.toHaveBeenCalled();
+            expect(screen.getByRole('button', { name: /Send 1 Transfer/ })).toBeInTheDocument();
+        });
+
+        it('should send a batch within the threshold without a code', async () => {
+            const user = await uploadRows(['200.00', '300.00']);
+
+            await user.click(await screen.findByRole('button', { name: /Send 2 Transfers/ }));
+
+            await waitFor(() => expect(mockTransferMutation).toHaveBeenCalledTimes(2));
+            expect(screen.queryByRole('button', { name: 'Verify code' })).not.toBeInTheDocument();
+            mockTransferMutation.mock.calls.forEach(([request]) => {
+                expect(request.stepUpToken).toBeUndefined();
+            });
+        });
+
+        it('should keep sending disabled while the two-factor settings are unknown', async () => {
+            mockGetMfaStatusQuery.mockReturnValue({ data: undefined, isError: true });
+            await uploadRows(['200.00']);
+
+            expect(await screen.findByRole('button', { name: /Send 1 Transfer/ })).toBeDisabled();
+            expect(screen.getByText('Security check unavailable')).toBeInTheDocument();
+        });
+    });
+});
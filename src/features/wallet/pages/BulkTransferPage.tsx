@@ -0,0 +1,483 @@
+import { useState, type ChangeEvent } from 'react';
+import { Alert, Button, StatusBadge } from '../../../components/ui';
+import type { StatusVariant } from '../../../components/ui/StatusBadge';
+import { MobileHeader, Sidebar } from '../components';
+import { BULK_TRANSFER_TEXT } from '../constants/text';
+import { useGetWalletQuery, useTransferMutation } from '../services/walletApi';
+import { useGetMfaStatusQuery } from '../../user/services/userApi';
+import { StepUpModal } from '../../auth/components/StepUpModal';
+import {
+    BULK_TRANSFER_CONCURRENCY,
+    buildBulkTransferReport,
+    buildBulkTransferReportFilename,
+    buildBulkTransferTemplate,
+    canSubmitBulkTransfer,
+    getBulkTransferSummary,
+    getBulkTransferTotal,
+    parseBulkTransferCsv,
+    validateBulkTransferRows,
+} from '../utils/bulkTransfers';
+import { requiresStepUp } from '../utils/stepUp';
+import { downloadFile, EXPORT_MIME_TYPES } from '../utils/transactionExport';
+import { formatCurrency } from '../utils/formatters';
+import { DEFAULT_CURRENCY } from '../../../utils/currency';
+import { formatMoneyValue, parseMoney, toMajorUnits, toMoney, zeroMoney } from '../../../utils/money';
+import { mapWithConcurrency } from '../../../utils/concurrency';
+import { createIdempotencyKey } from '../../../utils/idempotency';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import {
+    BulkTransferRowStatusEnum,
+    ExportFormat,
+    type BulkTransferResult,
+    type BulkTransferRow,
+    type CurrencyEnum,
+} from '../types';
+
+/** Badge colour for each row status */
+const STATUS_VARIANTS: Record<BulkTransferRowStatusEnum, StatusVariant> = {
+    QUEUED: 'info',
+    SENDING: 'pending',
+    SUCCESS: 'success',
+    FAILED: 'failed',
+};
+
+/** Table header cell styles matching the transaction table */
+const headerCellClass = 'px-4 py-3 text-xs font-semibold uppercase tracking-wider text-[#8fa6cc]';
+
+/**
+ * Bulk Transfer Page
+ * Reads transfers from an uploaded CSV, checks every row against the transfer
+ * rules and the source wallet balance, then sends them a few at a time and
+ * reports the outcome of each row. Failed rows can be retried with their
+ * original idempotency key, so a row is never paid twice. A batch whose total
+ * is above the step-up threshold needs a two-factor code before it is sent.
+ */
+export const BulkTransferPage = () => {
+    const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+    const [selectedWalletId, setSelectedWalletId] = useState<string | null>(null);
+    const [rows, setRows] = useState<BulkTransferRow[] | null>(null);
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [fileError, setFileError] = useState<string | null>(null);
+    const [results, setResults] = useState<BulkTransferResult[] | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    // Rows waiting for a two-factor code because together they are above the step-up threshold
+    const [pendingStepUp, setPendingStepUp] = useState<BulkTransferResult[] | null>(null);
+    // Changing the key clears the file input so the same file can be picked again
+    const [fileInputKey, setFileInputKey] = useState(0);
+
+    // RTK Query hooks
+    const { data: walletData } = useGetWalletQuery();
+    const [transfer] = useTransferMutation();
+    const { data: mfaStatus, isError: isMfaStatusError } = useGetMfaStatusQuery();
+
+    const wallets = walletData ?? [];
+    const sourceWallet = wallets.find((wallet) => wallet.walletId === selectedWalletId) ?? wallets[0] ?? null;
+    const currency = sourceWallet?.currency ?? DEFAULT_CURRENCY;
+    const balance = sourceWallet?.balance ?? 0;
+
+    const checks = rows ? validateBulkTransferRows(rows, balance, currency) : [];
+    const summary = getBulkTransferSummary(checks, balance, currency);
+    const exceedsBalance = summary.remaining.minor < 0;
+
+    const sentCount = results?.filter((result) => result.status === BulkTransferRowStatusEnum.SUCCESS).length ?? 0;
+    const failedCount = results?.filter((result) => result.status === BulkTransferRowStatusEnum.FAILED).length ?? 0;
+
+    /**
+     * Reads the chosen CSV file into rows
+     */
+    const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        setFileError(null);
+        setFileName(file.name);
+        try {
+            setRows(parseBulkTransferCsv(await file.text()));
+        } catch (err) {
+            setRows(null);
+            setFileError(getApiErrorMessage(err, BULK_TRANSFER_TEXT.DEFAULT_ERROR));
+        }
+    };
+
+    /**
+     * Updates one row's submission state
+     * @param rowNumber - The row to update
+     * @param changes - New state values
+     */
+    const updateResult = (rowNumber: number, changes: Partial<BulkTransferResult>) => {
+        setResults((current) =>
+            current?.map((result) => (result.row.rowNumber === rowNumber ? { ...result, ...changes } : result)) ?? null
+        );
+    };
+
+    /**
+     * Sends the given rows, at most {@link BULK_TRANSFER_CONCURRENCY} at a time
+     * Each row reports its own outcome, so one failure does not stop the others
+     * @param targets - Rows to send
+     * @param stepUpToken - Proof of a two-factor check, for batches above the step-up threshold
+     */
+    const sendRows = async (targets: BulkTransferResult[], stepUpToken?: string) => {
+        if (!sourceWallet) return;
+        setIsSubmitting(true);
+
+        await mapWithConcurrency(targets, BULK_TRANSFER_CONCURRENCY, async ({ row, idempotencyKey }) => {
+            updateResult(row.rowNumber, { status: BulkTransferRowStatusEnum.SENDING, error: null });
+            try {
+                const response = await transfer({
+                    payerWalletId: sourceWallet.walletId,
+                    recipientEmail: row.email,
+                    amount: toMajorUnits(parseMoney(row.amount, currency) ?? zeroMoney(currency)),
+                    currency: currency as CurrencyEnum,
+                    note: row.note || undefined,
+                    idempotencyKey,
+                    stepUpToken,
+                }).unwrap();
+                updateResult(row.rowNumber, {
+                    status: BulkTransferRowStatusEnum.SUCCESS,
+                    reference: response.payerTransactionReference,
+                });
+            } catch (err) {
+                updateResult(row.rowNumber, {
+                    status: BulkTransferRowStatusEnum.FAILED,
+                    error: getApiErrorMessage(err, BULK_TRANSFER_TEXT.DEFAULT_ERROR),
+                });
+            }
+        });
+
+        setIsSubmitting(false);
+    };
+
+    /**
+     * Marks the rows as queued and sends them
+     * @param targets - New rows, or failed rows being retried
+     * @param stepUpToken - Proof of a two-factor check, for batches above the step-up threshold
+     */
+    const startSending = (targets: BulkTransferResult[], stepUpToken?: string) => {
+        const queued = new Set(targets.map(({ row }) => row.rowNumber));
+        setResults((current) =>
+            current?.map((result) =>
+                queued.has(result.row.rowNumber) ? { ...result, status: BulkTransferRowStatusEnum.QUEUED } : result
+            ) ?? targets
+        );
+        sendRows(targets, stepUpToken);
+    };
+
+    /**
+     * Sends the rows, first asking for a two-factor code when their total is above the step-up threshold
+     * The total is checked rather than each row, so splitting a large payment into small rows still needs a code
+     * @param targets - Rows to send
+     */
+    const confirmAndSend = (targets: BulkTransferResult[]) => {
+        if (!mfaStatus) return;
+        const total = getBulkTransferTotal(targets.map(({ row }) => row), currency);
+        if (requiresStepUp(total, mfaStatus.enabled)) {
+            setPendingStepUp(targets);
+            return;
+        }
+        startSending(targets);
+    };
+
+    /**
+     * Queues every row with its own idempotency key and sends them
+     */
+    const handleSubmit = () => {
+        if (!rows) return;
+        confirmAndSend(rows.map((row) => ({
+            row,
+            idempotencyKey: createIdempotencyKey(),
+            status: BulkTransferRowStatusEnum.QUEUED,
+            reference: null,
+            error: null,
+        })));
+    };
+
+    /**
+     * Sends the failed rows again, keeping their idempotency keys
+     */
+    const handleRetryFailed = () => {
+        confirmAndSend(results?.filter((result) => result.status === BulkTransferRowStatusEnum.FAILED) ?? []);
+    };
+
+    /**
+     * Sends the rows that were waiting for step-up verification
+     * @param stepUpToken - Token from the accepted code
+     */
+    const handleStepUpVerified = (stepUpToken: string) => {
+        const targets = pendingStepUp;
+        setPendingStepUp(null);
+        if (targets) startSending(targets, stepUpToken);
+    };
+
+    /**
+     * Clears the file and results to start another batch
+     */
+    const handleReset = () => {
+        setRows(null);
+        setResults(null);
+        setFileName(null);
+        setFileError(null);
+        setFileInputKey((key) => key + 1);
+    };
+
+    /**
+     * Renders the preview of uploaded rows before they are sent
+     */
+    const renderPreview = () => (
+        <>
+            {/* Totals */}
+            <section className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                {[
+                    { label: BULK_TRANSFER_TEXT.ROWS, value: checks.length.toString() },
+                    { label: BULK_TRANSFER_TEXT.VALID, value: summary.validCount.toString() },
+                    { label: BULK_TRANSFER_TEXT.INVALID, value: summary.invalidCount.toString() },
+                    { label: BULK_TRANSFER_TEXT.TOTAL, value: formatMoneyValue(summary.total) },
+                    { label: BULK_TRANSFER_TEXT.BALANCE_AFTER, value: formatMoneyValue(summary.remaining) },
+                ].map((stat) => (
+                    <div key={stat.label} className="p-4 bg-[#161E2C] border border-slate-700 rounded-xl">
+                        <p className="text-xs text-slate-400">{stat.label}</p>
+                        <p className="text-lg font-bold text-white truncate">{stat.value}</p>
+                    </div>
+                ))}
+            </section>
+
+            {summary.invalidCount > 0 && (
+                <Alert variant="error" title={BULK_TRANSFER_TEXT.FIX_ROWS(summary.invalidCount)} />
+            )}
+            {exceedsBalance && (
+                <Alert
+                    variant="warning"
+                    title={BULK_TRANSFER_TEXT.EXCEEDS_BALANCE(formatMoneyValue(toMoney(balance, currency)))}
+                />
+            )}
+
+            {/* Rows */}
+            <div className="overflow-x-auto max-h-[28rem] overflow-y-auto bg-[#161E2C] border border-slate-700 rounded-xl">
+                <table className="w-full text-left border-collapse">
+                    <thead className="sticky top-0">
+                        <tr className="bg-[#182334] border-b border-[#304669]">
+                            <th className={headerCellClass}>{BULK_TRANSFER_TEXT.COLUMNS.ROW}</th>
+                            <th className={headerCellClass}>{BULK_TRANSFER_TEXT.COLUMNS.EMAIL}</th>
+                            <th className={`${headerCellClass} text-right`}>{BULK_TRANSFER_TEXT.COLUMNS.AMOUNT}</th>
+                            <th className={headerCellClass}>{BULK_TRANSFER_TEXT.COLUMNS.NOTE}</th>
+                            <th className={headerCellClass}>{BULK_TRANSFER_TEXT.COLUMNS.STATUS}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-700/50">
+                        {checks.map((check) => (
+                            <tr key={check.rowNumber} className="text-sm text-white">
+                                <td className="px-4 py-3 text-slate-400">{check.rowNumber}</td>
+                                <td className="px-4 py-3 truncate max-w-[14rem]">{check.email}</td>
+                                <td className="px-4 py-3 text-right whitespace-nowrap">{`${check.amount} ${check.currency}`}</td>
+                                <td className="px-4 py-3 text-slate-400 truncate max-w-[12rem]">{check.note}</td>
+                                <td className="px-4 py-3">
+                                    {check.error ? (
+                                        <span className="text-xs text-red-400">{check.error}</span>
+                                    ) : (
+                                        <StatusBadge variant="success" label={BULK_TRANSFER_TEXT.READY} size="sm" />
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex justify-end gap-3">
+                <Button variant="secondary" onClick={handleReset}>
+                    {BULK_TRANSFER_TEXT.CLEAR}
+                </Button>
+                <Button
+                    leftIcon="send"
+                    disabled={!sourceWallet || !mfaStatus || !canSubmitBulkTransfer(summary)}
+                    onClick={handleSubmit}
+                >
+                    {BULK_TRANSFER_TEXT.SEND(summary.validCount)}
+                </Button>
+            </div>
+        </>
+    );
+
+    /**
+     * Renders each row's outcome once the batch has been submitted
+     * @param submitted - Submission state of every row
+     */
+    const renderResults = (submitted: BulkTransferResult[]) => (
+        <>
+            <section className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-[#161E2C] border border-slate-700 rounded-xl">
+                <div className="flex flex-col gap-1">
+                    <p className="text-white font-semibold">
+                        {BULK_TRANSFER_TEXT.PROGRESS(sentCount + failedCount, submitted.length)}
+                    </p>
+                    <p className="text-sm text-slate-400">{BULK_TRANSFER_TEXT.RESULT_COUNTS(sentCount, failedCount)}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <Button
+                        variant="secondary"
+                        size="sm"
+                        leftIcon="download"
+                        disabled={isSubmitting}
+                        onClick={() => downloadFile(
+                            buildBulkTransferReport(submitted),
+                            buildBulkTransferReportFilename(),
+                            EXPORT_MIME_TYPES[ExportFormat.CSV]
+                        )}
+                    >
+                        {BULK_TRANSFER_TEXT.DOWNLOAD_REPORT}
+                    </Button>
+                    {failedCount > 0 && (
+                        <Button size="sm" leftIcon="refresh" disabled={isSubmitting || !mfaStatus} onClick={handleRetryFailed}>
+                            {BULK_TRANSFER_TEXT.RETRY_FAILED(failedCount)}
+                        </Button>
+                    )}
+                    <Button variant="ghost" size="sm" disabled={isSubmitting} onClick={handleReset}>
+                        {BULK_TRANSFER_TEXT.NEW_BATCH}
+                    </Button>
+                </div>
+            </section>
+
+            <div className="overflow-x-auto max-h-[28rem] overflow-y-auto bg-[#161E2C] border border-slate-700 rounded-xl">
+                <table className="w-full text-left border-collapse">
+                    <thead className="sticky top-0">
+                        <tr className="bg-[#182334] border-b border-[#304669]">
+                            <th className={headerCellClass}>{BULK_TRANSFER_TEXT.COLUMNS.ROW}</th>
+                            <th className={headerCellClass}>{BULK_TRANSFER_TEXT.COLUMNS.EMAIL}</th>
+                            <th className={`${headerCellClass} text-right`}>{BULK_TRANSFER_TEXT.COLUMNS.AMOUNT}</th>
+                            <th className={headerCellClass}>{BULK_TRANSFER_TEXT.COLUMNS.STATUS}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-700/50">
+                        {submitted.map(({ row, status, reference, error }) => (
+                            <tr key={row.rowNumber} className="text-sm text-white">
+                                <td className="px-4 py-3 text-slate-400">{row.rowNumber}</td>
+                                <td className="px-4 py-3 truncate max-w-[14rem]">{row.email}</td>
+                                <td className="px-4 py-3 text-right whitespace-nowrap">
+                                    {formatCurrency(toMajorUnits(parseMoney(row.amount, currency) ?? zeroMoney(currency)), currency)}
+                                </td>
+                                <td className="px-4 py-3">
+                                    <div className="flex flex-col gap-1">
+                                        <StatusBadge
+                                            variant={STATUS_VARIANTS[status]}
+                                            label={BULK_TRANSFER_TEXT.STATUSES[status]}
+                                            size="sm"
+                                        />
+                                        {reference && <span className="font-mono text-xs text-slate-400">{reference}</span>}
+                                        {error && <span className="text-xs text-red-400">{error}</span>}
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </>
+    );
+
+    return (
+        <div className="flex h-screen w-full overflow-hidden">
+            {/* Sidebar */}
+            <Sidebar
+                isOpen={isSidebarOpen}
+                onClose={() => setIsSidebarOpen(false)}
+                currentPath="/transfers/bulk"
+            />
+
+            {/* Main Content */}
+            <main className="flex-1 flex flex-col h-full overflow-y-auto bg-[#0a0f1a]">
+                {/* Mobile Header */}
+                <MobileHeader onMenuClick={() => setIsSidebarOpen(true)} />
+
+                {/* Page Content */}
+                <div className="container mx-auto max-w-5xl px-4 md:px-8 py-8 flex flex-col gap-6">
+                    {/* Header */}
+                    <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+                        <div className="flex flex-col gap-1">
+                            <h1 className="text-2xl font-bold text-white">{BULK_TRANSFER_TEXT.PAGE_TITLE}</h1>
+                            <p className="text-sm text-slate-400">{BULK_TRANSFER_TEXT.PAGE_DESCRIPTION}</p>
+                        </div>
+                        <Button
+                            variant="outline"
+                            leftIcon="download"
+                            onClick={() => downloadFile(
+                                buildBulkTransferTemplate(currency),
+                                BULK_TRANSFER_TEXT.TEMPLATE_FILENAME,
+                                EXPORT_MIME_TYPES[ExportFormat.CSV]
+                            )}
+                        >
+                            {BULK_TRANSFER_TEXT.DOWNLOAD_TEMPLATE}
+                        </Button>
+                    </div>
+
+                    {/* Source Wallet and File */}
+                    <section className="grid grid-cols-1 md:grid-cols-2 gap-4 p-6 bg-[#161E2C] border border-slate-700 rounded-xl">
+                        <div className="space-y-2">
+                            <label htmlFor="bulk-wallet" className="text-sm font-medium text-slate-400 ml-1">
+                                {BULK_TRANSFER_TEXT.WALLET_LABEL}
+                            </label>
+                            {wallets.length === 0 ? (
+                                <p className="text-sm text-slate-400">{BULK_TRANSFER_TEXT.NO_WALLETS}</p>
+                            ) : (
+                                <select
+                                    id="bulk-wallet"
+                                    value={sourceWallet?.walletId ?? ''}
+                                    disabled={results !== null}
+                                    onChange={(event) => setSelectedWalletId(event.target.value)}
+                                    className="w-full bg-white/5 border border-white/10 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 rounded-xl py-3 px-4 text-white transition-all outline-none disabled:opacity-50"
+                                >
+                                    {wallets.map((wallet) => (
+                                        <option key={wallet.walletId} value={wallet.walletId} className="bg-slate-800">
+                                            {`${wallet.name} (${formatCurrency(wallet.balance, wallet.currency)})`}
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <span className="text-sm font-medium text-slate-400 ml-1">{BULK_TRANSFER_TEXT.FILE_LABEL}</span>
+                            <label
+                                className={`flex items-center gap-3 w-full bg-white/5 border border-dashed border-white/20 hover:border-blue-500 rounded-xl py-3 px-4 transition-all ${results ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}
+                            >
+                                <span className="material-symbols-outlined text-blue-400">upload_file</span>
+                                <span className="text-sm text-white truncate">{fileName ?? BULK_TRANSFER_TEXT.CHOOSE_FILE}</span>
+                                <input
+                                    key={fileInputKey}
+                                    type="file"
+                                    accept=".csv,text/csv"
+                                    className="sr-only"
+                                    disabled={results !== null}
+                                    onChange={handleFileChange}
+                                />
+                            </label>
+                            <p className="text-xs text-slate-500 ml-1">{BULK_TRANSFER_TEXT.FILE_HINT}</p>
+                        </div>
+                    </section>
+
+                    {fileError && (
+                        <Alert
+                            variant="error"
+                            title={BULK_TRANSFER_TEXT.READ_FAILED}
+                            message={fileError}
+                            onDismiss={() => setFileError(null)}
+                        />
+                    )}
+                    {isMfaStatusError && (
+                        <Alert
+                            variant="error"
+                            title={BULK_TRANSFER_TEXT.MFA_STATUS_ERROR_TITLE}
+                            message={BULK_TRANSFER_TEXT.MFA_STATUS_ERROR}
+                        />
+                    )}
+
+                    {results ? renderResults(results) : rows && renderPreview()}
+                </div>
+            </main>
+
+            {/* Step-up Verification */}
+            <StepUpModal
+                isOpen={pendingStepUp !== null}
+                onClose={() => setPendingStepUp(null)}
+                amountLabel={formatMoneyValue(getBulkTransferTotal((pendingStepUp ?? []).map(({ row }) => row), currency))}
+                onVerified={handleStepUpVerified}
+            />
+        </div>
+    );
+};
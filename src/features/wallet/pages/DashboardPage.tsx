@@ -9,10 +9,13 @@ import { MonthlySummaryCard } from '../components/MonthlySummaryCard';
 import { QuickActionButton } from '../components/QuickActionButton';
 import { TransactionTable } from '../components/TransactionTable';
 import { TopUpModal } from '../components/TopUpModal';
+import { UpcomingTransfersCard } from '../components/UpcomingTransfersCard';
 import { LoadingSkeleton } from '../../../components/ui/LoadingSkeleton';
 import { APP_NAME, DASHBOARD_TEXT, QUICK_ACTIONS, QUICK_ACTION_ICONS } from '../constants/text';
 import { useGetWalletQuery, useGetMonthlySummaryQuery, useGetRecentTransactionsQuery } from '../services/walletApi';
 import { useGetUserDetailsQuery } from '../../user/services/userApi';
+import { DEFAULT_CURRENCY } from '../../../utils/currency';
+import { sumByCurrency, toMajorUnits, zeroMoney } from '../../../utils/money';
 
 /**
  * Maps backend WalletTransactionStatusEnum to UI TransactionStatus
@@ -52,7 +55,7 @@ const mapActivityToTransaction = (item: ActivityItem): Transaction => ({
     date: item.datetime,
     description: item.description,
     amount: item.isCredit ? item.amount : -item.amount,
-    currency: 'SGD', // Default currency
+    currency: item.currency,
     status: mapStatus(item.status),
     type: mapTransactionType(item),
 });
@@ -76,8 +79,10 @@ export const DashboardPage = () => {
     // Get the primary wallet (first wallet in the array)
     const wallet = wallets?.[0];
 
-    // Calculate total balance across all wallets
-    const totalBalance = wallets?.reduce((sum, w) => sum + w.balance, 0) ?? 0;
+    // Total balance per currency, starting with the primary wallet's; balances in different currencies are not added up
+    const [primaryTotal = zeroMoney(wallet?.currency ?? DEFAULT_CURRENCY), ...otherTotals] = sumByCurrency(
+        wallets?.map((w) => ({ amount: w.balance, currency: w.currency })) ?? []
+    );
 
     // Map API activity items to UI transaction format
     const transactions: Transaction[] = recentActivity?.map(mapActivityToTransaction) ?? [];
@@ -141,8 +146,9 @@ export const DashboardPage = () => {
                             <>
                                 <BalanceCard
                                     title={DASHBOARD_TEXT.AVAILABLE_BALANCE}
-                                    amount={totalBalance}
-                                    currency={wallet.currency}
+                                    amount={toMajorUnits(primaryTotal)}
+                                    currency={primaryTotal.currency}
+                                    otherTotals={otherTotals}
                                     variant="available"
                                 />
                                 <MonthlySummaryCard
@@ -165,6 +171,9 @@ export const DashboardPage = () => {
                         </button>
                     </div>
 
+                    {/* Upcoming Scheduled Transfers */}
+                    <UpcomingTransfersCard />
+
                     {/* Recent Transactions */}
                     <div className="flex flex-col gap-4">
                         <div className="flex items-center justify-between px-1">
@@ -0,0 +1,438 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm, Controller, type Resolver } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Sidebar, MobileHeader, ExchangeProcessingModal, ExchangeSuccessModal } from '../components';
+import { Alert, AmountInput, LoadingSkeleton } from '../../../components/ui';
+import { createExchangeSchema, type ExchangeFormData } from '../../../schemas';
+import { useGetWalletQuery } from '../services/walletApi';
+import { useCreateExchangeQuoteMutation, useExecuteExchangeMutation } from '../services/exchangeApi';
+import { useCountdown } from '../hooks/useCountdown';
+import { formatCountdown, formatCurrency, formatExchangeRate } from '../utils/formatters';
+import { DEFAULT_CURRENCY } from '../../../utils/currency';
+import { parseMoney, toMajorUnits, zeroMoney } from '../../../utils/money';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import { EXCHANGE_TEXT, ICONS } from '../constants';
+import type { ExchangeQuoteResponse, ExchangeResponse } from '../types';
+
+/** Minimum time (ms) to show the processing modal for better UX */
+const MIN_PROCESSING_TIME_MS = 2000;
+
+/** A quote together with the form values it was requested for */
+interface QuoteState {
+    values: ExchangeFormData;
+    quote: ExchangeQuoteResponse;
+}
+
+/** Error shown above the exchange form */
+interface ExchangeError {
+    title: string;
+    message: string;
+}
+
+/**
+ * Currency Exchange Page
+ * Exchanges funds between two of the user's wallets in different currencies.
+ * The user requests a quote, which locks the rate until it expires, then confirms it.
+ */
+export const ExchangePage = () => {
+    const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+    const [quoteState, setQuoteState] = useState<QuoteState | null>(null);
+    const [error, setError] = useState<ExchangeError | null>(null);
+    const [exchangeResult, setExchangeResult] = useState<ExchangeResponse | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [showSuccess, setShowSuccess] = useState(false);
+
+    // Track completion conditions for hybrid approach (min time + API complete)
+    const [isApiComplete, setIsApiComplete] = useState(false);
+    const [isMinTimeElapsed, setIsMinTimeElapsed] = useState(false);
+
+    // RTK Query hooks
+    const { data: wallets, isLoading: isLoadingWallets } = useGetWalletQuery();
+    const [createExchangeQuote, { isLoading: isQuoting }] = useCreateExchangeQuoteMutation();
+    const [executeExchange] = useExecuteExchangeMutation();
+
+    /**
+     * Validates against the balance and currency of whichever source wallet is selected
+     */
+    const resolver = useCallback<Resolver<ExchangeFormData>>((values, context, options) => {
+        const source = wallets?.find((wallet) => wallet.walletId === values.sourceWalletId);
+        const schema = createExchangeSchema(source?.balance ?? 0, source?.currency ?? DEFAULT_CURRENCY);
+        return zodResolver(schema)(values, context, options);
+    }, [wallets]);
+
+    const {
+        control,
+        register,
+        handleSubmit,
+        watch,
+        setValue,
+        getValues,
+        formState: { errors },
+    } = useForm<ExchangeFormData>({
+        resolver,
+        defaultValues: {
+            sourceWalletId: '',
+            destinationWalletId: '',
+            amount: '',
+        },
+        mode: 'onBlur',
+    });
+
+    const [sourceWalletId, destinationWalletId, amount] = watch(['sourceWalletId', 'destinationWalletId', 'amount']);
+    const sourceWallet = wallets?.find((wallet) => wallet.walletId === sourceWalletId);
+    const destinationWallet = wallets?.find((wallet) => wallet.walletId === destinationWalletId);
+    const sourceCurrency = sourceWallet?.currency ?? DEFAULT_CURRENCY;
+
+    // Only wallets in a different currency can receive an exchange
+    const destinationOptions = wallets?.filter((wallet) => wallet.currency !== sourceWallet?.currency) ?? [];
+
+    // A quote only applies to the exact values it was requested for
+    const activeQuote = quoteState
+        && quoteState.values.sourceWalletId === sourceWalletId
+        && quoteState.values.destinationWalletId === destinationWalletId
+        && quoteState.values.amount === amount
+        ? quoteState.quote
+        : null;
+    const secondsRemaining = useCountdown(activeQuote?.expiresAt);
+    const isQuoteExpired = activeQuote !== null && secondsRemaining === 0;
+
+    /**
+     * Picks the first wallet in another currency as the destination
+     * @param currency - Currency of the newly selected source wallet
+     */
+    const selectDefaultDestination = useCallback((currency: string | undefined) => {
+        const current = wallets?.find((wallet) => wallet.walletId === getValues('destinationWalletId'));
+        if (current && current.currency !== currency) return;
+        const next = wallets?.find((wallet) => wallet.currency !== currency);
+        setValue('destinationWalletId', next?.walletId ?? '');
+    }, [wallets, getValues, setValue]);
+
+    // Preselect the first wallet and a destination once wallets load
+    useEffect(() => {
+        if (!wallets?.length || getValues('sourceWalletId')) return;
+        setValue('sourceWalletId', wallets[0].walletId);
+        selectDefaultDestination(wallets[0].currency);
+    }, [wallets, getValues, setValue, selectDefaultDestination]);
+
+    // Transition to success when both API and minimum time are complete
+    useEffect(() => {
+        if (isApiComplete && isMinTimeElapsed && isProcessing) {
+            setIsProcessing(false);
+            setShowSuccess(true);
+            setIsApiComplete(false);
+            setIsMinTimeElapsed(false);
+        }
+    }, [isApiComplete, isMinTimeElapsed, isProcessing]);
+
+    /**
+     * Keeps the destination valid when the source wallet changes
+     */
+    const handleSourceChange = () => {
+        const source = wallets?.find((wallet) => wallet.walletId === getValues('sourceWalletId'));
+        selectDefaultDestination(source?.currency);
+    };
+
+    /**
+     * Swaps the source and destination wallets
+     */
+    const handleSwapWallets = () => {
+        if (!destinationWalletId) return;
+        setValue('sourceWalletId', destinationWalletId);
+        setValue('destinationWalletId', sourceWalletId);
+    };
+
+    /**
+     * Requests a quote for the current form values
+     * @param values - Validated form values
+     */
+    const onGetQuote = async (values: ExchangeFormData) => {
+        setError(null);
+
+        // Schema validation guarantees the amount parses in the source currency
+        const sourceAmount = parseMoney(values.amount, sourceCurrency) ?? zeroMoney(sourceCurrency);
+
+        try {
+            const quote = await createExchangeQuote({
+                sourceWalletId: values.sourceWalletId,
+                destinationWalletId: values.destinationWalletId,
+                sourceAmount: toMajorUnits(sourceAmount),
+            }).unwrap();
+            setQuoteState({ values, quote });
+        } catch (err) {
+            setQuoteState(null);
+            setError({ title: EXCHANGE_TEXT.QUOTE_FAILED, message: getApiErrorMessage(err, EXCHANGE_TEXT.DEFAULT_ERROR) });
+        }
+    };
+
+    /**
+     * Executes the active quote
+     */
+    const handleConfirm = async () => {
+        if (!activeQuote || isQuoteExpired) return;
+
+        setError(null);
+        setIsProcessing(true);
+        setIsApiComplete(false);
+        setIsMinTimeElapsed(false);
+
+        // Start minimum time timer
+        setTimeout(() => {
+            setIsMinTimeElapsed(true);
+        }, MIN_PROCESSING_TIME_MS);
+
+        try {
+            const result = await executeExchange({ quoteId: activeQuote.quoteId }).unwrap();
+            setExchangeResult(result);
+            // Mark API as complete - will transition to success when min time also elapses
+            setIsApiComplete(true);
+        } catch (err) {
+            setIsProcessing(false);
+            setIsApiComplete(false);
+            setIsMinTimeElapsed(false);
+            // The quote may have been consumed or expired server-side
+            setQuoteState(null);
+            setError({ title: EXCHANGE_TEXT.EXCHANGE_FAILED, message: getApiErrorMessage(err, EXCHANGE_TEXT.DEFAULT_ERROR) });
+        }
+    };
+
+    /**
+     * Handles processing completion
+     * Transition is handled by the effect watching isApiComplete and isMinTimeElapsed
+     */
+    const handleProcessingComplete = () => {};
+
+    /**
+     * Closes the success modal and clears the completed quote
+     */
+    const handleSuccessClose = () => {
+        setShowSuccess(false);
+        setExchangeResult(null);
+        setQuoteState(null);
+        setValue('amount', '');
+    };
+
+    const selectStyles = 'w-full px-4 py-3 bg-[#101623] border border-[#314368] rounded-xl text-white focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50';
+    const labelStyles = 'text-sm font-medium text-slate-400 ml-1';
+    const rate = activeQuote
+        ? formatExchangeRate(activeQuote.rate, activeQuote.sourceCurrency, activeQuote.destinationCurrency)
+        : '';
+
+    return (
+        <div className="flex h-screen w-full overflow-hidden">
+            {/* Sidebar */}
+            <Sidebar
+                isOpen={isSidebarOpen}
+                onClose={() => setIsSidebarOpen(false)}
+                currentPath="/dashboard/exchange"
+            />
+
+            {/* Main Content */}
+            <main className="flex-1 flex flex-col h-full overflow-y-auto bg-[#0a0f1a]">
+                {/* Mobile Header */}
+                <MobileHeader onMenuClick={() => setIsSidebarOpen(true)} />
+
+                {/* Page Content */}
+                <div className="container mx-auto max-w-5xl px-4 md:px-8 py-8 flex flex-col gap-6">
+                    {/* Header */}
+                    <div className="flex flex-col gap-1">
+                        <h1 className="text-2xl font-bold text-white">{EXCHANGE_TEXT.PAGE_TITLE}</h1>
+                        <p className="text-sm text-slate-400">{EXCHANGE_TEXT.PAGE_DESCRIPTION}</p>
+                    </div>
+
+                    {error && (
+                        <Alert
+                            variant="error"
+                            title={error.title}
+                            message={error.message}
+                            onDismiss={() => setError(null)}
+                        />
+                    )}
+
+                    {isLoadingWallets ? (
+                        <LoadingSkeleton variant="card" height="320px" />
+                    ) : (
+                        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+                            {/* Exchange Form */}
+                            <form
+                                onSubmit={handleSubmit(onGetQuote)}
+                                className="lg:col-span-3 bg-[#161E2C] border border-slate-700 rounded-xl p-6 flex flex-col gap-5"
+                            >
+                                <div className="flex flex-col gap-2">
+                                    <label htmlFor="exchange-source" className={labelStyles}>
+                                        {EXCHANGE_TEXT.FROM_LABEL}
+                                    </label>
+                                    <select
+                                        id="exchange-source"
+                                        className={selectStyles}
+                                        {...register('sourceWalletId', { onChange: handleSourceChange })}
+                                    >
+                                        <option value="">{EXCHANGE_TEXT.SELECT_WALLET}</option>
+                                        {wallets?.map((wallet) => (
+                                            <option key={wallet.walletId} value={wallet.walletId}>
+                                                {EXCHANGE_TEXT.WALLET_OPTION(wallet.name, wallet.currency)}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    {sourceWallet && (
+                                        <p className="text-xs text-blue-500/80 font-medium ml-1">
+                                            {EXCHANGE_TEXT.AVAILABLE(formatCurrency(sourceWallet.balance, sourceWallet.currency))}
+                                        </p>
+                                    )}
+                                    {errors.sourceWalletId && (
+                                        <p className="text-red-400 text-xs ml-1">{errors.sourceWalletId.message}</p>
+                                    )}
+                                </div>
+
+                                <div className="flex justify-center">
+                                    <button
+                                        type="button"
+                                        onClick={handleSwapWallets}
+                                        disabled={!destinationWalletId}
+                                        aria-label={EXCHANGE_TEXT.SWAP_WALLETS}
+                                        className="p-2 rounded-full bg-[#222f49] text-slate-300 hover:text-white hover:bg-[#314368] transition-colors disabled:opacity-50"
+                                    >
+                                        <span className="material-symbols-outlined">swap_vert</span>
+                                    </button>
+                                </div>
+
+                                <div className="flex flex-col gap-2">
+                                    <label htmlFor="exchange-destination" className={labelStyles}>
+                                        {EXCHANGE_TEXT.TO_LABEL}
+                                    </label>
+                                    <select
+                                        id="exchange-destination"
+                                        className={selectStyles}
+                                        disabled={destinationOptions.length === 0}
+                                        {...register('destinationWalletId')}
+                                    >
+                                        <option value="">{EXCHANGE_TEXT.SELECT_WALLET}</option>
+                                        {destinationOptions.map((wallet) => (
+                                            <option key={wallet.walletId} value={wallet.walletId}>
+                                                {EXCHANGE_TEXT.WALLET_OPTION(wallet.name, wallet.currency)}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    {destinationOptions.length === 0 && (
+                                        <p className="text-xs text-slate-400 ml-1">
+                                            {EXCHANGE_TEXT.NO_DESTINATION_WALLETS}{' '}
+                                            <Link to="/wallets" className="text-blue-500 hover:underline">
+                                                {EXCHANGE_TEXT.ADD_WALLET}
+                                            </Link>
+                                        </p>
+                                    )}
+                                    {errors.destinationWalletId && (
+                                        <p className="text-red-400 text-xs ml-1">{errors.destinationWalletId.message}</p>
+                                    )}
+                                </div>
+
+                                <div className="flex flex-col gap-2">
+                                    <label className={labelStyles}>{EXCHANGE_TEXT.AMOUNT_LABEL}</label>
+                                    <Controller
+                                        name="amount"
+                                        control={control}
+                                        render={({ field }) => (
+                                            <AmountInput
+                                                value={field.value}
+                                                onChange={field.onChange}
+                                                currency={sourceCurrency}
+                                            />
+                                        )}
+                                    />
+                                    {errors.amount && (
+                                        <p className="text-red-400 text-xs ml-1">{errors.amount.message}</p>
+                                    )}
+                                </div>
+
+                                <button
+                                    type="submit"
+                                    disabled={isQuoting || destinationOptions.length === 0}
+                                    className="bg-[#222f49] hover:bg-[#314368] text-white font-bold py-3 px-6 rounded-xl transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <span className="material-symbols-outlined text-lg">{ICONS.CURRENCY_EXCHANGE}</span>
+                                    {isQuoting
+                                        ? EXCHANGE_TEXT.GETTING_QUOTE
+                                        : activeQuote ? EXCHANGE_TEXT.REFRESH_QUOTE : EXCHANGE_TEXT.GET_QUOTE}
+                                </button>
+                            </form>
+
+                            {/* Quote */}
+                            <div className="lg:col-span-2 bg-[#161E2C] border border-slate-700 rounded-xl p-6 flex flex-col gap-5">
+                                <h2 className="text-lg font-bold text-white">{EXCHANGE_TEXT.QUOTE_TITLE}</h2>
+
+                                {activeQuote ? (
+                                    <>
+                                        <dl className="flex flex-col gap-3 text-sm">
+                                            <div className="flex justify-between gap-4">
+                                                <dt className="text-slate-400">{EXCHANGE_TEXT.YOU_SEND}</dt>
+                                                <dd className="text-white font-semibold">
+                                                    {formatCurrency(activeQuote.sourceAmount, activeQuote.sourceCurrency)} {activeQuote.sourceCurrency}
+                                                </dd>
+                                            </div>
+                                            <div className="flex justify-between gap-4">
+                                                <dt className="text-slate-400">{EXCHANGE_TEXT.FEE_LABEL}</dt>
+                                                <dd className="text-white">
+                                                    {formatCurrency(activeQuote.fee, activeQuote.sourceCurrency)} {activeQuote.sourceCurrency}
+                                                </dd>
+                                            </div>
+                                            <div className="flex justify-between gap-4">
+                                                <dt className="text-slate-400">{EXCHANGE_TEXT.RATE_LABEL}</dt>
+                                                <dd className="text-white">{rate}</dd>
+                                            </div>
+                                            <div className="flex justify-between gap-4 pt-3 border-t border-slate-700">
+                                                <dt className="text-slate-400">{EXCHANGE_TEXT.YOU_RECEIVE}</dt>
+                                                <dd className="text-green-500 text-lg font-bold">
+                                                    {formatCurrency(activeQuote.destinationAmount, activeQuote.destinationCurrency)} {activeQuote.destinationCurrency}
+                                                </dd>
+                                            </div>
+                                        </dl>
+
+                                        {isQuoteExpired ? (
+                                            <p className="text-amber-500 text-xs">{EXCHANGE_TEXT.QUOTE_EXPIRED}</p>
+                                        ) : (
+                                            <p className="text-slate-400 text-xs flex items-center gap-1">
+                                                <span className="material-symbols-outlined text-[16px]">timer</span>
+                                                {EXCHANGE_TEXT.QUOTE_EXPIRES_IN(formatCountdown(secondsRemaining))}
+                                            </p>
+                                        )}
+
+                                        <button
+                                            type="button"
+                                            onClick={handleConfirm}
+                                            disabled={isQuoteExpired || isProcessing}
+                                            className="bg-blue-500 hover:bg-blue-600 text-white font-bold py-3 px-6 rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg shadow-blue-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            {EXCHANGE_TEXT.CONFIRM_EXCHANGE}
+                                            <span className="material-symbols-outlined text-lg">arrow_forward</span>
+                                        </button>
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-slate-400">{EXCHANGE_TEXT.QUOTE_PLACEHOLDER}</p>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </main>
+
+            {/* Processing Modal */}
+            <ExchangeProcessingModal
+                isOpen={isProcessing}
+                amount={amount || '0'}
+                currency={sourceCurrency}
+                sourceWalletName={sourceWallet?.name ?? ''}
+                destinationWalletName={destinationWallet?.name ?? ''}
+                rate={rate}
+                onComplete={handleProcessingComplete}
+            />
+
+            {/* Success Modal */}
+            <ExchangeSuccessModal
+                isOpen={showSuccess}
+                result={exchangeResult}
+                destinationWalletName={destinationWallet?.name ?? ''}
+                onClose={handleSuccessClose}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Alert, Button } from '../../../components/ui';
+import { MobileHeader, Sidebar, TransferSuccessModal } from '../components';
+import { useIdempotencyKey } from '../hooks/useIdempotencyKey';
+import { PAYMENT_REQUESTS_TEXT } from '../constants/text';
+import { useGetWalletQuery, useTransferMutation } from '../services/walletApi';
+import { useDeclinePaymentRequestMutation, useGetPaymentRequestQuery } from '../services/paymentRequestApi';
+import { useGetMfaStatusQuery, useGetUserDetailsQuery } from '../../user/services/userApi';
+import { StepUpModal } from '../../auth/components/StepUpModal';
+import { canPayRequest, getPaymentRequestStatus, isOwnRequest } from '../utils/paymentRequests';
+import { requiresStepUp } from '../utils/stepUp';
+import { formatCurrency, formatDateTime } from '../utils/formatters';
+import { getApiErrorMessage, isNotFoundError } from '../../../utils/apiError';
+import { compareMoney, toMoney } from '../../../utils/money';
+import { PaymentRequestStatusEnum, type TransferResponse } from '../types';
+
+/**
+ * Pay Request Page
+ * Opened from a pay link; shows a payment request and lets the logged-in
+ * payer pay it from a wallet in the request currency, or decline it.
+ * Amounts above the step-up threshold need a two-factor code first.
+ */
+export const PayRequestPage = () => {
+    const { requestId } = useParams<{ requestId: string }>();
+    const navigate = useNavigate();
+    const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+    const [selectedWalletId, setSelectedWalletId] = useState<string | null>(null);
+    const [transferResult, setTransferResult] = useState<TransferResponse | null>(null);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    // Set while the payment waits for a two-factor code because it is above the step-up threshold
+    const [isStepUpPending, setIsStepUpPending] = useState(false);
+
+    // RTK Query hooks
+    const {
+        data: request,
+        isLoading,
+        error,
+        refetch,
+    } = useGetPaymentRequestQuery(requestId ?? '', { skip: !requestId });
+    const { data: user } = useGetUserDetailsQuery();
+    const { data: mfaStatus, isError: isMfaStatusError } = useGetMfaStatusQuery();
+    const { data: walletData } = useGetWalletQuery();
+    const [transfer, { isLoading: isPaying }] = useTransferMutation();
+    const { getKey: getIdempotencyKey, reset: resetIdempotencyKey } = useIdempotencyKey();
+    const [declinePaymentRequest, { isLoading: isDeclining }] = useDeclinePaymentRequestMutation();
+
+    // Transfers stay in one currency, so only wallets in the request currency can pay
+    const payableWallets = (walletData ?? []).filter((wallet) => wallet.currency === request?.currency);
+    const sourceWallet = payableWallets.find((wallet) => wallet.walletId === selectedWalletId) ?? payableWallets[0];
+    const hasEnoughBalance = request && sourceWallet
+        ? compareMoney(toMoney(sourceWallet.balance, request.currency), toMoney(request.amount, request.currency)) >= 0
+        : false;
+
+    /**
+     * Pays the request through the wallet transfer endpoint
+     * @param stepUpToken - Proof of a two-factor check, for amounts above the step-up threshold
+     */
+    const sendPayment = async (stepUpToken?: string) => {
+        if (!request || !sourceWallet) return;
+        setErrorMessage(null);
+        const payment = {
+            payerWalletId: sourceWallet.walletId,
+            recipientEmail: request.requesterEmail,
+            amount: request.amount,
+            currency: request.currency,
+            paymentRequestId: request.requestId,
+        };
+
+        try {
+            // Paying again after a failed or timed-out attempt reuses its key, so the request is paid once
+            const result = await transfer({
+                ...payment,
+                stepUpToken,
+                idempotencyKey: getIdempotencyKey(payment),
+            }).unwrap();
+            resetIdempotencyKey();
+            setTransferResult(result);
+        } catch (err) {
+            setErrorMessage(getApiErrorMessage(err, PAYMENT_REQUESTS_TEXT.DEFAULT_ERROR));
+        }
+    };
+
+    /**
+     * Pays the request, asking for a two-factor code first when the amount is above the step-up threshold
+     */
+    const handlePay = async () => {
+        if (!request || !mfaStatus) return;
+        if (requiresStepUp(toMoney(request.amount, request.currency), mfaStatus.enabled)) {
+            setErrorMessage(null);
+            setIsStepUpPending(true);
+            return;
+        }
+        await sendPayment();
+    };
+
+    /**
+     * Sends the payment that was waiting for step-up verification
+     * @param stepUpToken - Token from the accepted code
+     */
+    const handleStepUpVerified = (stepUpToken: string) => {
+        setIsStepUpPending(false);
+        sendPayment(stepUpToken);
+    };
+
+    /**
+     * Declines the request and returns to the request list
+     */
+    const handleDecline = async () => {
+        if (!request) return;
+        setErrorMessage(null);
+        try {
+            await declinePaymentRequest(request.requestId).unwrap();
+            navigate('/requests');
+        } catch (err) {
+            setErrorMessage(getApiErrorMessage(err, PAYMENT_REQUESTS_TEXT.DEFAULT_ERROR));
+        }
+    };
+
+    /**
+     * Renders the page body for the current load state
+     */
+    const renderContent = () => {
+        if (isLoading) {
+            return <div className="text-white text-center">{PAYMENT_REQUESTS_TEXT.LOADING}</div>;
+        }
+
+        // Load failed for another reason (network, server error) - offer a retry
+        if (error && !isNotFoundError(error)) {
+            return (
+                <div className="flex flex-col items-center gap-4 text-center">
+                    <span className="material-symbols-outlined text-6xl text-red-400">error</span>
+                    <p className="text-white text-lg">{PAYMENT_REQUESTS_TEXT.LOAD_ERROR}</p>
+                    <button onClick={() => refetch()} className="text-blue-500 hover:underline">
+                        {PAYMENT_REQUESTS_TEXT.RETRY}
+                    </button>
+                </div>
+            );
+        }
+
+        // Unknown request, or addressed to someone else (the API answers 404/403 for both)
+        if (!request) {
+            return (
+                <div className="flex flex-col items-center gap-4 text-center">
+                    <span className="material-symbols-outlined text-6xl text-slate-500">link_off</span>
+                    <p className="text-white text-lg">{PAYMENT_REQUESTS_TEXT.NOT_FOUND}</p>
+                    <p className="text-slate-400 text-sm">{PAYMENT_REQUESTS_TEXT.NOT_FOUND_DESCRIPTION}</p>
+                    <button onClick={() => navigate('/requests')} className="text-blue-500 hover:underline">
+                        {PAYMENT_REQUESTS_TEXT.BACK_TO_REQUESTS}
+                    </button>
+                </div>
+            );
+        }
+
+        const now = new Date();
+        const status = getPaymentRequestStatus(request, now);
+        const isPayable = canPayRequest(request, user?.email, now);
+        const formattedAmount = formatCurrency(request.amount, request.currency);
+
+        return (
+            <section className="w-full max-w-md bg-[#161E2C] border border-slate-700 rounded-2xl p-6 flex flex-col gap-6">
+                {/* Request Summary */}
+                <div className="flex flex-col items-center gap-2 text-center">
+                    <p className="text-sm text-slate-400">{PAYMENT_REQUESTS_TEXT.REQUESTED_BY(request.requesterName)}</p>
+                    <p className="text-4xl font-bold text-white">{formattedAmount}</p>
+                    {request.note && <p className="text-sm text-slate-300">{request.note}</p>}
+                    <p className="text-xs text-slate-500">
+                        {PAYMENT_REQUESTS_TEXT.EXPIRES(formatDateTime(request.expiresAt))}
+                    </p>
+                </div>
+
+                {errorMessage && (
+                    <Alert
+                        variant="error"
+                        title={PAYMENT_REQUESTS_TEXT.PAY_FAILED}
+                        message={errorMessage}
+                        onDismiss={() => setErrorMessage(null)}
+                    />
+                )}
+
+                {isMfaStatusError && isPayable && (
+                    <Alert
+                        variant="error"
+                        title={PAYMENT_REQUESTS_TEXT.MFA_STATUS_ERROR_TITLE}
+                        message={PAYMENT_REQUESTS_TEXT.MFA_STATUS_ERROR}
+                    />
+                )}
+
+                {isOwnRequest(request, user?.email) ? (
+                    <Alert variant="info" title={PAYMENT_REQUESTS_TEXT.OWN_REQUEST} />
+                ) : status !== PaymentRequestStatusEnum.PENDING ? (
+                    <Alert variant="info" title={PAYMENT_REQUESTS_TEXT.NOT_PAYABLE[status]} />
+                ) : payableWallets.length === 0 ? (
+                    <Alert variant="warning" title={PAYMENT_REQUESTS_TEXT.NO_MATCHING_WALLET(request.currency)} />
+                ) : (
+                    <div className="space-y-2">
+                        <label htmlFor="pay-wallet" className="text-sm font-medium text-slate-400 ml-1">
+                            {PAYMENT_REQUESTS_TEXT.PAY_FROM}
+                        </label>
+                        <select
+                            id="pay-wallet"
+                            value={sourceWallet?.walletId ?? ''}
+                            onChange={(event) => setSelectedWalletId(event.target.value)}
+                            className="w-full bg-white/5 border border-white/10 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 rounded-xl py-3 px-4 text-white transition-all outline-none"
+                        >
+                            {payableWallets.map((wallet) => (
+                                <option key={wallet.walletId} value={wallet.walletId} className="bg-slate-800">
+                                    {`${wallet.name} (${formatCurrency(wallet.balance, wallet.currency)})`}
+                                </option>
+                            ))}
+                        </select>
+                        {!hasEnoughBalance && (
+                            <p className="text-red-400 text-xs ml-1">{PAYMENT_REQUESTS_TEXT.INSUFFICIENT_BALANCE}</p>
+                        )}
+                    </div>
+                )}
+
+                {isPayable && (
+                    <div className="flex gap-3">
+                        <Button
+                            variant="secondary"
+                            fullWidth
+                            disabled={isDeclining || isPaying}
+                            onClick={handleDecline}
+                        >
+                            {isDeclining ? PAYMENT_REQUESTS_TEXT.DECLINING : PAYMENT_REQUESTS_TEXT.DECLINE}
+                        </Button>
+                        <Button
+                            fullWidth
+                            leftIcon="send"
+                            disabled={!sourceWallet || !hasEnoughBalance || !mfaStatus || isDeclining || isPaying}
+                            onClick={handlePay}
+                        >
+                            {isPaying ? PAYMENT_REQUESTS_TEXT.PAYING : PAYMENT_REQUESTS_TEXT.PAY_NOW(formattedAmount)}
+                        </Button>
+                    </div>
+                )}
+            </section>
+        );
+    };
+
+    return (
+        <div className="flex h-screen w-full overflow-hidden">
+            {/* Sidebar */}
+            <Sidebar
+                isOpen={isSidebarOpen}
+                onClose={() => setIsSidebarOpen(false)}
+                currentPath="/requests"
+            />
+
+            {/* Main Content */}
+            <main className="flex-1 flex flex-col h-full overflow-y-auto bg-[#0a0f1a]">
+                {/* Mobile Header */}
+                <MobileHeader onMenuClick={() => setIsSidebarOpen(true)} />
+
+                <div className="flex-1 flex flex-col items-center justify-center gap-6 px-4 py-8">
+                    <h1 className="text-2xl font-bold text-white">{PAYMENT_REQUESTS_TEXT.PAY_TITLE}</h1>
+                    {renderContent()}
+                </div>
+            </main>
+
+            {/* Success Modal */}
+            <TransferSuccessModal
+                isOpen={transferResult !== null}
+                amount={transferResult?.amount?.toString() ?? '0.00'}
+                currency={request?.currency ?? ''}
+                recipient={transferResult?.recipientName ?? request?.requesterName ?? ''}
+                transactionReference={transferResult?.payerTransactionReference ?? ''}
+                timestamp={transferResult?.timestamp ?? new Date().toISOString()}
+                paymentMethod={transferResult?.paymentMethod ?? ''}
+                onClose={() => navigate('/requests')}
+            />
+
+            {/* Step-up Verification */}
+            <StepUpModal
+                isOpen={isStepUpPending}
+                onClose={() => setIsStepUpPending(false)}
+                amountLabel={request ? formatCurrency(request.amount, request.currency) : ''}
+                onVerified={handleStepUpVerified}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Alert, Button, LoadingSkeleton } from '../../../components/ui';
+import {
+    MobileHeader,
+    PaymentRequestListItem,
+    RequestMoneyModal,
+    Sidebar,
+    SplitBillListItem,
+    SplitBillModal,
+} from '../components';
+import { PAYMENT_REQUESTS_TEXT, SPLIT_BILLS_TEXT } from '../constants/text';
+import { useGetWalletQuery } from '../services/walletApi';
+import { useDeclinePaymentRequestMutation, useGetPaymentRequestsQuery } from '../services/paymentRequestApi';
+import { useGetSplitBillsQuery } from '../services/splitBillApi';
+import { getPayLink, PAY_REQUEST_PATH } from '../utils/paymentRequests';
+import { SPLIT_DETAILS_PATH } from '../utils/splitBills';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import type { PaymentRequest, SplitBill, WalletSummary } from '../types';
+
+/** Which requests are listed */
+type RequestsTab = 'sent' | 'received' | 'splits';
+
+const TABS: RequestsTab[] = ['received', 'sent', 'splits'];
+
+/** Label for each tab */
+const TAB_LABELS: Record<RequestsTab, string> = {
+    received: PAYMENT_REQUESTS_TEXT.TABS.RECEIVED,
+    sent: PAYMENT_REQUESTS_TEXT.TABS.SENT,
+    splits: SPLIT_BILLS_TEXT.TAB,
+};
+
+/**
+ * Payment Requests Page
+ * Lists money the user requested and requests addressed to them, with
+ * their status, and lets the user create, share, pay and decline requests.
+ * Bills split between contacts are listed under their own tab.
+ */
+export const PaymentRequestsPage = () => {
+    const navigate = useNavigate();
+    const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+    const [isRequestModalOpen, setIsRequestModalOpen] = useState(false);
+    const [isSplitModalOpen, setIsSplitModalOpen] = useState(false);
+    const [activeTab, setActiveTab] = useState<RequestsTab>('received');
+    const [declineError, setDeclineError] = useState<string | null>(null);
+
+    // RTK Query hooks
+    const { data, isLoading, isError, refetch } = useGetPaymentRequestsQuery();
+    const {
+        data: splitData,
+        isLoading: isLoadingSplits,
+        isError: isSplitsError,
+        refetch: refetchSplits,
+    } = useGetSplitBillsQuery(undefined, { skip: activeTab !== 'splits' });
+    const { data: walletData } = useGetWalletQuery();
+    const [declinePaymentRequest, { isLoading: isDeclining }] = useDeclinePaymentRequestMutation();
+
+    const wallets: WalletSummary[] = walletData
+        ? walletData.map((wallet) => ({
+            id: wallet.walletId,
+            name: wallet.name,
+            balance: wallet.balance,
+            currency: wallet.currency,
+            icon: 'account_balance_wallet',
+            colorVariant: 'blue' as const,
+        }))
+        : [];
+
+    const requests = (activeTab === 'sent' ? data?.sent : data?.received) ?? [];
+    const splits = splitData?.splits ?? [];
+    const now = new Date();
+
+    /**
+     * Opens the pay page for a received request
+     * @param request - The request to pay
+     */
+    const handlePay = (request: PaymentRequest) => {
+        navigate(`${PAY_REQUEST_PATH}/${request.requestId}`);
+    };
+
+    /**
+     * Opens the details of a split bill
+     * @param split - The split to open
+     */
+    const handleSelectSplit = (split: SplitBill) => {
+        navigate(`${SPLIT_DETAILS_PATH}/${split.splitId}`);
+    };
+
+    /**
+     * Declines a received request
+     * @param request - The request to decline
+     */
+    const handleDecline = async (request: PaymentRequest) => {
+        setDeclineError(null);
+        try {
+            await declinePaymentRequest(request.requestId).unwrap();
+        } catch (err) {
+            setDeclineError(getApiErrorMessage(err, PAYMENT_REQUESTS_TEXT.DEFAULT_ERROR));
+        }
+    };
+
+    return (
+        <div className="flex h-screen w-full overflow-hidden">
+            {/* Sidebar */}
+            <Sidebar
+                isOpen={isSidebarOpen}
+                onClose={() => setIsSidebarOpen(false)}
+                currentPath="/requests"
+            />
+
+            {/* Main Content */}
+            <main className="flex-1 flex flex-col h-full overflow-y-auto bg-[#0a0f1a]">
+                {/* Mobile Header */}
+                <MobileHeader onMenuClick={() => setIsSidebarOpen(true)} />
+
+                {/* Page Content */}
+                <div className="container mx-auto max-w-4xl px-4 md:px-8 py-8 flex flex-col gap-6">
+                    {/* Header */}
+                    <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+                        <div className="flex flex-col gap-1">
+                            <h1 className="text-2xl font-bold text-white">{PAYMENT_REQUESTS_TEXT.PAGE_TITLE}</h1>
+                            <p className="text-sm text-slate-400">{PAYMENT_REQUESTS_TEXT.PAGE_DESCRIPTION}</p>
+                        </div>
+                        <div className="flex gap-3">
+                            <Button
+                                variant="secondary"
+                                leftIcon="call_split"
+                                disabled={wallets.length === 0}
+                                onClick={() => setIsSplitModalOpen(true)}
+                            >
+                                {SPLIT_BILLS_TEXT.SPLIT_BILL}
+                            </Button>
+                            <Button
+                                leftIcon="request_quote"
+                                disabled={wallets.length === 0}
+                                onClick={() => setIsRequestModalOpen(true)}
+                            >
+                                {PAYMENT_REQUESTS_TEXT.REQUEST_MONEY}
+                            </Button>
+                        </div>
+                    </div>
+
+                    {/* Tabs */}
+                    <div className="flex gap-2 p-1 bg-white/5 rounded-xl self-start" role="tablist">
+                        {TABS.map((tab) => (
+                            <button
+                                key={tab}
+                                type="button"
+                                role="tab"
+                                aria-selected={activeTab === tab}
+                                onClick={() => setActiveTab(tab)}
+                                className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all ${activeTab === tab
+                                    ? 'bg-blue-500 text-white'
+                                    : 'text-slate-400 hover:text-white'
+                                    }`}
+                            >
+                                {TAB_LABELS[tab]}
+                            </button>
+                        ))}
+                    </div>
+
+                    {declineError && (
+                        <Alert
+                            variant="error"
+                            title={PAYMENT_REQUESTS_TEXT.DECLINE_FAILED}
+                            message={declineError}
+                            onDismiss={() => setDeclineError(null)}
+                        />
+                    )}
+
+                    {activeTab === 'splits' ? (
+                        isLoadingSplits ? (
+                            <LoadingSkeleton variant="card" height="88px" count={3} gap="12px" />
+                        ) : isSplitsError ? (
+                            <div className="flex flex-col items-start gap-3">
+                                <Alert variant="error" title={PAYMENT_REQUESTS_TEXT.LOAD_ERROR} />
+                                <Button variant="secondary" size="sm" leftIcon="refresh" onClick={() => refetchSplits()}>
+                                    {PAYMENT_REQUESTS_TEXT.RETRY}
+                                </Button>
+                            </div>
+                        ) : splits.length === 0 ? (
+                            <p className="p-4 text-sm text-slate-400 bg-[#161E2C] border border-dashed border-slate-700 rounded-xl">
+                                {SPLIT_BILLS_TEXT.NO_SPLITS}
+                            </p>
+                        ) : (
+                            <ul className="flex flex-col gap-3">
+                                {splits.map((split) => (
+                                    <SplitBillListItem key={split.splitId} split={split} onSelect={handleSelectSplit} />
+                                ))}
+                            </ul>
+                        )
+                    ) : isLoading ? (
+                        <LoadingSkeleton variant="card" height="88px" count={3} gap="12px" />
+                    ) : isError ? (
+                        <div className="flex flex-col items-start gap-3">
+                            <Alert variant="error" title={PAYMENT_REQUESTS_TEXT.LOAD_ERROR} />
+                            <Button variant="secondary" size="sm" leftIcon="refresh" onClick={() => refetch()}>
+                                {PAYMENT_REQUESTS_TEXT.RETRY}
+                            </Button>
+                        </div>
+                    ) : requests.length === 0 ? (
+                        <p className="p-4 text-sm text-slate-400 bg-[#161E2C] border border-dashed border-slate-700 rounded-xl">
+                            {activeTab === 'sent' ? PAYMENT_REQUESTS_TEXT.NO_SENT : PAYMENT_REQUESTS_TEXT.NO_RECEIVED}
+                        </p>
+                    ) : (
+                        <ul className="flex flex-col gap-3">
+                            {requests.map((request) => (
+                                <PaymentRequestListItem
+                                    key={request.requestId}
+                                    request={request}
+                                    direction={activeTab === 'sent' ? 'sent' : 'received'}
+                                    payLink={getPayLink(request.requestId, window.location.origin)}
+                                    now={now}
+                                    onPay={handlePay}
+                                    onDecline={handleDecline}
+                                    isDeclining={isDeclining}
+                                />
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </main>
+
+            {/* Modals */}
+            <RequestMoneyModal
+                isOpen={isRequestModalOpen}
+                onClose={() => setIsRequestModalOpen(false)}
+                wallets={wallets}
+            />
+            <SplitBillModal
+                isOpen={isSplitModalOpen}
+                onClose={() => setIsSplitModalOpen(false)}
+                wallets={wallets}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Alert, Button, LoadingSkeleton } from '../../../components/ui';
+import {
+    CancelScheduledTransferModal,
+    EditScheduledTransferModal,
+    MobileHeader,
+    ScheduledTransferListItem,
+    Sidebar,
+    TransferModal,
+} from '../components';
+import { SCHEDULED_TRANSFERS_TEXT } from '../constants/text';
+import { useGetWalletQuery } from '../services/walletApi';
+import {
+    useCancelScheduledTransferMutation,
+    useGetScheduledTransfersQuery,
+    usePauseScheduledTransferMutation,
+    useResumeScheduledTransferMutation,
+} from '../services/scheduledTransferApi';
+import { useGetPreferencesQuery } from '../../user/services/userApi';
+import { sortSchedules } from '../utils/scheduledTransfers';
+import { getApiErrorMessage } from '../../../utils/apiError';
+import type { ScheduledTransfer, WalletSummary } from '../types';
+
+/**
+ * Scheduled Transfers Page
+ * Lists future-dated and recurring transfers and lets the user pause,
+ * resume, edit and cancel them.
+ */
+export const ScheduledTransfersPage = () => {
+    const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+    const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
+    const [transferWalletId, setTransferWalletId] = useState<string | null>(null);
+    const [scheduleToEdit, setScheduleToEdit] = useState<ScheduledTransfer | null>(null);
+    const [scheduleToCancel, setScheduleToCancel] = useState<ScheduledTransfer | null>(null);
+    const [cancelError, setCancelError] = useState<string | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    // RTK Query hooks
+    const { data, isLoading, isError, refetch } = useGetScheduledTransfersQuery();
+    const { data: walletData } = useGetWalletQuery();
+    const { data: preferences } = useGetPreferencesQuery();
+    const [pauseScheduledTransfer, { isLoading: isPausing }] = usePauseScheduledTransferMutation();
+    const [resumeScheduledTransfer, { isLoading: isResuming }] = useResumeScheduledTransferMutation();
+    const [cancelScheduledTransfer, { isLoading: isCancelling }] = useCancelScheduledTransferMutation();
+
+    const schedules = sortSchedules(data?.schedules ?? []);
+
+    const wallets: WalletSummary[] = walletData
+        ? walletData.map((wallet) => ({
+            id: wallet.walletId,
+            name: wallet.name,
+            balance: wallet.balance,
+            currency: wallet.currency,
+            icon: 'account_balance_wallet',
+            colorVariant: 'blue' as const,
+        }))
+        : [];
+
+    // New transfers start from the preferred wallet unless another one was picked
+    const transferWallet = wallets.find((wallet) => wallet.id === (transferWalletId ?? preferences?.defaultWalletId))
+        ?? wallets[0]
+        ?? null;
+    const editWalletBalance = wallets.find((wallet) => wallet.id === scheduleToEdit?.payerWalletId)?.balance ?? 0;
+
+    /**
+     * Pauses an active schedule
+     * @param schedule - The schedule to pause
+     */
+    const handlePause = async (schedule: ScheduledTransfer) => {
+        setActionError(null);
+        try {
+            await pauseScheduledTransfer(schedule.scheduleId).unwrap();
+        } catch (err) {
+            setActionError(getApiErrorMessage(err, SCHEDULED_TRANSFERS_TEXT.DEFAULT_ERROR));
+        }
+    };
+
+    /**
+     * Resumes a paused schedule
+     * @param schedule - The schedule to resume
+     */
+    const handleResume = async (schedule: ScheduledTransfer) => {
+        setActionError(null);
+        try {
+            await resumeScheduledTransfer(schedule.scheduleId).unwrap();
+        } catch (err) {
+            setActionError(getApiErrorMessage(err, SCHEDULED_TRANSFERS_TEXT.DEFAULT_ERROR));
+        }
+    };
+
+    /**
+     * Opens the cancel confirmation for a schedule
+     * @param schedule - The schedule to cancel
+     */
+    const handleCancelRequest = (schedule: ScheduledTransfer) => {
+        setCancelError(null);
+        setScheduleToCancel(schedule);
+    };
+
+    /**
+     * Cancels the confirmed schedule
+     * @param schedule - The schedule to cancel
+     */
+    const handleCancelConfirm = async (schedule: ScheduledTransfer) => {
+        setCancelError(null);
+        try {
+            await cancelScheduledTransfer(schedule.scheduleId).unwrap();
+            setScheduleToCancel(null);
+        } catch (err) {
+            setCancelError(getApiErrorMessage(err, SCHEDULED_TRANSFERS_TEXT.DEFAULT_ERROR));
+        }
+    };
+
+    return (
+        <div className="flex h-screen w-full overflow-hidden">
+            {/* Sidebar */}
+            <Sidebar
+                isOpen={isSidebarOpen}
+                onClose={() => setIsSidebarOpen(false)}
+                currentPath="/transfers/scheduled"
+            />
+
+            {/* Main Content */}
+            <main className="flex-1 flex flex-col h-full overflow-y-auto bg-[#0a0f1a]">
+                {/* Mobile Header */}
+                <MobileHeader onMenuClick={() => setIsSidebarOpen(true)} />
+
+                {/* Page Content */}
+                <div className="container mx-auto max-w-4xl px-4 md:px-8 py-8 flex flex-col gap-6">
+                    {/* Header */}
+                    <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+                        <div className="flex flex-col gap-1">
+                            <h1 className="text-2xl font-bold text-white">{SCHEDULED_TRANSFERS_TEXT.PAGE_TITLE}</h1>
+                            <p className="text-sm text-slate-400">{SCHEDULED_TRANSFERS_TEXT.PAGE_DESCRIPTION}</p>
+                        </div>
+                        <Button
+                            leftIcon="send"
+                            disabled={wallets.length === 0}
+                            onClick={() => setIsTransferModalOpen(true)}
+                        >
+                            {SCHEDULED_TRANSFERS_TEXT.NEW_TRANSFER}
+                        </Button>
+                    </div>
+
+                    {actionError && (
+                        <Alert
+                            variant="error"
+                            title={SCHEDULED_TRANSFERS_TEXT.UPDATE_FAILED}
+                            message={actionError}
+                            onDismiss={() => setActionError(null)}
+                        />
+                    )}
+
+                    {isLoading ? (
+                        <LoadingSkeleton variant="card" height="88px" count={3} gap="12px" />
+                    ) : isError ? (
+                        <div className="flex flex-col items-start gap-3">
+                            <Alert variant="error" title={SCHEDULED_TRANSFERS_TEXT.LOAD_ERROR} />
+                            <Button variant="secondary" size="sm" leftIcon="refresh" onClick={() => refetch()}>
+                                {SCHEDULED_TRANSFERS_TEXT.RETRY}
+                            </Button>
+                        </div>
+                    ) : schedules.length === 0 ? (
+                        <div className="flex flex-col items-center gap-2 p-10 text-center bg-[#161E2C] border border-dashed border-slate-700 rounded-xl">
+                            <span className="material-symbols-outlined text-4xl text-slate-500">event_repeat</span>
+                            <p className="text-white font-semibold">{SCHEDULED_TRANSFERS_TEXT.NO_SCHEDULES}</p>
+                            <p className="text-sm text-slate-400 max-w-md">{SCHEDULED_TRANSFERS_TEXT.NO_SCHEDULES_HINT}</p>
+                        </div>
+                    ) : (
+                        <ul className="flex flex-col gap-3">
+                            {schedules.map((schedule) => (
+                                <ScheduledTransferListItem
+                                    key={schedule.scheduleId}
+                                    schedule={schedule}
+                                    onPause={handlePause}
+                                    onResume={handleResume}
+                                    onEdit={setScheduleToEdit}
+                                    onCancel={handleCancelRequest}
+                                    isUpdating={isPausing || isResuming}
+                                />
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </main>
+
+            {/* Modals */}
+            <TransferModal
+                isOpen={isTransferModalOpen}
+                onClose={() => setIsTransferModalOpen(false)}
+                sourceWallet={transferWallet}
+                wallets={wallets}
+                onWalletChange={setTransferWalletId}
+            />
+            <EditScheduledTransferModal
+                schedule={scheduleToEdit}
+                availableBalance={editWalletBalance}
+                onClose={() => setScheduleToEdit(null)}
+            />
+            <CancelScheduledTransferModal
+                schedule={scheduleToCancel}
+                onClose={() => setScheduleToCancel(null)}
+                onConfirm={handleCancelConfirm}
+                isCancelling={isCancelling}
+                error={cancelError}
+            />
+        </div>
+    );
+};
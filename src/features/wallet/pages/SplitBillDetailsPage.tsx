@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Alert } from '../../../components/ui';
+import { MobileHeader, Sidebar, SplitParticipantListItem } from '../components';
+import { PAYMENT_REQUESTS_TEXT, SPLIT_BILLS_TEXT } from '../constants/text';
+import { useGetSplitBillQuery, useSendSplitReminderMutation } from '../services/splitBillApi';
+import { getCollectedAmount, getPaidCount } from '../utils/splitBills';
+import { formatCurrency, formatDateTime } from '../utils/formatters';
+import { getApiErrorMessage, isNotFoundError } from '../../../utils/apiError';
+import { sumAmounts } from '../../../utils/money';
+import type { SplitBillParticipant } from '../types';
+
+/**
+ * Split Bill Details Page
+ * Shows each participant's share of a split bill, who has paid,
+ * and lets the user remind those who have not.
+ */
+export const SplitBillDetailsPage = () => {
+    const { splitId } = useParams<{ splitId: string }>();
+    const navigate = useNavigate();
+    const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+    const [remindingId, setRemindingId] = useState<string | null>(null);
+    const [remindedName, setRemindedName] = useState<string | null>(null);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+    // RTK Query hooks
+    const { data: split, isLoading, error, refetch } = useGetSplitBillQuery(splitId ?? '', { skip: !splitId });
+    const [sendSplitReminder] = useSendSplitReminderMutation();
+
+    /**
+     * Sends a reminder to a participant who has not paid
+     * @param participant - The participant to remind
+     */
+    const handleRemind = async (participant: SplitBillParticipant) => {
+        if (!split) return;
+        setErrorMessage(null);
+        setRemindedName(null);
+        setRemindingId(participant.participantId);
+        try {
+            await sendSplitReminder({ splitId: split.splitId, participantId: participant.participantId }).unwrap();
+            setRemindedName(participant.name);
+        } catch (err) {
+            setErrorMessage(getApiErrorMessage(err, SPLIT_BILLS_TEXT.DEFAULT_ERROR));
+        } finally {
+            setRemindingId(null);
+        }
+    };
+
+    /**
+     * Renders the page body for the current load state
+     */
+    const renderContent = () => {
+        if (isLoading) {
+            return <div className="text-white text-center">{SPLIT_BILLS_TEXT.LOADING}</div>;
+        }
+
+        // Load failed for another reason (network, server error) - offer a retry
+        if (error && !isNotFoundError(error)) {
+            return (
+                <div className="flex flex-col items-center gap-4 text-center">
+                    <span className="material-symbols-outlined text-6xl text-red-400">error</span>
+                    <p className="text-white text-lg">{SPLIT_BILLS_TEXT.LOAD_ERROR}</p>
+                    <button onClick={() => refetch()} className="text-blue-500 hover:underline">
+                        {SPLIT_BILLS_TEXT.RETRY}
+                    </button>
+                </div>
+            );
+        }
+
+        if (!split) {
+            return (
+                <div className="flex flex-col items-center gap-4 text-center">
+                    <span className="material-symbols-outlined text-6xl text-slate-500">search_off</span>
+                    <p className="text-white text-lg">{SPLIT_BILLS_TEXT.NOT_FOUND}</p>
+                    <button onClick={() => navigate('/requests')} className="text-blue-500 hover:underline">
+                        {SPLIT_BILLS_TEXT.BACK_TO_REQUESTS}
+                    </button>
+                </div>
+            );
+        }
+
+        const now = new Date();
+        const collected = getCollectedAmount(split);
+        const paidCount = getPaidCount(split);
+        // Progress counts only the shares requested from participants, not the user's own
+        const requestedTotal = sumAmounts(split.participants.map((participant) => participant.amount), split.currency);
+        const progress = requestedTotal > 0 ? Math.min(100, (collected / requestedTotal) * 100) : 100;
+
+        return (
+            <>
+                {/* Summary */}
+                <section className="bg-[#161E2C] border border-slate-700 rounded-2xl p-6 flex flex-col gap-4">
+                    <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-2">
+                        <div className="flex flex-col gap-1 min-w-0">
+                            <h2 className="text-xl font-bold text-white truncate">{split.title}</h2>
+                            <p className="text-xs text-slate-500">
+                                {`${SPLIT_BILLS_TEXT.SPLIT_METHOD[split.method]} • ${PAYMENT_REQUESTS_TEXT.EXPIRES(formatDateTime(split.expiresAt))}`}
+                            </p>
+                        </div>
+                        <p className="text-3xl font-bold text-white">{formatCurrency(split.totalAmount, split.currency)}</p>
+                    </div>
+                    <div className="flex flex-col gap-2">
+                        <div className="h-2 w-full bg-white/5 rounded-full overflow-hidden">
+                            <div className="h-full bg-emerald-500 rounded-full transition-all" style={{ width: `${progress}%` }} />
+                        </div>
+                        <div className="flex justify-between text-xs text-slate-400">
+                            <span>
+                                {SPLIT_BILLS_TEXT.COLLECTED(
+                                    formatCurrency(collected, split.currency),
+                                    formatCurrency(requestedTotal, split.currency)
+                                )}
+                            </span>
+                            <span>{SPLIT_BILLS_TEXT.PAID_COUNT(paidCount, split.participants.length)}</span>
+                        </div>
+                    </div>
+                </section>
+
+                {remindedName && (
+                    <Alert
+                        variant="success"
+                        title={SPLIT_BILLS_TEXT.REMINDER_SENT(remindedName)}
+                        onDismiss={() => setRemindedName(null)}
+                    />
+                )}
+                {errorMessage && (
+                    <Alert
+                        variant="error"
+                        title={SPLIT_BILLS_TEXT.REMIND_FAILED}
+                        message={errorMessage}
+                        onDismiss={() => setErrorMessage(null)}
+                    />
+                )}
+
+                {/* Participants */}
+                <section className="bg-[#161E2C] border border-slate-700 rounded-2xl px-6 py-2">
+                    <ul className="flex flex-col divide-y divide-slate-700/50">
+                        {split.participants.map((participant) => (
+                            <SplitParticipantListItem
+                                key={participant.participantId}
+                                split={split}
+                                participant={participant}
+                                now={now}
+                                onRemind={handleRemind}
+                                isReminding={remindingId === participant.participantId}
+                            />
+                        ))}
+                    </ul>
+                </section>
+            </>
+        );
+    };
+
+    return (
+        <div className="flex h-screen w-full overflow-hidden">
+            {/* Sidebar */}
+            <Sidebar
+                isOpen={isSidebarOpen}
+                onClose={() => setIsSidebarOpen(false)}
+                currentPath="/requests"
+            />
+
+            {/* Main Content */}
+            <main className="flex-1 flex flex-col h-full overflow-y-auto bg-[#0a0f1a]">
+                {/* Mobile Header */}
+                <MobileHeader onMenuClick={() => setIsSidebarOpen(true)} />
+
+                {/* Page Content */}
+                <div className="container mx-auto max-w-4xl px-4 md:px-8 py-8 flex flex-col gap-6">
+                    {/* Header */}
+                    <div className="flex items-center gap-3">
+                        <button
+                            type="button"
+                            onClick={() => navigate('/requests')}
+                            aria-label={SPLIT_BILLS_TEXT.BACK_TO_REQUESTS}
+                            className="p-2 text-slate-400 hover:text-white hover:bg-white/5 rounded-lg transition-colors"
+                        >
+                            <span className="material-symbols-outlined">arrow_back</span>
+                        </button>
+                        <h1 className="text-2xl font-bold text-white">{SPLIT_BILLS_TEXT.DETAILS_TITLE}</h1>
+                    </div>
+
+                    {renderContent()}
+                </div>
+            </main>
+        </div>
+    );
+};
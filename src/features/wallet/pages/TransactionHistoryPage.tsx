@@ -1,31 +1,44 @@
-import { useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { useSearchParams, Link } from 'react-router-dom';
-import { Sidebar, MobileHeader } from '../components';
+import { Sidebar, MobileHeader, ExportTransactionsModal, TransactionFilterBar } from '../components';
+import { Pagination } from '../../../components/ui';
 import { TransactionTypeEnum } from '../types';
-import { useGetTransactionHistoryQuery, useGetWalletQuery } from '../services/walletApi';
+import type { TransactionHistoryFilters } from '../types';
+import { useGetTransactionHistoryQuery, useGetWalletQuery, TRANSACTION_HISTORY_PAGE_SIZE } from '../services/walletApi';
 import { getReferenceTypeIcon, getReferenceTypeLabel, getWalletTransactionStatusConfig } from '../utils/transactionHelpers';
 import { formatDate, formatTime, formatCurrency } from '../utils/formatters';
+import {
+    getInvalidHistoryRange,
+    hasActiveFilters,
+    parseHistorySearchParams,
+    toHistorySearchParams,
+} from '../utils/transactionHistoryParams';
+import { getTotalPages } from '../../../utils/pagination';
 import {
     HISTORY_TEXT,
     TABLE_HEADERS,
     ICONS,
     TRANSACTION_HISTORY_TEXT,
-    DYNAMIC_TEXT,
 } from '../constants';
 
 /**
  * Transaction History Page
- * Displays paginated transaction history with optional wallet filtering
- * Supports URL query param ?walletId=xxx for filtering by specific wallet
+ * Displays paginated transaction history with server-side filtering.
+ * Filters and page live in the URL (?walletId, from, to, type, category, status, min, max, q, page)
+ * so filtered views can be bookmarked and shared.
  */
 export const TransactionHistoryPage = () => {
     const [searchParams, setSearchParams] = useSearchParams();
     const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-    const [searchQuery, setSearchQuery] = useState('');
-    const [currentPage, setCurrentPage] = useState(1);
+    const [isExportModalOpen, setIsExportModalOpen] = useState(false);
 
-    // Get walletId from URL query params (optional filter)
-    const walletIdFilter = searchParams.get('walletId') || undefined;
+    // Filters and page are derived from the URL
+    const { filters, page: currentPage } = useMemo(
+        () => parseHistorySearchParams(searchParams),
+        [searchParams]
+    );
+    const walletIdFilter = filters.walletId;
+    const isRangeInvalid = getInvalidHistoryRange(filters) !== null;
 
     // Fetch wallet data to get wallet name for filter display
     const { data: wallets } = useGetWalletQuery();
@@ -33,30 +46,50 @@ export const TransactionHistoryPage = () => {
         ? wallets?.find((w) => w.walletId === walletIdFilter)
         : undefined;
 
-    // Fetch transaction history with optional wallet filter
+    // Fetch the current page with all filters applied server-side
     const {
-        data: transactions = [],
+        data,
         isLoading,
+        isFetching,
         isError,
         refetch,
-    } = useGetTransactionHistoryQuery({
-        walletId: walletIdFilter,
-        offset: currentPage,
-    });
-
-    // Filter transactions by search query (client-side)
-    const filteredTransactions = transactions.filter((txn) =>
-        txn.transactionReference.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        txn.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        txn.walletName.toLowerCase().includes(searchQuery.toLowerCase())
+    } = useGetTransactionHistoryQuery(
+        { ...filters, offset: currentPage },
+        { skip: isRangeInvalid }
     );
+    const transactions = data?.items ?? [];
+    const totalCount = data?.totalCount ?? 0;
+    const totalPages = getTotalPages(totalCount, TRANSACTION_HISTORY_PAGE_SIZE);
+    const firstItemNumber = (currentPage - 1) * TRANSACTION_HISTORY_PAGE_SIZE + 1;
+    const lastItemNumber = firstItemNumber + transactions.length - 1;
+
+    /**
+     * Applies filter changes and returns to the first page
+     * Replaces the history entry so typing in a filter does not flood the back button
+     * @param changes - Filters that changed
+     */
+    const handleFiltersChange = useCallback((changes: Partial<TransactionHistoryFilters>) => {
+        setSearchParams(
+            (previous) => toHistorySearchParams({
+                filters: { ...parseHistorySearchParams(previous).filters, ...changes },
+                page: 1,
+            }),
+            { replace: true }
+        );
+    }, [setSearchParams]);
 
     /**
-     * Clears the wallet filter and shows all transactions
+     * Clears the wallet filter and shows transactions for all wallets
      */
     const handleClearWalletFilter = () => {
-        setSearchParams({});
-        setCurrentPage(1);
+        handleFiltersChange({ walletId: undefined });
+    };
+
+    /**
+     * Clears every filter except the wallet
+     */
+    const handleClearFilters = () => {
+        setSearchParams(toHistorySearchParams({ filters: { walletId: walletIdFilter }, page: 1 }));
     };
 
     /**
@@ -64,7 +97,7 @@ export const TransactionHistoryPage = () => {
      * @param page - The page number to navigate to
      */
     const handlePageChange = (page: number) => {
-        setCurrentPage(page);
+        setSearchParams(toHistorySearchParams({ filters, page }));
     };
 
     return (
@@ -94,9 +127,12 @@ export const TransactionHistoryPage = () => {
                             )}
                         </div>
                         <div className="flex gap-3">
-                            <button className="px-4 py-2 bg-[#161E2C] hover:bg-[#1e2a3c] border border-slate-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2">
+                            <button
+                                onClick={() => setIsExportModalOpen(true)}
+                                className="px-4 py-2 bg-[#161E2C] hover:bg-[#1e2a3c] border border-slate-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                            >
                                 <span className="material-symbols-outlined text-[18px]">{ICONS.DOWNLOAD}</span>
-                                {HISTORY_TEXT.EXPORT_CSV}
+                                {HISTORY_TEXT.EXPORT}
                             </button>
                         </div>
                     </div>
@@ -115,7 +151,7 @@ export const TransactionHistoryPage = () => {
                                 <button
                                     onClick={handleClearWalletFilter}
                                     className="p-0.5 hover:bg-blue-500/20 rounded-full transition-colors"
-                                    aria-label="Clear wallet filter"
+                                    aria-label={TRANSACTION_HISTORY_TEXT.CLEAR_WALLET_FILTER}
                                 >
                                     <span className="material-symbols-outlined text-blue-500 text-[16px]">
                                         close
@@ -131,24 +167,15 @@ export const TransactionHistoryPage = () => {
                         </div>
                     )}
 
-                    {/* Search Bar */}
-                    <div className="flex flex-col md:flex-row gap-4">
-                        <div className="flex-1 relative">
-                            <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 text-[20px]">
-                                {ICONS.SEARCH}
-                            </span>
-                            <input
-                                type="text"
-                                placeholder={HISTORY_TEXT.SEARCH_PLACEHOLDER}
-                                value={searchQuery}
-                                onChange={(e) => setSearchQuery(e.target.value)}
-                                className="w-full pl-10 pr-4 py-2.5 bg-[#161E2C] border border-slate-700 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                            />
-                        </div>
-                    </div>
+                    {/* Filters */}
+                    <TransactionFilterBar
+                        filters={filters}
+                        onChange={handleFiltersChange}
+                        onClear={handleClearFilters}
+                    />
 
                     {/* Transaction Table */}
-                    <div className="bg-[#161E2C] rounded-xl border border-slate-800 overflow-hidden">
+                    <div className={`bg-[#161E2C] rounded-xl border border-slate-800 overflow-hidden transition-opacity ${isFetching && !isLoading ? 'opacity-60' : ''}`}>
                         <div className="overflow-x-auto">
                             <table className="w-full">
                                 <thead>
@@ -188,7 +215,7 @@ export const TransactionHistoryPage = () => {
                                                 </div>
                                             </td>
                                         </tr>
-                                    ) : isError ? (
+                                    ) : isError && !isRangeInvalid ? (
                                         <tr>
                                             <td colSpan={7} className="px-6 py-12 text-center">
                                                 <div className="flex flex-col items-center gap-2 text-slate-400">
@@ -205,14 +232,16 @@ export const TransactionHistoryPage = () => {
                                                 </div>
                                             </td>
                                         </tr>
-                                    ) : filteredTransactions.length === 0 ? (
+                                    ) : transactions.length === 0 ? (
                                         <tr>
                                             <td colSpan={7} className="px-6 py-12 text-center text-slate-400">
-                                                {HISTORY_TEXT.NO_TRANSACTIONS}
+                                                {hasActiveFilters(filters)
+                                                    ? HISTORY_TEXT.NO_MATCHING_TRANSACTIONS
+                                                    : HISTORY_TEXT.NO_TRANSACTIONS}
                                             </td>
                                         </tr>
                                     ) : (
-                                        filteredTransactions.map((txn) => {
+                                        transactions.map((txn) => {
                                             const statusConfig = getWalletTransactionStatusConfig(txn.status);
                                             const isCredit = txn.transactionType === TransactionTypeEnum.CREDIT;
 
@@ -278,33 +307,32 @@ export const TransactionHistoryPage = () => {
                     </div>
 
                     {/* Pagination */}
-                    {filteredTransactions.length > 0 && (
-                        <div className="flex items-center justify-between">
+                    {transactions.length > 0 && (
+                        <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
                             <p className="text-sm text-slate-400">
-                                {DYNAMIC_TEXT.PAGINATION_INFO(currentPage, filteredTransactions.length)}
+                                {HISTORY_TEXT.SHOWING} {firstItemNumber} {HISTORY_TEXT.TO} {lastItemNumber} {HISTORY_TEXT.OF} {totalCount} {HISTORY_TEXT.TRANSACTIONS}
                             </p>
-                            <div className="flex gap-2">
-                                <button
-                                    onClick={() => handlePageChange(Math.max(1, currentPage - 1))}
-                                    disabled={currentPage === 1}
-                                    className="px-4 py-2 bg-[#161E2C] hover:bg-[#1e2a3c] disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-1 border border-slate-700"
-                                >
-                                    <span className="material-symbols-outlined text-[18px]">{ICONS.CHEVRON_LEFT}</span>
-                                    {HISTORY_TEXT.PREVIOUS}
-                                </button>
-                                <button
-                                    onClick={() => handlePageChange(currentPage + 1)}
-                                    disabled={filteredTransactions.length < 10}
-                                    className="px-4 py-2 bg-[#161E2C] hover:bg-[#1e2a3c] disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-1 border border-slate-700"
-                                >
-                                    {HISTORY_TEXT.NEXT}
-                                    <span className="material-symbols-outlined text-[18px]">{ICONS.CHEVRON_RIGHT}</span>
-                                </button>
-                            </div>
+                            <Pagination
+                                currentPage={currentPage}
+                                totalPages={Math.max(totalPages, currentPage)}
+                                onPageChange={handlePageChange}
+                                previousLabel={HISTORY_TEXT.PREVIOUS}
+                                nextLabel={HISTORY_TEXT.NEXT}
+                            />
                         </div>
                     )}
                 </div>
             </main>
+
+            {/* Export Modal */}
+            <ExportTransactionsModal
+                key={toHistorySearchParams({ filters, page: 1 }).toString()}
+                isOpen={isExportModalOpen}
+                onClose={() => setIsExportModalOpen(false)}
+                walletId={walletIdFilter}
+                walletName={selectedWallet?.name}
+                filters={filters}
+            />
         </div>
     );
 };
@@ -4,63 +4,32 @@ import { Sidebar } from '../components/Sidebar';
 import { BalanceTrendsChart } from '../components/BalanceTrendsChart';
 import { WalletOverviewPanel } from '../components/WalletOverviewPanel';
 import { TechnicalMetadata } from '../components/TechnicalMetadata';
-import { PortfolioInsights } from '../components/PortfolioInsights';
 import { WalletDetailsTransactionTable } from '../components/WalletDetailsTransactionTable';
-import type { WalletTransaction } from '../components/WalletDetailsTransactionTable';
 import { EditWalletNameModal } from '../components/EditWalletNameModal';
 import { TopUpModal } from '../components/TopUpModal';
-import { APP_NAME, WALLET_DETAILS_TEXT, WALLET_DETAILS_PAGE_TEXT, DYNAMIC_TEXT } from '../constants/text';
-import { useGetWalletQuery, useUpdateWalletNameMutation } from '../services/walletApi';
+import { ExportTransactionsModal } from '../components/ExportTransactionsModal';
+import { APP_NAME, WALLET_DETAILS_TEXT, WALLET_DETAILS_PAGE_TEXT } from '../constants/text';
+import {
+    useGetWalletByIdQuery,
+    useGetBalanceHistoryQuery,
+    useGetTransactionHistoryQuery,
+    useUpdateWalletNameMutation,
+    TRANSACTION_HISTORY_PAGE_SIZE,
+} from '../services/walletApi';
 import { formatCurrency } from '../utils/formatters';
+import { toBalanceChartData } from '../utils/balanceHistory';
+import { BalanceHistoryPeriodEnum, WalletStatusEnum } from '../types';
+import { useGetMfaStatusQuery } from '../../user/services/userApi';
+import { isNotFoundError } from '../../../utils/apiError';
+import { getTotalPages } from '../../../utils/pagination';
 
-/** Mock data for wallet details (to be replaced with API data) */
-const MOCK_WALLET_DETAILS = {
-    totalIncome: 4250.0,
-    totalSpent: 2650.0,
-    apyGrowth: '4.2% Fixed',
-    ledgerAddress: '0x71C7654321ABCDEF67890ABCDEF',
-    creationDate: '2023-01-12T00:00:00Z',
-    walletType: 'High-Yield',
-    is2FAEnabled: true,
-    isColdStorage: true,
-    performancePercent: 15,
-    chartData: [40, 55, 45, 70, 60, 85, 75],
+/** Status indicator dot for each wallet status */
+const statusDotClasses: Record<WalletStatusEnum, string> = {
+    [WalletStatusEnum.ACTIVE]: 'bg-green-500 animate-pulse',
+    [WalletStatusEnum.FROZEN]: 'bg-blue-400',
+    [WalletStatusEnum.CLOSED]: 'bg-red-500',
 };
 
-/** Mock transactions for the details page */
-const MOCK_TRANSACTIONS: WalletTransaction[] = [
-    {
-        id: '1',
-        description: 'Apple Store',
-        category: 'Shopping',
-        icon: 'shopping_cart',
-        date: '2023-10-24T10:30:00Z',
-        status: 'completed',
-        amount: 129.0,
-        isCredit: false,
-    },
-    {
-        id: '2',
-        description: 'Salary Deposit',
-        category: 'Income',
-        icon: 'payments',
-        date: '2023-10-23T09:00:00Z',
-        status: 'completed',
-        amount: 2400.0,
-        isCredit: true,
-    },
-    {
-        id: '3',
-        description: 'Electric Bill',
-        category: 'Utilities',
-        icon: 'bolt',
-        date: '2023-10-22T14:15:00Z',
-        status: 'processing',
-        amount: 85.4,
-        isCredit: false,
-    },
-];
-
 /**
  * Wallet details page showing comprehensive wallet information
  * Includes balance, trends, transactions, and technical metadata
@@ -73,16 +42,46 @@ export const WalletDetailsPage = () => {
     const [isSidebarOpen, setIsSidebarOpen] = useState(false);
     const [isEditModalOpen, setIsEditModalOpen] = useState(false);
     const [isTopUpModalOpen, setIsTopUpModalOpen] = useState(false);
+    const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+    // Transaction page, remembered per wallet so switching wallets starts on page 1
+    const [transactionPage, setTransactionPage] = useState({ walletId, page: 1 });
+    const currentPage = transactionPage.walletId === walletId ? transactionPage.page : 1;
 
     // RTK Query hooks
-    const { data: wallets, isLoading: isLoadingWallet } = useGetWalletQuery();
+    // currentData is only ever the wallet for this walletId; data would keep showing the previous
+    // wallet after navigating to one that answers 404/403
+    const {
+        currentData: wallet,
+        isLoading: isLoadingWallet,
+        isFetching: isFetchingWallet,
+        error: walletError,
+        refetch: refetchWallet,
+    } = useGetWalletByIdQuery(walletId ?? '', { skip: !walletId });
     const [updateWalletName, { isLoading: isUpdatingName }] = useUpdateWalletNameMutation();
+    const { data: mfaStatus } = useGetMfaStatusQuery();
 
-    // Find the current wallet from the list
-    const wallet = wallets?.find((w) => w.walletId === walletId);
+    // Only load history once the wallet is known to be the user's
+    const {
+        data: transactionData,
+        isLoading: isLoadingTransactions,
+        isError: isTransactionsError,
+        refetch: refetchTransactions,
+    } = useGetTransactionHistoryQuery(
+        { walletId, offset: currentPage },
+        { skip: !wallet }
+    );
+    const totalPages = getTotalPages(transactionData?.totalCount ?? 0, TRANSACTION_HISTORY_PAGE_SIZE);
 
-    // Calculate growth percentage (mock for now)
-    const growthPercent = 12.4;
+    // Weekly balance history for the mini progress bars (shared cache entry with the trends chart)
+    // Like the history, only requested once the wallet is known to be the user's
+    const { data: weeklyHistory } = useGetBalanceHistoryQuery(
+        { walletId: walletId ?? '', period: BalanceHistoryPeriodEnum.WEEK },
+        { skip: !wallet }
+    );
+    const weeklyChartData = wallet && weeklyHistory
+        ? toBalanceChartData(weeklyHistory.points, wallet.currency, BalanceHistoryPeriodEnum.WEEK)
+        : [];
+    const weeklyMax = Math.max(0, ...weeklyChartData.map((point) => point.value));
 
     /**
      * Handles opening the edit name modal
@@ -117,14 +116,22 @@ export const WalletDetailsPage = () => {
     };
 
     /**
-     * Handles export CSV action
+     * Opens the export modal scoped to this wallet
+     */
+    const handleExport = () => {
+        setIsExportModalOpen(true);
+    };
+
+    /**
+     * Moves the transaction table to another page
+     * @param page - The page number to navigate to
      */
-    const handleExportCSV = () => {
-        console.log('Export CSV clicked');
+    const handlePageChange = (page: number) => {
+        setTransactionPage({ walletId, page });
     };
 
-    // Loading state
-    if (isLoadingWallet) {
+    // Loading state, including switching to another wallet
+    if (isLoadingWallet || (isFetchingWallet && !wallet)) {
         return (
             <div className="flex h-screen w-full overflow-hidden">
                 <Sidebar
@@ -139,7 +146,32 @@ export const WalletDetailsPage = () => {
         );
     }
 
-    // Wallet not found
+    // Load failed for another reason (network, server error) - offer a retry
+    if (walletError && !isNotFoundError(walletError)) {
+        return (
+            <div className="flex h-screen w-full overflow-hidden">
+                <Sidebar
+                    isOpen={isSidebarOpen}
+                    onClose={() => setIsSidebarOpen(false)}
+                    currentPath="/wallets"
+                />
+                <main className="flex-1 flex flex-col items-center justify-center bg-[#0a0f1a] gap-4">
+                    <span className="material-symbols-outlined text-6xl text-red-400">
+                        error
+                    </span>
+                    <p className="text-white text-lg">{WALLET_DETAILS_PAGE_TEXT.LOAD_ERROR}</p>
+                    <button
+                        onClick={refetchWallet}
+                        className="text-blue-500 hover:underline"
+                    >
+                        {WALLET_DETAILS_PAGE_TEXT.RETRY}
+                    </button>
+                </main>
+            </div>
+        );
+    }
+
+    // Wallet not found, or not owned by this user (the API answers 404/403 for both)
     if (!wallet) {
         return (
             <div className="flex h-screen w-full overflow-hidden">
@@ -153,6 +185,7 @@ export const WalletDetailsPage = () => {
                         account_balance_wallet
                     </span>
                     <p className="text-white text-lg">{WALLET_DETAILS_PAGE_TEXT.NOT_FOUND}</p>
+                    <p className="text-slate-400 text-sm">{WALLET_DETAILS_PAGE_TEXT.NOT_FOUND_DESCRIPTION}</p>
                     <button
                         onClick={() => navigate('/wallets')}
                         className="text-blue-500 hover:underline"
@@ -205,13 +238,13 @@ export const WalletDetailsPage = () => {
                     </nav>
                     <div className="flex items-center gap-3">
                         <button
-                            onClick={handleExportCSV}
+                            onClick={handleExport}
                             className="px-4 py-2 bg-[#161E2C] border border-slate-700 rounded-lg text-sm font-medium hover:border-blue-500 transition-colors flex items-center gap-2 text-slate-300"
                         >
                             <span className="material-symbols-outlined text-base">
                                 file_download
                             </span>
-                            {WALLET_DETAILS_TEXT.EXPORT_CSV}
+                            {WALLET_DETAILS_TEXT.EXPORT}
                         </button>
                         <button
                             onClick={handleTopUp}
@@ -243,8 +276,8 @@ export const WalletDetailsPage = () => {
                                         {wallet.name}
                                     </h1>
                                     <p className="text-slate-400 text-xs flex items-center gap-1.5">
-                                        <span className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse" />
-                                        {WALLET_DETAILS_TEXT.ACTIVE}
+                                        <span className={`w-1.5 h-1.5 rounded-full ${statusDotClasses[wallet.status]}`} />
+                                        {WALLET_DETAILS_TEXT.STATUS_LABELS[wallet.status]}
                                     </p>
                                 </div>
                                 <div className="ml-auto flex gap-2">
@@ -273,20 +306,23 @@ export const WalletDetailsPage = () => {
                                     <span className="text-4xl font-extrabold text-white tracking-tight">
                                         {formatCurrency(wallet.balance, wallet.currency)}
                                     </span>
-                                    <span className="text-green-400 font-medium text-base">
-                                        {DYNAMIC_TEXT.GROWTH_PERCENT(growthPercent)}
-                                    </span>
+                                    {wallet.growthPercent !== null && (
+                                        <span className={`font-medium text-base ${wallet.growthPercent < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                                            {WALLET_DETAILS_TEXT.BALANCE_CHANGE(wallet.growthPercent)}
+                                        </span>
+                                    )}
                                 </div>
                             </div>
 
                             {/* Mini Progress Bars */}
                             <div className="flex items-end gap-2 h-2">
-                                {MOCK_WALLET_DETAILS.chartData.map((value, index) => {
-                                    const isLast = index === MOCK_WALLET_DETAILS.chartData.length - 1;
-                                    const widthPercent = (value / 100) * 100;
+                                {weeklyChartData.map((point, index) => {
+                                    const isLast = index === weeklyChartData.length - 1;
+                                    const widthPercent = weeklyMax > 0 ? (point.value / weeklyMax) * 100 : 0;
                                     return (
                                         <div
                                             key={index}
+                                            title={point.label}
                                             className={`flex-1 bg-white/5 rounded-full overflow-hidden ${isLast ? 'ring-1 ring-blue-500' : ''
                                                 }`}
                                         >
@@ -304,10 +340,10 @@ export const WalletDetailsPage = () => {
                     {/* Overview Panel - Takes 1 column */}
                     <div className="lg:col-span-1">
                         <WalletOverviewPanel
-                            totalIncome={MOCK_WALLET_DETAILS.totalIncome}
-                            totalSpent={MOCK_WALLET_DETAILS.totalSpent}
-                            apyGrowth={MOCK_WALLET_DETAILS.apyGrowth}
+                            totalIncome={wallet.totalIncome}
+                            totalSpent={wallet.totalSpent}
                             currency={wallet.currency}
+                            onViewReport={() => navigate('/analytics')}
                         />
                     </div>
                 </div>
@@ -317,31 +353,32 @@ export const WalletDetailsPage = () => {
                     {/* Left Column - Chart + Transactions (3 columns) */}
                     <div className="lg:col-span-3 space-y-5">
                         <BalanceTrendsChart
-                            currentBalance={wallet.balance}
+                            walletId={wallet.walletId}
                             currency={wallet.currency}
-                            data={MOCK_WALLET_DETAILS.chartData}
                         />
 
                         <WalletDetailsTransactionTable
-                            transactions={MOCK_TRANSACTIONS}
+                            transactions={transactionData?.items ?? []}
                             currency={wallet.currency}
-                            walletId={walletId}
+                            walletId={wallet.walletId}
+                            isLoading={isLoadingTransactions}
+                            isError={isTransactionsError}
+                            onRetry={refetchTransactions}
+                            currentPage={currentPage}
+                            totalPages={Math.max(totalPages, currentPage)}
+                            onPageChange={handlePageChange}
                         />
                     </div>
 
-                    {/* Right Column - Metadata + Insights (1 column) */}
+                    {/* Right Column - Metadata (1 column) */}
                     <div className="lg:col-span-1 space-y-5">
                         <TechnicalMetadata
-                            ledgerAddress={MOCK_WALLET_DETAILS.ledgerAddress}
-                            creationDate={MOCK_WALLET_DETAILS.creationDate}
-                            walletType={MOCK_WALLET_DETAILS.walletType}
-                            is2FAEnabled={MOCK_WALLET_DETAILS.is2FAEnabled}
-                            isColdStorage={MOCK_WALLET_DETAILS.isColdStorage}
-                        />
-
-                        <PortfolioInsights
-                            walletName={wallet.name}
-                            performancePercent={MOCK_WALLET_DETAILS.performancePercent}
+                            walletId={wallet.walletId}
+                            creationDate={wallet.createdAt}
+                            currency={wallet.currency}
+                            status={wallet.status}
+                            isDefault={wallet.isDefault}
+                            is2FAEnabled={mfaStatus?.enabled ?? false}
                         />
                     </div>
                 </div>
@@ -362,6 +399,14 @@ export const WalletDetailsPage = () => {
                 onClose={() => setIsTopUpModalOpen(false)}
                 walletId={walletId}
             />
+
+            {/* Export Modal */}
+            <ExportTransactionsModal
+                isOpen={isExportModalOpen}
+                onClose={() => setIsExportModalOpen(false)}
+                walletId={walletId}
+                walletName={wallet.name}
+            />
         </div>
     );
 };
@@ -8,6 +8,8 @@ import { TransferModal } from '../components/TransferModal';
 import { TopUpModal } from '../components/TopUpModal';
 import { EditWalletNameModal } from '../components/EditWalletNameModal';
 import { LoadingSkeleton } from '../../../components/ui/LoadingSkeleton';
+import { DEFAULT_CURRENCY } from '../../../utils/currency';
+import { sumByCurrency, zeroMoney } from '../../../utils/money';
 import { APP_NAME, WALLETS_TEXT, WALLETS_PAGE_TEXT } from '../constants/text';
 import { useCreateWalletMutation, useGetWalletQuery, useGetRecentTransactionsQuery, useUpdateWalletNameMutation, useGetMonthlyGrowthQuery } from '../services/walletApi';
 import type { WalletSummary, CreateWalletFormData, CurrencyEnum } from '../types';
@@ -51,20 +53,14 @@ export const WalletsPage = () => {
             currency: wallet.currency,
             icon: 'account_balance_wallet',
             colorVariant: 'blue' as const,
-            chartData: [
-                { value: 0 },
-                { value: 0 },
-                { value: 0 },
-                { value: 0 },
-                { value: 0 },
-                { value: 0 },
-                { value: wallet.balance > 0 ? 100 : 0 },
-            ],
         }))
         : [];
 
-    // Calculate total net worth
-    const totalNetWorth = wallets.reduce((sum, wallet) => sum + wallet.balance, 0);
+    // Net worth per currency; balances in different currencies are not added up
+    const netWorthTotals = sumByCurrency(wallets.map((wallet) => ({ amount: wallet.balance, currency: wallet.currency })));
+
+    // Count distinct wallet currencies
+    const activeCurrencies = new Set(wallets.map((wallet) => wallet.currency)).size;
 
     /**
      * Opens the add new wallet modal
@@ -219,10 +215,9 @@ export const WalletsPage = () => {
 
                     {/* Net Worth Summary */}
                     <NetWorthCard
-                        totalNetWorth={totalNetWorth}
-                        currency="SGD"
+                        totals={netWorthTotals.length > 0 ? netWorthTotals : [zeroMoney(DEFAULT_CURRENCY)]}
                         monthlyGrowth={monthlyGrowthData?.monthlyGrowth ?? 0}
-                        activeCurrencies={wallets.length}
+                        activeCurrencies={activeCurrencies}
                     />
 
                     {/* Wallet Cards Grid */}
@@ -64,6 +64,10 @@ vi.mock('../../components/TopUpModal', () => ({
     TopUpModal: () => null,
 }));
 
+vi.mock('../../components/UpcomingTransfersCard', () => ({
+    UpcomingTransfersCard: () => <div data-testid="upcoming-transfers-card">Upcoming Transfers</div>,
+}));
+
 // Generators for property tests
 const loadingStateArbitrary = fc.record({
     isLoadingWallet: fc.boolean(),
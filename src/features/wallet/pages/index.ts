@@ -2,3 +2,10 @@ export { DashboardPage } from './DashboardPage';
 export { TransactionHistoryPage } from './TransactionHistoryPage';
 export { WalletsPage } from './WalletsPage';
 export { WalletDetailsPage } from './WalletDetailsPage';
+export { ExchangePage } from './ExchangePage';
+export { AnalyticsPage } from './AnalyticsPage';
+export { ScheduledTransfersPage } from './ScheduledTransfersPage';
+export { PaymentRequestsPage } from './PaymentRequestsPage';
+export { PayRequestPage } from './PayRequestPage';
+export { SplitBillDetailsPage } from './SplitBillDetailsPage';
+export { BulkTransferPage } from './BulkTransferPage';
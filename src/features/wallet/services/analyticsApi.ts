@@ -0,0 +1,33 @@
+import { protectedApi, CACHE_DURATIONS } from '../../../store/api';
+import type { GetSpendingAnalyticsParams, GetSpendingAnalyticsResponse } from '../types';
+
+/** Base path for wallet stats endpoints */
+const STATS_BASE_PATH = '/wallet/stats';
+
+// Inject analytics endpoints into the PROTECTED API (requires auth)
+export const analyticsApi = protectedApi.injectEndpoints({
+    endpoints: (builder) => ({
+        /**
+         * Gets income and spending aggregated by month, category, wallet and counterparty
+         * Amounts come back converted into the requested currency, so wallets in different
+         * currencies are never added together as if they were one
+         * User ID is extracted from the auth header by the backend
+         *
+         * Cache: SEMI_STABLE (300s / 5 minutes)
+         * Aggregates change with each transaction but don't need real-time updates.
+         * Cache is invalidated when transactions occur.
+         * @param params - Inclusive date range and base currency
+         */
+        getSpendingAnalytics: builder.query<GetSpendingAnalyticsResponse, GetSpendingAnalyticsParams>({
+            query: ({ startDate, endDate, currency }) =>
+                `${STATS_BASE_PATH}/analytics?${new URLSearchParams({ startDate, endDate, currency }).toString()}`,
+            providesTags: ['Transaction'],
+            keepUnusedDataFor: CACHE_DURATIONS.SEMI_STABLE,
+        }),
+    }),
+});
+
+// Export auto-generated hooks
+export const {
+    useGetSpendingAnalyticsQuery,
+} = analyticsApi;
@@ -0,0 +1,47 @@
+import { protectedApi } from '../../../store/api';
+import type {
+    CreateExchangeQuoteRequest,
+    ExchangeQuoteResponse,
+    ExecuteExchangeRequest,
+    ExchangeResponse,
+} from '../types';
+
+/** Base path for exchange API endpoints */
+const EXCHANGE_BASE_PATH = '/wallet/exchange';
+
+// Inject exchange endpoints into the PROTECTED API (requires auth)
+export const exchangeApi = protectedApi.injectEndpoints({
+    endpoints: (builder) => ({
+        /**
+         * Requests a rate quote for exchanging funds between two wallets
+         * Quotes expire quickly, so this is a mutation rather than a cached query
+         * @param body - Source wallet, destination wallet and amount to sell
+         */
+        createExchangeQuote: builder.mutation<ExchangeQuoteResponse, CreateExchangeQuoteRequest>({
+            query: (body) => ({
+                url: `${EXCHANGE_BASE_PATH}/quote`,
+                method: 'POST',
+                body,
+            }),
+        }),
+
+        /**
+         * Executes an unexpired quote, debiting the source wallet and crediting the destination
+         * @param body - ID of the quote to execute
+         */
+        executeExchange: builder.mutation<ExchangeResponse, ExecuteExchangeRequest>({
+            query: (body) => ({
+                url: EXCHANGE_BASE_PATH,
+                method: 'POST',
+                body,
+            }),
+            invalidatesTags: ['Wallet', 'Transaction'],
+        }),
+    }),
+});
+
+// Export auto-generated hooks
+export const {
+    useCreateExchangeQuoteMutation,
+    useExecuteExchangeMutation,
+} = exchangeApi;
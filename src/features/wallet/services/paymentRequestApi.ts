@@ -0,0 +1,87 @@
+import { protectedApi } from '../../../store/api';
+import type {
+    CreatePaymentRequestRequest,
+    GetPaymentRequestsResponse,
+    PaymentRequest,
+} from '../types';
+import { roundToMinorUnits } from '../../../utils/money';
+
+/** Base path for payment request API endpoints */
+const PAYMENT_REQUESTS_BASE_PATH = '/wallet/payment-requests';
+
+/**
+ * Snaps a request's amount to its currency's minor units, as for other wallet amounts
+ * @param request - Payment request from the API
+ */
+const normalizeRequest = (request: PaymentRequest): PaymentRequest => ({
+    ...request,
+    amount: roundToMinorUnits(request.amount, request.currency),
+});
+
+// Inject payment request endpoints into the PROTECTED API (requires auth)
+// Requests are paid with the wallet `transfer` mutation, passing `paymentRequestId`
+export const paymentRequestApi = protectedApi.injectEndpoints({
+    endpoints: (builder) => ({
+        /**
+         * Gets the requests the user sent and the ones addressed to them
+         *
+         * Cache: FREQUENT (60s / 1 minute) - uses default from protectedApi
+         * Statuses change when the other party pays or declines.
+         */
+        getPaymentRequests: builder.query<GetPaymentRequestsResponse, void>({
+            query: () => PAYMENT_REQUESTS_BASE_PATH,
+            transformResponse: (response: GetPaymentRequestsResponse) => ({
+                sent: response.sent.map(normalizeRequest),
+                received: response.received.map(normalizeRequest),
+            }),
+            providesTags: ['PaymentRequest'],
+        }),
+
+        /**
+         * Gets a single request by ID, as opened from a pay link
+         * Any logged-in user may view link requests; requests addressed to
+         * someone else return 403
+         * @param requestId - The request ID (path variable)
+         */
+        getPaymentRequest: builder.query<PaymentRequest, string>({
+            query: (requestId) => `${PAYMENT_REQUESTS_BASE_PATH}/${requestId}`,
+            transformResponse: normalizeRequest,
+            providesTags: ['PaymentRequest'],
+        }),
+
+        /**
+         * Requests money from a contact, or creates a shareable link request
+         * @param body - Receiving wallet, amount, note, expiry and optional payer
+         */
+        createPaymentRequest: builder.mutation<PaymentRequest, CreatePaymentRequestRequest>({
+            query: (body) => ({
+                url: PAYMENT_REQUESTS_BASE_PATH,
+                method: 'POST',
+                body,
+            }),
+            transformResponse: normalizeRequest,
+            invalidatesTags: ['PaymentRequest'],
+        }),
+
+        /**
+         * Declines a pending request addressed to the user
+         * @param requestId - The request to decline
+         */
+        declinePaymentRequest: builder.mutation<PaymentRequest, string>({
+            query: (requestId) => ({
+                url: `${PAYMENT_REQUESTS_BASE_PATH}/${requestId}/decline`,
+                method: 'POST',
+            }),
+            transformResponse: normalizeRequest,
+            invalidatesTags: ['PaymentRequest'],
+        }),
+    }),
+});
+
+// Export auto-generated hooks
+export const {
+    useGetPaymentRequestsQuery,
+    useGetPaymentRequestQuery,
+    useCreatePaymentRequestMutation,
+    useDeclinePaymentRequestMutation,
+} = paymentRequestApi;
@@ -0,0 +1,118 @@
+import { protectedApi } from '../../../store/api';
+import type {
+    CreateScheduledTransferRequest,
+    GetScheduledTransfersResponse,
+    ScheduledTransfer,
+    UpdateScheduledTransferRequest,
+} from '../types';
+import { roundToMinorUnits } from '../../../utils/money';
+
+/** Base path for scheduled transfer API endpoints */
+const SCHEDULED_TRANSFERS_BASE_PATH = '/wallet/scheduled-transfers';
+
+/**
+ * Snaps a schedule's amount to its currency's minor units, as for other wallet amounts
+ * @param schedule - Schedule from the API
+ */
+const normalizeSchedule = (schedule: ScheduledTransfer): ScheduledTransfer => ({
+    ...schedule,
+    amount: roundToMinorUnits(schedule.amount, schedule.currency),
+});
+
+// Inject scheduled transfer endpoints into the PROTECTED API (requires auth)
+export const scheduledTransferApi = protectedApi.injectEndpoints({
+    endpoints: (builder) => ({
+        /**
+         * Gets every scheduled transfer for the authenticated user, including
+         * completed and cancelled ones
+         *
+         * Cache: FREQUENT (60s / 1 minute) - uses default from protectedApi
+         * Next run dates move forward as schedules run.
+         */
+        getScheduledTransfers: builder.query<GetScheduledTransfersResponse, void>({
+            query: () => SCHEDULED_TRANSFERS_BASE_PATH,
+            transformResponse: (response: GetScheduledTransfersResponse) => ({
+                schedules: response.schedules.map(normalizeSchedule),
+            }),
+            providesTags: ['ScheduledTransfer'],
+        }),
+
+        /**
+         * Schedules a one-off transfer for a future date, or a recurring transfer
+         * @param body - Transfer details plus start date, recurrence and optional end date;
+         * amounts above the step-up threshold carry a step-up token, as immediate transfers do
+         */
+        createScheduledTransfer: builder.mutation<ScheduledTransfer, CreateScheduledTransferRequest>({
+            query: (body) => ({
+                url: SCHEDULED_TRANSFERS_BASE_PATH,
+                method: 'POST',
+                body,
+            }),
+            transformResponse: normalizeSchedule,
+            invalidatesTags: ['ScheduledTransfer'],
+        }),
+
+        /**
+         * Edits the amount, note or timing of a scheduled transfer
+         * @param scheduleId - The schedule to edit (path variable)
+         */
+        updateScheduledTransfer: builder.mutation<ScheduledTransfer, UpdateScheduledTransferRequest>({
+            query: ({ scheduleId, ...body }) => ({
+                url: `${SCHEDULED_TRANSFERS_BASE_PATH}/${scheduleId}`,
+                method: 'PATCH',
+                body,
+            }),
+            transformResponse: normalizeSchedule,
+            invalidatesTags: ['ScheduledTransfer'],
+        }),
+
+        /**
+         * Pauses an active schedule; runs due while paused are skipped
+         * @param scheduleId - The schedule to pause
+         */
+        pauseScheduledTransfer: builder.mutation<ScheduledTransfer, string>({
+            query: (scheduleId) => ({
+                url: `${SCHEDULED_TRANSFERS_BASE_PATH}/${scheduleId}/pause`,
+                method: 'POST',
+            }),
+            transformResponse: normalizeSchedule,
+            invalidatesTags: ['ScheduledTransfer'],
+        }),
+
+        /**
+         * Resumes a paused schedule from its next future run date
+         * @param scheduleId - The schedule to resume
+         */
+        resumeScheduledTransfer: builder.mutation<ScheduledTransfer, string>({
+            query: (scheduleId) => ({
+                url: `${SCHEDULED_TRANSFERS_BASE_PATH}/${scheduleId}/resume`,
+                method: 'POST',
+            }),
+            transformResponse: normalizeSchedule,
+            invalidatesTags: ['ScheduledTransfer'],
+        }),
+
+        /**
+         * Cancels a schedule; it stays in the list for history but never runs again
+         * @param scheduleId - The schedule to cancel
+         */
+        cancelScheduledTransfer: builder.mutation<ScheduledTransfer, string>({
+            query: (scheduleId) => ({
+                url: `${SCHEDULED_TRANSFERS_BASE_PATH}/${scheduleId}/cancel`,
+                method: 'POST',
+            }),
+            transformResponse: normalizeSchedule,
+            invalidatesTags: ['ScheduledTransfer'],
+        }),
+    }),
+});
+
+// Export auto-generated hooks
+export const {
+    useGetScheduledTransfersQuery,
+    useCreateScheduledTransferMutation,
+    useUpdateScheduledTransferMutation,
+    usePauseScheduledTransferMutation,
+    useResumeScheduledTransferMutation,
+    useCancelScheduledTransferMutation,
+} = scheduledTransferApi;
@@ -0,0 +1,90 @@
+import { protectedApi } from '../../../store/api';
+import type {
+    CreateSplitBillRequest,
+    GetSplitBillsResponse,
+    SendSplitReminderRequest,
+    SplitBill,
+    SplitBillParticipant,
+} from '../types';
+import { roundToMinorUnits } from '../../../utils/money';
+
+/** Base path for split bill API endpoints */
+const SPLIT_BILLS_BASE_PATH = '/wallet/split-bills';
+
+/**
+ * Snaps a split's total and shares to its currency's minor units, as for other wallet amounts
+ * @param split - Split bill from the API
+ */
+const normalizeSplit = (split: SplitBill): SplitBill => ({
+    ...split,
+    totalAmount: roundToMinorUnits(split.totalAmount, split.currency),
+    participants: split.participants.map((participant) => ({
+        ...participant,
+        amount: roundToMinorUnits(participant.amount, split.currency),
+    })),
+});
+
+// Inject split bill endpoints into the PROTECTED API (requires auth)
+// Each participant's share is an ordinary payment request, paid from the pay page
+export const splitBillApi = protectedApi.injectEndpoints({
+    endpoints: (builder) => ({
+        /**
+         * Gets the bills the user has split, newest first
+         *
+         * Cache: FREQUENT (60s / 1 minute) - uses default from protectedApi
+         * Participant statuses change as their payment requests are paid.
+         */
+        getSplitBills: builder.query<GetSplitBillsResponse, void>({
+            query: () => SPLIT_BILLS_BASE_PATH,
+            transformResponse: (response: GetSplitBillsResponse) => ({
+                splits: response.splits.map(normalizeSplit),
+            }),
+            providesTags: ['SplitBill'],
+        }),
+
+        /**
+         * Gets a single split bill with its participants
+         * @param splitId - The split ID (path variable)
+         */
+        getSplitBill: builder.query<SplitBill, string>({
+            query: (splitId) => `${SPLIT_BILLS_BASE_PATH}/${splitId}`,
+            transformResponse: normalizeSplit,
+            providesTags: ['SplitBill'],
+        }),
+
+        /**
+         * Splits a bill and sends a payment request to every participant
+         * @param body - Receiving wallet, total, split method, shares and expiry
+         */
+        createSplitBill: builder.mutation<SplitBill, CreateSplitBillRequest>({
+            query: (body) => ({
+                url: SPLIT_BILLS_BASE_PATH,
+                method: 'POST',
+                body,
+            }),
+            transformResponse: normalizeSplit,
+            invalidatesTags: ['SplitBill', 'PaymentRequest'],
+        }),
+
+        /**
+         * Reminds a participant who has not paid yet
+         * @param splitId - The split bill
+         * @param participantId - The participant to remind
+         */
+        sendSplitReminder: builder.mutation<SplitBillParticipant, SendSplitReminderRequest>({
+            query: ({ splitId, participantId }) => ({
+                url: `${SPLIT_BILLS_BASE_PATH}/${splitId}/participants/${participantId}/remind`,
+                method: 'POST',
+            }),
+            invalidatesTags: ['SplitBill'],
+        }),
+    }),
+});
+
+// Export auto-generated hooks
+export const {
+    useGetSplitBillsQuery,
+    useGetSplitBillQuery,
+    useCreateSplitBillMutation,
+    useSendSplitReminderMutation,
+} = splitBillApi;
@@ -8,6 +8,7 @@ import type {
     TransferResponse,
     GetBalanceResponse,
     TransactionHistoryItem,
+    TransactionHistoryPage,
     GetTransactionHistoryParams,
     ReserveFundsRequest,
     ReserveFundsResponse,
@@ -16,16 +17,28 @@ import type {
     ConfirmReservationResponse,
     CancelReservationResponse,
     GetWalletResponse,
+    GetWalletDetailsResponse,
     ActivityItem,
     UpdateWalletNameRequest,
     UpdateWalletNameResponse,
     GetMonthlySummaryResponse,
     GetMonthlyGrowthResponse,
+    GetBalanceHistoryParams,
+    GetBalanceHistoryResponse,
 } from '../types';
+import { toHistoryQueryString } from '../utils/transactionHistoryParams';
+import { roundToMinorUnits } from '../../../utils/money';
+import { isReplayedResponse } from '../../../utils/idempotency';
 
 /** Base path for wallet API endpoints */
 const WALLET_BASE_PATH = '/wallet';
 
+/** Number of items the backend returns per transaction history page */
+export const TRANSACTION_HISTORY_PAGE_SIZE = 10;
+
+/** Response header carrying the total number of matching transactions */
+const TOTAL_COUNT_HEADER = 'X-Total-Count';
+
 // Inject wallet endpoints into the PROTECTED API (requires auth)
 export const walletApi = protectedApi.injectEndpoints({
     endpoints: (builder) => ({
@@ -60,26 +73,39 @@ export const walletApi = protectedApi.injectEndpoints({
 
         /**
          * Tops up the wallet balance
+         * Retrying with the same idempotency key returns the original top-up, marked as replayed
          */
         topUpWallet: builder.mutation<TopUpWalletResponse, TopUpWalletRequest>({
-            query: (body) => ({
+            query: ({ idempotencyKey, ...body }) => ({
                 url: `${WALLET_BASE_PATH}/topup`,
                 method: 'POST',
                 body,
+                idempotencyKey,
+            }),
+            transformResponse: (response: TopUpWalletResponse, meta) => ({
+                ...response,
+                replayed: isReplayedResponse(meta?.response),
             }),
             invalidatesTags: ['Wallet', 'Transaction', 'PaymentMethod'],
         }),
 
         /**
          * Transfers funds between wallets
+         * Retrying with the same idempotency key returns the original transfer, marked as replayed
          */
         transfer: builder.mutation<TransferResponse, TransferRequest>({
-            query: (body) => ({
+            query: ({ idempotencyKey, ...body }) => ({
                 url: `${WALLET_BASE_PATH}/transfer`,
                 method: 'POST',
                 body,
+                idempotencyKey,
             }),
-            invalidatesTags: ['Wallet', 'Transaction'],
+            transformResponse: (response: TransferResponse, meta) => ({
+                ...response,
+                replayed: isReplayedResponse(meta?.response),
+            }),
+            // Contacts carry the last time they were paid, and paying a request settles it
+            invalidatesTags: ['Wallet', 'Transaction', 'Contact', 'PaymentRequest'],
         }),
 
         /**
@@ -99,9 +125,40 @@ export const walletApi = protectedApi.injectEndpoints({
         }),
 
         /**
-         * Gets transaction history with optional wallet filter and pagination
+         * Gets a wallet's closing balance per bucket over a period
+         * @param walletId - The wallet ID to get history for
+         * @param period - DAY (hourly), WEEK and MONTH (daily) or YEAR (monthly) buckets
+         * 
+         * Cache: SEMI_STABLE (300s / 5 minutes)
+         * History only changes in the latest bucket, and is refetched when
+         * wallet or transaction tags are invalidated.
+         */
+        getBalanceHistory: builder.query<GetBalanceHistoryResponse, GetBalanceHistoryParams>({
+            query: ({ walletId, period }) => `${WALLET_BASE_PATH}/${walletId}/balance-history?period=${period}`,
+            // Snap balances to the wallet's minor units, as for getWallet
+            transformResponse: (response: GetBalanceHistoryResponse) => ({
+                ...response,
+                points: response.points.map((point) => ({
+                    ...point,
+                    balance: roundToMinorUnits(point.balance, response.currency),
+                })),
+            }),
+            providesTags: ['Wallet', 'Transaction'],
+            keepUnusedDataFor: CACHE_DURATIONS.SEMI_STABLE,
+        }),
+
+        /**
+         * Gets one page of transaction history with optional server-side filters
          * @param walletId - Optional wallet ID to filter transactions
          * @param offset - Pagination offset (1-based, defaults to 1)
+         * @param startDate / endDate - Optional inclusive date range (YYYY-MM-DD)
+         * @param transactionType / referenceType / status - Optional enum filters
+         * @param minAmount / maxAmount - Optional inclusive amount range
+         * @param query - Optional free-text search
+         * 
+         * The body is the page of items; the total match count comes from the
+         * X-Total-Count header. Without the header the count falls back to a lower
+         * bound that still allows moving to the next page when this page is full.
          * 
          * Cache: FREQUENT (60s / 1 minute) - uses default from protectedApi
          * Transactions update frequently as users make payments and transfers.
@@ -109,14 +166,25 @@ export const walletApi = protectedApi.injectEndpoints({
          * while still reducing unnecessary API calls.
          */
         getTransactionHistory: builder.query<
-            TransactionHistoryItem[],
+            TransactionHistoryPage,
             GetTransactionHistoryParams
         >({
-            query: ({ walletId, offset = 1 }) => {
-                const params = new URLSearchParams();
-                if (walletId) params.append('walletId', walletId);
-                params.append('offset', offset.toString());
-                return `${WALLET_BASE_PATH}/history?${params.toString()}`;
+            query: (params) => `${WALLET_BASE_PATH}/history?${toHistoryQueryString(params)}`,
+            transformResponse: (items: TransactionHistoryItem[], meta, { offset = 1 }) => {
+                const header = meta?.response?.headers.get(TOTAL_COUNT_HEADER);
+                const previousCount = (offset - 1) * TRANSACTION_HISTORY_PAGE_SIZE;
+                const fallbackCount = previousCount + items.length
+                    + (items.length === TRANSACTION_HISTORY_PAGE_SIZE ? 1 : 0);
+                const totalCount = header && Number.isFinite(Number(header))
+                    ? Number(header)
+                    : fallbackCount;
+
+                return {
+                    items: items.map((item) => ({ ...item, amount: roundToMinorUnits(item.amount, item.currency) })),
+                    totalCount,
+                    page: offset,
+                    pageSize: TRANSACTION_HISTORY_PAGE_SIZE,
+                };
             },
             providesTags: ['Transaction'],
             // Uses default FREQUENT cache duration (60s) - transactions update frequently
@@ -182,11 +250,38 @@ export const walletApi = protectedApi.injectEndpoints({
          */
         getWallet: builder.query<GetWalletResponse[], void>({
             query: () => `${WALLET_BASE_PATH}/user`,
+            // Snap balances to each wallet's minor units so UI arithmetic starts exact
+            transformResponse: (wallets: GetWalletResponse[]) =>
+                wallets.map((wallet) => ({ ...wallet, balance: roundToMinorUnits(wallet.balance, wallet.currency) })),
             providesTags: ['Wallet'],
             // Use SEMI_STABLE cache duration - wallet details change infrequently
             keepUnusedDataFor: CACHE_DURATIONS.SEMI_STABLE,
         }),
 
+        /**
+         * Gets a single wallet with its income/spent totals, creation date and status
+         * @param walletId - The wallet ID to fetch
+         * 
+         * The backend answers 404 for wallets that do not exist or belong to
+         * another user, so callers can treat both the same way.
+         * 
+         * Cache: SEMI_STABLE (300s / 5 minutes)
+         * Totals change with each transaction, so the wallet and transaction
+         * tags both refetch it.
+         */
+        getWalletById: builder.query<GetWalletDetailsResponse, string>({
+            query: (walletId) => `${WALLET_BASE_PATH}/${walletId}`,
+            // Snap amounts to the wallet's minor units, as for getWallet
+            transformResponse: (wallet: GetWalletDetailsResponse) => ({
+                ...wallet,
+                balance: roundToMinorUnits(wallet.balance, wallet.currency),
+                totalIncome: roundToMinorUnits(wallet.totalIncome, wallet.currency),
+                totalSpent: roundToMinorUnits(wallet.totalSpent, wallet.currency),
+            }),
+            providesTags: ['Wallet', 'Transaction'],
+            keepUnusedDataFor: CACHE_DURATIONS.SEMI_STABLE,
+        }),
+
         /**
          * Gets recent transactions across all user wallets
          * Returns the 5 most recent transactions for display in activity summary
@@ -197,6 +292,8 @@ export const walletApi = protectedApi.injectEndpoints({
          */
         getRecentTransactions: builder.query<ActivityItem[], void>({
             query: () => `${WALLET_BASE_PATH}/transactions/recent`,
+            transformResponse: (items: ActivityItem[]) =>
+                items.map((item) => ({ ...item, amount: roundToMinorUnits(item.amount, item.currency) })),
             providesTags: ['Transaction'],
             // Uses default FREQUENT cache duration (60s) - recent activity updates frequently
         }),
@@ -243,7 +340,9 @@ export const {
     useConfirmReservationMutation,
     useCancelReservationMutation,
     useGetWalletQuery,
+    useGetWalletByIdQuery,
     useGetRecentTransactionsQuery,
     useGetMonthlySummaryQuery,
     useGetMonthlyGrowthQuery,
+    useGetBalanceHistoryQuery,
 } = walletApi;
@@ -5,6 +5,11 @@
 /** Supported currencies */
 export const CurrencyEnum = {
     SGD: 'SGD',
+    USD: 'USD',
+    EUR: 'EUR',
+    GBP: 'GBP',
+    JPY: 'JPY',
+    AUD: 'AUD',
 } as const;
 
 export type CurrencyEnum = (typeof CurrencyEnum)[keyof typeof CurrencyEnum];
@@ -35,6 +40,8 @@ export const ReferenceTypeEnum = {
     TRANSFER: 'TRANSFER',
     /** Transaction related to a wallet top-up */
     TOPUP: 'TOPUP',
+    /** Transaction related to a currency exchange between the user's own wallets */
+    EXCHANGE: 'EXCHANGE',
 } as const;
 
 export type ReferenceTypeEnum = (typeof ReferenceTypeEnum)[keyof typeof ReferenceTypeEnum];
@@ -51,6 +58,70 @@ export const WalletTransactionStatusEnum = {
 
 export type WalletTransactionStatusEnum = (typeof WalletTransactionStatusEnum)[keyof typeof WalletTransactionStatusEnum];
 
+/** Lifecycle status of a wallet */
+export const WalletStatusEnum = {
+    /** Wallet can send and receive funds */
+    ACTIVE: 'ACTIVE',
+    /** Wallet is temporarily blocked from moving funds (e.g., under review) */
+    FROZEN: 'FROZEN',
+    /** Wallet has been closed and is read-only */
+    CLOSED: 'CLOSED',
+} as const;
+
+export type WalletStatusEnum = (typeof WalletStatusEnum)[keyof typeof WalletStatusEnum];
+
+/** How often a scheduled transfer repeats */
+export const TransferRecurrenceEnum = {
+    /** Runs once on its start date */
+    NONE: 'NONE',
+    WEEKLY: 'WEEKLY',
+    /** Same day each month, clamped to the last day of shorter months */
+    MONTHLY: 'MONTHLY',
+    /** Every `intervalDays` days */
+    CUSTOM: 'CUSTOM',
+} as const;
+
+export type TransferRecurrenceEnum = (typeof TransferRecurrenceEnum)[keyof typeof TransferRecurrenceEnum];
+
+/** Lifecycle status of a scheduled transfer */
+export const ScheduledTransferStatusEnum = {
+    /** Will run on its next run date */
+    ACTIVE: 'ACTIVE',
+    /** Skips runs until resumed */
+    PAUSED: 'PAUSED',
+    /** Ran for the last time (one-off, or past its end date) */
+    COMPLETED: 'COMPLETED',
+    /** Cancelled by the user; kept for history */
+    CANCELLED: 'CANCELLED',
+} as const;
+
+export type ScheduledTransferStatusEnum = (typeof ScheduledTransferStatusEnum)[keyof typeof ScheduledTransferStatusEnum];
+
+/** Lifecycle status of a payment request */
+export const PaymentRequestStatusEnum = {
+    /** Waiting for the payer */
+    PENDING: 'PENDING',
+    PAID: 'PAID',
+    /** Not paid before its expiry */
+    EXPIRED: 'EXPIRED',
+    /** Turned down by the payer */
+    DECLINED: 'DECLINED',
+} as const;
+
+export type PaymentRequestStatusEnum = (typeof PaymentRequestStatusEnum)[keyof typeof PaymentRequestStatusEnum];
+
+/** How a split bill's total is divided between participants */
+export const SplitMethodEnum = {
+    /** Everyone pays the same, give or take a minor unit */
+    EQUAL: 'EQUAL',
+    /** Each participant pays a percentage of the total */
+    PERCENTAGE: 'PERCENTAGE',
+    /** Each participant pays an amount entered by the user */
+    CUSTOM: 'CUSTOM',
+} as const;
+
+export type SplitMethodEnum = (typeof SplitMethodEnum)[keyof typeof SplitMethodEnum];
+
 // UI-specific enums (kept for backward compatibility with existing components)
 export const TransactionStatus = {
     SUCCESS: 'success',
@@ -70,6 +141,16 @@ export const TransactionType = {
 
 export type TransactionType = (typeof TransactionType)[keyof typeof TransactionType];
 
+/** File formats supported by the transaction history export */
+export const ExportFormat = {
+    CSV: 'csv',
+    JSON: 'json',
+    OFX: 'ofx',
+    QIF: 'qif',
+} as const;
+
+export type ExportFormat = (typeof ExportFormat)[keyof typeof ExportFormat];
+
 // ============================================
 // API Request Types
 // ============================================
@@ -97,6 +178,8 @@ export interface TopUpWalletRequest {
     walletId: string;
     currency: CurrencyEnum;
     paymentMethodId: string;
+    /** Key of this submission, reused on retries; sent as a header and generated when omitted */
+    idempotencyKey?: string;
 }
 
 /** Request to transfer funds between wallets */
@@ -105,6 +188,76 @@ export interface TransferRequest {
     recipientEmail: string;
     amount: number;
     currency: CurrencyEnum;
+    /** Payment request this transfer pays; the server marks it paid */
+    paymentRequestId?: string;
+    /** Message shown to the recipient */
+    note?: string;
+    /** Key of this submission, reused on retries; sent as a header and generated when omitted */
+    idempotencyKey?: string;
+    /** Token from a recent two-factor check; required above the step-up threshold when 2FA is on */
+    stepUpToken?: string;
+}
+
+/** When and how often a scheduled transfer runs */
+export interface TransferSchedule {
+    /** First run date (YYYY-MM-DD, the user's local date) */
+    startDate: string;
+    recurrence: TransferRecurrenceEnum;
+    /** Days between runs; only for CUSTOM recurrence */
+    intervalDays?: number;
+    /** Last date a run may fall on (YYYY-MM-DD, inclusive); open-ended when omitted */
+    endDate?: string;
+}
+
+/** Request to schedule a future or recurring transfer */
+export interface CreateScheduledTransferRequest extends Omit<TransferRequest, 'idempotencyKey'>, TransferSchedule {
+    note?: string;
+}
+
+/** Request to edit a scheduled transfer; the payer wallet and recipient are fixed */
+export interface UpdateScheduledTransferRequest extends Partial<TransferSchedule> {
+    scheduleId: string;
+    amount?: number;
+    note?: string;
+}
+
+/** Request for money, sent to a contact or shared as a link */
+export interface CreatePaymentRequestRequest {
+    /** Wallet the money is paid into */
+    walletId: string;
+    amount: number;
+    currency: CurrencyEnum;
+    note?: string;
+    /** ISO 8601 timestamp after which the request can no longer be paid */
+    expiresAt: string;
+    /** Who should pay; omitted for link requests anyone logged in can pay */
+    payerEmail?: string;
+}
+
+/** One participant's share of a new split bill */
+export interface SplitBillShare {
+    email: string;
+    amount: number;
+}
+
+/** Request to split a bill; a payment request is sent to every participant */
+export interface CreateSplitBillRequest {
+    /** Wallet the shares are paid into */
+    walletId: string;
+    title: string;
+    totalAmount: number;
+    currency: CurrencyEnum;
+    method: SplitMethodEnum;
+    /** Shares owed by the participants; the user's own share, if any, is the rest of the total */
+    shares: SplitBillShare[];
+    /** ISO 8601 timestamp after which the payment requests can no longer be paid */
+    expiresAt: string;
+}
+
+/** Request to remind a split bill participant to pay */
+export interface SendSplitReminderRequest {
+    splitId: string;
+    participantId: string;
 }
 
 /** Request to reserve funds for a pending payment */
@@ -142,6 +295,8 @@ export interface TopUpWalletResponse {
     amount: number;
     newBalance: number;
     createdAt: string;
+    /** Set when the server returned an earlier top-up with the same idempotency key */
+    replayed?: boolean;
 }
 
 /** Response after transferring funds */
@@ -152,16 +307,99 @@ export interface TransferResponse {
     timestamp: string;
     paymentMethod: string;
     amount: number;
+    /** Set when the server returned an earlier transfer with the same idempotency key */
+    replayed?: boolean;
+}
+
+/** A scheduled transfer as returned by the API */
+export interface ScheduledTransfer extends Omit<CreateScheduledTransferRequest, 'stepUpToken'> {
+    scheduleId: string;
+    status: ScheduledTransferStatusEnum;
+    /** Display name of the payer wallet */
+    walletName: string;
+    /** Next date the transfer will run (YYYY-MM-DD), or null once completed or cancelled */
+    nextRunDate: string | null;
+    /** When the transfer last ran (ISO 8601), or null if it has not run yet */
+    lastRunAt: string | null;
+    createdAt: string;
+}
+
+/** Response for listing scheduled transfers */
+export interface GetScheduledTransfersResponse {
+    schedules: ScheduledTransfer[];
+}
+
+/** One upcoming run of a scheduled transfer */
+export interface UpcomingTransferRun {
+    scheduleId: string;
+    /** Run date (YYYY-MM-DD) */
+    runDate: string;
+    recipientEmail: string;
+    amount: number;
+    currency: CurrencyEnum;
+    walletName: string;
+}
+
+/** A payment request as returned by the API */
+export interface PaymentRequest extends Omit<CreatePaymentRequestRequest, 'payerEmail'> {
+    requestId: string;
+    /** Who should pay, or null for link requests */
+    payerEmail: string | null;
+    status: PaymentRequestStatusEnum;
+    requesterName: string;
+    requesterEmail: string;
+    createdAt: string;
+    /** When the request was paid (ISO 8601), or null */
+    paidAt: string | null;
+    /** PNG data URL of a QR code encoding the request's pay link */
+    qrCode: string;
+}
+
+/** Payment requests the user created and those addressed to them */
+export interface GetPaymentRequestsResponse {
+    sent: PaymentRequest[];
+    received: PaymentRequest[];
+}
+
+/** A participant of a split bill and the state of their payment request */
+export interface SplitBillParticipant {
+    participantId: string;
+    email: string;
+    name: string;
+    amount: number;
+    /** The payment request sent to this participant */
+    requestId: string;
+    status: PaymentRequestStatusEnum;
+    /** When the participant paid (ISO 8601), or null */
+    paidAt: string | null;
+    /** When the participant was last reminded (ISO 8601), or null if never */
+    lastRemindedAt: string | null;
+}
+
+/** A split bill as returned by the API */
+export interface SplitBill extends Omit<CreateSplitBillRequest, 'shares'> {
+    splitId: string;
+    participants: SplitBillParticipant[];
+    createdAt: string;
+}
+
+/** Response for listing split bills */
+export interface GetSplitBillsResponse {
+    splits: SplitBill[];
 }
 
 /** Response after confirming a reservation */
 export interface ConfirmReservationResponse {
     message: string;
+    /** Wallet balance after the held funds were captured */
+    remainingBalance: number;
 }
 
 /** Response after cancelling a reservation */
 export interface CancelReservationResponse {
     message: string;
+    /** Wallet balance after the held funds were released */
+    remainingBalance: number;
 }
 
 /** Response for wallet balance query */
@@ -185,12 +423,40 @@ export interface TransactionHistoryItem {
     description: string;
 }
 
-/** Request params for transaction history query */
-export interface GetTransactionHistoryParams {
+/** Server-side filters supported by the transaction history endpoint */
+export interface TransactionHistoryFilters {
     walletId?: string;
+    /** Inclusive start date (YYYY-MM-DD) */
+    startDate?: string;
+    /** Inclusive end date (YYYY-MM-DD) */
+    endDate?: string;
+    transactionType?: TransactionTypeEnum;
+    referenceType?: ReferenceTypeEnum;
+    status?: WalletTransactionStatusEnum;
+    /** Inclusive minimum absolute amount */
+    minAmount?: number;
+    /** Inclusive maximum absolute amount */
+    maxAmount?: number;
+    /** Free-text search across reference, description and wallet name */
+    query?: string;
+}
+
+/** Request params for transaction history query */
+export interface GetTransactionHistoryParams extends TransactionHistoryFilters {
+    /** Page number (1-based) */
     offset?: number;
 }
 
+/** Single page of transaction history with the total match count */
+export interface TransactionHistoryPage {
+    items: TransactionHistoryItem[];
+    /** Total number of transactions matching the filters across all pages */
+    totalCount: number;
+    /** Page number (1-based) */
+    page: number;
+    pageSize: number;
+}
+
 /** Response after reserving funds */
 export interface ReserveFundsResponse {
     walletTransactionId: string;
@@ -207,6 +473,20 @@ export interface GetWalletResponse {
     currency: CurrencyEnum;
 }
 
+/** Response for get wallet by ID, with the wallet's own totals and status */
+export interface GetWalletDetailsResponse extends GetWalletResponse {
+    status: WalletStatusEnum;
+    /** Whether this is the user's default wallet for incoming funds */
+    isDefault: boolean;
+    createdAt: string; // ISO 8601 timestamp
+    /** All-time completed credits, in the wallet currency */
+    totalIncome: number;
+    /** All-time completed debits, in the wallet currency */
+    totalSpent: number;
+    /** Balance change over the last 30 days as a percentage, or null without an earlier balance */
+    growthPercent: number | null;
+}
+
 // ============================================
 // UI/Component Types (for existing components)
 // ============================================
@@ -249,6 +529,8 @@ export type WalletColorVariant = 'blue' | 'emerald' | 'purple' | 'orange';
 /** Chart data point for mini bar charts */
 export interface ChartDataPoint {
     value: number;
+    /** Optional tooltip text (e.g., date and amount) */
+    label?: string;
 }
 
 /** Wallet summary for the wallets list page */
@@ -259,7 +541,6 @@ export interface WalletSummary {
     currency: string;
     icon: string;
     colorVariant: WalletColorVariant;
-    chartData: ChartDataPoint[];
 }
 
 /** Activity item for recent distribution activity */
@@ -269,6 +550,8 @@ export interface ActivityItem {
     description: string;
     walletName: string;
     amount: number;
+    /** Currency of the wallet the transaction belongs to */
+    currency: CurrencyEnum;
     isCredit: boolean;
     status: WalletTransactionStatusEnum;
 }
@@ -298,3 +581,238 @@ export interface GetMonthlyGrowthResponse {
     /** The growth percentage (can be negative for decline) */
     monthlyGrowth: number;
 }
+
+// ============================================
+// Bulk Transfer Types
+// ============================================
+
+/** Progress of one row of a bulk transfer */
+export const BulkTransferRowStatusEnum = {
+    /** Not submitted yet */
+    QUEUED: 'QUEUED',
+    SENDING: 'SENDING',
+    SUCCESS: 'SUCCESS',
+    FAILED: 'FAILED',
+} as const;
+
+export type BulkTransferRowStatusEnum = (typeof BulkTransferRowStatusEnum)[keyof typeof BulkTransferRowStatusEnum];
+
+/** One transfer read from an uploaded CSV, with values as written in the file */
+export interface BulkTransferRow {
+    /** Line number in the file, counting the header as line 1 */
+    rowNumber: number;
+    email: string;
+    amount: string;
+    currency: string;
+    note: string;
+}
+
+/** A CSV row after validation against the source wallet */
+export interface BulkTransferRowCheck extends BulkTransferRow {
+    /** Why the row cannot be sent, or null if it is valid */
+    error: string | null;
+}
+
+/** Submission state of one row */
+export interface BulkTransferResult {
+    row: BulkTransferRow;
+    /** Sent with every attempt of this row so retries never pay twice */
+    idempotencyKey: string;
+    status: BulkTransferRowStatusEnum;
+    /** Payer transaction reference once sent */
+    reference: string | null;
+    /** Failure message from the last attempt */
+    error: string | null;
+}
+
+// ============================================
+// Balance History Types
+// ============================================
+
+/**
+ * Balance history periods and their bucket size:
+ * DAY - hourly, WEEK - daily, MONTH - daily, YEAR - monthly
+ */
+export const BalanceHistoryPeriodEnum = {
+    DAY: 'DAY',
+    WEEK: 'WEEK',
+    MONTH: 'MONTH',
+    YEAR: 'YEAR',
+} as const;
+
+export type BalanceHistoryPeriodEnum = (typeof BalanceHistoryPeriodEnum)[keyof typeof BalanceHistoryPeriodEnum];
+
+/** Query params for a wallet's balance history */
+export interface GetBalanceHistoryParams {
+    walletId: string;
+    period: BalanceHistoryPeriodEnum;
+}
+
+/** Closing balance of one bucket */
+export interface BalanceHistoryPoint {
+    /** ISO 8601 timestamp of the end of the bucket */
+    timestamp: string;
+    /** Balance at the end of the bucket */
+    balance: number;
+}
+
+/** Response for a wallet's balance history, oldest bucket first */
+export interface GetBalanceHistoryResponse {
+    walletId: string;
+    currency: CurrencyEnum;
+    period: BalanceHistoryPeriodEnum;
+    points: BalanceHistoryPoint[];
+}
+
+// ============================================
+// Exchange Types
+// ============================================
+
+/** Request for a quote to exchange funds between two of the user's wallets */
+export interface CreateExchangeQuoteRequest {
+    sourceWalletId: string;
+    destinationWalletId: string;
+    /** Amount to sell, in the source wallet currency */
+    sourceAmount: number;
+}
+
+/** Locked-in exchange quote, valid until expiresAt */
+export interface ExchangeQuoteResponse {
+    quoteId: string;
+    sourceWalletId: string;
+    destinationWalletId: string;
+    sourceCurrency: CurrencyEnum;
+    destinationCurrency: CurrencyEnum;
+    /** Amount debited from the source wallet, including the fee */
+    sourceAmount: number;
+    /** Amount credited to the destination wallet */
+    destinationAmount: number;
+    /** Units of destination currency per unit of source currency */
+    rate: number;
+    /** Fee charged in the source currency */
+    fee: number;
+    /** ISO 8601 timestamp after which the quote can no longer be executed */
+    expiresAt: string;
+}
+
+/** Request to execute a previously issued exchange quote */
+export interface ExecuteExchangeRequest {
+    quoteId: string;
+}
+
+/** Response after executing an exchange */
+export interface ExchangeResponse {
+    exchangeId: string;
+    /** Reference of the debit transaction on the source wallet */
+    sourceTransactionReference: string;
+    /** Reference of the credit transaction on the destination wallet */
+    destinationTransactionReference: string;
+    sourceCurrency: CurrencyEnum;
+    destinationCurrency: CurrencyEnum;
+    sourceAmount: number;
+    destinationAmount: number;
+    rate: number;
+    /** ISO 8601 timestamp */
+    timestamp: string;
+}
+
+// ============================================
+// Analytics Types
+// ============================================
+
+/** Selectable analytics periods, in whole calendar months ending with the current month */
+export const AnalyticsPeriodEnum = {
+    THREE_MONTHS: '3M',
+    SIX_MONTHS: '6M',
+    TWELVE_MONTHS: '12M',
+} as const;
+
+export type AnalyticsPeriodEnum = (typeof AnalyticsPeriodEnum)[keyof typeof AnalyticsPeriodEnum];
+
+/** Inclusive date range covered by an analytics period */
+export interface AnalyticsDateRange {
+    /** Inclusive start date (YYYY-MM-DD) */
+    startDate: string;
+    /** Inclusive end date (YYYY-MM-DD) */
+    endDate: string;
+}
+
+/** Query params for the spending analytics endpoint */
+export interface GetSpendingAnalyticsParams extends AnalyticsDateRange {
+    /** Currency every amount is converted into before wallets are added together */
+    currency: CurrencyEnum;
+}
+
+/** Income and spending for one calendar month */
+export interface MonthlyCashFlow {
+    /** Month in YYYY-MM format */
+    month: string;
+    income: number;
+    spending: number;
+}
+
+/** Income and spending for one transaction category */
+export interface ReferenceTypeBreakdown {
+    referenceType: ReferenceTypeEnum;
+    income: number;
+    spending: number;
+    transactionCount: number;
+}
+
+/** Income and spending for one wallet */
+export interface WalletBreakdown {
+    walletId: string;
+    walletName: string;
+    income: number;
+    spending: number;
+    transactionCount: number;
+}
+
+/** Totals exchanged with one counterparty */
+export interface CounterpartyTotal {
+    /** Counterparty display name (contact, merchant or wallet) */
+    name: string;
+    income: number;
+    spending: number;
+    transactionCount: number;
+}
+
+/**
+ * Aggregated income and spending for a date range.
+ * All amounts, including per-wallet ones, are converted into `currency` at each
+ * transaction's rate before they are added up.
+ */
+export interface GetSpendingAnalyticsResponse {
+    /** The requested base currency */
+    currency: CurrencyEnum;
+    /** Total credited over the range */
+    income: number;
+    /** Total debited over the range */
+    spending: number;
+    /** One entry per month that had activity, oldest first */
+    monthly: MonthlyCashFlow[];
+    byReferenceType: ReferenceTypeBreakdown[];
+    byWallet: WalletBreakdown[];
+    /** Counterparties with the most spending, largest first */
+    topCounterparties: CounterpartyTotal[];
+}
+
+/** A single row in an analytics breakdown card */
+export interface AnalyticsBreakdownRow {
+    id: string;
+    label: string;
+    /** Material icon name */
+    icon: string;
+    amount: number;
+    transactionCount: number;
+}
+
+/** Current month compared with the one before */
+export interface MonthOverMonthComparison {
+    current: MonthlyCashFlow;
+    previous: MonthlyCashFlow;
+    /** Percentage change in income, or null when there was none last month */
+    incomeChange: number | null;
+    /** Percentage change in spending, or null when there was none last month */
+    spendingChange: number | null;
+}
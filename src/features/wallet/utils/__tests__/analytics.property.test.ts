@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+    ANALYTICS_PERIOD_MONTHS,
+    fillMonthlySeries,
+    getAnalyticsPeriodRange,
+    getMonthOverMonth,
+    getNetCashFlow,
+    getPercentChange,
+    getShareOfTotal,
+    toMonthKey,
+} from '../analytics';
+import { AnalyticsPeriodEnum, CurrencyEnum, type MonthlyCashFlow } from '../../types';
+import { toMajorUnits } from '../../../../utils/money';
+
+/**
+ * Property-based tests for analytics helpers
+ *
+ * **Validates: Analytics page**
+ * - Period ranges cover whole calendar months ending today
+ * - Monthly series contain every month in the period, in order
+ * - Month-over-month change compares the last two months
+ * - Net cash flow is exact in minor units
+ */
+
+const periodArbitrary = fc.constantFrom(...Object.values(AnalyticsPeriodEnum));
+const dateArbitrary = fc.date({ min: new Date(2000, 0, 1), max: new Date(2099, 11, 31), noInvalidDate: true });
+
+describe('Analytics Helpers Property Tests', () => {
+    describe('getAnalyticsPeriodRange', () => {
+        it('should start on the first of the month and end today', () => {
+            fc.assert(
+                fc.property(periodArbitrary, dateArbitrary, (period, now) => {
+                    const { startDate, endDate } = getAnalyticsPeriodRange(period, now);
+                    expect(startDate).toMatch(/^\d{4}-\d{2}-01$/);
+                    expect(endDate.slice(0, 7)).toBe(toMonthKey(now));
+                    expect(Number(endDate.slice(8))).toBe(now.getDate());
+
+                    const [startYear, startMonth] = startDate.split('-').map(Number);
+                    const monthsCovered = (now.getFullYear() - startYear) * 12 + (now.getMonth() + 1 - startMonth) + 1;
+                    expect(monthsCovered).toBe(ANALYTICS_PERIOD_MONTHS[period]);
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('fillMonthlySeries', () => {
+        it('should return one entry per month, oldest first, keeping backend values', () => {
+            fc.assert(
+                fc.property(
+                    periodArbitrary,
+                    dateArbitrary,
+                    fc.array(fc.record({ income: fc.nat(100_000), spending: fc.nat(100_000) }), { maxLength: 12 }),
+                    (period, now, amounts) => {
+                        const months = ANALYTICS_PERIOD_MONTHS[period];
+                        // Sparse backend data: only some months in the period
+                        const sparse: MonthlyCashFlow[] = amounts.slice(0, months).flatMap((entry, index) =>
+                            index % 2 === 0
+                                ? [{ month: toMonthKey(new Date(now.getFullYear(), now.getMonth() - index, 1)), ...entry }]
+                                : []
+                        );
+
+                        const series = fillMonthlySeries(sparse, period, now);
+                        expect(series).toHaveLength(months);
+                        expect(series[series.length - 1].month).toBe(toMonthKey(now));
+                        expect([...series.map((entry) => entry.month)].sort()).toEqual(series.map((entry) => entry.month));
+                        sparse.forEach((entry) => {
+                            expect(series.find((filled) => filled.month === entry.month)).toEqual(entry);
+                        });
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('getPercentChange', () => {
+        it('should return null when the previous amount is zero', () => {
+            fc.assert(
+                fc.property(fc.nat(1_000_000), (current) => {
+                    expect(getPercentChange(current, 0)).toBeNull();
+                }),
+                { numRuns: 50 }
+            );
+        });
+
+        it('should be positive when rising, negative when falling and zero when flat', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 1, max: 1_000_000 }), fc.nat(1_000_000), (previous, current) => {
+                    const change = getPercentChange(current, previous);
+                    expect(change).not.toBeNull();
+                    expect(Math.sign(change ?? 0)).toBe(Math.sign(Math.round(((current - previous) / previous) * 1000)));
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should round to one decimal place', () => {
+            expect(getPercentChange(150, 100)).toBe(50);
+            expect(getPercentChange(1, 3)).toBe(-66.7);
+        });
+    });
+
+    describe('getMonthOverMonth', () => {
+        it('should compare the last two months and need at least two', () => {
+            const series: MonthlyCashFlow[] = [
+                { month: '2026-04', income: 100, spending: 100 },
+                { month: '2026-05', income: 200, spending: 50 },
+                { month: '2026-06', income: 300, spending: 100 },
+            ];
+            const comparison = getMonthOverMonth(series);
+            expect(comparison?.current.month).toBe('2026-06');
+            expect(comparison?.previous.month).toBe('2026-05');
+            expect(comparison?.incomeChange).toBe(50);
+            expect(comparison?.spendingChange).toBe(100);
+            expect(getMonthOverMonth(series.slice(0, 1))).toBeNull();
+        });
+    });
+
+    describe('getNetCashFlow', () => {
+        it('should subtract in minor units without float drift', () => {
+            expect(getNetCashFlow(0.3, 0.1, CurrencyEnum.SGD)).toEqual({ minor: 20, currency: CurrencyEnum.SGD });
+            fc.assert(
+                fc.property(
+                    fc.constantFrom(...Object.values(CurrencyEnum)),
+                    fc.nat(1_000_000_000),
+                    fc.nat(1_000_000_000),
+                    (currency, incomeMinor, spendingMinor) => {
+                        const income = toMajorUnits({ minor: incomeMinor, currency });
+                        const spending = toMajorUnits({ minor: spendingMinor, currency });
+                        expect(getNetCashFlow(income, spending, currency).minor).toBe(incomeMinor - spendingMinor);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('getShareOfTotal', () => {
+        it('should stay between 0 and 100', () => {
+            fc.assert(
+                fc.property(fc.nat(1_000_000), fc.nat(1_000_000), (a, b) => {
+                    const share = getShareOfTotal(a, a + b);
+                    expect(share).toBeGreaterThanOrEqual(0);
+                    expect(share).toBeLessThanOrEqual(100);
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+});
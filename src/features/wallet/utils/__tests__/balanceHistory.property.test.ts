@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { getAxisLabelIndices, toBalanceChartData, formatBalanceAxisLabel } from '../balanceHistory';
+import { BalanceHistoryPeriodEnum } from '../../types';
+
+/**
+ * Property-based tests for balance history helpers
+ *
+ * **Validates: Balance trends chart and wallet mini charts**
+ * - Axis labels always include the first and last bucket and never exceed the limit
+ * - Chart points keep the balance and carry a date and amount tooltip
+ */
+
+describe('Balance History Helpers Property Tests', () => {
+    describe('getAxisLabelIndices', () => {
+        it('should return sorted, distinct, in-range indices including both ends', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 1, max: 400 }), fc.integer({ min: 2, max: 12 }), (count, maxLabels) => {
+                    const indices = getAxisLabelIndices(count, maxLabels);
+                    expect(indices.length).toBeLessThanOrEqual(maxLabels);
+                    expect(indices[0]).toBe(0);
+                    expect(indices[indices.length - 1]).toBe(count - 1);
+                    indices.forEach((index, position) => {
+                        expect(index).toBeGreaterThanOrEqual(0);
+                        expect(index).toBeLessThan(count);
+                        if (position > 0) expect(index).toBeGreaterThan(indices[position - 1]);
+                    });
+                }),
+                { numRuns: 200 }
+            );
+        });
+
+        it('should label every bucket when there are few', () => {
+            expect(getAxisLabelIndices(5, 7)).toEqual([0, 1, 2, 3, 4]);
+            expect(getAxisLabelIndices(0, 7)).toEqual([]);
+        });
+    });
+
+    describe('toBalanceChartData', () => {
+        it('should keep each balance and describe it in the tooltip', () => {
+            fc.assert(
+                fc.property(
+                    fc.array(
+                        fc.record({
+                            timestamp: fc.date({ min: new Date(2000, 0, 1), max: new Date(2099, 0, 1), noInvalidDate: true })
+                                .map((date) => date.toISOString()),
+                            balance: fc.integer({ min: 0, max: 10_000_000 }).map((cents) => cents / 100),
+                        }),
+                        { maxLength: 31 }
+                    ),
+                    fc.constantFrom(...Object.values(BalanceHistoryPeriodEnum)),
+                    (points, period) => {
+                        const data = toBalanceChartData(points, 'SGD', period);
+                        expect(data.map((point) => point.value)).toEqual(points.map((point) => point.balance));
+                        data.forEach((point) => {
+                            expect(point.label).toMatch(/: /);
+                            expect(point.label).not.toContain('Invalid');
+                        });
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('formatBalanceAxisLabel', () => {
+        it('should return an empty label for unparseable timestamps', () => {
+            expect(formatBalanceAxisLabel('not-a-date', BalanceHistoryPeriodEnum.WEEK)).toBe('');
+        });
+    });
+});
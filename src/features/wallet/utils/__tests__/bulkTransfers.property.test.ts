@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+    buildBulkTransferReport,
+    buildBulkTransferTemplate,
+    canSubmitBulkTransfer,
+    getBulkTransferSummary,
+    MAX_BULK_TRANSFER_ROWS,
+    parseBulkTransferCsv,
+    parseCsvRecords,
+    validateBulkTransferRows,
+} from '../bulkTransfers';
+import { BulkTransferRowStatusEnum, CurrencyEnum, type BulkTransferRow } from '../../types';
+
+/**
+ * Property-based tests for bulk transfer helpers
+ *
+ * **Validates: Bulk transfers from an uploaded CSV**
+ * - Any fields written as CSV are read back unchanged
+ * - Rows are checked with the transfer form's rules and the wallet currency
+ * - The rows can only be sent when every row is valid and the total fits the balance
+ * - The results report has one line per row, safe to open in spreadsheet apps
+ */
+
+// Printable field text, including CSV specials (commas, quotes, line breaks)
+const fieldArbitrary = fc.string({ unit: fc.constantFrom('a', 'B', '1', ' ', ',', '"', '\n', '.', '@'), maxLength: 12 });
+
+const emailArbitrary = fc
+    .tuple(fc.stringMatching(/^[a-z][a-z0-9]{0,10}$/), fc.stringMatching(/^[a-z]{2,10}$/))
+    .map(([user, domain]) => `${user}@${domain}.com`);
+
+const createRow = (overrides: Partial<BulkTransferRow> = {}): BulkTransferRow => ({
+    rowNumber: 2,
+    email: 'friend@example.com',
+    amount: '10.00',
+    currency: CurrencyEnum.SGD,
+    note: '',
+    ...overrides,
+});
+
+describe('Bulk Transfer Helpers Property Tests', () => {
+    describe('parseCsvRecords', () => {
+        it('should read back any escaped records unchanged', () => {
+            fc.assert(
+                fc.property(
+                    fc.array(fc.array(fieldArbitrary, { minLength: 2, maxLength: 5 }), { minLength: 1, maxLength: 10 }),
+                    fc.constantFrom('\r\n', '\n'),
+                    (records, newline) => {
+                        // Quote every field so leading spaces, quotes and line breaks survive
+                        const text = records
+                            .map((fields) => fields.map((field) => `"${field.replace(/"/g, '""')}"`).join(','))
+                            .join(newline);
+                        expect(parseCsvRecords(text).map((record) => record.fields)).toEqual(records);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should skip blank lines and report the line each record starts on', () => {
+            const text = '\uFEFFemail,amount\r\n\r\n"multi\nline",1\n\nlast,2\n';
+            expect(parseCsvRecords(text)).toEqual([
+                { line: 1, fields: ['email', 'amount'] },
+                { line: 3, fields: ['multi\nline', '1'] },
+                { line: 6, fields: ['last', '2'] },
+            ]);
+        });
+    });
+
+    describe('parseBulkTransferCsv', () => {
+        it('should map columns by header in any order and case', () => {
+            const rows = parseBulkTransferCsv('Note,CURRENCY,Amount,Email,Extra\r\nLunch,sgd, 12.50 ,a@b.com,x');
+            expect(rows).toEqual([{ rowNumber: 2, email: 'a@b.com', amount: '12.50', currency: 'SGD', note: 'Lunch' }]);
+        });
+
+        it('should allow the note column to be left out', () => {
+            expect(parseBulkTransferCsv('email,amount,currency\na@b.com,1,SGD')[0].note).toBe('');
+        });
+
+        it('should reject files without the required columns or rows', () => {
+            expect(() => parseBulkTransferCsv('')).toThrow('empty');
+            expect(() => parseBulkTransferCsv('email,note\na@b.com,x')).toThrow('Missing columns: amount, currency');
+            expect(() => parseBulkTransferCsv('email,amount,currency\n')).toThrow('no transfers');
+
+            const tooMany = ['email,amount,currency', ...Array(MAX_BULK_TRANSFER_ROWS + 1).fill('a@b.com,1,SGD')].join('\n');
+            expect(() => parseBulkTransferCsv(tooMany)).toThrow(`${MAX_BULK_TRANSFER_ROWS}`);
+        });
+
+        it('should read back the template', () => {
+            Object.values(CurrencyEnum).forEach((currency) => {
+                const [row] = parseBulkTransferCsv(buildBulkTransferTemplate(currency));
+                expect(validateBulkTransferRows([row], 1000, currency)[0].error).toBeNull();
+            });
+        });
+    });
+
+    describe('validation and totals', () => {
+        it('should accept any valid rows that fit the balance together', () => {
+            fc.assert(
+                fc.property(
+                    fc.array(fc.tuple(emailArbitrary, fc.integer({ min: 1, max: 100_000 })), { minLength: 1, maxLength: 20 }),
+                    fc.nat(100_000),
+                    (entries, spareCents) => {
+                        const rows = entries.map(([email, cents], index) =>
+                            createRow({ rowNumber: index + 2, email, amount: (cents / 100).toFixed(2) })
+                        );
+                        const totalCents = entries.reduce((sum, [, cents]) => sum + cents, 0);
+                        const balance = (totalCents + spareCents) / 100;
+
+                        const checks = validateBulkTransferRows(rows, balance, CurrencyEnum.SGD);
+                        const summary = getBulkTransferSummary(checks, balance, CurrencyEnum.SGD);
+
+                        expect(checks.every((check) => check.error === null)).toBe(true);
+                        expect(summary.total.minor).toBe(totalCents);
+                        expect(summary.remaining.minor).toBe(spareCents);
+                        expect(canSubmitBulkTransfer(summary)).toBe(true);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should block sending when the rows together exceed the balance', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 2, max: 20 }), fc.integer({ min: 1, max: 10_000 }), (count, cents) => {
+                    const rows = Array.from({ length: count }, (_, index) =>
+                        createRow({ rowNumber: index + 2, amount: (cents / 100).toFixed(2) })
+                    );
+                    // Each row fits on its own, but not all of them together
+                    const balance = (cents * count - 1) / 100;
+                    const checks = validateBulkTransferRows(rows, balance, CurrencyEnum.SGD);
+                    const summary = getBulkTransferSummary(checks, balance, CurrencyEnum.SGD);
+
+                    expect(summary.invalidCount).toBe(0);
+                    expect(summary.remaining.minor).toBe(-1);
+                    expect(canSubmitBulkTransfer(summary)).toBe(false);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should flag invalid rows and block sending', () => {
+            const rows = [
+                createRow({ email: 'not-an-email' }),
+                createRow({ amount: '0' }),
+                createRow({ amount: '10.005' }),
+                createRow({ amount: '5000' }),
+                createRow({ currency: CurrencyEnum.USD }),
+                createRow({ note: 'x'.repeat(201) }),
+            ];
+            const checks = validateBulkTransferRows(rows, 1000, CurrencyEnum.SGD);
+            checks.forEach((check) => expect(check.error).not.toBeNull());
+            expect(checks[4].error).toContain('SGD');
+
+            const summary = getBulkTransferSummary([...checks, { ...createRow(), error: null }], 1000, CurrencyEnum.SGD);
+            expect(summary).toMatchObject({ validCount: 1, invalidCount: rows.length });
+            expect(canSubmitBulkTransfer(summary)).toBe(false);
+        });
+    });
+
+    describe('buildBulkTransferReport', () => {
+        it('should write a header and one escaped line per row', () => {
+            fc.assert(
+                fc.property(fc.array(fieldArbitrary, { maxLength: 10 }), (notes) => {
+                    const results = notes.map((note, index) => ({
+                        row: createRow({ rowNumber: index + 2, note }),
+                        idempotencyKey: `key-${index}`,
+                        status: index % 2 ? BulkTransferRowStatusEnum.FAILED : BulkTransferRowStatusEnum.SUCCESS,
+                        reference: index % 2 ? null : `REF-${index}`,
+                        error: index % 2 ? 'Recipient not found' : null,
+                    }));
+                    const records = parseCsvRecords(buildBulkTransferReport(results));
+
+                    expect(records[0].fields[0]).toBe('Row');
+                    expect(records).toHaveLength(results.length + 1);
+                    records.slice(1).forEach((record, index) => {
+                        // Notes starting with a formula trigger are neutralised
+                        expect(record.fields[4]).toBe(notes[index].startsWith('@') ? `'${notes[index]}` : notes[index]);
+                        expect(record.fields[5]).toBe(results[index].status);
+                    });
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { canPayRequest, getPayLink, getPaymentRequestStatus, isOwnRequest } from '../paymentRequests';
+import { CurrencyEnum, PaymentRequestStatusEnum, type PaymentRequest } from '../../types';
+
+/**
+ * Property-based tests for payment request helpers
+ *
+ * **Validates: Payment requests and shareable pay links**
+ * - Pending requests past their expiry are treated as expired
+ * - Only pending requests can be paid, and never by their requester
+ * - Pay links point at the pay route for the request
+ */
+
+const NOW = new Date('2025-06-15T12:00:00Z');
+
+const createRequest = (overrides: Partial<PaymentRequest> = {}): PaymentRequest => ({
+    requestId: 'request-1',
+    walletId: 'wallet-1',
+    amount: 40,
+    currency: CurrencyEnum.SGD,
+    expiresAt: '2025-06-20T12:00:00Z',
+    status: PaymentRequestStatusEnum.PENDING,
+    requesterName: 'Alex',
+    requesterEmail: 'alex@example.com',
+    payerEmail: null,
+    createdAt: '2025-06-13T12:00:00Z',
+    paidAt: null,
+    qrCode: 'data:image/png;base64,',
+    ...overrides,
+});
+
+describe('Payment Request Helpers Property Tests', () => {
+    describe('getPaymentRequestStatus', () => {
+        it('should expire pending requests at or after their expiry', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: -1_000_000_000, max: 1_000_000_000 }), (offsetMs) => {
+                    const expiresAt = new Date(NOW.getTime() + offsetMs).toISOString();
+                    const status = getPaymentRequestStatus(createRequest({ expiresAt }), NOW);
+                    expect(status).toBe(offsetMs > 0 ? PaymentRequestStatusEnum.PENDING : PaymentRequestStatusEnum.EXPIRED);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should keep settled statuses regardless of expiry', () => {
+            [PaymentRequestStatusEnum.PAID, PaymentRequestStatusEnum.DECLINED].forEach((status) => {
+                const request = createRequest({ status, expiresAt: '2020-01-01T00:00:00Z' });
+                expect(getPaymentRequestStatus(request, NOW)).toBe(status);
+            });
+        });
+    });
+
+    describe('canPayRequest', () => {
+        it('should only allow other users to pay pending requests', () => {
+            const statusArbitrary = fc.constantFrom(...Object.values(PaymentRequestStatusEnum));
+            fc.assert(
+                fc.property(statusArbitrary, fc.boolean(), (status, isRequester) => {
+                    const request = createRequest({ status });
+                    const userEmail = isRequester ? 'ALEX@example.com' : 'sam@example.com';
+                    expect(canPayRequest(request, userEmail, NOW)).toBe(
+                        status === PaymentRequestStatusEnum.PENDING && !isRequester
+                    );
+                }),
+                { numRuns: 50 }
+            );
+        });
+
+        it('should not treat an unknown user as the requester', () => {
+            expect(isOwnRequest(createRequest(), undefined)).toBe(false);
+        });
+    });
+
+    describe('getPayLink', () => {
+        it('should build the pay route for any request ID', () => {
+            fc.assert(
+                fc.property(fc.uuid(), (requestId) => {
+                    expect(getPayLink(requestId, 'https://app.apexpay.net/')).toBe(`https://app.apexpay.net/pay/${requestId}`);
+                }),
+                { numRuns: 50 }
+            );
+        });
+    });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+    addDays,
+    getRunDate,
+    getRunDatesFrom,
+    getUpcomingRuns,
+    sortSchedules,
+    toTransferSchedule,
+} from '../scheduledTransfers';
+import {
+    CurrencyEnum,
+    ScheduledTransferStatusEnum,
+    TransferRecurrenceEnum,
+    type ScheduledTransfer,
+} from '../../types';
+
+/**
+ * Property-based tests for scheduled transfer helpers
+ *
+ * **Validates: Scheduled and recurring transfers**
+ * - Weekly and custom runs are evenly spaced from the start date
+ * - Monthly runs keep the start day, clamped to shorter months
+ * - Runs stop at the end date
+ * - Upcoming runs only come from active schedules, soonest first, within the limit
+ */
+
+// Generator for dates between 2020 and 2035 as YYYY-MM-DD
+const dateArbitrary = fc
+    .integer({ min: Date.UTC(2020, 0, 1), max: Date.UTC(2035, 11, 31) })
+    .map((ms) => new Date(ms).toISOString().slice(0, 10));
+
+const createSchedule = (overrides: Partial<ScheduledTransfer> = {}): ScheduledTransfer => ({
+    scheduleId: 'schedule-1',
+    payerWalletId: 'wallet-1',
+    recipientEmail: 'friend@example.com',
+    amount: 25,
+    currency: CurrencyEnum.SGD,
+    startDate: '2025-01-31',
+    recurrence: TransferRecurrenceEnum.MONTHLY,
+    status: ScheduledTransferStatusEnum.ACTIVE,
+    walletName: 'Main',
+    nextRunDate: '2025-01-31',
+    lastRunAt: null,
+    createdAt: '2025-01-01T00:00:00Z',
+    ...overrides,
+});
+
+const daysBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+
+describe('Scheduled Transfer Helpers Property Tests', () => {
+    describe('getRunDate', () => {
+        it('should space weekly and custom runs by a fixed number of days', () => {
+            fc.assert(
+                fc.property(
+                    dateArbitrary,
+                    fc.integer({ min: 1, max: 365 }),
+                    fc.integer({ min: 0, max: 60 }),
+                    (startDate, intervalDays, index) => {
+                        const weekly = getRunDate({ startDate, recurrence: TransferRecurrenceEnum.WEEKLY }, index);
+                        const custom = getRunDate(
+                            { startDate, recurrence: TransferRecurrenceEnum.CUSTOM, intervalDays },
+                            index
+                        );
+                        expect(daysBetween(startDate, weekly ?? '')).toBe(index * 7);
+                        expect(daysBetween(startDate, custom ?? '')).toBe(index * intervalDays);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should keep the start day on monthly runs, clamped to the month length', () => {
+            fc.assert(
+                fc.property(dateArbitrary, fc.integer({ min: 1, max: 36 }), (startDate, index) => {
+                    const runDate = getRunDate({ startDate, recurrence: TransferRecurrenceEnum.MONTHLY }, index) ?? '';
+                    const [startYear, startMonth, startDay] = startDate.split('-').map(Number);
+                    const [year, month, day] = runDate.split('-').map(Number);
+                    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+                    expect((year - startYear) * 12 + (month - startMonth)).toBe(index);
+                    expect(day).toBe(Math.min(startDay, daysInMonth));
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should clamp the 31st to the end of February and return afterwards', () => {
+            const schedule = { startDate: '2024-01-31', recurrence: TransferRecurrenceEnum.MONTHLY };
+            expect(getRunDate(schedule, 1)).toBe('2024-02-29');
+            expect(getRunDate(schedule, 2)).toBe('2024-03-31');
+            expect(getRunDate(schedule, 3)).toBe('2024-04-30');
+        });
+
+        it('should only run one-off transfers once', () => {
+            const schedule = { startDate: '2025-03-01', recurrence: TransferRecurrenceEnum.NONE };
+            expect(getRunDate(schedule, 0)).toBe('2025-03-01');
+            expect(getRunDate(schedule, 1)).toBeNull();
+        });
+    });
+
+    describe('getRunDatesFrom', () => {
+        it('should return ascending runs within the window and limit', () => {
+            fc.assert(
+                fc.property(
+                    dateArbitrary,
+                    fc.integer({ min: 0, max: 400 }),
+                    fc.integer({ min: 0, max: 400 }),
+                    fc.integer({ min: 1, max: 10 }),
+                    (startDate, fromOffset, endOffset, limit) => {
+                        const fromDate = addDays(startDate, fromOffset);
+                        const endDate = addDays(startDate, endOffset);
+                        const runs = getRunDatesFrom(
+                            { startDate, recurrence: TransferRecurrenceEnum.WEEKLY, endDate },
+                            fromDate,
+                            limit
+                        );
+                        expect(runs.length).toBeLessThanOrEqual(limit);
+                        runs.forEach((run, index) => {
+                            expect(run >= fromDate).toBe(true);
+                            expect(run <= endDate).toBe(true);
+                            if (index > 0) expect(run > runs[index - 1]).toBe(true);
+                        });
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('getUpcomingRuns', () => {
+        it('should list runs from active schedules only, soonest first, within the limit', () => {
+            const statusArbitrary = fc.constantFrom(...Object.values(ScheduledTransferStatusEnum));
+            fc.assert(
+                fc.property(
+                    fc.array(fc.tuple(dateArbitrary, statusArbitrary), { maxLength: 8 }),
+                    dateArbitrary,
+                    fc.integer({ min: 1, max: 10 }),
+                    (entries, today, limit) => {
+                        const schedules = entries.map(([startDate, status], index) =>
+                            createSchedule({
+                                scheduleId: `schedule-${index}`,
+                                startDate,
+                                nextRunDate: startDate,
+                                recurrence: TransferRecurrenceEnum.WEEKLY,
+                                status,
+                            })
+                        );
+                        const runs = getUpcomingRuns(schedules, today, limit);
+                        const activeIds = new Set(
+                            schedules
+                                .filter((schedule) => schedule.status === ScheduledTransferStatusEnum.ACTIVE)
+                                .map((schedule) => schedule.scheduleId)
+                        );
+
+                        expect(runs.length).toBeLessThanOrEqual(limit);
+                        runs.forEach((run, index) => {
+                            expect(activeIds.has(run.scheduleId)).toBe(true);
+                            expect(run.runDate >= today).toBe(true);
+                            if (index > 0) expect(run.runDate >= runs[index - 1].runDate).toBe(true);
+                        });
+                        if (activeIds.size > 0) expect(runs.length).toBe(limit);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should skip runs before the next run date', () => {
+            const runs = getUpcomingRuns(
+                [createSchedule({ startDate: '2025-01-01', nextRunDate: '2025-01-15', recurrence: TransferRecurrenceEnum.WEEKLY })],
+                '2025-01-02',
+                2
+            );
+            expect(runs.map((run) => run.runDate)).toEqual(['2025-01-15', '2025-01-22']);
+        });
+    });
+
+    describe('toTransferSchedule', () => {
+        it('should only send the interval for custom and the end date for repeating schedules', () => {
+            const fields = { startDate: '2025-05-01', intervalDays: '10', endDate: '2025-12-31' };
+            expect(toTransferSchedule({ ...fields, recurrence: TransferRecurrenceEnum.NONE })).toEqual({
+                startDate: '2025-05-01',
+                recurrence: TransferRecurrenceEnum.NONE,
+                intervalDays: undefined,
+                endDate: undefined,
+            });
+            expect(toTransferSchedule({ ...fields, recurrence: TransferRecurrenceEnum.CUSTOM })).toEqual({
+                startDate: '2025-05-01',
+                recurrence: TransferRecurrenceEnum.CUSTOM,
+                intervalDays: 10,
+                endDate: '2025-12-31',
+            });
+            expect(toTransferSchedule({ ...fields, endDate: '', recurrence: TransferRecurrenceEnum.WEEKLY }).endDate)
+                .toBeUndefined();
+        });
+    });
+
+    describe('sortSchedules', () => {
+        it('should list active and paused schedules by next run before finished ones', () => {
+            const sorted = sortSchedules([
+                createSchedule({ scheduleId: 'done', status: ScheduledTransferStatusEnum.COMPLETED, nextRunDate: null }),
+                createSchedule({ scheduleId: 'later', nextRunDate: '2025-03-01' }),
+                createSchedule({ scheduleId: 'paused', status: ScheduledTransferStatusEnum.PAUSED, nextRunDate: '2025-02-01' }),
+            ]);
+            expect(sorted.map((schedule) => schedule.scheduleId)).toEqual(['paused', 'later', 'done']);
+        });
+    });
+});
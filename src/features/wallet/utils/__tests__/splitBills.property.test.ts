@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { canRemindParticipant, getCollectedAmount, getPaidCount, REMINDER_COOLDOWN_MS } from '../splitBills';
+import {
+    CurrencyEnum,
+    PaymentRequestStatusEnum,
+    SplitMethodEnum,
+    type SplitBill,
+    type SplitBillParticipant,
+} from '../../types';
+
+/**
+ * Property-based tests for split bill helpers
+ *
+ * **Validates: Split bill details and reminders**
+ * - Only paid shares count towards the amount collected
+ * - Pending participants can be reminded at most once per cooldown
+ * - Paid, declined and expired shares are never reminded
+ */
+
+const NOW = new Date('2025-06-15T12:00:00Z');
+
+const statusArbitrary = fc.constantFrom(...Object.values(PaymentRequestStatusEnum));
+
+const createParticipant = (overrides: Partial<SplitBillParticipant> = {}): SplitBillParticipant => ({
+    participantId: 'participant-1',
+    email: 'friend@example.com',
+    name: 'Friend',
+    amount: 25,
+    requestId: 'request-1',
+    status: PaymentRequestStatusEnum.PENDING,
+    paidAt: null,
+    lastRemindedAt: null,
+    ...overrides,
+});
+
+const createSplit = (participants: SplitBillParticipant[]): SplitBill => ({
+    splitId: 'split-1',
+    walletId: 'wallet-1',
+    title: 'Dinner',
+    totalAmount: 100,
+    currency: CurrencyEnum.SGD,
+    method: SplitMethodEnum.EQUAL,
+    expiresAt: '2025-06-20T12:00:00Z',
+    createdAt: '2025-06-13T12:00:00Z',
+    participants,
+});
+
+describe('Split Bill Helpers Property Tests', () => {
+    it('should count and add up exactly the paid shares', () => {
+        fc.assert(
+            fc.property(
+                fc.array(fc.tuple(fc.integer({ min: 1, max: 1_000_000 }), statusArbitrary), { maxLength: 20 }),
+                (shares) => {
+                    const split = createSplit(
+                        shares.map(([cents, status]) => createParticipant({ amount: cents / 100, status }))
+                    );
+                    const paid = shares.filter(([, status]) => status === PaymentRequestStatusEnum.PAID);
+
+                    expect(getPaidCount(split)).toBe(paid.length);
+                    expect(getCollectedAmount(split)).toBe(paid.reduce((sum, [cents]) => sum + cents, 0) / 100);
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should allow a reminder only once the cooldown has passed', () => {
+        fc.assert(
+            fc.property(fc.integer({ min: 0, max: 3 * REMINDER_COOLDOWN_MS }), (elapsedMs) => {
+                const lastRemindedAt = new Date(NOW.getTime() - elapsedMs).toISOString();
+                const split = createSplit([]);
+                expect(canRemindParticipant(split, createParticipant({ lastRemindedAt }), NOW))
+                    .toBe(elapsedMs >= REMINDER_COOLDOWN_MS);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should only remind participants whose share is still pending', () => {
+        fc.assert(
+            fc.property(statusArbitrary, fc.boolean(), (status, isExpired) => {
+                const split = { expiresAt: isExpired ? '2025-06-14T12:00:00Z' : '2025-06-20T12:00:00Z' };
+                expect(canRemindParticipant(split, createParticipant({ status }), NOW))
+                    .toBe(status === PaymentRequestStatusEnum.PENDING && !isExpired);
+            }),
+            { numRuns: 100 }
+        );
+    });
+});
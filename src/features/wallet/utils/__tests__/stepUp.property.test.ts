@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { requiresStepUp, STEP_UP_THRESHOLDS } from '../stepUp';
+import { toMoney } from '../../../../utils/money';
+import { CurrencyEnum } from '../../types';
+
+/**
+ * Property-based tests for step-up verification of large transfers
+ *
+ * **Validates: Two-factor authentication for high-value actions**
+ * - Transfers above the currency's threshold need a code, at or below it they do not
+ * - Users without 2FA are never asked
+ */
+
+const currencyArbitrary = fc.constantFrom(...Object.values(CurrencyEnum));
+
+describe('Step-up Property Tests', () => {
+    it('should require a code only above the threshold', () => {
+        fc.assert(
+            fc.property(currencyArbitrary, fc.integer({ min: -1_000, max: 1_000 }), (currency, offsetMinor) => {
+                const threshold = toMoney(STEP_UP_THRESHOLDS[currency], currency);
+                const amount = { minor: threshold.minor + offsetMinor, currency };
+                expect(requiresStepUp(amount, true)).toBe(offsetMinor > 0);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should never require a code without 2FA', () => {
+        fc.assert(
+            fc.property(currencyArbitrary, fc.nat(1_000_000_000), (currency, minor) => {
+                expect(requiresStepUp({ minor, currency }, false)).toBe(false);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should require a code for currencies without a threshold', () => {
+        expect(requiresStepUp({ minor: 1, currency: 'CHF' }, true)).toBe(true);
+        expect(requiresStepUp({ minor: 1, currency: CurrencyEnum.SGD }, true, { SGD: 0 })).toBe(true);
+    });
+});
@@ -0,0 +1,266 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+    escapeCsvField,
+    formatExportAmount,
+    buildCsv,
+    buildJson,
+    buildOfx,
+    buildQif,
+    buildExportFilename,
+    collectTransactionPages,
+    getSignedAmount,
+} from '../transactionExport';
+import type { TransactionHistoryItem, TransactionHistoryPage } from '../../types';
+import {
+    CurrencyEnum,
+    ExportFormat,
+    ReferenceTypeEnum,
+    TransactionTypeEnum,
+    WalletTransactionStatusEnum,
+} from '../../types';
+
+/**
+ * Property-based tests for transaction history export
+ *
+ * **Validates: Transaction export**
+ * - CSV fields round-trip through an RFC 4180 parser
+ * - Formula-like text is neutralised against CSV injection
+ * - Amounts are locale-independent decimal strings
+ * - Cancelled transactions are excluded from OFX/QIF
+ * - Paging stops at the last page, and a runaway API ends in a truncated export
+ */
+
+/**
+ * Minimal RFC 4180 parser used to verify CSV output
+ * @param content - CSV document
+ * @returns Rows of unescaped fields
+ */
+const parseCsv = (content: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\r' && content[i + 1] === '\n') {
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+            i++;
+        } else {
+            field += char;
+        }
+    }
+
+    return rows;
+};
+
+const itemArbitrary: fc.Arbitrary<TransactionHistoryItem> = fc.record({
+    transactionId: fc.uuid(),
+    transactionReference: fc.string({ maxLength: 30 }),
+    amount: fc.integer({ min: 0, max: 100_000_000 }).map((cents) => cents / 100),
+    currency: fc.constant(CurrencyEnum.SGD),
+    transactionType: fc.constantFrom(...Object.values(TransactionTypeEnum)),
+    referenceType: fc.constantFrom(...Object.values(ReferenceTypeEnum)),
+    referenceId: fc.uuid(),
+    status: fc.constantFrom(...Object.values(WalletTransactionStatusEnum)),
+    walletId: fc.constantFrom('wallet-a', 'wallet-b'),
+    walletName: fc.string({ maxLength: 20 }),
+    createdAt: fc
+        .integer({ min: Date.UTC(2020, 0, 1), max: Date.UTC(2030, 0, 1) })
+        .map((ms) => new Date(ms).toISOString()),
+    description: fc.string({ maxLength: 40 }),
+});
+
+const PAGE_SIZE = 10;
+
+/**
+ * Builds a history page with the fallback total the API slice uses without X-Total-Count
+ * @param items - Items on the page
+ * @param page - 1-based page number
+ */
+const toPage = (items: TransactionHistoryItem[], page: number): TransactionHistoryPage => ({
+    items,
+    totalCount: (page - 1) * PAGE_SIZE + items.length + (items.length === PAGE_SIZE ? 1 : 0),
+    page,
+    pageSize: PAGE_SIZE,
+});
+
+describe('Transaction Export Property Tests', () => {
+    describe('escapeCsvField', () => {
+        it('should round-trip any non-formula text through a CSV parser', () => {
+            fc.assert(
+                fc.property(fc.string().filter((s) => !/^[=+\-@\t\r]/.test(s)), (value) => {
+                    const [[parsed]] = parseCsv(`${escapeCsvField(value)}\r\n`);
+                    expect(parsed ?? '').toBe(value);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should prefix formula triggers with a quote', () => {
+            fc.assert(
+                fc.property(fc.constantFrom('=', '+', '-', '@'), fc.string(), (trigger, rest) => {
+                    const [[parsed]] = parseCsv(`${escapeCsvField(`${trigger}${rest}`)}\r\n`);
+                    expect(parsed).toBe(`'${trigger}${rest}`);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should leave numeric fields untouched', () => {
+            expect(escapeCsvField('-12.50', false)).toBe('-12.50');
+        });
+    });
+
+    describe('formatExportAmount', () => {
+        it('should produce a plain two-decimal number that parses back to the rounded amount', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: -1_000_000_000, max: 1_000_000_000 }), (cents) => {
+                    const result = formatExportAmount(cents / 100);
+                    expect(result).toMatch(/^-?\d+\.\d{2}$/);
+                    expect(Math.round(Number(result) * 100)).toBe(cents);
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('buildCsv', () => {
+        it('should emit a header plus one row per item with matching columns', () => {
+            fc.assert(
+                fc.property(fc.array(itemArbitrary, { maxLength: 10 }), (items) => {
+                    const rows = parseCsv(buildCsv(items));
+                    expect(rows).toHaveLength(items.length + 1);
+                    rows.forEach((row) => expect(row).toHaveLength(rows[0].length));
+                    items.forEach((item, index) => {
+                        expect(rows[index + 1][1]).toBe(item.transactionId);
+                        expect(rows[index + 1][8]).toBe(formatExportAmount(getSignedAmount(item)));
+                    });
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('buildJson', () => {
+        it('should include every item with string amounts', () => {
+            fc.assert(
+                fc.property(fc.array(itemArbitrary, { maxLength: 10 }), (items) => {
+                    const parsed = JSON.parse(buildJson(items, '2024-01-01T00:00:00.000Z'));
+                    expect(parsed.count).toBe(items.length);
+                    parsed.transactions.forEach((txn: { amount: unknown; signedAmount: unknown }) => {
+                        expect(typeof txn.amount).toBe('string');
+                        expect(typeof txn.signedAmount).toBe('string');
+                    });
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('buildOfx / buildQif', () => {
+        it('should contain exactly the non-cancelled transactions', () => {
+            fc.assert(
+                fc.property(fc.array(itemArbitrary, { maxLength: 10 }), (items) => {
+                    const posted = items.filter((item) => item.status !== WalletTransactionStatusEnum.CANCELLED);
+                    const ofx = buildOfx(items, '2024-01-01T00:00:00.000Z');
+                    const qif = buildQif(items);
+
+                    expect(ofx.match(/<STMTTRN>/g)?.length ?? 0).toBe(posted.length);
+                    expect(qif.match(/^\^$/gm)?.length ?? 0).toBe(posted.length);
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('collectTransactionPages', () => {
+        it('should fetch every page up to the first short one', async () => {
+            await fc.assert(
+                fc.asyncProperty(
+                    fc.uniqueArray(itemArbitrary, { selector: (item) => item.transactionId, maxLength: 45 }),
+                    async (items) => {
+                        const result = await collectTransactionPages(async (page) =>
+                            toPage(items.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE), page)
+                        );
+
+                        expect(result.items).toEqual(items);
+                        expect(result.isTruncated).toBe(false);
+                    }
+                ),
+                { numRuns: 50 }
+            );
+        });
+
+        it('should stop and flag truncation when the API ignores the page offset', async () => {
+            const [firstPage] = fc.sample(
+                fc.uniqueArray(itemArbitrary, { selector: (item) => item.transactionId, minLength: PAGE_SIZE, maxLength: PAGE_SIZE }),
+                1
+            );
+            let requests = 0;
+
+            const result = await collectTransactionPages(async (page) => {
+                requests++;
+                return toPage(firstPage, page);
+            });
+
+            expect(requests).toBe(2);
+            expect(result.items).toEqual(firstPage);
+            expect(result.isTruncated).toBe(true);
+        });
+
+        it('should stop at the page cap when full pages never end', async () => {
+            const [pool] = fc.sample(
+                fc.uniqueArray(itemArbitrary, { selector: (item) => item.transactionId, minLength: 3 * PAGE_SIZE, maxLength: 3 * PAGE_SIZE }),
+                1
+            );
+            const progress: number[] = [];
+
+            const result = await collectTransactionPages(
+                async (page) => toPage(pool.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE), page),
+                (count) => progress.push(count),
+                2
+            );
+
+            expect(result.items).toEqual(pool.slice(0, 2 * PAGE_SIZE));
+            expect(result.isTruncated).toBe(true);
+            expect(progress).toEqual([PAGE_SIZE, 2 * PAGE_SIZE]);
+        });
+    });
+
+    describe('buildExportFilename', () => {
+        it('should produce a filesystem-safe name with the format extension', () => {
+            fc.assert(
+                fc.property(
+                    fc.string(),
+                    fc.constantFrom(...Object.values(ExportFormat)),
+                    (scope, format) => {
+                        const filename = buildExportFilename(format, scope, new Date(2024, 5, 24));
+                        expect(filename).toMatch(
+                            new RegExp(`^apexpay-transactions-[a-z0-9-]+-20240624\\.${format}$`)
+                        );
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+});
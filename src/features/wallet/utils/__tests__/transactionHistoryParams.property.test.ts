@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+    parseHistorySearchParams,
+    toHistorySearchParams,
+    toHistoryQueryString,
+    getInvalidHistoryRange,
+} from '../transactionHistoryParams';
+import type { TransactionHistoryFilters } from '../../types';
+import { ReferenceTypeEnum, TransactionTypeEnum, WalletTransactionStatusEnum } from '../../types';
+
+/**
+ * Property-based tests for transaction history URL params
+ *
+ * **Validates: Server-driven transaction history filtering**
+ * - Filters and page survive a round-trip through the URL
+ * - Hand-edited URLs with invalid values are sanitised
+ * - Only set filters are sent to the API
+ */
+
+const dateArbitrary = fc
+    .integer({ min: Date.UTC(2020, 0, 1), max: Date.UTC(2030, 0, 1) })
+    .map((ms) => new Date(ms).toISOString().slice(0, 10));
+
+const filtersArbitrary: fc.Arbitrary<TransactionHistoryFilters> = fc.record(
+    {
+        walletId: fc.uuid(),
+        startDate: dateArbitrary,
+        endDate: dateArbitrary,
+        transactionType: fc.constantFrom(...Object.values(TransactionTypeEnum)),
+        referenceType: fc.constantFrom(...Object.values(ReferenceTypeEnum)),
+        status: fc.constantFrom(...Object.values(WalletTransactionStatusEnum)),
+        minAmount: fc.integer({ min: 0, max: 1_000_000 }).map((cents) => cents / 100),
+        maxAmount: fc.integer({ min: 0, max: 1_000_000 }).map((cents) => cents / 100),
+        query: fc.string({ minLength: 1, maxLength: 20 }).filter((s) => s.trim() === s && s.length > 0),
+    },
+    { requiredKeys: [] }
+);
+
+/**
+ * Drops undefined keys so parsed and generated filters compare equal
+ */
+const compact = (filters: TransactionHistoryFilters) =>
+    Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined));
+
+describe('Transaction History Params Property Tests', () => {
+    it('should round-trip filters and page through URL search params', () => {
+        fc.assert(
+            fc.property(filtersArbitrary, fc.integer({ min: 1, max: 1000 }), (filters, page) => {
+                const params = new URLSearchParams(toHistorySearchParams({ filters, page }).toString());
+                const parsed = parseHistorySearchParams(params);
+
+                expect(compact(parsed.filters)).toEqual(compact(filters));
+                expect(parsed.page).toBe(page);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should omit page 1 and empty filters from the URL', () => {
+        expect(toHistorySearchParams({ filters: {}, page: 1 }).toString()).toBe('');
+    });
+
+    it('should drop invalid values from hand-edited URLs', () => {
+        const parsed = parseHistorySearchParams(
+            new URLSearchParams('type=BOGUS&status=done&from=yesterday&min=-5&max=abc&page=0&q=%20%20')
+        );
+
+        expect(compact(parsed.filters)).toEqual({});
+        expect(parsed.page).toBe(1);
+    });
+
+    it('should send only the filters that are set to the API', () => {
+        fc.assert(
+            fc.property(filtersArbitrary, fc.integer({ min: 1, max: 1000 }), (filters, offset) => {
+                const params = new URLSearchParams(toHistoryQueryString({ ...filters, offset }));
+
+                expect(params.get('offset')).toBe(String(offset));
+                Object.entries(filters).forEach(([key, value]) => {
+                    expect(params.get(key)).toBe(value === undefined ? null : String(value));
+                });
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should flag inverted date and amount ranges', () => {
+        expect(getInvalidHistoryRange({ startDate: '2024-02-01', endDate: '2024-01-01' })).toBe('date');
+        expect(getInvalidHistoryRange({ minAmount: 10, maxAmount: 5 })).toBe('amount');
+        expect(getInvalidHistoryRange({ startDate: '2024-01-01', endDate: '2024-01-01', minAmount: 5, maxAmount: 5 })).toBeNull();
+    });
+});
@@ -0,0 +1,119 @@
+import { AnalyticsPeriodEnum } from '../types';
+import type { AnalyticsDateRange, MonthlyCashFlow, MonthOverMonthComparison } from '../types';
+import { subtractMoney, toMoney, type Money } from '../../../utils/money';
+
+/** Number of calendar months covered by each analytics period */
+export const ANALYTICS_PERIOD_MONTHS: Record<AnalyticsPeriodEnum, number> = {
+    [AnalyticsPeriodEnum.THREE_MONTHS]: 3,
+    [AnalyticsPeriodEnum.SIX_MONTHS]: 6,
+    [AnalyticsPeriodEnum.TWELVE_MONTHS]: 12,
+};
+
+/**
+ * Formats a local date's month as YYYY-MM
+ * @param date - Date to format
+ */
+export const toMonthKey = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * Formats a local date as YYYY-MM-DD
+ * @param date - Date to format
+ */
+export const toDateString = (date: Date): string =>
+    `${toMonthKey(date)}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Gets the date range for an analytics period
+ * Ranges start on the first day of the earliest month and end today
+ *
+ * @param period - Selected period
+ * @param now - Reference date (defaults to today)
+ * @returns Inclusive start and end dates (YYYY-MM-DD)
+ */
+export const getAnalyticsPeriodRange = (
+    period: AnalyticsPeriodEnum,
+    now: Date = new Date()
+): AnalyticsDateRange => {
+    const start = new Date(now.getFullYear(), now.getMonth() - ANALYTICS_PERIOD_MONTHS[period] + 1, 1);
+    return { startDate: toDateString(start), endDate: toDateString(now) };
+};
+
+/**
+ * Expands the monthly series to every month in the period, oldest first
+ * The backend omits months without activity; charts need them as zeros
+ *
+ * @param monthly - Months returned by the backend
+ * @param period - Selected period
+ * @param now - Reference date (defaults to today)
+ * @returns One entry per month in the period
+ */
+export const fillMonthlySeries = (
+    monthly: MonthlyCashFlow[],
+    period: AnalyticsPeriodEnum,
+    now: Date = new Date()
+): MonthlyCashFlow[] => {
+    const byMonth = new Map(monthly.map((entry) => [entry.month, entry]));
+    const months = ANALYTICS_PERIOD_MONTHS[period];
+
+    return Array.from({ length: months }, (_, index) => {
+        const month = toMonthKey(new Date(now.getFullYear(), now.getMonth() - months + 1 + index, 1));
+        return byMonth.get(month) ?? { month, income: 0, spending: 0 };
+    });
+};
+
+/**
+ * Calculates the percentage change between two amounts
+ * @param current - Amount this period
+ * @param previous - Amount last period
+ * @returns Percentage change rounded to one decimal place, or null when previous is zero
+ */
+export const getPercentChange = (current: number, previous: number): number | null => {
+    if (previous === 0) return null;
+    return Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10;
+};
+
+/**
+ * Compares the last two months of a filled monthly series
+ * @param series - Monthly series, oldest first
+ * @returns The comparison, or null when the series has fewer than two months
+ */
+export const getMonthOverMonth = (series: MonthlyCashFlow[]): MonthOverMonthComparison | null => {
+    if (series.length < 2) return null;
+    const current = series[series.length - 1];
+    const previous = series[series.length - 2];
+    return {
+        current,
+        previous,
+        incomeChange: getPercentChange(current.income, previous.income),
+        spendingChange: getPercentChange(current.spending, previous.spending),
+    };
+};
+
+/**
+ * Calculates net cash flow in whole minor units, so it matches the income and spending shown
+ * @param income - Income in major units
+ * @param spending - Spending in major units
+ * @param currency - Currency of both amounts
+ * @returns Income minus spending
+ */
+export const getNetCashFlow = (income: number, spending: number, currency: string): Money =>
+    subtractMoney(toMoney(income, currency), toMoney(spending, currency));
+
+/**
+ * Calculates each amount's share of the total
+ * @param amount - Part
+ * @param total - Whole
+ * @returns Whole-number percentage (0 when the total is zero)
+ */
+export const getShareOfTotal = (amount: number, total: number): number =>
+    total > 0 ? Math.round((amount / total) * 100) : 0;
+
+/**
+ * Formats a YYYY-MM month key as a short month label (e.g., "Jun")
+ * @param month - Month key
+ */
+export const formatMonthLabel = (month: string): string => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return new Date(year, monthNumber - 1, 1).toLocaleDateString('en-US', { month: 'short' });
+};
@@ -0,0 +1,78 @@
+import { BalanceHistoryPeriodEnum } from '../types';
+import type { BalanceHistoryPoint, ChartDataPoint } from '../types';
+import { formatCurrency, formatDate, formatDateTime } from './formatters';
+
+/** Most x-axis labels shown under a balance chart before labels are thinned out */
+const MAX_AXIS_LABELS = 7;
+
+/** Axis label format for each period's bucket size */
+const AXIS_LABEL_OPTIONS: Record<BalanceHistoryPeriodEnum, Intl.DateTimeFormatOptions> = {
+    [BalanceHistoryPeriodEnum.DAY]: { hour: 'numeric' },
+    [BalanceHistoryPeriodEnum.WEEK]: { weekday: 'short' },
+    [BalanceHistoryPeriodEnum.MONTH]: { month: 'short', day: 'numeric' },
+    [BalanceHistoryPeriodEnum.YEAR]: { month: 'short' },
+};
+
+/**
+ * Formats a bucket timestamp as a short x-axis label
+ * @param timestamp - ISO 8601 bucket timestamp
+ * @param period - Period the bucket belongs to
+ * @returns Label such as "2 PM", "Mon", "Jun 3" or "Jun"
+ */
+export const formatBalanceAxisLabel = (timestamp: string, period: BalanceHistoryPeriodEnum): string => {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? '' : date.toLocaleString('en-US', AXIS_LABEL_OPTIONS[period]);
+};
+
+/**
+ * Formats a bucket timestamp for a tooltip
+ * Hourly buckets include the time; monthly buckets show the month and year
+ * @param timestamp - ISO 8601 bucket timestamp
+ * @param period - Period the bucket belongs to
+ */
+export const formatBalanceTooltipDate = (timestamp: string, period: BalanceHistoryPeriodEnum): string => {
+    switch (period) {
+        case BalanceHistoryPeriodEnum.DAY:
+            return formatDateTime(timestamp);
+        case BalanceHistoryPeriodEnum.YEAR: {
+            const date = new Date(timestamp);
+            return isNaN(date.getTime())
+                ? formatDate(timestamp)
+                : date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+        }
+        default:
+            return formatDate(timestamp);
+    }
+};
+
+/**
+ * Maps balance history to mini chart points with date and amount tooltips
+ * @param points - Balance history, oldest first
+ * @param currency - Wallet currency
+ * @param period - Period the history covers
+ */
+export const toBalanceChartData = (
+    points: BalanceHistoryPoint[],
+    currency: string,
+    period: BalanceHistoryPeriodEnum
+): ChartDataPoint[] =>
+    points.map((point) => ({
+        value: point.balance,
+        label: `${formatBalanceTooltipDate(point.timestamp, period)}: ${formatCurrency(point.balance, currency)}`,
+    }));
+
+/**
+ * Picks which bucket indices get an x-axis label
+ * Always labels the first and last buckets and spreads the rest evenly
+ * @param count - Number of buckets
+ * @param maxLabels - Most labels to show
+ * @returns Sorted, distinct indices
+ */
+export const getAxisLabelIndices = (count: number, maxLabels: number = MAX_AXIS_LABELS): number[] => {
+    if (count <= 0) return [];
+    if (count <= maxLabels) return Array.from({ length: count }, (_, index) => index);
+    if (maxLabels <= 1) return [count - 1];
+
+    const step = (count - 1) / (maxLabels - 1);
+    return Array.from({ length: maxLabels }, (_, index) => Math.round(index * step));
+};
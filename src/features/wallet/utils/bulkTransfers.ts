@@ -0,0 +1,227 @@
+import { createTransferSchema } from '../../../schemas';
+import { compareMoney, parseMoney, subtractMoney, sumMoney, toDecimalString, toMoney, zeroMoney, type Money } from '../../../utils/money';
+import { escapeCsvField } from './transactionExport';
+import { toDateString } from './analytics';
+import type { BulkTransferResult, BulkTransferRow, BulkTransferRowCheck } from '../types';
+
+/** Columns of a bulk transfer CSV, in template order; only the note may be left out */
+export const BULK_TRANSFER_COLUMNS = ['email', 'amount', 'currency', 'note'] as const;
+
+/** Most rows accepted in one upload */
+export const MAX_BULK_TRANSFER_ROWS = 500;
+
+/** Transfers sent at the same time while submitting */
+export const BULK_TRANSFER_CONCURRENCY = 3;
+
+/** Column order for the results report */
+const REPORT_COLUMNS = ['Row', 'Email', 'Amount', 'Currency', 'Note', 'Status', 'Reference', 'Error'] as const;
+
+/** Totals shown before a bulk transfer is sent */
+export interface BulkTransferSummary {
+    validCount: number;
+    invalidCount: number;
+    /** Sum of the valid rows */
+    total: Money;
+    /** Balance left after the valid rows are sent; negative if they exceed it */
+    remaining: Money;
+}
+
+/**
+ * Splits CSV text into records per RFC 4180
+ * Handles quoted fields with commas, doubled quotes and line breaks, CRLF or LF
+ * line endings and a leading byte order mark. Blank lines are skipped.
+ *
+ * @param text - CSV file content
+ * @returns Records with their 1-based starting line number
+ */
+export const parseCsvRecords = (text: string): { line: number; fields: string[] }[] => {
+    const records: { line: number; fields: string[] }[] = [];
+    const content = text.replace(/^\uFEFF/, '');
+
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+
+    const endRecord = () => {
+        fields.push(field);
+        if (fields.length > 1 || fields[0].trim() !== '') {
+            records.push({ line: recordLine, fields });
+        }
+        fields = [];
+        field = '';
+    };
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                if (char === '\n') line++;
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            fields.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            endRecord();
+            line++;
+            recordLine = line;
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || fields.length > 0) endRecord();
+    return records;
+};
+
+/**
+ * Reads bulk transfer rows from an uploaded CSV
+ * The header row names the columns in any order and case; extra columns are ignored
+ *
+ * @param text - CSV file content
+ * @returns One row per transfer, values trimmed but otherwise as written
+ * @throws Error if a column is missing, the file has no rows or more than {@link MAX_BULK_TRANSFER_ROWS}
+ */
+export const parseBulkTransferCsv = (text: string): BulkTransferRow[] => {
+    const [header, ...records] = parseCsvRecords(text);
+    if (!header) {
+        throw new Error('The file is empty');
+    }
+
+    const headings = header.fields.map((heading) => heading.trim().toLowerCase());
+    const missing = BULK_TRANSFER_COLUMNS.filter((column) => column !== 'note' && !headings.includes(column));
+    if (missing.length > 0) {
+        throw new Error(`Missing ${missing.length === 1 ? 'column' : 'columns'}: ${missing.join(', ')}`);
+    }
+    if (records.length === 0) {
+        throw new Error('The file has no transfers');
+    }
+    if (records.length > MAX_BULK_TRANSFER_ROWS) {
+        throw new Error(`A file can have at most ${MAX_BULK_TRANSFER_ROWS} transfers`);
+    }
+
+    const read = (fields: string[], column: string) => fields[headings.indexOf(column)]?.trim() ?? '';
+
+    return records.map(({ line, fields }) => ({
+        rowNumber: line,
+        email: read(fields, 'email'),
+        amount: read(fields, 'amount'),
+        currency: read(fields, 'currency').toUpperCase(),
+        note: read(fields, 'note'),
+    }));
+};
+
+/**
+ * Validates each row with the transfer form's rules for the source wallet
+ * Rows must be in the wallet's currency; the combined total is checked by {@link getBulkTransferSummary}
+ *
+ * @param rows - Rows read from the CSV
+ * @param balance - Source wallet balance
+ * @param currency - Source wallet currency
+ * @returns Rows with the first validation error of each, or null
+ */
+export const validateBulkTransferRows = (
+    rows: BulkTransferRow[],
+    balance: number,
+    currency: string
+): BulkTransferRowCheck[] => {
+    const schema = createTransferSchema(balance, currency);
+
+    return rows.map((row) => {
+        if (row.currency !== currency) {
+            return { ...row, error: `Currency must be ${currency}, the source wallet's currency` };
+        }
+        const result = schema.safeParse({ recipient: row.email, amount: row.amount, note: row.note });
+        return { ...row, error: result.success ? null : result.error.issues[0].message };
+    });
+};
+
+/**
+ * Adds up the amounts of the given rows; amounts that cannot be read count as zero
+ * @param rows - Rows to total
+ * @param currency - Source wallet currency
+ * @returns Combined amount of the rows
+ */
+export const getBulkTransferTotal = (rows: Pick<BulkTransferRow, 'amount'>[], currency: string): Money =>
+    sumMoney(
+        rows.map((row) => parseMoney(row.amount, currency)).filter((amount): amount is Money => amount !== null),
+        currency
+    );
+
+/**
+ * Totals the valid rows against the source wallet balance
+ * @param checks - Validated rows
+ * @param balance - Source wallet balance
+ * @param currency - Source wallet currency
+ */
+export const getBulkTransferSummary = (
+    checks: BulkTransferRowCheck[],
+    balance: number,
+    currency: string
+): BulkTransferSummary => {
+    const valid = checks.filter((check) => check.error === null);
+    const total = getBulkTransferTotal(valid, currency);
+
+    return {
+        validCount: valid.length,
+        invalidCount: checks.length - valid.length,
+        total,
+        remaining: subtractMoney(toMoney(balance, currency), total),
+    };
+};
+
+/**
+ * Checks whether the rows can be sent: every row is valid and together they fit the balance
+ * @param summary - Totals from {@link getBulkTransferSummary}
+ */
+export const canSubmitBulkTransfer = (summary: BulkTransferSummary): boolean =>
+    summary.validCount > 0 &&
+    summary.invalidCount === 0 &&
+    compareMoney(summary.remaining, zeroMoney(summary.remaining.currency)) >= 0;
+
+/**
+ * Builds the CSV template users fill in
+ * @param currency - Currency used in the example row
+ */
+export const buildBulkTransferTemplate = (currency: string): string =>
+    [BULK_TRANSFER_COLUMNS.join(','), `friend@example.com,${toDecimalString(toMoney(10, currency))},${currency},Team lunch`].join('\r\n');
+
+/**
+ * Builds the downloadable results report (CRLF line endings, header row first)
+ * @param results - Submission state of every row
+ * @returns CSV content
+ */
+export const buildBulkTransferReport = (results: BulkTransferResult[]): string => {
+    const header = REPORT_COLUMNS.map((column) => escapeCsvField(column)).join(',');
+    const rows = results.map(({ row, status, reference, error }) => [
+        escapeCsvField(row.rowNumber.toString(), false),
+        escapeCsvField(row.email),
+        escapeCsvField(row.amount, false),
+        escapeCsvField(row.currency),
+        escapeCsvField(row.note),
+        escapeCsvField(status),
+        escapeCsvField(reference ?? ''),
+        escapeCsvField(error ?? ''),
+    ].join(','));
+
+    return [header, ...rows].join('\r\n');
+};
+
+/**
+ * Builds the results report filename
+ * @param date - Report date
+ * @returns Filename such as "apexpay-bulk-transfers-2024-06-24.csv"
+ */
+export const buildBulkTransferReportFilename = (date: Date = new Date()): string =>
+    `apexpay-bulk-transfers-${toDateString(date)}.csv`;
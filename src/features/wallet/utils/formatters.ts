@@ -1,20 +1,37 @@
-// Currency formatting utility
-export function formatCurrency(amount: number, currency: string = 'USD'): string {
-    const currencySymbols: Record<string, string> = {
-        USD: '$',
-        EUR: '€',
-        GBP: '£',
-        JPY: '¥',
-    };
-
-    const symbol = currencySymbols[currency] || '$';
-    const formattedAmount = Math.abs(amount).toFixed(2);
-    const [whole, decimal] = formattedAmount.split('.');
-
-    // Add thousand separators
-    const wholeWithSeparators = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
-
-    return `${symbol}${wholeWithSeparators}.${decimal}`;
+import { DEFAULT_CURRENCY } from '../../../utils/currency';
+import { formatMoneyValue, toMoney } from '../../../utils/money';
+
+/**
+ * Formats the magnitude of an amount in the given currency
+ * Rounds to the currency's own minor units (e.g., "$1,234.50", "¥1,235"); callers add any +/- prefix
+ * @param amount - Amount in major units (sign is ignored)
+ * @param currency - ISO 4217 currency code
+ * @returns Formatted amount
+ */
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY): string {
+    return formatMoneyValue(toMoney(Math.abs(amount), currency));
+}
+
+/**
+ * Formats an exchange rate as one unit of the source currency in the destination currency
+ * @param rate - Units of destination currency per unit of source currency
+ * @param sourceCurrency - ISO 4217 code being sold
+ * @param destinationCurrency - ISO 4217 code being bought
+ * @returns Formatted rate (e.g., "1 SGD = 0.7412 USD")
+ */
+export function formatExchangeRate(rate: number, sourceCurrency: string, destinationCurrency: string): string {
+    const formattedRate = rate.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 });
+    return `1 ${sourceCurrency} = ${formattedRate} ${destinationCurrency}`;
+}
+
+/**
+ * Formats a number of seconds as a minutes:seconds countdown
+ * @param totalSeconds - Seconds remaining
+ * @returns Formatted countdown (e.g., "0:27", "2:05")
+ */
+export function formatCountdown(totalSeconds: number): string {
+    const seconds = Math.max(0, Math.floor(totalSeconds));
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
 }
 
 // Date formatting utility
@@ -0,0 +1,60 @@
+import { PaymentRequestStatusEnum, type PaymentRequest } from '../types';
+
+/** Route that shows a payment request to its payer */
+export const PAY_REQUEST_PATH = '/pay';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Gets the expiry timestamp for a new request
+ * @param now - Creation time
+ * @param days - Days the request stays payable
+ * @returns ISO 8601 timestamp
+ */
+export const getExpiresAt = (now: Date, days: number): string =>
+    new Date(now.getTime() + days * DAY_MS).toISOString();
+
+/**
+ * Gets a request's status as of now
+ * A pending request past its expiry is expired even if the server has not updated it yet
+ *
+ * @param request - Status and expiry of the request
+ * @param now - Current time
+ * @returns Effective status
+ */
+export const getPaymentRequestStatus = (
+    request: Pick<PaymentRequest, 'status' | 'expiresAt'>,
+    now: Date
+): PaymentRequestStatusEnum =>
+    request.status === PaymentRequestStatusEnum.PENDING && Date.parse(request.expiresAt) <= now.getTime()
+        ? PaymentRequestStatusEnum.EXPIRED
+        : request.status;
+
+/**
+ * Checks whether a request was created by the user
+ * @param request - The request
+ * @param userEmail - The logged-in user's email, if known
+ */
+export const isOwnRequest = (request: Pick<PaymentRequest, 'requesterEmail'>, userEmail: string | undefined): boolean =>
+    Boolean(userEmail) && request.requesterEmail.toLowerCase() === userEmail?.toLowerCase();
+
+/**
+ * Checks whether a user can pay a request
+ * It must still be pending, and users cannot pay their own requests
+ *
+ * @param request - The request
+ * @param userEmail - The logged-in user's email, if known
+ * @param now - Current time
+ */
+export const canPayRequest = (request: PaymentRequest, userEmail: string | undefined, now: Date): boolean =>
+    getPaymentRequestStatus(request, now) === PaymentRequestStatusEnum.PENDING &&
+    !isOwnRequest(request, userEmail);
+
+/**
+ * Builds the shareable pay link for a request
+ * @param requestId - The request ID
+ * @param origin - Site origin (e.g., "https://app.apexpay.net")
+ * @returns Absolute URL of the pay page
+ */
+export const getPayLink = (requestId: string, origin: string): string =>
+    `${origin.replace(/\/+$/, '')}${PAY_REQUEST_PATH}/${encodeURIComponent(requestId)}`;
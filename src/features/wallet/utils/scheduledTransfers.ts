@@ -0,0 +1,195 @@
+import {
+    ScheduledTransferStatusEnum,
+    TransferRecurrenceEnum,
+    type ScheduledTransfer,
+    type TransferSchedule,
+    type UpcomingTransferRun,
+} from '../types';
+import { SCHEDULED_TRANSFERS_TEXT } from '../constants/text';
+
+/** Number of upcoming runs shown on the dashboard */
+export const UPCOMING_RUNS_LIMIT = 5;
+
+/** Safety cap on runs enumerated per schedule */
+const MAX_RUNS_PER_SCHEDULE = 10_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses a YYYY-MM-DD date into UTC milliseconds
+ * UTC keeps day arithmetic free of daylight saving shifts
+ * @param date - Date string to parse
+ * @returns Milliseconds at UTC midnight, or null if the date is malformed or does not exist
+ */
+const parseDateKey = (date: string): number | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+    if (!match) return null;
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    const ms = Date.UTC(year, month - 1, day);
+    const parsed = new Date(ms);
+    return parsed.getUTCFullYear() === year && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day
+        ? ms
+        : null;
+};
+
+/**
+ * Formats UTC milliseconds as YYYY-MM-DD
+ * @param ms - Milliseconds at UTC midnight
+ */
+const formatDateKey = (ms: number): string => new Date(ms).toISOString().slice(0, 10);
+
+/**
+ * Adds days to a YYYY-MM-DD date
+ * @param date - Date to start from
+ * @param days - Days to add (may be negative)
+ * @returns Shifted date, or the input unchanged if it is malformed
+ */
+export const addDays = (date: string, days: number): string => {
+    const ms = parseDateKey(date);
+    return ms === null ? date : formatDateKey(ms + days * DAY_MS);
+};
+
+/**
+ * Formats a YYYY-MM-DD run date for display (e.g., "Mar 5, 2025")
+ * Dates are calendar days, so they are formatted in UTC to avoid shifting by the local offset
+ * @param date - Date to format
+ * @returns Formatted date, or the input unchanged if it is malformed
+ */
+export const formatRunDate = (date: string): string => {
+    const ms = parseDateKey(date);
+    return ms === null
+        ? date
+        : new Date(ms).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+};
+
+/**
+ * Converts schedule form fields into an API schedule
+ * The interval is only sent for custom recurrences and the end date only for repeating ones
+ *
+ * @param fields - Validated form values
+ * @returns Schedule for create and update requests
+ */
+export const toTransferSchedule = (fields: {
+    startDate: string;
+    recurrence: TransferRecurrenceEnum;
+    intervalDays: string;
+    endDate: string;
+}): TransferSchedule => ({
+    startDate: fields.startDate,
+    recurrence: fields.recurrence,
+    intervalDays: fields.recurrence === TransferRecurrenceEnum.CUSTOM ? Number(fields.intervalDays) : undefined,
+    endDate: fields.recurrence !== TransferRecurrenceEnum.NONE && fields.endDate ? fields.endDate : undefined,
+});
+
+/**
+ * Gets the date of a schedule's nth run (0 is the start date)
+ * Monthly runs keep the start day, clamped to the last day of shorter months,
+ * so a schedule starting on the 31st runs on Feb 28/29 and then the 31st again
+ *
+ * @param schedule - Start date, recurrence and interval
+ * @param index - Zero-based run number
+ * @returns Run date (YYYY-MM-DD), or null if the schedule is invalid or one-off past its first run
+ */
+export const getRunDate = (schedule: TransferSchedule, index: number): string | null => {
+    const start = parseDateKey(schedule.startDate);
+    if (start === null || index < 0) return null;
+    if (index === 0) return schedule.startDate;
+
+    switch (schedule.recurrence) {
+        case TransferRecurrenceEnum.WEEKLY:
+            return formatDateKey(start + index * 7 * DAY_MS);
+        case TransferRecurrenceEnum.CUSTOM: {
+            const interval = schedule.intervalDays ?? 0;
+            return interval >= 1 ? formatDateKey(start + index * interval * DAY_MS) : null;
+        }
+        case TransferRecurrenceEnum.MONTHLY: {
+            const startDate = new Date(start);
+            const monthIndex = startDate.getUTCMonth() + index;
+            const year = startDate.getUTCFullYear() + Math.floor(monthIndex / 12);
+            const month = monthIndex % 12;
+            const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+            return formatDateKey(Date.UTC(year, month, Math.min(startDate.getUTCDate(), daysInMonth)));
+        }
+        default:
+            return null;
+    }
+};
+
+/**
+ * Lists a schedule's runs on or after a date, up to its end date
+ * @param schedule - Schedule to expand
+ * @param fromDate - Earliest run date to include (YYYY-MM-DD)
+ * @param limit - Maximum number of runs
+ * @returns Run dates in ascending order
+ */
+export const getRunDatesFrom = (schedule: TransferSchedule, fromDate: string, limit: number): string[] => {
+    const runs: string[] = [];
+    for (let index = 0; runs.length < limit && index < MAX_RUNS_PER_SCHEDULE; index++) {
+        const runDate = getRunDate(schedule, index);
+        if (runDate === null || (schedule.endDate && runDate > schedule.endDate)) break;
+        if (runDate >= fromDate) runs.push(runDate);
+    }
+    return runs;
+};
+
+/**
+ * Gets the next runs across all active schedules, soonest first
+ * Runs before a schedule's server-side next run date (e.g., skipped while paused) are left out
+ *
+ * @param schedules - The user's schedules
+ * @param today - Today's date (YYYY-MM-DD)
+ * @param limit - Maximum number of runs
+ * @returns Upcoming runs ordered by date
+ */
+export const getUpcomingRuns = (
+    schedules: ScheduledTransfer[],
+    today: string,
+    limit: number = UPCOMING_RUNS_LIMIT
+): UpcomingTransferRun[] =>
+    schedules
+        .flatMap((schedule) => {
+            if (schedule.status !== ScheduledTransferStatusEnum.ACTIVE || !schedule.nextRunDate) return [];
+            const from = schedule.nextRunDate > today ? schedule.nextRunDate : today;
+            return getRunDatesFrom(schedule, from, limit).map((runDate) => ({
+                scheduleId: schedule.scheduleId,
+                runDate,
+                recipientEmail: schedule.recipientEmail,
+                amount: schedule.amount,
+                currency: schedule.currency,
+                walletName: schedule.walletName,
+            }));
+        })
+        .sort((a, b) => a.runDate.localeCompare(b.runDate) || a.scheduleId.localeCompare(b.scheduleId))
+        .slice(0, limit);
+
+/**
+ * Describes how often a schedule repeats (e.g., "Monthly", "Every 10 days")
+ * @param schedule - Recurrence and interval
+ * @returns Human-readable recurrence
+ */
+export const formatRecurrence = (schedule: Pick<TransferSchedule, 'recurrence' | 'intervalDays'>): string =>
+    schedule.recurrence === TransferRecurrenceEnum.CUSTOM
+        ? SCHEDULED_TRANSFERS_TEXT.EVERY_N_DAYS(schedule.intervalDays ?? 0)
+        : SCHEDULED_TRANSFERS_TEXT.RECURRENCES[schedule.recurrence];
+
+/**
+ * Checks whether a schedule can still be paused, resumed, edited or cancelled
+ * @param schedule - Schedule to check
+ */
+export const isScheduleEditable = (schedule: ScheduledTransfer): boolean =>
+    schedule.status === ScheduledTransferStatusEnum.ACTIVE || schedule.status === ScheduledTransferStatusEnum.PAUSED;
+
+/**
+ * Orders schedules for the list: active and paused ones by next run date,
+ * then completed and cancelled ones, newest first
+ * @param schedules - Schedules to order
+ * @returns New sorted array
+ */
+export const sortSchedules = (schedules: ScheduledTransfer[]): ScheduledTransfer[] =>
+    [...schedules].sort((a, b) => {
+        const aEditable = isScheduleEditable(a);
+        const bEditable = isScheduleEditable(b);
+        if (aEditable !== bEditable) return aEditable ? -1 : 1;
+        if (aEditable) return (a.nextRunDate ?? a.startDate).localeCompare(b.nextRunDate ?? b.startDate);
+        return b.createdAt.localeCompare(a.createdAt);
+    });
@@ -0,0 +1,62 @@
+import { getPaymentRequestStatus } from './paymentRequests';
+import { sumAmounts } from '../../../utils/money';
+import { PaymentRequestStatusEnum, type SplitBill, type SplitBillParticipant } from '../types';
+
+/** Route that shows a split bill's details */
+export const SPLIT_DETAILS_PATH = '/requests/splits';
+
+/** Minimum time between reminders to the same participant */
+export const REMINDER_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Gets a participant's payment status as of now
+ * Shares follow their payment request, which expires with the split
+ *
+ * @param split - Expiry of the split
+ * @param participant - The participant
+ * @param now - Current time
+ * @returns Effective status
+ */
+export const getParticipantStatus = (
+    split: Pick<SplitBill, 'expiresAt'>,
+    participant: Pick<SplitBillParticipant, 'status'>,
+    now: Date
+): PaymentRequestStatusEnum =>
+    getPaymentRequestStatus({ status: participant.status, expiresAt: split.expiresAt }, now);
+
+/**
+ * Adds up the shares that have been paid
+ * @param split - The split bill
+ * @returns Amount collected so far, in major units
+ */
+export const getCollectedAmount = (split: SplitBill): number =>
+    sumAmounts(
+        split.participants
+            .filter((participant) => participant.status === PaymentRequestStatusEnum.PAID)
+            .map((participant) => participant.amount),
+        split.currency
+    );
+
+/**
+ * Counts the participants who have paid
+ * @param split - The split bill
+ */
+export const getPaidCount = (split: SplitBill): number =>
+    split.participants.filter((participant) => participant.status === PaymentRequestStatusEnum.PAID).length;
+
+/**
+ * Checks whether a participant can be reminded
+ * Their share must still be pending, and they are reminded at most once per cooldown
+ *
+ * @param split - Expiry of the split
+ * @param participant - The participant
+ * @param now - Current time
+ */
+export const canRemindParticipant = (
+    split: Pick<SplitBill, 'expiresAt'>,
+    participant: SplitBillParticipant,
+    now: Date
+): boolean =>
+    getParticipantStatus(split, participant, now) === PaymentRequestStatusEnum.PENDING &&
+    (participant.lastRemindedAt === null ||
+        now.getTime() - Date.parse(participant.lastRemindedAt) >= REMINDER_COOLDOWN_MS);
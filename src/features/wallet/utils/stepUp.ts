@@ -0,0 +1,33 @@
+import { compareMoney, toMoney, type Money } from '../../../utils/money';
+import { CurrencyEnum } from '../types';
+
+/**
+ * Transfer amounts, in major units, above which users with 2FA must enter a code
+ * Set per currency so the limit is worth roughly the same everywhere
+ */
+export const STEP_UP_THRESHOLDS: Record<CurrencyEnum, number> = {
+    [CurrencyEnum.SGD]: 1_000,
+    [CurrencyEnum.USD]: 750,
+    [CurrencyEnum.EUR]: 700,
+    [CurrencyEnum.GBP]: 600,
+    [CurrencyEnum.JPY]: 110_000,
+    [CurrencyEnum.AUD]: 1_100,
+};
+
+/**
+ * Checks whether a transfer must be confirmed with a two-factor code first
+ * Currencies without a threshold always need one
+ * @param amount - Transfer amount
+ * @param isMfaEnabled - Whether the user has 2FA turned on; without it there is nothing to ask for
+ * @param thresholds - Limits per currency
+ * @returns True if the amount is above the currency's threshold
+ */
+export const requiresStepUp = (
+    amount: Money,
+    isMfaEnabled: boolean,
+    thresholds: Partial<Record<string, number>> = STEP_UP_THRESHOLDS
+): boolean => {
+    if (!isMfaEnabled) return false;
+    const threshold = thresholds[amount.currency];
+    return threshold === undefined || compareMoney(amount, toMoney(threshold, amount.currency)) > 0;
+};
@@ -0,0 +1,380 @@
+import type { TransactionHistoryItem, TransactionHistoryPage } from '../types';
+import { ExportFormat, TransactionTypeEnum, WalletTransactionStatusEnum } from '../types';
+import { DEFAULT_CURRENCY } from '../../../utils/currency';
+import { toDecimalString, toMoney } from '../../../utils/money';
+
+// ============================================
+// Shared helpers
+// ============================================
+
+/** Column order for CSV exports */
+const CSV_COLUMNS = [
+    'Date',
+    'Transaction ID',
+    'Reference',
+    'Wallet',
+    'Wallet ID',
+    'Type',
+    'Category',
+    'Description',
+    'Amount',
+    'Currency',
+    'Status',
+] as const;
+
+/** Characters that make spreadsheet apps treat a cell as a formula */
+const FORMULA_TRIGGER_PATTERN = /^[=+\-@\t\r]/;
+
+/** MIME types used when downloading each export format */
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+    [ExportFormat.CSV]: 'text/csv;charset=utf-8',
+    [ExportFormat.JSON]: 'application/json;charset=utf-8',
+    [ExportFormat.OFX]: 'application/x-ofx;charset=utf-8',
+    [ExportFormat.QIF]: 'application/qif;charset=utf-8',
+};
+
+/**
+ * Returns the signed amount of a transaction: credits are positive, debits and reserves negative
+ * @param item - Transaction history item
+ * @returns Signed amount
+ */
+export const getSignedAmount = (item: TransactionHistoryItem): number => {
+    const magnitude = Math.abs(item.amount);
+    return item.transactionType === TransactionTypeEnum.CREDIT ? magnitude : -magnitude;
+};
+
+/**
+ * Formats an amount with a dot decimal separator and no grouping,
+ * independent of the user's locale so files import identically everywhere
+ * @param amount - Amount to format
+ * @param currency - ISO 4217 code that decides the number of decimals
+ * @returns Plain decimal string (e.g., "-1234.50")
+ */
+export const formatExportAmount = (amount: number, currency: string = DEFAULT_CURRENCY): string =>
+    toDecimalString(toMoney(amount, currency));
+
+/**
+ * Escapes a single CSV field per RFC 4180.
+ * Text that starts with a formula trigger is prefixed with a quote so
+ * spreadsheet apps never evaluate it (CSV injection).
+ * @param value - Raw cell value
+ * @param isText - Whether the value is free text (amounts are never neutralised)
+ * @returns Escaped cell
+ */
+export const escapeCsvField = (value: string, isText = true): string => {
+    const safe = isText && FORMULA_TRIGGER_PATTERN.test(value) ? `'${value}` : value;
+    if (/[",\r\n]/.test(safe)) {
+        return `"${safe.replace(/"/g, '""')}"`;
+    }
+    return safe;
+};
+
+/**
+ * Escapes text for inclusion in OFX (XML) elements
+ * @param value - Raw text
+ * @returns XML-safe text
+ */
+const escapeXml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+/**
+ * Pads a number to two digits
+ */
+const pad2 = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Formats a date as an OFX timestamp in UTC (YYYYMMDDHHMMSS[0:GMT])
+ * @param dateString - ISO 8601 date string
+ * @returns OFX date-time string
+ */
+export const formatOfxDate = (dateString: string): string => {
+    const date = new Date(dateString);
+    return `${date.getUTCFullYear()}${pad2(date.getUTCMonth() + 1)}${pad2(date.getUTCDate())}`
+        + `${pad2(date.getUTCHours())}${pad2(date.getUTCMinutes())}${pad2(date.getUTCSeconds())}[0:GMT]`;
+};
+
+/**
+ * Formats a date as a QIF date in UTC (MM/DD/YYYY)
+ * @param dateString - ISO 8601 date string
+ * @returns QIF date string
+ */
+export const formatQifDate = (dateString: string): string => {
+    const date = new Date(dateString);
+    return `${pad2(date.getUTCMonth() + 1)}/${pad2(date.getUTCDate())}/${date.getUTCFullYear()}`;
+};
+
+/**
+ * Strips line breaks so free text cannot break line-based formats (QIF)
+ */
+const singleLine = (value: string): string => value.replace(/[\r\n]+/g, ' ').trim();
+
+/**
+ * Cancelled transactions released their funds and never hit the ledger,
+ * so accounting formats (OFX/QIF) leave them out
+ */
+const isPosted = (item: TransactionHistoryItem): boolean =>
+    item.status !== WalletTransactionStatusEnum.CANCELLED;
+
+// ============================================
+// Format builders
+// ============================================
+
+/**
+ * Builds a CSV document (CRLF line endings, header row first)
+ * @param items - Transactions to export
+ * @returns CSV content
+ */
+export const buildCsv = (items: TransactionHistoryItem[]): string => {
+    const header = CSV_COLUMNS.map((column) => escapeCsvField(column)).join(',');
+    const rows = items.map((item) => [
+        escapeCsvField(new Date(item.createdAt).toISOString()),
+        escapeCsvField(item.transactionId),
+        escapeCsvField(item.transactionReference),
+        escapeCsvField(item.walletName),
+        escapeCsvField(item.walletId),
+        escapeCsvField(item.transactionType),
+        escapeCsvField(item.referenceType),
+        escapeCsvField(item.description),
+        escapeCsvField(formatExportAmount(getSignedAmount(item), item.currency), false),
+        escapeCsvField(item.currency),
+        escapeCsvField(item.status),
+    ].join(','));
+
+    return [header, ...rows].join('\r\n') + '\r\n';
+};
+
+/**
+ * Builds a JSON document with export metadata
+ * Amounts are emitted as decimal strings to avoid float drift in consumers
+ * @param items - Transactions to export
+ * @param generatedAt - Export timestamp (ISO 8601)
+ * @returns Pretty-printed JSON content
+ */
+export const buildJson = (items: TransactionHistoryItem[], generatedAt: string): string => {
+    const document = {
+        generatedAt,
+        count: items.length,
+        transactions: items.map((item) => ({
+            ...item,
+            amount: formatExportAmount(Math.abs(item.amount), item.currency),
+            signedAmount: formatExportAmount(getSignedAmount(item), item.currency),
+        })),
+    };
+    return JSON.stringify(document, null, 2);
+};
+
+/**
+ * Builds an OFX 2.x document with one bank statement per wallet
+ * (OFX statements are single-currency and single-account)
+ * @param items - Transactions to export
+ * @param generatedAt - Export timestamp (ISO 8601)
+ * @returns OFX content
+ */
+export const buildOfx = (items: TransactionHistoryItem[], generatedAt: string): string => {
+    const byWallet = new Map<string, TransactionHistoryItem[]>();
+    items.filter(isPosted).forEach((item) => {
+        const group = byWallet.get(item.walletId) ?? [];
+        group.push(item);
+        byWallet.set(item.walletId, group);
+    });
+
+    const statements = Array.from(byWallet.entries()).map(([walletId, walletItems], index) => {
+        const sorted = [...walletItems].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        const transactions = sorted.map((item) => {
+            const signed = getSignedAmount(item);
+            return [
+                '<STMTTRN>',
+                `<TRNTYPE>${signed >= 0 ? 'CREDIT' : 'DEBIT'}</TRNTYPE>`,
+                `<DTPOSTED>${formatOfxDate(item.createdAt)}</DTPOSTED>`,
+                `<TRNAMT>${formatExportAmount(signed, item.currency)}</TRNAMT>`,
+                `<FITID>${escapeXml(item.transactionId)}</FITID>`,
+                `<NAME>${escapeXml(singleLine(item.description).slice(0, 32))}</NAME>`,
+                `<MEMO>${escapeXml(singleLine(item.transactionReference))}</MEMO>`,
+                '</STMTTRN>',
+            ].join('\n');
+        });
+
+        return [
+            '<STMTTRNRS>',
+            `<TRNUID>${index + 1}</TRNUID>`,
+            '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+            '<STMTRS>',
+            `<CURDEF>${escapeXml(sorted[0].currency)}</CURDEF>`,
+            '<BANKACCTFROM>',
+            '<BANKID>APEXPAY</BANKID>',
+            `<ACCTID>${escapeXml(walletId)}</ACCTID>`,
+            '<ACCTTYPE>CHECKING</ACCTTYPE>',
+            '</BANKACCTFROM>',
+            '<BANKTRANLIST>',
+            `<DTSTART>${formatOfxDate(sorted[0].createdAt)}</DTSTART>`,
+            `<DTEND>${formatOfxDate(sorted[sorted.length - 1].createdAt)}</DTEND>`,
+            ...transactions,
+            '</BANKTRANLIST>',
+            '</STMTRS>',
+            '</STMTTRNRS>',
+        ].join('\n');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+        '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+        '<OFX>',
+        '<SIGNONMSGSRSV1>',
+        '<SONRS>',
+        '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>',
+        `<DTSERVER>${formatOfxDate(generatedAt)}</DTSERVER>`,
+        '<LANGUAGE>ENG</LANGUAGE>',
+        '</SONRS>',
+        '</SIGNONMSGSRSV1>',
+        '<BANKMSGSRSV1>',
+        ...statements,
+        '</BANKMSGSRSV1>',
+        '</OFX>',
+        '',
+    ].join('\n');
+};
+
+/**
+ * Builds a QIF (Quicken Interchange Format) bank register
+ * @param items - Transactions to export
+ * @returns QIF content
+ */
+export const buildQif = (items: TransactionHistoryItem[]): string => {
+    const records = items.filter(isPosted).map((item) => [
+        `D${formatQifDate(item.createdAt)}`,
+        `T${formatExportAmount(getSignedAmount(item), item.currency)}`,
+        `N${singleLine(item.transactionReference)}`,
+        `P${singleLine(item.description)}`,
+        `M${singleLine(`${item.walletName} (${item.currency})`)}`,
+        '^',
+    ].join('\n'));
+
+    return ['!Type:Bank', ...records, ''].join('\n');
+};
+
+/**
+ * Serialises transactions into the requested export format
+ * @param format - Target file format
+ * @param items - Transactions to export
+ * @param generatedAt - Export timestamp (ISO 8601), defaults to now
+ * @returns File content
+ */
+export const buildExport = (
+    format: ExportFormat,
+    items: TransactionHistoryItem[],
+    generatedAt: string = new Date().toISOString()
+): string => {
+    switch (format) {
+        case ExportFormat.CSV:
+            return buildCsv(items);
+        case ExportFormat.JSON:
+            return buildJson(items, generatedAt);
+        case ExportFormat.OFX:
+            return buildOfx(items, generatedAt);
+        case ExportFormat.QIF:
+            return buildQif(items);
+    }
+};
+
+/**
+ * Builds a filesystem-safe export filename
+ * @param format - Target file format
+ * @param scope - Wallet name or other scope label (e.g., "all-wallets")
+ * @param date - Export date
+ * @returns Filename such as "apexpay-transactions-travel-fund-20240624.csv"
+ */
+export const buildExportFilename = (format: ExportFormat, scope: string, date: Date = new Date()): string => {
+    const slug = scope
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'transactions';
+    const stamp = `${date.getFullYear()}${pad2(date.getMonth() + 1)}${pad2(date.getDate())}`;
+    return `apexpay-transactions-${slug}-${stamp}.${format}`;
+};
+
+/**
+ * Checks whether a transaction falls inside an inclusive date range (YYYY-MM-DD, local time)
+ * @param item - Transaction to check
+ * @param startDate - Optional inclusive start date
+ * @param endDate - Optional inclusive end date
+ * @returns True if the transaction is within range
+ */
+export const isWithinDateRange = (
+    item: TransactionHistoryItem,
+    startDate?: string,
+    endDate?: string
+): boolean => {
+    const created = new Date(item.createdAt).getTime();
+    if (startDate && created < new Date(`${startDate}T00:00:00`).getTime()) return false;
+    if (endDate && created > new Date(`${endDate}T23:59:59.999`).getTime()) return false;
+    return true;
+};
+
+/** Safety cap on pages fetched for one export (10 items per page) */
+export const MAX_EXPORT_PAGES = 500;
+
+/** Transactions gathered for an export */
+export interface CollectedTransactions {
+    items: TransactionHistoryItem[];
+    /** True when paging stopped before the API reported the last page */
+    isTruncated: boolean;
+}
+
+/**
+ * Fetches history pages until the API reports the last one
+ * Stops early and marks the result truncated at the page cap, or when a page starts with the
+ * same transaction as the page before it (a backend that ignores the page offset)
+ * @param fetchPage - Fetches one 1-based page
+ * @param onProgress - Called with the number of transactions fetched so far
+ * @param maxPages - Most pages to request
+ * @returns The fetched transactions and whether any were left out
+ */
+export const collectTransactionPages = async (
+    fetchPage: (page: number) => Promise<TransactionHistoryPage>,
+    onProgress?: (count: number) => void,
+    maxPages = MAX_EXPORT_PAGES
+): Promise<CollectedTransactions> => {
+    const items: TransactionHistoryItem[] = [];
+    let previousFirstId: string | undefined;
+
+    for (let page = 1; page <= maxPages; page++) {
+        const result = await fetchPage(page);
+        const firstId = result.items[0]?.transactionId;
+        if (firstId !== undefined && firstId === previousFirstId) {
+            return { items, isTruncated: true };
+        }
+        previousFirstId = firstId;
+
+        items.push(...result.items);
+        onProgress?.(items.length);
+
+        if (result.items.length < result.pageSize || items.length >= result.totalCount) {
+            return { items, isTruncated: false };
+        }
+    }
+
+    return { items, isTruncated: true };
+};
+
+/**
+ * Triggers a browser download of generated file content without any server round-trip
+ * @param content - File content
+ * @param filename - Suggested filename
+ * @param mimeType - MIME type of the content
+ */
+export const downloadFile = (content: string, filename: string, mimeType: string): void => {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
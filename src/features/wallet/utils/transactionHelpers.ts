@@ -96,6 +96,8 @@ export const getReferenceTypeIcon = (referenceType: ReferenceTypeEnum): string =
             return 'undo';
         case ReferenceTypeEnum.ADMIN_ADJUSTMENT:
             return 'admin_panel_settings';
+        case ReferenceTypeEnum.EXCHANGE:
+            return getTransactionTypeIcon(TransactionType.EXCHANGE);
         default:
             return 'receipt';
     }
@@ -114,6 +116,7 @@ export const getReferenceTypeLabel = (referenceType: ReferenceTypeEnum): string
         [ReferenceTypeEnum.ORDER]: 'Order',
         [ReferenceTypeEnum.REFUND]: 'Refund',
         [ReferenceTypeEnum.ADMIN_ADJUSTMENT]: 'Adjustment',
+        [ReferenceTypeEnum.EXCHANGE]: getTransactionTypeLabel(TransactionType.EXCHANGE),
     };
     return labels[referenceType] || 'Transaction';
 };
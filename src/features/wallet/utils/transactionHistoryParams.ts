@@ -0,0 +1,150 @@
+import type { GetTransactionHistoryParams, TransactionHistoryFilters } from '../types';
+import { ReferenceTypeEnum, TransactionTypeEnum, WalletTransactionStatusEnum } from '../types';
+
+/** URL search param keys for the transaction history page */
+export const HISTORY_SEARCH_PARAMS = {
+    WALLET_ID: 'walletId',
+    START_DATE: 'from',
+    END_DATE: 'to',
+    TRANSACTION_TYPE: 'type',
+    REFERENCE_TYPE: 'category',
+    STATUS: 'status',
+    MIN_AMOUNT: 'min',
+    MAX_AMOUNT: 'max',
+    QUERY: 'q',
+    PAGE: 'page',
+} as const;
+
+/** Matches a YYYY-MM-DD date */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Filters and page parsed from the URL */
+export interface TransactionHistoryView {
+    filters: TransactionHistoryFilters;
+    /** Page number (1-based) */
+    page: number;
+}
+
+/**
+ * Returns the value if it is one of the enum's values, otherwise undefined
+ * @param enumObject - Const enum object
+ * @param value - Raw value from the URL
+ */
+const parseEnum = <T extends string>(enumObject: Record<string, T>, value: string | null): T | undefined =>
+    value && (Object.values(enumObject) as string[]).includes(value) ? (value as T) : undefined;
+
+/**
+ * Parses a non-negative amount, ignoring anything that is not a finite number
+ * @param value - Raw value from the URL
+ */
+const parseAmount = (value: string | null): number | undefined => {
+    if (!value) return undefined;
+    const amount = Number(value);
+    return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+/**
+ * Parses a YYYY-MM-DD date, ignoring malformed values
+ * @param value - Raw value from the URL
+ */
+const parseDate = (value: string | null): string | undefined =>
+    value && DATE_PATTERN.test(value) ? value : undefined;
+
+/**
+ * Reads transaction history filters and page from URL search params.
+ * Invalid values are dropped so a hand-edited URL never produces a bad request.
+ * @param searchParams - Current URL search params
+ * @returns Parsed filters and page
+ */
+export const parseHistorySearchParams = (searchParams: URLSearchParams): TransactionHistoryView => {
+    const page = Number(searchParams.get(HISTORY_SEARCH_PARAMS.PAGE));
+    const query = searchParams.get(HISTORY_SEARCH_PARAMS.QUERY)?.trim();
+
+    return {
+        filters: {
+            walletId: searchParams.get(HISTORY_SEARCH_PARAMS.WALLET_ID) || undefined,
+            startDate: parseDate(searchParams.get(HISTORY_SEARCH_PARAMS.START_DATE)),
+            endDate: parseDate(searchParams.get(HISTORY_SEARCH_PARAMS.END_DATE)),
+            transactionType: parseEnum(TransactionTypeEnum, searchParams.get(HISTORY_SEARCH_PARAMS.TRANSACTION_TYPE)),
+            referenceType: parseEnum(ReferenceTypeEnum, searchParams.get(HISTORY_SEARCH_PARAMS.REFERENCE_TYPE)),
+            status: parseEnum(WalletTransactionStatusEnum, searchParams.get(HISTORY_SEARCH_PARAMS.STATUS)),
+            minAmount: parseAmount(searchParams.get(HISTORY_SEARCH_PARAMS.MIN_AMOUNT)),
+            maxAmount: parseAmount(searchParams.get(HISTORY_SEARCH_PARAMS.MAX_AMOUNT)),
+            query: query || undefined,
+        },
+        page: Number.isInteger(page) && page > 1 ? page : 1,
+    };
+};
+
+/**
+ * Serialises transaction history filters and page into URL search params.
+ * Empty filters and page 1 are omitted to keep shared links short.
+ * @param view - Filters and page to serialise
+ * @returns URL search params
+ */
+export const toHistorySearchParams = ({ filters, page }: TransactionHistoryView): URLSearchParams => {
+    const entries: [string, string | number | undefined][] = [
+        [HISTORY_SEARCH_PARAMS.WALLET_ID, filters.walletId],
+        [HISTORY_SEARCH_PARAMS.START_DATE, filters.startDate],
+        [HISTORY_SEARCH_PARAMS.END_DATE, filters.endDate],
+        [HISTORY_SEARCH_PARAMS.TRANSACTION_TYPE, filters.transactionType],
+        [HISTORY_SEARCH_PARAMS.REFERENCE_TYPE, filters.referenceType],
+        [HISTORY_SEARCH_PARAMS.STATUS, filters.status],
+        [HISTORY_SEARCH_PARAMS.MIN_AMOUNT, filters.minAmount],
+        [HISTORY_SEARCH_PARAMS.MAX_AMOUNT, filters.maxAmount],
+        [HISTORY_SEARCH_PARAMS.QUERY, filters.query?.trim()],
+        [HISTORY_SEARCH_PARAMS.PAGE, page > 1 ? page : undefined],
+    ];
+
+    const params = new URLSearchParams();
+    entries.forEach(([key, value]) => {
+        if (value !== undefined && value !== '') params.append(key, String(value));
+    });
+    return params;
+};
+
+/**
+ * Checks whether any filter other than the wallet is active
+ * @param filters - Current filters
+ */
+export const hasActiveFilters = (filters: TransactionHistoryFilters): boolean =>
+    Object.entries(filters).some(([key, value]) => key !== 'walletId' && value !== undefined);
+
+/**
+ * Checks that the date range and amount range are not inverted
+ * @param filters - Current filters
+ * @returns Which range is invalid, or null when both are valid
+ */
+export const getInvalidHistoryRange = (filters: TransactionHistoryFilters): 'date' | 'amount' | null => {
+    if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) return 'date';
+    if (filters.minAmount !== undefined && filters.maxAmount !== undefined && filters.minAmount > filters.maxAmount) {
+        return 'amount';
+    }
+    return null;
+};
+
+/**
+ * Builds the query string sent to the transaction history endpoint
+ * @param params - Filters and page
+ * @returns Query string without the leading "?"
+ */
+export const toHistoryQueryString = ({ offset = 1, ...filters }: GetTransactionHistoryParams): string => {
+    const entries: [string, string | number | undefined][] = [
+        ['walletId', filters.walletId],
+        ['offset', offset],
+        ['startDate', filters.startDate],
+        ['endDate', filters.endDate],
+        ['transactionType', filters.transactionType],
+        ['referenceType', filters.referenceType],
+        ['status', filters.status],
+        ['minAmount', filters.minAmount],
+        ['maxAmount', filters.maxAmount],
+        ['query', filters.query],
+    ];
+
+    const params = new URLSearchParams();
+    entries.forEach(([key, value]) => {
+        if (value !== undefined && value !== '') params.append(key, String(value));
+    });
+    return params.toString();
+};
@@ -1,7 +1,9 @@
 import { createBrowserRouter, Navigate } from 'react-router-dom';
-import { LoginForm, RegisterForm } from '../features/auth/components';
-import { DashboardPage, TransactionHistoryPage, WalletsPage, WalletDetailsPage } from '../features/wallet/pages';
-import { PaymentDevToolsPage } from '../features/payment/pages';
+import { LoginForm, RegisterForm, ForgotPasswordForm, ResetPasswordForm, VerifyEmail } from '../features/auth/components';
+import { ProtectedRoute } from '../components/layout';
+import { DashboardPage, TransactionHistoryPage, WalletsPage, WalletDetailsPage, ExchangePage, AnalyticsPage, ScheduledTransfersPage, PaymentRequestsPage, PayRequestPage, SplitBillDetailsPage, BulkTransferPage } from '../features/wallet/pages';
+import { PaymentDevToolsPage, PaymentMethodsPage } from '../features/payment/pages';
+import { SettingsPage } from '../features/user/pages';
 
 export const router = createBrowserRouter([
     {
@@ -17,52 +19,92 @@ export const router = createBrowserRouter([
         element: <RegisterForm />,
     },
     {
-        path: '/dashboard',
-        element: <DashboardPage />,
-    },
-    {
-        path: '/dashboard/top-up',
-        element: <div className="p-8 text-center">Top Up Page (Coming Soon)</div>,
-    },
-    {
-        path: '/dashboard/transfer',
-        element: <Navigate to="/wallets" replace />,
-    },
-    {
-        path: '/dashboard/exchange',
-        element: <div className="p-8 text-center">Exchange Page (Coming Soon)</div>,
-    },
-    {
-        path: '/cards',
-        element: <div className="p-8 text-center">Cards Page (Coming Soon)</div>,
-    },
-    {
-        path: '/wallets',
-        element: <WalletsPage />,
-    },
-    {
-        path: '/wallets/new',
-        element: <div className="p-8 text-center">Add New Wallet Page (Coming Soon)</div>,
-    },
-    {
-        path: '/wallets/:walletId',
-        element: <WalletDetailsPage />,
-    },
-    {
-        path: '/payment',
-        element: <PaymentDevToolsPage />,
-    },
-    {
-        path: '/history',
-        element: <TransactionHistoryPage />,
-    },
-    {
-        path: '/analytics',
-        element: <div className="p-8 text-center">Analytics Page (Coming Soon)</div>,
-    },
-    {
-        path: '/settings',
-        element: <div className="p-8 text-center">Settings Page (Coming Soon)</div>,
+        path: '/forgot-password',
+        element: <ForgotPasswordForm />,
+    },
+    {
+        // Links emailed by the backend
+        path: '/reset-password/:token',
+        element: <ResetPasswordForm />,
+    },
+    {
+        path: '/verify-email/:token',
+        element: <VerifyEmail />,
+    },
+    {
+        // Everything below requires an active session
+        element: <ProtectedRoute requiresAuth />,
+        children: [
+            {
+                path: '/dashboard',
+                element: <DashboardPage />,
+            },
+            {
+                path: '/dashboard/top-up',
+                element: <div className="p-8 text-center">Top Up Page (Coming Soon)</div>,
+            },
+            {
+                path: '/dashboard/transfer',
+                element: <Navigate to="/wallets" replace />,
+            },
+            {
+                path: '/dashboard/exchange',
+                element: <ExchangePage />,
+            },
+            {
+                path: '/transfers/scheduled',
+                element: <ScheduledTransfersPage />,
+            },
+            {
+                path: '/transfers/bulk',
+                element: <BulkTransferPage />,
+            },
+            {
+                path: '/requests',
+                element: <PaymentRequestsPage />,
+            },
+            {
+                path: '/requests/splits/:splitId',
+                element: <SplitBillDetailsPage />,
+            },
+            {
+                // Shared pay links; logged-out payers are sent back here after login
+                path: '/pay/:requestId',
+                element: <PayRequestPage />,
+            },
+            {
+                path: '/cards',
+                element: <PaymentMethodsPage />,
+            },
+            {
+                path: '/wallets',
+                element: <WalletsPage />,
+            },
+            {
+                path: '/wallets/new',
+                element: <div className="p-8 text-center">Add New Wallet Page (Coming Soon)</div>,
+            },
+            {
+                path: '/wallets/:walletId',
+                element: <WalletDetailsPage />,
+            },
+            {
+                path: '/payment',
+                element: <PaymentDevToolsPage />,
+            },
+            {
+                path: '/history',
+                element: <TransactionHistoryPage />,
+            },
+            {
+                path: '/analytics',
+                element: <AnalyticsPage />,
+            },
+            {
+                path: '/settings',
+                element: <SettingsPage />,
+            },
+        ],
     },
     {
         path: '*',
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { createAddContactSchema } from './contactSchema';
+
+/**
+ * Property-based tests for Contact Schema validation
+ *
+ * **Validates: Contacts management add form**
+ * - Contact email must be a valid email address
+ * - Emails already in the contact list are rejected regardless of case
+ * - A wallet must be selected
+ */
+
+// Generator for simple valid email addresses
+const emailArbitrary = fc
+    .tuple(fc.stringMatching(/^[a-z][a-z0-9]{0,10}$/), fc.stringMatching(/^[a-z]{2,10}$/))
+    .map(([user, domain]) => `${user}@${domain}.com`);
+
+describe('Contact Schema Property Tests', () => {
+    it('should accept any valid email not already in the contacts', () => {
+        fc.assert(
+            fc.property(emailArbitrary, fc.uuid(), (contactEmail, walletId) => {
+                const result = createAddContactSchema().safeParse({ contactEmail, walletId });
+                expect(result.success).toBe(true);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should reject emails already in the contacts ignoring case', () => {
+        fc.assert(
+            fc.property(emailArbitrary, (contactEmail) => {
+                const result = createAddContactSchema([contactEmail.toUpperCase()]).safeParse({
+                    contactEmail,
+                    walletId: 'wallet-1',
+                });
+                expect(result.success).toBe(false);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should reject invalid emails and a missing wallet', () => {
+        const result = createAddContactSchema().safeParse({ contactEmail: 'not-an-email', walletId: '' });
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.issues.some((i) => i.path.includes('contactEmail'))).toBe(true);
+            expect(result.error.issues.some((i) => i.path.includes('walletId'))).toBe(true);
+        }
+    });
+});
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { emailSchema } from './registerSchema';
+
+/**
+ * Creates the add-contact validation schema
+ * The email must be valid and not already in the user's contacts
+ *
+ * @param existingEmails - Emails of the user's current contacts
+ * @returns Zod schema for add contact form validation
+ */
+export const createAddContactSchema = (existingEmails: string[] = []) => {
+    const existing = new Set(existingEmails.map((email) => email.toLowerCase()));
+
+    return z.object({
+        contactEmail: emailSchema.refine(
+            (email) => !existing.has(email.toLowerCase()),
+            'This person is already in your contacts'
+        ),
+        walletId: z.string().min(1, 'Select a wallet'),
+    });
+};
+
+export type AddContactFormData = z.infer<ReturnType<typeof createAddContactSchema>>;
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { createExchangeSchema } from './exchangeSchema';
+
+/**
+ * Property-based tests for Exchange Schema validation
+ *
+ * **Validates: Currency exchange form**
+ * - Source and destination wallets are required and must differ
+ * - Amount must be greater than 0 and at most the source wallet balance
+ * - Amount precision follows the source wallet currency
+ */
+
+// Helper to create form data
+const createFormData = (amount: string, sourceWalletId = 'wallet-sgd', destinationWalletId = 'wallet-usd') => ({
+    sourceWalletId,
+    destinationWalletId,
+    amount,
+});
+
+describe('Exchange Schema Property Tests', () => {
+    describe('Wallet Selection', () => {
+        it('should accept any two different wallets', () => {
+            fc.assert(
+                fc.property(fc.uuid(), fc.uuid(), (source, destination) => {
+                    fc.pre(source !== destination);
+                    const result = createExchangeSchema(1000).safeParse(createFormData('10.00', source, destination));
+                    expect(result.success).toBe(true);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject the same wallet on both sides', () => {
+            const result = createExchangeSchema(1000).safeParse(createFormData('10.00', 'wallet-a', 'wallet-a'));
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error.issues.some((i) => i.path.includes('destinationWalletId'))).toBe(true);
+            }
+        });
+
+        it('should require both wallets', () => {
+            const result = createExchangeSchema(1000).safeParse(createFormData('10.00', '', ''));
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error.issues.some((i) => i.path.includes('sourceWalletId'))).toBe(true);
+                expect(result.error.issues.some((i) => i.path.includes('destinationWalletId'))).toBe(true);
+            }
+        });
+    });
+
+    describe('Amount Validation', () => {
+        it('should accept amounts up to and including the balance', () => {
+            fc.assert(
+                fc.property(
+                    fc.integer({ min: 1, max: 10_000_000 }),
+                    fc.integer({ min: 1, max: 100 }),
+                    (balanceCents, percentage) => {
+                        const amountCents = Math.max(1, Math.floor(balanceCents * percentage / 100));
+                        const result = createExchangeSchema(balanceCents / 100).safeParse(
+                            createFormData((amountCents / 100).toFixed(2))
+                        );
+                        expect(result.success).toBe(true);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject amounts exceeding the balance by any number of cents', () => {
+            fc.assert(
+                fc.property(
+                    fc.integer({ min: 1, max: 10_000_000 }),
+                    fc.integer({ min: 1, max: 1000 }),
+                    (balanceCents, extraCents) => {
+                        const result = createExchangeSchema(balanceCents / 100).safeParse(
+                            createFormData(((balanceCents + extraCents) / 100).toFixed(2))
+                        );
+                        expect(result.success).toBe(false);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject zero, negative and empty amounts', () => {
+            ['0', '0.00', '-5', ''].forEach((amount) => {
+                expect(createExchangeSchema(1000).safeParse(createFormData(amount)).success).toBe(false);
+            });
+        });
+
+        it('should limit decimals to the source currency minor units', () => {
+            expect(createExchangeSchema(1000, 'SGD').safeParse(createFormData('10.25')).success).toBe(true);
+            expect(createExchangeSchema(1000, 'SGD').safeParse(createFormData('10.255')).success).toBe(false);
+            expect(createExchangeSchema(1000, 'JPY').safeParse(createFormData('10')).success).toBe(true);
+            expect(createExchangeSchema(1000, 'JPY').safeParse(createFormData('10.5')).success).toBe(false);
+        });
+    });
+});
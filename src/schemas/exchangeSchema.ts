@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { DEFAULT_CURRENCY, getMinorUnitsMessage } from '../utils/currency';
+import { compareMoney, formatMoneyValue, parseMoney, toMoney } from '../utils/money';
+
+/**
+ * Creates a currency exchange validation schema for the selected source wallet
+ * The amount is in the source wallet currency and may not exceed its balance
+ *
+ * @param maxBalance - Available balance of the source wallet
+ * @param currency - ISO 4217 code of the source wallet
+ * @returns Zod schema for exchange form validation
+ */
+export const createExchangeSchema = (maxBalance: number, currency: string = DEFAULT_CURRENCY) => {
+    const balance = toMoney(maxBalance, currency);
+
+    return z
+        .object({
+            sourceWalletId: z.string().min(1, 'Source wallet is required'),
+            destinationWalletId: z.string().min(1, 'Destination wallet is required'),
+            amount: z
+                .string()
+                .min(1, 'Amount is required')
+                .refine(
+                    (val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0,
+                    'Amount must be greater than 0'
+                )
+                .refine(
+                    (val) => {
+                        // Malformed amounts are reported by the other refinements
+                        const amount = parseMoney(val, currency);
+                        return amount === null || compareMoney(amount, balance) <= 0;
+                    },
+                    `Amount cannot exceed available balance of ${formatMoneyValue(balance)}`
+                )
+                .refine(
+                    (val) => parseMoney(val, currency) !== null,
+                    getMinorUnitsMessage(currency)
+                ),
+        })
+        .refine((data) => data.sourceWalletId !== data.destinationWalletId, {
+            message: 'Choose a different wallet to exchange into',
+            path: ['destinationWalletId'],
+        });
+};
+
+export type ExchangeFormData = z.infer<ReturnType<typeof createExchangeSchema>>;
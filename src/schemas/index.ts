@@ -11,8 +11,80 @@ export { loginSchema, type LoginFormData } from './loginSchema';
 // Register form schema and types
 export { registerSchema, type RegisterFormData } from './registerSchema';
 
+// Password reset form schemas and types
+export {
+    forgotPasswordSchema,
+    resetPasswordSchema,
+    type ForgotPasswordFormData,
+    type ResetPasswordFormData,
+} from './passwordResetSchema';
+
 // Top-up form schema and types
-export { topUpSchema, type TopUpFormData } from './topUpSchema';
+export { topUpSchema, createTopUpSchema, type TopUpFormData } from './topUpSchema';
 
 // Transfer form schema and types
 export { createTransferSchema, type TransferFormData } from './transferSchema';
+
+// Exchange form schema and types
+export { createExchangeSchema, type ExchangeFormData } from './exchangeSchema';
+
+// Settings form schemas and types
+export {
+    profileSchema,
+    changePasswordSchema,
+    type ProfileFormData,
+    type ChangePasswordFormData,
+} from './settingsSchema';
+
+// Payment method form schemas and types
+export {
+    createCardSchema,
+    bankAccountSchema,
+    verifyBankAccountSchema,
+    parseCardExpiry,
+    BANK_ACCOUNT_TYPES,
+    type CardFormInput,
+    type CardFormData,
+    type BankAccountFormInput,
+    type BankAccountFormData,
+    type VerifyBankAccountFormData,
+} from './paymentMethodSchema';
+
+// Contact form schema and types
+export { createAddContactSchema, type AddContactFormData } from './contactSchema';
+
+// Scheduled transfer form schemas and types
+export {
+    createScheduledTransferSchema,
+    createEditScheduleSchema,
+    TRANSFER_RECURRENCES,
+    MAX_INTERVAL_DAYS,
+    type ScheduledTransferFormData,
+    type EditScheduleFormData,
+} from './scheduledTransferSchema';
+
+// Payment request form schema and types
+export {
+    createPaymentRequestSchema,
+    PAYMENT_REQUEST_EXPIRY_DAYS,
+    type PaymentRequestFormData,
+} from './paymentRequestSchema';
+
+// Split bill form schema and types
+export {
+    createSplitBillSchema,
+    MAX_SPLIT_PARTICIPANTS,
+    type SplitBillFormData,
+} from './splitBillSchema';
+
+// Refund form schema and types
+export { createRefundSchema, type RefundFormData } from './refundSchema';
+
+// Two-factor code schema and types
+export {
+    createMfaCodeSchema,
+    normalizeMfaCode,
+    TOTP_CODE_LENGTH,
+    BACKUP_CODE_LENGTH,
+    type MfaCodeFormData,
+} from './mfaSchema';
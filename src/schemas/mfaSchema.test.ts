@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { createMfaCodeSchema, normalizeMfaCode } from './mfaSchema';
+
+/**
+ * Property-based tests for the two-factor code schema
+ *
+ * **Validates: Two-factor authentication**
+ * - Authenticator codes are six digits, spaces allowed
+ * - Backup codes are ten letters or digits, dash and case ignored, and only where allowed
+ */
+
+const totpCodeArbitrary = fc.stringMatching(/^[0-9]{6}$/);
+const backupCodeArbitrary = fc.stringMatching(/^[a-zA-Z0-9]{10}$/);
+
+describe('MFA Code Schema Property Tests', () => {
+    it('should accept authenticator codes with or without a space', () => {
+        fc.assert(
+            fc.property(totpCodeArbitrary, fc.boolean(), fc.boolean(), (code, spaced, allowBackupCode) => {
+                const typed = spaced ? `${code.slice(0, 3)} ${code.slice(3)}` : code;
+                expect(createMfaCodeSchema(allowBackupCode).safeParse({ code: typed }).success).toBe(true);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should accept backup codes only when allowed', () => {
+        fc.assert(
+            fc.property(backupCodeArbitrary, (code) => {
+                const typed = `${code.slice(0, 5)}-${code.slice(5)}`;
+                expect(createMfaCodeSchema(true).safeParse({ code: typed }).success).toBe(true);
+                expect(createMfaCodeSchema(false).safeParse({ code: typed }).success).toBe(false);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should reject codes of the wrong length or with other characters', () => {
+        ['', '12345', '1234567', '12a456', 'ABCDE-FGHI', 'ABCDE-FGHIJK', 'ABCDE_FGHIJ'].forEach((code) => {
+            expect(createMfaCodeSchema(true).safeParse({ code }).success).toBe(false);
+        });
+    });
+
+    it('should normalise codes to the form the server expects', () => {
+        expect(normalizeMfaCode(' 123 456 ')).toBe('123456');
+        expect(normalizeMfaCode('ab12c-de34f')).toBe('AB12CDE34F');
+    });
+});
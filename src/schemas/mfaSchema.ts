@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+/** Digits in an authenticator app code */
+export const TOTP_CODE_LENGTH = 6;
+
+/** Characters in a backup code, not counting the dash it is shown with */
+export const BACKUP_CODE_LENGTH = 10;
+
+const TOTP_CODE_PATTERN = new RegExp(`^\\d{${TOTP_CODE_LENGTH}}$`);
+const BACKUP_CODE_PATTERN = new RegExp(`^[A-Z0-9]{${BACKUP_CODE_LENGTH}}$`);
+
+/**
+ * Normalises a typed two-factor code
+ * Spaces and dashes are dropped and letters upper-cased, so "123 456" and "ab12c-de34f" are accepted
+ * @param code - Code as typed
+ * @returns Code in the form the server expects
+ */
+export const normalizeMfaCode = (code: string): string => code.replace(/[\s-]/g, '').toUpperCase();
+
+/**
+ * Creates the two-factor code schema
+ * @param allowBackupCode - Whether a backup code is accepted in place of an authenticator code
+ * @returns Zod schema for a single code field
+ */
+export const createMfaCodeSchema = (allowBackupCode: boolean = false) =>
+    z.object({
+        code: z
+            .string()
+            .min(1, 'Code is required')
+            .refine(
+                (val) => {
+                    const code = normalizeMfaCode(val);
+                    return TOTP_CODE_PATTERN.test(code) || (allowBackupCode && BACKUP_CODE_PATTERN.test(code));
+                },
+                allowBackupCode
+                    ? `Enter the ${TOTP_CODE_LENGTH}-digit code from your app or a backup code`
+                    : `Enter the ${TOTP_CODE_LENGTH}-digit code from your app`
+            ),
+    });
+
+export type MfaCodeFormData = z.infer<ReturnType<typeof createMfaCodeSchema>>;
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { forgotPasswordSchema, resetPasswordSchema } from './passwordResetSchema';
+
+/**
+ * Property-based tests for the password reset schemas
+ *
+ * **Validates: Password reset**
+ * - The forgot password form needs a valid email
+ * - The new password follows the registration strength rules and must match its confirmation
+ */
+
+// Generator for passwords meeting the registration strength rules
+const validPasswordArbitrary = fc
+    .tuple(
+        fc.stringMatching(/^[A-Z]$/),
+        fc.stringMatching(/^[a-z]$/),
+        fc.stringMatching(/^[0-9]$/),
+        fc.stringMatching(/^[a-zA-Z0-9]{5,20}$/)
+    )
+    .map(([upper, lower, digit, rest]) => `${upper}${lower}${digit}${rest}`);
+
+describe('Password Reset Schema Property Tests', () => {
+    describe('Forgot Password Schema', () => {
+        it('should accept valid emails and reject invalid ones', () => {
+            fc.assert(
+                fc.property(fc.stringMatching(/^[a-z]{2,10}$/), (name) => {
+                    expect(forgotPasswordSchema.safeParse({ email: `${name}@example.com` }).success).toBe(true);
+                    expect(forgotPasswordSchema.safeParse({ email: name }).success).toBe(false);
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('Reset Password Schema', () => {
+        it('should accept strong passwords that match their confirmation', () => {
+            fc.assert(
+                fc.property(validPasswordArbitrary, (password) => {
+                    const result = resetPasswordSchema.safeParse({ newPassword: password, confirmPassword: password });
+                    expect(result.success).toBe(true);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject a confirmation that does not match', () => {
+            fc.assert(
+                fc.property(validPasswordArbitrary, validPasswordArbitrary, (password, confirmation) => {
+                    fc.pre(password !== confirmation);
+                    const result = resetPasswordSchema.safeParse({ newPassword: password, confirmPassword: confirmation });
+                    expect(result.success).toBe(false);
+                    expect(result.error?.issues.some((issue) => issue.path[0] === 'confirmPassword')).toBe(true);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject passwords that break the registration rules', () => {
+            ['short1A', 'alllowercase1', 'ALLUPPERCASE1', 'NoDigitsHere'].forEach((password) => {
+                const result = resetPasswordSchema.safeParse({ newPassword: password, confirmPassword: password });
+                expect(result.success).toBe(false);
+            });
+        });
+    });
+});
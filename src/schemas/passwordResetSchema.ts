@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { emailSchema, passwordSchema } from './registerSchema';
+
+/**
+ * Forgot password form schema
+ * Uses the registration email rules
+ */
+export const forgotPasswordSchema = z.object({
+    email: emailSchema,
+});
+
+export type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+/**
+ * Reset password form schema
+ * The new password must meet the registration strength rules and be typed twice
+ */
+export const resetPasswordSchema = z
+    .object({
+        newPassword: passwordSchema,
+        confirmPassword: z.string().min(1, 'Please confirm your new password'),
+    })
+    .refine((data) => data.newPassword === data.confirmPassword, {
+        message: 'Passwords do not match',
+        path: ['confirmPassword'],
+    });
+
+export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+    bankAccountSchema,
+    createCardSchema,
+    parseCardExpiry,
+    verifyBankAccountSchema,
+} from './paymentMethodSchema';
+
+/**
+ * Property-based tests for Payment Method Schema validation
+ *
+ * **Validates: Payment methods page add and verify forms**
+ * - Card numbers must be 12-19 digits and pass the Luhn checksum
+ * - Card expiry must be MM/YY and not before the current month
+ * - Bank account numbers must be 6-17 digits
+ * - Micro-deposit amounts must be between 0.01 and 0.99
+ */
+
+// Fixed reference date so expiry checks are deterministic
+const NOW = new Date(2026, 5, 15);
+
+/**
+ * Appends the Luhn check digit to a digit string
+ */
+const withLuhnCheckDigit = (payload: string): string => {
+    let sum = 0;
+    for (let i = 0; i < payload.length; i++) {
+        let digit = Number(payload[payload.length - 1 - i]);
+        if (i % 2 === 0) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return `${payload}${(10 - (sum % 10)) % 10}`;
+};
+
+const validCard = {
+    cardholderName: 'Jane Tan',
+    cardNumber: '4242 4242 4242 4242',
+    expiry: '12/30',
+    cvc: '123',
+    displayName: '',
+    setAsDefault: false,
+};
+
+const validBankAccount = {
+    accountHolderName: 'Jane Tan',
+    bankName: 'DBS',
+    accountNumber: '123-456789-0',
+    accountType: 'Savings',
+    displayName: '',
+    setAsDefault: false,
+};
+
+describe('Payment Method Schema Property Tests', () => {
+    describe('Card Schema', () => {
+        it('should accept any card number with a valid Luhn check digit', () => {
+            fc.assert(
+                fc.property(fc.stringMatching(/^\d{11,18}$/), (payload) => {
+                    const cardNumber = withLuhnCheckDigit(payload);
+                    const result = createCardSchema(NOW).safeParse({ ...validCard, cardNumber });
+                    expect(result.success).toBe(true);
+                    if (result.success) {
+                        expect(result.data.cardNumber).toBe(cardNumber);
+                    }
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject card numbers with a wrong check digit', () => {
+            fc.assert(
+                fc.property(fc.stringMatching(/^\d{11,18}$/), fc.integer({ min: 1, max: 9 }), (payload, shift) => {
+                    const valid = withLuhnCheckDigit(payload);
+                    const wrongDigit = (Number(valid.slice(-1)) + shift) % 10;
+                    const result = createCardSchema(NOW).safeParse({
+                        ...validCard,
+                        cardNumber: `${payload}${wrongDigit}`,
+                    });
+                    expect(result.success).toBe(false);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should accept the current month and reject earlier months', () => {
+            expect(createCardSchema(NOW).safeParse({ ...validCard, expiry: '06/26' }).success).toBe(true);
+            expect(createCardSchema(NOW).safeParse({ ...validCard, expiry: '05/26' }).success).toBe(false);
+            expect(createCardSchema(NOW).safeParse({ ...validCard, expiry: '12/25' }).success).toBe(false);
+        });
+
+        it('should reject malformed expiries and CVCs', () => {
+            ['13/30', '00/30', '1/30', '2030-12', ''].forEach((expiry) => {
+                expect(createCardSchema(NOW).safeParse({ ...validCard, expiry }).success).toBe(false);
+            });
+            ['12', '12345', 'abc'].forEach((cvc) => {
+                expect(createCardSchema(NOW).safeParse({ ...validCard, cvc }).success).toBe(false);
+            });
+        });
+    });
+
+    describe('parseCardExpiry', () => {
+        it('should parse every valid MM/YY', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 1, max: 12 }), fc.integer({ min: 0, max: 99 }), (month, yy) => {
+                    const value = `${String(month).padStart(2, '0')}/${String(yy).padStart(2, '0')}`;
+                    expect(parseCardExpiry(value)).toEqual({ month, year: 2000 + yy });
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('Bank Account Schema', () => {
+        it('should accept account numbers with separators and strip them', () => {
+            const result = bankAccountSchema.safeParse(validBankAccount);
+            expect(result.success).toBe(true);
+            if (result.success) {
+                expect(result.data.accountNumber).toBe('1234567890');
+            }
+        });
+
+        it('should reject account numbers outside 6-17 digits and unknown account types', () => {
+            ['12345', '123456789012345678', '12AB5678'].forEach((accountNumber) => {
+                expect(bankAccountSchema.safeParse({ ...validBankAccount, accountNumber }).success).toBe(false);
+            });
+            expect(bankAccountSchema.safeParse({ ...validBankAccount, accountType: 'Brokerage' }).success).toBe(false);
+        });
+    });
+
+    describe('Verify Bank Account Schema', () => {
+        it('should accept any pair of amounts between 0.01 and 0.99', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 1, max: 99 }), fc.integer({ min: 1, max: 99 }), (first, second) => {
+                    const result = verifyBankAccountSchema.safeParse({
+                        firstAmount: (first / 100).toFixed(2),
+                        secondAmount: (second / 100).toFixed(2),
+                    });
+                    expect(result.success).toBe(true);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject zero, whole and over-precise amounts', () => {
+            ['0.00', '1.00', '0.5', '0.123', ''].forEach((firstAmount) => {
+                expect(verifyBankAccountSchema.safeParse({ firstAmount, secondAmount: '0.32' }).success).toBe(false);
+            });
+        });
+    });
+});
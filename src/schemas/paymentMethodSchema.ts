@@ -0,0 +1,108 @@
+import { z } from 'zod';
+
+/** Account types a bank account can be saved as */
+export const BANK_ACCOUNT_TYPES = ['Checking', 'Savings'] as const;
+
+/**
+ * Parses a card expiry in MM/YY format
+ * @param value - Expiry as typed, e.g. "04/27"
+ * @returns Month (1-12) and four-digit year, or null if malformed
+ */
+export const parseCardExpiry = (value: string): { month: number; year: number } | null => {
+    const match = /^(\d{2})\s*\/\s*(\d{2})$/.exec(value.trim());
+    if (!match) return null;
+    const month = Number(match[1]);
+    if (month < 1 || month > 12) return null;
+    return { month, year: 2000 + Number(match[2]) };
+};
+
+/**
+ * Checks a card number against the Luhn checksum
+ * @param digits - Card number with spaces removed
+ */
+const passesLuhn = (digits: string): boolean => {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+};
+
+/**
+ * Creates the add-card validation schema
+ * Cards stay valid until the end of their expiry month
+ *
+ * @param now - Reference date for the expiry check (defaults to today)
+ * @returns Zod schema for card form validation
+ */
+export const createCardSchema = (now: Date = new Date()) =>
+    z.object({
+        cardholderName: z
+            .string()
+            .trim()
+            .min(1, 'Cardholder name is required')
+            .max(50, 'Cardholder name must be at most 50 characters'),
+        cardNumber: z
+            .string()
+            .transform((val) => val.replace(/\s+/g, ''))
+            .refine((val) => /^\d{12,19}$/.test(val), 'Card number must be 12 to 19 digits')
+            .refine(passesLuhn, 'Card number is invalid'),
+        expiry: z
+            .string()
+            .refine((val) => parseCardExpiry(val) !== null, 'Expiry must be in MM/YY format')
+            .refine((val) => {
+                // Malformed expiries are reported by the format refinement
+                const expiry = parseCardExpiry(val);
+                if (!expiry) return true;
+                return expiry.year * 12 + expiry.month >= now.getFullYear() * 12 + now.getMonth() + 1;
+            }, 'Card has expired'),
+        cvc: z.string().regex(/^\d{3,4}$/, 'CVC must be 3 or 4 digits'),
+        displayName: z.string().trim().max(30, 'Nickname must be at most 30 characters'),
+        setAsDefault: z.boolean(),
+    });
+
+export type CardFormInput = z.input<ReturnType<typeof createCardSchema>>;
+export type CardFormData = z.infer<ReturnType<typeof createCardSchema>>;
+
+/**
+ * Add-bank-account validation schema
+ */
+export const bankAccountSchema = z.object({
+    accountHolderName: z
+        .string()
+        .trim()
+        .min(1, 'Account holder name is required')
+        .max(50, 'Account holder name must be at most 50 characters'),
+    bankName: z.string().trim().min(1, 'Bank name is required'),
+    accountNumber: z
+        .string()
+        .transform((val) => val.replace(/[\s-]+/g, ''))
+        .refine((val) => /^\d{6,17}$/.test(val), 'Account number must be 6 to 17 digits'),
+    accountType: z.enum(BANK_ACCOUNT_TYPES, 'Account type is required'),
+    displayName: z.string().trim().max(30, 'Nickname must be at most 30 characters'),
+    setAsDefault: z.boolean(),
+});
+
+export type BankAccountFormInput = z.input<typeof bankAccountSchema>;
+export type BankAccountFormData = z.infer<typeof bankAccountSchema>;
+
+/** A single micro-deposit amount, between 0.01 and 0.99 */
+const microDepositSchema = z
+    .string()
+    .regex(/^0?\.\d{2}$/, 'Enter the amount in the format 0.00')
+    .refine((val) => Number(val) > 0, 'Amount must be greater than 0');
+
+/**
+ * Bank account micro-deposit verification schema
+ */
+export const verifyBankAccountSchema = z.object({
+    firstAmount: microDepositSchema,
+    secondAmount: microDepositSchema,
+});
+
+export type VerifyBankAccountFormData = z.infer<typeof verifyBankAccountSchema>;
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { createPaymentRequestSchema } from './paymentRequestSchema';
+
+/**
+ * Property-based tests for Payment Request Schema validation
+ *
+ * **Validates: Request money form**
+ * - Amount must be greater than 0 with the receiving currency's minor units
+ * - A payer email is required unless the request is shared as a link
+ * - Users cannot request money from themselves
+ */
+
+// Generator for simple valid email addresses
+const emailArbitrary = fc
+    .tuple(fc.stringMatching(/^[a-z][a-z0-9]{0,10}$/), fc.stringMatching(/^[a-z]{2,10}$/))
+    .map(([user, domain]) => `${user}@${domain}.com`);
+
+// Helper to create form data
+const createFormData = (overrides: Record<string, unknown> = {}) => ({
+    walletId: 'wallet-1',
+    shareAsLink: false,
+    payerEmail: 'friend@example.com',
+    amount: '12.50',
+    note: '',
+    expiresInDays: '7',
+    ...overrides,
+});
+
+describe('Payment Request Schema Property Tests', () => {
+    it('should accept any positive amount with valid minor units', () => {
+        fc.assert(
+            fc.property(fc.integer({ min: 1, max: 100_000_000 }), (cents) => {
+                const result = createPaymentRequestSchema('SGD').safeParse(createFormData({ amount: (cents / 100).toFixed(2) }));
+                expect(result.success).toBe(true);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should reject zero, negative, empty and over-precise amounts', () => {
+        ['0', '-1', '', '1.005'].forEach((amount) => {
+            expect(createPaymentRequestSchema('SGD').safeParse(createFormData({ amount })).success).toBe(false);
+        });
+        expect(createPaymentRequestSchema('JPY').safeParse(createFormData({ amount: '10.5' })).success).toBe(false);
+    });
+
+    it('should require a valid payer email for contact requests only', () => {
+        ['', 'not-an-email'].forEach((payerEmail) => {
+            const result = createPaymentRequestSchema().safeParse(createFormData({ payerEmail }));
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error.issues.some((issue) => issue.path.includes('payerEmail'))).toBe(true);
+            }
+            expect(createPaymentRequestSchema().safeParse(createFormData({ payerEmail, shareAsLink: true })).success).toBe(true);
+        });
+    });
+
+    it('should reject requesting money from yourself ignoring case', () => {
+        fc.assert(
+            fc.property(emailArbitrary, (email) => {
+                const result = createPaymentRequestSchema('SGD', email.toUpperCase()).safeParse(createFormData({ payerEmail: email }));
+                expect(result.success).toBe(false);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should only allow the offered expiry options', () => {
+        expect(createPaymentRequestSchema().safeParse(createFormData({ expiresInDays: '2' })).success).toBe(false);
+    });
+});
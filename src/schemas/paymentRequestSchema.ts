@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { emailSchema } from './registerSchema';
+import { DEFAULT_CURRENCY, getMinorUnitsMessage } from '../utils/currency';
+import { parseMoney } from '../utils/money';
+
+/** How long a payment request stays payable, in days */
+export const PAYMENT_REQUEST_EXPIRY_DAYS = ['1', '7', '30'] as const;
+
+/**
+ * Creates the request money validation schema
+ * A payer email is required unless the request is shared as a link
+ *
+ * @param currency - ISO 4217 code of the receiving wallet
+ * @param ownEmail - The user's email; users cannot request money from themselves
+ * @returns Zod schema for the request money form
+ */
+export const createPaymentRequestSchema = (currency: string = DEFAULT_CURRENCY, ownEmail?: string) =>
+    z
+        .object({
+            walletId: z.string().min(1, 'Select a wallet to receive the money'),
+            shareAsLink: z.boolean(),
+            payerEmail: z.string(),
+            amount: z
+                .string()
+                .min(1, 'Amount is required')
+                .refine(
+                    (val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0,
+                    'Amount must be greater than 0'
+                )
+                .refine(
+                    (val) => parseMoney(val, currency) !== null,
+                    getMinorUnitsMessage(currency)
+                ),
+            note: z
+                .string()
+                .max(200, 'Note must not exceed 200 characters')
+                .optional()
+                .or(z.literal('')),
+            expiresInDays: z.enum(PAYMENT_REQUEST_EXPIRY_DAYS),
+        })
+        .superRefine((data, ctx) => {
+            // Link requests can be paid by anyone with the link
+            if (data.shareAsLink) return;
+
+            const result = emailSchema.safeParse(data.payerEmail);
+            if (!data.payerEmail) {
+                ctx.addIssue({ code: 'custom', message: 'Payer email is required', path: ['payerEmail'] });
+            } else if (!result.success) {
+                ctx.addIssue({ code: 'custom', message: result.error.issues[0].message, path: ['payerEmail'] });
+            } else if (ownEmail && data.payerEmail.toLowerCase() === ownEmail.toLowerCase()) {
+                ctx.addIssue({ code: 'custom', message: 'You cannot request money from yourself', path: ['payerEmail'] });
+            }
+        });
+
+export type PaymentRequestFormData = z.infer<ReturnType<typeof createPaymentRequestSchema>>;
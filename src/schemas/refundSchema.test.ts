@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { createRefundSchema } from './refundSchema';
+import { toDecimalString } from '../utils/money';
+import { CurrencyEnum } from '../features/wallet/types';
+
+/**
+ * Property-based tests for Refund Schema validation
+ *
+ * **Validates: Payment refunds**
+ * - Any amount from one minor unit up to the refundable remainder is accepted
+ * - Amounts above the remainder, zero or negative are rejected
+ * - Amount precision follows the payment currency
+ */
+
+const currencyArbitrary = fc.constantFrom(...Object.values(CurrencyEnum));
+
+describe('Refund Schema Property Tests', () => {
+    it('should accept any amount up to and including the refundable remainder', () => {
+        fc.assert(
+            fc.property(
+                currencyArbitrary,
+                fc.integer({ min: 1, max: 10_000_000 }),
+                fc.integer({ min: 1, max: 10_000_000 }),
+                (currency, refundableMinor, amountMinor) => {
+                    fc.pre(amountMinor <= refundableMinor);
+                    const refundable = toDecimalString({ minor: refundableMinor, currency });
+                    const schema = createRefundSchema(Number(refundable), currency);
+                    const result = schema.safeParse({ amount: toDecimalString({ minor: amountMinor, currency }) });
+                    expect(result.success).toBe(true);
+                }
+            ),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should reject amounts above the refundable remainder by even one minor unit', () => {
+        fc.assert(
+            fc.property(currencyArbitrary, fc.integer({ min: 1, max: 10_000_000 }), (currency, refundableMinor) => {
+                const schema = createRefundSchema(Number(toDecimalString({ minor: refundableMinor, currency })), currency);
+                const result = schema.safeParse({ amount: toDecimalString({ minor: refundableMinor + 1, currency }) });
+                expect(result.success).toBe(false);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should reject zero, negative and empty amounts', () => {
+        const schema = createRefundSchema(100, CurrencyEnum.SGD);
+        ['', '0', '0.00', '-5'].forEach((amount) => {
+            expect(schema.safeParse({ amount }).success).toBe(false);
+        });
+    });
+
+    it('should limit decimal places to the currency minor units', () => {
+        expect(createRefundSchema(100, CurrencyEnum.SGD).safeParse({ amount: '10.005' }).success).toBe(false);
+        expect(createRefundSchema(10_000, CurrencyEnum.JPY).safeParse({ amount: '10.5' }).success).toBe(false);
+        expect(createRefundSchema(10_000, CurrencyEnum.JPY).safeParse({ amount: '10' }).success).toBe(true);
+    });
+});
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { DEFAULT_CURRENCY, getMinorUnitsMessage } from '../utils/currency';
+import { compareMoney, formatMoneyValue, parseMoney, toMoney } from '../utils/money';
+
+/**
+ * Creates a refund validation schema for a settled payment
+ * The amount is compared in integer minor units against what is still
+ * refundable, so refunding exactly the remainder is always allowed
+ *
+ * @param refundableAmount - Amount not yet refunded, in major units
+ * @param currency - ISO 4217 code of the payment
+ * @returns Zod schema for the refund form
+ */
+export const createRefundSchema = (refundableAmount: number, currency: string = DEFAULT_CURRENCY) => {
+    const refundable = toMoney(refundableAmount, currency);
+
+    return z.object({
+        amount: z
+            .string()
+            .min(1, 'Amount is required')
+            .refine(
+                (val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0,
+                'Amount must be greater than 0'
+            )
+            .refine(
+                (val) => {
+                    // Malformed amounts are reported by the other refinements
+                    const amount = parseMoney(val, currency);
+                    return amount === null || compareMoney(amount, refundable) <= 0;
+                },
+                `Amount cannot exceed the refundable ${formatMoneyValue(refundable)}`
+            )
+            .refine(
+                (val) => parseMoney(val, currency) !== null,
+                getMinorUnitsMessage(currency)
+            ),
+    });
+};
+
+export type RefundFormData = z.infer<ReturnType<typeof createRefundSchema>>;
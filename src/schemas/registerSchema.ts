@@ -1,19 +1,28 @@
 import { z } from 'zod';
 
+/** Username rules shared by registration and profile editing */
+export const usernameSchema = z
+    .string()
+    .min(3, 'Username must be at least 3 characters')
+    .max(20, 'Username must not exceed 20 characters')
+    .regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores');
+
+/** Email rules shared by registration and profile editing */
+export const emailSchema = z
+    .email({ message: 'Please enter a valid email address' });
+
+/** Password strength rules shared by registration and password change */
+export const passwordSchema = z
+    .string()
+    .min(8, 'Password must be at least 8 characters')
+    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+    .regex(/[0-9]/, 'Password must contain at least one number');
+
 export const registerSchema = z.object({
-    username: z
-        .string()
-        .min(3, 'Username must be at least 3 characters')
-        .max(20, 'Username must not exceed 20 characters')
-        .regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores'),
-    email: z
-        .email({ message: 'Please enter a valid email address' }),
-    password: z
-        .string()
-        .min(8, 'Password must be at least 8 characters')
-        .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-        .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-        .regex(/[0-9]/, 'Password must contain at least one number'),
+    username: usernameSchema,
+    email: emailSchema,
+    password: passwordSchema,
 });
 
 export type RegisterFormData = z.infer<typeof registerSchema>;
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { createEditScheduleSchema, createScheduledTransferSchema } from './scheduledTransferSchema';
+
+/**
+ * Property-based tests for Scheduled Transfer Schema validation
+ *
+ * **Validates: Scheduled and recurring transfers**
+ * - Scheduled transfers need a real date after today
+ * - Custom recurrences need a whole number of days between 1 and 365
+ * - End dates cannot be before the transfer date
+ * - Schedule fields are ignored when the transfer is sent now
+ */
+
+const TODAY = '2025-06-15';
+
+// Helper to create form data
+const createFormData = (overrides: Record<string, unknown> = {}) => ({
+    recipient: 'friend@example.com',
+    amount: '10.00',
+    note: '',
+    isScheduled: true,
+    startDate: '2025-06-16',
+    recurrence: 'NONE',
+    intervalDays: '',
+    endDate: '',
+    ...overrides,
+});
+
+const hasIssueAt = (result: ReturnType<ReturnType<typeof createScheduledTransferSchema>['safeParse']>, field: string) =>
+    !result.success && result.error.issues.some((issue) => issue.path.includes(field));
+
+describe('Scheduled Transfer Schema Property Tests', () => {
+    const schema = createScheduledTransferSchema(1000, 'SGD', TODAY);
+
+    describe('Transfer Date', () => {
+        it('should accept any date after today', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 1, max: 3650 }), (days) => {
+                    const startDate = new Date(Date.parse(TODAY) + days * 86_400_000).toISOString().slice(0, 10);
+                    expect(schema.safeParse(createFormData({ startDate })).success).toBe(true);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject today, past and invalid dates', () => {
+            ['2025-06-15', '2025-06-14', '2020-01-01', '2025-02-30', '', 'tomorrow'].forEach((startDate) => {
+                expect(hasIssueAt(schema.safeParse(createFormData({ startDate })), 'startDate')).toBe(true);
+            });
+        });
+
+        it('should ignore schedule fields when sending now', () => {
+            const result = schema.safeParse(
+                createFormData({ isScheduled: false, startDate: '', recurrence: 'CUSTOM', intervalDays: 'x', endDate: 'x' })
+            );
+            expect(result.success).toBe(true);
+        });
+    });
+
+    describe('Recurrence', () => {
+        it('should accept custom intervals from 1 to 365 days', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 1, max: 365 }), (interval) => {
+                    const result = schema.safeParse(createFormData({ recurrence: 'CUSTOM', intervalDays: String(interval) }));
+                    expect(result.success).toBe(true);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject custom intervals outside 1 to 365 or not whole', () => {
+            ['0', '-3', '366', '2.5', '', 'abc'].forEach((intervalDays) => {
+                const result = schema.safeParse(createFormData({ recurrence: 'CUSTOM', intervalDays }));
+                expect(hasIssueAt(result, 'intervalDays')).toBe(true);
+            });
+        });
+
+        it('should reject end dates before the transfer date', () => {
+            const result = schema.safeParse(
+                createFormData({ recurrence: 'WEEKLY', startDate: '2025-07-01', endDate: '2025-06-30' })
+            );
+            expect(hasIssueAt(result, 'endDate')).toBe(true);
+            expect(
+                schema.safeParse(createFormData({ recurrence: 'WEEKLY', startDate: '2025-07-01', endDate: '2025-07-01' })).success
+            ).toBe(true);
+        });
+
+        it('should ignore the end date for one-off transfers', () => {
+            expect(schema.safeParse(createFormData({ endDate: '2000-01-01' })).success).toBe(true);
+        });
+    });
+
+    describe('Edit Schedule', () => {
+        const editSchema = createEditScheduleSchema(1000, 'SGD', TODAY);
+
+        it('should validate the amount and timing without a recipient', () => {
+            expect(
+                editSchema.safeParse({ amount: '25.00', note: '', startDate: '2025-07-01', recurrence: 'MONTHLY', intervalDays: '', endDate: '' })
+                    .success
+            ).toBe(true);
+            expect(
+                editSchema.safeParse({ amount: '2000', note: '', startDate: '2025-06-01', recurrence: 'MONTHLY', intervalDays: '', endDate: '' })
+                    .success
+            ).toBe(false);
+        });
+
+        it('should keep a saved start date that has passed but require a new one to be in the future', () => {
+            const savedSchema = createEditScheduleSchema(1000, 'SGD', TODAY, '2025-01-31');
+            const editData = { amount: '25.00', note: 'Rent', recurrence: 'MONTHLY', intervalDays: '', endDate: '' };
+
+            expect(savedSchema.safeParse({ ...editData, startDate: '2025-01-31' }).success).toBe(true);
+            expect(savedSchema.safeParse({ ...editData, startDate: TODAY }).success).toBe(false);
+            expect(savedSchema.safeParse({ ...editData, startDate: '2025-06-30' }).success).toBe(true);
+        });
+    });
+});
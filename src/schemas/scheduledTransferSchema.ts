@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { createTransferSchema } from './transferSchema';
+
+/** Recurrence options for scheduled transfers */
+export const TRANSFER_RECURRENCES = ['NONE', 'WEEKLY', 'MONTHLY', 'CUSTOM'] as const;
+
+/** Longest custom interval between runs, in days */
+export const MAX_INTERVAL_DAYS = 365;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Checks that a YYYY-MM-DD string is a real calendar date
+ * @param value - Date string from a date input
+ */
+const isCalendarDate = (value: string): boolean => {
+    if (!DATE_PATTERN.test(value)) return false;
+    const [year, month, day] = value.split('-').map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/** Schedule fields shared by the transfer and edit forms; checked by refineSchedule */
+const scheduleFields = {
+    startDate: z.string(),
+    recurrence: z.enum(TRANSFER_RECURRENCES),
+    intervalDays: z.string(),
+    endDate: z.string(),
+};
+
+type ScheduleFields = {
+    startDate: string;
+    recurrence: (typeof TRANSFER_RECURRENCES)[number];
+    intervalDays: string;
+    endDate: string;
+};
+
+/**
+ * Builds the schedule refinement for a given day
+ * YYYY-MM-DD strings compare correctly as plain strings
+ *
+ * @param today - Today's local date (YYYY-MM-DD); the first run must be after it
+ * @param savedStartDate - An existing schedule's start date, accepted as is even once it has passed
+ */
+const refineSchedule = (today: string, savedStartDate?: string) => (data: ScheduleFields, ctx: z.RefinementCtx) => {
+    if (!isCalendarDate(data.startDate)) {
+        ctx.addIssue({ code: 'custom', message: 'Choose a transfer date', path: ['startDate'] });
+    } else if (data.startDate <= today && data.startDate !== savedStartDate) {
+        ctx.addIssue({ code: 'custom', message: 'Transfer date must be in the future', path: ['startDate'] });
+    }
+
+    if (data.recurrence === 'CUSTOM') {
+        const interval = Number(data.intervalDays);
+        if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL_DAYS) {
+            ctx.addIssue({
+                code: 'custom',
+                message: `Repeat every 1 to ${MAX_INTERVAL_DAYS} days`,
+                path: ['intervalDays'],
+            });
+        }
+    }
+
+    if (data.recurrence !== 'NONE' && data.endDate) {
+        if (!isCalendarDate(data.endDate)) {
+            ctx.addIssue({ code: 'custom', message: 'Enter a valid end date', path: ['endDate'] });
+        } else if (isCalendarDate(data.startDate) && data.endDate < data.startDate) {
+            ctx.addIssue({ code: 'custom', message: 'End date must be on or after the transfer date', path: ['endDate'] });
+        }
+    }
+};
+
+/**
+ * Creates the transfer form schema with optional scheduling
+ * Extends the transfer schema; the date and recurrence fields are only
+ * validated when `isScheduled` is set
+ *
+ * @param maxBalance - The maximum available balance for transfer
+ * @param currency - ISO 4217 code of the source wallet
+ * @param today - Today's local date (YYYY-MM-DD)
+ * @returns Zod schema for the transfer form
+ */
+export const createScheduledTransferSchema = (
+    maxBalance: number,
+    currency: string,
+    today: string
+) => {
+    const checkSchedule = refineSchedule(today);
+
+    return createTransferSchema(maxBalance, currency)
+        .extend({ isScheduled: z.boolean(), ...scheduleFields })
+        .superRefine((data, ctx) => {
+            if (data.isScheduled) checkSchedule(data, ctx);
+        });
+};
+
+/**
+ * Creates the edit schedule schema
+ * The payer wallet and recipient are fixed, so only the amount, note and timing are edited.
+ * The saved start date stays valid after it has passed; only a new date must be in the future
+ *
+ * @param maxBalance - The maximum available balance for transfer
+ * @param currency - ISO 4217 code of the source wallet
+ * @param today - Today's local date (YYYY-MM-DD)
+ * @param savedStartDate - The schedule's current start date (YYYY-MM-DD)
+ * @returns Zod schema for the edit schedule form
+ */
+export const createEditScheduleSchema = (
+    maxBalance: number,
+    currency: string,
+    today: string,
+    savedStartDate?: string
+) =>
+    createTransferSchema(maxBalance, currency)
+        .pick({ amount: true, note: true })
+        .extend(scheduleFields)
+        .superRefine(refineSchedule(today, savedStartDate));
+
+export type ScheduledTransferFormData = z.infer<ReturnType<typeof createScheduledTransferSchema>>;
+export type EditScheduleFormData = z.infer<ReturnType<typeof createEditScheduleSchema>>;
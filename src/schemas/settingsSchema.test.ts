@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { changePasswordSchema, profileSchema } from './settingsSchema';
+
+/**
+ * Property-based tests for Settings Schema validation
+ *
+ * **Validates: Settings page profile and password forms**
+ * - Profile username and email follow the registration rules
+ * - New password follows the registration strength rules
+ * - New password must differ from the current one and match its confirmation
+ */
+
+// Generator for passwords meeting the registration strength rules
+const validPasswordArbitrary = fc
+    .tuple(
+        fc.stringMatching(/^[A-Z]$/),
+        fc.stringMatching(/^[a-z]$/),
+        fc.stringMatching(/^[0-9]$/),
+        fc.stringMatching(/^[a-zA-Z0-9]{5,20}$/)
+    )
+    .map(([upper, lower, digit, rest]) => `${upper}${lower}${digit}${rest}`);
+
+describe('Settings Schema Property Tests', () => {
+    describe('Profile Schema', () => {
+        it('should accept valid usernames and emails', () => {
+            fc.assert(
+                fc.property(
+                    fc.stringMatching(/^[a-zA-Z0-9_]{3,20}$/),
+                    fc.stringMatching(/^[a-z]{2,10}$/),
+                    (username, domain) => {
+                        const result = profileSchema.safeParse({ username, email: `user@${domain}.com` });
+                        expect(result.success).toBe(true);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject invalid usernames and emails', () => {
+            expect(profileSchema.safeParse({ username: 'ab', email: 'user@example.com' }).success).toBe(false);
+            expect(profileSchema.safeParse({ username: 'bad name', email: 'user@example.com' }).success).toBe(false);
+            expect(profileSchema.safeParse({ username: 'johndoe', email: 'not-an-email' }).success).toBe(false);
+        });
+    });
+
+    describe('Change Password Schema', () => {
+        it('should accept a strong new password that differs from the current one', () => {
+            fc.assert(
+                fc.property(validPasswordArbitrary, validPasswordArbitrary, (currentPassword, newPassword) => {
+                    fc.pre(currentPassword !== newPassword);
+                    const result = changePasswordSchema.safeParse({
+                        currentPassword,
+                        newPassword,
+                        confirmPassword: newPassword,
+                    });
+                    expect(result.success).toBe(true);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject a mismatched confirmation', () => {
+            fc.assert(
+                fc.property(validPasswordArbitrary, fc.string({ minLength: 1 }), (newPassword, confirmPassword) => {
+                    fc.pre(newPassword !== confirmPassword);
+                    const result = changePasswordSchema.safeParse({
+                        currentPassword: 'OldPassw0rd',
+                        newPassword,
+                        confirmPassword,
+                    });
+                    expect(result.success).toBe(false);
+                    if (!result.success) {
+                        expect(result.error.issues.some((i) => i.path.includes('confirmPassword'))).toBe(true);
+                    }
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject reusing the current password', () => {
+            const result = changePasswordSchema.safeParse({
+                currentPassword: 'Passw0rdOne',
+                newPassword: 'Passw0rdOne',
+                confirmPassword: 'Passw0rdOne',
+            });
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.error.issues.some((i) => i.path.includes('newPassword'))).toBe(true);
+            }
+        });
+
+        it('should reject weak new passwords', () => {
+            ['short1A', 'alllowercase1', 'ALLUPPERCASE1', 'NoDigitsHere'].forEach((newPassword) => {
+                const result = changePasswordSchema.safeParse({
+                    currentPassword: 'OldPassw0rd',
+                    newPassword,
+                    confirmPassword: newPassword,
+                });
+                expect(result.success).toBe(false);
+            });
+        });
+
+        it('should require the current password', () => {
+            const result = changePasswordSchema.safeParse({
+                currentPassword: '',
+                newPassword: 'NewPassw0rd',
+                confirmPassword: 'NewPassw0rd',
+            });
+            expect(result.success).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { emailSchema, passwordSchema, usernameSchema } from './registerSchema';
+
+/**
+ * Profile form schema
+ * Uses the same username and email rules as registration
+ */
+export const profileSchema = z.object({
+    username: usernameSchema,
+    email: emailSchema,
+});
+
+export type ProfileFormData = z.infer<typeof profileSchema>;
+
+/**
+ * Change password form schema
+ * The new password must meet the registration strength rules, differ from
+ * the current password and be typed twice
+ */
+export const changePasswordSchema = z
+    .object({
+        currentPassword: z.string().min(1, 'Current password is required'),
+        newPassword: passwordSchema,
+        confirmPassword: z.string().min(1, 'Please confirm your new password'),
+    })
+    .refine((data) => data.newPassword !== data.currentPassword, {
+        message: 'New password must be different from your current password',
+        path: ['newPassword'],
+    })
+    .refine((data) => data.newPassword === data.confirmPassword, {
+        message: 'Passwords do not match',
+        path: ['confirmPassword'],
+    });
+
+export type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
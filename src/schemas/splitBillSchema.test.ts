@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { createSplitBillSchema } from './splitBillSchema';
+
+/**
+ * Property-based tests for Split Bill Schema validation
+ *
+ * **Validates: Split bill form**
+ * - A name, a positive total and at least one contact are required
+ * - Percentages and custom amounts must cover the bill unless the user pays the rest
+ * - Every participant must owe more than nothing
+ */
+
+// Helper to create a participant
+const createParticipant = (index: number, value = '') => ({
+    contactId: `contact-${index}`,
+    name: `Friend ${index}`,
+    email: `friend${index}@example.com`,
+    value,
+});
+
+// Helper to create form data
+const createFormData = (overrides: Record<string, unknown> = {}) => ({
+    title: 'Dinner',
+    walletId: 'wallet-1',
+    totalAmount: '100.00',
+    method: 'EQUAL',
+    includeSelf: true,
+    participants: [createParticipant(1), createParticipant(2)],
+    expiresInDays: '7',
+    ...overrides,
+});
+
+describe('Split Bill Schema Property Tests', () => {
+    it('should accept an equal split of any total that leaves everyone a share', () => {
+        fc.assert(
+            fc.property(fc.integer({ min: 3, max: 100_000_000 }), fc.boolean(), (cents, includeSelf) => {
+                const result = createSplitBillSchema('SGD').safeParse(
+                    createFormData({ totalAmount: (cents / 100).toFixed(2), includeSelf })
+                );
+                expect(result.success).toBe(true);
+            }),
+            { numRuns: 100 }
+        );
+    });
+
+    it('should require a name, a positive total and at least one contact', () => {
+        [
+            { title: '  ' },
+            { totalAmount: '0' },
+            { totalAmount: '10.005' },
+            { participants: [] },
+        ].forEach((overrides) => {
+            expect(createSplitBillSchema('SGD').safeParse(createFormData(overrides)).success).toBe(false);
+        });
+    });
+
+    it('should reject a total too small to give every participant a share', () => {
+        const result = createSplitBillSchema('SGD').safeParse(createFormData({ totalAmount: '0.01' }));
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0].path).toEqual(['totalAmount']);
+    });
+
+    it('should require percentages to cover the bill unless the user pays the rest', () => {
+        const participants = [createParticipant(1, '30'), createParticipant(2, '45.5')];
+        const schema = createSplitBillSchema('SGD');
+
+        expect(schema.safeParse(createFormData({ method: 'PERCENTAGE', participants })).success).toBe(true);
+        const result = schema.safeParse(createFormData({ method: 'PERCENTAGE', participants, includeSelf: false }));
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0].path).toEqual(['method']);
+
+        const full = [createParticipant(1, '54.5'), createParticipant(2, '45.5')];
+        expect(schema.safeParse(createFormData({ method: 'PERCENTAGE', participants: full, includeSelf: false })).success).toBe(true);
+    });
+
+    it('should flag each invalid percentage or amount on its own row', () => {
+        const schema = createSplitBillSchema('SGD');
+        const percentages = schema.safeParse(
+            createFormData({ method: 'PERCENTAGE', participants: [createParticipant(1, '0'), createParticipant(2, '101')] })
+        );
+        expect(percentages.error?.issues.map((issue) => issue.path)).toEqual([
+            ['participants', 0, 'value'],
+            ['participants', 1, 'value'],
+        ]);
+
+        const amounts = schema.safeParse(
+            createFormData({ method: 'CUSTOM', participants: [createParticipant(1, '10'), createParticipant(2, '1.234')] })
+        );
+        expect(amounts.error?.issues.map((issue) => issue.path)).toEqual([['participants', 1, 'value']]);
+    });
+
+    it('should require custom amounts to add up to the total unless the user pays the rest', () => {
+        fc.assert(
+            fc.property(fc.integer({ min: 1, max: 1_000_000 }), fc.integer({ min: 1, max: 1_000_000 }), (a, b) => {
+                const participants = [createParticipant(1, (a / 100).toFixed(2)), createParticipant(2, (b / 100).toFixed(2))];
+                const exactTotal = ((a + b) / 100).toFixed(2);
+                const largerTotal = ((a + b + 1) / 100).toFixed(2);
+                const schema = createSplitBillSchema('SGD');
+
+                const split = (totalAmount: string, includeSelf: boolean) =>
+                    schema.safeParse(createFormData({ method: 'CUSTOM', participants, totalAmount, includeSelf })).success;
+
+                expect(split(exactTotal, false)).toBe(true);
+                expect(split(largerTotal, false)).toBe(false);
+                expect(split(largerTotal, true)).toBe(true);
+            }),
+            { numRuns: 100 }
+        );
+    });
+});
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { PAYMENT_REQUEST_EXPIRY_DAYS } from './paymentRequestSchema';
+import { DEFAULT_CURRENCY, getMinorUnitsMessage } from '../utils/currency';
+import { parseMoney } from '../utils/money';
+import { parsePercentage, splitTotal, SPLIT_METHODS } from '../utils/splitBill';
+
+/** Most people a bill can be split between, besides the user */
+export const MAX_SPLIT_PARTICIPANTS = 20;
+
+/**
+ * Creates the split bill validation schema
+ * Percentages or custom amounts must cover the whole bill, except for the
+ * user's own share when they take part
+ *
+ * @param currency - ISO 4217 code of the receiving wallet
+ * @returns Zod schema for the split bill form
+ */
+export const createSplitBillSchema = (currency: string = DEFAULT_CURRENCY) =>
+    z
+        .object({
+            title: z
+                .string()
+                .trim()
+                .min(1, 'Give the bill a name')
+                .max(60, 'Name must not exceed 60 characters'),
+            walletId: z.string().min(1, 'Select a wallet to receive the money'),
+            totalAmount: z
+                .string()
+                .min(1, 'Total is required')
+                .refine(
+                    (val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0,
+                    'Total must be greater than 0'
+                )
+                .refine(
+                    (val) => parseMoney(val, currency) !== null,
+                    getMinorUnitsMessage(currency)
+                ),
+            method: z.enum(SPLIT_METHODS),
+            includeSelf: z.boolean(),
+            participants: z
+                .array(
+                    z.object({
+                        contactId: z.string(),
+                        name: z.string(),
+                        email: z.string(),
+                        /** Percentage or amount, depending on the method */
+                        value: z.string(),
+                    })
+                )
+                .min(1, 'Pick at least one contact')
+                .max(MAX_SPLIT_PARTICIPANTS, `You can split a bill between up to ${MAX_SPLIT_PARTICIPANTS} contacts`),
+            expiresInDays: z.enum(PAYMENT_REQUEST_EXPIRY_DAYS),
+        })
+        .superRefine((data, ctx) => {
+            const total = parseMoney(data.totalAmount, currency);
+            if (!total || total.minor <= 0 || data.participants.length === 0) return;
+
+            // Each share must be entered correctly before the shares can be added up
+            let hasInvalidShare = false;
+            data.participants.forEach((participant, index) => {
+                const path = ['participants', index, 'value'];
+                if (data.method === 'PERCENTAGE') {
+                    const basisPoints = parsePercentage(participant.value);
+                    if (basisPoints === null || basisPoints === 0) {
+                        hasInvalidShare = true;
+                        ctx.addIssue({ code: 'custom', message: 'Enter a percentage between 0 and 100', path });
+                    }
+                } else if (data.method === 'CUSTOM') {
+                    const amount = parseMoney(participant.value, currency);
+                    if (!amount || amount.minor <= 0) {
+                        hasInvalidShare = true;
+                        ctx.addIssue({
+                            code: 'custom',
+                            message: amount ? 'Amount must be greater than 0' : getMinorUnitsMessage(currency),
+                            path,
+                        });
+                    }
+                }
+            });
+            if (hasInvalidShare) return;
+
+            const split = splitTotal(
+                total,
+                data.method,
+                data.participants.map((participant) => participant.value),
+                data.includeSelf
+            );
+            if (!split) {
+                const message = data.method === 'PERCENTAGE'
+                    ? data.includeSelf ? 'Percentages cannot add up to more than 100%' : 'Percentages must add up to 100%'
+                    : data.includeSelf ? 'Amounts cannot add up to more than the total' : 'Amounts must add up to the total';
+                ctx.addIssue({ code: 'custom', message, path: ['method'] });
+            } else if (split.shares.some((share) => share.minor === 0)) {
+                ctx.addIssue({ code: 'custom', message: 'Total is too small to split this way', path: ['totalAmount'] });
+            }
+        });
+
+export type SplitBillFormData = z.infer<ReturnType<typeof createSplitBillSchema>>;
@@ -1,22 +1,33 @@
 import { z } from 'zod';
+import { DEFAULT_CURRENCY, getMinorUnitsMessage } from '../utils/currency';
+import { parseMoney } from '../utils/money';
 
-export const topUpSchema = z.object({
-    amount: z
-        .string()
-        .min(1, 'Amount is required')
-        .refine(
-            (val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0,
-            'Amount must be greater than 0'
-        )
-        .refine(
-            (val) => {
-                const num = parseFloat(val);
-                return Number.isFinite(num) && /^\d+(\.\d{1,2})?$/.test(val);
-            },
-            'Amount must have at most 2 decimal places'
-        ),
-    currency: z.string().min(1, 'Currency is required'),
-    paymentMethodId: z.string().min(1, 'Payment method is required'),
-});
+/**
+ * Creates a top-up validation schema for a wallet currency
+ * Amounts are parsed exactly into minor units, so decimal places are limited
+ * to the currency's minor units (e.g., none for JPY)
+ *
+ * @param currency - ISO 4217 code of the wallet being topped up
+ * @returns Zod schema for top-up form validation
+ */
+export const createTopUpSchema = (currency: string = DEFAULT_CURRENCY) =>
+    z.object({
+        amount: z
+            .string()
+            .min(1, 'Amount is required')
+            .refine(
+                (val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0,
+                'Amount must be greater than 0'
+            )
+            .refine(
+                (val) => parseMoney(val, currency) !== null,
+                getMinorUnitsMessage(currency)
+            ),
+        currency: z.string().min(1, 'Currency is required'),
+        paymentMethodId: z.string().min(1, 'Payment method is required'),
+    });
+
+/** Top-up schema for the default currency */
+export const topUpSchema = createTopUpSchema();
 
 export type TopUpFormData = z.infer<typeof topUpSchema>;
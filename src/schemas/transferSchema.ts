@@ -1,13 +1,20 @@
 import { z } from 'zod';
+import { DEFAULT_CURRENCY, getMinorUnitsMessage } from '../utils/currency';
+import { compareMoney, formatMoneyValue, parseMoney, toMoney } from '../utils/money';
 
 /**
  * Creates a transfer validation schema with dynamic balance validation
+ * Decimal places are limited to the source wallet currency's minor units, and the
+ * balance check compares integer minor units so it is exact at the boundary
  * 
  * @param maxBalance - The maximum available balance for transfer
+ * @param currency - ISO 4217 code of the source wallet
  * @returns Zod schema for transfer form validation
  */
-export const createTransferSchema = (maxBalance: number) =>
-    z.object({
+export const createTransferSchema = (maxBalance: number, currency: string = DEFAULT_CURRENCY) => {
+    const balance = toMoney(maxBalance, currency);
+
+    return z.object({
         recipient: z
             .string()
             .min(1, 'Recipient email is required')
@@ -21,10 +28,15 @@ export const createTransferSchema = (maxBalance: number) =>
             )
             .refine(
                 (val) => {
-                    const num = parseFloat(val);
-                    return Number.isFinite(num) && num <= maxBalance;
+                    // Malformed amounts are reported by the other refinements
+                    const amount = parseMoney(val, currency);
+                    return amount === null || compareMoney(amount, balance) <= 0;
                 },
-                `Amount cannot exceed available balance of ${maxBalance.toFixed(2)}`
+                `Amount cannot exceed available balance of ${formatMoneyValue(balance)}`
+            )
+            .refine(
+                (val) => parseMoney(val, currency) !== null,
+                getMinorUnitsMessage(currency)
             ),
         note: z
             .string()
@@ -32,5 +44,6 @@ export const createTransferSchema = (maxBalance: number) =>
             .optional()
             .or(z.literal('')),
     });
+};
 
 export type TransferFormData = z.infer<ReturnType<typeof createTransferSchema>>;
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import fc from 'fast-check';
+import {
+    authSlice,
+    logout,
+    sessionStarted,
+    loadSessionFlag,
+    saveSessionFlag,
+    selectSessionEndReason,
+    SessionEndReasonEnum,
+    type AuthState,
+} from '../authSlice';
+
+/**
+ * Tests for the auth session slice
+ *
+ * - Session actions toggle the authenticated flag
+ * - Logout records why the session ended until the next login
+ * - The persisted session flag round-trips through localStorage
+ */
+
+const sessionActionArbitrary = fc.constantFrom(sessionStarted(), logout());
+
+describe('authSlice', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    describe('reducer', () => {
+        it('should mark the session active on sessionStarted', () => {
+            const state = authSlice.reducer({ isAuthenticated: false }, sessionStarted());
+            expect(state.isAuthenticated).toBe(true);
+        });
+
+        it('should clear the session on logout', () => {
+            const state = authSlice.reducer({ isAuthenticated: true }, logout());
+            expect(state.isAuthenticated).toBe(false);
+        });
+
+        it('should record why the session ended, defaulting to a manual sign out', () => {
+            expect(authSlice.reducer({ isAuthenticated: true }, logout()).sessionEndReason)
+                .toBe(SessionEndReasonEnum.SIGNED_OUT);
+
+            const state = authSlice.reducer({ isAuthenticated: true }, logout(SessionEndReasonEnum.IDLE));
+            expect(selectSessionEndReason({ auth: state })).toBe(SessionEndReasonEnum.IDLE);
+        });
+
+        it('should forget the previous end reason when a new session starts', () => {
+            const ended = authSlice.reducer({ isAuthenticated: true }, logout(SessionEndReasonEnum.EXPIRED));
+            const state = authSlice.reducer(ended, sessionStarted());
+            expect(selectSessionEndReason({ auth: state })).toBeNull();
+        });
+
+        it('should always reflect the last session action in any sequence', () => {
+            fc.assert(
+                fc.property(
+                    fc.array(sessionActionArbitrary, { minLength: 1, maxLength: 20 }),
+                    fc.boolean(),
+                    (actions, initial) => {
+                        const finalState = actions.reduce<AuthState>(
+                            (state, action) => authSlice.reducer(state, action),
+                            { isAuthenticated: initial }
+                        );
+                        const lastAction = actions[actions.length - 1];
+                        expect(finalState.isAuthenticated).toBe(lastAction.type === sessionStarted.type);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('session persistence', () => {
+        it('should report no session when nothing is stored', () => {
+            expect(loadSessionFlag()).toBe(false);
+        });
+
+        it('should round-trip the session flag', () => {
+            fc.assert(
+                fc.property(fc.boolean(), (isAuthenticated) => {
+                    saveSessionFlag(isAuthenticated);
+                    expect(loadSessionFlag()).toBe(isAuthenticated);
+                }),
+                { numRuns: 20 }
+            );
+        });
+    });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+    metricsSlice,
+    requestRecorded,
+    requestRetried,
+    tokenRefreshRecorded,
+    getErrorRate,
+    getLatencyPercentile,
+    getMetricsSeries,
+    getRequestsPerHour,
+    getTopCounts,
+    MAX_LATENCY_SAMPLES,
+    METRICS_BUCKET_MS,
+    METRICS_HISTORY_BUCKETS,
+    type RequestRecord,
+} from '../metricsSlice';
+
+/**
+ * Tests for the request metrics slice
+ *
+ * - Every request is counted per endpoint, and failures per status
+ * - Latency samples and sparkline history stay bounded
+ * - Percentiles, rates and series are derived from the counters
+ */
+
+const START = 1_700_000_000_000;
+
+const recordArbitrary: fc.Arbitrary<RequestRecord> = fc.record({
+    endpoint: fc.constantFrom('getWallet', 'login', 'processPayment'),
+    durationMs: fc.integer({ min: 0, max: 5000 }),
+    errorStatus: fc.constantFrom(null, null, 401, 500, 'FETCH_ERROR'),
+    recordedAt: fc.integer({ min: START, max: START + 3_600_000 }),
+});
+
+/** Records requests in time order, as the base query reports them */
+const recordAll = (records: RequestRecord[]) =>
+    [...records]
+        .sort((a, b) => a.recordedAt - b.recordedAt)
+        .reduce((state, record) => metricsSlice.reducer(state, requestRecorded(record)), metricsSlice.getInitialState());
+
+describe('metricsSlice', () => {
+    describe('reducer', () => {
+        it('should count every request per endpoint and every failure per status', () => {
+            fc.assert(
+                fc.property(fc.array(recordArbitrary, { maxLength: 50 }), (records) => {
+                    const state = recordAll(records);
+                    const failures = records.filter((record) => record.errorStatus !== null);
+
+                    expect(state.totalRequests).toBe(records.length);
+                    expect(state.failedRequests).toBe(failures.length);
+                    expect(Object.values(state.requestsByEndpoint).reduce((sum, n) => sum + n, 0)).toBe(records.length);
+                    expect(Object.values(state.errorsByStatus).reduce((sum, n) => sum + n, 0)).toBe(failures.length);
+                })
+            );
+        });
+
+        it('should keep only the most recent latency samples', () => {
+            const records = Array.from({ length: MAX_LATENCY_SAMPLES + 20 }, (_, i) => ({
+                endpoint: 'getWallet',
+                durationMs: i,
+                errorStatus: null,
+                recordedAt: START + i,
+            }));
+            const state = recordAll(records);
+
+            expect(state.latencySamples).toHaveLength(MAX_LATENCY_SAMPLES);
+            expect(state.latencySamples[0]).toBe(20);
+        });
+
+        it('should keep sparkline history within the window of the latest request', () => {
+            fc.assert(
+                fc.property(fc.array(recordArbitrary, { minLength: 1, maxLength: 50 }), (records) => {
+                    const state = recordAll(records);
+                    const latest = Math.max(...records.map((record) => record.recordedAt));
+                    const windowStart = (Math.floor(latest / METRICS_BUCKET_MS) - METRICS_HISTORY_BUCKETS + 1) * METRICS_BUCKET_MS;
+                    const inWindow = records.filter((record) => record.recordedAt >= windowStart);
+
+                    expect(state.history.length).toBeLessThanOrEqual(METRICS_HISTORY_BUCKETS);
+                    expect(state.history.reduce((sum, bucket) => sum + bucket.requests, 0)).toBe(inWindow.length);
+                })
+            );
+        });
+
+        it('should count token refreshes, their failures and retried requests', () => {
+            const actions = [
+                tokenRefreshRecorded({ succeeded: true }),
+                requestRetried(),
+                requestRetried(),
+                tokenRefreshRecorded({ succeeded: false }),
+            ];
+            const state = actions.reduce(metricsSlice.reducer, metricsSlice.getInitialState());
+
+            expect(state.tokenRefreshes).toBe(2);
+            expect(state.tokenRefreshFailures).toBe(1);
+            expect(state.retriedRequests).toBe(2);
+        });
+    });
+
+    describe('derived metrics', () => {
+        it('should pick percentiles from the samples using the nearest rank', () => {
+            const samples = Array.from({ length: 100 }, (_, i) => 100 - i);
+
+            expect(getLatencyPercentile([], 50)).toBeNull();
+            expect(getLatencyPercentile(samples, 50)).toBe(50);
+            expect(getLatencyPercentile(samples, 95)).toBe(95);
+            expect(getLatencyPercentile(samples, 99)).toBe(99);
+            expect(getLatencyPercentile([7], 99)).toBe(7);
+        });
+
+        it('should keep percentiles ordered and within the sample range', () => {
+            fc.assert(
+                fc.property(fc.array(fc.nat({ max: 10_000 }), { minLength: 1 }), (samples) => {
+                    const p50 = getLatencyPercentile(samples, 50)!;
+                    const p95 = getLatencyPercentile(samples, 95)!;
+                    const p99 = getLatencyPercentile(samples, 99)!;
+
+                    expect(p50).toBeLessThanOrEqual(p95);
+                    expect(p95).toBeLessThanOrEqual(p99);
+                    expect(p50).toBeGreaterThanOrEqual(Math.min(...samples));
+                    expect(p99).toBeLessThanOrEqual(Math.max(...samples));
+                })
+            );
+        });
+
+        it('should report the error rate as a percentage of requests', () => {
+            expect(getErrorRate({ totalRequests: 0, failedRequests: 0 })).toBe(0);
+            expect(getErrorRate({ totalRequests: 200, failedRequests: 3 })).toBe(1.5);
+        });
+
+        it('should project requests to an hourly rate, treating the first minute as a full minute', () => {
+            expect(getRequestsPerHour({ totalRequests: 0, startedAt: null }, START)).toBe(0);
+            expect(getRequestsPerHour({ totalRequests: 10, startedAt: START }, START + 5_000)).toBe(600);
+            expect(getRequestsPerHour({ totalRequests: 30, startedAt: START }, START + 1_800_000)).toBe(60);
+        });
+
+        it('should sort counts from highest to lowest', () => {
+            expect(getTopCounts({ login: 2, getWallet: 5, transfer: 2 }, 2)).toEqual([['getWallet', 5], ['login', 2]]);
+        });
+
+        it('should fill idle intervals with zeros up to the current bucket', () => {
+            const state = recordAll([
+                { endpoint: 'getWallet', durationMs: 100, errorStatus: null, recordedAt: START },
+                { endpoint: 'getWallet', durationMs: 300, errorStatus: 500, recordedAt: START + 1 },
+            ]);
+            const series = getMetricsSeries(state.history, START + 2 * METRICS_BUCKET_MS);
+
+            expect(series.requests).toHaveLength(METRICS_HISTORY_BUCKETS);
+            expect(series.requests.slice(-3)).toEqual([2, 0, 0]);
+            expect(series.errors.slice(-3)).toEqual([1, 0, 0]);
+            expect(series.latency.slice(-3)).toEqual([200, 0, 0]);
+        });
+    });
+});
@@ -1,6 +1,11 @@
 import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { BaseQueryFn, FetchArgs, FetchBaseQueryError } from '@reduxjs/toolkit/query';
+import type { Dispatch } from '@reduxjs/toolkit';
+import type { BaseQueryFn, FetchArgs, FetchBaseQueryError, FetchBaseQueryMeta } from '@reduxjs/toolkit/query';
 import { Mutex } from 'async-mutex';
+import { logout, SessionEndReasonEnum, type SessionEndReason } from './authSlice';
+import { postSessionMessage, SessionMessageTypeEnum } from './sessionChannel';
+import { requestRecorded, requestRetried, tokenRefreshRecorded } from './metricsSlice';
+import { createIdempotencyKey, IDEMPOTENCY_KEY_HEADER } from '../utils/idempotency';
 
 const BASE_URL = import.meta.env.VITE_API_BASE_URL;
 
@@ -22,6 +27,28 @@ export const CACHE_DURATIONS = {
     FREQUENT: 60,
 } as const;
 
+/** Request arguments accepted by the protected API */
+export interface ProtectedFetchArgs extends FetchArgs {
+    /** Sent as the Idempotency-Key header rather than in the body */
+    idempotencyKey?: string;
+}
+
+/**
+ * Mutations that move money. They always carry an idempotency key, generated here
+ * when the caller did not pass one, so the retry after a token refresh cannot
+ * apply them twice.
+ */
+const IDEMPOTENT_ENDPOINTS: ReadonlySet<string> = new Set([
+    'topUpWallet',
+    'transfer',
+    'executeExchange',
+    'processPayment',
+    'voidPayment',
+    'refundPayment',
+    'reserveFunds',
+    'confirmReservation',
+]);
+
 /** Mutex to prevent multiple simultaneous token refresh attempts */
 const mutex = new Mutex();
 
@@ -30,19 +57,89 @@ const baseQueryWithCredentials = fetchBaseQuery({
     credentials: 'include',
 });
 
+/**
+ * Ends the client-side session. Every logout goes through here: signing out,
+ * the idle timeout, a rejected refresh token and a logout in another tab.
+ * Clears the auth slice (which makes protected routes redirect to login) and drops
+ * every cached protected query so no data from the ended session is shown again.
+ * @param dispatch - Store dispatch
+ * @param reason - Why the session ended, shown on the login page
+ * @param options.broadcast - Whether to tell the other tabs; false when another tab reported it
+ */
+export const endSession = (
+    dispatch: Dispatch,
+    reason: SessionEndReason,
+    { broadcast = true }: { broadcast?: boolean } = {}
+) => {
+    dispatch(logout(reason));
+    dispatch(protectedApi.util.resetApiState());
+    if (broadcast) {
+        postSessionMessage({ type: SessionMessageTypeEnum.LOGGED_OUT, reason });
+    }
+};
+
+/**
+ * Wraps a base query so every request is timed and counted in the metrics slice
+ * Wrapping the reauth base query measures what callers wait for, including any token refresh and retry
+ * @param baseQuery - Base query to instrument
+ * @returns Base query with the same behaviour that records each result
+ */
+const withMetrics = <Args, QueryError extends { status: number | string }, Meta>(
+    baseQuery: BaseQueryFn<Args, unknown, QueryError, object, Meta>
+): BaseQueryFn<Args, unknown, QueryError, object, Meta> => async (args, api, extraOptions) => {
+    const startedAt = Date.now();
+    const result = await baseQuery(args, api, extraOptions);
+    const finishedAt = Date.now();
+
+    api.dispatch(requestRecorded({
+        endpoint: api.endpoint,
+        durationMs: finishedAt - startedAt,
+        errorStatus: result.error ? result.error.status : null,
+        recordedAt: finishedAt,
+    }));
+    return result;
+};
+
+/**
+ * Moves the idempotency key of a request into its header
+ * @param args - The request arguments
+ * @param endpoint - Name of the endpoint making the request
+ * @returns Arguments for fetchBaseQuery, with the key generated for money-moving mutations that had none
+ */
+const withIdempotencyKey = (args: string | ProtectedFetchArgs, endpoint: string): string | FetchArgs => {
+    if (typeof args === 'string') return args;
+
+    const { idempotencyKey, ...fetchArgs } = args;
+    const key = idempotencyKey ?? (IDEMPOTENT_ENDPOINTS.has(endpoint) ? createIdempotencyKey() : undefined);
+    if (!key) return fetchArgs;
+
+    const headers = new Headers(fetchArgs.headers as HeadersInit | undefined);
+    headers.set(IDEMPOTENCY_KEY_HEADER, key);
+    return { ...fetchArgs, headers };
+};
+
 /**
  * Base query wrapper that automatically refreshes access token on 401 errors.
  * Uses a mutex to prevent race conditions when multiple requests fail simultaneously.
- * @param args - The request arguments (URL string or FetchArgs object)
+ * The retry reuses the original idempotency key, so the server treats it as the same request.
+ * @param requestArgs - The request arguments (URL string or ProtectedFetchArgs object)
  * @param api - The RTK Query API object
  * @param extraOptions - Additional options passed to the base query
  * @returns The query result
  */
-const baseQueryWithReauth: BaseQueryFn<string | FetchArgs, unknown, FetchBaseQueryError> = async (
-    args,
+const baseQueryWithReauth: BaseQueryFn<
+    string | ProtectedFetchArgs,
+    unknown,
+    FetchBaseQueryError,
+    object,
+    FetchBaseQueryMeta
+> = async (
+    requestArgs,
     api,
     extraOptions
 ) => {
+    const args = withIdempotencyKey(requestArgs, api.endpoint);
+
     // Wait if another request is currently refreshing the token
     await mutex.waitForUnlock();
 
@@ -61,13 +158,15 @@ const baseQueryWithReauth: BaseQueryFn<string | FetchArgs, unknown, FetchBaseQue
                     extraOptions
                 );
 
+                api.dispatch(tokenRefreshRecorded({ succeeded: !refreshResult.error }));
+
                 if (!refreshResult.error) {
                     // Token refreshed successfully - retry the original request
+                    api.dispatch(requestRetried());
                     result = await baseQueryWithCredentials(args, api, extraOptions);
                 } else {
                     // Refresh failed - user needs to log in again
-                    // TODO: Dispatch logout action when auth slice is implemented
-                    // api.dispatch(logout());
+                    endSession(api.dispatch, SessionEndReasonEnum.EXPIRED);
                 }
             } finally {
                 release();
@@ -75,6 +174,7 @@ const baseQueryWithReauth: BaseQueryFn<string | FetchArgs, unknown, FetchBaseQue
         } else {
             // Another request already refreshed the token - wait and retry
             await mutex.waitForUnlock();
+            api.dispatch(requestRetried());
             result = await baseQueryWithCredentials(args, api, extraOptions);
         }
     }
@@ -85,10 +185,10 @@ const baseQueryWithReauth: BaseQueryFn<string | FetchArgs, unknown, FetchBaseQue
 // Public API - no authentication required, but needs credentials for cookie handling
 export const publicApi = createApi({
     reducerPath: 'publicApi',
-    baseQuery: fetchBaseQuery({
+    baseQuery: withMetrics(fetchBaseQuery({
         baseUrl: BASE_URL,
         credentials: 'include', // Required to receive and store Set-Cookie headers
-    }),
+    })),
     tagTypes: [],
     endpoints: () => ({}),
 });
@@ -99,9 +199,9 @@ export const publicApi = createApi({
 // Individual endpoints can override this with longer durations for stable data.
 export const protectedApi = createApi({
     reducerPath: 'protectedApi',
-    baseQuery: baseQueryWithReauth,
+    baseQuery: withMetrics(baseQueryWithReauth),
     // Default cache duration for most endpoints - use FREQUENT for transaction/balance data
     keepUnusedDataFor: CACHE_DURATIONS.FREQUENT,
-    tagTypes: ['User', 'Wallet', 'Transaction', 'Contact', 'PaymentMethod'],
+    tagTypes: ['User', 'Wallet', 'Transaction', 'Contact', 'PaymentMethod', 'ScheduledTransfer', 'PaymentRequest', 'SplitBill'],
     endpoints: () => ({}),
 });
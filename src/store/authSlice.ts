@@ -0,0 +1,86 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+
+/** localStorage key used to remember that the browser holds a session cookie */
+const SESSION_STORAGE_KEY = 'apexpay.session';
+
+/** Why the last session ended, so the login page can explain it */
+export const SessionEndReasonEnum = {
+    /** The user chose to sign out */
+    SIGNED_OUT: 'signed_out',
+    /** No activity in any tab for the idle timeout */
+    IDLE: 'idle',
+    /** The backend rejected the refresh token */
+    EXPIRED: 'expired',
+} as const;
+
+export type SessionEndReason = typeof SessionEndReasonEnum[keyof typeof SessionEndReasonEnum];
+
+/**
+ * Auth session state.
+ * Tokens live in HTTP-only cookies, so the client can only track whether it
+ * believes a session exists. The backend remains the source of truth: a failed
+ * token refresh forces the session back to logged out.
+ */
+export interface AuthState {
+    /** Whether the user is considered logged in */
+    isAuthenticated: boolean;
+    /** Why the previous session ended; cleared when a new one starts */
+    sessionEndReason?: SessionEndReason | null;
+}
+
+/**
+ * Reads the persisted session flag so a page reload keeps the user logged in
+ * @returns True if a session was active before the reload
+ */
+export const loadSessionFlag = (): boolean => {
+    try {
+        return localStorage.getItem(SESSION_STORAGE_KEY) === 'active';
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Persists the session flag across page reloads
+ * @param isAuthenticated - Whether a session is currently active
+ */
+export const saveSessionFlag = (isAuthenticated: boolean): void => {
+    try {
+        if (isAuthenticated) {
+            localStorage.setItem(SESSION_STORAGE_KEY, 'active');
+        } else {
+            localStorage.removeItem(SESSION_STORAGE_KEY);
+        }
+    } catch {
+        // Storage may be unavailable (private mode, quota) - session stays in memory only
+    }
+};
+
+const initialState: AuthState = {
+    isAuthenticated: loadSessionFlag(),
+    sessionEndReason: null,
+};
+
+export const authSlice = createSlice({
+    name: 'auth',
+    initialState,
+    reducers: {
+        /** Marks the session as active after a successful login */
+        sessionStarted: (state) => {
+            state.isAuthenticated = true;
+            state.sessionEndReason = null;
+        },
+        /** Clears the session after logout, inactivity or a failed token refresh */
+        logout: (state, action: PayloadAction<SessionEndReason | undefined>) => {
+            state.isAuthenticated = false;
+            state.sessionEndReason = action.payload ?? SessionEndReasonEnum.SIGNED_OUT;
+        },
+    },
+    selectors: {
+        selectIsAuthenticated: (state) => state.isAuthenticated,
+        selectSessionEndReason: (state) => state.sessionEndReason ?? null,
+    },
+});
+
+export const { sessionStarted, logout } = authSlice.actions;
+export const { selectIsAuthenticated, selectSessionEndReason } = authSlice.selectors;
@@ -1,4 +1,17 @@
 export { store } from './store';
 export type { RootState, AppDispatch } from './store';
 export { useAppDispatch, useAppSelector } from './hooks';
-export { publicApi, protectedApi } from './api';
+export { publicApi, protectedApi, endSession } from './api';
+export { logout, sessionStarted, selectIsAuthenticated, selectSessionEndReason, SessionEndReasonEnum } from './authSlice';
+export type { AuthState, SessionEndReason } from './authSlice';
+export {
+    selectMetrics,
+    getLatencyPercentiles,
+    getErrorRate,
+    getRequestsPerHour,
+    getTopCounts,
+    getMetricsSeries,
+} from './metricsSlice';
+export type { MetricsState, MetricsSeries, LatencyPercentiles } from './metricsSlice';
+export { postSessionMessage, subscribeToSessionMessages, SessionMessageTypeEnum } from './sessionChannel';
+export type { SessionMessage } from './sessionChannel';
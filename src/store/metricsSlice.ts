@@ -0,0 +1,214 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+
+/** Most recent request durations kept for latency percentiles */
+export const MAX_LATENCY_SAMPLES = 500;
+
+/** Width of one sparkline bucket */
+export const METRICS_BUCKET_MS = 10_000;
+
+/** Buckets kept for sparklines (5 minutes) */
+export const METRICS_HISTORY_BUCKETS = 30;
+
+/** Requests, errors and time spent in one sparkline bucket */
+export interface MetricsBucket {
+    /** Epoch milliseconds the bucket starts at, a multiple of METRICS_BUCKET_MS */
+    startedAt: number;
+    requests: number;
+    errors: number;
+    totalLatencyMs: number;
+}
+
+/**
+ * Request metrics collected by the publicApi and protectedApi base queries.
+ * Only counters and bounded sample lists are kept, so the state stays small
+ * however long the app runs.
+ */
+export interface MetricsState {
+    /** Epoch milliseconds the first request was recorded; null before any request */
+    startedAt: number | null;
+    totalRequests: number;
+    failedRequests: number;
+    /** Most recent request durations in milliseconds, oldest first */
+    latencySamples: number[];
+    /** Requests per RTK Query endpoint name */
+    requestsByEndpoint: Record<string, number>;
+    /** Failed requests per HTTP status code or fetch error kind (e.g. FETCH_ERROR) */
+    errorsByStatus: Record<string, number>;
+    /** Access token refreshes triggered by a 401 */
+    tokenRefreshes: number;
+    /** Refreshes the backend rejected, which end the session */
+    tokenRefreshFailures: number;
+    /** Requests sent again after a refresh */
+    retriedRequests: number;
+    /** Sparkline buckets, oldest first; idle intervals have no bucket */
+    history: MetricsBucket[];
+}
+
+/** A finished request, as reported by the instrumented base query */
+export interface RequestRecord {
+    endpoint: string;
+    durationMs: number;
+    /** HTTP status or fetch error kind of a failed request; null when it succeeded */
+    errorStatus: number | string | null;
+    /** Epoch milliseconds the request finished */
+    recordedAt: number;
+}
+
+/** Latency percentiles in milliseconds; null before any request */
+export interface LatencyPercentiles {
+    p50: number | null;
+    p95: number | null;
+    p99: number | null;
+}
+
+/** One sparkline series per metric, oldest bucket first */
+export interface MetricsSeries {
+    requests: number[];
+    errors: number[];
+    /** Average latency of each bucket, 0 when it had no requests */
+    latency: number[];
+}
+
+const initialState: MetricsState = {
+    startedAt: null,
+    totalRequests: 0,
+    failedRequests: 0,
+    latencySamples: [],
+    requestsByEndpoint: {},
+    errorsByStatus: {},
+    tokenRefreshes: 0,
+    tokenRefreshFailures: 0,
+    retriedRequests: 0,
+    history: [],
+};
+
+export const metricsSlice = createSlice({
+    name: 'metrics',
+    initialState,
+    reducers: {
+        /** Counts a finished request */
+        requestRecorded: (state, action: PayloadAction<RequestRecord>) => {
+            const { endpoint, durationMs, errorStatus, recordedAt } = action.payload;
+            const isError = errorStatus !== null;
+
+            state.startedAt ??= recordedAt;
+            state.totalRequests += 1;
+            state.requestsByEndpoint[endpoint] = (state.requestsByEndpoint[endpoint] ?? 0) + 1;
+            if (isError) {
+                const key = String(errorStatus);
+                state.failedRequests += 1;
+                state.errorsByStatus[key] = (state.errorsByStatus[key] ?? 0) + 1;
+            }
+
+            state.latencySamples.push(durationMs);
+            if (state.latencySamples.length > MAX_LATENCY_SAMPLES) {
+                state.latencySamples.splice(0, state.latencySamples.length - MAX_LATENCY_SAMPLES);
+            }
+
+            const bucketStart = Math.floor(recordedAt / METRICS_BUCKET_MS) * METRICS_BUCKET_MS;
+            let bucket = state.history[state.history.length - 1];
+            if (!bucket || bucket.startedAt < bucketStart) {
+                bucket = { startedAt: bucketStart, requests: 0, errors: 0, totalLatencyMs: 0 };
+                state.history.push(bucket);
+            }
+            bucket.requests += 1;
+            bucket.errors += isError ? 1 : 0;
+            bucket.totalLatencyMs += durationMs;
+
+            const oldestKept = bucketStart - (METRICS_HISTORY_BUCKETS - 1) * METRICS_BUCKET_MS;
+            state.history = state.history.filter((b) => b.startedAt >= oldestKept);
+        },
+        /** Counts an access token refresh triggered by a 401 */
+        tokenRefreshRecorded: (state, action: PayloadAction<{ succeeded: boolean }>) => {
+            state.tokenRefreshes += 1;
+            state.tokenRefreshFailures += action.payload.succeeded ? 0 : 1;
+        },
+        /** Counts a request sent again after the token was refreshed */
+        requestRetried: (state) => {
+            state.retriedRequests += 1;
+        },
+    },
+    selectors: {
+        selectMetrics: (state) => state,
+    },
+});
+
+export const { requestRecorded, tokenRefreshRecorded, requestRetried } = metricsSlice.actions;
+export const { selectMetrics } = metricsSlice.selectors;
+
+/**
+ * Gets a latency percentile using the nearest-rank method
+ * @param samples - Request durations in milliseconds, in any order
+ * @param percentile - Percentile between 0 and 100
+ * @returns Duration at the percentile, or null without samples
+ */
+export const getLatencyPercentile = (samples: number[], percentile: number): number | null => {
+    if (samples.length === 0) return null;
+    const sorted = [...samples].sort((a, b) => a - b);
+    const rank = Math.ceil((percentile / 100) * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+};
+
+/**
+ * Gets the p50, p95 and p99 latency of the recent requests
+ * @param samples - Request durations in milliseconds
+ */
+export const getLatencyPercentiles = (samples: number[]): LatencyPercentiles => ({
+    p50: getLatencyPercentile(samples, 50),
+    p95: getLatencyPercentile(samples, 95),
+    p99: getLatencyPercentile(samples, 99),
+});
+
+/**
+ * Gets the share of requests that failed
+ * @param state - Collected metrics
+ * @returns Percentage between 0 and 100, 0 before any request
+ */
+export const getErrorRate = (state: Pick<MetricsState, 'totalRequests' | 'failedRequests'>): number =>
+    state.totalRequests === 0 ? 0 : (state.failedRequests / state.totalRequests) * 100;
+
+/**
+ * Projects the request count to an hourly rate
+ * Under a minute of data is treated as a full minute so the first requests do not spike the rate
+ * @param state - Collected metrics
+ * @param now - Current epoch milliseconds
+ * @returns Requests per hour
+ */
+export const getRequestsPerHour = (state: Pick<MetricsState, 'totalRequests' | 'startedAt'>, now: number): number => {
+    if (state.startedAt === null || state.totalRequests === 0) return 0;
+    const elapsedMs = Math.max(60_000, now - state.startedAt);
+    return (state.totalRequests / elapsedMs) * 3_600_000;
+};
+
+/**
+ * Sorts counts from highest to lowest
+ * @param counts - Counts keyed by endpoint or status
+ * @param limit - Most entries returned
+ * @returns Key and count pairs
+ */
+export const getTopCounts = (counts: Record<string, number>, limit: number): [string, number][] =>
+    Object.entries(counts)
+        .sort(([keyA, a], [keyB, b]) => b - a || keyA.localeCompare(keyB))
+        .slice(0, limit);
+
+/**
+ * Expands the history to METRICS_HISTORY_BUCKETS consecutive buckets ending at the current one
+ * Idle intervals have no bucket in state, so they become zeros here
+ * @param history - Recorded buckets, oldest first
+ * @param now - Current epoch milliseconds
+ * @returns Requests, errors and average latency per bucket
+ */
+export const getMetricsSeries = (history: MetricsBucket[], now: number): MetricsSeries => {
+    const currentStart = Math.floor(now / METRICS_BUCKET_MS) * METRICS_BUCKET_MS;
+    const byStart = new Map(history.map((bucket) => [bucket.startedAt, bucket]));
+    const series: MetricsSeries = { requests: [], errors: [], latency: [] };
+
+    for (let i = METRICS_HISTORY_BUCKETS - 1; i >= 0; i--) {
+        const bucket = byStart.get(currentStart - i * METRICS_BUCKET_MS);
+        series.requests.push(bucket?.requests ?? 0);
+        series.errors.push(bucket?.errors ?? 0);
+        series.latency.push(bucket && bucket.requests > 0 ? Math.round(bucket.totalLatencyMs / bucket.requests) : 0);
+    }
+
+    return series;
+};
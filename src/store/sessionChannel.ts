@@ -0,0 +1,56 @@
+import type { SessionEndReason } from './authSlice';
+
+/** Name of the BroadcastChannel shared by every tab of the app */
+export const SESSION_CHANNEL_NAME = 'apexpay.session';
+
+export const SessionMessageTypeEnum = {
+    /** A tab ended the session; every other tab must end it too */
+    LOGGED_OUT: 'logged_out',
+    /** The user was active in a tab, which restarts the idle timer everywhere */
+    ACTIVITY: 'activity',
+} as const;
+
+/** Message exchanged between tabs about the shared session */
+export type SessionMessage =
+    | { type: typeof SessionMessageTypeEnum.LOGGED_OUT; reason: SessionEndReason }
+    | { type: typeof SessionMessageTypeEnum.ACTIVITY; at: number };
+
+/** Channel opened on first use; null where BroadcastChannel is unsupported */
+let channel: BroadcastChannel | null | undefined;
+
+/**
+ * Opens the session channel once per tab
+ * @returns The channel, or null when the browser has no BroadcastChannel
+ */
+const getChannel = (): BroadcastChannel | null => {
+    if (channel === undefined) {
+        channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(SESSION_CHANNEL_NAME);
+    }
+    return channel;
+};
+
+/**
+ * Sends a message to the other tabs; the sending tab does not receive it
+ * @param message - Message to send
+ */
+export const postSessionMessage = (message: SessionMessage): void => {
+    try {
+        getChannel()?.postMessage(message);
+    } catch {
+        // Channel closed or message rejected - other tabs catch up on their next request
+    }
+};
+
+/**
+ * Listens for messages from the other tabs
+ * @param listener - Called with each message received
+ * @returns Function that stops listening
+ */
+export const subscribeToSessionMessages = (listener: (message: SessionMessage) => void): (() => void) => {
+    const current = getChannel();
+    if (!current) return () => {};
+
+    const handleMessage = (event: MessageEvent<SessionMessage>) => listener(event.data);
+    current.addEventListener('message', handleMessage);
+    return () => current.removeEventListener('message', handleMessage);
+};
@@ -1,8 +1,12 @@
 import { configureStore } from '@reduxjs/toolkit';
 import { publicApi, protectedApi } from './api';
+import { authSlice, saveSessionFlag } from './authSlice';
+import { metricsSlice } from './metricsSlice';
 
 export const store = configureStore({
     reducer: {
+        [authSlice.reducerPath]: authSlice.reducer,
+        [metricsSlice.reducerPath]: metricsSlice.reducer,
         [publicApi.reducerPath]: publicApi.reducer,
         [protectedApi.reducerPath]: protectedApi.reducer,
     },
@@ -12,5 +16,15 @@ export const store = configureStore({
             .concat(protectedApi.middleware),
 });
 
+// Keep the persisted session flag in sync so reloads preserve the login state
+let lastIsAuthenticated = store.getState().auth.isAuthenticated;
+store.subscribe(() => {
+    const { isAuthenticated } = store.getState().auth;
+    if (isAuthenticated !== lastIsAuthenticated) {
+        lastIsAuthenticated = isAuthenticated;
+        saveSessionFlag(isAuthenticated);
+    }
+});
+
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { getApiErrorMessage, isExpiredTokenError, isNotFoundError, isRateLimitedError } from '../apiError';
+
+/**
+ * Property-based tests for API error helpers
+ *
+ * **Validates: Wallet details deep links**
+ * - 404 and 403 responses are both treated as not found
+ * - Other statuses, network errors and non-objects are not
+ * - Error messages prefer the error's own message, then the server's
+ *
+ * **Validates: Password reset and email verification**
+ * - 429 means rate limited and 410 means an expired link, nothing else does
+ */
+
+describe('API Error Property Tests', () => {
+    describe('isNotFoundError', () => {
+        it('should treat 404 and 403 as not found', () => {
+            expect(isNotFoundError({ status: 404, data: {} })).toBe(true);
+            expect(isNotFoundError({ status: 403, data: {} })).toBe(true);
+        });
+
+        it('should not treat any other status as not found', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 100, max: 599 }), (status) => {
+                    fc.pre(status !== 404 && status !== 403);
+                    expect(isNotFoundError({ status, data: {} })).toBe(false);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should not treat network errors or missing errors as not found', () => {
+            expect(isNotFoundError({ status: 'FETCH_ERROR', error: 'Failed to fetch' })).toBe(false);
+            expect(isNotFoundError(undefined)).toBe(false);
+            expect(isNotFoundError(null)).toBe(false);
+            expect(isNotFoundError(new Error('boom'))).toBe(false);
+        });
+    });
+
+    describe('getApiErrorMessage', () => {
+        it('should prefer the error message, then the server message, then the fallback', () => {
+            fc.assert(
+                fc.property(fc.string(), fc.string(), fc.string(), (own, server, fallback) => {
+                    expect(getApiErrorMessage(new Error(own), fallback)).toBe(own);
+                    expect(getApiErrorMessage({ status: 400, data: { message: server } }, fallback)).toBe(server);
+                    expect(getApiErrorMessage({ status: 500, data: {} }, fallback)).toBe(fallback);
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('isRateLimitedError and isExpiredTokenError', () => {
+        it('should match only their own status', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 100, max: 599 }), (status) => {
+                    expect(isRateLimitedError({ status, data: {} })).toBe(status === 429);
+                    expect(isExpiredTokenError({ status, data: {} })).toBe(status === 410);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should not match network errors or missing errors', () => {
+            [{ status: 'FETCH_ERROR', error: 'Failed to fetch' }, undefined, null, new Error('boom')].forEach((error) => {
+                expect(isRateLimitedError(error)).toBe(false);
+                expect(isExpiredTokenError(error)).toBe(false);
+            });
+        });
+    });
+});
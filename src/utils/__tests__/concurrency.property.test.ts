@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { mapWithConcurrency } from '../concurrency';
+
+/**
+ * Property-based tests for limited-concurrency mapping
+ *
+ * **Validates: Bulk transfer submission**
+ * - Every item is processed exactly once and results keep item order
+ * - No more than the limit of workers run at the same time
+ */
+
+describe('Concurrency Property Tests', () => {
+    it('should process every item once, in order, within the limit', async () => {
+        await fc.assert(
+            fc.asyncProperty(
+                fc.array(fc.nat(5), { maxLength: 30 }),
+                fc.integer({ min: 1, max: 8 }),
+                async (delays, limit) => {
+                    let active = 0;
+                    let maxActive = 0;
+                    const calls: number[] = [];
+
+                    const results = await mapWithConcurrency(delays, limit, async (delay, index) => {
+                        calls.push(index);
+                        active += 1;
+                        maxActive = Math.max(maxActive, active);
+                        await new Promise((resolve) => setTimeout(resolve, delay));
+                        active -= 1;
+                        return index * 2;
+                    });
+
+                    expect(results).toEqual(delays.map((_, index) => index * 2));
+                    expect([...calls].sort((a, b) => a - b)).toEqual(delays.map((_, index) => index));
+                    expect(maxActive).toBeLessThanOrEqual(limit);
+                }
+            ),
+            { numRuns: 30 }
+        );
+    });
+
+    it('should reject limits that are not positive integers', async () => {
+        for (const limit of [0, -1, 1.5]) {
+            await expect(mapWithConcurrency([1], limit, async (item) => item)).rejects.toThrow();
+        }
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+    formatMoney,
+    getAmountPlaceholder,
+    getAmountStep,
+    getCurrencyMinorUnits,
+    getCurrencySymbol,
+} from '../currency';
+import { CurrencyEnum } from '../../features/wallet/types';
+
+/**
+ * Property-based tests for currency helpers
+ *
+ * **Validates: Multi-currency money formatting**
+ * - Minor units follow ISO 4217 (JPY has none)
+ * - Formatted amounts keep the currency's precision and parse back to the rounded amount
+ * - Amount input step and placeholder agree with the minor units
+ */
+
+const currencyArbitrary = fc.constantFrom(...Object.values(CurrencyEnum));
+
+/**
+ * Strips symbol and grouping from a formatted amount
+ * @param formatted - Output of formatMoney
+ * @param currency - Currency it was formatted in
+ */
+const parseFormatted = (formatted: string, currency: string): number =>
+    Number(formatted.replace(getCurrencySymbol(currency), '').replace(/,/g, ''));
+
+describe('Currency Property Tests', () => {
+    describe('getCurrencyMinorUnits', () => {
+        it('should know the minor units of every supported currency', () => {
+            expect(getCurrencyMinorUnits(CurrencyEnum.SGD)).toBe(2);
+            expect(getCurrencyMinorUnits(CurrencyEnum.USD)).toBe(2);
+            expect(getCurrencyMinorUnits(CurrencyEnum.JPY)).toBe(0);
+        });
+
+        it('should fall back to 2 for unknown codes', () => {
+            expect(getCurrencyMinorUnits('NOT_A_CODE')).toBe(2);
+        });
+    });
+
+    describe('formatMoney', () => {
+        it('should round-trip to the amount rounded to the currency precision', () => {
+            fc.assert(
+                fc.property(currencyArbitrary, fc.integer({ min: -1_000_000_000, max: 1_000_000_000 }), (currency, cents) => {
+                    const amount = cents / 100;
+                    const minorUnits = getCurrencyMinorUnits(currency);
+                    const formatted = formatMoney(amount, currency);
+
+                    expect(formatted).toContain(getCurrencySymbol(currency));
+                    expect(formatted.split('.')[1]?.length ?? 0).toBe(minorUnits);
+                    expect(parseFormatted(formatted, currency)).toBeCloseTo(
+                        Number(amount.toFixed(minorUnits)),
+                        minorUnits
+                    );
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should group thousands and drop decimals for JPY', () => {
+            expect(formatMoney(1234.5, CurrencyEnum.SGD)).toBe('$1,234.50');
+            expect(formatMoney(1234, CurrencyEnum.JPY)).toBe('¥1,234');
+        });
+
+        it('should fall back to the code for unknown currencies', () => {
+            expect(formatMoney(12.5, 'NOT_A_CODE')).toBe('12.50 NOT_A_CODE');
+        });
+    });
+
+    describe('getAmountStep / getAmountPlaceholder', () => {
+        it('should match the currency precision', () => {
+            fc.assert(
+                fc.property(currencyArbitrary, (currency) => {
+                    const minorUnits = getCurrencyMinorUnits(currency);
+                    expect(Number(getAmountStep(currency))).toBe(10 ** -minorUnits);
+                    expect(getAmountPlaceholder(currency)).toBe((0).toFixed(minorUnits));
+                }),
+                { numRuns: 20 }
+            );
+        });
+    });
+});
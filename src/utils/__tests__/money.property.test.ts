@@ -0,0 +1,246 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+    addMoney,
+    allocateMoney,
+    compareMoney,
+    formatMoneyValue,
+    parseMoney,
+    roundToMinorUnits,
+    subtractMoney,
+    sumAmounts,
+    sumByCurrency,
+    sumMoney,
+    toDecimalString,
+    toMajorUnits,
+    toMoney,
+    zeroMoney,
+    type Money,
+} from '../money';
+import { formatMoney, getCurrencyMinorUnits } from '../currency';
+import { CurrencyEnum } from '../../features/wallet/types';
+
+/**
+ * Property-based tests for the Money value type
+ *
+ * **Validates: Integer minor-unit money arithmetic**
+ * - Decimal strings and major-unit numbers convert to exact integer minor units
+ * - Addition, subtraction and comparison behave like integer arithmetic
+ * - Sums are exact where float addition drifts (e.g., 0.1 + 0.2)
+ * - Mixing currencies is rejected
+ * - Allocated parts always add up to the amount and differ from their exact share by under one minor unit
+ */
+
+const currencyArbitrary = fc.constantFrom(...Object.values(CurrencyEnum));
+
+/** Minor-unit amounts well inside the safe integer range */
+const minorArbitrary = fc.integer({ min: -1_000_000_000_000, max: 1_000_000_000_000 });
+
+const moneyPairArbitrary = fc
+    .tuple(currencyArbitrary, minorArbitrary, minorArbitrary)
+    .map(([currency, a, b]): [Money, Money] => [{ minor: a, currency }, { minor: b, currency }]);
+
+describe('Money Property Tests', () => {
+    describe('parseMoney / toDecimalString', () => {
+        it('should round-trip any amount through its decimal string', () => {
+            fc.assert(
+                fc.property(currencyArbitrary, minorArbitrary, (currency, minor) => {
+                    const money: Money = { minor, currency };
+                    expect(parseMoney(toDecimalString(money), currency)).toEqual(money);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should always write exactly the currency minor units', () => {
+            fc.assert(
+                fc.property(currencyArbitrary, minorArbitrary, (currency, minor) => {
+                    const decimals = toDecimalString({ minor, currency }).split('.')[1]?.length ?? 0;
+                    expect(decimals).toBe(getCurrencyMinorUnits(currency));
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should accept up to the minor units and reject one more', () => {
+            fc.assert(
+                fc.property(currencyArbitrary, fc.nat(1_000_000), (currency, whole) => {
+                    const minorUnits = getCurrencyMinorUnits(currency);
+                    const allowed = minorUnits === 0 ? `${whole}` : `${whole}.${'5'.repeat(minorUnits)}`;
+
+                    expect(parseMoney(allowed, currency)).not.toBeNull();
+                    expect(parseMoney(`${whole}.${'5'.repeat(minorUnits + 1)}`, currency)).toBeNull();
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject malformed and unsafe input', () => {
+            ['', 'abc', '1e5', '1.2.3', '.5', '5.', '+5', 'NaN', 'Infinity', '99999999999999999'].forEach((value) => {
+                expect(parseMoney(value, CurrencyEnum.SGD)).toBeNull();
+            });
+        });
+    });
+
+    describe('toMoney', () => {
+        it('should convert two-decimal numbers to the exact cent count', () => {
+            fc.assert(
+                fc.property(minorArbitrary, (cents) => {
+                    expect(toMoney(cents / 100, CurrencyEnum.SGD).minor).toBe(cents);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should round to whole yen and never produce -0', () => {
+            expect(toMoney(1234.5, CurrencyEnum.JPY).minor).toBe(1235);
+            expect(toMoney(-1234.5, CurrencyEnum.JPY).minor).toBe(-1235);
+            expect(Object.is(toMoney(-0.001, CurrencyEnum.SGD).minor, 0)).toBe(true);
+        });
+
+        it('should agree with toMajorUnits', () => {
+            fc.assert(
+                fc.property(currencyArbitrary, minorArbitrary, (currency, minor) => {
+                    const money: Money = { minor, currency };
+                    expect(toMoney(toMajorUnits(money), currency)).toEqual(money);
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('arithmetic', () => {
+        it('should add and subtract like integers', () => {
+            fc.assert(
+                fc.property(moneyPairArbitrary, ([a, b]) => {
+                    expect(addMoney(a, b).minor).toBe(a.minor + b.minor);
+                    expect(subtractMoney(addMoney(a, b), b)).toEqual(a);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should compare consistently with subtraction', () => {
+            fc.assert(
+                fc.property(moneyPairArbitrary, ([a, b]) => {
+                    expect(compareMoney(a, b)).toBe(Math.sign(subtractMoney(a, b).minor));
+                    expect(compareMoney(a, b)).toBe(-compareMoney(b, a) || 0);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should sum to zero for no values and be order independent', () => {
+            fc.assert(
+                fc.property(currencyArbitrary, fc.array(minorArbitrary, { maxLength: 20 }), (currency, minors) => {
+                    const values = minors.map((minor): Money => ({ minor, currency }));
+                    const total = sumMoney(values, currency);
+
+                    expect(total).toEqual(sumMoney([...values].reverse(), currency));
+                    expect(total.minor).toBe(minors.reduce((sum, minor) => sum + minor, 0));
+                }),
+                { numRuns: 100 }
+            );
+            expect(sumMoney([], CurrencyEnum.SGD)).toEqual(zeroMoney(CurrencyEnum.SGD));
+        });
+
+        it('should sum major-unit amounts without float drift', () => {
+            expect(0.1 + 0.2).not.toBe(0.3);
+            expect(sumAmounts([0.1, 0.2], CurrencyEnum.SGD)).toBe(0.3);
+
+            fc.assert(
+                fc.property(fc.array(fc.integer({ min: 0, max: 10_000_000 }), { maxLength: 20 }), (cents) => {
+                    const total = sumAmounts(cents.map((c) => c / 100), CurrencyEnum.SGD);
+                    expect(total).toBe(cents.reduce((sum, c) => sum + c, 0) / 100);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should total each currency separately', () => {
+            fc.assert(
+                fc.property(
+                    fc.array(fc.record({ currency: currencyArbitrary, minor: minorArbitrary }), { maxLength: 20 }),
+                    (items) => {
+                        const totals = sumByCurrency(items.map(({ currency, minor }) => ({
+                            amount: toMajorUnits({ minor, currency }),
+                            currency,
+                        })));
+
+                        expect(totals.map((total) => total.currency)).toEqual([...new Set(items.map((item) => item.currency))]);
+                        totals.forEach((total) => {
+                            const minors = items.filter((item) => item.currency === total.currency).map((item) => item.minor);
+                            expect(total.minor).toBe(minors.reduce((sum, minor) => sum + minor, 0));
+                        });
+                    }
+                ),
+                { numRuns: 100 }
+            );
+            expect(sumByCurrency([])).toEqual([]);
+        });
+
+        it('should reject mixing currencies', () => {
+            const sgd = toMoney(1, CurrencyEnum.SGD);
+            const usd = toMoney(1, CurrencyEnum.USD);
+
+            expect(() => addMoney(sgd, usd)).toThrow();
+            expect(() => subtractMoney(sgd, usd)).toThrow();
+            expect(() => compareMoney(sgd, usd)).toThrow();
+        });
+    });
+
+    describe('allocateMoney', () => {
+        it('should split into parts that add up exactly and stay within one unit of the exact share', () => {
+            fc.assert(
+                fc.property(
+                    currencyArbitrary,
+                    fc.integer({ min: 0, max: 10_000_000_000 }),
+                    fc.array(fc.integer({ min: 0, max: 10_000 }), { minLength: 1, maxLength: 20 }),
+                    (currency, minor, weights) => {
+                        fc.pre(weights.some((weight) => weight > 0));
+                        const total: Money = { minor, currency };
+                        const parts = allocateMoney(total, weights);
+                        const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+
+                        expect(sumMoney(parts, currency)).toEqual(total);
+                        parts.forEach((part, index) => {
+                            expect(Math.abs(part.minor - (minor * weights[index]) / weightSum)).toBeLessThan(1);
+                            if (weights[index] === 0) expect(part.minor).toBe(0);
+                        });
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should give leftover units to the earliest parts on ties', () => {
+            const parts = allocateMoney(toMoney(100, CurrencyEnum.SGD), [1, 1, 1]);
+            expect(parts.map((part) => part.minor)).toEqual([3334, 3333, 3333]);
+        });
+
+        it('should reject weights that cannot be split by', () => {
+            const total = toMoney(10, CurrencyEnum.SGD);
+            expect(() => allocateMoney(total, [])).toThrow();
+            expect(() => allocateMoney(total, [0, 0])).toThrow();
+            expect(() => allocateMoney(total, [1, -1])).toThrow();
+            expect(() => allocateMoney(total, [0.5, 1])).toThrow();
+        });
+    });
+
+    describe('formatting', () => {
+        it('should format the same as the major-unit formatter', () => {
+            fc.assert(
+                fc.property(currencyArbitrary, minorArbitrary, (currency, minor) => {
+                    const money: Money = { minor, currency };
+                    expect(formatMoneyValue(money)).toBe(formatMoney(toMajorUnits(money), currency));
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should remove float noise from API values', () => {
+            expect(roundToMinorUnits(0.1 + 0.2, CurrencyEnum.SGD)).toBe(0.3);
+            expect(roundToMinorUnits(1234.5, CurrencyEnum.JPY)).toBe(1235);
+        });
+    });
+});
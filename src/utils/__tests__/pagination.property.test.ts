@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { getPageItems, getTotalPages, PAGE_ELLIPSIS } from '../pagination';
+
+/**
+ * Property-based tests for pagination helpers
+ *
+ * **Validates: Transaction history pagination**
+ * - Page count covers every item
+ * - Page items always include first, last and current page in ascending order
+ */
+
+const pageArbitrary = fc
+    .integer({ min: 1, max: 500 })
+    .chain((totalPages) => fc.tuple(fc.integer({ min: 1, max: totalPages }), fc.constant(totalPages)));
+
+describe('Pagination Property Tests', () => {
+    describe('getTotalPages', () => {
+        it('should return the smallest page count that fits every item', () => {
+            fc.assert(
+                fc.property(fc.nat(100_000), fc.integer({ min: 1, max: 100 }), (totalCount, pageSize) => {
+                    const pages = getTotalPages(totalCount, pageSize);
+                    expect(pages).toBeGreaterThanOrEqual(1);
+                    expect(pages * pageSize).toBeGreaterThanOrEqual(totalCount);
+                    if (totalCount > 0) {
+                        expect((pages - 1) * pageSize).toBeLessThan(totalCount);
+                    }
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('getPageItems', () => {
+        it('should include first, last and current page in strictly ascending order', () => {
+            fc.assert(
+                fc.property(pageArbitrary, ([currentPage, totalPages]) => {
+                    const items = getPageItems(currentPage, totalPages);
+                    const pages = items.filter((item): item is number => item !== PAGE_ELLIPSIS);
+
+                    expect(pages[0]).toBe(1);
+                    expect(pages[pages.length - 1]).toBe(totalPages);
+                    expect(pages).toContain(currentPage);
+                    pages.slice(1).forEach((page, index) => expect(page).toBeGreaterThan(pages[index]));
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should only use an ellipsis where at least two pages are hidden', () => {
+            fc.assert(
+                fc.property(pageArbitrary, ([currentPage, totalPages]) => {
+                    const items = getPageItems(currentPage, totalPages);
+
+                    items.forEach((item, index) => {
+                        if (item !== PAGE_ELLIPSIS) return;
+                        const before = items[index - 1] as number;
+                        const after = items[index + 1] as number;
+                        expect(after - before).toBeGreaterThan(2);
+                    });
+                    // Adjacent numbered items with no ellipsis must be consecutive
+                    items.forEach((item, index) => {
+                        const next = items[index + 1];
+                        if (item !== PAGE_ELLIPSIS && next !== undefined && next !== PAGE_ELLIPSIS) {
+                            expect(next).toBe(item + 1);
+                        }
+                    });
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should show the current page siblings', () => {
+            expect(getPageItems(6, 12)).toEqual([1, PAGE_ELLIPSIS, 5, 6, 7, PAGE_ELLIPSIS, 12]);
+            expect(getPageItems(1, 1)).toEqual([1]);
+            expect(getPageItems(3, 5)).toEqual([1, 2, 3, 4, 5]);
+        });
+    });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { parsePercentage, splitTotal } from '../splitBill';
+import { addMoney, parseMoney, sumMoney, toDecimalString, type Money } from '../money';
+import { CurrencyEnum } from '../../features/wallet/types';
+
+/**
+ * Property-based tests for splitting a bill
+ *
+ * **Validates: Split bills**
+ * - Shares and the user's own share always add up to exactly the total
+ * - Equal shares differ by at most one minor unit, with the user absorbing rounding
+ * - Percentages and custom amounts must cover the whole bill unless the user pays the rest
+ */
+
+const currencyArbitrary = fc.constantFrom(...Object.values(CurrencyEnum));
+
+const totalArbitrary = fc
+    .tuple(currencyArbitrary, fc.integer({ min: 0, max: 100_000_000 }))
+    .map(([currency, minor]): Money => ({ minor, currency }));
+
+/** Formats basis points as a percentage string, e.g. 1250 -> "12.5" */
+const toPercentString = (basisPoints: number): string => (basisPoints / 100).toString();
+
+/**
+ * Checks that a split accounts for the whole total
+ * @param total - Bill total
+ * @param shares - Participant shares
+ * @param ownShare - The user's share
+ */
+const expectExactSplit = (total: Money, shares: Money[], ownShare: Money) => {
+    expect(addMoney(sumMoney(shares, total.currency), ownShare)).toEqual(total);
+};
+
+describe('Split Bill Property Tests', () => {
+    describe('parsePercentage', () => {
+        it('should read whole and two-decimal percentages as basis points', () => {
+            fc.assert(
+                fc.property(fc.integer({ min: 0, max: 10_000 }), (basisPoints) => {
+                    expect(parsePercentage(toPercentString(basisPoints))).toBe(basisPoints);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject values above 100, negative or with more than two decimals', () => {
+            ['100.01', '150', '-5', '12.345', '', 'abc', '1e2'].forEach((value) => {
+                expect(parsePercentage(value)).toBeNull();
+            });
+        });
+    });
+
+    describe('EQUAL', () => {
+        it('should give everyone the same share give or take one unit, never more for the user', () => {
+            fc.assert(
+                fc.property(totalArbitrary, fc.integer({ min: 1, max: 20 }), fc.boolean(), (total, count, includeSelf) => {
+                    const result = splitTotal(total, 'EQUAL', Array(count).fill(''), includeSelf);
+                    expect(result).not.toBeNull();
+                    const { shares, ownShare } = result!;
+
+                    expect(shares).toHaveLength(count);
+                    expectExactSplit(total, shares, ownShare);
+
+                    const minors = shares.map((share) => share.minor);
+                    expect(Math.max(...minors) - Math.min(...minors)).toBeLessThanOrEqual(1);
+                    if (includeSelf) {
+                        expect(ownShare.minor).toBeLessThanOrEqual(Math.min(...minors));
+                        expect(Math.min(...minors) - ownShare.minor).toBeLessThanOrEqual(1);
+                    } else {
+                        expect(ownShare.minor).toBe(0);
+                    }
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    describe('PERCENTAGE', () => {
+        it('should add up exactly when the percentages cover the bill', () => {
+            fc.assert(
+                fc.property(
+                    totalArbitrary,
+                    fc.array(fc.integer({ min: 0, max: 10_000 }), { minLength: 1, maxLength: 10 }),
+                    (total, weights) => {
+                        fc.pre(weights.some((weight) => weight > 0));
+                        // Scale the weights to basis points that sum to exactly 100%
+                        const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+                        const basisPoints = weights.map((weight) => Math.floor((weight * 10_000) / weightSum));
+                        basisPoints[0] += 10_000 - basisPoints.reduce((sum, points) => sum + points, 0);
+
+                        const result = splitTotal(total, 'PERCENTAGE', basisPoints.map(toPercentString), false);
+                        expect(result).not.toBeNull();
+                        expectExactSplit(total, result!.shares, result!.ownShare);
+                        expect(result!.ownShare.minor).toBe(0);
+                        result!.shares.forEach((share, index) => {
+                            expect(Math.abs(share.minor - (total.minor * basisPoints[index]) / 10_000)).toBeLessThan(1);
+                        });
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should leave the uncovered percentage to the user only when they take part', () => {
+            fc.assert(
+                fc.property(totalArbitrary, fc.integer({ min: 0, max: 9_999 }), (total, basisPoints) => {
+                    const values = [toPercentString(basisPoints)];
+                    expect(splitTotal(total, 'PERCENTAGE', values, false)).toBeNull();
+
+                    const result = splitTotal(total, 'PERCENTAGE', values, true);
+                    expect(result).not.toBeNull();
+                    expectExactSplit(total, result!.shares, result!.ownShare);
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject percentages over 100% in total', () => {
+            const total: Money = { minor: 10_000, currency: CurrencyEnum.SGD };
+            expect(splitTotal(total, 'PERCENTAGE', ['60', '40.01'], true)).toBeNull();
+        });
+    });
+
+    describe('CUSTOM', () => {
+        it('should keep the entered amounts and leave the rest to the user', () => {
+            fc.assert(
+                fc.property(
+                    currencyArbitrary,
+                    fc.array(fc.integer({ min: 0, max: 1_000_000 }), { minLength: 1, maxLength: 10 }),
+                    fc.nat(1_000_000),
+                    (currency, minors, extra) => {
+                        const amounts = minors.map((minor): Money => ({ minor, currency }));
+                        const total = addMoney(sumMoney(amounts, currency), { minor: extra, currency });
+                        const values = amounts.map(toDecimalString);
+
+                        const result = splitTotal(total, 'CUSTOM', values, true);
+                        expect(result).not.toBeNull();
+                        expect(result!.shares).toEqual(values.map((value) => parseMoney(value, currency)));
+                        expect(result!.ownShare.minor).toBe(extra);
+
+                        expect(splitTotal(total, 'CUSTOM', values, false) === null).toBe(extra !== 0);
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject amounts over the total, negative or malformed', () => {
+            const total: Money = { minor: 10_000, currency: CurrencyEnum.SGD };
+            expect(splitTotal(total, 'CUSTOM', ['60', '40.01'], true)).toBeNull();
+            expect(splitTotal(total, 'CUSTOM', ['-5', '105'], false)).toBeNull();
+            expect(splitTotal(total, 'CUSTOM', ['50.001', '50'], false)).toBeNull();
+        });
+    });
+
+    it('should reject a split with no participants', () => {
+        expect(splitTotal({ minor: 100, currency: CurrencyEnum.SGD }, 'EQUAL', [], true)).toBeNull();
+    });
+});
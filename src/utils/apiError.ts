@@ -0,0 +1,43 @@
+/**
+ * Extracts a readable message from an RTK Query or runtime error
+ * @param error - Caught error
+ * @param fallback - Message to use when the error carries none
+ * @returns The error's own message, the server's message, or the fallback
+ */
+export const getApiErrorMessage = (error: unknown, fallback: string): string =>
+    error instanceof Error
+        ? error.message
+        : (error as { data?: { message?: string } })?.data?.message ?? fallback;
+
+/**
+ * Reads the HTTP status of an RTK Query error
+ * @param error - Caught error
+ * @returns The status, or undefined for non-HTTP errors
+ */
+const getErrorStatus = (error: unknown): unknown => (error as { status?: unknown } | undefined)?.status;
+
+/**
+ * Checks whether an RTK Query error means the resource is missing or not the user's
+ * Ownership failures are treated as missing so other users' IDs are not confirmed to exist
+ * @param error - Error from a query or mutation
+ * @returns True for HTTP 404 and 403 responses
+ */
+export const isNotFoundError = (error: unknown): boolean => {
+    const status = getErrorStatus(error);
+    return status === 404 || status === 403;
+};
+
+/**
+ * Checks whether the server refused a request because too many were made recently
+ * @param error - Error from a query or mutation
+ * @returns True for HTTP 429 responses
+ */
+export const isRateLimitedError = (error: unknown): boolean => getErrorStatus(error) === 429;
+
+/**
+ * Checks whether an emailed link's token has expired
+ * The server answers 410 Gone for tokens it issued that are past their lifetime
+ * @param error - Error from a query or mutation
+ * @returns True for HTTP 410 responses
+ */
+export const isExpiredTokenError = (error: unknown): boolean => getErrorStatus(error) === 410;
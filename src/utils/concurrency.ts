@@ -0,0 +1,33 @@
+/**
+ * Maps items through an async worker with at most `limit` calls in flight
+ * Results keep the order of the items regardless of completion order
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent worker calls
+ * @param worker - Async function run for each item
+ * @returns Worker results, one per item
+ * @throws Error if the limit is not a positive integer; rejects if any worker rejects
+ */
+export const mapWithConcurrency = async <T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error('Concurrency limit must be a positive integer');
+    }
+
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+
+    // Each lane takes the next unclaimed item until none are left
+    const runLane = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await worker(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runLane));
+    return results;
+};
@@ -0,0 +1,88 @@
+/** Currency used when none is specified */
+export const DEFAULT_CURRENCY = 'SGD';
+
+/** Locale used for money formatting (matches the date formatters) */
+const MONEY_LOCALE = 'en-US';
+
+/** Minor units assumed for codes that Intl does not recognise */
+const FALLBACK_MINOR_UNITS = 2;
+
+/** Cached formatters keyed by currency code - Intl.NumberFormat construction is expensive */
+const formatterCache = new Map<string, Intl.NumberFormat | null>();
+
+/**
+ * Returns a cached currency formatter, or null for codes Intl rejects
+ * @param currency - ISO 4217 currency code
+ */
+const getFormatter = (currency: string): Intl.NumberFormat | null => {
+    if (!formatterCache.has(currency)) {
+        try {
+            formatterCache.set(currency, new Intl.NumberFormat(MONEY_LOCALE, {
+                style: 'currency',
+                currency,
+                currencyDisplay: 'narrowSymbol',
+            }));
+        } catch {
+            formatterCache.set(currency, null);
+        }
+    }
+    return formatterCache.get(currency) ?? null;
+};
+
+/**
+ * Returns the number of minor-unit digits for a currency (e.g., 2 for SGD, 0 for JPY)
+ * @param currency - ISO 4217 currency code
+ * @returns Number of decimal places
+ */
+export const getCurrencyMinorUnits = (currency: string): number =>
+    getFormatter(currency)?.resolvedOptions().maximumFractionDigits ?? FALLBACK_MINOR_UNITS;
+
+/**
+ * Returns the display symbol for a currency (e.g., "$" for SGD, "¥" for JPY)
+ * Falls back to the code itself for unknown currencies
+ * @param currency - ISO 4217 currency code
+ * @returns Currency symbol
+ */
+export const getCurrencySymbol = (currency: string): string =>
+    getFormatter(currency)?.formatToParts(0).find((part) => part.type === 'currency')?.value ?? currency;
+
+/**
+ * Formats an amount as money with the currency's symbol, grouping and minor units
+ * @param amount - Amount in major units
+ * @param currency - ISO 4217 currency code
+ * @returns Formatted amount (e.g., "$1,234.50", "¥1,235", "-€12.00")
+ */
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY): string => {
+    const formatter = getFormatter(currency);
+    if (!formatter) {
+        return `${amount.toFixed(FALLBACK_MINOR_UNITS)} ${currency}`;
+    }
+    return formatter.format(amount);
+};
+
+/**
+ * Returns the step attribute for an amount input in this currency (e.g., "0.01" or "1")
+ * @param currency - ISO 4217 currency code
+ */
+export const getAmountStep = (currency: string): string => {
+    const minorUnits = getCurrencyMinorUnits(currency);
+    return minorUnits === 0 ? '1' : `0.${'0'.repeat(minorUnits - 1)}1`;
+};
+
+/**
+ * Returns a zero-valued placeholder with the currency's precision (e.g., "0.00" or "0")
+ * @param currency - ISO 4217 currency code
+ */
+export const getAmountPlaceholder = (currency: string): string =>
+    (0).toFixed(getCurrencyMinorUnits(currency));
+
+/**
+ * Builds the validation message for an amount with too many decimal places
+ * @param currency - ISO 4217 currency code
+ */
+export const getMinorUnitsMessage = (currency: string): string => {
+    const minorUnits = getCurrencyMinorUnits(currency);
+    return minorUnits === 0
+        ? `${currency} amounts must be whole numbers`
+        : `Amount must have at most ${minorUnits} decimal places`;
+};
@@ -0,0 +1,21 @@
+/** Request header carrying the idempotency key of a money-moving mutation */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/** Response header the server sets to "true" when it returned the result of an earlier request with the same key */
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Creates a key that lets the server recognise a repeated request
+ * Generate one per submission and reuse it for every retry of that submission,
+ * so a request that succeeded but whose response was lost is not applied twice
+ * @returns Random UUID
+ */
+export const createIdempotencyKey = (): string => crypto.randomUUID();
+
+/**
+ * Checks whether a response is a replay of an earlier request rather than a new one
+ * @param response - Raw fetch response, if any
+ * @returns True if nothing new happened on the server
+ */
+export const isReplayedResponse = (response: Response | undefined): boolean =>
+    response?.headers.get(IDEMPOTENT_REPLAYED_HEADER)?.toLowerCase() === 'true';
@@ -0,0 +1,216 @@
+import { formatMoney, getCurrencyMinorUnits } from './currency';
+
+/**
+ * An exact money amount.
+ * Stored as an integer count of the currency's minor units (e.g., cents) so that
+ * arithmetic never accumulates floating-point error.
+ */
+export interface Money {
+    /** Amount in minor units (always a safe integer) */
+    readonly minor: number;
+    /** ISO 4217 currency code */
+    readonly currency: string;
+}
+
+/** Matches a plain decimal string, e.g. "12", "-0.5", "1234.56" */
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+/**
+ * Returns the number of minor units in one major unit (e.g., 100 for SGD, 1 for JPY)
+ * @param currency - ISO 4217 currency code
+ */
+const getMinorFactor = (currency: string): number => 10 ** getCurrencyMinorUnits(currency);
+
+/**
+ * Builds a Money value, normalising -0 to 0
+ * @param minor - Integer amount in minor units
+ * @param currency - ISO 4217 currency code
+ */
+const createMoney = (minor: number, currency: string): Money => ({ minor: minor || 0, currency });
+
+/**
+ * Throws if two Money values are in different currencies
+ * @param a - First value
+ * @param b - Second value
+ */
+const assertSameCurrency = (a: Money, b: Money): void => {
+    if (a.currency !== b.currency) {
+        throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+    }
+};
+
+/**
+ * Creates a zero amount in a currency
+ * @param currency - ISO 4217 currency code
+ */
+export const zeroMoney = (currency: string): Money => createMoney(0, currency);
+
+/**
+ * Converts a major-unit number (as sent by the API) into Money
+ * Rounds half away from zero to the currency's minor units
+ * @param amount - Amount in major units (e.g., 12.5)
+ * @param currency - ISO 4217 currency code
+ * @returns Money value (e.g., { minor: 1250, currency: 'SGD' })
+ */
+export const toMoney = (amount: number, currency: string): Money =>
+    createMoney(Math.sign(amount) * Math.round(Math.abs(amount) * getMinorFactor(currency)), currency);
+
+/**
+ * Parses a decimal string (e.g., form input) into Money without going through floats
+ * @param value - Decimal string such as "12.50"
+ * @param currency - ISO 4217 currency code
+ * @returns Money value, or null if the string is malformed, too large or more precise than the currency allows
+ */
+export const parseMoney = (value: string, currency: string): Money | null => {
+    const match = DECIMAL_PATTERN.exec(value.trim());
+    if (!match) return null;
+
+    const [, sign, whole, fraction = ''] = match;
+    const minorUnits = getCurrencyMinorUnits(currency);
+    if (fraction.length > minorUnits) return null;
+
+    const minor = Number(`${whole}${fraction.padEnd(minorUnits, '0')}`);
+    if (!Number.isSafeInteger(minor)) return null;
+
+    return createMoney(sign ? -minor : minor, currency);
+};
+
+/**
+ * Converts Money back to a major-unit number (e.g., for API request bodies)
+ * @param money - Money value
+ * @returns Amount in major units
+ */
+export const toMajorUnits = (money: Money): number => money.minor / getMinorFactor(money.currency);
+
+/**
+ * Rounds a major-unit number to the currency's minor units
+ * Removes float noise such as 0.30000000000000004 from API values
+ * @param amount - Amount in major units
+ * @param currency - ISO 4217 currency code
+ */
+export const roundToMinorUnits = (amount: number, currency: string): number =>
+    toMajorUnits(toMoney(amount, currency));
+
+/**
+ * Adds two amounts in the same currency
+ * @param a - First amount
+ * @param b - Second amount
+ * @throws Error if the currencies differ
+ */
+export const addMoney = (a: Money, b: Money): Money => {
+    assertSameCurrency(a, b);
+    return createMoney(a.minor + b.minor, a.currency);
+};
+
+/**
+ * Subtracts b from a (same currency)
+ * @param a - First amount
+ * @param b - Second amount
+ * @throws Error if the currencies differ
+ */
+export const subtractMoney = (a: Money, b: Money): Money => {
+    assertSameCurrency(a, b);
+    return createMoney(a.minor - b.minor, a.currency);
+};
+
+/**
+ * Sums amounts in a single currency
+ * @param values - Amounts to add
+ * @param currency - Currency of the result (used when values is empty)
+ * @throws Error if any value is in another currency
+ */
+export const sumMoney = (values: Money[], currency: string): Money =>
+    values.reduce(addMoney, zeroMoney(currency));
+
+/**
+ * Adds major-unit amounts exactly by summing them in minor units
+ * @param amounts - Amounts in major units
+ * @param currency - Currency whose minor units the amounts are rounded to
+ * @returns Total in major units
+ */
+export const sumAmounts = (amounts: number[], currency: string): number =>
+    toMajorUnits(sumMoney(amounts.map((amount) => toMoney(amount, currency)), currency));
+
+/**
+ * Totals major-unit amounts per currency; amounts in different currencies are never added together
+ * @param items - Amounts in major units with their currency, such as wallet balances
+ * @returns One total per currency, in the order each currency first appears
+ */
+export const sumByCurrency = (items: { amount: number; currency: string }[]): Money[] => {
+    const totals = new Map<string, Money>();
+    items.forEach(({ amount, currency }) => {
+        totals.set(currency, addMoney(totals.get(currency) ?? zeroMoney(currency), toMoney(amount, currency)));
+    });
+    return [...totals.values()];
+};
+
+/**
+ * Splits an amount into parts proportional to integer weights
+ * Each part is rounded down to whole minor units and the leftover units go one
+ * each to the parts with the largest remainders (earlier parts win ties), so the
+ * parts always add up exactly to the amount
+ *
+ * @param total - Non-negative amount to split
+ * @param weights - Non-negative integer weights, at least one positive
+ * @returns One part per weight, in the same currency
+ * @throws Error if the weights are empty, negative, not integers or all zero
+ */
+export const allocateMoney = (total: Money, weights: number[]): Money[] => {
+    const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+    if (weights.some((weight) => !Number.isSafeInteger(weight) || weight < 0) || weightSum <= 0) {
+        throw new Error('Weights must be non-negative integers with a positive sum');
+    }
+
+    const parts = weights.map((weight) => ({
+        minor: Math.floor((total.minor * weight) / weightSum),
+        remainder: (total.minor * weight) % weightSum,
+    }));
+    let leftover = total.minor - parts.reduce((sum, part) => sum + part.minor, 0);
+
+    parts
+        .map((part, index) => ({ index, remainder: part.remainder }))
+        .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+        .forEach(({ index }) => {
+            if (leftover > 0) {
+                parts[index].minor += 1;
+                leftover -= 1;
+            }
+        });
+
+    return parts.map((part) => createMoney(part.minor, total.currency));
+};
+
+/**
+ * Compares two amounts in the same currency
+ * @param a - First amount
+ * @param b - Second amount
+ * @returns Negative if a < b, 0 if equal, positive if a > b
+ * @throws Error if the currencies differ
+ */
+export const compareMoney = (a: Money, b: Money): number => {
+    assertSameCurrency(a, b);
+    return Math.sign(a.minor - b.minor);
+};
+
+/**
+ * Formats Money with its currency's symbol, grouping and minor units
+ * @param money - Money value
+ * @returns Formatted amount (e.g., "$1,234.50")
+ */
+export const formatMoneyValue = (money: Money): string =>
+    formatMoney(toMajorUnits(money), money.currency);
+
+/**
+ * Writes Money as a plain decimal string with exactly the currency's minor units
+ * Built from the integer amount, so it is locale-independent and never shows float noise
+ * @param money - Money value
+ * @returns Decimal string (e.g., "-1234.50", "1235" for JPY)
+ */
+export const toDecimalString = (money: Money): string => {
+    const minorUnits = getCurrencyMinorUnits(money.currency);
+    const digits = Math.abs(money.minor).toString().padStart(minorUnits + 1, '0');
+    const whole = digits.slice(0, digits.length - minorUnits);
+    const fraction = digits.slice(digits.length - minorUnits);
+    const sign = money.minor < 0 ? '-' : '';
+    return minorUnits === 0 ? `${sign}${whole}` : `${sign}${whole}.${fraction}`;
+};
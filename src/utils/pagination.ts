@@ -0,0 +1,46 @@
+/** Marker for a collapsed run of page numbers */
+export const PAGE_ELLIPSIS = 'ellipsis' as const;
+
+export type PageItem = number | typeof PAGE_ELLIPSIS;
+
+/**
+ * Computes the number of pages needed to show every item
+ * @param totalCount - Total number of items
+ * @param pageSize - Items per page
+ * @returns Page count (at least 1)
+ */
+export const getTotalPages = (totalCount: number, pageSize: number): number =>
+    Math.max(1, Math.ceil(totalCount / pageSize));
+
+/**
+ * Builds the list of page buttons to show, collapsing distant pages into ellipses.
+ * The first and last page are always shown, plus `siblingCount` pages either side of the current one.
+ * @param currentPage - Current page (1-based)
+ * @param totalPages - Total number of pages
+ * @param siblingCount - Pages shown either side of the current page
+ * @returns Page numbers in ascending order with ellipsis markers for gaps
+ * @example
+ * getPageItems(6, 12) // [1, 'ellipsis', 5, 6, 7, 'ellipsis', 12]
+ */
+export const getPageItems = (currentPage: number, totalPages: number, siblingCount = 1): PageItem[] => {
+    const current = Math.min(Math.max(1, currentPage), totalPages);
+    const start = Math.max(1, current - siblingCount);
+    const end = Math.min(totalPages, current + siblingCount);
+
+    const pages = new Set<number>([1, totalPages]);
+    for (let page = start; page <= end; page++) pages.add(page);
+
+    const items: PageItem[] = [];
+    let previous = 0;
+    Array.from(pages).sort((a, b) => a - b).forEach((page) => {
+        if (page - previous === 2) {
+            // A gap of a single page is cheaper to show than an ellipsis
+            items.push(previous + 1);
+        } else if (page - previous > 2) {
+            items.push(PAGE_ELLIPSIS);
+        }
+        items.push(page);
+        previous = page;
+    });
+    return items;
+};
@@ -0,0 +1,85 @@
+import { allocateMoney, parseMoney, subtractMoney, sumMoney, zeroMoney, type Money } from './money';
+
+/** Ways a bill can be split; matches the API's split method values */
+export const SPLIT_METHODS = ['EQUAL', 'PERCENTAGE', 'CUSTOM'] as const;
+
+export type SplitMethod = (typeof SPLIT_METHODS)[number];
+
+/** Whole bill in basis points (100%) */
+const FULL_BASIS_POINTS = 10_000;
+
+/** Matches a percentage with at most two decimal places, e.g. "25" or "33.33" */
+const PERCENTAGE_PATTERN = /^\d+(?:\.\d{1,2})?$/;
+
+/** A bill divided between participants */
+export interface SplitResult {
+    /** Each participant's share, in the order the participants were given */
+    shares: Money[];
+    /** What is left for the user to cover themselves */
+    ownShare: Money;
+}
+
+/**
+ * Parses a percentage string into integer basis points without going through floats
+ * @param value - Percentage such as "12.5"
+ * @returns Basis points (e.g., 1250), or null if not a percentage between 0 and 100
+ *          with at most two decimal places
+ */
+export const parsePercentage = (value: string): number | null => {
+    const trimmed = value.trim();
+    if (!PERCENTAGE_PATTERN.test(trimmed)) return null;
+
+    const [whole, fraction = ''] = trimmed.split('.');
+    const basisPoints = Number(whole) * 100 + Number(fraction.padEnd(2, '0'));
+    return basisPoints <= FULL_BASIS_POINTS ? basisPoints : null;
+};
+
+/**
+ * Divides a bill between participants
+ * Rounding is settled with {@link allocateMoney}, so the shares and the user's own
+ * share always add up to exactly the total. When the user takes part, their share
+ * is whatever the participants do not cover; otherwise that must be nothing.
+ *
+ * @param total - Bill total
+ * @param method - How to split the total
+ * @param values - Per participant: percentages for PERCENTAGE, amounts for CUSTOM, ignored for EQUAL
+ * @param includeSelf - Whether the user pays a share too
+ * @returns The shares, or null if the values cannot be parsed or do not split the total
+ */
+export const splitTotal = (
+    total: Money,
+    method: SplitMethod,
+    values: string[],
+    includeSelf: boolean
+): SplitResult | null => {
+    if (values.length === 0) return null;
+    const zero = zeroMoney(total.currency);
+
+    if (method === 'EQUAL') {
+        // The user's part goes last so any leftover minor units are asked of participants
+        const parts = allocateMoney(total, Array(values.length + (includeSelf ? 1 : 0)).fill(1));
+        return includeSelf
+            ? { shares: parts.slice(0, -1), ownShare: parts[parts.length - 1] }
+            : { shares: parts, ownShare: zero };
+    }
+
+    if (method === 'PERCENTAGE') {
+        const basisPoints = values.map(parsePercentage);
+        if (basisPoints.some((points) => points === null)) return null;
+
+        const rest = FULL_BASIS_POINTS - (basisPoints as number[]).reduce((sum, points) => sum + points, 0);
+        if (rest < 0 || (!includeSelf && rest !== 0)) return null;
+
+        const parts = allocateMoney(total, [...(basisPoints as number[]), rest]);
+        return { shares: parts.slice(0, -1), ownShare: parts[parts.length - 1] };
+    }
+
+    const amounts = values.map((value) => parseMoney(value, total.currency));
+    if (amounts.some((amount) => amount === null || amount.minor < 0)) return null;
+
+    const shares = amounts as Money[];
+    const ownShare = subtractMoney(total, sumMoney(shares, total.currency));
+    if (ownShare.minor < 0 || (!includeSelf && ownShare.minor !== 0)) return null;
+
+    return { shares, ownShare };
+};